@@ -2,34 +2,114 @@ import { useState, useEffect, useCallback } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { trpc } from '@/utils/trpc';
+import { setSessionToken } from '@/lib/session';
+import { formatMoney } from '@/lib/currency';
+import { Login } from '@/components/Login';
 import { ClientManagement } from '@/components/ClientManagement';
 import { TimeTracking } from '@/components/TimeTracking';
+import { Expenses } from '@/components/Expenses';
 import { ReportingDashboard } from '@/components/ReportingDashboard';
 import { UserManagement } from '@/components/UserManagement';
-import type { User } from '../../server/src/schema';
+import { TimerWidget } from '@/components/TimerWidget';
+import { WeeklyTimesheet } from '@/components/WeeklyTimesheet';
+import { TimesheetApprovals } from '@/components/TimesheetApprovals';
+import { PeriodLocks } from '@/components/PeriodLocks';
+import { WorkSchedules } from '@/components/WorkSchedules';
+import { HolidayCalendars } from '@/components/HolidayCalendars';
+import { Absences } from '@/components/Absences';
+import { AbsenceApprovals } from '@/components/AbsenceApprovals';
+import { RateCards } from '@/components/RateCards';
+import { CostRates } from '@/components/CostRates';
+import { ExchangeRates } from '@/components/ExchangeRates';
+import { Retainers } from '@/components/Retainers';
+import { Invoices } from '@/components/Invoices';
+import { Notifications } from '@/components/Notifications';
+import { Passwords } from '@/components/Passwords';
+import { PlanningBoard } from '@/components/PlanningBoard';
+import { BenchReport } from '@/components/BenchReport';
+import { Skills } from '@/components/Skills';
+import type { User, ActiveTimer } from '../../server/src/schema';
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
+  // Default bill rates are in the company's reporting currency
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+
+  // The stored session token, if any, resolves to the logged in user
+  const loadCurrentUser = useCallback(async () => {
+    try {
+      const result = await trpc.getCurrentUser.query();
+      setCurrentUser(result);
+    } catch (error) {
+      console.error('Failed to load current user:', error);
+    } finally {
+      setIsSessionChecked(true);
+    }
+  }, []);
 
   const loadUsers = useCallback(async () => {
+    if (!currentUser) return;
+
     try {
       const result = await trpc.getUsers.query();
       setUsers(result);
-      // Set first user as current user for demo purposes
-      if (result.length > 0) {
-        setCurrentUser(result[0]);
-      }
     } catch (error) {
       console.error('Failed to load users:', error);
     }
-  }, []);
+  }, [currentUser]);
+
+  const loadActiveTimer = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      const result = await trpc.getActiveTimer.query();
+      setActiveTimer(result);
+    } catch (error) {
+      console.error('Failed to load active timer:', error);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadCurrentUser();
+  }, [loadCurrentUser]);
 
   useEffect(() => {
     loadUsers();
   }, [loadUsers]);
 
+  useEffect(() => {
+    loadActiveTimer();
+  }, [loadActiveTimer]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    trpc.getCurrencySettings.query()
+      .then(settings => setReportingCurrency(settings.reporting_currency))
+      .catch((error: unknown) => console.error('Failed to load currency settings:', error));
+  }, [currentUser]);
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Failed to log out:', error);
+    } finally {
+      setSessionToken(null);
+      setCurrentUser(null);
+      setUsers([]);
+      setActiveTimer(null);
+    }
+  };
+
+  // Mirrors the procedure builders in server/src/trpc.ts
+  const canReview = currentUser !== null && currentUser.role !== 'consultant';
+  const isAdmin = currentUser?.role === 'administrator';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="container mx-auto px-4 py-8">
@@ -45,63 +125,150 @@ function App() {
               </p>
             </div>
             {currentUser && (
-              <Card className="bg-white/80 backdrop-blur-sm">
-                <CardHeader className="pb-3">
-                  <CardTitle className="text-lg flex items-center gap-2">
-                    👋 Welcome back, {currentUser.name}
-                  </CardTitle>
-                  <CardDescription className="flex items-center gap-2">
-                    <Badge variant={
-                      currentUser.role === 'administrator' ? 'default' :
-                      currentUser.role === 'project_manager' ? 'secondary' : 'outline'
-                    }>
-                      {currentUser.role.replace('_', ' ').toUpperCase()}
-                    </Badge>
-                    {currentUser.hourly_rate && (
-                      <span className="text-sm text-gray-500">
-                        ${currentUser.hourly_rate}/hr
-                      </span>
-                    )}
-                  </CardDescription>
-                </CardHeader>
-              </Card>
+              <div className="flex items-center gap-4">
+                <Notifications />
+                {activeTimer && (
+                  <TimerWidget
+                    activeTimer={activeTimer}
+                    onTimerChange={setActiveTimer}
+                  />
+                )}
+                <Card className="bg-white/80 backdrop-blur-sm">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      👋 Welcome back, {currentUser.name}
+                    </CardTitle>
+                    <CardDescription className="flex items-center gap-2">
+                      <Badge variant={
+                        currentUser.role === 'administrator' ? 'default' :
+                        currentUser.role === 'project_manager' ? 'secondary' : 'outline'
+                      }>
+                        {currentUser.role.replace('_', ' ').toUpperCase()}
+                      </Badge>
+                      {currentUser.hourly_rate && (
+                        <span className="text-sm text-gray-500">
+                          {formatMoney(currentUser.hourly_rate, reportingCurrency)}/hr
+                        </span>
+                      )}
+                    </CardDescription>
+                  </CardHeader>
+                </Card>
+                <Button variant="outline" onClick={handleLogout}>
+                  Log Out
+                </Button>
+              </div>
             )}
           </div>
         </div>
 
+        {isSessionChecked && !currentUser && (
+          <Login onLogin={setCurrentUser} />
+        )}
+
         {/* Main Content */}
-        <Tabs defaultValue="time-tracking" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 bg-white/80 backdrop-blur-sm">
-            <TabsTrigger value="time-tracking" className="flex items-center gap-2">
-              ⏰ Time Tracking
-            </TabsTrigger>
-            <TabsTrigger value="clients" className="flex items-center gap-2">
-              🏢 Clients & CRM
-            </TabsTrigger>
-            <TabsTrigger value="reports" className="flex items-center gap-2">
-              📊 Reports
-            </TabsTrigger>
-            <TabsTrigger value="users" className="flex items-center gap-2">
-              👥 Team
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="time-tracking" className="space-y-6">
-            <TimeTracking currentUser={currentUser} />
-          </TabsContent>
-
-          <TabsContent value="clients" className="space-y-6">
-            <ClientManagement currentUser={currentUser} />
-          </TabsContent>
-
-          <TabsContent value="reports" className="space-y-6">
-            <ReportingDashboard users={users} />
-          </TabsContent>
-
-          <TabsContent value="users" className="space-y-6">
-            <UserManagement users={users} onUsersChange={setUsers} />
-          </TabsContent>
-        </Tabs>
+        {currentUser && (
+          <Tabs defaultValue="time-tracking" className="space-y-6">
+            <TabsList className={`grid w-full ${canReview ? 'grid-cols-9' : 'grid-cols-5'} bg-white/80 backdrop-blur-sm`}>
+              <TabsTrigger value="time-tracking" className="flex items-center gap-2">
+                ⏰ Time Tracking
+              </TabsTrigger>
+              <TabsTrigger value="expenses" className="flex items-center gap-2">
+                💸 Expenses
+              </TabsTrigger>
+              <TabsTrigger value="absences" className="flex items-center gap-2">
+                🌴 Absences
+              </TabsTrigger>
+              <TabsTrigger value="clients" className="flex items-center gap-2">
+                🏢 Clients & CRM
+              </TabsTrigger>
+              {canReview && (
+                <TabsTrigger value="planning" className="flex items-center gap-2">
+                  🗓️ Planning
+                </TabsTrigger>
+              )}
+              {canReview && (
+                <TabsTrigger value="reports" className="flex items-center gap-2">
+                  📊 Reports
+                </TabsTrigger>
+              )}
+              <TabsTrigger value="users" className="flex items-center gap-2">
+                👥 Team
+              </TabsTrigger>
+              {canReview && (
+                <TabsTrigger value="invoices" className="flex items-center gap-2">
+                  🧾 Invoices
+                </TabsTrigger>
+              )}
+              {canReview && (
+                <TabsTrigger value="approvals" className="flex items-center gap-2">
+                  ✅ Approvals
+                </TabsTrigger>
+              )}
+            </TabsList>
+
+            <TabsContent value="time-tracking" className="space-y-6">
+              <TimeTracking
+                currentUser={currentUser}
+                activeTimer={activeTimer}
+                onTimerChange={setActiveTimer}
+              />
+              {currentUser && <WeeklyTimesheet currentUser={currentUser} />}
+            </TabsContent>
+
+            <TabsContent value="expenses" className="space-y-6">
+              {currentUser && <Expenses currentUser={currentUser} />}
+            </TabsContent>
+
+            <TabsContent value="absences" className="space-y-6">
+              {currentUser && <Absences currentUser={currentUser} />}
+            </TabsContent>
+
+            <TabsContent value="clients" className="space-y-6">
+              <ClientManagement currentUser={currentUser} reportingCurrency={reportingCurrency} />
+              {isAdmin && <RateCards users={users} />}
+              {isAdmin && <ExchangeRates />}
+              {canReview && <Retainers />}
+            </TabsContent>
+
+            {canReview && (
+              <TabsContent value="planning" className="space-y-6">
+                <PlanningBoard />
+                <BenchReport />
+              </TabsContent>
+            )}
+
+            {canReview && (
+              <TabsContent value="reports" className="space-y-6">
+                <ReportingDashboard users={users} />
+              </TabsContent>
+            )}
+
+            <TabsContent value="users" className="space-y-6">
+              <UserManagement canCreate={isAdmin} users={users} onUsersChange={setUsers} reportingCurrency={reportingCurrency} />
+              {isAdmin && <CostRates users={users} />}
+              {isAdmin && <WorkSchedules users={users} />}
+              {isAdmin && <HolidayCalendars users={users} onUsersChange={setUsers} />}
+              {isAdmin && (
+                <PeriodLocks users={users} />
+              )}
+              <Passwords currentUser={currentUser} users={users} />
+              {currentUser && <Skills currentUser={currentUser} users={users} />}
+            </TabsContent>
+
+            {canReview && (
+              <TabsContent value="invoices" className="space-y-6">
+                <Invoices />
+              </TabsContent>
+            )}
+
+            {canReview && currentUser && (
+              <TabsContent value="approvals" className="space-y-6">
+                <TimesheetApprovals currentUser={currentUser} users={users} />
+                <AbsenceApprovals currentUser={currentUser} users={users} />
+              </TabsContent>
+            )}
+          </Tabs>
+        )}
       </div>
     </div>
   );
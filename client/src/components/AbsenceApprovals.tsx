@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { ABSENCE_TYPE_LABELS } from '@/lib/absences';
+import type { User, Absence, AbsenceType, SetAbsenceAllowanceInput } from '../../../server/src/schema';
+
+interface AbsenceApprovalsProps {
+  currentUser: User;
+  users: User[];
+}
+
+export function AbsenceApprovals({ currentUser, users }: AbsenceApprovalsProps) {
+  const [pending, setPending] = useState<Absence[]>([]);
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [allowance, setAllowance] = useState<Omit<SetAbsenceAllowanceInput, 'user_id'> & { user_id: number | null }>({
+    user_id: null,
+    year: new Date().getFullYear(),
+    type: 'vacation',
+    days: 25
+  });
+
+  const loadPending = useCallback(async () => {
+    try {
+      const result = await trpc.getAbsences.query({ status: 'pending' });
+      // Reviewers cannot approve their own absences
+      setPending(result.filter(absence => absence.user_id !== currentUser.id));
+    } catch (error) {
+      console.error('Failed to load pending absences:', error);
+    }
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const handleReview = async (absence: Absence, decision: 'approve' | 'reject') => {
+    setIsLoading(true);
+    try {
+      const comment = comments[absence.id]?.trim() || null;
+      if (decision === 'approve') {
+        await trpc.approveAbsence.mutate({ absence_id: absence.id, comment });
+      } else {
+        await trpc.rejectAbsence.mutate({ absence_id: absence.id, comment: comment ?? '' });
+      }
+      setPending(prev => prev.filter(item => item.id !== absence.id));
+    } catch (error) {
+      console.error(`Failed to ${decision} absence:`, error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetAllowance = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (allowance.user_id === null) return;
+    setIsLoading(true);
+    try {
+      await trpc.setAbsenceAllowance.mutate({ ...allowance, user_id: allowance.user_id });
+    } catch (error) {
+      console.error('Failed to set absence allowance:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle>🌴 Absence Requests</CardTitle>
+          <CardDescription>Approved absences reduce the team member's capacity</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pending.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No absences waiting for review.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {pending.map((absence: Absence) => {
+                const owner = users.find(user => user.id === absence.user_id);
+                const comment = comments[absence.id] || '';
+
+                return (
+                  <div key={absence.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="font-medium">
+                      {owner?.name || `User #${absence.user_id}`} · {ABSENCE_TYPE_LABELS[absence.type]}
+                      {absence.half_day && ' (half day)'}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {new Date(absence.start_date).toLocaleDateString()}
+                      {absence.end_date !== absence.start_date && ` – ${new Date(absence.end_date).toLocaleDateString()}`}
+                      {absence.note && ` · ${absence.note}`}
+                    </div>
+                    <Input
+                      value={comment}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setComments(prev => ({ ...prev, [absence.id]: e.target.value }))
+                      }
+                      placeholder="Comment (required when rejecting)"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleReview(absence, 'reject')}
+                        disabled={isLoading || !comment.trim()}
+                      >
+                        Reject
+                      </Button>
+                      <Button size="sm" onClick={() => handleReview(absence, 'approve')} disabled={isLoading}>
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle>📅 Yearly Allowances</CardTitle>
+          <CardDescription>Days a team member may take per absence type and year</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSetAllowance} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Team Member</Label>
+              <Select
+                value={allowance.user_id?.toString() || ''}
+                onValueChange={(value: string) => setAllowance(prev => ({ ...prev, user_id: parseInt(value) }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a team member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user: User) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={allowance.type || 'vacation'}
+                  onValueChange={(value: AbsenceType) => setAllowance(prev => ({ ...prev, type: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ABSENCE_TYPE_LABELS) as AbsenceType[]).map(type => (
+                      <SelectItem key={type} value={type}>{ABSENCE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="allowance-year">Year</Label>
+                <Input
+                  id="allowance-year"
+                  type="number"
+                  value={allowance.year}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAllowance(prev => ({ ...prev, year: parseInt(e.target.value) || prev.year }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="allowance-days">Days</Label>
+                <Input
+                  id="allowance-days"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={allowance.days}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAllowance(prev => ({ ...prev, days: parseFloat(e.target.value) || 0 }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={isLoading || allowance.user_id === null} className="w-full">
+              Save Allowance
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { ABSENCE_TYPE_LABELS } from '@/lib/absences';
+import type {
+  User, Absence, AbsenceBalance, AbsenceType, RequestAbsenceInput
+} from '../../../server/src/schema';
+
+interface AbsencesProps {
+  currentUser: User;
+}
+
+const getStatusBadgeVariant = (status: Absence['status']) => {
+  switch (status) {
+    case 'approved':
+      return 'default';
+    case 'rejected':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+export function Absences({ currentUser }: AbsencesProps) {
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [balances, setBalances] = useState<AbsenceBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<Omit<RequestAbsenceInput, 'user_id'>>({
+    type: 'vacation',
+    start_date: new Date(),
+    end_date: new Date(),
+    half_day: false,
+    note: null
+  });
+
+  const year = new Date().getFullYear();
+
+  const loadAbsences = useCallback(async () => {
+    try {
+      const [absenceResult, balanceResult] = await Promise.all([
+        trpc.getAbsences.query({ user_id: currentUser.id }),
+        trpc.getAbsenceBalances.query({ user_id: currentUser.id, year })
+      ]);
+      setAbsences(absenceResult);
+      setBalances(balanceResult);
+    } catch (error) {
+      console.error('Failed to load absences:', error);
+    }
+  }, [currentUser.id, year]);
+
+  useEffect(() => {
+    loadAbsences();
+  }, [loadAbsences]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.requestAbsence.mutate({
+        ...formData,
+        // Half days are single-day absences
+        end_date: formData.half_day ? formData.start_date : formData.end_date
+      });
+      setFormData(prev => ({ ...prev, half_day: false, note: null }));
+      await loadAbsences();
+    } catch (error) {
+      console.error('Failed to request absence:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            🌴 Request Absence
+          </CardTitle>
+          <CardDescription>
+            A project manager approves requests; approved days reduce your capacity
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={formData.type || 'vacation'}
+                onValueChange={(value: AbsenceType) => setFormData(prev => ({ ...prev, type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ABSENCE_TYPE_LABELS) as AbsenceType[]).map(type => (
+                    <SelectItem key={type} value={type}>{ABSENCE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="absence-start">From</Label>
+                <Input
+                  id="absence-start"
+                  type="date"
+                  value={formData.start_date.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, start_date: new Date(e.target.value) }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="absence-end">To</Label>
+                <Input
+                  id="absence-end"
+                  type="date"
+                  value={(formData.half_day ? formData.start_date : formData.end_date).toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, end_date: new Date(e.target.value) }))
+                  }
+                  disabled={formData.half_day}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="absence-half-day"
+                checked={formData.half_day}
+                onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, half_day: checked }))}
+              />
+              <Label htmlFor="absence-half-day">Half day</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="absence-note">Note (Optional)</Label>
+              <Input
+                id="absence-note"
+                value={formData.note || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, note: e.target.value || null }))
+                }
+                placeholder="e.g. Family trip"
+              />
+            </div>
+            <Button type="submit" disabled={isLoading} className="w-full">
+              {isLoading ? 'Requesting...' : 'Request Absence'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card className="bg-white/90 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>📅 {year} Balance</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {balances.map((balance: AbsenceBalance) => (
+              <div key={balance.type} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                <span className="font-medium">{ABSENCE_TYPE_LABELS[balance.type]}</span>
+                <span className="text-sm text-gray-600">
+                  {balance.used_days} used
+                  {balance.pending_days > 0 && ` · ${balance.pending_days} pending`}
+                  {balance.remaining_days !== null && ` · ${balance.remaining_days} of ${balance.allowance_days} left`}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/90 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>🗂️ My Absences</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {absences.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>No absences requested yet.</p>
+              </div>
+            ) : (
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {absences.map((absence: Absence) => (
+                  <div key={absence.id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+                    <div className="flex items-center justify-between">
+                      <div className="font-medium">
+                        {ABSENCE_TYPE_LABELS[absence.type]}
+                        {absence.half_day && ' (half day)'}
+                      </div>
+                      <Badge variant={getStatusBadgeVariant(absence.status)}>{absence.status}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {new Date(absence.start_date).toLocaleDateString()}
+                      {absence.end_date !== absence.start_date && ` – ${new Date(absence.end_date).toLocaleDateString()}`}
+                      {absence.note && ` · ${absence.note}`}
+                    </div>
+                    {absence.review_comment && (
+                      <div className="text-xs text-gray-600">Reviewer: {absence.review_comment}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
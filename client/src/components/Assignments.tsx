@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { User, Project, Position, Assignment } from '../../../server/src/schema';
+
+interface AssignmentsProps {
+  project: Project;
+  positions: Position[];
+}
+
+const emptyForm = { user_id: 0, position_id: 0, start_date: '', end_date: '', planned_hours: '' };
+
+export function Assignments({ project, positions }: AssignmentsProps) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Dates and hours stay strings so the inputs can be left empty
+  const [formData, setFormData] = useState(emptyForm);
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      const result = await trpc.getAssignments.query({ project_id: project.id });
+      setAssignments(result);
+    } catch (error) {
+      console.error('Failed to load assignments:', error);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  useEffect(() => {
+    trpc.getUsers.query()
+      .then(setUsers)
+      .catch((error: unknown) => console.error('Failed to load users:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.createAssignment.mutate({
+        user_id: formData.user_id,
+        position_id: formData.position_id,
+        start_date: formData.start_date ? new Date(formData.start_date) : null,
+        end_date: formData.end_date ? new Date(formData.end_date) : null,
+        planned_hours: formData.planned_hours ? parseFloat(formData.planned_hours) : null
+      });
+      setFormData(emptyForm);
+      await loadAssignments();
+    } catch (error) {
+      console.error('Failed to create assignment:', error);
+      setError(error instanceof Error ? error.message : 'The assignment could not be created');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Ending keeps the history; booked time stays either way
+  const handleEnd = async (assignment: Assignment) => {
+    try {
+      await trpc.updateAssignment.mutate({ assignment_id: assignment.id, end_date: new Date() });
+      await loadAssignments();
+    } catch (error) {
+      console.error('Failed to end assignment:', error);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    try {
+      await trpc.deleteAssignment.mutate({ assignment_id: assignment.id });
+      setAssignments(prev => prev.filter(item => item.id !== assignment.id));
+    } catch (error) {
+      console.error('Failed to delete assignment:', error);
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🧑‍💼 Assignments
+        </CardTitle>
+        <CardDescription>
+          Team members can only book time on {project.name} positions they are assigned to
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Team Member</Label>
+              <Select
+                value={formData.user_id ? formData.user_id.toString() : ''}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, user_id: parseInt(value) }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a team member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user: User) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Position</Label>
+              <Select
+                value={formData.position_id ? formData.position_id.toString() : ''}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, position_id: parseInt(value) }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {positions.map((position: Position) => (
+                    <SelectItem key={position.id} value={position.id.toString()}>
+                      {position.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="assignment-start">From (Optional)</Label>
+              <Input
+                id="assignment-start"
+                type="date"
+                value={formData.start_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, start_date: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assignment-end">Until (Optional)</Label>
+              <Input
+                id="assignment-end"
+                type="date"
+                value={formData.end_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, end_date: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assignment-hours">Planned Hours</Label>
+              <Input
+                id="assignment-hours"
+                type="number"
+                min="0.25"
+                step="0.25"
+                value={formData.planned_hours}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, planned_hours: e.target.value }))
+                }
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={isLoading || !formData.user_id || !formData.position_id}
+            className="w-full"
+          >
+            {isLoading ? 'Saving...' : 'Assign'}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {assignments.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>Nobody is assigned to this project yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {assignments.map((assignment: Assignment) => {
+                const hasEnded = assignment.end_date !== null && assignment.end_date < today;
+                return (
+                  <div key={assignment.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{assignment.user_name}</div>
+                        <div className="text-xs text-gray-600">
+                          {assignment.position_name}
+                          {' · '}
+                          {assignment.start_date ? new Date(assignment.start_date).toLocaleDateString() : 'open start'}
+                          {' – '}
+                          {assignment.end_date ? new Date(assignment.end_date).toLocaleDateString() : 'open end'}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {assignment.planned_hours !== null && (
+                          <Badge variant="outline">{assignment.planned_hours}h planned</Badge>
+                        )}
+                        {hasEnded && <Badge variant="secondary">Ended</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {!hasEnded && (
+                        <Button variant="outline" size="sm" onClick={() => handleEnd(assignment)}>
+                          End Today
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(assignment)}>
+                        🗑️ Remove
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
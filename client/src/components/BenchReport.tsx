@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { SKILL_LEVEL_LABELS } from '@/lib/skills';
+import type { BenchReport as Report } from '../../../server/src/schema';
+
+const WEEK_COUNTS = [2, 4, 8];
+
+const formatWeek = (weekStart: string) =>
+  new Date(weekStart + 'T00:00:00Z').toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export function BenchReport() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [weeks, setWeeks] = useState(4);
+  const [threshold, setThreshold] = useState('50');
+
+  const thresholdPercent = Math.min(100, Math.max(0, parseFloat(threshold) || 0));
+
+  const loadReport = useCallback(async () => {
+    try {
+      const result = await trpc.getBenchReport.query({ weeks, threshold_percent: thresholdPercent });
+      setReport(result);
+    } catch (error) {
+      console.error('Failed to load bench report:', error);
+    }
+  }, [weeks, thresholdPercent]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              🪑 Bench
+            </CardTitle>
+            <CardDescription>
+              Consultants with the most free hours from this week on; a week counts the larger of planned and booked hours
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="bench-threshold" className="text-xs">Utilization below %</Label>
+              <Input
+                id="bench-threshold"
+                type="number"
+                min="0"
+                max="100"
+                className="w-24"
+                value={threshold}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setThreshold(e.target.value)}
+              />
+            </div>
+            <Select value={weeks.toString()} onValueChange={(value: string) => setWeeks(parseInt(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_COUNTS.map(count => (
+                  <SelectItem key={count} value={count.toString()}>{count} weeks</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!report || report.rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Nobody is below {thresholdPercent}% utilization.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-4">Consultant</th>
+                  {report.weeks.map(week => (
+                    <th key={week} className="py-2 pr-4 text-center">{formatWeek(week)}</th>
+                  ))}
+                  <th className="py-2 pr-4 text-right">Free</th>
+                  <th className="py-2 pr-4 text-right">Utilization</th>
+                  <th className="py-2">Skills</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.user_id} className="border-b">
+                    <td className="py-2 pr-4 font-medium">{row.user_name}</td>
+                    {row.weeks.map(week => (
+                      <td
+                        key={week.week_start}
+                        className="py-2 pr-4 text-center text-gray-600"
+                        title={`${week.planned_hours}h planned, ${week.booked_hours}h booked`}
+                      >
+                        {Math.max(week.planned_hours, week.booked_hours)}/{week.capacity_hours}h
+                      </td>
+                    ))}
+                    <td className="py-2 pr-4 text-right font-semibold text-green-700">{row.free_hours}h</td>
+                    <td className="py-2 pr-4 text-right">{row.utilization_percent}%</td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {row.skills.map(skill => (
+                          <Badge key={skill.skill_name} variant="outline">
+                            {skill.skill_name} · {SKILL_LEVEL_LABELS[skill.level]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { BUDGET_AMENDMENT_STATUS_LABELS } from '@/lib/projects';
+import { formatMoney } from '@/lib/currency';
+import type { User, Project, Position, BudgetAmendment } from '../../../server/src/schema';
+
+interface BudgetAmendmentsProps {
+  currentUser: User;
+  project: Project;
+  positions: Position[];
+  currency: string; // The client's
+  onBudgetChanged: () => void; // Approvals change the project or position budget
+}
+
+const formatDelta = (delta: number, currency: string) => `${delta > 0 ? '+' : '−'}${formatMoney(Math.abs(delta), currency)}`;
+
+export function BudgetAmendments({ currentUser, project, positions, currency, onBudgetChanged }: BudgetAmendmentsProps) {
+  const [amendments, setAmendments] = useState<BudgetAmendment[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<{ scope: string; delta: number; reason: string }>({
+    scope: 'project',
+    delta: 0,
+    reason: ''
+  });
+
+  const loadAmendments = useCallback(async () => {
+    try {
+      const [projectAmendments, ...positionAmendments] = await Promise.all([
+        trpc.getBudgetAmendments.query({ project_id: project.id }),
+        ...positions.map(position => trpc.getBudgetAmendments.query({ position_id: position.id }))
+      ]);
+      setAmendments(
+        [...projectAmendments, ...positionAmendments.flat()]
+          .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      );
+    } catch (error) {
+      console.error('Failed to load budget amendments:', error);
+    }
+  }, [project.id, positions]);
+
+  useEffect(() => {
+    loadAmendments();
+  }, [loadAmendments]);
+
+  useEffect(() => {
+    trpc.getUsers.query()
+      .then(setUsers)
+      .catch((error: unknown) => console.error('Failed to load users:', error));
+  }, []);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.requestBudgetAmendment.mutate({
+        project_id: formData.scope === 'project' ? project.id : null,
+        position_id: formData.scope === 'project' ? null : parseInt(formData.scope),
+        delta: formData.delta,
+        reason: formData.reason
+      });
+      setFormData(prev => ({ ...prev, delta: 0, reason: '' }));
+      await loadAmendments();
+    } catch (error) {
+      console.error('Failed to request budget amendment:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReview = async (amendment: BudgetAmendment, decision: 'approve' | 'reject') => {
+    setIsLoading(true);
+    try {
+      const comment = comments[amendment.id]?.trim() || null;
+      if (decision === 'approve') {
+        await trpc.approveBudgetAmendment.mutate({ amendment_id: amendment.id, comment });
+        onBudgetChanged();
+      } else {
+        await trpc.rejectBudgetAmendment.mutate({ amendment_id: amendment.id, comment: comment ?? '' });
+      }
+      await loadAmendments();
+    } catch (error) {
+      console.error(`Failed to ${decision} budget amendment:`, error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const scopeName = (amendment: BudgetAmendment) =>
+    amendment.project_id !== null
+      ? `${project.name} (project)`
+      : positions.find(position => position.id === amendment.position_id)?.name || `Position #${amendment.position_id}`;
+
+  const userName = (userId: number) => users.find(user => user.id === userId)?.name || `User #${userId}`;
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📝 Budget Amendments
+        </CardTitle>
+        <CardDescription>
+          Budget changes take effect once an administrator approves them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleRequest} className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Budget</Label>
+              <Select
+                value={formData.scope || 'project'}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, scope: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="project">{project.name} (project)</SelectItem>
+                  {positions.map((position: Position) => (
+                    <SelectItem key={position.id} value={position.id.toString()}>
+                      {position.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Change ({currency}, negative to reduce)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={formData.delta || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, delta: parseFloat(e.target.value) || 0 }))
+                }
+                placeholder="e.g., 5000"
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Input
+              value={formData.reason}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, reason: e.target.value }))
+              }
+              placeholder="e.g., Change request for the reporting module"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isLoading || formData.delta === 0 || !formData.reason.trim()}>
+            Request Amendment
+          </Button>
+        </form>
+
+        {amendments.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <p>No budget amendments yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {amendments.map((amendment: BudgetAmendment) => {
+              const canReview = amendment.status === 'pending' &&
+                currentUser.role === 'administrator' &&
+                amendment.requested_by !== currentUser.id;
+              const comment = comments[amendment.id] || '';
+
+              return (
+                <div key={amendment.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium">
+                      {scopeName(amendment)} · {formatDelta(amendment.delta, currency)}
+                    </div>
+                    <Badge variant={amendment.status === 'rejected' ? 'destructive' : amendment.status === 'approved' ? 'default' : 'outline'}>
+                      {BUDGET_AMENDMENT_STATUS_LABELS[amendment.status]}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {amendment.reason} · requested by {userName(amendment.requested_by)} on{' '}
+                    {new Date(amendment.created_at).toLocaleDateString()}
+                  </div>
+                  {amendment.reviewed_by !== null && (
+                    <div className="text-xs text-gray-600">
+                      Reviewed by {userName(amendment.reviewed_by)}
+                      {amendment.budget_before !== null && ` · budget was ${formatMoney(amendment.budget_before, currency)}`}
+                      {amendment.review_comment && ` · ${amendment.review_comment}`}
+                    </div>
+                  )}
+                  {canReview && (
+                    <>
+                      <Input
+                        value={comment}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setComments(prev => ({ ...prev, [amendment.id]: e.target.value }))
+                        }
+                        placeholder="Comment (required when rejecting)"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleReview(amendment, 'reject')}
+                          disabled={isLoading || !comment.trim()}
+                        >
+                          Reject
+                        </Button>
+                        <Button size="sm" onClick={() => handleReview(amendment, 'approve')} disabled={isLoading}>
+                          Approve
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
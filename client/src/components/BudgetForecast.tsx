@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { FORECAST_STATUS_LABELS } from '@/lib/projects';
+import { formatMoney } from '@/lib/currency';
+import type { BudgetForecast as Forecast } from '../../../server/src/schema';
+
+interface BudgetForecastProps {
+  clientId?: number;
+  projectId?: number;
+}
+
+const FORECAST_WINDOWS = [7, 30, 90];
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '—');
+
+// Actual cumulative consumption, the forecast until the end date and the budget line
+function BurnUpChart({ forecast }: { forecast: Forecast }) {
+  const width = 560;
+  const height = 180;
+  const padding = 8;
+
+  const start = Date.parse(forecast.burn_up[0].date);
+  const lastDate = [forecast.as_of, forecast.end_date, forecast.projected_exhaustion_date]
+    .filter((date): date is string => date !== null)
+    .reduce((latest, date) => (date > latest ? date : latest));
+  const span = Math.max(Date.parse(lastDate) - start, 1);
+  const top = Math.max(forecast.total_budget ?? 0, forecast.estimate_at_completion ?? 0, forecast.consumed_amount, 1) * 1.1;
+
+  const x = (date: string) => padding + ((Date.parse(date) - start) / span) * (width - 2 * padding);
+  const y = (amount: number) => height - padding - (amount / top) * (height - 2 * padding);
+
+  const actual = forecast.burn_up.map(point => `${x(point.date)},${y(point.consumed)}`).join(' ');
+
+  // The forecast runs to the end date, or to the exhaustion date without one
+  const forecastEnd = forecast.end_date !== null && forecast.end_date > forecast.as_of
+    ? { date: forecast.end_date, amount: forecast.estimate_at_completion! }
+    : forecast.end_date === null && forecast.projected_exhaustion_date !== null && forecast.total_budget !== null &&
+      forecast.projected_exhaustion_date > forecast.as_of
+      ? { date: forecast.projected_exhaustion_date, amount: forecast.total_budget }
+      : null;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-44 bg-white rounded border">
+      {forecast.total_budget !== null && (
+        <line x1={padding} x2={width - padding} y1={y(forecast.total_budget)} y2={y(forecast.total_budget)} stroke="#dc2626" strokeDasharray="6 4" />
+      )}
+      {forecast.end_date !== null && (
+        <line x1={x(forecast.end_date)} x2={x(forecast.end_date)} y1={padding} y2={height - padding} stroke="#9ca3af" strokeDasharray="2 3" />
+      )}
+      {forecastEnd && (
+        <line
+          x1={x(forecast.as_of)}
+          y1={y(forecast.consumed_amount)}
+          x2={x(forecastEnd.date)}
+          y2={y(forecastEnd.amount)}
+          stroke="#f59e0b"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+        />
+      )}
+      <polyline points={actual} fill="none" stroke="#2563eb" strokeWidth={2} />
+    </svg>
+  );
+}
+
+export function BudgetForecast({ clientId, projectId }: BudgetForecastProps) {
+  const [forecasts, setForecasts] = useState<Forecast[]>([]);
+  const [windowDays, setWindowDays] = useState(30);
+
+  const loadForecasts = useCallback(async () => {
+    try {
+      const result = await trpc.getBudgetForecast.query({
+        client_id: clientId,
+        project_id: projectId,
+        forecast_window_days: windowDays
+      });
+      setForecasts(result);
+    } catch (error) {
+      console.error('Failed to load budget forecast:', error);
+    }
+  }, [clientId, projectId, windowDays]);
+
+  useEffect(() => {
+    loadForecasts();
+  }, [loadForecasts]);
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              📈 Burn Forecast
+            </CardTitle>
+            <CardDescription>
+              Will the remaining budget last until the end date? Projected from the recent burn rate
+            </CardDescription>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Burn rate of the last</Label>
+            <Select value={windowDays.toString() || '30'} onValueChange={(value: string) => setWindowDays(parseInt(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECAST_WINDOWS.map(days => (
+                  <SelectItem key={days} value={days.toString()}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {forecasts.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No projects with a budget to forecast.</p>
+          </div>
+        ) : (
+          forecasts.map((forecast: Forecast) => (
+            <div key={forecast.project_id} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">{forecast.project_name}</div>
+                  <div className="text-xs text-gray-600">
+                    {forecast.client_name} · {formatDate(forecast.start_date)} – {formatDate(forecast.end_date)}
+                  </div>
+                </div>
+                <Badge variant={
+                  forecast.status === 'over_budget' ? 'destructive' :
+                  forecast.status === 'at_risk' ? 'default' : 'secondary'
+                }>
+                  {FORECAST_STATUS_LABELS[forecast.status]}
+                </Badge>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                <div className="p-2 bg-blue-50 rounded-lg">
+                  <div className="font-bold text-blue-600">{formatMoney(forecast.consumed_amount, forecast.currency)}</div>
+                  <div className="text-xs text-gray-600">
+                    of {forecast.total_budget !== null ? formatMoney(forecast.total_budget, forecast.currency) : 'no budget'}
+                  </div>
+                </div>
+                <div className="p-2 bg-gray-50 rounded-lg">
+                  <div className="font-bold">{formatMoney(forecast.forecast_daily_rate, forecast.currency)}/day</div>
+                  <div className="text-xs text-gray-600">
+                    {forecast.burn_rates.map(rate => `${rate.window_days}d: ${formatMoney(rate.daily_rate, forecast.currency)}`).join(' · ')}
+                  </div>
+                </div>
+                <div className="p-2 bg-gray-50 rounded-lg">
+                  <div className="font-bold">{formatDate(forecast.projected_exhaustion_date)}</div>
+                  <div className="text-xs text-gray-600">Budget exhausted</div>
+                </div>
+                <div className="p-2 bg-gray-50 rounded-lg">
+                  <div className="font-bold">
+                    {forecast.estimate_at_completion !== null ? formatMoney(forecast.estimate_at_completion, forecast.currency) : '—'}
+                  </div>
+                  <div className="text-xs text-gray-600">Estimate at completion</div>
+                </div>
+                <div className={`p-2 rounded-lg ${
+                  forecast.variance_at_completion !== null && forecast.variance_at_completion < 0 ? 'bg-red-50' : 'bg-green-50'
+                }`}>
+                  <div className="font-bold">
+                    {forecast.variance_at_completion !== null ? formatMoney(forecast.variance_at_completion, forecast.currency) : '—'}
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {forecast.forecast_variance_days !== null
+                      ? forecast.forecast_variance_days < 0
+                        ? `Runs out ${-forecast.forecast_variance_days} days before the end`
+                        : `Lasts ${forecast.forecast_variance_days} days past the end`
+                      : 'Variance at completion'}
+                  </div>
+                </div>
+              </div>
+
+              <BurnUpChart forecast={forecast} />
+              {forecast.unpriced_hours > 0 && (
+                <p className="text-xs text-orange-600">⚠️ {forecast.unpriced_hours}h have no applicable rate and are not counted</p>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { formatMoney } from '@/lib/currency';
+import type { Project, Position, BudgetThreshold } from '../../../server/src/schema';
+
+interface BudgetThresholdsProps {
+  project: Project;
+  positions: Position[];
+  currency: string; // The client's
+}
+
+// Scope keys: "project" or the position ID
+type ScopeKey = 'project' | number;
+
+const parsePercents = (value: string): number[] =>
+  value.split(/[,\s/]+/).map(part => parseInt(part)).filter(percent => percent > 0);
+
+export function BudgetThresholds({ project, positions, currency }: BudgetThresholdsProps) {
+  const [thresholds, setThresholds] = useState<BudgetThreshold[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<ScopeKey | null>(null);
+
+  const loadThresholds = useCallback(async () => {
+    try {
+      const [projectThresholds, ...positionThresholds] = await Promise.all([
+        trpc.getBudgetThresholds.query({ project_id: project.id }),
+        ...positions.map(position => trpc.getBudgetThresholds.query({ position_id: position.id }))
+      ]);
+      setThresholds([...projectThresholds, ...positionThresholds.flat()]);
+    } catch (error) {
+      console.error('Failed to load budget thresholds:', error);
+    }
+  }, [project.id, positions]);
+
+  useEffect(() => {
+    loadThresholds();
+  }, [loadThresholds]);
+
+  const thresholdsOf = (key: ScopeKey) =>
+    thresholds.filter(threshold => (key === 'project' ? threshold.project_id === project.id : threshold.position_id === key));
+
+  const handleSave = async (key: ScopeKey) => {
+    const draft = drafts[String(key)];
+    if (draft === undefined) return;
+    setSavingKey(key);
+    try {
+      await trpc.setBudgetThresholds.mutate({
+        project_id: key === 'project' ? project.id : null,
+        position_id: key === 'project' ? null : key,
+        percents: parsePercents(draft)
+      });
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[String(key)];
+        return next;
+      });
+      await loadThresholds();
+    } catch (error) {
+      console.error('Failed to save budget thresholds:', error);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const scopes: Array<{ key: ScopeKey; name: string; budget: number | null }> = [
+    { key: 'project', name: `${project.name} (project)`, budget: project.budget },
+    ...positions.map(position => ({ key: position.id, name: position.name, budget: position.budget }))
+  ];
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🔔 Budget Alerts
+        </CardTitle>
+        <CardDescription>
+          Consumption percentages, e.g. 50, 80, 100, that notify you once crossed by new bookings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {scopes.map(scope => {
+          const current = thresholdsOf(scope.key);
+          const draft = drafts[String(scope.key)] ?? current.map(threshold => threshold.percent).join(', ');
+          return (
+            <div key={String(scope.key)} className="p-3 bg-gray-50 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">{scope.name}</div>
+                {scope.budget === null ? (
+                  <span className="text-xs text-gray-500">No budget</span>
+                ) : (
+                  <span className="text-xs text-gray-600">Budget: {formatMoney(scope.budget, currency)}</span>
+                )}
+              </div>
+              {current.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {current.map(threshold => (
+                    <Badge key={threshold.id} variant={threshold.triggered_at ? 'destructive' : 'outline'}>
+                      {threshold.percent}%{threshold.triggered_at && ' reached'}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  value={draft}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setDrafts(prev => ({ ...prev, [String(scope.key)]: e.target.value }))
+                  }
+                  placeholder="e.g., 50, 80, 100"
+                  disabled={scope.budget === null}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSave(scope.key)}
+                  disabled={savingKey !== null || drafts[String(scope.key)] === undefined}
+                >
+                  {savingKey === scope.key ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
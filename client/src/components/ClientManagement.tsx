@@ -10,17 +10,25 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { trpc } from '@/utils/trpc';
+import { BILLING_MODEL_LABELS } from '@/lib/projects';
+import { CURRENCIES, formatMoney } from '@/lib/currency';
+import { Milestones } from '@/components/Milestones';
+import { BudgetThresholds } from '@/components/BudgetThresholds';
+import { BudgetAmendments } from '@/components/BudgetAmendments';
+import { Assignments } from '@/components/Assignments';
+import { Staffing } from '@/components/Staffing';
 import type { 
-  User, Client, Contact, Project, Position, ClientNote, ActivityLog,
+  User, Client, Contact, Project, Position, ClientNote, ActivityLog, BillingModel,
   CreateClientInput, CreateContactInput, CreateProjectInput, CreatePositionInput,
   CreateClientNoteInput, CreateActivityLogInput
 } from '../../../server/src/schema';
 
 interface ClientManagementProps {
   currentUser: User | null;
+  reportingCurrency: string; // Default position rates are in it
 }
 
-export function ClientManagement({ currentUser }: ClientManagementProps) {
+export function ClientManagement({ currentUser, reportingCurrency }: ClientManagementProps) {
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [contacts, setContacts] = useState<Contact[]>([]);
@@ -50,6 +58,7 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     name: '',
     description: null,
     budget: null,
+    billing_model: 'time_and_materials',
     status: 'active',
     start_date: null,
     end_date: null
@@ -63,15 +72,13 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     hourly_rate: null
   });
 
-  const [noteForm, setNoteForm] = useState<CreateClientNoteInput>({
+  const [noteForm, setNoteForm] = useState<Omit<CreateClientNoteInput, 'user_id'>>({
     client_id: 0,
-    user_id: currentUser?.id || 0,
     note: ''
   });
 
-  const [activityForm, setActivityForm] = useState<CreateActivityLogInput>({
+  const [activityForm, setActivityForm] = useState<Omit<CreateActivityLogInput, 'user_id'>>({
     client_id: 0,
-    user_id: currentUser?.id || 0,
     activity_type: 'meeting',
     description: '',
     activity_date: new Date()
@@ -131,20 +138,13 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     }
   }, [selectedProjectId, loadPositions]);
 
-  useEffect(() => {
-    if (currentUser) {
-      setNoteForm(prev => ({ ...prev, user_id: currentUser.id }));
-      setActivityForm(prev => ({ ...prev, user_id: currentUser.id }));
-    }
-  }, [currentUser]);
-
   const handleCreateClient = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     try {
       const result = await trpc.createClient.mutate(clientForm);
       setClients(prev => [result, ...prev]);
-      setClientForm({ name: '', address: null, industry: null });
+      setClientForm({ name: '', address: null, industry: null, currency: undefined });
     } catch (error) {
       console.error('Failed to create client:', error);
     } finally {
@@ -188,6 +188,7 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
         name: '',
         description: null,
         budget: null,
+        billing_model: 'time_and_materials',
         status: 'active',
         start_date: null,
         end_date: null
@@ -230,14 +231,12 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     try {
       const noteData = {
         ...noteForm,
-        client_id: selectedClient.id,
-        user_id: currentUser.id
+        client_id: selectedClient.id
       };
       const result = await trpc.createClientNote.mutate(noteData);
       setClientNotes(prev => [result, ...prev]);
       setNoteForm({
         client_id: selectedClient.id,
-        user_id: currentUser.id,
         note: ''
       });
     } catch (error) {
@@ -255,14 +254,12 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     try {
       const activityData = {
         ...activityForm,
-        client_id: selectedClient.id,
-        user_id: currentUser.id
+        client_id: selectedClient.id
       };
       const result = await trpc.createActivityLog.mutate(activityData);
       setActivityLogs(prev => [result, ...prev]);
       setActivityForm({
         client_id: selectedClient.id,
-        user_id: currentUser.id,
         activity_type: 'meeting',
         description: '',
         activity_date: new Date()
@@ -274,6 +271,8 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     }
   };
 
+  const selectedProject = projects.find(project => project.id === selectedProjectId);
+
   if (!currentUser) {
     return (
       <Alert>
@@ -284,65 +283,90 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
     );
   }
 
+  // Consultants see clients and keep notes; the rest is for project managers and administrators
+  const canManage = currentUser.role !== 'consultant';
+
   return (
     <div className="grid gap-6">
       {/* Client Selection and Creation */}
       <div className="grid gap-6 md:grid-cols-2">
-        <Card className="bg-white/90 backdrop-blur-sm">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              🏢 Client Management
-            </CardTitle>
-            <CardDescription>
-              Manage your client portfolio
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleCreateClient} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="client-name">Client Name *</Label>
-                <Input
-                  id="client-name"
-                  value={clientForm.name}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setClientForm(prev => ({ ...prev, name: e.target.value }))
-                  }
-                  placeholder="Acme Corporation"
-                  required
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="client-industry">Industry</Label>
-                <Input
-                  id="client-industry"
-                  value={clientForm.industry || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setClientForm(prev => ({ ...prev, industry: e.target.value || null }))
-                  }
-                  placeholder="Technology, Healthcare, Finance..."
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="client-address">Address</Label>
-                <Textarea
-                  id="client-address"
-                  value={clientForm.address || ''}
-                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                    setClientForm(prev => ({ ...prev, address: e.target.value || null }))
-                  }
-                  placeholder="123 Business St, City, State 12345"
-                  rows={3}
-                />
-              </div>
-              
-              <Button type="submit" disabled={isLoading} className="w-full">
-                {isLoading ? 'Creating...' : 'Create Client'}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+        {canManage && (
+          <Card className="bg-white/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                🏢 Client Management
+              </CardTitle>
+              <CardDescription>
+                Manage your client portfolio
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreateClient} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="client-name">Client Name *</Label>
+                  <Input
+                    id="client-name"
+                    value={clientForm.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setClientForm(prev => ({ ...prev, name: e.target.value }))
+                    }
+                    placeholder="Acme Corporation"
+                    required
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="client-industry">Industry</Label>
+                  <Input
+                    id="client-industry"
+                    value={clientForm.industry || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setClientForm(prev => ({ ...prev, industry: e.target.value || null }))
+                    }
+                    placeholder="Technology, Healthcare, Finance..."
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Billing Currency</Label>
+                  <Select
+                    value={clientForm.currency || 'default'}
+                    onValueChange={(value: string) =>
+                      setClientForm(prev => ({ ...prev, currency: value === 'default' ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Reporting currency</SelectItem>
+                      {CURRENCIES.map(currency => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="client-address">Address</Label>
+                  <Textarea
+                    id="client-address"
+                    value={clientForm.address || ''}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setClientForm(prev => ({ ...prev, address: e.target.value || null }))
+                    }
+                    placeholder="123 Business St, City, State 12345"
+                    rows={3}
+                  />
+                </div>
+                
+                <Button type="submit" disabled={isLoading} className="w-full">
+                  {isLoading ? 'Creating...' : 'Create Client'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
 
         <Card className="bg-white/90 backdrop-blur-sm">
           <CardHeader>
@@ -379,6 +403,9 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
                             {client.industry}
                           </Badge>
                         )}
+                        <Badge variant="secondary" className="mt-1 ml-1">
+                          {client.currency}
+                        </Badge>
                       </div>
                       <div className="text-xs text-gray-500">
                         Created: {client.created_at.toLocaleDateString()}
@@ -420,38 +447,40 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
 
               <TabsContent value="contacts" className="space-y-4">
                 <div className="grid gap-4 md:grid-cols-2">
-                  <div>
-                    <h3 className="text-lg font-medium mb-3">Add New Contact</h3>
-                    <form onSubmit={handleCreateContact} className="space-y-3">
-                      <Input
-                        value={contactForm.name}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setContactForm(prev => ({ ...prev, name: e.target.value }))
-                        }
-                        placeholder="Contact name"
-                        required
-                      />
-                      <Input
-                        type="email"
-                        value={contactForm.email || ''}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setContactForm(prev => ({ ...prev, email: e.target.value || null }))
-                        }
-                        placeholder="email@example.com"
-                      />
-                      <Input
-                        type="tel"
-                        value={contactForm.phone || ''}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setContactForm(prev => ({ ...prev, phone: e.target.value || null }))
-                        }
-                        placeholder="(555) 123-4567"
-                      />
-                      <Button type="submit" disabled={isLoading}>
-                        Add Contact
-                      </Button>
-                    </form>
-                  </div>
+                  {canManage && (
+                    <div>
+                      <h3 className="text-lg font-medium mb-3">Add New Contact</h3>
+                      <form onSubmit={handleCreateContact} className="space-y-3">
+                        <Input
+                          value={contactForm.name}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setContactForm(prev => ({ ...prev, name: e.target.value }))
+                          }
+                          placeholder="Contact name"
+                          required
+                        />
+                        <Input
+                          type="email"
+                          value={contactForm.email || ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setContactForm(prev => ({ ...prev, email: e.target.value || null }))
+                          }
+                          placeholder="email@example.com"
+                        />
+                        <Input
+                          type="tel"
+                          value={contactForm.phone || ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setContactForm(prev => ({ ...prev, phone: e.target.value || null }))
+                          }
+                          placeholder="(555) 123-4567"
+                        />
+                        <Button type="submit" disabled={isLoading}>
+                          Add Contact
+                        </Button>
+                      </form>
+                    </div>
+                  )}
                   
                   <div>
                     <h3 className="text-lg font-medium mb-3">Current Contacts</h3>
@@ -478,58 +507,76 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
 
               <TabsContent value="projects" className="space-y-4">
                 <div className="grid gap-4 md:grid-cols-2">
-                  <div>
-                    <h3 className="text-lg font-medium mb-3">Create New Project</h3>
-                    <form onSubmit={handleCreateProject} className="space-y-3">
-                      <Input
-                        value={projectForm.name}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setProjectForm(prev => ({ ...prev, name: e.target.value }))
-                        }
-                        placeholder="Project name"
-                        required
-                      />
-                      <Textarea
-                        value={projectForm.description || ''}
-                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                          setProjectForm(prev => ({ ...prev, description: e.target.value || null }))
-                        }
-                        placeholder="Project description"
-                        rows={2}
-                      />
-                      <div className="grid grid-cols-2 gap-2">
+                  {canManage && (
+                    <div>
+                      <h3 className="text-lg font-medium mb-3">Create New Project</h3>
+                      <form onSubmit={handleCreateProject} className="space-y-3">
                         <Input
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          value={projectForm.budget || ''}
+                          value={projectForm.name}
                           onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                            setProjectForm(prev => ({ ...prev, budget: parseFloat(e.target.value) || null }))
+                            setProjectForm(prev => ({ ...prev, name: e.target.value }))
+                          }
+                          placeholder="Project name"
+                          required
+                        />
+                        <Textarea
+                          value={projectForm.description || ''}
+                          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                            setProjectForm(prev => ({ ...prev, description: e.target.value || null }))
                           }
-                          placeholder="Budget ($)"
+                          placeholder="Project description"
+                          rows={2}
                         />
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={projectForm.budget || ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setProjectForm(prev => ({ ...prev, budget: parseFloat(e.target.value) || null }))
+                            }
+                            placeholder={projectForm.billing_model === 'time_and_materials' ? `Budget (${selectedClient.currency})` : `Budget (${selectedClient.currency}, required)`}
+                            required={projectForm.billing_model !== 'time_and_materials'}
+                          />
+                          <Select
+                            value={projectForm.status || 'active'}
+                            onValueChange={(value) =>
+                              setProjectForm(prev => ({ ...prev, status: value as 'active' | 'completed' | 'on_hold' | 'cancelled' }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="active">Active</SelectItem>
+                              <SelectItem value="on_hold">On Hold</SelectItem>
+                              <SelectItem value="completed">Completed</SelectItem>
+                              <SelectItem value="cancelled">Cancelled</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                         <Select
-                          value={projectForm.status || 'active'}
+                          value={projectForm.billing_model || 'time_and_materials'}
                           onValueChange={(value) =>
-                            setProjectForm(prev => ({ ...prev, status: value as 'active' | 'completed' | 'on_hold' | 'cancelled' }))
+                            setProjectForm(prev => ({ ...prev, billing_model: value as BillingModel }))
                           }
                         >
                           <SelectTrigger>
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="active">Active</SelectItem>
-                            <SelectItem value="on_hold">On Hold</SelectItem>
-                            <SelectItem value="completed">Completed</SelectItem>
-                            <SelectItem value="cancelled">Cancelled</SelectItem>
+                            {Object.entries(BILLING_MODEL_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
-                      </div>
-                      <Button type="submit" disabled={isLoading}>
-                        Create Project
-                      </Button>
-                    </form>
-                  </div>
+                        <Button type="submit" disabled={isLoading}>
+                          Create Project
+                        </Button>
+                      </form>
+                    </div>
+                  )}
                   
                   <div>
                     <h3 className="text-lg font-medium mb-3">Current Projects</h3>
@@ -562,11 +609,14 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
                                 {project.description}
                               </div>
                             )}
-                            {project.budget && (
-                              <div className="text-sm text-green-600 mt-1">
-                                Budget: ${project.budget.toLocaleString()}
-                              </div>
-                            )}
+                            <div className="flex items-center justify-between mt-1">
+                              <Badge variant="outline">{BILLING_MODEL_LABELS[project.billing_model]}</Badge>
+                              {project.budget && (
+                                <div className="text-sm text-green-600">
+                                  {project.billing_model === 'capped_time_and_materials' ? 'Cap' : 'Budget'}: {formatMoney(project.budget, selectedClient.currency)}
+                                </div>
+                              )}
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -578,52 +628,54 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
               <TabsContent value="positions" className="space-y-4">
                 {selectedProjectId ? (
                   <div className="grid gap-4 md:grid-cols-2">
-                    <div>
-                      <h3 className="text-lg font-medium mb-3">Create New Position</h3>
-                      <form onSubmit={handleCreatePosition} className="space-y-3">
-                        <Input
-                          value={positionForm.name}
-                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                            setPositionForm(prev => ({ ...prev, name: e.target.value }))
-                          }
-                          placeholder="Position name (e.g., Senior Developer)"
-                          required
-                        />
-                        <Textarea
-                          value={positionForm.description || ''}
-                          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                            setPositionForm(prev => ({ ...prev, description: e.target.value || null }))
-                          }
-                          placeholder="Position description"
-                          rows={2}
-                        />
-                        <div className="grid grid-cols-2 gap-2">
+                    {canManage && (
+                      <div>
+                        <h3 className="text-lg font-medium mb-3">Create New Position</h3>
+                        <form onSubmit={handleCreatePosition} className="space-y-3">
                           <Input
-                            type="number"
-                            step="0.01"
-                            min="0"
-                            value={positionForm.budget || ''}
+                            value={positionForm.name}
                             onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                              setPositionForm(prev => ({ ...prev, budget: parseFloat(e.target.value) || null }))
+                              setPositionForm(prev => ({ ...prev, name: e.target.value }))
                             }
-                            placeholder="Budget ($)"
+                            placeholder="Position name (e.g., Senior Developer)"
+                            required
                           />
-                          <Input
-                            type="number"
-                            step="0.01"
-                            min="0"
-                            value={positionForm.hourly_rate || ''}
-                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                              setPositionForm(prev => ({ ...prev, hourly_rate: parseFloat(e.target.value) || null }))
+                          <Textarea
+                            value={positionForm.description || ''}
+                            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                              setPositionForm(prev => ({ ...prev, description: e.target.value || null }))
                             }
-                            placeholder="Hourly rate ($)"
+                            placeholder="Position description"
+                            rows={2}
                           />
-                        </div>
-                        <Button type="submit" disabled={isLoading}>
-                          Create Position
-                        </Button>
-                      </form>
-                    </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={positionForm.budget || ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setPositionForm(prev => ({ ...prev, budget: parseFloat(e.target.value) || null }))
+                              }
+                              placeholder={`Budget (${selectedClient.currency})`}
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={positionForm.hourly_rate || ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setPositionForm(prev => ({ ...prev, hourly_rate: parseFloat(e.target.value) || null }))
+                              }
+                              placeholder={`Default hourly rate (${reportingCurrency})`}
+                            />
+                          </div>
+                          <Button type="submit" disabled={isLoading}>
+                            Create Position
+                          </Button>
+                        </form>
+                      </div>
+                    )}
                     
                     <div>
                       <h3 className="text-lg font-medium mb-3">Current Positions</h3>
@@ -642,12 +694,12 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
                               <div className="flex items-center justify-between mt-2">
                                 {position.hourly_rate && (
                                   <Badge variant="outline">
-                                    ${position.hourly_rate}/hr
+                                    {formatMoney(position.hourly_rate, reportingCurrency)}/hr
                                   </Badge>
                                 )}
                                 {position.budget && (
                                   <div className="text-sm text-green-600">
-                                    Budget: ${position.budget.toLocaleString()}
+                                    Budget: {formatMoney(position.budget, selectedClient.currency)}
                                   </div>
                                 )}
                               </div>
@@ -664,6 +716,36 @@ export function ClientManagement({ currentUser }: ClientManagementProps) {
                     </AlertDescription>
                   </Alert>
                 )}
+                {canManage && selectedProject && (
+                  <Assignments key={selectedProject.id} project={selectedProject} positions={positions} />
+                )}
+                {canManage && selectedProject && (
+                  <Staffing key={selectedProject.id} project={selectedProject} positions={positions} />
+                )}
+                {canManage && selectedProject?.billing_model === 'fixed_price' && (
+                  <Milestones key={selectedProject.id} project={selectedProject} currency={selectedClient.currency} />
+                )}
+                {canManage && selectedProject && selectedClient && (
+                  <BudgetAmendments
+                    key={selectedProject.id}
+                    currentUser={currentUser}
+                    project={selectedProject}
+                    positions={positions}
+                    currency={selectedClient.currency}
+                    onBudgetChanged={() => {
+                      loadClientData(selectedClient);
+                      loadPositions(selectedProject.id);
+                    }}
+                  />
+                )}
+                {canManage && selectedProject && (
+                  <BudgetThresholds
+                    key={selectedProject.id}
+                    project={selectedProject}
+                    positions={positions}
+                    currency={selectedClient.currency}
+                  />
+                )}
               </TabsContent>
 
               <TabsContent value="notes" className="space-y-4">
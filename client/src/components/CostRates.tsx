@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { formatMoney } from '@/lib/currency';
+import type { User, CostRate } from '../../../server/src/schema';
+
+interface CostRatesProps {
+  users: User[];
+}
+
+export function CostRates({ users }: CostRatesProps) {
+  const [userId, setUserId] = useState<number | null>(null);
+  const [costRates, setCostRates] = useState<CostRate[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<{ hourly_cost: number; valid_from: Date; valid_to: Date | null }>({
+    hourly_cost: 50,
+    valid_from: new Date(),
+    valid_to: null
+  });
+  const [endDates, setEndDates] = useState<Record<number, string>>({});
+
+  const loadCostRates = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const result = await trpc.getCostRates.query({ user_id: userId });
+      setCostRates(result);
+    } catch (error) {
+      console.error('Failed to load cost rates:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadCostRates();
+  }, [loadCostRates]);
+
+  useEffect(() => {
+    trpc.getCurrencySettings.query()
+      .then(settings => setReportingCurrency(settings.reporting_currency))
+      .catch((error: unknown) => console.error('Failed to load currency settings:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+    setIsLoading(true);
+    try {
+      await trpc.createCostRate.mutate({ user_id: userId, ...formData });
+      await loadCostRates();
+    } catch (error) {
+      console.error('Failed to create cost rate:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEnd = async (costRate: CostRate) => {
+    const validTo = endDates[costRate.id];
+    if (!validTo) return;
+    try {
+      const result = await trpc.endCostRate.mutate({ cost_rate_id: costRate.id, valid_to: new Date(validTo) });
+      setCostRates(prev => prev.map(item => (item.id === result.id ? result : item)));
+    } catch (error) {
+      console.error('Failed to end cost rate:', error);
+    }
+  };
+
+  const selectedUser = users.find(user => user.id === userId);
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🏷️ Cost Rates
+        </CardTitle>
+        <CardDescription>
+          What an hour of a team member costs internally; used for margins, never billed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Team Member</Label>
+            <Select
+              value={userId?.toString() || ''}
+              onValueChange={(value: string) => setUserId(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a team member" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user: User) => (
+                  <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cost-rate-cost">Hourly Cost ({reportingCurrency})</Label>
+              <Input
+                id="cost-rate-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.hourly_cost}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, hourly_cost: parseFloat(e.target.value) || 0 }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cost-rate-from">Valid From</Label>
+              <Input
+                id="cost-rate-from"
+                type="date"
+                value={formData.valid_from.toISOString().split('T')[0]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, valid_from: new Date(e.target.value) }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cost-rate-to">Valid To (Optional)</Label>
+              <Input
+                id="cost-rate-to"
+                type="date"
+                value={formData.valid_to ? formData.valid_to.toISOString().split('T')[0] : ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, valid_to: e.target.value ? new Date(e.target.value) : null }))
+                }
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={isLoading || !userId} className="w-full">
+            {isLoading ? 'Saving...' : 'Add Cost Rate'}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {!userId || costRates.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>{userId ? 'No cost rates for this team member.' : 'Select a team member to see their cost rates.'}</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {selectedUser?.hourly_rate && (
+                <p className="text-xs text-gray-500">Default bill rate: {formatMoney(selectedUser.hourly_rate, reportingCurrency)}/h</p>
+              )}
+              {costRates.map((costRate: CostRate) => (
+                <div key={costRate.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium">{formatMoney(costRate.hourly_cost, reportingCurrency)}/h</div>
+                    <div className="text-xs text-gray-600">
+                      {new Date(costRate.valid_from).toLocaleDateString()} –{' '}
+                      {costRate.valid_to ? new Date(costRate.valid_to).toLocaleDateString() : 'open-ended'}
+                    </div>
+                  </div>
+                  {!costRate.valid_to && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={endDates[costRate.id] || ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setEndDates(prev => ({ ...prev, [costRate.id]: e.target.value }))
+                        }
+                      />
+                      <Button variant="outline" size="sm" onClick={() => handleEnd(costRate)} disabled={!endDates[costRate.id]}>
+                        End
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { CURRENCIES } from '@/lib/currency';
+import type { ExchangeRate } from '../../../server/src/schema';
+
+export function ExchangeRates() {
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<{ base_currency: string; quote_currency: string; rate: number; valid_from: Date }>({
+    base_currency: 'EUR',
+    quote_currency: 'USD',
+    rate: 1,
+    valid_from: new Date()
+  });
+
+  const loadExchangeRates = useCallback(async () => {
+    try {
+      const [settings, result] = await Promise.all([
+        trpc.getCurrencySettings.query(),
+        trpc.getExchangeRates.query({})
+      ]);
+      setReportingCurrency(settings.reporting_currency);
+      setExchangeRates(result);
+    } catch (error) {
+      console.error('Failed to load exchange rates:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExchangeRates();
+  }, [loadExchangeRates]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.setExchangeRate.mutate(formData);
+      await loadExchangeRates();
+    } catch (error) {
+      console.error('Failed to set exchange rate:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (exchangeRate: ExchangeRate) => {
+    try {
+      await trpc.deleteExchangeRate.mutate({ exchange_rate_id: exchangeRate.id });
+      setExchangeRates(prev => prev.filter(item => item.id !== exchangeRate.id));
+    } catch (error) {
+      console.error('Failed to delete exchange rate:', error);
+    }
+  };
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          💱 Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Dated rates between currencies; reports add everything up in {reportingCurrency} at the rate of each booking's date
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select
+                value={formData.base_currency || 'EUR'}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, base_currency: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select
+                value={formData.quote_currency || 'USD'}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, quote_currency: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exchange-rate-rate">Rate</Label>
+              <Input
+                id="exchange-rate-rate"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={formData.rate || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exchange-rate-from">Valid From</Label>
+              <Input
+                id="exchange-rate-from"
+                type="date"
+                value={formData.valid_from.toISOString().split('T')[0]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, valid_from: new Date(e.target.value) }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={isLoading || formData.rate <= 0 || formData.base_currency === formData.quote_currency}
+            className="w-full"
+          >
+            {isLoading ? 'Saving...' : 'Set Exchange Rate'}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {exchangeRates.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No exchange rates yet.</p>
+              <p className="text-sm">Amounts in other currencies than {reportingCurrency} stay out of reports until one applies.</p>
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {exchangeRates.map((exchangeRate: ExchangeRate) => (
+                <div key={exchangeRate.id} className="p-3 bg-gray-50 rounded-lg flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">
+                      1 {exchangeRate.base_currency} = {exchangeRate.rate} {exchangeRate.quote_currency}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      From {new Date(exchangeRate.valid_from).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(exchangeRate)}>
+                    Delete
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
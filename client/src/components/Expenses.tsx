@@ -0,0 +1,378 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { trpc } from '@/utils/trpc';
+import { EXPENSE_CATEGORY_LABELS } from '@/lib/expenses';
+import { CURRENCIES, formatMoney } from '@/lib/currency';
+import { downloadFile, readFileAsBase64 } from '@/lib/files';
+import type { User, Client, Project, Position, Expense, ExpenseCategory } from '../../../server/src/schema';
+
+interface ExpensesProps {
+  currentUser: User;
+}
+
+const emptyForm = () => ({
+  position_id: 0,
+  date: new Date(),
+  amount: 0,
+  currency: 'USD',
+  category: 'travel' as ExpenseCategory,
+  description: '',
+  billable: true,
+  reimbursable: false
+});
+
+export function Expenses({ currentUser }: ExpensesProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [selectedClientId, setSelectedClientId] = useState<number | null>(null);
+  const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadClients = useCallback(async () => {
+    try {
+      const result = await trpc.getClients.query();
+      setClients(result);
+    } catch (error) {
+      console.error('Failed to load clients:', error);
+    }
+  }, []);
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      // Last 90 days, so expenses waiting for a receipt stay in view
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - 90);
+      const result = await trpc.getExpenses.query({ user_id: currentUser.id, start_date: startDate });
+      setExpenses(result);
+    } catch (error) {
+      console.error('Failed to load expenses:', error);
+    }
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  useEffect(() => {
+    loadExpenses();
+  }, [loadExpenses]);
+
+  const handleClientChange = async (clientId: number) => {
+    setSelectedClientId(clientId);
+    setSelectedProjectId(null);
+    setPositions([]);
+    setFormData(prev => ({ ...prev, position_id: 0 }));
+    try {
+      setProjects(await trpc.getProjectsByClient.query({ client_id: clientId }));
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
+  };
+
+  const handleProjectChange = async (projectId: number) => {
+    setSelectedProjectId(projectId);
+    setFormData(prev => ({ ...prev, position_id: 0 }));
+    try {
+      setPositions(await trpc.getPositionsByProject.query({ project_id: projectId }));
+    } catch (error) {
+      console.error('Failed to load positions:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await trpc.createExpense.mutate({
+        ...formData,
+        description: formData.description.trim() || null,
+        receipt: receipt ? { filename: receipt.name, content_base64: await readFileAsBase64(receipt) } : null
+      });
+      setExpenses(prev => [result, ...prev]);
+      setFormData(prev => ({ ...emptyForm(), position_id: prev.position_id, currency: prev.currency }));
+      setReceipt(null);
+    } catch (error) {
+      console.error('Failed to create expense:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAttachReceipt = async (expense: Expense, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const result = await trpc.updateExpense.mutate({
+        id: expense.id,
+        receipt: { filename: file.name, content_base64: await readFileAsBase64(file) }
+      });
+      setExpenses(prev => prev.map(item => (item.id === result.id ? result : item)));
+    } catch (error) {
+      console.error('Failed to attach receipt:', error);
+    } finally {
+      setIsLoading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleDownloadReceipt = async (expense: Expense) => {
+    try {
+      const result = await trpc.getExpenseReceipt.query({ expense_id: expense.id });
+      downloadFile(result.filename, result.content_base64, result.content_type);
+    } catch (error) {
+      console.error('Failed to download receipt:', error);
+    }
+  };
+
+  const handleDelete = async (expense: Expense) => {
+    try {
+      await trpc.deleteExpense.mutate({ id: expense.id });
+      setExpenses(prev => prev.filter(item => item.id !== expense.id));
+    } catch (error) {
+      console.error('Failed to delete expense:', error);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            💸 Log Expense
+          </CardTitle>
+          <CardDescription>
+            Billable expenses count toward the budget and can be invoiced to the client
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <Select
+                value={selectedClientId?.toString() || ''}
+                onValueChange={(value: string) => handleClientChange(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((client: Client) => (
+                    <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={selectedProjectId?.toString() || ''}
+                onValueChange={(value: string) => handleProjectChange(parseInt(value))}
+                disabled={projects.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((project: Project) => (
+                    <SelectItem key={project.id} value={project.id.toString()}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={formData.position_id ? formData.position_id.toString() : ''}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, position_id: parseInt(value) }))}
+                disabled={positions.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {positions.map((position: Position) => (
+                    <SelectItem key={position.id} value={position.id.toString()}>{position.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expense-amount">Amount</Label>
+                <Input
+                  id="expense-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select
+                  value={formData.currency || 'USD'}
+                  onValueChange={(value: string) => setFormData(prev => ({ ...prev, currency: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-date">Date</Label>
+                <Input
+                  id="expense-date"
+                  type="date"
+                  value={formData.date.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, date: new Date(e.target.value) }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category || 'travel'}
+                  onValueChange={(value: ExpenseCategory) => setFormData(prev => ({ ...prev, category: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map(category => (
+                      <SelectItem key={category} value={category}>{EXPENSE_CATEGORY_LABELS[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-receipt">Receipt (Optional)</Label>
+                <Input
+                  id="expense-receipt"
+                  type="file"
+                  accept=".pdf,.png,.jpg,.jpeg,.gif,.webp,.heic"
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReceipt(e.target.files?.[0] ?? null)}
+                />
+              </div>
+            </div>
+
+            <Input
+              value={formData.description}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, description: e.target.value }))
+              }
+              placeholder="Description (optional)"
+            />
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="expense-billable"
+                  checked={formData.billable}
+                  onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, billable: checked }))}
+                />
+                <Label htmlFor="expense-billable">Billable to client</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="expense-reimbursable"
+                  checked={formData.reimbursable}
+                  onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, reimbursable: checked }))}
+                />
+                <Label htmlFor="expense-reimbursable">Paid out of pocket</Label>
+              </div>
+            </div>
+
+            <Button type="submit" disabled={isLoading || formData.position_id === 0 || formData.amount <= 0} className="w-full">
+              {isLoading ? 'Saving...' : 'Log Expense'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle>🧾 Recent Expenses</CardTitle>
+          <CardDescription>Last 90 days of logged expenses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {expenses.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No expenses yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+              {expenses.map((expense: Expense) => (
+                <div key={expense.id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {formatMoney(expense.amount, expense.currency)}
+                      </span>
+                      <span className="text-sm text-gray-600">{EXPENSE_CATEGORY_LABELS[expense.category]}</span>
+                    </div>
+                    <span className="text-xs text-gray-500">{new Date(expense.date).toLocaleDateString()}</span>
+                  </div>
+                  {expense.description && <p className="text-sm text-gray-700 truncate">{expense.description}</p>}
+                  <div className="flex items-center justify-between">
+                    <div className="flex gap-1">
+                      <Badge variant={expense.billable ? 'default' : 'outline'}>
+                        {expense.billable ? 'Billable' : 'Non-billable'}
+                      </Badge>
+                      {expense.reimbursable && <Badge variant="secondary">Reimbursable</Badge>}
+                      {expense.invoice_id !== null && <Badge variant="outline">Invoiced</Badge>}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {expense.receipt_filename ? (
+                        <Button size="sm" variant="ghost" onClick={() => handleDownloadReceipt(expense)}>
+                          📎 {expense.receipt_filename}
+                        </Button>
+                      ) : expense.invoice_id === null && (
+                        <Label className="text-xs text-blue-600 cursor-pointer px-2">
+                          📎 Attach receipt
+                          <input
+                            type="file"
+                            className="hidden"
+                            accept=".pdf,.png,.jpg,.jpeg,.gif,.webp,.heic"
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleAttachReceipt(expense, e)}
+                            disabled={isLoading}
+                          />
+                        </Label>
+                      )}
+                      {expense.invoice_id === null && (
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(expense)} disabled={isLoading}>
+                          🗑️
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { User, HolidayCalendar, Holiday, CreateHolidayCalendarInput } from '../../../server/src/schema';
+
+interface HolidayCalendarsProps {
+  users: User[];
+  onUsersChange: (users: User[]) => void;
+}
+
+export function HolidayCalendars({ users, onUsersChange }: HolidayCalendarsProps) {
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<number | null>(null);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [isLoading, setIsLoading] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [calendarForm, setCalendarForm] = useState<CreateHolidayCalendarInput>({ name: '', region: null });
+  const [holidayForm, setHolidayForm] = useState<{ date: Date; name: string }>({ date: new Date(), name: '' });
+
+  const loadCalendars = useCallback(async () => {
+    try {
+      const result = await trpc.getHolidayCalendars.query();
+      setCalendars(result);
+    } catch (error) {
+      console.error('Failed to load holiday calendars:', error);
+    }
+  }, []);
+
+  const loadHolidays = useCallback(async () => {
+    if (!selectedCalendarId) return;
+    try {
+      const result = await trpc.getHolidays.query({ calendar_id: selectedCalendarId, year });
+      setHolidays(result);
+    } catch (error) {
+      console.error('Failed to load holidays:', error);
+    }
+  }, [selectedCalendarId, year]);
+
+  useEffect(() => {
+    loadCalendars();
+  }, [loadCalendars]);
+
+  useEffect(() => {
+    loadHolidays();
+  }, [loadHolidays]);
+
+  const handleCreateCalendar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const result = await trpc.createHolidayCalendar.mutate(calendarForm);
+      setCalendars(prev => [...prev, result].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedCalendarId(result.id);
+      setCalendarForm({ name: '', region: null });
+    } catch (error) {
+      console.error('Failed to create holiday calendar:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCalendarId) return;
+    setIsLoading(true);
+    try {
+      await trpc.addHoliday.mutate({ calendar_id: selectedCalendarId, ...holidayForm });
+      setHolidayForm(prev => ({ ...prev, name: '' }));
+      await loadHolidays();
+    } catch (error) {
+      console.error('Failed to add holiday:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    try {
+      await trpc.deleteHoliday.mutate({ holiday_id: holiday.id });
+      setHolidays(prev => prev.filter(item => item.id !== holiday.id));
+    } catch (error) {
+      console.error('Failed to delete holiday:', error);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !selectedCalendarId) return;
+    setIsLoading(true);
+    try {
+      const result = await trpc.importHolidays.mutate({ calendar_id: selectedCalendarId, ics: await file.text() });
+      setImportMessage(`Imported ${result.imported} holidays, skipped ${result.skipped} existing dates`);
+      await loadHolidays();
+    } catch (error) {
+      console.error('Failed to import holidays:', error);
+    } finally {
+      setIsLoading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleAssign = async (user: User, value: string) => {
+    try {
+      const result = await trpc.assignHolidayCalendar.mutate({
+        user_id: user.id,
+        holiday_calendar_id: value === 'none' ? null : parseInt(value)
+      });
+      onUsersChange(users.map(item => (item.id === result.id ? result : item)));
+    } catch (error) {
+      console.error('Failed to assign holiday calendar:', error);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            🎉 Holiday Calendars
+          </CardTitle>
+          <CardDescription>
+            Public holidays are not counted as working days for assigned team members
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleCreateCalendar} className="flex gap-2">
+            <Input
+              value={calendarForm.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setCalendarForm(prev => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="Calendar name"
+              required
+            />
+            <Input
+              value={calendarForm.region || ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setCalendarForm(prev => ({ ...prev, region: e.target.value || null }))
+              }
+              placeholder="Region (e.g. DE-BY)"
+              className="w-40"
+            />
+            <Button type="submit" disabled={isLoading}>Add</Button>
+          </form>
+
+          <div className="space-y-2">
+            <Label>Team Member Calendars</Label>
+            {users.map((user: User) => (
+              <div key={user.id} className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded">
+                <span className="text-sm font-medium">{user.name}</span>
+                <Select
+                  value={user.holiday_calendar_id?.toString() || 'none'}
+                  onValueChange={(value: string) => handleAssign(user, value)}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No public holidays</SelectItem>
+                    {calendars.map((calendar: HolidayCalendar) => (
+                      <SelectItem key={calendar.id} value={calendar.id.toString()}>
+                        {calendar.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle>📆 Holidays</CardTitle>
+          <CardDescription>Maintain dates by hand or import an ICS file</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <Select
+                value={selectedCalendarId?.toString() || ''}
+                onValueChange={(value: string) => setSelectedCalendarId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a calendar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {calendars.map((calendar: HolidayCalendar) => (
+                    <SelectItem key={calendar.id} value={calendar.id.toString()}>
+                      {calendar.name}{calendar.region && ` (${calendar.region})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              type="number"
+              value={year}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setYear(parseInt(e.target.value) || year)}
+            />
+          </div>
+
+          {selectedCalendarId && (
+            <>
+              <form onSubmit={handleAddHoliday} className="flex gap-2">
+                <Input
+                  type="date"
+                  value={holidayForm.date.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setHolidayForm(prev => ({ ...prev, date: new Date(e.target.value) }))
+                  }
+                  className="w-44"
+                  required
+                />
+                <Input
+                  value={holidayForm.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setHolidayForm(prev => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="Holiday name"
+                  required
+                />
+                <Button type="submit" disabled={isLoading}>Add</Button>
+              </form>
+
+              <div className="space-y-2">
+                <Label htmlFor="holiday-ics">Import ICS File</Label>
+                <Input id="holiday-ics" type="file" accept=".ics,text/calendar" onChange={handleImport} disabled={isLoading} />
+                {importMessage && <p className="text-xs text-gray-600">{importMessage}</p>}
+              </div>
+
+              {holidays.length === 0 ? (
+                <div className="text-center py-6 text-gray-500">
+                  <p>No holidays in {year}.</p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {holidays.map((holiday: Holiday) => (
+                    <div key={holiday.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{new Date(holiday.date).toLocaleDateString()}</Badge>
+                        <span className="text-sm">{holiday.name}</span>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteHoliday(holiday)}>
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
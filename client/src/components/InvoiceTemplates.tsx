@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import type { InvoiceTemplate, CreateInvoiceTemplateInput } from '../../../server/src/schema';
+
+interface InvoiceTemplatesProps {
+  templates: InvoiceTemplate[];
+  onTemplatesChange: () => Promise<void>;
+}
+
+const SYNTAX_HELP = [
+  '# heading', '## subheading', '> right-aligned', '--- rule',
+  '{{line_items}}', '{{totals}}', '{{appendix}}', '{{page_break}}'
+];
+
+const FIELDS = [
+  'invoice_number', 'invoice_date', 'due_date', 'status', 'period_start', 'period_end', 'client_name', 'client_address',
+  'subtotal', 'tax_rate', 'tax_amount', 'total', 'amount_paid', 'balance_due', 'currency'
+];
+
+const EMPTY_FORM: CreateInvoiceTemplateInput = {
+  name: '',
+  body: '# INVOICE\n## Your Company Name\n---\n{{client_name}}\n{{client_address}}\n\n> Invoice number: {{invoice_number}}\n\n{{line_items}}\n{{totals}}\n{{appendix}}',
+  is_default: false
+};
+
+export function InvoiceTemplates({ templates, onTemplatesChange }: InvoiceTemplatesProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<CreateInvoiceTemplateInput>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleEdit = (template: InvoiceTemplate) => {
+    setEditingId(template.id);
+    setFormData({ name: template.name, body: template.body, is_default: template.is_default });
+  };
+
+  const handleNew = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      if (editingId === null) {
+        const result = await trpc.createInvoiceTemplate.mutate(formData);
+        setEditingId(result.id);
+      } else {
+        await trpc.updateInvoiceTemplate.mutate({ id: editingId, ...formData });
+      }
+      await onTemplatesChange();
+    } catch (error) {
+      console.error('Failed to save invoice template:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🖨️ Invoice Templates
+        </CardTitle>
+        <CardDescription>
+          The PDF layout, one instruction per line. Without a default template a built-in layout is used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-3">
+        <div className="space-y-2">
+          {templates.map((template: InvoiceTemplate) => (
+            <div
+              key={template.id}
+              className={`p-3 rounded-lg cursor-pointer transition-colors flex items-center justify-between ${
+                editingId === template.id ? 'bg-blue-100 border-blue-300 border' : 'bg-gray-50 hover:bg-gray-100'
+              }`}
+              onClick={() => handleEdit(template)}
+            >
+              <span className="font-medium">{template.name}</span>
+              {template.is_default && <Badge>default</Badge>}
+            </div>
+          ))}
+          <Button variant="outline" className="w-full" onClick={handleNew}>
+            + New Template
+          </Button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4 md:col-span-2">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch
+                id="template-default"
+                checked={formData.is_default}
+                onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, is_default: checked }))}
+              />
+              <Label htmlFor="template-default">Default</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Layout</Label>
+            <Textarea
+              id="template-body"
+              value={formData.body}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setFormData(prev => ({ ...prev, body: e.target.value }))
+              }
+              rows={14}
+              className="font-mono text-sm"
+              required
+            />
+            <p className="text-xs text-gray-600">
+              {SYNTAX_HELP.join(' · ')}
+              <br />
+              Fields: {FIELDS.map(field => `{{${field}}}`).join(' ')}
+            </p>
+          </div>
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? 'Saving...' : editingId === null ? 'Create Template' : 'Save Template'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
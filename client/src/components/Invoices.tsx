@@ -0,0 +1,571 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { InvoiceTemplates } from '@/components/InvoiceTemplates';
+import { INVOICE_STATUS_LABELS, INVOICE_LINE_KIND_LABELS, PAYMENT_METHOD_LABELS } from '@/lib/invoices';
+import { downloadFile } from '@/lib/files';
+import { formatMoney } from '@/lib/currency';
+import type {
+  Client, Invoice, InvoiceDetails, InvoiceLineItem, InvoiceTemplate, Payment, PaymentMethod
+} from '../../../server/src/schema';
+
+const getStatusBadgeVariant = (status: Invoice['status']) => {
+  switch (status) {
+    case 'finalized':
+    case 'sent':
+    case 'partially_paid':
+      return 'default';
+    case 'paid':
+      return 'outline';
+    case 'overdue':
+    case 'void':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+export function Invoices() {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [selected, setSelected] = useState<InvoiceDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [includeAppendix, setIncludeAppendix] = useState(false);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+  const [sendForm, setSendForm] = useState({ sent_on: new Date(), payment_terms_days: 30 });
+  const [paymentForm, setPaymentForm] = useState<{
+    amount: number;
+    paid_on: Date;
+    method: PaymentMethod;
+    reference: string;
+  }>({ amount: 0, paid_on: new Date(), method: 'bank_transfer', reference: '' });
+  const [formData, setFormData] = useState<{
+    client_id: number | null;
+    period_start: Date;
+    period_end: Date;
+    tax_rate: number;
+    include_expenses: boolean;
+  }>(() => {
+    // Default to the previous calendar month
+    const now = new Date();
+    return {
+      client_id: null,
+      period_start: new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1)),
+      period_end: new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0)),
+      tax_rate: 0,
+      include_expenses: true
+    };
+  });
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      const [clientResult, invoiceResult] = await Promise.all([
+        trpc.getClients.query(),
+        trpc.getInvoices.query({})
+      ]);
+      setClients(clientResult);
+      setInvoices(invoiceResult);
+    } catch (error) {
+      console.error('Failed to load invoices:', error);
+    }
+  }, []);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const result = await trpc.getInvoiceTemplates.query();
+      setTemplates(result);
+    } catch (error) {
+      console.error('Failed to load invoice templates:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    trpc.getCurrencySettings.query()
+      .then(settings => setReportingCurrency(settings.reporting_currency))
+      .catch((error: unknown) => console.error('Failed to load currency settings:', error));
+  }, []);
+
+  const clientName = (clientId: number) =>
+    clients.find(client => client.id === clientId)?.name || `Client #${clientId}`;
+
+  const loadSelected = async (invoiceId: number) => {
+    const [details, paymentResult] = await Promise.all([
+      trpc.getInvoiceDetails.query({ invoice_id: invoiceId }),
+      trpc.getPayments.query({ invoice_id: invoiceId })
+    ]);
+    setSelected(details);
+    setPayments(paymentResult);
+    setPaymentForm(prev => ({ ...prev, amount: details.balance_due, reference: '' }));
+  };
+
+  const handleSelect = async (invoice: Invoice) => {
+    try {
+      await loadSelected(invoice.id);
+      setVoidReason('');
+    } catch (error) {
+      console.error('Failed to load invoice details:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.client_id === null) return;
+    setIsLoading(true);
+    try {
+      const result = await trpc.createInvoice.mutate({ ...formData, client_id: formData.client_id });
+      setSelected(result);
+      setPayments([]);
+      await loadInvoices();
+    } catch (error) {
+      console.error('Failed to create invoice:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFinalize = async () => {
+    if (!selected) return;
+    setIsLoading(true);
+    try {
+      await trpc.finalizeInvoice.mutate({ invoice_id: selected.id });
+      await loadInvoices();
+      await loadSelected(selected.id);
+    } catch (error) {
+      console.error('Failed to finalize invoice:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!selected) return;
+    try {
+      const result = await trpc.renderInvoicePdf.query({
+        invoice_id: selected.id,
+        template_id: templateId ?? undefined,
+        include_appendix: includeAppendix
+      });
+      downloadFile(result.filename, result.content_base64, 'application/pdf');
+    } catch (error) {
+      console.error('Failed to render invoice PDF:', error);
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!selected) return;
+    setIsLoading(true);
+    try {
+      await trpc.voidInvoice.mutate({ invoice_id: selected.id, reason: voidReason.trim() || null });
+      await loadInvoices();
+      await loadSelected(selected.id);
+    } catch (error) {
+      console.error('Failed to void invoice:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setIsLoading(true);
+    try {
+      await trpc.sendInvoice.mutate({ invoice_id: selected.id, ...sendForm });
+      await loadInvoices();
+      await loadSelected(selected.id);
+    } catch (error) {
+      console.error('Failed to mark invoice as sent:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setIsLoading(true);
+    try {
+      await trpc.recordPayment.mutate({
+        invoice_id: selected.id,
+        amount: paymentForm.amount,
+        paid_on: paymentForm.paid_on,
+        method: paymentForm.method,
+        reference: paymentForm.reference.trim() || null
+      });
+      await loadInvoices();
+      await loadSelected(selected.id);
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isOpen = selected !== null && ['sent', 'partially_paid', 'overdue'].includes(selected.status);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-6">
+          <Card className="bg-white/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                🧾 New Invoice
+              </CardTitle>
+              <CardDescription>
+                Collects the client's unbilled billable time in the period into a draft
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Client</Label>
+                  <Select
+                    value={formData.client_id?.toString() || ''}
+                    onValueChange={(value: string) => setFormData(prev => ({ ...prev, client_id: parseInt(value) }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clients.map((client: Client) => (
+                        <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice-start">Period Start</Label>
+                    <Input
+                      id="invoice-start"
+                      type="date"
+                      value={formData.period_start.toISOString().split('T')[0]}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData(prev => ({ ...prev, period_start: new Date(e.target.value) }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice-end">Period End</Label>
+                    <Input
+                      id="invoice-end"
+                      type="date"
+                      value={formData.period_end.toISOString().split('T')[0]}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData(prev => ({ ...prev, period_end: new Date(e.target.value) }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice-tax">Tax Rate (%)</Label>
+                    <Input
+                      id="invoice-tax"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.tax_rate}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData(prev => ({ ...prev, tax_rate: parseFloat(e.target.value) || 0 }))
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="invoice-expenses"
+                    checked={formData.include_expenses}
+                    onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, include_expenses: checked }))}
+                  />
+                  <Label htmlFor="invoice-expenses">Include billable expenses</Label>
+                </div>
+                <Button type="submit" disabled={isLoading || formData.client_id === null} className="w-full">
+                  {isLoading ? 'Creating...' : 'Create Draft'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle>📚 Invoices</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {invoices.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <p>No invoices yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {invoices.map((invoice: Invoice) => (
+                    <div
+                      key={invoice.id}
+                      className={`p-3 rounded-lg cursor-pointer transition-colors ${
+                        selected?.id === invoice.id ? 'bg-blue-100 border-blue-300 border' : 'bg-gray-50 hover:bg-gray-100'
+                      }`}
+                      onClick={() => handleSelect(invoice)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="font-medium">{invoice.number || 'Draft'} · {clientName(invoice.client_id)}</div>
+                        <Badge variant={getStatusBadgeVariant(invoice.status)}>{INVOICE_STATUS_LABELS[invoice.status]}</Badge>
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {new Date(invoice.period_start).toLocaleDateString()} – {new Date(invoice.period_end).toLocaleDateString()}
+                        {' · '}{formatMoney(invoice.total, invoice.currency)}
+                        {invoice.amount_paid > 0 && invoice.balance_due > 0 && ` · ${formatMoney(invoice.balance_due, invoice.currency)} due`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="bg-white/90 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>📄 {selected ? selected.number || 'Draft Invoice' : 'Invoice Details'}</CardTitle>
+            {selected && (
+              <CardDescription>
+                {selected.client_name} · {new Date(selected.period_start).toLocaleDateString()} –{' '}
+                {new Date(selected.period_end).toLocaleDateString()}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!selected ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>Select an invoice or create a draft.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  {selected.line_items.map((item: InvoiceLineItem) => (
+                    <div key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <div>
+                        <div className="text-sm font-medium">{item.description}</div>
+                        <div className="text-xs text-gray-600">
+                          {item.kind === 'time' ? `${item.hours}h × ${formatMoney(item.hourly_rate ?? 0, selected.currency)}` : INVOICE_LINE_KIND_LABELS[item.kind]}
+                        </div>
+                      </div>
+                      <div className="font-medium">{formatMoney(item.amount, selected.currency)}</div>
+                    </div>
+                  ))}
+                </div>
+                <Separator />
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span>Subtotal</span>
+                    <span>{formatMoney(selected.subtotal, selected.currency)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Tax ({selected.tax_rate}%)</span>
+                    <span>{formatMoney(selected.tax_amount, selected.currency)}</span>
+                  </div>
+                  <div className="flex items-center justify-between font-bold">
+                    <span>Total</span>
+                    <span>{formatMoney(selected.total, selected.currency)}</span>
+                  </div>
+                  {selected.total_reporting !== null && selected.currency !== reportingCurrency && (
+                    <div className="flex items-center justify-between text-xs text-gray-600">
+                      <span>In {reportingCurrency} at {selected.exchange_rate}</span>
+                      <span>{formatMoney(selected.total_reporting, reportingCurrency)}</span>
+                    </div>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600">{selected.time_entry_ids.length} time entries</div>
+
+                {selected.sent_on && (
+                  <div className="p-3 bg-gray-50 rounded-lg space-y-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span>
+                        Sent {new Date(selected.sent_on).toLocaleDateString()}
+                        {selected.due_date && ` · due ${new Date(selected.due_date).toLocaleDateString()}`}
+                      </span>
+                      <Badge variant={getStatusBadgeVariant(selected.status)}>{INVOICE_STATUS_LABELS[selected.status]}</Badge>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Paid</span>
+                      <span>{formatMoney(selected.amount_paid, selected.currency)}</span>
+                    </div>
+                    <div className="flex items-center justify-between font-medium">
+                      <span>Balance due</span>
+                      <span>{formatMoney(selected.balance_due, selected.currency)}</span>
+                    </div>
+                    {payments.map((payment: Payment) => (
+                      <div key={payment.id} className="flex items-center justify-between text-xs text-gray-600">
+                        <span>
+                          {new Date(payment.paid_on).toLocaleDateString()} · {PAYMENT_METHOD_LABELS[payment.method]}
+                          {payment.reference && ` · ${payment.reference}`}
+                        </span>
+                        <span>{formatMoney(payment.amount, selected.currency)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {selected.status === 'finalized' && (
+                  <form onSubmit={handleSend} className="flex items-end gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="invoice-sent-on">Sent On</Label>
+                      <Input
+                        id="invoice-sent-on"
+                        type="date"
+                        value={sendForm.sent_on.toISOString().split('T')[0]}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setSendForm(prev => ({ ...prev, sent_on: new Date(e.target.value) }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="invoice-terms">Terms (days)</Label>
+                      <Input
+                        id="invoice-terms"
+                        type="number"
+                        min="0"
+                        value={sendForm.payment_terms_days}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setSendForm(prev => ({ ...prev, payment_terms_days: parseInt(e.target.value) || 0 }))
+                        }
+                        className="w-24"
+                      />
+                    </div>
+                    <Button type="submit" size="sm" disabled={isLoading}>
+                      📨 Mark Sent
+                    </Button>
+                  </form>
+                )}
+
+                {isOpen && (
+                  <form onSubmit={handleRecordPayment} className="space-y-2">
+                    <Label>Record Payment</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        type="number"
+                        min="0.01"
+                        max={selected.balance_due}
+                        step="0.01"
+                        value={paymentForm.amount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setPaymentForm(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))
+                        }
+                        required
+                      />
+                      <Input
+                        type="date"
+                        value={paymentForm.paid_on.toISOString().split('T')[0]}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setPaymentForm(prev => ({ ...prev, paid_on: new Date(e.target.value) }))
+                        }
+                        required
+                      />
+                      <Select
+                        value={paymentForm.method || 'bank_transfer'}
+                        onValueChange={(value: PaymentMethod) => setPaymentForm(prev => ({ ...prev, method: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                            <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={paymentForm.reference}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setPaymentForm(prev => ({ ...prev, reference: e.target.value }))
+                        }
+                        placeholder="Reference (optional)"
+                      />
+                      <Button type="submit" size="sm" disabled={isLoading || paymentForm.amount <= 0}>
+                        Record
+                      </Button>
+                    </div>
+                  </form>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={templateId?.toString() || 'default'}
+                    onValueChange={(value: string) => setTemplateId(value === 'default' ? null : parseInt(value))}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Default template</SelectItem>
+                      {templates.map((template: InvoiceTemplate) => (
+                        <SelectItem key={template.id} value={template.id.toString()}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="invoice-appendix" checked={includeAppendix} onCheckedChange={setIncludeAppendix} />
+                    <Label htmlFor="invoice-appendix" className="text-sm">Appendix</Label>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleDownload}>
+                    ⬇️ PDF
+                  </Button>
+                </div>
+
+                {selected.status === 'void' ? (
+                  <div className="text-sm text-red-600">
+                    Voided {selected.voided_at && new Date(selected.voided_at).toLocaleDateString()}
+                    {selected.void_reason && ` · ${selected.void_reason}`}
+                  </div>
+                ) : selected.amount_paid === 0 && (
+                  <div className="space-y-2">
+                    <Input
+                      value={voidReason}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVoidReason(e.target.value)}
+                      placeholder="Reason for voiding (optional)"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="destructive" size="sm" onClick={handleVoid} disabled={isLoading}>
+                        Void
+                      </Button>
+                      {selected.status === 'draft' && (
+                        <Button size="sm" onClick={handleFinalize} disabled={isLoading}>
+                          Finalize
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <InvoiceTemplates templates={templates} onTemplatesChange={loadTemplates} />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { setSessionToken } from '@/lib/session';
+import type { User, LoginInput } from '../../../server/src/schema';
+
+interface LoginProps {
+  onLogin: (user: User) => void;
+}
+
+export function Login({ onLogin }: LoginProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<LoginInput>({
+    email: '',
+    password: ''
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const session = await trpc.login.mutate(formData);
+      setSessionToken(session.token);
+      onLogin(session.user);
+    } catch (error) {
+      console.error('Failed to log in:', error);
+      setError('Invalid email or password');
+      setFormData(prev => ({ ...prev, password: '' }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🔐 Log In
+        </CardTitle>
+        <CardDescription>
+          Log in with the email address and password of your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="login-email">Email Address</Label>
+            <Input
+              id="login-email"
+              type="email"
+              value={formData.email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, email: e.target.value }))
+              }
+              autoComplete="username"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
+              type="password"
+              value={formData.password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, password: e.target.value }))
+              }
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? 'Logging In...' : 'Log In'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
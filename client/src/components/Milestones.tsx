@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { formatMoney } from '@/lib/currency';
+import type { Project, Milestone, CreateMilestoneInput } from '../../../server/src/schema';
+
+interface MilestonesProps {
+  project: Project;
+  currency: string; // The client's
+}
+
+export function Milestones({ project, currency }: MilestonesProps) {
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<Omit<CreateMilestoneInput, 'project_id'>>({
+    name: '',
+    amount: 0,
+    due_date: new Date()
+  });
+  const [completionDates, setCompletionDates] = useState<Record<number, string>>({});
+
+  const loadMilestones = useCallback(async () => {
+    try {
+      const result = await trpc.getMilestones.query({ project_id: project.id });
+      setMilestones(result);
+    } catch (error) {
+      console.error('Failed to load milestones:', error);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    loadMilestones();
+  }, [loadMilestones]);
+
+  const replaceMilestone = (milestone: Milestone) =>
+    setMilestones(prev => prev.map(item => (item.id === milestone.id ? milestone : item)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.createMilestone.mutate({ project_id: project.id, ...formData });
+      setFormData({ name: '', amount: 0, due_date: new Date() });
+      await loadMilestones();
+    } catch (error) {
+      console.error('Failed to create milestone:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleComplete = async (milestone: Milestone) => {
+    const completedOn = completionDates[milestone.id] || new Date().toISOString().split('T')[0];
+    try {
+      replaceMilestone(await trpc.completeMilestone.mutate({ milestone_id: milestone.id, completed_on: new Date(completedOn) }));
+    } catch (error) {
+      console.error('Failed to complete milestone:', error);
+    }
+  };
+
+  const handleReopen = async (milestone: Milestone) => {
+    try {
+      replaceMilestone(await trpc.reopenMilestone.mutate({ milestone_id: milestone.id }));
+    } catch (error) {
+      console.error('Failed to reopen milestone:', error);
+    }
+  };
+
+  const handleInvoice = async (milestone: Milestone) => {
+    try {
+      const invoice = await trpc.createMilestoneInvoice.mutate({ milestone_id: milestone.id, tax_rate: 0 });
+      replaceMilestone({ ...milestone, invoice_id: invoice.id });
+    } catch (error) {
+      console.error('Failed to invoice milestone:', error);
+    }
+  };
+
+  const totalAmount = milestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+  const earnedAmount = milestones
+    .filter(milestone => milestone.completed_on !== null)
+    .reduce((sum, milestone) => sum + milestone.amount, 0);
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🏁 Milestones
+        </CardTitle>
+        <CardDescription>
+          {project.name} is billed by milestone: {formatMoney(earnedAmount, currency)} earned of {formatMoney(totalAmount, currency)} planned
+          {project.budget !== null && ` (fixed price ${formatMoney(project.budget, currency)})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="milestone-name">Name</Label>
+            <Input
+              id="milestone-name"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="e.g., Design sign-off"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="milestone-amount">Amount ({currency})</Label>
+              <Input
+                id="milestone-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={formData.amount || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="milestone-due">Due Date</Label>
+              <Input
+                id="milestone-due"
+                type="date"
+                value={formData.due_date.toISOString().split('T')[0]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, due_date: new Date(e.target.value) }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? 'Saving...' : 'Add Milestone'}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {milestones.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No milestones yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {milestones.map((milestone: Milestone) => (
+                <div key={milestone.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">{milestone.name}</div>
+                      <div className="text-xs text-gray-600">
+                        {formatMoney(milestone.amount, currency)} · due {new Date(milestone.due_date).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <Badge variant={milestone.invoice_id ? 'secondary' : milestone.completed_on ? 'default' : 'outline'}>
+                      {milestone.invoice_id
+                        ? 'Invoiced'
+                        : milestone.completed_on
+                          ? `Completed ${new Date(milestone.completed_on).toLocaleDateString()}`
+                          : 'Open'}
+                    </Badge>
+                  </div>
+                  {!milestone.invoice_id && (
+                    <div className="flex gap-2">
+                      {milestone.completed_on ? (
+                        <>
+                          <Button variant="outline" size="sm" onClick={() => handleReopen(milestone)}>
+                            Reopen
+                          </Button>
+                          <Button size="sm" onClick={() => handleInvoice(milestone)}>
+                            Create Invoice
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Input
+                            type="date"
+                            value={completionDates[milestone.id] || ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setCompletionDates(prev => ({ ...prev, [milestone.id]: e.target.value }))
+                            }
+                          />
+                          <Button variant="outline" size="sm" onClick={() => handleComplete(milestone)}>
+                            Complete
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
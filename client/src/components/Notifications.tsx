@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { trpc } from '@/utils/trpc';
+import type { Notification } from '../../../server/src/schema';
+
+const REFRESH_INTERVAL_MS = 60_000;
+
+export function Notifications() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const result = await trpc.getNotifications.query({});
+      setNotifications(result);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, []);
+
+  // Alerts are raised by other people's bookings, so the list refreshes on its own
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  const handleMarkAllRead = async () => {
+    try {
+      await trpc.markNotificationsRead.mutate({});
+      await loadNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const unreadCount = notifications.filter(notification => notification.read_at === null).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="bg-white/80 backdrop-blur-sm relative">
+          🔔
+          {unreadCount > 0 && (
+            <Badge variant="destructive" className="ml-1">{unreadCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="flex items-center justify-between mb-3">
+          <div className="font-medium">Notifications</div>
+          <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No notifications yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {notifications.map((notification: Notification) => (
+              <div
+                key={notification.id}
+                className={`p-3 rounded-lg ${notification.read_at ? 'bg-gray-50' : 'bg-blue-50 border border-blue-200'}`}
+              >
+                <div className="text-sm font-medium">{notification.title}</div>
+                <div className="text-xs text-gray-600 mt-1">{notification.body}</div>
+                <div className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
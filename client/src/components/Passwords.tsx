@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { User } from '../../../server/src/schema';
+
+interface PasswordsProps {
+  currentUser: User;
+  users: User[];
+}
+
+export function Passwords({ currentUser, users }: PasswordsProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [ownPassword, setOwnPassword] = useState({ current_password: '', new_password: '' });
+  const [userPassword, setUserPassword] = useState({ user_id: 0, password: '' });
+
+  const handleChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await trpc.changePassword.mutate(ownPassword);
+      setOwnPassword({ current_password: '', new_password: '' });
+      setMessage('Your password was changed');
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      setMessage('The password could not be changed - check the current password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSet = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      await trpc.setUserPassword.mutate(userPassword);
+      setUserPassword({ user_id: 0, password: '' });
+      setMessage('The password was set and the user was logged out everywhere');
+    } catch (error) {
+      console.error('Failed to set password:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🔑 Passwords
+        </CardTitle>
+        <CardDescription>
+          Passwords need at least 8 characters
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+        <form onSubmit={handleChange} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="current_password">Current Password</Label>
+              <Input
+                id="current_password"
+                type="password"
+                value={ownPassword.current_password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setOwnPassword(prev => ({ ...prev, current_password: e.target.value }))
+                }
+                autoComplete="current-password"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new_password">New Password</Label>
+              <Input
+                id="new_password"
+                type="password"
+                minLength={8}
+                value={ownPassword.new_password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setOwnPassword(prev => ({ ...prev, new_password: e.target.value }))
+                }
+                autoComplete="new-password"
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            Change My Password
+          </Button>
+        </form>
+
+        {currentUser.role === 'administrator' && (
+          <form onSubmit={handleSet} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Team Member</Label>
+                <Select
+                  value={userPassword.user_id ? userPassword.user_id.toString() : ''}
+                  onValueChange={(value: string) => setUserPassword(prev => ({ ...prev, user_id: parseInt(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a team member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.filter(user => user.id !== currentUser.id).map((user: User) => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user_password">New Password</Label>
+                <Input
+                  id="user_password"
+                  type="password"
+                  minLength={8}
+                  value={userPassword.password}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setUserPassword(prev => ({ ...prev, password: e.target.value }))
+                  }
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={isLoading || !userPassword.user_id}>
+              Set Password
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { trpc } from '@/utils/trpc';
+import type { User, PeriodLock, LockPeriodInput } from '../../../server/src/schema';
+
+interface PeriodLocksProps {
+  users: User[];
+}
+
+export function PeriodLocks({ users }: PeriodLocksProps) {
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  const [showUnlocked, setShowUnlocked] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [unlockReasons, setUnlockReasons] = useState<Record<number, string>>({});
+  const [formData, setFormData] = useState<Omit<LockPeriodInput, 'locked_by'>>({
+    start_date: new Date(),
+    end_date: new Date(),
+    reason: null
+  });
+
+  const loadLocks = useCallback(async () => {
+    try {
+      const result = await trpc.getPeriodLocks.query({ include_unlocked: showUnlocked });
+      setLocks(result);
+    } catch (error) {
+      console.error('Failed to load period locks:', error);
+    }
+  }, [showUnlocked]);
+
+  useEffect(() => {
+    loadLocks();
+  }, [loadLocks]);
+
+  const handleLock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await trpc.lockPeriod.mutate(formData);
+      setFormData(prev => ({ ...prev, reason: null }));
+      await loadLocks();
+    } catch (error) {
+      console.error('Failed to lock period:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnlock = async (lock: PeriodLock) => {
+    setIsLoading(true);
+    try {
+      await trpc.unlockPeriod.mutate({
+        lock_id: lock.id,
+        reason: unlockReasons[lock.id]?.trim() || ''
+      });
+      await loadLocks();
+    } catch (error) {
+      console.error('Failed to unlock period:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const userName = (userId: number | null) =>
+    users.find(user => user.id === userId)?.name || `User #${userId}`;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            🔒 Close Accounting Period
+          </CardTitle>
+          <CardDescription>
+            Locked periods reject new, edited and deleted time entries
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleLock} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lock-start">From</Label>
+                <Input
+                  id="lock-start"
+                  type="date"
+                  value={formData.start_date.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, start_date: new Date(e.target.value) }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lock-end">To</Label>
+                <Input
+                  id="lock-end"
+                  type="date"
+                  value={formData.end_date.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, end_date: new Date(e.target.value) }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lock-reason">Reason (Optional)</Label>
+              <Input
+                id="lock-reason"
+                value={formData.reason || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, reason: e.target.value || null }))
+                }
+                placeholder="e.g. January invoiced"
+              />
+            </div>
+            <Button type="submit" disabled={isLoading} className="w-full">
+              {isLoading ? 'Locking...' : 'Lock Period'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>📚 Locked Periods</span>
+            <div className="flex items-center space-x-2 text-sm font-normal">
+              <Switch id="show-unlocked" checked={showUnlocked} onCheckedChange={setShowUnlocked} />
+              <Label htmlFor="show-unlocked">Show history</Label>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {locks.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No locked periods.</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {locks.map((lock: PeriodLock) => (
+                <div key={lock.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium">
+                      {new Date(lock.start_date).toLocaleDateString()} – {new Date(lock.end_date).toLocaleDateString()}
+                    </div>
+                    <Badge variant={lock.unlocked_at ? 'outline' : 'default'}>
+                      {lock.unlocked_at ? 'reopened' : 'locked'}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    Locked by {userName(lock.locked_by)} on {lock.locked_at.toLocaleDateString()}
+                    {lock.reason && ` · ${lock.reason}`}
+                  </div>
+                  {lock.unlocked_at ? (
+                    <div className="text-xs text-gray-600">
+                      Reopened by {userName(lock.unlocked_by)} on {lock.unlocked_at.toLocaleDateString()}: {lock.unlock_reason}
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        value={unlockReasons[lock.id] || ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setUnlockReasons(prev => ({ ...prev, [lock.id]: e.target.value }))
+                        }
+                        placeholder="Reason for reopening..."
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => handleUnlock(lock)}
+                        disabled={isLoading || !unlockReasons[lock.id]?.trim()}
+                      >
+                        Unlock
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { Fragment, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type {
+  User, PlannedVsActualReport, PlannedVsActualFigures, PlannedVsActualReportInput
+} from '../../../server/src/schema';
+
+interface PlannedVsActualProps {
+  users: User[];
+}
+
+// Rows of the chosen view with their breakdown rows
+interface ReportRow {
+  key: number;
+  name: string;
+  figures: PlannedVsActualFigures;
+  breakdown: Array<{ key: number; name: string; figures: PlannedVsActualFigures }>;
+}
+
+const varianceClass = (figures: PlannedVsActualFigures) =>
+  figures.variance_hours > 0 ? 'text-orange-600' : figures.variance_hours < 0 ? 'text-blue-600' : 'text-gray-600';
+
+export function PlannedVsActual({ users }: PlannedVsActualProps) {
+  const [filter, setFilter] = useState<PlannedVsActualReportInput>({
+    start_date: new Date(new Date().getFullYear(), new Date().getMonth(), 1),
+    end_date: new Date()
+  });
+  const [view, setView] = useState<'people' | 'projects'>('people');
+  const [report, setReport] = useState<PlannedVsActualReport | null>(null);
+  const [expandedKey, setExpandedKey] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const runReport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getPlannedVsActualReport.query(filter);
+      setReport(result);
+      setExpandedKey(null);
+    } catch (error) {
+      console.error('Failed to generate planned vs actual report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rows: ReportRow[] = !report ? [] : view === 'people'
+    ? report.people.map(person => ({
+      key: person.user_id,
+      name: person.user_name,
+      figures: person,
+      breakdown: person.projects.map(project => ({
+        key: project.project_id,
+        name: `${project.client_name} › ${project.project_name}`,
+        figures: project
+      }))
+    }))
+    : report.projects.map(project => ({
+      key: project.project_id,
+      name: `${project.client_name} › ${project.project_name}`,
+      figures: project,
+      breakdown: project.people.map(person => ({ key: person.user_id, name: person.user_name, figures: person }))
+    }));
+
+  const figureCells = (figures: PlannedVsActualFigures) => (
+    <>
+      <td className="py-2 pr-4 text-right">{figures.planned_hours}h</td>
+      <td className="py-2 pr-4 text-right">{figures.actual_hours}h</td>
+      <td className={`py-2 pr-4 text-right ${varianceClass(figures)}`}>
+        {figures.variance_hours > 0 ? '+' : ''}{figures.variance_hours}h
+      </td>
+      <td className={`py-2 text-right ${varianceClass(figures)}`}>
+        {figures.variance_percent === null ? '–' : `${figures.variance_percent > 0 ? '+' : ''}${figures.variance_percent}%`}
+      </td>
+    </>
+  );
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle>Planned vs Actual</CardTitle>
+        <CardDescription>
+          Hours planned on the planning board against hours booked, by whole weeks
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-5 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="pva-start">From</Label>
+            <Input
+              id="pva-start"
+              type="date"
+              value={filter.start_date.toISOString().split('T')[0]}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFilter(prev => ({ ...prev, start_date: new Date(e.target.value) }))
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pva-end">To</Label>
+            <Input
+              id="pva-end"
+              type="date"
+              value={filter.end_date.toISOString().split('T')[0]}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFilter(prev => ({ ...prev, end_date: new Date(e.target.value) }))
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Team Member</Label>
+            <Select
+              value={filter.user_id?.toString() || 'all'}
+              onValueChange={(value: string) =>
+                setFilter(prev => ({ ...prev, user_id: value === 'all' ? undefined : parseInt(value) }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                {users.map((user: User) => (
+                  <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Group By</Label>
+            <Select value={view} onValueChange={(value: string) => setView(value as 'people' | 'projects')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="people">Person</SelectItem>
+                <SelectItem value="projects">Project</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={runReport} disabled={isLoading}>
+            {isLoading ? 'Generating Report...' : 'Generate Report'}
+          </Button>
+        </div>
+
+        {!report ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Pick a period to compare plans with booked time.</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>Nothing was planned or booked from {new Date(report.start_date).toLocaleDateString()} to {new Date(report.end_date).toLocaleDateString()}.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <p className="text-xs text-gray-500 mb-2">
+              Weeks from {new Date(report.start_date).toLocaleDateString()} to {new Date(report.end_date).toLocaleDateString()}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-4">{view === 'people' ? 'Person' : 'Project'}</th>
+                  <th className="py-2 pr-4 text-right">Planned</th>
+                  <th className="py-2 pr-4 text-right">Actual</th>
+                  <th className="py-2 pr-4 text-right">Variance</th>
+                  <th className="py-2 text-right">%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <Fragment key={row.key}>
+                    <tr
+                      className="border-b cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedKey(prev => (prev === row.key ? null : row.key))}
+                    >
+                      <td className="py-2 pr-4 font-medium">
+                        {expandedKey === row.key ? '▾' : '▸'} {row.name}
+                      </td>
+                      {figureCells(row.figures)}
+                    </tr>
+                    {expandedKey === row.key && row.breakdown.map(item => (
+                      <tr key={`${row.key}-${item.key}`} className="border-b text-gray-600">
+                        <td className="py-2 pr-4 pl-6">{item.name}</td>
+                        {figureCells(item.figures)}
+                      </tr>
+                    ))}
+                  </Fragment>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-bold">
+                  <td className="py-2 pr-4">Total</td>
+                  {figureCells(report.totals)}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
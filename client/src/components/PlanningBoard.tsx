@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { groupAssignments } from '@/lib/assignments';
+import type { PlanningBoard as Board, Assignment } from '../../../server/src/schema';
+
+const WEEK_COUNTS = [4, 8, 12];
+
+const formatWeek = (weekStart: string) =>
+  new Date(weekStart + 'T00:00:00Z').toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date + 'T00:00:00Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+export function PlanningBoard() {
+  const [board, setBoard] = useState<Board | null>(null);
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [weeks, setWeeks] = useState(8);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The cell being edited, its user's assignments and the hours typed per position
+  const [selected, setSelected] = useState<{ user_id: number; week_start: string } | null>(null);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [draft, setDraft] = useState<Record<number, string>>({});
+
+  const loadBoard = useCallback(async () => {
+    try {
+      const result = await trpc.getPlanningBoard.query({ start_date: new Date(startDate), weeks });
+      setBoard(result);
+    } catch (error) {
+      console.error('Failed to load planning board:', error);
+    }
+  }, [startDate, weeks]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const selectedUserId = selected?.user_id ?? null;
+  useEffect(() => {
+    if (selectedUserId === null) return;
+    trpc.getAssignments.query({ user_id: selectedUserId })
+      .then(setAssignments)
+      .catch((error: unknown) => console.error('Failed to load assignments:', error));
+  }, [selectedUserId]);
+
+  const selectedRow = board?.rows.find(row => row.user_id === selected?.user_id);
+  const selectedCell = selectedRow?.cells.find(cell => cell.week_start === selected?.week_start);
+
+  const selectCell = (userId: number, weekStart: string) => {
+    const cell = board?.rows.find(row => row.user_id === userId)?.cells.find(item => item.week_start === weekStart);
+    setSelected({ user_id: userId, week_start: weekStart });
+    setDraft(Object.fromEntries((cell?.allocations ?? []).map(allocation => [allocation.position_id, allocation.planned_hours.toString()])));
+  };
+
+  // Positions the user is assigned to during the week, plus any already planned there
+  const weekAssignments = selectedCell
+    ? assignments.filter(assignment =>
+      (assignment.start_date === null || assignment.start_date <= addDays(selectedCell.week_start, 6)) &&
+      (assignment.end_date === null || assignment.end_date >= selectedCell.week_start)
+    )
+    : [];
+  const unassignedAllocations = (selectedCell?.allocations ?? []).filter(allocation =>
+    !weekAssignments.some(assignment => assignment.position_id === allocation.position_id)
+  );
+
+  const handleSave = async () => {
+    if (!selected || !selectedCell) return;
+    setIsLoading(true);
+    try {
+      const changed = Object.entries(draft).filter(([positionId, hours]) => {
+        const existing = selectedCell.allocations.find(allocation => allocation.position_id === parseInt(positionId));
+        return (parseFloat(hours) || 0) !== (existing?.planned_hours ?? 0);
+      });
+      for (const [positionId, hours] of changed) {
+        await trpc.setAllocation.mutate({
+          user_id: selected.user_id,
+          position_id: parseInt(positionId),
+          week_start: new Date(selected.week_start),
+          planned_hours: parseFloat(hours) || 0
+        });
+      }
+      await loadBoard();
+    } catch (error) {
+      console.error('Failed to save allocations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const draftTotal = Object.values(draft).reduce((sum, hours) => sum + (parseFloat(hours) || 0), 0);
+
+  const hoursInput = (positionId: number) => (
+    <Input
+      type="number"
+      min="0"
+      step="0.5"
+      className="w-24"
+      value={draft[positionId] ?? ''}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+        setDraft(prev => ({ ...prev, [positionId]: e.target.value }))
+      }
+      placeholder="0"
+    />
+  );
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              🗓️ Resource Planning
+            </CardTitle>
+            <CardDescription>
+              Planned hours per consultant and week against their capacity after holidays and approved absences
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setStartDate(prev => addDays(prev, -7 * weeks))}>
+              ◀
+            </Button>
+            <div className="space-y-1">
+              <Label htmlFor="planning-start" className="text-xs">From the week of</Label>
+              <Input
+                id="planning-start"
+                type="date"
+                value={startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => e.target.value && setStartDate(e.target.value)}
+              />
+            </div>
+            <Select value={weeks.toString()} onValueChange={(value: string) => setWeeks(parseInt(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_COUNTS.map(count => (
+                  <SelectItem key={count} value={count.toString()}>{count} weeks</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setStartDate(prev => addDays(prev, 7 * weeks))}>
+              ▶
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!board || board.rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No consultants to plan yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-40">Consultant</TableHead>
+                  {board.weeks.map(week => (
+                    <TableHead key={week} className="text-center">{formatWeek(week)}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {board.rows.map(row => (
+                  <TableRow key={row.user_id}>
+                    <TableCell className="font-medium">{row.user_name}</TableCell>
+                    {row.cells.map(cell => {
+                      const isSelected = selected?.user_id === row.user_id && selected.week_start === cell.week_start;
+                      return (
+                        <TableCell key={cell.week_start} className="p-1">
+                          <button
+                            type="button"
+                            onClick={() => selectCell(row.user_id, cell.week_start)}
+                            title={cell.allocations.map(allocation => `${allocation.project_name} › ${allocation.position_name}: ${allocation.planned_hours}h`).join('\n')}
+                            className={`w-full rounded px-2 py-1 text-center text-sm ${
+                              cell.is_overbooked
+                                ? 'bg-red-100 text-red-800 font-semibold'
+                                : cell.planned_hours > 0 ? 'bg-blue-50' : 'bg-gray-50 text-gray-400'
+                            } ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+                          >
+                            {cell.planned_hours}/{cell.capacity_hours}h
+                          </button>
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right text-sm">
+                      {row.planned_hours}/{row.capacity_hours}h
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {selectedRow && selectedCell && (
+          <div className="p-4 bg-blue-50 rounded-lg border space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium">{selectedRow.user_name} · week of {formatWeek(selectedCell.week_start)}</div>
+                <div className={`text-sm ${draftTotal > selectedCell.capacity_hours ? 'text-red-600' : 'text-gray-600'}`}>
+                  {draftTotal}h planned of {selectedCell.capacity_hours}h capacity
+                  {draftTotal > selectedCell.capacity_hours && ' - overbooked'}
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+                Close
+              </Button>
+            </div>
+
+            {weekAssignments.length === 0 && unassignedAllocations.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {selectedRow.user_name} is not assigned to any position this week. Assign them in Clients & CRM first.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {groupAssignments(weekAssignments).map(group => (
+                  <div key={group.label} className="space-y-2">
+                    <div className="text-xs font-medium text-gray-500">{group.label}</div>
+                    {group.assignments.map(assignment => (
+                      <div key={assignment.id} className="flex items-center justify-between gap-4">
+                        <span className="text-sm">{assignment.position_name}</span>
+                        {hoursInput(assignment.position_id)}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {unassignedAllocations.map(allocation => (
+                  <div key={allocation.id} className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-orange-700">
+                      {allocation.client_name} · {allocation.project_name} › {allocation.position_name} (not assigned)
+                    </span>
+                    {hoursInput(allocation.position_id)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button onClick={handleSave} disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Week'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
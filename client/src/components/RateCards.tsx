@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { RATE_CARD_LEVEL_LABELS } from '@/lib/rates';
+import { formatMoney } from '@/lib/currency';
+import type {
+  User, Client, Project, Position, RateCard, RateCardLevel, GetRateCardsInput
+} from '../../../server/src/schema';
+
+interface RateCardsProps {
+  users: User[];
+}
+
+export function RateCards({ users }: RateCardsProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [clientId, setClientId] = useState<number | null>(null);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [positionId, setPositionId] = useState<number | null>(null);
+  const [userId, setUserId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<{ hourly_rate: number; valid_from: Date; valid_to: Date | null }>({
+    hourly_rate: 100,
+    valid_from: new Date(),
+    valid_to: null
+  });
+  const [endDates, setEndDates] = useState<Record<number, string>>({});
+
+  // The most specific selection decides the level of a new card
+  const level: RateCardLevel | null =
+    positionId && userId ? 'user_position' :
+    positionId ? 'position' :
+    projectId ? 'project' :
+    clientId ? 'client' : null;
+
+  // Rates are in the client's currency
+  const currency = clients.find(client => client.id === clientId)?.currency || 'USD';
+
+  const loadClients = useCallback(async () => {
+    try {
+      const result = await trpc.getClients.query();
+      setClients(result);
+    } catch (error) {
+      console.error('Failed to load clients:', error);
+    }
+  }, []);
+
+  const loadRateCards = useCallback(async () => {
+    if (!level) return;
+    const filter: GetRateCardsInput =
+      level === 'user_position' ? { position_id: positionId ?? undefined, user_id: userId ?? undefined } :
+      level === 'position' ? { position_id: positionId ?? undefined } :
+      level === 'project' ? { project_id: projectId ?? undefined } :
+      { client_id: clientId ?? undefined };
+    try {
+      const result = await trpc.getRateCards.query(filter);
+      setRateCards(result.filter(card => card.level === level));
+    } catch (error) {
+      console.error('Failed to load rate cards:', error);
+    }
+  }, [level, clientId, projectId, positionId, userId]);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  useEffect(() => {
+    loadRateCards();
+  }, [loadRateCards]);
+
+  const handleClientChange = async (value: string) => {
+    const id = parseInt(value);
+    setClientId(id);
+    setProjectId(null);
+    setPositionId(null);
+    setPositions([]);
+    try {
+      const result = await trpc.getProjectsByClient.query({ client_id: id });
+      setProjects(result);
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
+  };
+
+  const handleProjectChange = async (value: string) => {
+    setPositionId(null);
+    if (value === 'all') {
+      setProjectId(null);
+      setPositions([]);
+      return;
+    }
+    const id = parseInt(value);
+    setProjectId(id);
+    try {
+      const result = await trpc.getPositionsByProject.query({ project_id: id });
+      setPositions(result);
+    } catch (error) {
+      console.error('Failed to load positions:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!level) return;
+    setIsLoading(true);
+    try {
+      await trpc.createRateCard.mutate({
+        level,
+        client_id: level === 'client' ? clientId : null,
+        project_id: level === 'project' ? projectId : null,
+        position_id: level === 'position' || level === 'user_position' ? positionId : null,
+        user_id: level === 'user_position' ? userId : null,
+        ...formData
+      });
+      await loadRateCards();
+    } catch (error) {
+      console.error('Failed to create rate card:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEnd = async (card: RateCard) => {
+    const validTo = endDates[card.id];
+    if (!validTo) return;
+    try {
+      const result = await trpc.endRateCard.mutate({ rate_card_id: card.id, valid_to: new Date(validTo) });
+      setRateCards(prev => prev.map(item => (item.id === result.id ? result : item)));
+    } catch (error) {
+      console.error('Failed to end rate card:', error);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            💶 Rate Cards
+          </CardTitle>
+          <CardDescription>
+            The most specific card valid on an entry's date prices it: team member on position, position, project, then client
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Client</Label>
+                <Select value={clientId?.toString() || ''} onValueChange={handleClientChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a client" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client: Client) => (
+                      <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={projectId?.toString() || 'all'} onValueChange={handleProjectChange} disabled={!clientId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Whole client</SelectItem>
+                    {projects.map((project: Project) => (
+                      <SelectItem key={project.id} value={project.id.toString()}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Position</Label>
+                <Select
+                  value={positionId?.toString() || 'all'}
+                  onValueChange={(value: string) => setPositionId(value === 'all' ? null : parseInt(value))}
+                  disabled={!projectId}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Whole project</SelectItem>
+                    {positions.map((position: Position) => (
+                      <SelectItem key={position.id} value={position.id.toString()}>{position.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Team Member</Label>
+                <Select
+                  value={userId?.toString() || 'all'}
+                  onValueChange={(value: string) => setUserId(value === 'all' ? null : parseInt(value))}
+                  disabled={!positionId}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    {users.map((user: User) => (
+                      <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rate-card-rate">Hourly Rate ({currency})</Label>
+                <Input
+                  id="rate-card-rate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.hourly_rate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, hourly_rate: parseFloat(e.target.value) || 0 }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-card-from">Valid From</Label>
+                <Input
+                  id="rate-card-from"
+                  type="date"
+                  value={formData.valid_from.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, valid_from: new Date(e.target.value) }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-card-to">Valid To (Optional)</Label>
+                <Input
+                  id="rate-card-to"
+                  type="date"
+                  value={formData.valid_to ? formData.valid_to.toISOString().split('T')[0] : ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, valid_to: e.target.value ? new Date(e.target.value) : null }))
+                  }
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={isLoading || !level} className="w-full">
+              {level ? `Add ${RATE_CARD_LEVEL_LABELS[level]} Rate` : 'Select a scope'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle>📜 Rate History</CardTitle>
+          <CardDescription>
+            Without a card, the position rate and then the team member rate apply
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!level || rateCards.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>{level ? 'No rate cards for this scope.' : 'Select a client to see its rate cards.'}</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {rateCards.map((card: RateCard) => (
+                <div key={card.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium">{formatMoney(card.hourly_rate, currency)}/h</div>
+                    <Badge variant="outline">{RATE_CARD_LEVEL_LABELS[card.level]}</Badge>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {new Date(card.valid_from).toLocaleDateString()} –{' '}
+                    {card.valid_to ? new Date(card.valid_to).toLocaleDateString() : 'open-ended'}
+                  </div>
+                  {!card.valid_to && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={endDates[card.id] || ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setEndDates(prev => ({ ...prev, [card.id]: e.target.value }))
+                        }
+                      />
+                      <Button variant="outline" size="sm" onClick={() => handleEnd(card)} disabled={!endDates[card.id]}>
+                        End
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
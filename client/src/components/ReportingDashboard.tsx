@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,19 +6,61 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { trpc } from '@/utils/trpc';
+import { BudgetForecast } from '@/components/BudgetForecast';
+import { PlannedVsActual } from '@/components/PlannedVsActual';
+import { BUDGET_AMENDMENT_STATUS_LABELS } from '@/lib/projects';
+import { formatMoney } from '@/lib/currency';
 import type { 
   User, Client, Project, Position,
-  UtilizationReportInput, BudgetConsumptionInput, BookingDetailsInput
+  UtilizationReportInput, BudgetConsumptionInput, BookingDetailsInput, AgingReportRow,
+  ProfitabilityReportInput, ProfitabilityReport, ProfitabilityFigures, ProjectProfitability,
+  BudgetAmendment
 } from '../../../server/src/schema';
 
 interface ReportingDashboardProps {
   users: User[];
 }
 
+const ENTITY_TYPE_LABELS = { client: 'Client', project: 'Project', position: 'Position' } as const;
+
+interface BudgetRow {
+  key: string;
+  item: string;
+  currency: string;
+  budgeted: number | null;
+  consumed: number;
+  rate: number;
+}
+
+function BudgetRows({ rows }: { rows: BudgetRow[] }) {
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.key} className="p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <div className="font-medium">{row.item}</div>
+            <Badge variant={
+              row.rate > 80 ? 'destructive' : 
+              row.rate > 60 ? 'default' : 'secondary'
+            }>
+              {row.rate}%
+            </Badge>
+          </div>
+          <div className="text-sm text-gray-600">
+            {formatMoney(row.consumed, row.currency)}
+            {row.budgeted !== null && ` of ${formatMoney(row.budgeted, row.currency)}`}
+          </div>
+          <Progress value={Math.min(100, row.rate)} className="mt-2" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function ReportingDashboard({ users }: ReportingDashboardProps) {
   const [clients, setClients] = useState<Client[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
@@ -29,7 +71,8 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
   const [utilizationFilter, setUtilizationFilter] = useState<UtilizationReportInput>({
     user_id: undefined,
     start_date: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
-    end_date: new Date()
+    end_date: new Date(),
+    approved_only: false
   });
 
   const [budgetFilter, setBudgetFilter] = useState<BudgetConsumptionInput>({
@@ -44,39 +87,75 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
     end_date: new Date()
   });
 
-  // Report results (stub data since handlers return empty)
+  const [agingAsOf, setAgingAsOf] = useState<Date>(new Date());
+
+  const [profitabilityFilter, setProfitabilityFilter] = useState<ProfitabilityReportInput>({
+    start_date: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
+    end_date: new Date(),
+    client_id: undefined
+  });
+
+  // Report results, shaped for the cards below
   const [utilizationData, setUtilizationData] = useState<{
-    user_id?: number;
     period: string;
+    available_hours: number;
     total_hours: number;
     billable_hours: number;
+    unbooked_hours: number;
     utilization_rate: number;
-    projects?: Array<{ project_name: string; hours: number; utilization: number }>;
+    billable_utilization_rate: number;
+    billable_ratio: number;
+    people: Array<{ user_id: number; user_name: string; total_hours: number; available_hours: number; utilization_rate: number }>;
   } | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
   const [budgetData, setBudgetData] = useState<{
     scope: string;
-    total_budget: number;
+    currency: string;
+    reporting_currency: string;
+    total_budget_reporting: number | null;
+    consumed_amount_reporting: number | null;
+    total_budget: number | null;
+    original_budget: number | null;
     consumed_budget: number;
     consumption_rate: number;
-    remaining_budget: number;
-    breakdown?: Array<{ item: string; budgeted: number; consumed: number; rate: number }>;
+    remaining_budget: number | null;
+    unpriced_hours: number;
+    expense_amount: number;
+    unconverted_expenses: number;
+    earned_value: number | null;
+    amendments: BudgetAmendment[];
+    breakdown: BudgetRow[]; // The client's projects or the project's positions
   } | null>(null);
+  // Without a filter every budgeted client, project and position is listed side by side
+  const [budgetOverview, setBudgetOverview] = useState<BudgetRow[] | null>(null);
   const [bookingData, setBookingData] = useState<{
     user: string;
     period: string;
     total_hours: number;
     billable_hours: number;
-    hourly_rate: number;
-    total_revenue: number;
-    bookings?: Array<{
+    total_revenue: number; // In the reporting currency
+    unpriced_hours: number; // No rate applies; left out of the revenue
+    unconverted_hours: number; // Priced, but no exchange rate; left out of the revenue
+    bookings: Array<{
       project: string;
       client: string;
       hours: number;
-      rate: number;
-      revenue: number;
-      period: string;
+      currency: string;
+      revenue: number; // In the client's currency
+      first_date: Date;
+      last_date: Date;
     }>;
   } | null>(null);
+  const [agingData, setAgingData] = useState<AgingReportRow[] | null>(null);
+  const [profitabilityData, setProfitabilityData] = useState<ProfitabilityReport | null>(null);
+  const [expandedProjectId, setExpandedProjectId] = useState<number | null>(null);
+  const [drillBy, setDrillBy] = useState<'positions' | 'consultants'>('positions');
+
+  useEffect(() => {
+    trpc.getCurrencySettings.query()
+      .then(settings => setReportingCurrency(settings.reporting_currency))
+      .catch((error: unknown) => console.error('Failed to load currency settings:', error));
+  }, []);
 
   const loadClients = useCallback(async () => {
     try {
@@ -126,20 +205,33 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
     setIsLoading(true);
     try {
       const result = await trpc.getUtilizationReport.query(utilizationFilter);
-      console.log('Utilization API result:', result); // Log for debugging
-      
-      // Stub data for demonstration since backend returns empty
+
+      // The server reports per user; the totals are recomputed the way it computes each row
+      const total = (field: 'available_hours' | 'total_hours' | 'billable_hours' | 'unbooked_hours') =>
+        Math.round(result.reduce((sum, row) => sum + row[field], 0) * 100) / 100;
+      const toPercentage = (part: number, whole: number) =>
+        whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+
+      const availableHours = total('available_hours');
+      const totalHours = total('total_hours');
+      const billableHours = total('billable_hours');
+
       setUtilizationData({
-        user_id: utilizationFilter.user_id,
         period: `${utilizationFilter.start_date.toLocaleDateString()} - ${utilizationFilter.end_date.toLocaleDateString()}`,
-        total_hours: 120.5,
-        billable_hours: 105.25,
-        utilization_rate: 87.3,
-        projects: [
-          { project_name: 'E-commerce Platform', hours: 45.5, utilization: 38 },
-          { project_name: 'Mobile App Development', hours: 32.75, utilization: 27 },
-          { project_name: 'Database Migration', hours: 27, utilization: 22 }
-        ]
+        available_hours: availableHours,
+        total_hours: totalHours,
+        billable_hours: billableHours,
+        unbooked_hours: total('unbooked_hours'),
+        utilization_rate: toPercentage(totalHours, availableHours),
+        billable_utilization_rate: toPercentage(billableHours, availableHours),
+        billable_ratio: toPercentage(billableHours, totalHours),
+        people: result.map(row => ({
+          user_id: row.user_id,
+          user_name: row.user_name,
+          total_hours: row.total_hours,
+          available_hours: row.available_hours,
+          utilization_rate: row.utilization_rate
+        }))
       });
     } catch (error) {
       console.error('Failed to run utilization report:', error);
@@ -152,20 +244,53 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
     setIsLoading(true);
     try {
       const result = await trpc.getBudgetConsumption.query(budgetFilter);
-      console.log('Budget API result:', result); // Log for debugging
-      
-      // Stub data for demonstration since backend returns empty
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      if (!budgetFilter.client_id && !budgetFilter.project_id && !budgetFilter.position_id) {
+        setBudgetData(null);
+        setBudgetOverview(result.map(item => ({
+          key: `${item.entity_type}-${item.entity_id}`,
+          item: `${ENTITY_TYPE_LABELS[item.entity_type]} · ${item.entity_name}`,
+          currency: item.currency,
+          budgeted: item.total_budget,
+          consumed: round(item.consumed_amount),
+          rate: round(item.consumption_rate)
+        })));
+        return;
+      }
+
+      // A filter returns the chosen entity, with its children as the breakdown
+      setBudgetOverview(null);
+      const report = result[0];
+      if (!report) {
+        setBudgetData(null);
+        return;
+      }
+
       setBudgetData({
-        scope: budgetFilter.position_id ? 'Position' : budgetFilter.project_id ? 'Project' : 'Client',
-        total_budget: 50000,
-        consumed_budget: 32750,
-        consumption_rate: 65.5,
-        remaining_budget: 17250,
-        breakdown: [
-          { item: 'Senior Developer', budgeted: 20000, consumed: 15750, rate: 78.75 },
-          { item: 'Frontend Specialist', budgeted: 15000, consumed: 9500, rate: 63.33 },
-          { item: 'Project Manager', budgeted: 15000, consumed: 7500, rate: 50.00 }
-        ]
+        scope: `${ENTITY_TYPE_LABELS[report.entity_type]} · ${report.entity_name}`,
+        currency: report.currency,
+        reporting_currency: report.reporting_currency,
+        total_budget_reporting: report.total_budget_reporting,
+        consumed_amount_reporting: report.consumed_amount_reporting,
+        total_budget: report.total_budget,
+        original_budget: report.original_budget,
+        consumed_budget: round(report.consumed_amount),
+        consumption_rate: round(report.consumption_rate),
+        remaining_budget: report.remaining_budget !== null ? round(report.remaining_budget) : null,
+        unpriced_hours: report.unpriced_hours,
+        expense_amount: round(report.expense_amount),
+        unconverted_expenses: report.unconverted_expenses,
+        earned_value: report.earned_value,
+        amendments: report.amendments,
+        breakdown: report.breakdown.map(row => ({
+          key: `${row.entity_type}-${row.entity_id}`,
+          item: `${ENTITY_TYPE_LABELS[row.entity_type]} · ${row.entity_name}`,
+          currency: report.currency,
+          budgeted: row.total_budget,
+          consumed: round(row.consumed_amount),
+          rate: round(row.consumption_rate)
+        }))
       });
     } catch (error) {
       console.error('Failed to run budget report:', error);
@@ -178,43 +303,39 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
     setIsLoading(true);
     try {
       const result = await trpc.getBookingDetails.query(bookingFilter);
-      console.log('Booking API result:', result); // Log for debugging
-      
-      // Stub data for demonstration since backend returns empty
-      const selectedUser = users.find(u => u.id === bookingFilter.user_id);
+      const entries = result.flatMap(day => day.entries.map(entry => ({ ...entry, date: day.date })));
+      const round = (value: number) => Math.round(value * 100) / 100;
+      const sumHours = (items: typeof entries) => round(items.reduce((sum, entry) => sum + entry.hours, 0));
+
+      // One line per project; amounts stay in the client's currency, the total is converted
+      const bookings = new Map<string, NonNullable<typeof bookingData>['bookings'][number]>();
+      for (const entry of entries) {
+        const key = `${entry.client_name} · ${entry.project_name}`;
+        const booking = bookings.get(key) ?? {
+          project: entry.project_name,
+          client: entry.client_name,
+          hours: 0,
+          currency: entry.currency,
+          revenue: 0,
+          first_date: entry.date,
+          last_date: entry.date
+        };
+        booking.hours = round(booking.hours + entry.hours);
+        booking.revenue = round(booking.revenue + (entry.amount ?? 0));
+        if (entry.date < booking.first_date) booking.first_date = entry.date;
+        if (entry.date > booking.last_date) booking.last_date = entry.date;
+        bookings.set(key, booking);
+      }
+
       setBookingData({
-        user: selectedUser?.name || 'Unknown User',
+        user: users.find(u => u.id === bookingFilter.user_id)?.name || 'Unknown User',
         period: `${bookingFilter.start_date.toLocaleDateString()} - ${bookingFilter.end_date.toLocaleDateString()}`,
-        total_hours: 145.5,
-        billable_hours: 128.25,
-        hourly_rate: selectedUser?.hourly_rate || 85,
-        total_revenue: 10901.25,
-        bookings: [
-          { 
-            project: 'E-commerce Platform',
-            client: 'TechCorp Inc.',
-            hours: 52.5,
-            rate: 85,
-            revenue: 4462.50,
-            period: '2024-01-01 to 2024-01-15'
-          },
-          {
-            project: 'Mobile App Development', 
-            client: 'StartupXYZ',
-            hours: 38.75,
-            rate: 85,
-            revenue: 3293.75,
-            period: '2024-01-16 to 2024-01-31'
-          },
-          {
-            project: 'Database Migration',
-            client: 'Enterprise Corp',
-            hours: 37,
-            rate: 85,
-            revenue: 3145.00,
-            period: '2024-01-01 to 2024-01-31'
-          }
-        ]
+        total_hours: sumHours(entries),
+        billable_hours: sumHours(entries.filter(entry => entry.billable)),
+        total_revenue: round(entries.reduce((sum, entry) => sum + (entry.amount_reporting ?? 0), 0)),
+        unpriced_hours: sumHours(entries.filter(entry => entry.amount === null)),
+        unconverted_hours: sumHours(entries.filter(entry => entry.amount !== null && entry.amount_reporting === null)),
+        bookings: [...bookings.values()]
       });
     } catch (error) {
       console.error('Failed to run booking report:', error);
@@ -223,6 +344,69 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
     }
   };
 
+  const runAgingReport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getAgingReport.query({ as_of: agingAsOf });
+      setAgingData(result);
+    } catch (error) {
+      console.error('Failed to run aging report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runProfitabilityReport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getProfitabilityReport.query(profitabilityFilter);
+      setProfitabilityData(result);
+      setExpandedProjectId(null);
+    } catch (error) {
+      console.error('Failed to run profitability report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Drill-down rows of the expanded project, by position or by consultant
+  const drillRows = (project: ProjectProfitability): Array<{ key: number; name: string; figures: ProfitabilityFigures }> =>
+    drillBy === 'positions'
+      ? project.positions.map(row => ({ key: row.position_id, name: row.position_name, figures: row }))
+      : project.consultants.map(row => ({ key: row.user_id, name: row.user_name, figures: row }));
+
+  // Revenue, cost and margin are in the reporting currency
+  const figureCells = (figures: ProfitabilityFigures, currency: string) => (
+    <>
+      <td className="py-2 pr-4 text-right">{figures.hours}h</td>
+      <td className="py-2 pr-4 text-right">{formatMoney(figures.revenue, currency)}</td>
+      <td className="py-2 pr-4 text-right">{formatMoney(figures.cost, currency)}</td>
+      <td className={`py-2 pr-4 text-right ${figures.gross_margin < 0 ? 'text-red-600' : ''}`}>
+        {formatMoney(figures.gross_margin, currency)}
+      </td>
+      <td className="py-2 text-right">
+        {figures.margin_percent === null ? (
+          <span className="text-gray-400">–</span>
+        ) : (
+          <Badge variant={figures.margin_percent < 0 ? 'destructive' : figures.margin_percent < 20 ? 'outline' : 'secondary'}>
+            {figures.margin_percent}%
+          </Badge>
+        )}
+      </td>
+    </>
+  );
+
+  // Rows are in each client's currency, so only the reporting currency amounts add up across clients
+  const addReporting = (total: number | null, amount: number | null) =>
+    total !== null && amount !== null ? Math.round((total + amount) * 100) / 100 : null;
+  const agingTotals = agingData?.reduce(
+    (totals, row) => ({
+      total_outstanding: addReporting(totals.total_outstanding, row.total_outstanding_reporting),
+      overdue_amount: addReporting(totals.overdue_amount, row.overdue_amount_reporting)
+    }),
+    { total_outstanding: 0 as number | null, overdue_amount: 0 as number | null }
+  );
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -231,10 +415,13 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
       </div>
 
       <Tabs defaultValue="utilization" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="utilization">📈 Utilization</TabsTrigger>
           <TabsTrigger value="budget">💰 Budget</TabsTrigger>
           <TabsTrigger value="bookings">📅 Bookings</TabsTrigger>
+          <TabsTrigger value="receivables">💳 Receivables</TabsTrigger>
+          <TabsTrigger value="profitability">💹 Profitability</TabsTrigger>
+          <TabsTrigger value="planning">🎯 Plan vs Actual</TabsTrigger>
         </TabsList>
 
         <TabsContent value="utilization" className="space-y-6">
@@ -296,6 +483,17 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                   </div>
                 </div>
                 
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="utilization-approved-only"
+                    checked={utilizationFilter.approved_only ?? false}
+                    onCheckedChange={(checked) =>
+                      setUtilizationFilter(prev => ({ ...prev, approved_only: checked }))
+                    }
+                  />
+                  <Label htmlFor="utilization-approved-only">Approved time only</Label>
+                </div>
+                
                 <Button onClick={runUtilizationReport} disabled={isLoading} className="w-full">
                   {isLoading ? 'Generating Report...' : 'Generate Utilization Report'}
                 </Button>
@@ -313,11 +511,17 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                 {utilizationData ? (
                   <div className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-gray-700">
+                          {utilizationData.available_hours}h
+                        </div>
+                        <div className="text-sm text-gray-600">Available Hours</div>
+                      </div>
                       <div className="text-center">
                         <div className="text-2xl font-bold text-blue-600">
                           {utilizationData.total_hours}h
                         </div>
-                        <div className="text-sm text-gray-600">Total Hours</div>
+                        <div className="text-sm text-gray-600">Booked Hours</div>
                       </div>
                       <div className="text-center">
                         <div className="text-2xl font-bold text-green-600">
@@ -325,29 +529,38 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                         </div>
                         <div className="text-sm text-gray-600">Billable Hours</div>
                       </div>
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-orange-600">
+                          {utilizationData.unbooked_hours}h
+                        </div>
+                        <div className="text-sm text-gray-600">Unbooked Hours</div>
+                      </div>
                     </div>
                     
                     <div className="text-center">
                       <div className="text-3xl font-bold text-purple-600 mb-2">
-                        {utilizationData.utilization_rate}%
+                        {utilizationData.billable_utilization_rate}%
+                      </div>
+                      <Progress value={Math.min(100, utilizationData.billable_utilization_rate)} className="w-full mb-2" />
+                      <div className="text-sm text-gray-600">Billable Utilization of Capacity</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {utilizationData.utilization_rate}% of capacity booked · {utilizationData.billable_ratio}% of booked time billable
                       </div>
-                      <Progress value={utilizationData.utilization_rate} className="w-full mb-2" />
-                      <div className="text-sm text-gray-600">Utilization Rate</div>
                     </div>
                     
                     <Separator />
                     
                     <div>
-                      <h4 className="font-medium mb-3">Project Breakdown</h4>
+                      <h4 className="font-medium mb-3">Team Breakdown</h4>
                       <div className="space-y-2">
-                        {utilizationData.projects?.map((project, index: number) => (
-                          <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                        {utilizationData.people.map(person => (
+                          <div key={person.user_id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                             <div>
-                              <div className="font-medium text-sm">{project.project_name}</div>
-                              <div className="text-xs text-gray-600">{project.hours}h logged</div>
+                              <div className="font-medium text-sm">{person.user_name}</div>
+                              <div className="text-xs text-gray-600">{person.total_hours}h of {person.available_hours}h logged</div>
                             </div>
                             <Badge variant="outline">
-                              {project.utilization}%
+                              {person.utilization_rate}%
                             </Badge>
                           </div>
                         ))}
@@ -466,7 +679,9 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
               <CardHeader>
                 <CardTitle>Budget Analysis</CardTitle>
                 <CardDescription>
-                  {budgetData ? `${budgetData.scope} level analysis` : 'Run a report to see budget analysis'}
+                  {budgetData
+                    ? budgetData.scope
+                    : budgetOverview ? 'All budgeted clients, projects and positions' : 'Run a report to see budget analysis'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -475,15 +690,30 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                     <div className="grid grid-cols-2 gap-4">
                       <div className="text-center">
                         <div className="text-2xl font-bold text-blue-600">
-                          ${budgetData.total_budget.toLocaleString()}
+                          {budgetData.total_budget !== null ? formatMoney(budgetData.total_budget, budgetData.currency) : 'No budget'}
                         </div>
                         <div className="text-sm text-gray-600">Total Budget</div>
+                        {budgetData.currency !== budgetData.reporting_currency && budgetData.total_budget_reporting !== null && (
+                          <div className="text-xs text-gray-500">
+                            {formatMoney(budgetData.total_budget_reporting, budgetData.reporting_currency)} at today's rate
+                          </div>
+                        )}
+                        {budgetData.original_budget !== null && budgetData.original_budget !== budgetData.total_budget && (
+                          <div className="text-xs text-gray-500">
+                            Originally {formatMoney(budgetData.original_budget, budgetData.currency)}
+                          </div>
+                        )}
                       </div>
                       <div className="text-center">
                         <div className="text-2xl font-bold text-orange-600">
-                          ${budgetData.consumed_budget.toLocaleString()}
+                          {formatMoney(budgetData.consumed_budget, budgetData.currency)}
                         </div>
                         <div className="text-sm text-gray-600">Consumed</div>
+                        {budgetData.currency !== budgetData.reporting_currency && budgetData.consumed_amount_reporting !== null && (
+                          <div className="text-xs text-gray-500">
+                            {formatMoney(budgetData.consumed_amount_reporting, budgetData.reporting_currency)} at booking dates
+                          </div>
+                        )}
                       </div>
                     </div>
                     
@@ -491,42 +721,78 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                       <div className="text-3xl font-bold text-red-600 mb-2">
                         {budgetData.consumption_rate}%
                       </div>
-                      <Progress value={budgetData.consumption_rate} className="w-full mb-2" />
+                      <Progress value={Math.min(100, budgetData.consumption_rate)} className="w-full mb-2" />
                       <div className="text-sm text-gray-600">Consumption Rate</div>
                     </div>
                     
-                    <div className="text-center p-3 bg-green-50 rounded-lg">
-                      <div className="text-lg font-bold text-green-600">
-                        ${budgetData.remaining_budget.toLocaleString()}
+                    {budgetData.remaining_budget !== null && (
+                      <div className="text-center p-3 bg-green-50 rounded-lg">
+                        <div className="text-lg font-bold text-green-600">
+                          {formatMoney(budgetData.remaining_budget, budgetData.currency)}
+                        </div>
+                        <div className="text-sm text-green-600">Remaining Budget</div>
                       </div>
-                      <div className="text-sm text-green-600">Remaining Budget</div>
-                    </div>
-                    
-                    <Separator />
+                    )}
+
+                    {budgetData.unpriced_hours > 0 && (
+                      <div className="text-sm text-orange-600 text-center">
+                        ⚠️ {budgetData.unpriced_hours}h have no applicable rate and are not counted
+                      </div>
+                    )}
+
+                    {budgetData.expense_amount > 0 && (
+                      <div className="text-sm text-gray-600 text-center">
+                        Includes {formatMoney(budgetData.expense_amount, budgetData.currency)} of billable expenses
+                      </div>
+                    )}
+
+                    {budgetData.earned_value !== null && (
+                      <div className="text-sm text-gray-600 text-center">
+                        Fixed price: effort cost {formatMoney(budgetData.consumed_budget, budgetData.currency)} against{' '}
+                        {formatMoney(budgetData.earned_value, budgetData.currency)} earned by completed milestones
+                      </div>
+                    )}
+
+                    {budgetData.unconverted_expenses > 0 && (
+                      <div className="text-sm text-orange-600 text-center">
+                        ⚠️ {budgetData.unconverted_expenses} billable expenses have no exchange rate to {budgetData.currency} and are not counted
+                      </div>
+                    )}
                     
-                    <div>
-                      <h4 className="font-medium mb-3">Detailed Breakdown</h4>
-                      <div className="space-y-2">
-                        {budgetData.breakdown?.map((item, index: number) => (
-                          <div key={index} className="p-3 bg-gray-50 rounded-lg">
-                            <div className="flex items-center justify-between mb-2">
-                              <div className="font-medium">{item.item}</div>
-                              <Badge variant={
-                                item.rate > 80 ? 'destructive' : 
-                                item.rate > 60 ? 'default' : 'secondary'
-                              }>
-                                {item.rate}%
+                    {budgetData.amendments.length > 0 && (
+                      <div>
+                        <h4 className="font-medium mb-3">Budget Amendments</h4>
+                        <div className="space-y-2">
+                          {budgetData.amendments.map(amendment => (
+                            <div key={amendment.id} className="flex items-center justify-between text-sm">
+                              <div>
+                                <span className="font-medium">
+                                  {amendment.delta > 0 ? '+' : '−'}{formatMoney(Math.abs(amendment.delta), budgetData.currency)}
+                                </span>{' '}
+                                <span className="text-gray-600">{amendment.reason}</span>
+                              </div>
+                              <Badge variant={amendment.status === 'approved' ? 'default' : amendment.status === 'rejected' ? 'destructive' : 'outline'}>
+                                {BUDGET_AMENDMENT_STATUS_LABELS[amendment.status]}
                               </Badge>
                             </div>
-                            <div className="text-sm text-gray-600">
-                              ${item.consumed.toLocaleString()} of ${item.budgeted.toLocaleString()}
-                            </div>
-                            <Progress value={item.rate} className="mt-2" />
-                          </div>
-                        ))}
+                          ))}
+                        </div>
                       </div>
-                    </div>
+                    )}
+
+                    {budgetData.breakdown.length > 0 && (
+                      <>
+                        <Separator />
+
+                        <div>
+                          <h4 className="font-medium mb-3">Detailed Breakdown</h4>
+                          <BudgetRows rows={budgetData.breakdown} />
+                        </div>
+                      </>
+                    )}
                   </div>
+                ) : budgetOverview && budgetOverview.length > 0 ? (
+                  <BudgetRows rows={budgetOverview} />
                 ) : (
                   <div className="text-center py-8 text-gray-500">
                     <p>Configure filters and run a report to see budget consumption data.</p>
@@ -535,6 +801,8 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
               </CardContent>
             </Card>
           </div>
+
+          <BudgetForecast clientId={budgetFilter.client_id} projectId={budgetFilter.project_id} />
         </TabsContent>
 
         <TabsContent value="bookings" className="space-y-6">
@@ -563,7 +831,7 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                         <SelectItem key={user.id} value={user.id.toString()}>
                           {user.name} ({user.role.replace('_', ' ')})
                           {user.hourly_rate && (
-                            <span className="text-gray-500 ml-2">- ${user.hourly_rate}/hr</span>
+                            <span className="text-gray-500 ml-2">- {formatMoney(user.hourly_rate, reportingCurrency)}/hr</span>
                           )}
                         </SelectItem>
                       ))}
@@ -628,12 +896,19 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                     
                     <div className="text-center p-3 bg-purple-50 rounded-lg">
                       <div className="text-2xl font-bold text-purple-600">
-                        ${bookingData.total_revenue.toLocaleString()}
+                        {formatMoney(bookingData.total_revenue, reportingCurrency)}
                       </div>
                       <div className="text-sm text-purple-600">Total Revenue</div>
-                      <div className="text-xs text-gray-600 mt-1">
-                        @ ${bookingData.hourly_rate}/hour
-                      </div>
+                      {bookingData.unpriced_hours > 0 && (
+                        <div className="text-xs text-orange-600 mt-1">
+                          ⚠️ {bookingData.unpriced_hours}h have no applicable rate and are not counted
+                        </div>
+                      )}
+                      {bookingData.unconverted_hours > 0 && (
+                        <div className="text-xs text-orange-600 mt-1">
+                          ⚠️ {bookingData.unconverted_hours}h have no exchange rate to {reportingCurrency} and are not counted
+                        </div>
+                      )}
                     </div>
                     
                     <Separator />
@@ -641,20 +916,22 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
                     <div>
                       <h4 className="font-medium mb-3">Booking Details</h4>
                       <div className="space-y-3 max-h-60 overflow-y-auto">
-                        {bookingData.bookings?.map((booking, index: number) => (
-                          <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                        {bookingData.bookings.map(booking => (
+                          <div key={`${booking.client} · ${booking.project}`} className="p-3 bg-gray-50 rounded-lg">
                             <div className="flex items-center justify-between mb-2">
                               <div className="font-medium">{booking.project}</div>
                               <Badge variant="outline">
-                                ${booking.revenue.toLocaleString()}
+                                {formatMoney(booking.revenue, booking.currency)}
                               </Badge>
                             </div>
                             <div className="text-sm text-gray-600 mb-1">
                               Client: {booking.client}
                             </div>
                             <div className="flex items-center justify-between text-sm">
-                              <span>{booking.hours}h @ ${booking.rate}/hr</span>
-                              <span className="text-xs text-gray-500">{booking.period}</span>
+                              <span>{booking.hours}h</span>
+                              <span className="text-xs text-gray-500">
+                                {booking.first_date.toLocaleDateString()} - {booking.last_date.toLocaleDateString()}
+                              </span>
                             </div>
                           </div>
                         ))}
@@ -670,15 +947,270 @@ export function ReportingDashboard({ users }: ReportingDashboardProps) {
             </Card>
           </div>
         </TabsContent>
-      </Tabs>
 
-      <Alert>
-        <AlertDescription>
-          <strong>Note:</strong> This reporting dashboard uses sample data for demonstration purposes. 
-          In a production environment, these reports would be generated from actual time tracking data 
-          stored in the database and calculated by the backend handlers.
-        </AlertDescription>
-      </Alert>
+        <TabsContent value="receivables" className="space-y-6">
+          <Card className="bg-white/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle>Receivables Aging</CardTitle>
+              <CardDescription>
+                Outstanding invoice balances per client, by days since the invoice was sent
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="aging-as-of">As of</Label>
+                  <Input
+                    id="aging-as-of"
+                    type="date"
+                    value={agingAsOf.toISOString().split('T')[0]}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAgingAsOf(new Date(e.target.value))}
+                    className="w-44"
+                  />
+                </div>
+                <Button onClick={runAgingReport} disabled={isLoading}>
+                  {isLoading ? 'Generating Report...' : 'Generate Aging Report'}
+                </Button>
+              </div>
+
+              {agingData === null ? (
+                <div className="text-center py-8 text-gray-500">
+                  <p>Pick a date to see outstanding balances as of that day.</p>
+                </div>
+              ) : agingData.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <p>No outstanding invoices. 🎉</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="py-2 pr-4">Client</th>
+                        <th className="py-2 pr-4 text-right">0–30 days</th>
+                        <th className="py-2 pr-4 text-right">31–60 days</th>
+                        <th className="py-2 pr-4 text-right">61–90 days</th>
+                        <th className="py-2 pr-4 text-right">90+ days</th>
+                        <th className="py-2 pr-4 text-right">Outstanding</th>
+                        <th className="py-2 text-right">Overdue</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {agingData.map((row: AgingReportRow) => (
+                        <tr key={row.client_id} className="border-b">
+                          <td className="py-2 pr-4 font-medium">{row.client_name}</td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(row.days_0_30, row.currency)}</td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(row.days_31_60, row.currency)}</td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(row.days_61_90, row.currency)}</td>
+                          <td className="py-2 pr-4 text-right">{formatMoney(row.days_over_90, row.currency)}</td>
+                          <td className="py-2 pr-4 text-right font-medium">
+                            {formatMoney(row.total_outstanding, row.currency)}
+                            {row.currency !== reportingCurrency && row.total_outstanding_reporting !== null && (
+                              <div className="text-xs font-normal text-gray-500">
+                                {formatMoney(row.total_outstanding_reporting, reportingCurrency)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2 text-right">
+                            {row.overdue_amount > 0 ? (
+                              <Badge variant="destructive">{formatMoney(row.overdue_amount, row.currency)}</Badge>
+                            ) : (
+                              <span className="text-gray-400">–</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    {agingTotals && (
+                      <tfoot>
+                        <tr className="font-bold">
+                          <td className="py-2 pr-4" colSpan={5}>Total ({reportingCurrency})</td>
+                          <td className="py-2 pr-4 text-right">
+                            {agingTotals.total_outstanding !== null ? formatMoney(agingTotals.total_outstanding, reportingCurrency) : '–'}
+                          </td>
+                          <td className="py-2 text-right text-red-600">
+                            {agingTotals.overdue_amount !== null ? formatMoney(agingTotals.overdue_amount, reportingCurrency) : '–'}
+                          </td>
+                        </tr>
+                      </tfoot>
+                    )}
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="profitability" className="space-y-6">
+          <Card className="bg-white/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle>Project Profitability</CardTitle>
+              <CardDescription>
+                Revenue from billable hours at bill rates against the cost of all hours at cost rates
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profitability-start">Start Date</Label>
+                  <Input
+                    id="profitability-start"
+                    type="date"
+                    value={profitabilityFilter.start_date.toISOString().split('T')[0]}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setProfitabilityFilter(prev => ({ ...prev, start_date: new Date(e.target.value) }))
+                    }
+                    className="w-44"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profitability-end">End Date</Label>
+                  <Input
+                    id="profitability-end"
+                    type="date"
+                    value={profitabilityFilter.end_date.toISOString().split('T')[0]}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setProfitabilityFilter(prev => ({ ...prev, end_date: new Date(e.target.value) }))
+                    }
+                    className="w-44"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Client</Label>
+                  <Select
+                    value={profitabilityFilter.client_id?.toString() || 'all'}
+                    onValueChange={(value: string) =>
+                      setProfitabilityFilter(prev => ({ ...prev, client_id: value === 'all' ? undefined : parseInt(value) }))
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All clients</SelectItem>
+                      {clients.map((client: Client) => (
+                        <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Drill Down By</Label>
+                  <Select
+                    value={drillBy || 'positions'}
+                    onValueChange={(value: 'positions' | 'consultants') => setDrillBy(value)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="positions">Position</SelectItem>
+                      <SelectItem value="consultants">Consultant</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={runProfitabilityReport} disabled={isLoading}>
+                  {isLoading ? 'Generating Report...' : 'Generate Profitability Report'}
+                </Button>
+              </div>
+
+              {profitabilityData === null ? (
+                <div className="text-center py-8 text-gray-500">
+                  <p>Pick a period to see margins per client and project.</p>
+                </div>
+              ) : profitabilityData.clients.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <p>No time booked in this period.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="py-2 pr-4">Client / Project</th>
+                        <th className="py-2 pr-4 text-right">Hours</th>
+                        <th className="py-2 pr-4 text-right">Revenue</th>
+                        <th className="py-2 pr-4 text-right">Cost</th>
+                        <th className="py-2 pr-4 text-right">Gross Margin</th>
+                        <th className="py-2 text-right">Margin</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {profitabilityData.clients.map(client => (
+                        <Fragment key={client.client_id}>
+                          <tr className="border-b bg-gray-50 font-medium">
+                            <td className="py-2 pr-4">
+                              🏢 {client.client_name}
+                              {client.currency !== profitabilityData.reporting_currency && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  Billed {formatMoney(client.original_revenue, client.currency)}
+                                </div>
+                              )}
+                            </td>
+                            {figureCells(client, profitabilityData.reporting_currency)}
+                          </tr>
+                          {client.projects.map(project => (
+                            <Fragment key={project.project_id}>
+                              <tr
+                                className="border-b cursor-pointer hover:bg-blue-50"
+                                onClick={() =>
+                                  setExpandedProjectId(prev => (prev === project.project_id ? null : project.project_id))
+                                }
+                              >
+                                <td className="py-2 pr-4 pl-4">
+                                  {expandedProjectId === project.project_id ? '▾' : '▸'} {project.project_name}
+                                </td>
+                                {figureCells(project, profitabilityData.reporting_currency)}
+                              </tr>
+                              {expandedProjectId === project.project_id && drillRows(project).map(row => (
+                                <tr key={`${drillBy}-${row.key}`} className="border-b text-gray-600">
+                                  <td className="py-2 pr-4 pl-10">{row.name}</td>
+                                  {figureCells(row.figures, profitabilityData.reporting_currency)}
+                                </tr>
+                              ))}
+                            </Fragment>
+                          ))}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="font-bold">
+                        <td className="py-2 pr-4">Total</td>
+                        {figureCells(profitabilityData.totals, profitabilityData.reporting_currency)}
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+
+              {profitabilityData && (
+                profitabilityData.totals.unpriced_hours > 0 ||
+                profitabilityData.totals.unconverted_hours > 0 ||
+                profitabilityData.totals.uncosted_hours > 0
+              ) && (
+                <div className="text-sm text-orange-600 space-y-1">
+                  {profitabilityData.totals.unpriced_hours > 0 && (
+                    <p>⚠️ {profitabilityData.totals.unpriced_hours} billable hours have no bill rate and add no revenue</p>
+                  )}
+                  {profitabilityData.totals.unconverted_hours > 0 && (
+                    <p>
+                      ⚠️ {profitabilityData.totals.unconverted_hours} billable hours have no exchange rate to{' '}
+                      {profitabilityData.reporting_currency} and add no revenue
+                    </p>
+                  )}
+                  {profitabilityData.totals.uncosted_hours > 0 && (
+                    <p>⚠️ {profitabilityData.totals.uncosted_hours} hours have no cost rate and add no cost</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="planning" className="space-y-6">
+          <PlannedVsActual users={users} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
\ No newline at end of file
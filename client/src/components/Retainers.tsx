@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { RETAINER_POLICY_LABELS, formatRetainerQuantity } from '@/lib/retainers';
+import type { Client, Project, Position, RetainerBalance, RetainerOverrunPolicy } from '../../../server/src/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Remaining balance over the validity window, from full at the top to empty at the bottom
+function BurnDownChart({ balance }: { balance: RetainerBalance }) {
+  const width = 240;
+  const height = 56;
+  const start = new Date(balance.valid_from).getTime();
+  const span = Math.max(new Date(balance.valid_to).getTime() - start, DAY_MS);
+  const x = (date: string) => ((new Date(date).getTime() - start) / span) * width;
+  const y = (remaining: number) => height - (Math.max(remaining, 0) / balance.purchased) * height;
+
+  const points = [`0,${y(balance.purchased)}`, ...balance.burn_down.map(point => `${x(point.date)},${y(point.remaining)}`)];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-14 bg-white rounded border">
+      <line x1={0} y1={0} x2={width} y2={height} stroke="#d1d5db" strokeDasharray="4 3" />
+      <polyline points={points.join(' ')} fill="none" stroke={balance.is_exhausted ? '#dc2626' : '#2563eb'} strokeWidth={2} />
+    </svg>
+  );
+}
+
+export function Retainers() {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientId, setClientId] = useState<number | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [positionsByProject, setPositionsByProject] = useState<Record<number, Position[]>>({});
+  const [balances, setBalances] = useState<RetainerBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<{
+    name: string;
+    unit: 'hours' | 'amount';
+    quantity: number;
+    valid_from: Date;
+    valid_to: Date;
+    overrun_policy: RetainerOverrunPolicy;
+  }>({
+    name: '',
+    unit: 'hours',
+    quantity: 100,
+    valid_from: new Date(),
+    valid_to: new Date(Date.now() + 365 * DAY_MS),
+    overrun_policy: 'warn'
+  });
+  const [projectIds, setProjectIds] = useState<number[]>([]);
+  const [positionIds, setPositionIds] = useState<number[]>([]);
+
+  const loadClients = useCallback(async () => {
+    try {
+      const result = await trpc.getClients.query();
+      setClients(result);
+    } catch (error) {
+      console.error('Failed to load clients:', error);
+    }
+  }, []);
+
+  const loadBalances = useCallback(async () => {
+    try {
+      const result = await trpc.getRetainerBalances.query(clientId ? { client_id: clientId } : {});
+      setBalances(result);
+    } catch (error) {
+      console.error('Failed to load retainer balances:', error);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const handleClientChange = async (value: string) => {
+    const id = parseInt(value);
+    setClientId(id);
+    setProjectIds([]);
+    setPositionIds([]);
+    try {
+      // Fixed-price projects are billed through milestones and cannot draw from a retainer
+      const result = (await trpc.getProjectsByClient.query({ client_id: id }))
+        .filter(project => project.billing_model !== 'fixed_price');
+      setProjects(result);
+      const positions = await Promise.all(result.map(project => trpc.getPositionsByProject.query({ project_id: project.id })));
+      setPositionsByProject(Object.fromEntries(result.map((project, index) => [project.id, positions[index]])));
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
+  };
+
+  const toggle = (ids: number[], id: number, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter(item => item !== id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clientId) return;
+    setIsLoading(true);
+    try {
+      await trpc.createRetainer.mutate({
+        client_id: clientId,
+        name: formData.name,
+        purchased_hours: formData.unit === 'hours' ? formData.quantity : null,
+        purchased_amount: formData.unit === 'amount' ? formData.quantity : null,
+        valid_from: formData.valid_from,
+        valid_to: formData.valid_to,
+        overrun_policy: formData.overrun_policy,
+        project_ids: projectIds,
+        // Positions inside a selected project are covered by it already
+        position_ids: positionIds.filter(id => !projectIds.some(projectId => positionsByProject[projectId]?.some(position => position.id === id)))
+      });
+      setFormData(prev => ({ ...prev, name: '' }));
+      setProjectIds([]);
+      setPositionIds([]);
+      await loadBalances();
+    } catch (error) {
+      console.error('Failed to create retainer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePolicyChange = async (balance: RetainerBalance, policy: RetainerOverrunPolicy) => {
+    try {
+      await trpc.updateRetainer.mutate({ id: balance.id, overrun_policy: policy });
+      await loadBalances();
+    } catch (error) {
+      console.error('Failed to update retainer:', error);
+    }
+  };
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🎟️ Retainers
+        </CardTitle>
+        <CardDescription>
+          Hours or budget a client paid for in advance; billable time on the covered projects draws them down
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId?.toString() || ''} onValueChange={handleClientChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client: Client) => (
+                  <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="retainer-name">Name</Label>
+            <Input
+              id="retainer-name"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="e.g., 100 support hours 2024"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Bundle</Label>
+              <Select
+                value={formData.unit || 'hours'}
+                onValueChange={(value: string) => setFormData(prev => ({ ...prev, unit: value as 'hours' | 'amount' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hours">Hours</SelectItem>
+                  <SelectItem value="amount">Amount ({clients.find(client => client.id === clientId)?.currency || 'client currency'})</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retainer-quantity">{formData.unit === 'hours' ? 'Purchased Hours' : 'Purchased Amount'}</Label>
+              <Input
+                id="retainer-quantity"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={formData.quantity || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, quantity: parseFloat(e.target.value) || 0 }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="retainer-from">Valid From</Label>
+              <Input
+                id="retainer-from"
+                type="date"
+                value={formData.valid_from.toISOString().split('T')[0]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, valid_from: new Date(e.target.value) }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retainer-to">Valid To</Label>
+              <Input
+                id="retainer-to"
+                type="date"
+                value={formData.valid_to.toISOString().split('T')[0]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, valid_to: new Date(e.target.value) }))
+                }
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>When Exhausted</Label>
+            <Select
+              value={formData.overrun_policy || 'warn'}
+              onValueChange={(value: string) => setFormData(prev => ({ ...prev, overrun_policy: value as RetainerOverrunPolicy }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RETAINER_POLICY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {clientId && (
+            <div className="space-y-2">
+              <Label>Draws From</Label>
+              {projects.length === 0 ? (
+                <p className="text-sm text-gray-500">This client has no time and materials projects.</p>
+              ) : (
+                <div className="space-y-2 max-h-48 overflow-y-auto p-2 bg-gray-50 rounded-lg">
+                  {projects.map((project: Project) => (
+                    <div key={project.id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`retainer-project-${project.id}`}
+                          checked={projectIds.includes(project.id)}
+                          onCheckedChange={(checked) => setProjectIds(prev => toggle(prev, project.id, checked === true))}
+                        />
+                        <Label htmlFor={`retainer-project-${project.id}`} className="font-medium">{project.name} (whole project)</Label>
+                      </div>
+                      {!projectIds.includes(project.id) && (positionsByProject[project.id] ?? []).map((position: Position) => (
+                        <div key={position.id} className="flex items-center gap-2 pl-6">
+                          <Checkbox
+                            id={`retainer-position-${position.id}`}
+                            checked={positionIds.includes(position.id)}
+                            onCheckedChange={(checked) => setPositionIds(prev => toggle(prev, position.id, checked === true))}
+                          />
+                          <Label htmlFor={`retainer-position-${position.id}`} className="text-sm">{position.name}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading || !clientId || (projectIds.length === 0 && positionIds.length === 0)}
+            className="w-full"
+          >
+            {isLoading ? 'Saving...' : 'Add Retainer'}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {balances.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No retainers yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-[36rem] overflow-y-auto">
+              {balances.map((balance: RetainerBalance) => (
+                <div key={balance.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">{balance.name}</div>
+                      <div className="text-xs text-gray-600">
+                        {balance.client_name} · {new Date(balance.valid_from).toLocaleDateString()} –{' '}
+                        {new Date(balance.valid_to).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <Badge variant={balance.is_exhausted ? 'destructive' : balance.is_active ? 'default' : 'outline'}>
+                      {balance.is_exhausted ? 'Exhausted' : balance.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </div>
+                  <Progress value={Math.min(balance.used_percent, 100)} />
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      {formatRetainerQuantity(balance, balance.used)} of {formatRetainerQuantity(balance, balance.purchased)} used
+                    </span>
+                    <span className={balance.remaining < 0 ? 'text-red-600 font-medium' : 'text-green-600'}>
+                      {balance.remaining < 0
+                        ? `${formatRetainerQuantity(balance, -balance.remaining)} over`
+                        : `${formatRetainerQuantity(balance, balance.remaining)} left`}
+                    </span>
+                  </div>
+                  {balance.burn_down.length > 0 && <BurnDownChart balance={balance} />}
+                  {balance.unpriced_hours > 0 && (
+                    <p className="text-xs text-orange-600">⚠️ {balance.unpriced_hours}h have no applicable rate and are not counted</p>
+                  )}
+                  <Select
+                    value={balance.overrun_policy || 'warn'}
+                    onValueChange={(value: string) => handlePolicyChange(balance, value as RetainerOverrunPolicy)}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RETAINER_POLICY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { SKILL_LEVELS, SKILL_LEVEL_LABELS } from '@/lib/skills';
+import type { User, Skill, UserSkill, SkillLevel } from '../../../server/src/schema';
+
+interface SkillsProps {
+  currentUser: User;
+  users: User[];
+}
+
+export function Skills({ currentUser, users }: SkillsProps) {
+  const canManage = currentUser.role !== 'consultant';
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [userSkills, setUserSkills] = useState<UserSkill[]>([]);
+  const [userId, setUserId] = useState(currentUser.id);
+  const [skillForm, setSkillForm] = useState({ name: '', category: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSkills = useCallback(async () => {
+    try {
+      const result = await trpc.getSkills.query();
+      setSkills(result);
+    } catch (error) {
+      console.error('Failed to load skills:', error);
+    }
+  }, []);
+
+  const loadUserSkills = useCallback(async () => {
+    try {
+      const result = await trpc.getUserSkills.query({ user_id: userId });
+      setUserSkills(result);
+    } catch (error) {
+      console.error('Failed to load user skills:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSkills();
+  }, [loadSkills]);
+
+  useEffect(() => {
+    loadUserSkills();
+  }, [loadUserSkills]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await trpc.createSkill.mutate({ name: skillForm.name, category: skillForm.category || null });
+      setSkillForm({ name: '', category: '' });
+      await loadSkills();
+    } catch (error) {
+      console.error('Failed to create skill:', error);
+      setError(error instanceof Error ? error.message : 'The skill could not be created');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLevelChange = async (skillId: number, level: SkillLevel | null) => {
+    try {
+      await trpc.setUserSkill.mutate({ user_id: userId, skill_id: skillId, level });
+      await loadUserSkills();
+    } catch (error) {
+      console.error('Failed to update skill:', error);
+    }
+  };
+
+  const levelOf = (skillId: number) => userSkills.find(skill => skill.skill_id === skillId)?.level ?? null;
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🧠 Skills
+        </CardTitle>
+        <CardDescription>
+          Proficiencies used to suggest people for positions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <form onSubmit={handleCreate} className="space-y-4">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="grid gap-4 md:grid-cols-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="skill-name">Skill</Label>
+                <Input
+                  id="skill-name"
+                  value={skillForm.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setSkillForm(prev => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="e.g. TypeScript"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="skill-category">Category (Optional)</Label>
+                <Input
+                  id="skill-category"
+                  value={skillForm.category}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setSkillForm(prev => ({ ...prev, category: e.target.value }))
+                  }
+                  placeholder="e.g. Languages"
+                />
+              </div>
+              <Button type="submit" disabled={isLoading || !skillForm.name.trim()}>
+                {isLoading ? 'Adding...' : 'Add Skill'}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {canManage && (
+          <div className="space-y-2">
+            <Label>Team Member</Label>
+            <Select value={userId.toString()} onValueChange={(value: string) => setUserId(parseInt(value))}>
+              <SelectTrigger className="md:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user: User) => (
+                  <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {skills.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No skills in the catalogue yet.</p>
+          </div>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2 max-h-96 overflow-y-auto">
+            {skills.map((skill: Skill) => (
+              <div key={skill.id} className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <div className="font-medium">{skill.name}</div>
+                  {skill.category && <div className="text-xs text-gray-600">{skill.category}</div>}
+                </div>
+                <Select
+                  value={levelOf(skill.id) ?? 'none'}
+                  onValueChange={(value: string) =>
+                    handleLevelChange(skill.id, value === 'none' ? null : value as SkillLevel)
+                  }
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">—</SelectItem>
+                    {SKILL_LEVELS.map(level => (
+                      <SelectItem key={level} value={level}>{SKILL_LEVEL_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { SKILL_LEVELS, SKILL_LEVEL_LABELS } from '@/lib/skills';
+import type { Project, Position, Skill, SkillLevel, StaffingSuggestions } from '../../../server/src/schema';
+
+interface StaffingProps {
+  project: Project;
+  positions: Position[];
+}
+
+export function Staffing({ project, positions }: StaffingProps) {
+  const [selectedPositionId, setSelectedPositionId] = useState<number | null>(null);
+  const [skills, setSkills] = useState<Skill[]>([]);
+  // Required skills as edited, saved together
+  const [required, setRequired] = useState<Array<{ skill_id: number; min_level: SkillLevel }>>([]);
+  const [newSkillId, setNewSkillId] = useState(0);
+  const [suggestions, setSuggestions] = useState<StaffingSuggestions | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Positions load after the card, so default to the first one once they are there
+  const positionId = selectedPositionId ?? positions[0]?.id ?? null;
+
+  useEffect(() => {
+    trpc.getSkills.query()
+      .then(setSkills)
+      .catch((error: unknown) => console.error('Failed to load skills:', error));
+  }, []);
+
+  const loadSuggestions = useCallback(async () => {
+    if (positionId === null) return;
+    setError(null);
+    try {
+      const result = await trpc.getStaffingSuggestions.query({ position_id: positionId, limit: 10 });
+      setSuggestions(result);
+    } catch (error) {
+      console.error('Failed to load staffing suggestions:', error);
+      setSuggestions(null);
+      setError(error instanceof Error ? error.message : 'No suggestions could be made');
+    }
+  }, [positionId]);
+
+  useEffect(() => {
+    if (positionId === null) return;
+    trpc.getPositionSkills.query({ position_id: positionId })
+      .then(result => setRequired(result.map(skill => ({ skill_id: skill.skill_id, min_level: skill.min_level }))))
+      .catch((error: unknown) => console.error('Failed to load position skills:', error));
+    loadSuggestions();
+  }, [positionId, loadSuggestions]);
+
+  const handleSave = async () => {
+    if (positionId === null) return;
+    setIsLoading(true);
+    try {
+      await trpc.setPositionSkills.mutate({ position_id: positionId, skills: required });
+      await loadSuggestions();
+    } catch (error) {
+      console.error('Failed to save position skills:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const unusedSkills = skills.filter(skill => !required.some(item => item.skill_id === skill.id));
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🔎 Staffing
+        </CardTitle>
+        <CardDescription>
+          People ranked by how well they match a {project.name} position&apos;s skills, then by free hours
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {positions.length === 0 ? (
+          <p className="text-sm text-gray-500">Add a position to staff it.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Position</Label>
+              <Select
+                value={positionId?.toString() ?? ''}
+                onValueChange={(value: string) => setSelectedPositionId(parseInt(value))}
+              >
+                <SelectTrigger className="md:w-72">
+                  <SelectValue placeholder="Select a position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {positions.map((position: Position) => (
+                    <SelectItem key={position.id} value={position.id.toString()}>{position.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-3">
+                <h3 className="font-medium">Required Skills</h3>
+                {required.length === 0 && (
+                  <p className="text-sm text-gray-500">No skills required - everyone matches.</p>
+                )}
+                {required.map(item => (
+                  <div key={item.skill_id} className="flex items-center justify-between gap-2">
+                    <span className="text-sm">{skills.find(skill => skill.id === item.skill_id)?.name}</span>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={item.min_level}
+                        onValueChange={(value: string) =>
+                          setRequired(prev => prev.map(entry =>
+                            entry.skill_id === item.skill_id ? { ...entry, min_level: value as SkillLevel } : entry
+                          ))
+                        }
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SKILL_LEVELS.map(level => (
+                            <SelectItem key={level} value={level}>{SKILL_LEVEL_LABELS[level]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRequired(prev => prev.filter(entry => entry.skill_id !== item.skill_id))}
+                      >
+                        ✕
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {unusedSkills.length > 0 && (
+                  <div className="flex gap-2">
+                    <Select
+                      value={newSkillId ? newSkillId.toString() : ''}
+                      onValueChange={(value: string) => setNewSkillId(parseInt(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a skill" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {unusedSkills.map((skill: Skill) => (
+                          <SelectItem key={skill.id} value={skill.id.toString()}>{skill.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      disabled={!newSkillId}
+                      onClick={() => {
+                        setRequired(prev => [...prev, { skill_id: newSkillId, min_level: 'intermediate' }]);
+                        setNewSkillId(0);
+                      }}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                )}
+                <Button onClick={handleSave} disabled={isLoading} className="w-full">
+                  {isLoading ? 'Saving...' : 'Save Requirements'}
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="font-medium">Suggestions</h3>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {suggestions && (
+                  <p className="text-xs text-gray-500">
+                    Free hours from {new Date(suggestions.period_start).toLocaleDateString()} to {new Date(suggestions.period_end).toLocaleDateString()}
+                  </p>
+                )}
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {suggestions?.suggestions.map(suggestion => (
+                    <div key={suggestion.user_id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+                      <div className="flex items-center justify-between">
+                        <div className="font-medium">{suggestion.user_name}</div>
+                        <div className="flex items-center gap-2">
+                          {suggestion.is_assigned && <Badge variant="secondary">Assigned</Badge>}
+                          <Badge variant={suggestion.is_qualified ? 'default' : 'outline'}>
+                            {suggestion.skill_match_percent}% match
+                          </Badge>
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {suggestion.free_hours}h free of {suggestion.capacity_hours}h · {suggestion.planned_hours}h planned
+                      </div>
+                      {suggestion.skills.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {suggestion.skills.map(skill => (
+                            <span
+                              key={skill.skill_id}
+                              className={`text-xs ${skill.level === null ? 'text-red-600' : 'text-gray-600'}`}
+                            >
+                              {skill.skill_name}: {skill.level ? SKILL_LEVEL_LABELS[skill.level] : 'none'} / {SKILL_LEVEL_LABELS[skill.min_level]}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,29 +3,36 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
 import { trpc } from '@/utils/trpc';
-import type { User, Client, Project, Position, TimeEntry, CreateTimeEntryInput } from '../../../server/src/schema';
+import { formatRetainerQuantity } from '@/lib/retainers';
+import { groupAssignments } from '@/lib/assignments';
+import type {
+  User, Assignment, TimeEntry, CreateTimeEntryInput, UpdateTimeEntryInput, ActiveTimer, RetainerBalance
+} from '../../../server/src/schema';
 
 interface TimeTrackingProps {
   currentUser: User | null;
+  activeTimer: ActiveTimer | null;
+  onTimerChange: (timer: ActiveTimer | null) => void;
 }
 
-export function TimeTracking({ currentUser }: TimeTrackingProps) {
-  const [clients, setClients] = useState<Client[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [positions, setPositions] = useState<Position[]>([]);
+export function TimeTracking({ currentUser, activeTimer, onTimerChange }: TimeTrackingProps) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   
   // Form state
-  const [formData, setFormData] = useState<CreateTimeEntryInput>({
-    user_id: currentUser?.id || 0,
+  const [formData, setFormData] = useState<Omit<CreateTimeEntryInput, 'user_id'>>({
     position_id: 0,
     description: null,
     hours: 0,
@@ -33,37 +40,47 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
     billable: true
   });
   
-  // Selected hierarchy
-  const [selectedClientId, setSelectedClientId] = useState<number | null>(null);
-  const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
+  // Inline edit state for recent entries
+  const [editingEntryId, setEditingEntryId] = useState<number | null>(null);
+  const [editData, setEditData] = useState<Omit<UpdateTimeEntryInput, 'id' | 'changed_by'>>({});
 
-  const loadClients = useCallback(async () => {
-    try {
-      const result = await trpc.getClients.query();
-      setClients(result);
-    } catch (error) {
-      console.error('Failed to load clients:', error);
-    }
-  }, []);
+  // The retainer the selected position draws from on the selected date, if any
+  const [retainer, setRetainer] = useState<RetainerBalance | null>(null);
+  const bookingDate = formData.date.toISOString().split('T')[0];
+
+  // Only positions the user is assigned to on the booking date can be booked
+  const loadAssignments = useCallback(async () => {
+    if (!currentUser) return;
 
-  const loadProjects = useCallback(async (clientId: number) => {
     try {
-      const result = await trpc.getProjectsByClient.query({ client_id: clientId });
-      setProjects(result);
-      setPositions([]); // Clear positions when projects change
+      const result = await trpc.getAssignments.query({ user_id: currentUser.id, active_on: new Date(bookingDate) });
+      setAssignments(result);
+      setFormData(prev => result.some(assignment => assignment.position_id === prev.position_id) ? prev : { ...prev, position_id: 0 });
     } catch (error) {
-      console.error('Failed to load projects:', error);
+      console.error('Failed to load assignments:', error);
     }
-  }, []);
+  }, [currentUser, bookingDate]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
 
-  const loadPositions = useCallback(async (projectId: number) => {
+  const loadRetainer = useCallback(async () => {
+    if (!formData.position_id) {
+      setRetainer(null);
+      return;
+    }
     try {
-      const result = await trpc.getPositionsByProject.query({ project_id: projectId });
-      setPositions(result);
+      const result = await trpc.getRetainerBalances.query({ position_id: formData.position_id, as_of: new Date(bookingDate) });
+      setRetainer(result.find(balance => balance.is_active) ?? null);
     } catch (error) {
-      console.error('Failed to load positions:', error);
+      console.error('Failed to load retainer:', error);
     }
-  }, []);
+  }, [formData.position_id, bookingDate]);
+
+  useEffect(() => {
+    loadRetainer();
+  }, [loadRetainer]);
 
   const loadTimeEntries = useCallback(async () => {
     if (!currentUser) return;
@@ -85,31 +102,11 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
     }
   }, [currentUser]);
 
+  // Reload entries whenever a timer starts or stops, since stopping books a new entry
+  const activeTimerId = activeTimer?.id ?? null;
   useEffect(() => {
-    loadClients();
     loadTimeEntries();
-  }, [loadClients, loadTimeEntries]);
-
-  useEffect(() => {
-    if (currentUser) {
-      setFormData(prev => ({ ...prev, user_id: currentUser.id }));
-    }
-  }, [currentUser]);
-
-  useEffect(() => {
-    if (selectedClientId) {
-      loadProjects(selectedClientId);
-      setSelectedProjectId(null);
-      setFormData(prev => ({ ...prev, position_id: 0 }));
-    }
-  }, [selectedClientId, loadProjects]);
-
-  useEffect(() => {
-    if (selectedProjectId) {
-      loadPositions(selectedProjectId);
-      setFormData(prev => ({ ...prev, position_id: 0 }));
-    }
-  }, [selectedProjectId, loadPositions]);
+  }, [loadTimeEntries, activeTimerId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -122,17 +119,12 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
       
       // Reset form
       setFormData({
-        user_id: currentUser.id,
         position_id: 0,
         description: null,
         hours: 0,
         date: new Date(),
         billable: true
       });
-      
-      // Reset selections
-      setSelectedClientId(null);
-      setSelectedProjectId(null);
     } catch (error) {
       console.error('Failed to create time entry:', error);
     } finally {
@@ -140,6 +132,71 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
     }
   };
 
+  const handleStartTimer = async () => {
+    if (!currentUser) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.startTimer.mutate({
+        position_id: formData.position_id,
+        description: formData.description,
+        billable: formData.billable
+      });
+      onTimerChange(result);
+    } catch (error) {
+      console.error('Failed to start timer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEditing = (entry: TimeEntry) => {
+    setEditingEntryId(entry.id);
+    setEditData({
+      hours: entry.hours,
+      date: new Date(entry.date),
+      description: entry.description,
+      billable: entry.billable
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingEntryId(null);
+    setEditData({});
+  };
+
+  const handleUpdate = async (entryId: number) => {
+    if (!currentUser) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.updateTimeEntry.mutate({
+        id: entryId,
+        ...editData
+      });
+      setTimeEntries((prev: TimeEntry[]) => prev.map(entry => entry.id === result.id ? result : entry));
+      cancelEditing();
+    } catch (error) {
+      console.error('Failed to update time entry:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (entryId: number) => {
+    if (!currentUser) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.deleteTimeEntry.mutate({ id: entryId });
+      setTimeEntries((prev: TimeEntry[]) => prev.filter(entry => entry.id !== entryId));
+    } catch (error) {
+      console.error('Failed to delete time entry:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (!currentUser) {
     return (
       <Alert>
@@ -150,9 +207,7 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
     );
   }
 
-  const selectedClient = clients.find(c => c.id === selectedClientId);
-  const selectedProject = projects.find(p => p.id === selectedProjectId);
-  const selectedPosition = positions.find(p => p.id === formData.position_id);
+  const selectedAssignment = assignments.find(assignment => assignment.position_id === formData.position_id);
   
   const totalHoursThisWeek = timeEntries
     .filter(entry => {
@@ -172,100 +227,51 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
             ⏰ Log Time Entry
           </CardTitle>
           <CardDescription>
-            Track your work hours across clients, projects, and positions
+            Track your work hours on the positions you are assigned to
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
-            {/* Client Selection */}
-            <div className="space-y-2">
-              <Label>Client</Label>
-              <Select
-                value={selectedClientId?.toString() || ''}
-                onValueChange={(value) => setSelectedClientId(parseInt(value))}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a client..." />
-                </SelectTrigger>
-                <SelectContent>
-                  {clients.map((client: Client) => (
-                    <SelectItem key={client.id} value={client.id.toString()}>
-                      {client.name}
-                      {client.industry && (
-                        <span className="text-gray-500 ml-2">({client.industry})</span>
-                      )}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Project Selection */}
-            <div className="space-y-2">
-              <Label>Project</Label>
-              <Select
-                value={selectedProjectId?.toString() || ''}
-                onValueChange={(value) => setSelectedProjectId(parseInt(value))}
-                disabled={!selectedClientId || projects.length === 0}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder={
-                    !selectedClientId ? "Select a client first..." :
-                    projects.length === 0 ? "No projects available" :
-                    "Select a project..."
-                  } />
-                </SelectTrigger>
-                <SelectContent>
-                  {projects.map((project: Project) => (
-                    <SelectItem key={project.id} value={project.id.toString()}>
-                      <div className="flex items-center gap-2">
-                        <span>{project.name}</span>
-                        <Badge variant={
-                          project.status === 'active' ? 'default' :
-                          project.status === 'completed' ? 'secondary' :
-                          project.status === 'on_hold' ? 'outline' : 'destructive'
-                        }>
-                          {project.status.replace('_', ' ')}
-                        </Badge>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
             {/* Position Selection */}
             <div className="space-y-2">
               <Label>Position</Label>
               <Select
-                value={formData.position_id.toString()}
+                value={formData.position_id ? formData.position_id.toString() : ''}
                 onValueChange={(value) => setFormData(prev => ({ ...prev, position_id: parseInt(value) }))}
-                disabled={!selectedProjectId || positions.length === 0}
+                disabled={assignments.length === 0}
               >
                 <SelectTrigger>
                   <SelectValue placeholder={
-                    !selectedProjectId ? "Select a project first..." :
-                    positions.length === 0 ? "No positions available" :
+                    assignments.length === 0 ? "You are not assigned to any position on this date" :
                     "Select a position..."
                   } />
                 </SelectTrigger>
                 <SelectContent>
-                  {positions.map((position: Position) => (
-                    <SelectItem key={position.id} value={position.id.toString()}>
-                      <div>
-                        <div className="font-medium">{position.name}</div>
-                        {position.hourly_rate && (
-                          <div className="text-sm text-gray-500">
-                            ${position.hourly_rate}/hr
-                          </div>
-                        )}
-                      </div>
-                    </SelectItem>
+                  {groupAssignments(assignments).map(group => (
+                    <SelectGroup key={group.label}>
+                      <SelectLabel>{group.label}</SelectLabel>
+                      {group.assignments.map((assignment: Assignment) => (
+                        <SelectItem key={assignment.id} value={assignment.position_id.toString()}>
+                          {assignment.position_name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
                   ))}
                 </SelectContent>
               </Select>
             </div>
 
+            {retainer && (
+              <Alert variant={retainer.is_exhausted && retainer.overrun_policy === 'block' ? 'destructive' : 'default'}>
+                <AlertDescription>
+                  🎟️ Billable time here draws from the retainer "{retainer.name}":{' '}
+                  {retainer.is_exhausted
+                    ? `it is used up${retainer.overrun_policy === 'block' ? ' and blocks further billable bookings' : '; further time is billed as usual'}.`
+                    : `${formatRetainerQuantity(retainer, retainer.remaining)} of ${formatRetainerQuantity(retainer, retainer.purchased)} left.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Separator />
 
             {/* Hours and Date */}
@@ -334,6 +340,16 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
             >
               {isLoading ? 'Logging Time...' : 'Log Time Entry'}
             </Button>
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleStartTimer}
+              disabled={isLoading || formData.position_id === 0 || activeTimer !== null}
+              className="w-full"
+            >
+              {activeTimer ? '⏱️ Timer already running' : '▶️ Start Timer Instead'}
+            </Button>
           </form>
         </CardContent>
       </Card>
@@ -356,18 +372,18 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
                 </Badge>
               </div>
               
-              {selectedClient && selectedProject && selectedPosition && (
+              {selectedAssignment && (
                 <div className="p-3 bg-blue-50 rounded-lg border">
                   <div className="text-sm text-gray-600 mb-1">Selected:</div>
                   <div className="space-y-1">
                     <div className="text-sm">
-                      <span className="font-medium">Client:</span> {selectedClient.name}
+                      <span className="font-medium">Client:</span> {selectedAssignment.client_name}
                     </div>
                     <div className="text-sm">
-                      <span className="font-medium">Project:</span> {selectedProject.name}
+                      <span className="font-medium">Project:</span> {selectedAssignment.project_name}
                     </div>
                     <div className="text-sm">
-                      <span className="font-medium">Position:</span> {selectedPosition.name}
+                      <span className="font-medium">Position:</span> {selectedAssignment.position_name}
                     </div>
                   </div>
                 </div>
@@ -395,33 +411,116 @@ export function TimeTracking({ currentUser }: TimeTrackingProps) {
             ) : (
               <div className="space-y-3 max-h-80 overflow-y-auto">
                 {timeEntries.slice(0, 10).map((entry: TimeEntry) => (
-                  <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <Badge variant={entry.billable ? 'default' : 'outline'}>
-                          {entry.hours}h
-                        </Badge>
-                        <span className="text-sm text-gray-500">
-                          {new Date(entry.date).toLocaleDateString()}
-                        </span>
+                  editingEntryId === entry.id ? (
+                    <div key={entry.id} className="p-3 bg-blue-50 rounded-lg border space-y-3">
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          type="number"
+                          step="0.25"
+                          min="0.25"
+                          max="24"
+                          value={editData.hours ?? 0}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setEditData(prev => ({ ...prev, hours: parseFloat(e.target.value) || 0 }))
+                          }
+                        />
+                        <Input
+                          type="date"
+                          value={(editData.date ?? new Date(entry.date)).toISOString().split('T')[0]}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setEditData(prev => ({ ...prev, date: new Date(e.target.value) }))
+                          }
+                        />
+                      </div>
+                      <Textarea
+                        value={editData.description || ''}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                          setEditData(prev => ({ ...prev, description: e.target.value || null }))
+                        }
+                        placeholder="Brief description of work performed..."
+                        rows={2}
+                      />
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id={`billable-${entry.id}`}
+                            checked={editData.billable ?? entry.billable}
+                            onCheckedChange={(checked) =>
+                              setEditData(prev => ({ ...prev, billable: checked }))
+                            }
+                          />
+                          <Label htmlFor={`billable-${entry.id}`}>Billable</Label>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={cancelEditing} disabled={isLoading}>
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleUpdate(entry.id)}
+                            disabled={isLoading || !editData.hours}
+                          >
+                            Save
+                          </Button>
+                        </div>
                       </div>
-                      {entry.description && (
-                        <p className="text-sm text-gray-700 truncate">
-                          {entry.description}
-                        </p>
-                      )}
                     </div>
-                    <div className="text-right">
-                      <div className="text-xs text-gray-500">
-                        Position ID: {entry.position_id}
+                  ) : (
+                    <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant={entry.billable ? 'default' : 'outline'}>
+                            {entry.hours}h
+                          </Badge>
+                          <span className="text-sm text-gray-500">
+                            {new Date(entry.date).toLocaleDateString()}
+                          </span>
+                        </div>
+                        {entry.description && (
+                          <p className="text-sm text-gray-700 truncate">
+                            {entry.description}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <div className="text-xs text-gray-500">
+                          Position ID: {entry.position_id}
+                        </div>
+                        {!entry.billable && (
+                          <Badge variant="outline" className="text-xs mt-1">
+                            Non-billable
+                          </Badge>
+                        )}
+                        <div className="flex justify-end gap-1 mt-1">
+                          <Button size="sm" variant="ghost" onClick={() => startEditing(entry)} disabled={isLoading}>
+                            ✏️
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="ghost" disabled={isLoading}>
+                                🗑️
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete time entry?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {entry.hours}h on {new Date(entry.date).toLocaleDateString()} will be removed.
+                                  The change is kept in the entry's revision history.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(entry.id)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
                       </div>
-                      {!entry.billable && (
-                        <Badge variant="outline" className="text-xs mt-1">
-                          Non-billable
-                        </Badge>
-                      )}
                     </div>
-                  </div>
+                  )
                 ))}
               </div>
             )}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { ActiveTimer } from '../../../server/src/schema';
+
+interface TimerWidgetProps {
+  activeTimer: ActiveTimer;
+  onTimerChange: (timer: ActiveTimer | null) => void;
+}
+
+const formatElapsed = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':');
+};
+
+export function TimerWidget({ activeTimer, onTimerChange }: TimerWidgetProps) {
+  const [elapsedSeconds, setElapsedSeconds] = useState(activeTimer.elapsed_seconds);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Tick locally from the server-computed elapsed time
+  useEffect(() => {
+    setElapsedSeconds(activeTimer.elapsed_seconds);
+    if (activeTimer.status !== 'running') return;
+
+    const loadedAt = Date.now();
+    const interval = setInterval(() => {
+      setElapsedSeconds(activeTimer.elapsed_seconds + Math.floor((Date.now() - loadedAt) / 1000));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer]);
+
+  const handlePauseResume = async () => {
+    setIsLoading(true);
+    try {
+      const result = activeTimer.status === 'running'
+        ? await trpc.pauseTimer.mutate()
+        : await trpc.resumeTimer.mutate();
+      onTimerChange(result);
+    } catch (error) {
+      console.error('Failed to update timer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStop = async () => {
+    setIsLoading(true);
+    try {
+      await trpc.stopTimer.mutate({ rounding_minutes: 15 });
+      onTimerChange(null);
+    } catch (error) {
+      console.error('Failed to stop timer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardContent className="flex items-center gap-3 py-3">
+        <Badge variant={activeTimer.status === 'running' ? 'default' : 'outline'}>
+          {activeTimer.status === 'running' ? '● Running' : '❚❚ Paused'}
+        </Badge>
+        <div>
+          <div className="font-mono text-xl font-bold text-gray-900">
+            {formatElapsed(elapsedSeconds)}
+          </div>
+          {activeTimer.description && (
+            <div className="text-xs text-gray-500 max-w-40 truncate">{activeTimer.description}</div>
+          )}
+        </div>
+        <Button size="sm" variant="outline" onClick={handlePauseResume} disabled={isLoading}>
+          {activeTimer.status === 'running' ? 'Pause' : 'Resume'}
+        </Button>
+        <Button size="sm" variant="destructive" onClick={handleStop} disabled={isLoading}>
+          Stop
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
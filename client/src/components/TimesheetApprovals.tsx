@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { User, Timesheet, WeeklyTimesheet } from '../../../server/src/schema';
+
+interface TimesheetApprovalsProps {
+  currentUser: User;
+  users: User[];
+}
+
+export function TimesheetApprovals({ currentUser, users }: TimesheetApprovalsProps) {
+  const [pending, setPending] = useState<Timesheet[]>([]);
+  const [details, setDetails] = useState<Record<number, WeeklyTimesheet>>({});
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPending = useCallback(async () => {
+    try {
+      const result = await trpc.getTimesheets.query({ status: 'submitted' });
+      // Reviewers cannot approve their own weeks
+      setPending(result.filter(timesheet => timesheet.user_id !== currentUser.id));
+    } catch (error) {
+      console.error('Failed to load submitted timesheets:', error);
+    }
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const toggleDetails = async (timesheet: Timesheet) => {
+    if (details[timesheet.id]) {
+      setDetails(prev => {
+        const next = { ...prev };
+        delete next[timesheet.id];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const result = await trpc.getWeeklyTimesheet.query({
+        user_id: timesheet.user_id,
+        week_start: new Date(timesheet.week_start)
+      });
+      setDetails(prev => ({ ...prev, [timesheet.id]: result }));
+    } catch (error) {
+      console.error('Failed to load timesheet details:', error);
+    }
+  };
+
+  const handleReview = async (timesheet: Timesheet, decision: 'approve' | 'reject') => {
+    setIsLoading(true);
+    try {
+      const comment = comments[timesheet.id]?.trim() || null;
+      if (decision === 'approve') {
+        await trpc.approveTimesheet.mutate({ timesheet_id: timesheet.id, comment });
+      } else {
+        await trpc.rejectTimesheet.mutate({ timesheet_id: timesheet.id, comment: comment ?? '' });
+      }
+      setPending(prev => prev.filter(item => item.id !== timesheet.id));
+    } catch (error) {
+      console.error(`Failed to ${decision} timesheet:`, error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">✅ Timesheet Approvals</h2>
+        <p className="text-gray-600">Review submitted weeks before they count as approved time</p>
+      </div>
+
+      {pending.length === 0 ? (
+        <Card className="bg-white/90 backdrop-blur-sm">
+          <CardContent className="text-center py-8 text-gray-500">
+            <p>No timesheets waiting for review.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        pending.map((timesheet: Timesheet) => {
+          const owner = users.find(user => user.id === timesheet.user_id);
+          const weekDetails = details[timesheet.id];
+          const comment = comments[timesheet.id] || '';
+
+          return (
+            <Card key={timesheet.id} className="bg-white/90 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{owner?.name || `User #${timesheet.user_id}`}</span>
+                  <Badge variant="secondary">submitted</Badge>
+                </CardTitle>
+                <CardDescription>
+                  Week of {new Date(timesheet.week_start).toLocaleDateString()}
+                  {timesheet.submitted_at && ` · submitted ${timesheet.submitted_at.toLocaleString()}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Button variant="outline" size="sm" onClick={() => toggleDetails(timesheet)}>
+                  {weekDetails ? 'Hide Hours' : 'Show Hours'}
+                </Button>
+
+                {weekDetails && (
+                  <div className="space-y-1 text-sm">
+                    {weekDetails.rows.map(row => (
+                      <div key={row.position_id} className="flex justify-between p-2 bg-gray-50 rounded">
+                        <span>{row.client_name} › {row.project_name} › {row.position_name}</span>
+                        <span className="font-medium">{row.total_hours.toFixed(2)}h</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between p-2 font-bold">
+                      <span>Total</span>
+                      <span>{weekDetails.total_hours.toFixed(2)}h</span>
+                    </div>
+                  </div>
+                )}
+
+                <Textarea
+                  value={comment}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                    setComments(prev => ({ ...prev, [timesheet.id]: e.target.value }))
+                  }
+                  placeholder="Comment (required when rejecting)"
+                  rows={2}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleReview(timesheet, 'reject')}
+                    disabled={isLoading || !comment.trim()}
+                  >
+                    Reject
+                  </Button>
+                  <Button onClick={() => handleReview(timesheet, 'approve')} disabled={isLoading}>
+                    Approve
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
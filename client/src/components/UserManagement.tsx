@@ -8,14 +8,17 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { trpc } from '@/utils/trpc';
+import { formatMoney } from '@/lib/currency';
 import type { User, CreateUserInput } from '../../../server/src/schema';
 
 interface UserManagementProps {
+  canCreate: boolean; // Only administrators create users
   users: User[];
   onUsersChange: (users: User[]) => void;
+  reportingCurrency: string; // Default bill rates are shown in it
 }
 
-export function UserManagement({ users, onUsersChange }: UserManagementProps) {
+export function UserManagement({ canCreate, users, onUsersChange, reportingCurrency }: UserManagementProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState<CreateUserInput>({
     email: '',
@@ -94,113 +97,132 @@ export function UserManagement({ users, onUsersChange }: UserManagementProps) {
 
       <div className="grid gap-6 md:grid-cols-2">
         {/* Create New User */}
-        <Card className="bg-white/90 backdrop-blur-sm">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              ➕ Add New Team Member
-            </CardTitle>
-            <CardDescription>
-              Create accounts for consultants, project managers, and administrators
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Full Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData(prev => ({ ...prev, name: e.target.value }))
-                  }
-                  placeholder="John Doe"
-                  required
-                />
-              </div>
+        {canCreate && (
+          <Card className="bg-white/90 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                ➕ Add New Team Member
+              </CardTitle>
+              <CardDescription>
+                Create accounts for consultants, project managers, and administrators
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Full Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, name: e.target.value }))
+                    }
+                    placeholder="John Doe"
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="email">Email Address *</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData(prev => ({ ...prev, email: e.target.value }))
-                  }
-                  placeholder="john.doe@company.com"
-                  required
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email Address *</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, email: e.target.value }))
+                    }
+                    placeholder="john.doe@company.com"
+                    required
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="role">Role *</Label>
-                <Select
-                  value={formData.role || 'consultant'}
-                  onValueChange={(value) =>
-                    setFormData(prev => ({ ...prev, role: value as 'consultant' | 'project_manager' | 'administrator' }))
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="consultant">
-                      <div className="flex items-center gap-2">
-                        💼 <span>Consultant</span>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="project_manager">
-                      <div className="flex items-center gap-2">
-                        📋 <span>Project Manager</span>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="administrator">
-                      <div className="flex items-center gap-2">
-                        👑 <span>Administrator</span>
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Initial Password (Optional)</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    minLength={8}
+                    value={formData.password || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, password: e.target.value || undefined }))
+                    }
+                    autoComplete="new-password"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Members without a password cannot log in until one is set
+                  </p>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="hourly_rate">Hourly Rate (Optional)</Label>
-                <Input
-                  id="hourly_rate"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={formData.hourly_rate || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setFormData(prev => ({ ...prev, hourly_rate: parseFloat(e.target.value) || null }))
-                  }
-                  placeholder="85.00"
-                />
-                <p className="text-xs text-gray-500">
-                  Used for billing calculations and revenue reporting
-                </p>
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="role">Role *</Label>
+                  <Select
+                    value={formData.role || 'consultant'}
+                    onValueChange={(value) =>
+                      setFormData(prev => ({ ...prev, role: value as 'consultant' | 'project_manager' | 'administrator' }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="consultant">
+                        <div className="flex items-center gap-2">
+                          💼 <span>Consultant</span>
+                        </div>
+                      </SelectItem>
+                      <SelectItem value="project_manager">
+                        <div className="flex items-center gap-2">
+                          📋 <span>Project Manager</span>
+                        </div>
+                      </SelectItem>
+                      <SelectItem value="administrator">
+                        <div className="flex items-center gap-2">
+                          👑 <span>Administrator</span>
+                        </div>
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="hourly_rate">Default Bill Rate (Optional)</Label>
+                  <Input
+                    id="hourly_rate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.hourly_rate || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData(prev => ({ ...prev, hourly_rate: parseFloat(e.target.value) || null }))
+                    }
+                    placeholder="85.00"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Used for billing calculations and revenue reporting
+                  </p>
+                </div>
 
-              <Separator />
+                <Separator />
 
-              <div className="p-3 bg-blue-50 rounded-lg">
-                <div className="flex items-center gap-2 mb-2">
-                  {getRoleIcon(formData.role)}
-                  <span className="font-medium">
-                    {formData.role.replace('_', ' ').toUpperCase()}
-                  </span>
+                <div className="p-3 bg-blue-50 rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    {getRoleIcon(formData.role)}
+                    <span className="font-medium">
+                      {formData.role.replace('_', ' ').toUpperCase()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {getRoleDescription(formData.role)}
+                  </p>
                 </div>
-                <p className="text-sm text-gray-600">
-                  {getRoleDescription(formData.role)}
-                </p>
-              </div>
 
-              <Button type="submit" disabled={isLoading} className="w-full">
-                {isLoading ? 'Creating User...' : 'Create Team Member'}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+                <Button type="submit" disabled={isLoading} className="w-full">
+                  {isLoading ? 'Creating User...' : 'Create Team Member'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Current Team Members */}
         <Card className="bg-white/90 backdrop-blur-sm">
@@ -246,7 +268,7 @@ export function UserManagement({ users, onUsersChange }: UserManagementProps) {
                       </div>
                       {user.hourly_rate && (
                         <div className="text-sm font-medium text-green-600">
-                          ${user.hourly_rate}/hour
+                          {formatMoney(user.hourly_rate, reportingCurrency)}/hour
                         </div>
                       )}
                     </div>
@@ -324,13 +346,13 @@ export function UserManagement({ users, onUsersChange }: UserManagementProps) {
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-gray-600">Average rate:</span>
                             <span className="text-sm font-medium text-green-600">
-                              ${avgRate.toFixed(2)}/hr
+                              {formatMoney(avgRate, reportingCurrency)}/hr
                             </span>
                           </div>
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-gray-600">Rate range:</span>
                             <span className="text-sm font-medium">
-                              ${minRate} - ${maxRate}
+                              {formatMoney(minRate, reportingCurrency)} - {formatMoney(maxRate, reportingCurrency)}
                             </span>
                           </div>
                         </>
@@ -0,0 +1,342 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { groupAssignments } from '@/lib/assignments';
+import type {
+  User, Assignment, Timesheet, Absence, Holiday, WeeklyTimesheet as WeeklyTimesheetData
+} from '../../../server/src/schema';
+
+interface WeeklyTimesheetProps {
+  currentUser: User;
+}
+
+interface GridRow {
+  position_id: number;
+  label: string;
+  hours: number[];
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const toGridRows = (timesheet: WeeklyTimesheetData): GridRow[] =>
+  timesheet.rows.map(row => ({
+    position_id: row.position_id,
+    label: `${row.client_name} › ${row.project_name} › ${row.position_name}`,
+    hours: row.cells.map(cell => cell.hours)
+  }));
+
+export function WeeklyTimesheet({ currentUser }: WeeklyTimesheetProps) {
+  const [weekStart, setWeekStart] = useState<Date>(new Date());
+  const [days, setDays] = useState<string[]>([]);
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [expectedHours, setExpectedHours] = useState<number[]>([]);
+  const [rows, setRows] = useState<GridRow[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+
+  // New row selection
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [newPositionId, setNewPositionId] = useState<number | null>(null);
+
+  const loadTimesheet = useCallback(async () => {
+    try {
+      const result = await trpc.getWeeklyTimesheet.query({ user_id: currentUser.id, week_start: weekStart });
+      setDays(result.days);
+      setAbsences(result.absences);
+      setHolidays(result.holidays);
+      setExpectedHours(result.expected_hours);
+      setRows(toGridRows(result));
+      setIsDirty(false);
+
+      // No timesheet row means the week is still a draft
+      const timesheets = await trpc.getTimesheets.query({ user_id: currentUser.id, week_start: weekStart });
+      setTimesheet(timesheets[0] ?? null);
+    } catch (error) {
+      console.error('Failed to load weekly timesheet:', error);
+    }
+  }, [currentUser.id, weekStart]);
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      const result = await trpc.getAssignments.query({ user_id: currentUser.id });
+      setAssignments(result);
+    } catch (error) {
+      console.error('Failed to load assignments:', error);
+    }
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    loadTimesheet();
+  }, [loadTimesheet]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(prev => new Date(prev.getTime() + weeks * 7 * 24 * 60 * 60 * 1000));
+  };
+
+  const updateCell = (rowIndex: number, dayIndex: number, value: number) => {
+    setRows(prev => prev.map((row, index) =>
+      index === rowIndex
+        ? { ...row, hours: row.hours.map((hours, day) => day === dayIndex ? value : hours) }
+        : row
+    ));
+    setIsDirty(true);
+  };
+
+  const addRow = () => {
+    const assignment = assignments.find(a => a.position_id === newPositionId);
+    if (!assignment) return;
+
+    setRows(prev => [...prev, {
+      position_id: assignment.position_id,
+      label: `${assignment.client_name} › ${assignment.project_name} › ${assignment.position_name}`,
+      hours: [0, 0, 0, 0, 0, 0, 0]
+    }]);
+    setNewPositionId(null);
+  };
+
+  const handleSave = async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.saveWeeklyTimesheet.mutate({
+        week_start: weekStart,
+        rows: rows.map(row => ({ position_id: row.position_id, hours: row.hours })),
+        billable: true
+      });
+      setDays(result.days);
+      setAbsences(result.absences);
+      setHolidays(result.holidays);
+      setExpectedHours(result.expected_hours);
+      setRows(toGridRows(result));
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Failed to save weekly timesheet:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmitWeek = async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.submitTimesheet.mutate({ week_start: weekStart });
+      setTimesheet(result);
+    } catch (error) {
+      console.error('Failed to submit timesheet:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const status = timesheet?.status ?? 'draft';
+  const isLocked = status === 'submitted' || status === 'approved';
+
+  const dailyTotals = DAY_LABELS.map((_, dayIndex) => rows.reduce((sum, row) => sum + row.hours[dayIndex], 0));
+  const weekTotal = dailyTotals.reduce((sum, hours) => sum + hours, 0);
+  const usedPositionIds = new Set(rows.map(row => row.position_id));
+
+  // Positions the user is assigned to on at least one day of the week
+  const weekAssignments = assignments.filter(assignment =>
+    days.length > 0 &&
+    !usedPositionIds.has(assignment.position_id) &&
+    (assignment.start_date === null || assignment.start_date <= days[days.length - 1]) &&
+    (assignment.end_date === null || assignment.end_date >= days[0])
+  );
+  const absenceOn = (date: string) =>
+    absences.find(absence => absence.start_date <= date && absence.end_date >= date);
+  const holidayOn = (date: string) => holidays.find(holiday => holiday.date === date);
+  // Unsaved edits count too, so the gap updates while typing
+  const missingHours = expectedHours.reduce(
+    (sum, expected, index) => sum + Math.max(0, expected - dailyTotals[index]), 0
+  );
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              🗓️ Weekly Timesheet
+            </CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              {days.length > 0 ? `Week of ${new Date(days[0]).toLocaleDateString()}` : 'Loading week...'}
+              <Badge variant={
+                status === 'approved' ? 'default' :
+                status === 'rejected' ? 'destructive' :
+                status === 'submitted' ? 'secondary' : 'outline'
+              }>
+                {status}
+              </Badge>
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => shiftWeek(-1)} disabled={isDirty}>
+              ← Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(new Date())} disabled={isDirty}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => shiftWeek(1)} disabled={isDirty}>
+              Next →
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === 'rejected' && timesheet?.review_comment && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <strong>Rejected:</strong> {timesheet.review_comment}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-64">Position</TableHead>
+              {DAY_LABELS.map((label, index) => (
+                <TableHead key={label} className="text-center w-20">
+                  <div>{label}</div>
+                  {days[index] && (
+                    <div className="text-xs text-gray-500">{days[index].slice(5)}</div>
+                  )}
+                  {days[index] && holidayOn(days[index]) && (
+                    <Badge variant="secondary" className="text-xs mt-1" title={holidayOn(days[index])!.name}>
+                      🎉 holiday
+                    </Badge>
+                  )}
+                  {days[index] && absenceOn(days[index]) && (
+                    <Badge variant="outline" className="text-xs mt-1">
+                      🌴 {absenceOn(days[index])!.type}{absenceOn(days[index])!.half_day && ' ½'}
+                    </Badge>
+                  )}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-6 text-gray-500">
+                  No hours this week. Add a position below to start filling in the grid.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row: GridRow, rowIndex: number) => (
+                <TableRow key={row.position_id}>
+                  <TableCell className="text-sm">{row.label}</TableCell>
+                  {row.hours.map((hours: number, dayIndex: number) => (
+                    <TableCell key={dayIndex} className="p-1">
+                      <Input
+                        type="number"
+                        step="0.25"
+                        min="0"
+                        max="24"
+                        value={hours || ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          updateCell(rowIndex, dayIndex, parseFloat(e.target.value) || 0)
+                        }
+                        className="text-center px-1"
+                        disabled={isLocked}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">
+                    {row.hours.reduce((sum, hours) => sum + hours, 0).toFixed(2)}h
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Daily total</TableCell>
+              {dailyTotals.map((total: number, index: number) => (
+                <TableCell key={index} className="text-center">{total.toFixed(2)}</TableCell>
+              ))}
+              <TableCell className="text-right">{weekTotal.toFixed(2)}h</TableCell>
+            </TableRow>
+            {expectedHours.length > 0 && (
+              <TableRow className="text-gray-500">
+                <TableCell>Expected</TableCell>
+                {expectedHours.map((expected: number, index: number) => (
+                  <TableCell
+                    key={index}
+                    className={`text-center ${dailyTotals[index] < expected ? 'text-orange-600' : ''}`}
+                  >
+                    {expected.toFixed(2)}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right">
+                  {missingHours > 0 ? `${missingHours.toFixed(2)}h missing` : '✓ complete'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableFooter>
+        </Table>
+
+        {!isLocked && (
+          <div className="grid gap-2 md:grid-cols-4">
+            <div className="md:col-span-3">
+              <Select
+                value={newPositionId?.toString() || ''}
+                onValueChange={(value) => setNewPositionId(parseInt(value))}
+                disabled={weekAssignments.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={
+                    weekAssignments.length === 0 ? 'No other assigned positions this week' : 'Position...'
+                  } />
+                </SelectTrigger>
+                <SelectContent>
+                  {groupAssignments(weekAssignments).map(group => (
+                    <SelectGroup key={group.label}>
+                      <SelectLabel>{group.label}</SelectLabel>
+                      {group.assignments.map((assignment: Assignment) => (
+                        <SelectItem key={assignment.id} value={assignment.position_id.toString()}>
+                          {assignment.position_name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={addRow} disabled={!newPositionId}>
+              ➕ Add Row
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={loadTimesheet} disabled={isLoading || !isDirty}>
+            Discard Changes
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !isDirty || isLocked}>
+            {isLoading ? 'Saving...' : 'Save Week'}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={handleSubmitWeek}
+            disabled={isLoading || isDirty || isLocked || rows.length === 0}
+          >
+            📨 Submit for Approval
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { User, WorkSchedule, CreateWorkScheduleInput } from '../../../server/src/schema';
+
+interface WorkSchedulesProps {
+  users: User[];
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' }
+];
+
+export function WorkSchedules({ users }: WorkSchedulesProps) {
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState<Omit<CreateWorkScheduleInput, 'user_id'>>({
+    weekly_hours: 40,
+    working_days: [1, 2, 3, 4, 5],
+    effective_from: new Date()
+  });
+
+  const loadSchedules = useCallback(async () => {
+    if (!selectedUserId) return;
+    try {
+      const result = await trpc.getWorkSchedules.query({ user_id: selectedUserId });
+      setSchedules(result);
+    } catch (error) {
+      console.error('Failed to load work schedules:', error);
+    }
+  }, [selectedUserId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      working_days: checked
+        ? [...prev.working_days, day].sort((a, b) => a - b)
+        : prev.working_days.filter(d => d !== day)
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedUserId) return;
+    setIsLoading(true);
+    try {
+      await trpc.createWorkSchedule.mutate({ ...formData, user_id: selectedUserId });
+      await loadSchedules();
+    } catch (error) {
+      console.error('Failed to create work schedule:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDays = (days: number[]) =>
+    days.map(day => WEEKDAYS.find(weekday => weekday.value === day)?.label).join(', ');
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            🗓️ Contracted Hours
+          </CardTitle>
+          <CardDescription>
+            Working hours used as capacity in utilization reports
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Team Member</Label>
+              <Select
+                value={selectedUserId?.toString() || ''}
+                onValueChange={(value: string) => setSelectedUserId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a team member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user: User) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-hours">Weekly Hours</Label>
+                <Input
+                  id="schedule-hours"
+                  type="number"
+                  min="0.5"
+                  max="168"
+                  step="0.5"
+                  value={formData.weekly_hours}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, weekly_hours: parseFloat(e.target.value) || 0 }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-from">Effective From</Label>
+                <Input
+                  id="schedule-from"
+                  type="date"
+                  value={formData.effective_from.toISOString().split('T')[0]}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, effective_from: new Date(e.target.value) }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Working Days</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map(day => (
+                  <div key={day.value} className="flex items-center space-x-1">
+                    <Checkbox
+                      id={`schedule-day-${day.value}`}
+                      checked={formData.working_days.includes(day.value)}
+                      onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                    />
+                    <Label htmlFor={`schedule-day-${day.value}`} className="text-sm">{day.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <Button
+              type="submit"
+              disabled={isLoading || !selectedUserId || formData.working_days.length === 0}
+              className="w-full"
+            >
+              {isLoading ? 'Saving...' : 'Save Schedule'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle>📜 Schedule History</CardTitle>
+          <CardDescription>
+            Without a schedule, 40 hours over Monday to Friday is assumed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!selectedUserId || schedules.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>{selectedUserId ? 'No schedules recorded.' : 'Select a team member.'}</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {schedules.map((schedule: WorkSchedule, index: number) => (
+                <div key={schedule.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <div className="font-medium">{schedule.weekly_hours}h per week</div>
+                    <div className="text-xs text-gray-600">
+                      {formatDays(schedule.working_days)} · from {new Date(schedule.effective_from).toLocaleDateString()}
+                    </div>
+                  </div>
+                  {index === 0 && <Badge>current</Badge>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
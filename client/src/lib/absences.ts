@@ -0,0 +1,8 @@
+import type { AbsenceType } from '../../../server/src/schema';
+
+export const ABSENCE_TYPE_LABELS: Record<AbsenceType, string> = {
+  vacation: '🌴 Vacation',
+  sick: '🤒 Sick',
+  training: '🎓 Training',
+  other: '📌 Other'
+};
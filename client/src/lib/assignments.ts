@@ -0,0 +1,11 @@
+import type { Assignment } from '../../../server/src/schema';
+
+// Position pickers group a user's assignments under "Client · Project", in the server's order
+export const groupAssignments = (assignments: Assignment[]): { label: string; assignments: Assignment[] }[] => {
+  const groups = new Map<string, Assignment[]>();
+  for (const assignment of assignments) {
+    const label = `${assignment.client_name} · ${assignment.project_name}`;
+    groups.set(label, [...(groups.get(label) ?? []), assignment]);
+  }
+  return Array.from(groups, ([label, grouped]) => ({ label, assignments: grouped }));
+};
@@ -0,0 +1,6 @@
+// Billing, expense and exchange rate currencies the forms offer
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF'];
+
+// Amounts carry the currency of what they belong to, see server/src/helpers/currency.ts
+export const formatMoney = (amount: number, currency: string): string =>
+  amount.toLocaleString(undefined, { style: 'currency', currency });
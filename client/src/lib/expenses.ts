@@ -0,0 +1,10 @@
+import type { ExpenseCategory } from '../../../server/src/schema';
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  travel: '🚆 Travel',
+  accommodation: '🏨 Accommodation',
+  meals: '🍽️ Meals',
+  software: '💿 Software',
+  equipment: '🖥️ Equipment',
+  other: '📦 Other'
+};
@@ -0,0 +1,20 @@
+// Saves a base64 encoded file through a temporary link
+export const downloadFile = (filename: string, contentBase64: string, type: string) => {
+  const bytes = Uint8Array.from(atob(contentBase64), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads a picked file for upload through tRPC, which only carries JSON
+export const readFileAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,27 @@
+import type { InvoiceLineKind, InvoiceStatus, PaymentMethod } from '../../../server/src/schema';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  finalized: 'Finalized',
+  sent: 'Sent',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  void: 'Void'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: '🏦 Bank transfer',
+  credit_card: '💳 Credit card',
+  cash: '💵 Cash',
+  check: '🧾 Check',
+  other: 'Other'
+};
+
+export const INVOICE_LINE_KIND_LABELS: Record<InvoiceLineKind, string> = {
+  time: 'Time',
+  retainer: 'Prepaid from retainer',
+  cap_adjustment: 'Budget cap',
+  expense: 'Expenses',
+  milestone: 'Milestone'
+};
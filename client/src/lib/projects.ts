@@ -0,0 +1,20 @@
+import type { BillingModel, BudgetAmendmentStatus, BudgetForecastStatus } from '../../../server/src/schema';
+
+export const BILLING_MODEL_LABELS: Record<BillingModel, string> = {
+  time_and_materials: 'Time & materials',
+  fixed_price: 'Fixed price',
+  capped_time_and_materials: 'Capped T&M'
+};
+
+export const FORECAST_STATUS_LABELS: Record<BudgetForecastStatus, string> = {
+  on_track: '✅ On track',
+  at_risk: '⚠️ At risk',
+  over_budget: '🚨 Over budget',
+  no_budget: 'No budget'
+};
+
+export const BUDGET_AMENDMENT_STATUS_LABELS: Record<BudgetAmendmentStatus, string> = {
+  pending: '⏳ Pending',
+  approved: '✅ Approved',
+  rejected: '❌ Rejected'
+};
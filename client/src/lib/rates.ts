@@ -0,0 +1,9 @@
+import type { RateCardLevel } from '../../../server/src/schema';
+
+// Ordered from the most specific level, which wins, to the least specific
+export const RATE_CARD_LEVEL_LABELS: Record<RateCardLevel, string> = {
+  user_position: '👤 Team member on position',
+  position: '🎯 Position',
+  project: '📁 Project',
+  client: '🏢 Client'
+};
@@ -0,0 +1,11 @@
+import type { RetainerBalance, RetainerOverrunPolicy } from '../../../server/src/schema';
+import { formatMoney } from './currency';
+
+export const RETAINER_POLICY_LABELS: Record<RetainerOverrunPolicy, string> = {
+  warn: '⚠️ Warn when exhausted',
+  block: '⛔ Block when exhausted'
+};
+
+// Hour bundles count hours, amount bundles the client's currency
+export const formatRetainerQuantity = (balance: Pick<RetainerBalance, 'unit' | 'currency'>, value: number): string =>
+  balance.unit === 'hours' ? `${value.toFixed(2)}h` : formatMoney(value, balance.currency);
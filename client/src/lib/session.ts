@@ -0,0 +1,12 @@
+const SESSION_TOKEN_KEY = 'session_token';
+
+// The session token from login, sent with every request; see server/src/helpers/auth.ts
+export const getSessionToken = (): string | null => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+};
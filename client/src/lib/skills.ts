@@ -0,0 +1,11 @@
+import type { SkillLevel } from '../../../server/src/schema';
+
+// In ascending order, as the level selects list them
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert'
+};
+
+export const SKILL_LEVELS = Object.keys(SKILL_LEVEL_LABELS) as SkillLevel[];
@@ -1,10 +1,18 @@
 import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getSessionToken } from '@/lib/session';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers: () => {
+        const token = getSessionToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      }
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
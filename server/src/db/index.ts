@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Accepts both the db and a transaction
+export type QueryExecutor<K extends keyof typeof db = 'select'> = Pick<typeof db, K>;
@@ -1,10 +1,48 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, date } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, date, jsonb, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Define enums
 export const userRoleEnum = pgEnum('user_role', ['consultant', 'project_manager', 'administrator']);
 export const projectStatusEnum = pgEnum('project_status', ['active', 'completed', 'on_hold', 'cancelled']);
 export const activityTypeEnum = pgEnum('activity_type', ['call', 'meeting', 'email', 'other']);
+export const timesheetStatusEnum = pgEnum('timesheet_status', ['draft', 'submitted', 'approved', 'rejected']);
+export const timerStatusEnum = pgEnum('timer_status', ['running', 'paused']);
+// Fixed-price projects are billed through milestones; capped T&M is billed by the hour up to the budget
+export const billingModelEnum = pgEnum('billing_model', ['time_and_materials', 'fixed_price', 'capped_time_and_materials']);
+export const rateCardLevelEnum = pgEnum('rate_card_level', ['client', 'project', 'position', 'user_position']);
+export const absenceTypeEnum = pgEnum('absence_type', ['vacation', 'sick', 'training', 'other']);
+export const absenceStatusEnum = pgEnum('absence_status', ['pending', 'approved', 'rejected']);
+// Overdue is not stored; it is derived from due_date (see helpers/invoice.ts)
+export const invoiceStatusEnum = pgEnum('invoice_status', ['draft', 'finalized', 'sent', 'partially_paid', 'paid', 'void']);
+// Declaration order is the order lines are printed in within a project
+export const invoiceLineKindEnum = pgEnum('invoice_line_kind', ['time', 'retainer', 'cap_adjustment', 'expense', 'milestone']);
+// Warn lets bookings overdraw a retainer and only reports it; block rejects them
+export const retainerOverrunPolicyEnum = pgEnum('retainer_overrun_policy', ['warn', 'block']);
+export const expenseCategoryEnum = pgEnum('expense_category', ['travel', 'accommodation', 'meals', 'software', 'equipment', 'other']);
+export const paymentMethodEnum = pgEnum('payment_method', ['bank_transfer', 'credit_card', 'cash', 'check', 'other']);
+export const budgetAmendmentStatusEnum = pgEnum('budget_amendment_status', ['pending', 'approved', 'rejected']);
+export const emailStatusEnum = pgEnum('email_status', ['pending', 'sent', 'failed']);
+export const timeEntryRevisionActionEnum = pgEnum('time_entry_revision_action', ['update', 'delete']);
+export const skillLevelEnum = pgEnum('skill_level', ['beginner', 'intermediate', 'advanced', 'expert']);
+
+// Holiday calendars table - public holidays of a region, assigned to users
+export const holidayCalendarsTable = pgTable('holiday_calendars', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  region: text('region'), // Nullable, e.g. 'DE-BY'
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Holidays table - one row per public holiday date of a calendar
+export const holidaysTable = pgTable('holidays', {
+  id: serial('id').primaryKey(),
+  calendar_id: integer('calendar_id').notNull().references(() => holidayCalendarsTable.id, { onDelete: 'cascade' }),
+  date: date('date').notNull(),
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('holidays_calendar_date_unique').on(table.calendar_id, table.date),
+]);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -12,17 +50,30 @@ export const usersTable = pgTable('users', {
   email: text('email').notNull().unique(),
   name: text('name').notNull(),
   role: userRoleEnum('role').notNull(),
-  hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }), // Nullable
+  hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }), // Nullable - legacy default bill rate in the reporting currency, see cost_rates for what the user costs
+  holiday_calendar_id: integer('holiday_calendar_id').references(() => holidayCalendarsTable.id), // Nullable - no public holidays
+  password_hash: text('password_hash'), // Nullable - cannot log in until a password is set; see helpers/auth.ts
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
-// Clients table
+// Login sessions - the client holds the token, only its hash is stored
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Clients table - the currency is the one the client is billed in: budgets, rates, retainers,
+// milestones and invoices of the client's projects are amounts in it
 export const clientsTable = pgTable('clients', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   address: text('address'), // Nullable
   industry: text('industry'), // Nullable
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -44,7 +95,8 @@ export const projectsTable = pgTable('projects', {
   client_id: integer('client_id').notNull().references(() => clientsTable.id),
   name: text('name').notNull(),
   description: text('description'), // Nullable
-  budget: numeric('budget', { precision: 15, scale: 2 }), // Nullable
+  budget: numeric('budget', { precision: 15, scale: 2 }), // Nullable - the price of fixed-price projects, the cap of capped T&M ones
+  billing_model: billingModelEnum('billing_model').notNull().default('time_and_materials'),
   status: projectStatusEnum('status').notNull().default('active'),
   start_date: date('start_date'), // Nullable
   end_date: date('end_date'), // Nullable
@@ -59,11 +111,64 @@ export const positionsTable = pgTable('positions', {
   name: text('name').notNull(),
   description: text('description'), // Nullable
   budget: numeric('budget', { precision: 15, scale: 2 }), // Nullable
-  hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }), // Nullable
+  hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }), // Nullable - legacy default bill rate in the reporting currency
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Assignments table - who may book a position, optionally for a date range and with planned hours
+export const assignmentsTable = pgTable('assignments', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  position_id: integer('position_id').notNull().references(() => positionsTable.id),
+  start_date: date('start_date'), // Nullable - from the start
+  end_date: date('end_date'), // Nullable - open-ended, inclusive otherwise
+  planned_hours: numeric('planned_hours', { precision: 8, scale: 2 }), // Nullable - total over the assignment
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Resource allocations table - planned hours per user, position and week
+export const allocationsTable = pgTable('allocations', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  position_id: integer('position_id').notNull().references(() => positionsTable.id),
+  week_start: date('week_start').notNull(), // Always a Monday
+  planned_hours: numeric('planned_hours', { precision: 8, scale: 2 }).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('allocations_user_position_week_unique').on(table.user_id, table.position_id, table.week_start),
+]);
+
+// Skills table - the catalogue users rate themselves against and positions require
+export const skillsTable = pgTable('skills', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  category: text('category'), // Nullable, e.g. "Frontend"
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// User skills table - a user's proficiency in a skill
+export const userSkillsTable = pgTable('user_skills', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  skill_id: integer('skill_id').notNull().references(() => skillsTable.id),
+  level: skillLevelEnum('level').notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('user_skills_user_skill_unique').on(table.user_id, table.skill_id),
+]);
+
+// Position skills table - skills a position requires, each from a minimum level
+export const positionSkillsTable = pgTable('position_skills', {
+  id: serial('id').primaryKey(),
+  position_id: integer('position_id').notNull().references(() => positionsTable.id),
+  skill_id: integer('skill_id').notNull().references(() => skillsTable.id),
+  min_level: skillLevelEnum('min_level').notNull(),
+}, (table) => [
+  unique('position_skills_position_skill_unique').on(table.position_id, table.skill_id),
+]);
+
 // Time entries table
 export const timeEntriesTable = pgTable('time_entries', {
   id: serial('id').primaryKey(),
@@ -73,6 +178,261 @@ export const timeEntriesTable = pgTable('time_entries', {
   hours: numeric('hours', { precision: 8, scale: 2 }).notNull(),
   date: date('date').notNull(),
   billable: boolean('billable').notNull().default(true),
+  invoice_id: integer('invoice_id').references(() => invoicesTable.id), // Nullable - set while the entry is on a draft or finalized invoice
+  billed_at: timestamp('billed_at'), // Nullable - set when that invoice is finalized
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Expenses table - costs a user incurred on a position. Receipts are files on local
+// disk (see helpers/receipts.ts); only their names are stored here.
+export const expensesTable = pgTable('expenses', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  position_id: integer('position_id').notNull().references(() => positionsTable.id),
+  date: date('date').notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  currency: text('currency').notNull(), // ISO 4217 code, e.g. 'USD'
+  category: expenseCategoryEnum('category').notNull(),
+  description: text('description'), // Nullable
+  billable: boolean('billable').notNull().default(true), // Passed on to the client
+  reimbursable: boolean('reimbursable').notNull().default(false), // Paid out of pocket, owed to the user
+  receipt_filename: text('receipt_filename'), // Nullable - the uploaded file's original name
+  receipt_path: text('receipt_path'), // Nullable - file name inside the receipts directory
+  invoice_id: integer('invoice_id').references(() => invoicesTable.id), // Nullable - set while the expense is on a draft or finalized invoice
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Time entry revisions table - before/after snapshots of every correction
+export const timeEntryRevisionsTable = pgTable('time_entry_revisions', {
+  id: serial('id').primaryKey(),
+  time_entry_id: integer('time_entry_id').notNull(), // No FK: revisions must outlive deleted entries
+  action: timeEntryRevisionActionEnum('action').notNull(),
+  changed_by: integer('changed_by').notNull().references(() => usersTable.id),
+  before: jsonb('before').notNull(),
+  after: jsonb('after'), // Nullable - null when the entry was deleted
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Rate cards table - hourly sale rates valid for a date range. The level says which
+// of the scope columns are set; see helpers/rates.ts for how a rate is resolved.
+export const rateCardsTable = pgTable('rate_cards', {
+  id: serial('id').primaryKey(),
+  level: rateCardLevelEnum('level').notNull(),
+  client_id: integer('client_id').references(() => clientsTable.id), // Set for client cards
+  project_id: integer('project_id').references(() => projectsTable.id), // Set for project cards
+  position_id: integer('position_id').references(() => positionsTable.id), // Set for position and user_position cards
+  user_id: integer('user_id').references(() => usersTable.id), // Set for user_position cards
+  hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }).notNull(),
+  valid_from: date('valid_from').notNull(),
+  valid_to: date('valid_to'), // Nullable - open-ended, inclusive otherwise
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Cost rates table - what an hour of a user costs internally, independent of what clients are billed
+export const costRatesTable = pgTable('cost_rates', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  hourly_cost: numeric('hourly_cost', { precision: 10, scale: 2 }).notNull(),
+  valid_from: date('valid_from').notNull(),
+  valid_to: date('valid_to'), // Nullable - open-ended, inclusive otherwise
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Exchange rates table - 1 base_currency is worth rate quote_currency from valid_from until the
+// pair's next rate; see helpers/currency.ts for how amounts are converted
+export const exchangeRatesTable = pgTable('exchange_rates', {
+  id: serial('id').primaryKey(),
+  base_currency: text('base_currency').notNull(), // ISO 4217 code
+  quote_currency: text('quote_currency').notNull(), // ISO 4217 code
+  rate: numeric('rate', { precision: 18, scale: 8 }).notNull(),
+  valid_from: date('valid_from').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('exchange_rates_pair_valid_from_unique').on(table.base_currency, table.quote_currency, table.valid_from),
+]);
+
+// Milestones table - deliverables of fixed-price projects, invoiced on their own once completed
+export const milestonesTable = pgTable('milestones', {
+  id: serial('id').primaryKey(),
+  project_id: integer('project_id').notNull().references(() => projectsTable.id),
+  name: text('name').notNull(),
+  amount: numeric('amount', { precision: 15, scale: 2 }).notNull(),
+  due_date: date('due_date').notNull(),
+  completed_on: date('completed_on'), // Nullable - set when the milestone is completed
+  invoice_id: integer('invoice_id').references(() => invoicesTable.id), // Nullable - set while the milestone is on a draft or finalized invoice
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Retainers table - hours or an amount a client paid for in advance, drawn down by the
+// billable time booked on its scopes while it is valid. Exactly one of the purchased columns is set.
+export const retainersTable = pgTable('retainers', {
+  id: serial('id').primaryKey(),
+  client_id: integer('client_id').notNull().references(() => clientsTable.id),
+  name: text('name').notNull(),
+  purchased_hours: numeric('purchased_hours', { precision: 10, scale: 2 }), // Set for hour bundles
+  purchased_amount: numeric('purchased_amount', { precision: 15, scale: 2 }), // Set for amount bundles
+  valid_from: date('valid_from').notNull(),
+  valid_to: date('valid_to').notNull(), // Inclusive
+  overrun_policy: retainerOverrunPolicyEnum('overrun_policy').notNull().default('warn'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Retainer scopes table - a whole project or a single position that draws from a retainer
+export const retainerScopesTable = pgTable('retainer_scopes', {
+  id: serial('id').primaryKey(),
+  retainer_id: integer('retainer_id').notNull().references(() => retainersTable.id, { onDelete: 'cascade' }),
+  project_id: integer('project_id').references(() => projectsTable.id), // Set for project scopes
+  position_id: integer('position_id').references(() => positionsTable.id), // Set for position scopes
+});
+
+// Invoices table - billable time of a client and period. Drafts get a number when finalized;
+// voiding releases the time entries so they can be invoiced again.
+export const invoicesTable = pgTable('invoices', {
+  id: serial('id').primaryKey(),
+  client_id: integer('client_id').notNull().references(() => clientsTable.id),
+  number: text('number').unique(), // Nullable - assigned on finalization, e.g. INV-2024-0001
+  status: invoiceStatusEnum('status').notNull().default('draft'),
+  period_start: date('period_start').notNull(),
+  period_end: date('period_end').notNull(),
+  subtotal: numeric('subtotal', { precision: 15, scale: 2 }).notNull(),
+  tax_rate: numeric('tax_rate', { precision: 5, scale: 2 }).notNull().default('0'), // Percent
+  tax_amount: numeric('tax_amount', { precision: 15, scale: 2 }).notNull().default('0'),
+  total: numeric('total', { precision: 15, scale: 2 }).notNull(), // subtotal + tax_amount
+  currency: text('currency').notNull().default('USD'), // The client's currency when the invoice was created
+  exchange_rate: numeric('exchange_rate', { precision: 18, scale: 8 }), // Nullable - to the reporting currency on the creation date; null when no rate was known
+  amount_paid: numeric('amount_paid', { precision: 15, scale: 2 }).notNull().default('0'), // Sum of the invoice's payments
+  finalized_at: timestamp('finalized_at'), // Nullable
+  sent_on: date('sent_on'), // Nullable - set when the invoice is sent
+  due_date: date('due_date'), // Nullable - set when the invoice is sent
+  voided_at: timestamp('voided_at'), // Nullable
+  void_reason: text('void_reason'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Invoice line items table - the invoice's time entries grouped by position and hourly rate,
+// and its expenses grouped by position and category
+export const invoiceLineItemsTable = pgTable('invoice_line_items', {
+  id: serial('id').primaryKey(),
+  invoice_id: integer('invoice_id').notNull().references(() => invoicesTable.id, { onDelete: 'cascade' }),
+  kind: invoiceLineKindEnum('kind').notNull().default('time'),
+  position_id: integer('position_id').references(() => positionsTable.id), // Nullable - null on milestone, retainer and cap adjustment lines
+  project_id: integer('project_id').references(() => projectsTable.id), // Nullable - set on lines without a position
+  retainer_id: integer('retainer_id').references(() => retainersTable.id), // Nullable - set on retainer lines
+  description: text('description').notNull(),
+  hours: numeric('hours', { precision: 10, scale: 2 }), // Nullable - set on time lines, and on retainer lines as the prepaid hours credited
+  hourly_rate: numeric('hourly_rate', { precision: 10, scale: 2 }), // Nullable - set on time lines only
+  amount: numeric('amount', { precision: 15, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Payments table - money received against an invoice, in full or in part
+export const paymentsTable = pgTable('payments', {
+  id: serial('id').primaryKey(),
+  invoice_id: integer('invoice_id').notNull().references(() => invoicesTable.id),
+  amount: numeric('amount', { precision: 15, scale: 2 }).notNull(),
+  paid_on: date('paid_on').notNull(),
+  method: paymentMethodEnum('method').notNull(),
+  reference: text('reference'), // Nullable, e.g. bank transaction ID
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Invoice templates table - editable layouts for invoice PDFs; see helpers/invoice_pdf.ts for the syntax
+export const invoiceTemplatesTable = pgTable('invoice_templates', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  body: text('body').notNull(),
+  is_default: boolean('is_default').notNull().default(false), // At most one template is the default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Work schedules table - contracted hours per user. A schedule applies from
+// effective_from until the user's next schedule takes over.
+export const workSchedulesTable = pgTable('work_schedules', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  weekly_hours: numeric('weekly_hours', { precision: 5, scale: 2 }).notNull(),
+  working_days: integer('working_days').array().notNull(), // ISO weekdays, 1 = Monday ... 7 = Sunday
+  effective_from: date('effective_from').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('work_schedules_user_effective_from_unique').on(table.user_id, table.effective_from),
+]);
+
+// Absences table - leave requests. Only approved absences reduce capacity.
+export const absencesTable = pgTable('absences', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  type: absenceTypeEnum('type').notNull(),
+  start_date: date('start_date').notNull(),
+  end_date: date('end_date').notNull(),
+  half_day: boolean('half_day').notNull().default(false), // Only for single-day absences
+  note: text('note'), // Nullable
+  status: absenceStatusEnum('status').notNull().default('pending'),
+  reviewed_by: integer('reviewed_by').references(() => usersTable.id), // Nullable
+  reviewed_at: timestamp('reviewed_at'), // Nullable
+  review_comment: text('review_comment'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Absence allowances table - yearly entitlement in days per user and absence type
+export const absenceAllowancesTable = pgTable('absence_allowances', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  year: integer('year').notNull(),
+  type: absenceTypeEnum('type').notNull(),
+  days: numeric('days', { precision: 5, scale: 1 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('absence_allowances_user_year_type_unique').on(table.user_id, table.year, table.type),
+]);
+
+// Timesheets table - per-user, per-week approval status. A week without a row is a draft.
+export const timesheetsTable = pgTable('timesheets', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  week_start: date('week_start').notNull(), // Always a Monday
+  status: timesheetStatusEnum('status').notNull().default('draft'),
+  submitted_at: timestamp('submitted_at'), // Nullable
+  reviewed_by: integer('reviewed_by').references(() => usersTable.id), // Nullable
+  reviewed_at: timestamp('reviewed_at'), // Nullable
+  review_comment: text('review_comment'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('timesheets_user_week_unique').on(table.user_id, table.week_start),
+]);
+
+// Period locks table - closed accounting periods. A lock is active until unlocked_at is set.
+export const periodLocksTable = pgTable('period_locks', {
+  id: serial('id').primaryKey(),
+  start_date: date('start_date').notNull(),
+  end_date: date('end_date').notNull(),
+  reason: text('reason'), // Nullable
+  locked_by: integer('locked_by').notNull().references(() => usersTable.id),
+  locked_at: timestamp('locked_at').defaultNow().notNull(),
+  unlocked_by: integer('unlocked_by').references(() => usersTable.id), // Nullable
+  unlocked_at: timestamp('unlocked_at'), // Nullable
+  unlock_reason: text('unlock_reason'), // Nullable
+});
+
+// Active timers table - at most one per user, turned into a time entry on stop
+export const activeTimersTable = pgTable('active_timers', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id).unique(),
+  position_id: integer('position_id').notNull().references(() => positionsTable.id),
+  description: text('description'), // Nullable
+  billable: boolean('billable').notNull().default(true),
+  status: timerStatusEnum('status').notNull().default('running'),
+  started_at: timestamp('started_at').notNull(), // When the timer was first started
+  segment_started_at: timestamp('segment_started_at'), // Nullable - start of the current running segment, null while paused
+  accumulated_seconds: integer('accumulated_seconds').notNull().default(0), // Time from finished segments
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -97,16 +457,113 @@ export const activityLogsTable = pgTable('activity_logs', {
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Budget amendments table - requested changes to a project or position budget. Approval adds
+// the delta to the budget column, which therefore always holds the effective budget; the original
+// budget is the effective one minus the approved deltas. Exactly one of project_id and position_id is set.
+export const budgetAmendmentsTable = pgTable('budget_amendments', {
+  id: serial('id').primaryKey(),
+  project_id: integer('project_id').references(() => projectsTable.id), // Set for project budgets
+  position_id: integer('position_id').references(() => positionsTable.id), // Set for position budgets
+  delta: numeric('delta', { precision: 15, scale: 2 }).notNull(), // Negative to reduce the budget
+  reason: text('reason').notNull(),
+  requested_by: integer('requested_by').notNull().references(() => usersTable.id),
+  status: budgetAmendmentStatusEnum('status').notNull().default('pending'),
+  reviewed_by: integer('reviewed_by').references(() => usersTable.id), // Nullable
+  reviewed_at: timestamp('reviewed_at'), // Nullable
+  review_comment: text('review_comment'), // Nullable
+  budget_before: numeric('budget_before', { precision: 15, scale: 2 }), // Nullable - effective budget when approved; null also when there was none
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Budget thresholds table - a consumption percentage of a project or position budget that
+// alerts the manager who set it when crossed. Exactly one of project_id and position_id is set.
+export const budgetThresholdsTable = pgTable('budget_thresholds', {
+  id: serial('id').primaryKey(),
+  project_id: integer('project_id').references(() => projectsTable.id), // Set for project thresholds
+  position_id: integer('position_id').references(() => positionsTable.id), // Set for position thresholds
+  percent: integer('percent').notNull(),
+  notify_user_id: integer('notify_user_id').notNull().references(() => usersTable.id), // Manager who configured it; receives the alerts
+  triggered_at: timestamp('triggered_at'), // Nullable - set while consumption is at or above the threshold, null re-arms it
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Budget alerts table - one row per threshold crossing, with the consumption that crossed it
+export const budgetAlertsTable = pgTable('budget_alerts', {
+  id: serial('id').primaryKey(),
+  threshold_id: integer('threshold_id').notNull().references(() => budgetThresholdsTable.id, { onDelete: 'cascade' }),
+  time_entry_id: integer('time_entry_id').references(() => timeEntriesTable.id, { onDelete: 'set null' }), // Nullable - the booking that crossed it
+  consumption_rate: numeric('consumption_rate', { precision: 10, scale: 2 }).notNull(), // Percentage
+  consumed_amount: numeric('consumed_amount', { precision: 15, scale: 2 }).notNull(),
+  total_budget: numeric('total_budget', { precision: 15, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Notifications table - the in-app notification list of a user
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  title: text('title').notNull(),
+  body: text('body').notNull(),
+  budget_alert_id: integer('budget_alert_id').references(() => budgetAlertsTable.id, { onDelete: 'cascade' }), // Nullable
+  read_at: timestamp('read_at'), // Nullable - unread
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Email outbox table - emails are queued with the change that caused them and delivered afterwards
+export const emailOutboxTable = pgTable('email_outbox', {
+  id: serial('id').primaryKey(),
+  to_address: text('to_address').notNull(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  status: emailStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  last_error: text('last_error'), // Nullable
+  sent_at: timestamp('sent_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Define relations
-export const usersRelations = relations(usersTable, ({ many }) => ({
+export const usersRelations = relations(usersTable, ({ one, many }) => ({
+  holidayCalendar: one(holidayCalendarsTable, {
+    fields: [usersTable.holiday_calendar_id],
+    references: [holidayCalendarsTable.id],
+  }),
   timeEntries: many(timeEntriesTable),
+  expenses: many(expensesTable),
+  costRates: many(costRatesTable),
   clientNotes: many(clientNotesTable),
   activityLogs: many(activityLogsTable),
+  notifications: many(notificationsTable),
+  sessions: many(sessionsTable),
+  assignments: many(assignmentsTable),
+  allocations: many(allocationsTable),
+  skills: many(userSkillsTable),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const holidayCalendarsRelations = relations(holidayCalendarsTable, ({ many }) => ({
+  holidays: many(holidaysTable),
+  users: many(usersTable),
+}));
+
+export const holidaysRelations = relations(holidaysTable, ({ one }) => ({
+  calendar: one(holidayCalendarsTable, {
+    fields: [holidaysTable.calendar_id],
+    references: [holidayCalendarsTable.id],
+  }),
 }));
 
 export const clientsRelations = relations(clientsTable, ({ many }) => ({
   contacts: many(contactsTable),
+  invoices: many(invoicesTable),
   projects: many(projectsTable),
+  retainers: many(retainersTable),
   clientNotes: many(clientNotesTable),
   activityLogs: many(activityLogsTable),
 }));
@@ -124,6 +581,8 @@ export const projectsRelations = relations(projectsTable, ({ one, many }) => ({
     references: [clientsTable.id],
   }),
   positions: many(positionsTable),
+  milestones: many(milestonesTable),
+  budgetAmendments: many(budgetAmendmentsTable),
 }));
 
 export const positionsRelations = relations(positionsTable, ({ one, many }) => ({
@@ -132,6 +591,59 @@ export const positionsRelations = relations(positionsTable, ({ one, many }) => (
     references: [projectsTable.id],
   }),
   timeEntries: many(timeEntriesTable),
+  expenses: many(expensesTable),
+  assignments: many(assignmentsTable),
+  allocations: many(allocationsTable),
+  requiredSkills: many(positionSkillsTable),
+}));
+
+export const assignmentsRelations = relations(assignmentsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [assignmentsTable.user_id],
+    references: [usersTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [assignmentsTable.position_id],
+    references: [positionsTable.id],
+  }),
+}));
+
+export const skillsRelations = relations(skillsTable, ({ many }) => ({
+  users: many(userSkillsTable),
+  positions: many(positionSkillsTable),
+}));
+
+export const userSkillsRelations = relations(userSkillsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userSkillsTable.user_id],
+    references: [usersTable.id],
+  }),
+  skill: one(skillsTable, {
+    fields: [userSkillsTable.skill_id],
+    references: [skillsTable.id],
+  }),
+}));
+
+export const positionSkillsRelations = relations(positionSkillsTable, ({ one }) => ({
+  position: one(positionsTable, {
+    fields: [positionSkillsTable.position_id],
+    references: [positionsTable.id],
+  }),
+  skill: one(skillsTable, {
+    fields: [positionSkillsTable.skill_id],
+    references: [skillsTable.id],
+  }),
+}));
+
+export const allocationsRelations = relations(allocationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [allocationsTable.user_id],
+    references: [usersTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [allocationsTable.position_id],
+    references: [positionsTable.id],
+  }),
 }));
 
 export const timeEntriesRelations = relations(timeEntriesTable, ({ one }) => ({
@@ -143,6 +655,184 @@ export const timeEntriesRelations = relations(timeEntriesTable, ({ one }) => ({
     fields: [timeEntriesTable.position_id],
     references: [positionsTable.id],
   }),
+  invoice: one(invoicesTable, {
+    fields: [timeEntriesTable.invoice_id],
+    references: [invoicesTable.id],
+  }),
+}));
+
+export const expensesRelations = relations(expensesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [expensesTable.user_id],
+    references: [usersTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [expensesTable.position_id],
+    references: [positionsTable.id],
+  }),
+  invoice: one(invoicesTable, {
+    fields: [expensesTable.invoice_id],
+    references: [invoicesTable.id],
+  }),
+}));
+
+export const timeEntryRevisionsRelations = relations(timeEntryRevisionsTable, ({ one }) => ({
+  changedBy: one(usersTable, {
+    fields: [timeEntryRevisionsTable.changed_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const rateCardsRelations = relations(rateCardsTable, ({ one }) => ({
+  client: one(clientsTable, {
+    fields: [rateCardsTable.client_id],
+    references: [clientsTable.id],
+  }),
+  project: one(projectsTable, {
+    fields: [rateCardsTable.project_id],
+    references: [projectsTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [rateCardsTable.position_id],
+    references: [positionsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [rateCardsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const costRatesRelations = relations(costRatesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [costRatesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const milestonesRelations = relations(milestonesTable, ({ one }) => ({
+  project: one(projectsTable, {
+    fields: [milestonesTable.project_id],
+    references: [projectsTable.id],
+  }),
+  invoice: one(invoicesTable, {
+    fields: [milestonesTable.invoice_id],
+    references: [invoicesTable.id],
+  }),
+}));
+
+export const retainersRelations = relations(retainersTable, ({ one, many }) => ({
+  client: one(clientsTable, {
+    fields: [retainersTable.client_id],
+    references: [clientsTable.id],
+  }),
+  scopes: many(retainerScopesTable),
+}));
+
+export const retainerScopesRelations = relations(retainerScopesTable, ({ one }) => ({
+  retainer: one(retainersTable, {
+    fields: [retainerScopesTable.retainer_id],
+    references: [retainersTable.id],
+  }),
+  project: one(projectsTable, {
+    fields: [retainerScopesTable.project_id],
+    references: [projectsTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [retainerScopesTable.position_id],
+    references: [positionsTable.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoicesTable, ({ one, many }) => ({
+  client: one(clientsTable, {
+    fields: [invoicesTable.client_id],
+    references: [clientsTable.id],
+  }),
+  lineItems: many(invoiceLineItemsTable),
+  timeEntries: many(timeEntriesTable),
+  expenses: many(expensesTable),
+  milestones: many(milestonesTable),
+  payments: many(paymentsTable),
+}));
+
+export const paymentsRelations = relations(paymentsTable, ({ one }) => ({
+  invoice: one(invoicesTable, {
+    fields: [paymentsTable.invoice_id],
+    references: [invoicesTable.id],
+  }),
+}));
+
+export const invoiceLineItemsRelations = relations(invoiceLineItemsTable, ({ one }) => ({
+  invoice: one(invoicesTable, {
+    fields: [invoiceLineItemsTable.invoice_id],
+    references: [invoicesTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [invoiceLineItemsTable.position_id],
+    references: [positionsTable.id],
+  }),
+  project: one(projectsTable, {
+    fields: [invoiceLineItemsTable.project_id],
+    references: [projectsTable.id],
+  }),
+  retainer: one(retainersTable, {
+    fields: [invoiceLineItemsTable.retainer_id],
+    references: [retainersTable.id],
+  }),
+}));
+
+export const workSchedulesRelations = relations(workSchedulesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [workSchedulesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const absencesRelations = relations(absencesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [absencesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const absenceAllowancesRelations = relations(absenceAllowancesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [absenceAllowancesTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const timesheetsRelations = relations(timesheetsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [timesheetsTable.user_id],
+    references: [usersTable.id],
+  }),
+  reviewer: one(usersTable, {
+    fields: [timesheetsTable.reviewed_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const periodLocksRelations = relations(periodLocksTable, ({ one }) => ({
+  lockedBy: one(usersTable, {
+    fields: [periodLocksTable.locked_by],
+    references: [usersTable.id],
+  }),
+  unlockedBy: one(usersTable, {
+    fields: [periodLocksTable.unlocked_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const activeTimersRelations = relations(activeTimersTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [activeTimersTable.user_id],
+    references: [usersTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [activeTimersTable.position_id],
+    references: [positionsTable.id],
+  }),
 }));
 
 export const clientNotesRelations = relations(clientNotesTable, ({ one }) => ({
@@ -167,22 +857,119 @@ export const activityLogsRelations = relations(activityLogsTable, ({ one }) => (
   }),
 }));
 
+export const budgetAmendmentsRelations = relations(budgetAmendmentsTable, ({ one }) => ({
+  project: one(projectsTable, {
+    fields: [budgetAmendmentsTable.project_id],
+    references: [projectsTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [budgetAmendmentsTable.position_id],
+    references: [positionsTable.id],
+  }),
+  requestedBy: one(usersTable, {
+    fields: [budgetAmendmentsTable.requested_by],
+    references: [usersTable.id],
+  }),
+  reviewedBy: one(usersTable, {
+    fields: [budgetAmendmentsTable.reviewed_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const budgetThresholdsRelations = relations(budgetThresholdsTable, ({ one, many }) => ({
+  project: one(projectsTable, {
+    fields: [budgetThresholdsTable.project_id],
+    references: [projectsTable.id],
+  }),
+  position: one(positionsTable, {
+    fields: [budgetThresholdsTable.position_id],
+    references: [positionsTable.id],
+  }),
+  notifyUser: one(usersTable, {
+    fields: [budgetThresholdsTable.notify_user_id],
+    references: [usersTable.id],
+  }),
+  alerts: many(budgetAlertsTable),
+}));
+
+export const budgetAlertsRelations = relations(budgetAlertsTable, ({ one }) => ({
+  threshold: one(budgetThresholdsTable, {
+    fields: [budgetAlertsTable.threshold_id],
+    references: [budgetThresholdsTable.id],
+  }),
+  timeEntry: one(timeEntriesTable, {
+    fields: [budgetAlertsTable.time_entry_id],
+    references: [timeEntriesTable.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [notificationsTable.user_id],
+    references: [usersTable.id],
+  }),
+  budgetAlert: one(budgetAlertsTable, {
+    fields: [notificationsTable.budget_alert_id],
+    references: [budgetAlertsTable.id],
+  }),
+}));
+
 // Export all tables for relation queries
 export const tables = {
+  holidayCalendars: holidayCalendarsTable,
+  holidays: holidaysTable,
   users: usersTable,
+  sessions: sessionsTable,
   clients: clientsTable,
   contacts: contactsTable,
   projects: projectsTable,
   positions: positionsTable,
+  assignments: assignmentsTable,
+  allocations: allocationsTable,
+  skills: skillsTable,
+  userSkills: userSkillsTable,
+  positionSkills: positionSkillsTable,
   timeEntries: timeEntriesTable,
+  timeEntryRevisions: timeEntryRevisionsTable,
+  expenses: expensesTable,
+  rateCards: rateCardsTable,
+  costRates: costRatesTable,
+  exchangeRates: exchangeRatesTable,
+  milestones: milestonesTable,
+  retainers: retainersTable,
+  retainerScopes: retainerScopesTable,
+  invoices: invoicesTable,
+  invoiceLineItems: invoiceLineItemsTable,
+  invoiceTemplates: invoiceTemplatesTable,
+  payments: paymentsTable,
+  workSchedules: workSchedulesTable,
+  absences: absencesTable,
+  absenceAllowances: absenceAllowancesTable,
+  timesheets: timesheetsTable,
+  periodLocks: periodLocksTable,
+  activeTimers: activeTimersTable,
   clientNotes: clientNotesTable,
   activityLogs: activityLogsTable,
+  budgetAmendments: budgetAmendmentsTable,
+  budgetThresholds: budgetThresholdsTable,
+  budgetAlerts: budgetAlertsTable,
+  notifications: notificationsTable,
+  emailOutbox: emailOutboxTable,
 };
 
 // TypeScript types for the tables
+export type HolidayCalendar = typeof holidayCalendarsTable.$inferSelect;
+export type NewHolidayCalendar = typeof holidayCalendarsTable.$inferInsert;
+
+export type Holiday = typeof holidaysTable.$inferSelect;
+export type NewHoliday = typeof holidaysTable.$inferInsert;
+
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
 export type Client = typeof clientsTable.$inferSelect;
 export type NewClient = typeof clientsTable.$inferInsert;
 
@@ -195,11 +982,95 @@ export type NewProject = typeof projectsTable.$inferInsert;
 export type Position = typeof positionsTable.$inferSelect;
 export type NewPosition = typeof positionsTable.$inferInsert;
 
+export type Assignment = typeof assignmentsTable.$inferSelect;
+export type NewAssignment = typeof assignmentsTable.$inferInsert;
+
+export type Allocation = typeof allocationsTable.$inferSelect;
+export type NewAllocation = typeof allocationsTable.$inferInsert;
+
+export type Skill = typeof skillsTable.$inferSelect;
+export type NewSkill = typeof skillsTable.$inferInsert;
+
+export type UserSkill = typeof userSkillsTable.$inferSelect;
+export type NewUserSkill = typeof userSkillsTable.$inferInsert;
+
+export type PositionSkill = typeof positionSkillsTable.$inferSelect;
+export type NewPositionSkill = typeof positionSkillsTable.$inferInsert;
+
 export type TimeEntry = typeof timeEntriesTable.$inferSelect;
 export type NewTimeEntry = typeof timeEntriesTable.$inferInsert;
 
+export type TimeEntryRevision = typeof timeEntryRevisionsTable.$inferSelect;
+export type NewTimeEntryRevision = typeof timeEntryRevisionsTable.$inferInsert;
+
+export type Expense = typeof expensesTable.$inferSelect;
+export type NewExpense = typeof expensesTable.$inferInsert;
+
+export type RateCard = typeof rateCardsTable.$inferSelect;
+export type NewRateCard = typeof rateCardsTable.$inferInsert;
+
+export type ExchangeRate = typeof exchangeRatesTable.$inferSelect;
+export type NewExchangeRate = typeof exchangeRatesTable.$inferInsert;
+
+export type CostRate = typeof costRatesTable.$inferSelect;
+export type NewCostRate = typeof costRatesTable.$inferInsert;
+
+export type Milestone = typeof milestonesTable.$inferSelect;
+export type NewMilestone = typeof milestonesTable.$inferInsert;
+
+export type Retainer = typeof retainersTable.$inferSelect;
+export type NewRetainer = typeof retainersTable.$inferInsert;
+
+export type RetainerScope = typeof retainerScopesTable.$inferSelect;
+export type NewRetainerScope = typeof retainerScopesTable.$inferInsert;
+
+export type Invoice = typeof invoicesTable.$inferSelect;
+export type NewInvoice = typeof invoicesTable.$inferInsert;
+
+export type InvoiceLineItem = typeof invoiceLineItemsTable.$inferSelect;
+export type NewInvoiceLineItem = typeof invoiceLineItemsTable.$inferInsert;
+
+export type Payment = typeof paymentsTable.$inferSelect;
+export type NewPayment = typeof paymentsTable.$inferInsert;
+
+export type InvoiceTemplate = typeof invoiceTemplatesTable.$inferSelect;
+export type NewInvoiceTemplate = typeof invoiceTemplatesTable.$inferInsert;
+
+export type WorkSchedule = typeof workSchedulesTable.$inferSelect;
+export type NewWorkSchedule = typeof workSchedulesTable.$inferInsert;
+
+export type Absence = typeof absencesTable.$inferSelect;
+export type NewAbsence = typeof absencesTable.$inferInsert;
+
+export type AbsenceAllowance = typeof absenceAllowancesTable.$inferSelect;
+export type NewAbsenceAllowance = typeof absenceAllowancesTable.$inferInsert;
+
+export type Timesheet = typeof timesheetsTable.$inferSelect;
+export type NewTimesheet = typeof timesheetsTable.$inferInsert;
+
+export type PeriodLock = typeof periodLocksTable.$inferSelect;
+export type NewPeriodLock = typeof periodLocksTable.$inferInsert;
+
+export type ActiveTimer = typeof activeTimersTable.$inferSelect;
+export type NewActiveTimer = typeof activeTimersTable.$inferInsert;
+
 export type ClientNote = typeof clientNotesTable.$inferSelect;
 export type NewClientNote = typeof clientNotesTable.$inferInsert;
 
 export type ActivityLog = typeof activityLogsTable.$inferSelect;
-export type NewActivityLog = typeof activityLogsTable.$inferInsert;
\ No newline at end of file
+export type NewActivityLog = typeof activityLogsTable.$inferInsert;
+
+export type BudgetAmendment = typeof budgetAmendmentsTable.$inferSelect;
+export type NewBudgetAmendment = typeof budgetAmendmentsTable.$inferInsert;
+
+export type BudgetThreshold = typeof budgetThresholdsTable.$inferSelect;
+export type NewBudgetThreshold = typeof budgetThresholdsTable.$inferInsert;
+
+export type BudgetAlert = typeof budgetAlertsTable.$inferSelect;
+export type NewBudgetAlert = typeof budgetAlertsTable.$inferInsert;
+
+export type Notification = typeof notificationsTable.$inferSelect;
+export type NewNotification = typeof notificationsTable.$inferInsert;
+
+export type OutboxEmail = typeof emailOutboxTable.$inferSelect;
+export type NewOutboxEmail = typeof emailOutboxTable.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { type AddHolidayInput, type Holiday } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+export const addHoliday = async (input: AddHolidayInput): Promise<Holiday> => {
+  try {
+    const date = input.date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    const calendar = await db.select()
+      .from(holidayCalendarsTable)
+      .where(eq(holidayCalendarsTable.id, input.calendar_id))
+      .limit(1)
+      .execute();
+
+    if (calendar.length === 0) {
+      throw new Error(`Holiday calendar with ID ${input.calendar_id} does not exist`);
+    }
+
+    const existing = await db.select()
+      .from(holidaysTable)
+      .where(and(
+        eq(holidaysTable.calendar_id, input.calendar_id),
+        eq(holidaysTable.date, date)
+      ))
+      .limit(1)
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`${calendar[0].name} already has a holiday on ${date}`);
+    }
+
+    const result = await db.insert(holidaysTable)
+      .values({
+        calendar_id: input.calendar_id,
+        date,
+        name: input.name
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Holiday creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { type ReviewAbsenceInput, type Absence } from '../schema';
+import { reviewAbsence } from '../helpers/absence_review';
+
+// Approved absences take their days out of the user's capacity
+export const approveAbsence = async (input: ReviewAbsenceInput): Promise<Absence> => {
+  try {
+    return await reviewAbsence(input, 'approved');
+  } catch (error) {
+    console.error('Absence approval failed:', error);
+    throw error;
+  }
+};
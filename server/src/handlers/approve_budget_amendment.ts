@@ -0,0 +1,12 @@
+import { type ReviewBudgetAmendmentInput, type BudgetAmendment } from '../schema';
+import { reviewBudgetAmendment } from '../helpers/budget_amendment_review';
+
+// The approved delta becomes part of the effective budget
+export const approveBudgetAmendment = async (input: ReviewBudgetAmendmentInput): Promise<BudgetAmendment> => {
+  try {
+    return await reviewBudgetAmendment(input, 'approved');
+  } catch (error) {
+    console.error('Budget amendment approval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,11 @@
+import { type ReviewTimesheetInput, type Timesheet } from '../schema';
+import { reviewTimesheet } from '../helpers/timesheet_review';
+
+export const approveTimesheet = async (input: ReviewTimesheetInput): Promise<Timesheet> => {
+  try {
+    return await reviewTimesheet(input, 'approved');
+  } catch (error) {
+    console.error('Timesheet approval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { holidayCalendarsTable, usersTable } from '../db/schema';
+import { type AssignHolidayCalendarInput, type User } from '../schema';
+import { toUser } from '../helpers/users';
+import { eq } from 'drizzle-orm';
+
+export const assignHolidayCalendar = async (input: AssignHolidayCalendarInput): Promise<User> => {
+  try {
+    if (input.holiday_calendar_id !== null) {
+      const calendar = await db.select()
+        .from(holidayCalendarsTable)
+        .where(eq(holidayCalendarsTable.id, input.holiday_calendar_id))
+        .limit(1)
+        .execute();
+
+      if (calendar.length === 0) {
+        throw new Error(`Holiday calendar with ID ${input.holiday_calendar_id} does not exist`);
+      }
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        holiday_calendar_id: input.holiday_calendar_id,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    return toUser(result[0]);
+  } catch (error) {
+    console.error('Holiday calendar assignment failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ChangePasswordInput, type User } from '../schema';
+import { hashPassword, verifyPassword } from '../helpers/auth';
+import { toUser } from '../helpers/users';
+import { eq } from 'drizzle-orm';
+
+// Users change their own password by proving they know the current one; sessions stay valid
+export const changePassword = async (input: ChangePasswordInput): Promise<User> => {
+  try {
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const passwordHash = user[0].password_hash;
+    if (passwordHash === null || !(await verifyPassword(input.current_password, passwordHash))) {
+      throw new Error('The current password is not correct');
+    }
+
+    const result = await db.update(usersTable)
+      .set({ password_hash: await hashPassword(input.new_password), updated_at: new Date() })
+      .where(eq(usersTable.id, input.user_id))
+      .returning()
+      .execute();
+
+    return toUser(result[0]);
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,150 @@
+import { db } from '../db';
+import {
+  budgetAlertsTable,
+  budgetThresholdsTable,
+  notificationsTable,
+  positionsTable,
+  projectsTable,
+  usersTable,
+  type BudgetThreshold
+} from '../db/schema';
+import { type BudgetAlert } from '../schema';
+import { getBudgetConsumption, type BudgetConsumptionReport } from './get_budget_consumption';
+import { enqueueEmail } from '../helpers/email';
+import { and, asc, eq, isNull, or } from 'drizzle-orm';
+
+interface CheckBudgetThresholdsInput {
+  position_id: number;
+  time_entry_id: number | null; // The booking that triggered the check
+}
+
+const formatAmount = (amount: number, currency: string) => `${currency} ${amount.toFixed(2)}`;
+
+/**
+ * Compares the consumption of the position and its project with their thresholds after a
+ * booking. A threshold alerts once when consumption reaches it and is re-armed once
+ * consumption drops below it again, e.g. after a deleted entry or a raised budget.
+ * Returns the alerts recorded by this check.
+ */
+export const checkBudgetThresholds = async (input: CheckBudgetThresholdsInput): Promise<BudgetAlert[]> => {
+  try {
+    const position = await db.select({ position: positionsTable, project: projectsTable })
+      .from(positionsTable)
+      .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+      .where(eq(positionsTable.id, input.position_id))
+      .limit(1)
+      .execute();
+
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    const { position: { id: positionId, name: positionName }, project } = position[0];
+
+    const thresholds = await db.select()
+      .from(budgetThresholdsTable)
+      .where(or(eq(budgetThresholdsTable.position_id, positionId), eq(budgetThresholdsTable.project_id, project.id)))
+      .orderBy(asc(budgetThresholdsTable.percent))
+      .execute();
+
+    const scopes = [
+      {
+        thresholds: thresholds.filter(threshold => threshold.position_id === positionId),
+        label: `Position "${positionName}" on project "${project.name}"`,
+        measure: () => getBudgetConsumption({ position_id: positionId })
+      },
+      {
+        thresholds: thresholds.filter(threshold => threshold.project_id === project.id),
+        label: `Project "${project.name}"`,
+        measure: () => getBudgetConsumption({ project_id: project.id })
+      }
+    ];
+
+    const alerts: BudgetAlert[] = [];
+
+    for (const scope of scopes) {
+      if (scope.thresholds.length === 0) continue;
+
+      const [report] = await scope.measure();
+      if (!report || report.total_budget === null) continue; // Nothing to measure against
+
+      const rate = Math.round(report.consumption_rate * 100) / 100;
+
+      for (const threshold of scope.thresholds) {
+        if (rate >= threshold.percent && threshold.triggered_at === null) {
+          const alert = await recordAlert(threshold, report, scope.label, input.time_entry_id);
+          if (alert) alerts.push(alert);
+        } else if (rate < threshold.percent && threshold.triggered_at !== null) {
+          await db.update(budgetThresholdsTable)
+            .set({ triggered_at: null })
+            .where(eq(budgetThresholdsTable.id, threshold.id))
+            .execute();
+        }
+      }
+    }
+
+    return alerts;
+  } catch (error) {
+    console.error('Budget threshold check failed:', error);
+    throw error;
+  }
+};
+
+// Records the crossing with its notification and email; null when a concurrent check was first
+async function recordAlert(
+  threshold: BudgetThreshold,
+  report: BudgetConsumptionReport,
+  label: string,
+  timeEntryId: number | null
+): Promise<BudgetAlert | null> {
+  return await db.transaction(async (tx) => {
+    const claimed = await tx.update(budgetThresholdsTable)
+      .set({ triggered_at: new Date() })
+      .where(and(eq(budgetThresholdsTable.id, threshold.id), isNull(budgetThresholdsTable.triggered_at)))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) return null;
+
+    const result = await tx.insert(budgetAlertsTable)
+      .values({
+        threshold_id: threshold.id,
+        time_entry_id: timeEntryId,
+        consumption_rate: report.consumption_rate.toFixed(2), // Convert number to string for numeric column
+        consumed_amount: report.consumed_amount.toFixed(2),
+        total_budget: report.total_budget!.toFixed(2)
+      })
+      .returning()
+      .execute();
+
+    const alert = result[0];
+
+    const manager = await tx.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, threshold.notify_user_id))
+      .limit(1)
+      .execute();
+
+    const title = `${label} reached ${threshold.percent}% of its budget`;
+    const body = `${label} has consumed ${formatAmount(report.consumed_amount, report.currency)} of its ` +
+      `${formatAmount(report.total_budget!, report.currency)} budget (${report.consumption_rate.toFixed(1)}%), ` +
+      `crossing the ${threshold.percent}% threshold.`;
+
+    await tx.insert(notificationsTable)
+      .values({ user_id: threshold.notify_user_id, title, body, budget_alert_id: alert.id })
+      .execute();
+
+    await enqueueEmail(tx, {
+      to_address: manager[0].email,
+      subject: `Budget alert: ${title}`,
+      body: `Hello ${manager[0].name},\n\n${body}\n`
+    });
+
+    return {
+      ...alert,
+      consumption_rate: parseFloat(alert.consumption_rate), // Convert strings back to numbers
+      consumed_amount: parseFloat(alert.consumed_amount),
+      total_budget: parseFloat(alert.total_budget)
+    };
+  });
+}
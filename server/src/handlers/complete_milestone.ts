@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { milestonesTable } from '../db/schema';
+import { type CompleteMilestoneInput, type Milestone } from '../schema';
+import { toMilestone } from '../helpers/milestones';
+import { eq } from 'drizzle-orm';
+
+// Completed milestones count as earned value and can be invoiced
+export const completeMilestone = async (input: CompleteMilestoneInput): Promise<Milestone> => {
+  try {
+    const existing = await db.select()
+      .from(milestonesTable)
+      .where(eq(milestonesTable.id, input.milestone_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Milestone with ID ${input.milestone_id} does not exist`);
+    }
+
+    if (existing[0].completed_on !== null) {
+      throw new Error(`Milestone with ID ${input.milestone_id} was already completed on ${existing[0].completed_on}`);
+    }
+
+    const updated = await db.update(milestonesTable)
+      .set({ completed_on: input.completed_on.toISOString().split('T')[0], updated_at: new Date() }) // Convert Date to YYYY-MM-DD string
+      .where(eq(milestonesTable.id, input.milestone_id))
+      .returning()
+      .execute();
+
+    return toMilestone(updated[0]);
+  } catch (error) {
+    console.error('Milestone completion failed:', error);
+    throw error;
+  }
+};
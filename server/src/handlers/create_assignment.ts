@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { assignmentsTable, usersTable, positionsTable } from '../db/schema';
+import { type CreateAssignmentInput, type Assignment } from '../schema';
+import { assertNoOverlappingAssignment, loadAssignments } from '../helpers/assignments';
+import { toDateString } from '../helpers/week';
+import { eq } from 'drizzle-orm';
+
+export const createAssignment = async (input: CreateAssignmentInput): Promise<Assignment> => {
+  try {
+    const user = await db.select().from(usersTable).where(eq(usersTable.id, input.user_id)).limit(1).execute();
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const position = await db.select().from(positionsTable).where(eq(positionsTable.id, input.position_id)).limit(1).execute();
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    const startDate = input.start_date ? toDateString(input.start_date) : null;
+    const endDate = input.end_date ? toDateString(input.end_date) : null;
+
+    await assertNoOverlappingAssignment(db, {
+      user_id: input.user_id,
+      position_id: input.position_id,
+      start_date: startDate,
+      end_date: endDate
+    });
+
+    const result = await db.insert(assignmentsTable)
+      .values({
+        user_id: input.user_id,
+        position_id: input.position_id,
+        start_date: startDate,
+        end_date: endDate,
+        planned_hours: input.planned_hours !== null ? input.planned_hours.toString() : null // Convert number to string for numeric column
+      })
+      .returning()
+      .execute();
+
+    const assignments = await loadAssignments(db, eq(assignmentsTable.id, result[0].id));
+    return assignments[0];
+  } catch (error) {
+    console.error('Assignment creation failed:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { clientsTable } from '../db/schema';
 import { type CreateClientInput, type Client } from '../schema';
+import { reportingCurrency } from '../helpers/currency';
 
 export const createClient = async (input: CreateClientInput): Promise<Client> => {
   try {
@@ -9,7 +10,8 @@ export const createClient = async (input: CreateClientInput): Promise<Client> =>
       .values({
         name: input.name,
         address: input.address,
-        industry: input.industry
+        industry: input.industry,
+        currency: input.currency ?? reportingCurrency()
       })
       .returning()
       .execute();
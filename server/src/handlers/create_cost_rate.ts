@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { costRatesTable, usersTable } from '../db/schema';
+import { type CreateCostRateInput, type CostRate } from '../schema';
+import { and, eq, gte, isNull, lte, or, type SQL } from 'drizzle-orm';
+
+export const createCostRate = async (input: CreateCostRateInput): Promise<CostRate> => {
+  try {
+    const validFrom = input.valid_from.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const validTo = input.valid_to ? input.valid_to.toISOString().split('T')[0] : null;
+
+    if (validTo !== null && validTo < validFrom) {
+      throw new Error('Valid-to date must not be before valid-from date');
+    }
+
+    const user = await db.select().from(usersTable).where(eq(usersTable.id, input.user_id)).limit(1).execute();
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    // Only one cost rate per user may apply on any given day
+    const conditions: SQL<unknown>[] = [
+      eq(costRatesTable.user_id, input.user_id),
+      or(isNull(costRatesTable.valid_to), gte(costRatesTable.valid_to, validFrom))!
+    ];
+
+    if (validTo !== null) {
+      conditions.push(lte(costRatesTable.valid_from, validTo));
+    }
+
+    const overlapping = await db.select()
+      .from(costRatesTable)
+      .where(and(...conditions))
+      .limit(1)
+      .execute();
+
+    if (overlapping.length > 0) {
+      const existing = overlapping[0];
+      throw new Error(`Cost rate overlaps an existing cost rate valid from ${existing.valid_from}${existing.valid_to ? ` to ${existing.valid_to}` : ''}`);
+    }
+
+    const result = await db.insert(costRatesTable)
+      .values({
+        user_id: input.user_id,
+        hourly_cost: input.hourly_cost.toString(), // Convert number to string for numeric column
+        valid_from: validFrom,
+        valid_to: validTo
+      })
+      .returning()
+      .execute();
+
+    const costRate = result[0];
+    return {
+      ...costRate,
+      hourly_cost: parseFloat(costRate.hourly_cost) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Cost rate creation failed:', error);
+    throw error;
+  }
+};
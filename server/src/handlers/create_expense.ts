@@ -0,0 +1,79 @@
+import { db } from '../db';
+import { expensesTable, usersTable, positionsTable } from '../db/schema';
+import { type CreateExpenseInput, type Expense } from '../schema';
+import { assertPeriodOpen } from '../helpers/period_lock';
+import { toExpense } from '../helpers/expenses';
+import { deleteReceipt, saveReceipt } from '../helpers/receipts';
+import { eq } from 'drizzle-orm';
+
+export const createExpense = async (input: CreateExpenseInput): Promise<Expense> => {
+  // Set once the receipt is on disk, so a rolled back insert can remove it again
+  let savedReceipt: string | null = null;
+
+  try {
+    // Verify that the user exists
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    // Verify that the position exists
+    const position = await db.select()
+      .from(positionsTable)
+      .where(eq(positionsTable.id, input.position_id))
+      .limit(1)
+      .execute();
+
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    const dateString = input.date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    await assertPeriodOpen(db, dateString);
+
+    return await db.transaction(async (tx) => {
+      const inserted = await tx.insert(expensesTable)
+        .values({
+          user_id: input.user_id,
+          position_id: input.position_id,
+          date: dateString,
+          amount: input.amount.toString(), // Convert number to string for numeric column
+          currency: input.currency,
+          category: input.category,
+          description: input.description,
+          billable: input.billable,
+          reimbursable: input.reimbursable
+        })
+        .returning()
+        .execute();
+
+      if (!input.receipt) {
+        return toExpense(inserted[0]);
+      }
+
+      // The file name includes the expense ID, so the row has to exist first
+      savedReceipt = await saveReceipt(inserted[0].id, input.receipt);
+      const updated = await tx.update(expensesTable)
+        .set({ receipt_filename: input.receipt.filename, receipt_path: savedReceipt })
+        .where(eq(expensesTable.id, inserted[0].id))
+        .returning()
+        .execute();
+
+      return toExpense(updated[0]);
+    }).catch(async (error: unknown) => {
+      // Nothing refers to the new file after the rollback
+      if (savedReceipt) {
+        await deleteReceipt(savedReceipt);
+      }
+      throw error;
+    });
+  } catch (error) {
+    console.error('Expense creation failed:', error);
+    throw error;
+  }
+};
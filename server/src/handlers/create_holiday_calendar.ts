@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { holidayCalendarsTable } from '../db/schema';
+import { type CreateHolidayCalendarInput, type HolidayCalendar } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const createHolidayCalendar = async (input: CreateHolidayCalendarInput): Promise<HolidayCalendar> => {
+  try {
+    const existing = await db.select()
+      .from(holidayCalendarsTable)
+      .where(eq(holidayCalendarsTable.name, input.name))
+      .limit(1)
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Holiday calendar named ${input.name} already exists`);
+    }
+
+    const result = await db.insert(holidayCalendarsTable)
+      .values({
+        name: input.name,
+        region: input.region
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Holiday calendar creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,331 @@
+import { db } from '../db';
+import { clientsTable, expensesTable, invoicesTable, invoiceLineItemsTable, positionsTable, projectsTable, timeEntriesTable } from '../db/schema';
+import { type CreateInvoiceInput, type InvoiceDetails } from '../schema';
+import { createRateResolver } from '../helpers/rates';
+import { createRetainerResolver, getRetainerPurchase } from '../helpers/retainers';
+import { getInvoiceWithLines, getInvoiceCurrency } from '../helpers/invoice';
+import { createCurrencyConverter } from '../helpers/currency';
+import { and, asc, eq, gte, inArray, isNull, lte, ne, or } from 'drizzle-orm';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Creates a draft invoice from the client's unbilled billable time in the period.
+ * Entries are grouped into one line item per position and hourly rate - a rate card
+ * change inside the period splits the position into two lines. Every entry must be
+ * priced; unpriced hours are reported instead of being invoiced at zero.
+ * The invoice is in the client's currency. Unless left out, unbilled billable expenses in
+ * the period follow as one line per position and category, converted to it with the
+ * exchange rate of each expense's date.
+ * Time on fixed-price projects is left out; those projects are billed through their
+ * milestones. Time on capped T&M projects is invoiced up to the project budget: a
+ * negative cap adjustment line takes off whatever would exceed it.
+ * Time drawing from a retainer was paid in advance: a negative retainer line per project
+ * credits it, oldest entries first, until this and earlier non-void invoices have used
+ * up the retainer's hours or amount. Time beyond that is billed as usual.
+ */
+export const createInvoice = async (input: CreateInvoiceInput): Promise<InvoiceDetails> => {
+  try {
+    const periodStart = input.period_start.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const periodEnd = input.period_end.toISOString().split('T')[0];
+
+    if (periodEnd < periodStart) {
+      throw new Error('Period end must not be before period start');
+    }
+
+    return await db.transaction(async (tx) => {
+      const client = await tx.select()
+        .from(clientsTable)
+        .where(eq(clientsTable.id, input.client_id))
+        .limit(1)
+        .execute();
+
+      if (client.length === 0) {
+        throw new Error(`Client with ID ${input.client_id} does not exist`);
+      }
+
+      // Entries already on a draft or finalized invoice are skipped
+      const entries = await tx.select({
+        id: timeEntriesTable.id,
+        user_id: timeEntriesTable.user_id,
+        position_id: timeEntriesTable.position_id,
+        date: timeEntriesTable.date,
+        hours: timeEntriesTable.hours,
+        position_name: positionsTable.name,
+        project_id: projectsTable.id,
+        project_name: projectsTable.name,
+        billing_model: projectsTable.billing_model,
+        budget: projectsTable.budget
+      })
+        .from(timeEntriesTable)
+        .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+        .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+        .where(and(
+          eq(projectsTable.client_id, input.client_id),
+          ne(projectsTable.billing_model, 'fixed_price'),
+          eq(timeEntriesTable.billable, true),
+          isNull(timeEntriesTable.invoice_id),
+          gte(timeEntriesTable.date, periodStart),
+          lte(timeEntriesTable.date, periodEnd)
+        ))
+        .orderBy(asc(projectsTable.name), asc(positionsTable.name), asc(timeEntriesTable.date))
+        .execute();
+
+      const expenses = !input.include_expenses ? [] : await tx.select({
+        id: expensesTable.id,
+        position_id: expensesTable.position_id,
+        date: expensesTable.date,
+        amount: expensesTable.amount,
+        currency: expensesTable.currency,
+        category: expensesTable.category,
+        position_name: positionsTable.name,
+        project_name: projectsTable.name
+      })
+        .from(expensesTable)
+        .innerJoin(positionsTable, eq(expensesTable.position_id, positionsTable.id))
+        .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+        .where(and(
+          eq(projectsTable.client_id, input.client_id),
+          eq(expensesTable.billable, true),
+          isNull(expensesTable.invoice_id),
+          gte(expensesTable.date, periodStart),
+          lte(expensesTable.date, periodEnd)
+        ))
+        .orderBy(asc(projectsTable.name), asc(positionsTable.name), asc(expensesTable.category), asc(expensesTable.id))
+        .execute();
+
+      if (entries.length === 0 && expenses.length === 0) {
+        throw new Error(`Client with ID ${input.client_id} has no unbilled billable time or expenses between ${periodStart} and ${periodEnd}`);
+      }
+
+      const currency = client[0].currency;
+      const convert = await createCurrencyConverter(tx);
+      const convertedExpenses = expenses.map(expense => ({
+        ...expense,
+        converted: convert(parseFloat(expense.amount), expense.currency, currency, expense.date) // Convert string back to number
+      }));
+
+      const unconverted = convertedExpenses.filter(expense => expense.converted === null);
+      if (unconverted.length > 0) {
+        const details = unconverted.map(expense => `${expense.currency} ${expense.amount} on ${expense.date} (expense ${expense.id})`).join(', ');
+        throw new Error(`No exchange rate to ${currency} applies to ${details}; add one or leave out expenses to invoice the time alone`);
+      }
+
+      const resolveRate = await createRateResolver(tx, entries);
+
+      const lines = new Map<string, { project_id: number; position_id: number; description: string; hours: number; hourly_rate: number }>();
+      const unpriced = new Map<string, number>();
+      const pricedEntries: Array<{ entry: typeof entries[number]; hours: number; hourly_rate: number }> = [];
+
+      for (const entry of entries) {
+        const description = `${entry.project_name} – ${entry.position_name}`;
+        const hours = parseFloat(entry.hours); // Convert string back to number
+        const rate = resolveRate(entry);
+
+        if (!rate) {
+          unpriced.set(description, (unpriced.get(description) ?? 0) + hours);
+          continue;
+        }
+
+        pricedEntries.push({ entry, hours, hourly_rate: rate.hourly_rate });
+
+        const key = `${entry.position_id}:${rate.hourly_rate}`;
+        const line = lines.get(key) ??
+          { project_id: entry.project_id, position_id: entry.position_id, description, hours: 0, hourly_rate: rate.hourly_rate };
+        line.hours += hours;
+        lines.set(key, line);
+      }
+
+      if (unpriced.size > 0) {
+        const details = Array.from(unpriced, ([description, hours]) => `${description} (${roundAmount(hours)}h)`).join(', ');
+        throw new Error(`No rate applies to billable time on ${details}; add a rate card before invoicing`);
+      }
+
+      const timeLines = Array.from(lines.values()).map(line => ({
+        ...line,
+        hours: roundAmount(line.hours),
+        amount: roundAmount(line.hours * line.hourly_rate)
+      }));
+
+      // Capped projects: earlier non-void invoices count toward the cap, including their adjustments
+      const cappedProjects = new Map(entries
+        .filter(entry => entry.billing_model === 'capped_time_and_materials' && entry.budget !== null)
+        .map(entry => [entry.project_id, { name: entry.project_name, cap: parseFloat(entry.budget!) }]));
+
+      const capAdjustments: Array<{ project_id: number; description: string; amount: number }> = [];
+      if (cappedProjects.size > 0) {
+        const cappedIds = Array.from(cappedProjects.keys());
+        const invoiced = await tx.select({
+          amount: invoiceLineItemsTable.amount,
+          position_project_id: positionsTable.project_id,
+          project_id: invoiceLineItemsTable.project_id
+        })
+          .from(invoiceLineItemsTable)
+          .innerJoin(invoicesTable, eq(invoiceLineItemsTable.invoice_id, invoicesTable.id))
+          .leftJoin(positionsTable, eq(invoiceLineItemsTable.position_id, positionsTable.id))
+          .where(and(
+            ne(invoicesTable.status, 'void'),
+            inArray(invoiceLineItemsTable.kind, ['time', 'cap_adjustment']),
+            or(inArray(positionsTable.project_id, cappedIds), inArray(invoiceLineItemsTable.project_id, cappedIds))
+          ))
+          .execute();
+
+        for (const [projectId, project] of cappedProjects) {
+          const alreadyInvoiced = invoiced
+            .filter(line => (line.project_id ?? line.position_project_id) === projectId)
+            .reduce((total, line) => total + parseFloat(line.amount), 0);
+          const newTime = timeLines
+            .filter(line => line.project_id === projectId)
+            .reduce((total, line) => total + line.amount, 0);
+          const excess = roundAmount(alreadyInvoiced + newTime - project.cap);
+
+          if (excess > 0) {
+            capAdjustments.push({
+              project_id: projectId,
+              description: `${project.name} – Cap adjustment (budget ${project.cap.toFixed(2)})`,
+              amount: -Math.min(excess, roundAmount(newTime))
+            });
+          }
+        }
+      }
+
+      const resolveRetainer = await createRetainerResolver(tx, entries);
+      const retainerEntries = pricedEntries
+        .map(priced => ({ ...priced, retainer: resolveRetainer(priced.entry) }))
+        .filter(priced => priced.retainer !== null)
+        .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.entry.id - b.entry.id);
+
+      const retainerLines = new Map<string, { project_id: number; retainer_id: number; description: string; hours: number; amount: number }>();
+      if (retainerEntries.length > 0) {
+        const retainerIds = Array.from(new Set(retainerEntries.map(priced => priced.retainer!.id)));
+        const credited = await tx.select({
+          retainer_id: invoiceLineItemsTable.retainer_id,
+          hours: invoiceLineItemsTable.hours,
+          amount: invoiceLineItemsTable.amount
+        })
+          .from(invoiceLineItemsTable)
+          .innerJoin(invoicesTable, eq(invoiceLineItemsTable.invoice_id, invoicesTable.id))
+          .where(and(
+            ne(invoicesTable.status, 'void'),
+            eq(invoiceLineItemsTable.kind, 'retainer'),
+            inArray(invoiceLineItemsTable.retainer_id, retainerIds)
+          ))
+          .execute();
+
+        // What each retainer still has to credit, in its own unit
+        const remaining = new Map(retainerIds.map(retainerId => {
+          const retainer = retainerEntries.find(priced => priced.retainer!.id === retainerId)!.retainer!;
+          const { unit, purchased } = getRetainerPurchase(retainer);
+          const used = credited
+            .filter(line => line.retainer_id === retainerId)
+            .reduce((total, line) => total + (unit === 'hours' ? parseFloat(line.hours ?? '0') : -parseFloat(line.amount)), 0);
+          return [retainerId, purchased - used];
+        }));
+
+        for (const { entry, hours, hourly_rate, retainer } of retainerEntries) {
+          const left = remaining.get(retainer!.id)!;
+          if (left <= 0) continue;
+
+          const { unit } = getRetainerPurchase(retainer!);
+          const creditHours = unit === 'hours' ? Math.min(hours, left) : Math.min(hours * hourly_rate, left) / hourly_rate;
+          remaining.set(retainer!.id, left - (unit === 'hours' ? creditHours : creditHours * hourly_rate));
+
+          const key = `${retainer!.id}:${entry.project_id}`;
+          const line = retainerLines.get(key) ?? {
+            project_id: entry.project_id,
+            retainer_id: retainer!.id,
+            description: `${entry.project_name} – Prepaid from retainer ${retainer!.name}`,
+            hours: 0,
+            amount: 0
+          };
+          line.hours += creditHours;
+          line.amount -= creditHours * hourly_rate;
+          retainerLines.set(key, line);
+        }
+      }
+
+      const expenseLines = new Map<string, { position_id: number; description: string; amount: number }>();
+      for (const expense of convertedExpenses) {
+        const key = `${expense.position_id}:${expense.category}`;
+        const category = expense.category.charAt(0).toUpperCase() + expense.category.slice(1);
+        const line = expenseLines.get(key) ??
+          { position_id: expense.position_id, description: `${expense.project_name} – ${expense.position_name} – ${category} expenses`, amount: 0 };
+        line.amount += expense.converted!;
+        expenseLines.set(key, line);
+      }
+
+      const lineItems = [
+        ...timeLines.map(line => ({ ...line, kind: 'time' as const, project_id: null, retainer_id: null })),
+        ...Array.from(retainerLines.values()).map(line => ({
+          ...line,
+          kind: 'retainer' as const,
+          position_id: null,
+          hours: roundAmount(line.hours),
+          hourly_rate: null,
+          amount: roundAmount(line.amount)
+        })),
+        ...capAdjustments.map(line => ({
+          ...line, kind: 'cap_adjustment' as const, position_id: null, retainer_id: null, hours: null, hourly_rate: null
+        })),
+        ...Array.from(expenseLines.values()).map(line => ({
+          ...line,
+          kind: 'expense' as const,
+          project_id: null,
+          retainer_id: null,
+          hours: null,
+          hourly_rate: null,
+          amount: roundAmount(line.amount)
+        }))
+      ];
+      const subtotal = roundAmount(lineItems.reduce((total, line) => total + line.amount, 0));
+      const taxAmount = roundAmount(subtotal * input.tax_rate / 100);
+
+      const invoice = await tx.insert(invoicesTable)
+        .values({
+          client_id: input.client_id,
+          period_start: periodStart,
+          period_end: periodEnd,
+          subtotal: subtotal.toString(), // Convert numbers to strings for numeric columns
+          tax_rate: input.tax_rate.toString(),
+          tax_amount: taxAmount.toString(),
+          total: roundAmount(subtotal + taxAmount).toString(),
+          ...await getInvoiceCurrency(tx, currency)
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(invoiceLineItemsTable)
+        .values(lineItems.map(line => ({
+          invoice_id: invoice[0].id,
+          kind: line.kind,
+          position_id: line.position_id,
+          project_id: line.project_id,
+          retainer_id: line.retainer_id,
+          description: line.description,
+          hours: line.hours?.toString() ?? null, // Convert numbers to strings for numeric columns
+          hourly_rate: line.hourly_rate?.toString() ?? null,
+          amount: line.amount.toString()
+        })))
+        .execute();
+
+      if (entries.length > 0) {
+        await tx.update(timeEntriesTable)
+          .set({ invoice_id: invoice[0].id })
+          .where(inArray(timeEntriesTable.id, entries.map(entry => entry.id)))
+          .execute();
+      }
+
+      if (expenses.length > 0) {
+        await tx.update(expensesTable)
+          .set({ invoice_id: invoice[0].id })
+          .where(inArray(expensesTable.id, expenses.map(expense => expense.id)))
+          .execute();
+      }
+
+      return await getInvoiceWithLines(tx, invoice[0].id);
+    });
+  } catch (error) {
+    console.error('Invoice creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { invoiceTemplatesTable } from '../db/schema';
+import { type CreateInvoiceTemplateInput, type InvoiceTemplate } from '../schema';
+import { validateInvoiceTemplate } from '../helpers/invoice_pdf';
+import { eq } from 'drizzle-orm';
+
+export const createInvoiceTemplate = async (input: CreateInvoiceTemplateInput): Promise<InvoiceTemplate> => {
+  try {
+    validateInvoiceTemplate(input.body);
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(invoiceTemplatesTable)
+        .where(eq(invoiceTemplatesTable.name, input.name))
+        .limit(1)
+        .execute();
+
+      if (existing.length > 0) {
+        throw new Error(`An invoice template named ${input.name} already exists`);
+      }
+
+      // Only one template can be the default
+      if (input.is_default) {
+        await tx.update(invoiceTemplatesTable)
+          .set({ is_default: false })
+          .where(eq(invoiceTemplatesTable.is_default, true))
+          .execute();
+      }
+
+      const result = await tx.insert(invoiceTemplatesTable)
+        .values({ name: input.name, body: input.body, is_default: input.is_default })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Invoice template creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { milestonesTable, projectsTable } from '../db/schema';
+import { type CreateMilestoneInput, type Milestone } from '../schema';
+import { toMilestone } from '../helpers/milestones';
+import { eq } from 'drizzle-orm';
+
+export const createMilestone = async (input: CreateMilestoneInput): Promise<Milestone> => {
+  try {
+    const project = await db.select()
+      .from(projectsTable)
+      .where(eq(projectsTable.id, input.project_id))
+      .limit(1)
+      .execute();
+
+    if (project.length === 0) {
+      throw new Error(`Project with ID ${input.project_id} does not exist`);
+    }
+
+    // Time on other projects is invoiced by the hour already
+    if (project[0].billing_model !== 'fixed_price') {
+      throw new Error(`Project with ID ${input.project_id} is not fixed-price; only fixed-price projects have milestones`);
+    }
+
+    const result = await db.insert(milestonesTable)
+      .values({
+        project_id: input.project_id,
+        name: input.name,
+        amount: input.amount.toString(), // Convert number to string for numeric column
+        due_date: input.due_date.toISOString().split('T')[0] // Convert Date to YYYY-MM-DD string
+      })
+      .returning()
+      .execute();
+
+    return toMilestone(result[0]);
+  } catch (error) {
+    console.error('Milestone creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { clientsTable, invoicesTable, invoiceLineItemsTable, milestonesTable, projectsTable } from '../db/schema';
+import { type CreateMilestoneInvoiceInput, type InvoiceDetails } from '../schema';
+import { getInvoiceWithLines, getInvoiceCurrency } from '../helpers/invoice';
+import { eq } from 'drizzle-orm';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Creates a draft invoice for a single completed milestone; the period is its completion day
+export const createMilestoneInvoice = async (input: CreateMilestoneInvoiceInput): Promise<InvoiceDetails> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const milestones = await tx.select({ milestone: milestonesTable, project: projectsTable, currency: clientsTable.currency })
+        .from(milestonesTable)
+        .innerJoin(projectsTable, eq(milestonesTable.project_id, projectsTable.id))
+        .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+        .where(eq(milestonesTable.id, input.milestone_id))
+        .for('update')
+        .execute();
+
+      if (milestones.length === 0) {
+        throw new Error(`Milestone with ID ${input.milestone_id} does not exist`);
+      }
+
+      const { milestone, project, currency } = milestones[0];
+
+      if (milestone.completed_on === null) {
+        throw new Error(`Milestone with ID ${milestone.id} is not completed and cannot be invoiced yet`);
+      }
+
+      if (milestone.invoice_id !== null) {
+        throw new Error(`Milestone with ID ${milestone.id} is already on invoice ${milestone.invoice_id}`);
+      }
+
+      const subtotal = parseFloat(milestone.amount); // Convert string back to number
+      const taxAmount = roundAmount(subtotal * input.tax_rate / 100);
+
+      const invoice = await tx.insert(invoicesTable)
+        .values({
+          client_id: project.client_id,
+          period_start: milestone.completed_on,
+          period_end: milestone.completed_on,
+          subtotal: subtotal.toString(), // Convert numbers to strings for numeric columns
+          tax_rate: input.tax_rate.toString(),
+          tax_amount: taxAmount.toString(),
+          total: roundAmount(subtotal + taxAmount).toString(),
+          ...await getInvoiceCurrency(tx, currency)
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(invoiceLineItemsTable)
+        .values({
+          invoice_id: invoice[0].id,
+          kind: 'milestone',
+          project_id: project.id,
+          description: `${project.name} – ${milestone.name}`,
+          amount: milestone.amount
+        })
+        .execute();
+
+      await tx.update(milestonesTable)
+        .set({ invoice_id: invoice[0].id })
+        .where(eq(milestonesTable.id, milestone.id))
+        .execute();
+
+      return await getInvoiceWithLines(tx, invoice[0].id);
+    });
+  } catch (error) {
+    console.error('Milestone invoice creation failed:', error);
+    throw error;
+  }
+};
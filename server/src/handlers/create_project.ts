@@ -1,9 +1,14 @@
 import { db } from '../db';
 import { projectsTable } from '../db/schema';
 import { type CreateProjectInput, type Project } from '../schema';
+import { BILLING_MODEL_NAMES } from '../helpers/milestones';
 
 export const createProject = async (input: CreateProjectInput): Promise<Project> => {
   try {
+    if (input.billing_model !== 'time_and_materials' && input.budget === null) {
+      throw new Error(`${BILLING_MODEL_NAMES[input.billing_model]} projects need a budget`);
+    }
+
     // Insert project record
     const result = await db.insert(projectsTable)
       .values({
@@ -11,6 +16,7 @@ export const createProject = async (input: CreateProjectInput): Promise<Project>
         name: input.name,
         description: input.description,
         budget: input.budget ? input.budget.toString() : null, // Convert number to string for numeric column
+        billing_model: input.billing_model, // Zod default ensures this exists
         status: input.status, // Zod default ensures this exists
         start_date: input.start_date ? input.start_date.toISOString().split('T')[0] : null, // Convert Date to string
         end_date: input.end_date ? input.end_date.toISOString().split('T')[0] : null // Convert Date to string
@@ -0,0 +1,107 @@
+import { db } from '../db';
+import { rateCardsTable, clientsTable, projectsTable, positionsTable, usersTable } from '../db/schema';
+import { type CreateRateCardInput, type RateCard } from '../schema';
+import { and, eq, gte, isNull, lte, or, type SQL } from 'drizzle-orm';
+
+// Scope columns each level must set; all others must be null
+const REQUIRED_SCOPE: Record<CreateRateCardInput['level'], Array<'client_id' | 'project_id' | 'position_id' | 'user_id'>> = {
+  client: ['client_id'],
+  project: ['project_id'],
+  position: ['position_id'],
+  user_position: ['position_id', 'user_id']
+};
+
+export const createRateCard = async (input: CreateRateCardInput): Promise<RateCard> => {
+  try {
+    const validFrom = input.valid_from.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const validTo = input.valid_to ? input.valid_to.toISOString().split('T')[0] : null;
+
+    if (validTo !== null && validTo < validFrom) {
+      throw new Error('Valid-to date must not be before valid-from date');
+    }
+
+    const required = REQUIRED_SCOPE[input.level];
+    for (const column of ['client_id', 'project_id', 'position_id', 'user_id'] as const) {
+      if (required.includes(column) !== (input[column] !== null)) {
+        throw new Error(`${input.level} rate cards must set exactly ${required.join(' and ')}`);
+      }
+    }
+
+    // Make sure the referenced records exist
+    if (input.client_id !== null) {
+      const client = await db.select().from(clientsTable).where(eq(clientsTable.id, input.client_id)).limit(1).execute();
+      if (client.length === 0) {
+        throw new Error(`Client with ID ${input.client_id} does not exist`);
+      }
+    }
+
+    if (input.project_id !== null) {
+      const project = await db.select().from(projectsTable).where(eq(projectsTable.id, input.project_id)).limit(1).execute();
+      if (project.length === 0) {
+        throw new Error(`Project with ID ${input.project_id} does not exist`);
+      }
+    }
+
+    if (input.position_id !== null) {
+      const position = await db.select().from(positionsTable).where(eq(positionsTable.id, input.position_id)).limit(1).execute();
+      if (position.length === 0) {
+        throw new Error(`Position with ID ${input.position_id} does not exist`);
+      }
+    }
+
+    if (input.user_id !== null) {
+      const user = await db.select().from(usersTable).where(eq(usersTable.id, input.user_id)).limit(1).execute();
+      if (user.length === 0) {
+        throw new Error(`User with ID ${input.user_id} does not exist`);
+      }
+    }
+
+    // Only one card per level and scope may apply on any given day
+    const conditions: SQL<unknown>[] = [
+      eq(rateCardsTable.level, input.level),
+      or(isNull(rateCardsTable.valid_to), gte(rateCardsTable.valid_to, validFrom))!
+    ];
+
+    if (validTo !== null) {
+      conditions.push(lte(rateCardsTable.valid_from, validTo));
+    }
+
+    for (const column of required) {
+      conditions.push(eq(rateCardsTable[column], input[column]!));
+    }
+
+    const overlapping = await db.select()
+      .from(rateCardsTable)
+      .where(and(...conditions))
+      .limit(1)
+      .execute();
+
+    if (overlapping.length > 0) {
+      const existing = overlapping[0];
+      throw new Error(`Rate card overlaps an existing ${input.level} rate card valid from ${existing.valid_from}${existing.valid_to ? ` to ${existing.valid_to}` : ''}`);
+    }
+
+    const result = await db.insert(rateCardsTable)
+      .values({
+        level: input.level,
+        client_id: input.client_id,
+        project_id: input.project_id,
+        position_id: input.position_id,
+        user_id: input.user_id,
+        hourly_rate: input.hourly_rate.toString(), // Convert number to string for numeric column
+        valid_from: validFrom,
+        valid_to: validTo
+      })
+      .returning()
+      .execute();
+
+    const rateCard = result[0];
+    return {
+      ...rateCard,
+      hourly_rate: parseFloat(rateCard.hourly_rate) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Rate card creation failed:', error);
+    throw error;
+  }
+};
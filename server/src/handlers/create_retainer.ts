@@ -0,0 +1,107 @@
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, retainersTable, retainerScopesTable } from '../db/schema';
+import { type CreateRetainerInput, type Retainer } from '../schema';
+import { assertNoOverlappingRetainer, toRetainer } from '../helpers/retainers';
+import { eq, inArray } from 'drizzle-orm';
+
+export const createRetainer = async (input: CreateRetainerInput): Promise<Retainer> => {
+  try {
+    const validFrom = input.valid_from.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const validTo = input.valid_to.toISOString().split('T')[0];
+    const projectIds = Array.from(new Set(input.project_ids));
+    const positionIds = Array.from(new Set(input.position_ids));
+
+    if (validTo < validFrom) {
+      throw new Error('Valid-to date must not be before valid-from date');
+    }
+
+    if ((input.purchased_hours === null) === (input.purchased_amount === null)) {
+      throw new Error('A retainer needs either purchased hours or a purchased amount');
+    }
+
+    if (projectIds.length === 0 && positionIds.length === 0) {
+      throw new Error('A retainer needs at least one project or position to draw from it');
+    }
+
+    return await db.transaction(async (tx) => {
+      const client = await tx.select().from(clientsTable).where(eq(clientsTable.id, input.client_id)).limit(1).execute();
+      if (client.length === 0) {
+        throw new Error(`Client with ID ${input.client_id} does not exist`);
+      }
+
+      const projects = projectIds.length === 0 ? [] : await tx.select()
+        .from(projectsTable)
+        .where(inArray(projectsTable.id, projectIds))
+        .execute();
+
+      const positions = positionIds.length === 0 ? [] : await tx.select({ position: positionsTable, project: projectsTable })
+        .from(positionsTable)
+        .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+        .where(inArray(positionsTable.id, positionIds))
+        .execute();
+
+      for (const projectId of projectIds) {
+        const project = projects.find(item => item.id === projectId);
+        if (!project) {
+          throw new Error(`Project with ID ${projectId} does not exist`);
+        }
+        if (project.client_id !== input.client_id) {
+          throw new Error(`Project with ID ${projectId} does not belong to client with ID ${input.client_id}`);
+        }
+        if (project.billing_model === 'fixed_price') {
+          throw new Error(`Project with ID ${projectId} is fixed-price and cannot draw from a retainer`);
+        }
+      }
+
+      for (const positionId of positionIds) {
+        const match = positions.find(item => item.position.id === positionId);
+        if (!match) {
+          throw new Error(`Position with ID ${positionId} does not exist`);
+        }
+        if (match.project.client_id !== input.client_id) {
+          throw new Error(`Position with ID ${positionId} does not belong to client with ID ${input.client_id}`);
+        }
+        if (match.project.billing_model === 'fixed_price') {
+          throw new Error(`Position with ID ${positionId} is on a fixed-price project and cannot draw from a retainer`);
+        }
+        if (projectIds.includes(match.project.id)) {
+          throw new Error(`Position with ID ${positionId} is already covered by its project`);
+        }
+      }
+
+      await assertNoOverlappingRetainer(tx, {
+        id: null,
+        valid_from: validFrom,
+        valid_to: validTo,
+        project_ids: projectIds,
+        position_ids: positionIds
+      });
+
+      const result = await tx.insert(retainersTable)
+        .values({
+          client_id: input.client_id,
+          name: input.name,
+          purchased_hours: input.purchased_hours?.toString() ?? null, // Convert numbers to strings for numeric columns
+          purchased_amount: input.purchased_amount?.toString() ?? null,
+          valid_from: validFrom,
+          valid_to: validTo,
+          overrun_policy: input.overrun_policy
+        })
+        .returning()
+        .execute();
+
+      const scopes = await tx.insert(retainerScopesTable)
+        .values([
+          ...projectIds.map(projectId => ({ retainer_id: result[0].id, project_id: projectId, position_id: null })),
+          ...positionIds.map(positionId => ({ retainer_id: result[0].id, project_id: null, position_id: positionId }))
+        ])
+        .returning()
+        .execute();
+
+      return toRetainer(result[0], scopes);
+    });
+  } catch (error) {
+    console.error('Retainer creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { skillsTable } from '../db/schema';
+import { type CreateSkillInput, type Skill } from '../schema';
+import { sql } from 'drizzle-orm';
+
+export const createSkill = async (input: CreateSkillInput): Promise<Skill> => {
+  try {
+    // "React" and "react" would split the users who have the skill
+    const existing = await db.select()
+      .from(skillsTable)
+      .where(sql`lower(${skillsTable.name}) = lower(${input.name})`)
+      .limit(1)
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Skill named ${existing[0].name} already exists`);
+    }
+
+    const result = await db.insert(skillsTable)
+      .values({
+        name: input.name,
+        category: input.category
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Skill creation failed:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,10 @@
 import { db } from '../db';
 import { timeEntriesTable, usersTable, positionsTable } from '../db/schema';
 import { type CreateTimeEntryInput, type TimeEntry } from '../schema';
+import { assertTimeEntryEditable } from '../helpers/time_entry_guards';
+import { assertAssigned } from '../helpers/assignments';
+import { assertRetainerAllows } from '../helpers/retainers';
+import { checkBudgetThresholds } from './check_budget_thresholds';
 import { eq } from 'drizzle-orm';
 
 export const createTimeEntry = async (input: CreateTimeEntryInput): Promise<TimeEntry> => {
@@ -27,6 +31,23 @@ export const createTimeEntry = async (input: CreateTimeEntryInput): Promise<Time
       throw new Error(`Position with ID ${input.position_id} does not exist`);
     }
 
+    const dateString = input.date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    // Locked periods and submitted or approved weeks are frozen
+    await assertTimeEntryEditable(db, input.user_id, dateString);
+
+    // Users only book positions they are assigned to on that day
+    await assertAssigned(db, input.user_id, input.position_id, dateString);
+
+    // Retainers that block overruns reject bookings beyond what is left
+    await assertRetainerAllows(db, {
+      user_id: input.user_id,
+      position_id: input.position_id,
+      date: dateString,
+      hours: input.hours,
+      billable: input.billable
+    });
+
     // Insert time entry record
     const result = await db.insert(timeEntriesTable)
       .values({
@@ -34,7 +55,7 @@ export const createTimeEntry = async (input: CreateTimeEntryInput): Promise<Time
         position_id: input.position_id,
         description: input.description,
         hours: input.hours.toString(), // Convert number to string for numeric column
-        date: input.date.toISOString().split('T')[0], // Convert Date to YYYY-MM-DD string
+        date: dateString,
         billable: input.billable // Boolean column - no conversion needed
       })
       .returning()
@@ -42,6 +63,10 @@ export const createTimeEntry = async (input: CreateTimeEntryInput): Promise<Time
 
     // Convert numeric fields and date back to proper types before returning
     const timeEntry = result[0];
+
+    // Alerting never fails a booking that is already saved; the check logs its own errors
+    await checkBudgetThresholds({ position_id: timeEntry.position_id, time_entry_id: timeEntry.id }).catch(() => undefined);
+
     return {
       ...timeEntry,
       hours: parseFloat(timeEntry.hours), // Convert string back to number
@@ -1,6 +1,8 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
+import { hashPassword } from '../helpers/auth';
+import { toUser } from '../helpers/users';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
   try {
@@ -10,17 +12,13 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
         email: input.email,
         name: input.name,
         role: input.role,
-        hourly_rate: input.hourly_rate ? input.hourly_rate.toString() : null // Convert number to string for numeric column
+        hourly_rate: input.hourly_rate ? input.hourly_rate.toString() : null, // Convert number to string for numeric column
+        password_hash: input.password ? await hashPassword(input.password) : null
       })
       .returning()
       .execute();
 
-    // Convert numeric fields back to numbers before returning
-    const user = result[0];
-    return {
-      ...user,
-      hourly_rate: user.hourly_rate ? parseFloat(user.hourly_rate) : null // Convert string back to number
-    };
+    return toUser(result[0]);
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
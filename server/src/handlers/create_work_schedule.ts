@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { usersTable, workSchedulesTable } from '../db/schema';
+import { type CreateWorkScheduleInput, type WorkSchedule } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+export const createWorkSchedule = async (input: CreateWorkScheduleInput): Promise<WorkSchedule> => {
+  try {
+    const effectiveFrom = input.effective_from.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const existing = await db.select()
+      .from(workSchedulesTable)
+      .where(and(
+        eq(workSchedulesTable.user_id, input.user_id),
+        eq(workSchedulesTable.effective_from, effectiveFrom)
+      ))
+      .limit(1)
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`User ${input.user_id} already has a work schedule effective from ${effectiveFrom}`);
+    }
+
+    const result = await db.insert(workSchedulesTable)
+      .values({
+        user_id: input.user_id,
+        weekly_hours: input.weekly_hours.toString(), // Convert number to string for numeric column
+        working_days: Array.from(new Set(input.working_days)).sort((a, b) => a - b),
+        effective_from: effectiveFrom
+      })
+      .returning()
+      .execute();
+
+    const schedule = result[0];
+    return {
+      ...schedule,
+      weekly_hours: parseFloat(schedule.weekly_hours) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Work schedule creation failed:', error);
+    throw error;
+  }
+};
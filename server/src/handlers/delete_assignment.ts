@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { assignmentsTable } from '../db/schema';
+import { type DeleteAssignmentInput, type Assignment } from '../schema';
+import { loadAssignments } from '../helpers/assignments';
+import { eq } from 'drizzle-orm';
+
+// Time booked while the user was assigned stays; the position just cannot be booked anymore
+export const deleteAssignment = async (input: DeleteAssignmentInput): Promise<Assignment> => {
+  try {
+    const existing = await loadAssignments(db, eq(assignmentsTable.id, input.assignment_id));
+    if (existing.length === 0) {
+      throw new Error(`Assignment with ID ${input.assignment_id} does not exist`);
+    }
+
+    await db.delete(assignmentsTable)
+      .where(eq(assignmentsTable.id, input.assignment_id))
+      .execute();
+
+    return existing[0];
+  } catch (error) {
+    console.error('Assignment deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { type DeleteExchangeRateInput, type ExchangeRate } from '../schema';
+import { toExchangeRate } from '../helpers/currency';
+import { eq } from 'drizzle-orm';
+
+// Amounts dated after the rate fall back to the pair's previous rate; invoices keep theirs
+export const deleteExchangeRate = async (input: DeleteExchangeRateInput): Promise<ExchangeRate> => {
+  try {
+    const result = await db.delete(exchangeRatesTable)
+      .where(eq(exchangeRatesTable.id, input.exchange_rate_id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Exchange rate with ID ${input.exchange_rate_id} does not exist`);
+    }
+
+    return toExchangeRate(result[0]);
+  } catch (error) {
+    console.error('Exchange rate deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { expensesTable } from '../db/schema';
+import { type DeleteExpenseInput, type Expense } from '../schema';
+import { assertPeriodOpen } from '../helpers/period_lock';
+import { assertExpenseNotInvoiced, toExpense } from '../helpers/expenses';
+import { deleteReceipt } from '../helpers/receipts';
+import { eq } from 'drizzle-orm';
+
+export const deleteExpense = async (input: DeleteExpenseInput): Promise<Expense> => {
+  try {
+    const expense = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(expensesTable)
+        .where(eq(expensesTable.id, input.id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Expense with ID ${input.id} does not exist`);
+      }
+
+      assertExpenseNotInvoiced(existing[0]);
+      await assertPeriodOpen(tx, existing[0].date);
+
+      await tx.delete(expensesTable)
+        .where(eq(expensesTable.id, input.id))
+        .execute();
+
+      return existing[0];
+    });
+
+    if (expense.receipt_path) {
+      await deleteReceipt(expense.receipt_path);
+    }
+
+    return toExpense(expense);
+  } catch (error) {
+    console.error('Expense deletion failed:', error);
+    throw error;
+  }
+};
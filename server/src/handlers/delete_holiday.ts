@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { holidaysTable } from '../db/schema';
+import { type DeleteHolidayInput, type Holiday } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const deleteHoliday = async (input: DeleteHolidayInput): Promise<Holiday> => {
+  try {
+    const result = await db.delete(holidaysTable)
+      .where(eq(holidaysTable.id, input.holiday_id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Holiday with ID ${input.holiday_id} does not exist`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Holiday deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { timeEntriesTable, timeEntryRevisionsTable, usersTable } from '../db/schema';
+import { type DeleteTimeEntryInput, type TimeEntry } from '../schema';
+import { toTimeEntrySnapshot } from '../helpers/time_entry_snapshot';
+import { assertTimeEntryEditable, assertTimeEntryNotInvoiced } from '../helpers/time_entry_guards';
+import { eq } from 'drizzle-orm';
+
+export const deleteTimeEntry = async (input: DeleteTimeEntryInput): Promise<TimeEntry> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Load the entry before removing it
+      const existing = await tx.select()
+        .from(timeEntriesTable)
+        .where(eq(timeEntriesTable.id, input.id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Time entry with ID ${input.id} does not exist`);
+      }
+
+      assertTimeEntryNotInvoiced(existing[0]);
+      await assertTimeEntryEditable(tx, existing[0].user_id, existing[0].date);
+
+      // Verify that the user making the change exists
+      const changer = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.changed_by))
+        .limit(1)
+        .execute();
+
+      if (changer.length === 0) {
+        throw new Error(`User with ID ${input.changed_by} does not exist`);
+      }
+
+      // Record the revision first so the history keeps the deleted values
+      await tx.insert(timeEntryRevisionsTable)
+        .values({
+          time_entry_id: input.id,
+          action: 'delete',
+          changed_by: input.changed_by,
+          before: toTimeEntrySnapshot(existing[0]),
+          after: null
+        })
+        .execute();
+
+      await tx.delete(timeEntriesTable)
+        .where(eq(timeEntriesTable.id, input.id))
+        .execute();
+
+      const timeEntry = existing[0];
+      return {
+        ...timeEntry,
+        hours: parseFloat(timeEntry.hours), // Convert string back to number
+        date: new Date(timeEntry.date) // Convert string back to Date
+      };
+    });
+  } catch (error) {
+    console.error('Time entry deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { emailOutboxTable } from '../db/schema';
+import { type EmailDeliveryResult } from '../schema';
+import { MAX_EMAIL_ATTEMPTS, deliverEmail } from '../helpers/email';
+import { and, asc, eq, inArray, lt } from 'drizzle-orm';
+
+// Delivers queued emails oldest first; failed ones are retried on later runs
+export const deliverEmails = async (): Promise<EmailDeliveryResult> => {
+  try {
+    const pending = await db.select()
+      .from(emailOutboxTable)
+      .where(and(
+        inArray(emailOutboxTable.status, ['pending', 'failed']),
+        lt(emailOutboxTable.attempts, MAX_EMAIL_ATTEMPTS)
+      ))
+      .orderBy(asc(emailOutboxTable.id))
+      .execute();
+
+    const result: EmailDeliveryResult = { sent: 0, failed: 0 };
+
+    for (const email of pending) {
+      try {
+        await deliverEmail(email);
+        await db.update(emailOutboxTable)
+          .set({ status: 'sent', attempts: email.attempts + 1, last_error: null, sent_at: new Date() })
+          .where(eq(emailOutboxTable.id, email.id))
+          .execute();
+        result.sent++;
+      } catch (deliveryError) {
+        await db.update(emailOutboxTable)
+          .set({
+            status: 'failed',
+            attempts: email.attempts + 1,
+            last_error: deliveryError instanceof Error ? deliveryError.message : String(deliveryError)
+          })
+          .where(eq(emailOutboxTable.id, email.id))
+          .execute();
+        result.failed++;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Email delivery failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { costRatesTable } from '../db/schema';
+import { type EndCostRateInput, type CostRate } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Closes an open-ended or later-ending cost rate so a new one can take over
+export const endCostRate = async (input: EndCostRateInput): Promise<CostRate> => {
+  try {
+    const validTo = input.valid_to.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    const existing = await db.select()
+      .from(costRatesTable)
+      .where(eq(costRatesTable.id, input.cost_rate_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Cost rate with ID ${input.cost_rate_id} does not exist`);
+    }
+
+    const costRate = existing[0];
+    if (validTo < costRate.valid_from) {
+      throw new Error(`Cost rate with ID ${costRate.id} starts on ${costRate.valid_from} and cannot end before it`);
+    }
+
+    if (costRate.valid_to !== null && validTo > costRate.valid_to) {
+      throw new Error(`Cost rate with ID ${costRate.id} already ends on ${costRate.valid_to}`);
+    }
+
+    const result = await db.update(costRatesTable)
+      .set({ valid_to: validTo })
+      .where(eq(costRatesTable.id, costRate.id))
+      .returning()
+      .execute();
+
+    return {
+      ...result[0],
+      hourly_cost: parseFloat(result[0].hourly_cost) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Cost rate end failed:', error);
+    throw error;
+  }
+};
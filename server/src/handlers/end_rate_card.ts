@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { rateCardsTable } from '../db/schema';
+import { type EndRateCardInput, type RateCard } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Closes an open-ended or later-ending rate card so a new rate can take over
+export const endRateCard = async (input: EndRateCardInput): Promise<RateCard> => {
+  try {
+    const validTo = input.valid_to.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    const existing = await db.select()
+      .from(rateCardsTable)
+      .where(eq(rateCardsTable.id, input.rate_card_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Rate card with ID ${input.rate_card_id} does not exist`);
+    }
+
+    const rateCard = existing[0];
+    if (validTo < rateCard.valid_from) {
+      throw new Error(`Rate card with ID ${rateCard.id} starts on ${rateCard.valid_from} and cannot end before it`);
+    }
+
+    if (rateCard.valid_to !== null && validTo > rateCard.valid_to) {
+      throw new Error(`Rate card with ID ${rateCard.id} already ends on ${rateCard.valid_to}`);
+    }
+
+    const result = await db.update(rateCardsTable)
+      .set({ valid_to: validTo })
+      .where(eq(rateCardsTable.id, rateCard.id))
+      .returning()
+      .execute();
+
+    return {
+      ...result[0],
+      hourly_rate: parseFloat(result[0].hourly_rate) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Rate card end failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { invoicesTable, timeEntriesTable } from '../db/schema';
+import { type FinalizeInvoiceInput, type Invoice } from '../schema';
+import { toInvoice } from '../helpers/invoice';
+import { eq, like } from 'drizzle-orm';
+
+// Numbers a draft invoice and marks its time entries as billed
+export const finalizeInvoice = async (input: FinalizeInvoiceInput): Promise<Invoice> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(invoicesTable)
+        .where(eq(invoicesTable.id, input.invoice_id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Invoice with ID ${input.invoice_id} does not exist`);
+      }
+
+      if (existing[0].status !== 'draft') {
+        throw new Error(`Invoice with ID ${input.invoice_id} is ${existing[0].status}; only drafts can be finalized`);
+      }
+
+      const now = new Date();
+
+      // Numbers run per calendar year: INV-2024-0001, INV-2024-0002, ...
+      const prefix = `INV-${now.getUTCFullYear()}-`;
+      const numbered = await tx.select({ number: invoicesTable.number })
+        .from(invoicesTable)
+        .where(like(invoicesTable.number, `${prefix}%`))
+        .execute();
+      const sequence = numbered.reduce((max, invoice) => Math.max(max, parseInt(invoice.number!.slice(prefix.length))), 0) + 1;
+
+      const updated = await tx.update(invoicesTable)
+        .set({
+          status: 'finalized',
+          number: `${prefix}${sequence.toString().padStart(4, '0')}`,
+          finalized_at: now,
+          updated_at: now
+        })
+        .where(eq(invoicesTable.id, input.invoice_id))
+        .returning()
+        .execute();
+
+      await tx.update(timeEntriesTable)
+        .set({ billed_at: now })
+        .where(eq(timeEntriesTable.invoice_id, input.invoice_id))
+        .execute();
+
+      return toInvoice(updated[0]);
+    });
+  } catch (error) {
+    console.error('Invoice finalization failed:', error);
+    throw error;
+  }
+};
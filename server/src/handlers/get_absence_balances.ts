@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { absenceAllowancesTable } from '../db/schema';
+import { absenceTypeSchema, type GetAbsenceBalancesInput, type AbsenceBalance } from '../schema';
+import { getAbsenceDaysInYear } from '../helpers/absence';
+import { and, eq } from 'drizzle-orm';
+
+// One balance per absence type for the user's year
+export const getAbsenceBalances = async (input: GetAbsenceBalancesInput): Promise<AbsenceBalance[]> => {
+  try {
+    const allowances = await db.select()
+      .from(absenceAllowancesTable)
+      .where(and(
+        eq(absenceAllowancesTable.user_id, input.user_id),
+        eq(absenceAllowancesTable.year, input.year)
+      ))
+      .execute();
+
+    const balances: AbsenceBalance[] = [];
+
+    for (const type of absenceTypeSchema.options) {
+      const allowance = allowances.find(candidate => candidate.type === type);
+      const allowanceDays = allowance ? parseFloat(allowance.days) : null; // Convert numeric field to number
+      const { used_days, pending_days } = await getAbsenceDaysInYear(db, input.user_id, type, input.year);
+
+      balances.push({
+        type,
+        allowance_days: allowanceDays,
+        used_days,
+        pending_days,
+        remaining_days: allowanceDays !== null ? allowanceDays - used_days - pending_days : null
+      });
+    }
+
+    return balances;
+  } catch (error) {
+    console.error('Failed to get absence balances:', error);
+    throw error;
+  }
+};
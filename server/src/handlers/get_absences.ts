@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { absencesTable } from '../db/schema';
+import { type GetAbsencesInput, type Absence } from '../schema';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+
+export const getAbsences = async (input: GetAbsencesInput): Promise<Absence[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(absencesTable.user_id, input.user_id));
+    }
+
+    if (input.status) {
+      conditions.push(eq(absencesTable.status, input.status));
+    }
+
+    // Keep absences overlapping the requested range
+    if (input.start_date) {
+      conditions.push(gte(absencesTable.end_date, input.start_date.toISOString().split('T')[0]));
+    }
+
+    if (input.end_date) {
+      conditions.push(lte(absencesTable.start_date, input.end_date.toISOString().split('T')[0]));
+    }
+
+    const results = await db.select()
+      .from(absencesTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(absencesTable.start_date), absencesTable.user_id)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get absences:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { activeTimersTable } from '../db/schema';
+import { type TimerActionInput, type ActiveTimer } from '../schema';
+import { toActiveTimer } from '../helpers/active_timer';
+import { eq } from 'drizzle-orm';
+
+export const getActiveTimer = async (input: TimerActionInput): Promise<ActiveTimer | null> => {
+  try {
+    const result = await db.select()
+      .from(activeTimersTable)
+      .where(eq(activeTimersTable.user_id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return toActiveTimer(result[0]);
+  } catch (error) {
+    console.error('Failed to get active timer:', error);
+    throw error;
+  }
+};
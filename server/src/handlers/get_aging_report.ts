@@ -0,0 +1,110 @@
+import { db } from '../db';
+import { clientsTable, invoicesTable, paymentsTable } from '../db/schema';
+import { type AgingReportInput, type AgingReportRow } from '../schema';
+import { getReportingRate } from '../helpers/invoice';
+import { and, asc, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Buckets each client's outstanding balance by how many days ago the invoice was sent,
+ * as of the given date. Only invoices sent by then count, less payments received by
+ * then, so the report can be re-run for a past month end. Buckets are in the client's
+ * currency; the reporting currency totals convert each invoice at its exchange rate.
+ */
+export const getAgingReport = async (input: AgingReportInput): Promise<AgingReportRow[]> => {
+  try {
+    const asOf = (input.as_of ?? new Date()).toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    // Paid invoices are included because they may still have been open on a past date
+    const invoices = await db.select({
+      id: invoicesTable.id,
+      client_id: invoicesTable.client_id,
+      client_name: clientsTable.name,
+      currency: invoicesTable.currency,
+      exchange_rate: invoicesTable.exchange_rate,
+      total: invoicesTable.total,
+      sent_on: invoicesTable.sent_on,
+      due_date: invoicesTable.due_date
+    })
+      .from(invoicesTable)
+      .innerJoin(clientsTable, eq(invoicesTable.client_id, clientsTable.id))
+      .where(and(
+        inArray(invoicesTable.status, ['sent', 'partially_paid', 'paid']),
+        isNotNull(invoicesTable.sent_on),
+        lte(invoicesTable.sent_on, asOf)
+      ))
+      .orderBy(asc(clientsTable.name))
+      .execute();
+
+    if (invoices.length === 0) {
+      return [];
+    }
+
+    const payments = await db.select({ invoice_id: paymentsTable.invoice_id, amount: paymentsTable.amount })
+      .from(paymentsTable)
+      .where(and(
+        inArray(paymentsTable.invoice_id, invoices.map(invoice => invoice.id)),
+        lte(paymentsTable.paid_on, asOf)
+      ))
+      .execute();
+
+    // Work in cents to avoid floating point drift
+    const paidCents = new Map<number, number>();
+    for (const payment of payments) {
+      paidCents.set(payment.invoice_id, (paidCents.get(payment.invoice_id) ?? 0) + Math.round(parseFloat(payment.amount) * 100));
+    }
+
+    const rows = new Map<number, { row: AgingReportRow; cents: number[]; reporting: Array<number | null> }>();
+    for (const invoice of invoices) {
+      const outstanding = Math.round(parseFloat(invoice.total) * 100) - (paidCents.get(invoice.id) ?? 0);
+      if (outstanding <= 0) continue;
+
+      const age = Math.round((Date.parse(asOf) - Date.parse(invoice.sent_on!)) / DAY_MS);
+      const bucket = age <= 30 ? 0 : age <= 60 ? 1 : age <= 90 ? 2 : 3;
+      const overdue = invoice.due_date !== null && invoice.due_date < asOf;
+
+      const entry = rows.get(invoice.client_id) ?? {
+        row: {
+          client_id: invoice.client_id,
+          client_name: invoice.client_name,
+          days_0_30: 0,
+          days_31_60: 0,
+          days_61_90: 0,
+          days_over_90: 0,
+          total_outstanding: 0,
+          overdue_amount: 0,
+          currency: invoice.currency,
+          total_outstanding_reporting: null,
+          overdue_amount_reporting: null
+        },
+        cents: [0, 0, 0, 0, 0], // Four buckets, then the overdue part
+        reporting: [0, 0] // Total and overdue part in the reporting currency
+      };
+      entry.cents[bucket] += outstanding;
+      if (overdue) entry.cents[4] += outstanding;
+
+      const rate = getReportingRate(invoice);
+      entry.reporting = entry.reporting.map((value, index) => {
+        if (index === 1 && !overdue) return value;
+        return value !== null && rate !== null ? value + outstanding * rate : null;
+      });
+      rows.set(invoice.client_id, entry);
+    }
+
+    return Array.from(rows.values()).map(({ row, cents, reporting }) => ({
+      ...row,
+      days_0_30: cents[0] / 100,
+      days_31_60: cents[1] / 100,
+      days_61_90: cents[2] / 100,
+      days_over_90: cents[3] / 100,
+      total_outstanding: (cents[0] + cents[1] + cents[2] + cents[3]) / 100,
+      overdue_amount: cents[4] / 100,
+      total_outstanding_reporting: reporting[0] !== null ? Math.round(reporting[0]) / 100 : null,
+      overdue_amount_reporting: reporting[1] !== null ? Math.round(reporting[1]) / 100 : null
+    }));
+  } catch (error) {
+    console.error('Aging report generation failed:', error);
+    throw error;
+  }
+};
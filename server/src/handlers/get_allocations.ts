@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { allocationsTable, positionsTable } from '../db/schema';
+import { type GetAllocationsInput, type Allocation } from '../schema';
+import { loadAllocations } from '../helpers/allocations';
+import { getWeekStart, toDateString } from '../helpers/week';
+import { and, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+export const getAllocations = async (input: GetAllocationsInput): Promise<Allocation[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [
+      gte(allocationsTable.week_start, getWeekStart(input.start_date)),
+      lte(allocationsTable.week_start, toDateString(input.end_date))
+    ];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(allocationsTable.user_id, input.user_id));
+    }
+
+    if (input.position_id !== undefined) {
+      conditions.push(eq(allocationsTable.position_id, input.position_id));
+    }
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(positionsTable.project_id, input.project_id));
+    }
+
+    return await loadAllocations(db, and(...conditions));
+  } catch (error) {
+    console.error('Failed to get allocations:', error);
+    throw error;
+  }
+};
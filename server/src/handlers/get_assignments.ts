@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { assignmentsTable, positionsTable } from '../db/schema';
+import { type GetAssignmentsInput, type Assignment } from '../schema';
+import { activeOn, loadAssignments } from '../helpers/assignments';
+import { toDateString } from '../helpers/week';
+import { and, eq, type SQL } from 'drizzle-orm';
+
+export const getAssignments = async (input: GetAssignmentsInput): Promise<Assignment[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(assignmentsTable.user_id, input.user_id));
+    }
+
+    if (input.position_id !== undefined) {
+      conditions.push(eq(assignmentsTable.position_id, input.position_id));
+    }
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(positionsTable.project_id, input.project_id));
+    }
+
+    if (input.active_on !== undefined) {
+      conditions.push(activeOn(toDateString(input.active_on)));
+    }
+
+    return await loadAssignments(db, conditions.length > 0 ? and(...conditions) : undefined);
+  } catch (error) {
+    console.error('Failed to get assignments:', error);
+    throw error;
+  }
+};
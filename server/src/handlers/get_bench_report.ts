@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { timeEntriesTable, usersTable } from '../db/schema';
+import { type BenchReportInput, type BenchReport, type BenchReportRow } from '../schema';
+import { getPlannedHoursByWeek } from '../helpers/allocations';
+import { getWeeklyCapacity } from '../helpers/capacity';
+import { loadUserSkills } from '../helpers/skills';
+import { getWeekEnd, getWeekStart, getWeekStarts } from '../helpers/week';
+import { and, asc, eq, gte, lte, sum } from 'drizzle-orm';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Consultants with little planned or booked work in the coming weeks. Each week counts
+ * the larger of planned and booked hours, so time booked without a plan is not free.
+ * Consultants without capacity in the period, e.g. on leave throughout, are not listed.
+ */
+export const getBenchReport = async (input: BenchReportInput): Promise<BenchReport> => {
+  try {
+    const weeks = getWeekStarts(input.start_date ?? new Date(), input.weeks);
+    const firstWeek = weeks[0];
+    const lastWeek = weeks[weeks.length - 1];
+
+    const consultants = await db.select({ id: usersTable.id, name: usersTable.name })
+      .from(usersTable)
+      .where(eq(usersTable.role, 'consultant'))
+      .orderBy(asc(usersTable.name))
+      .execute();
+
+    const planned = await getPlannedHoursByWeek(db, firstWeek, lastWeek);
+
+    const bookings = await db.select({
+      user_id: timeEntriesTable.user_id,
+      date: timeEntriesTable.date,
+      hours: sum(timeEntriesTable.hours)
+    })
+      .from(timeEntriesTable)
+      .where(and(
+        gte(timeEntriesTable.date, firstWeek),
+        lte(timeEntriesTable.date, getWeekEnd(lastWeek))
+      ))
+      .groupBy(timeEntriesTable.user_id, timeEntriesTable.date)
+      .execute();
+
+    const skills = await loadUserSkills(db);
+
+    const rows: BenchReportRow[] = [];
+
+    for (const consultant of consultants) {
+      const capacity = await getWeeklyCapacity(db, consultant.id, weeks);
+      const plannedByWeek = planned.get(consultant.id) ?? new Map<string, number>();
+
+      const booked = new Map<string, number>();
+      for (const booking of bookings.filter(row => row.user_id === consultant.id)) {
+        const week = getWeekStart(new Date(booking.date));
+        booked.set(week, (booked.get(week) ?? 0) + (booking.hours ? parseFloat(booking.hours) : 0)); // Convert string back to number
+      }
+
+      const weekFigures = weeks.map(week => ({
+        week_start: week,
+        capacity_hours: round(capacity.get(week) ?? 0),
+        planned_hours: round(plannedByWeek.get(week) ?? 0),
+        booked_hours: round(booked.get(week) ?? 0)
+      }));
+
+      const total = (field: 'capacity_hours' | 'planned_hours' | 'booked_hours') =>
+        round(weekFigures.reduce((sum, week) => sum + week[field], 0));
+      const usedHours = weekFigures.reduce((sum, week) => sum + Math.min(week.capacity_hours, Math.max(week.planned_hours, week.booked_hours)), 0);
+      const capacityHours = total('capacity_hours');
+
+      if (capacityHours === 0) {
+        continue;
+      }
+
+      const utilizationPercent = Math.round((usedHours / capacityHours) * 10000) / 100;
+      if (utilizationPercent >= input.threshold_percent) {
+        continue;
+      }
+
+      rows.push({
+        user_id: consultant.id,
+        user_name: consultant.name,
+        capacity_hours: capacityHours,
+        planned_hours: total('planned_hours'),
+        booked_hours: total('booked_hours'),
+        free_hours: round(capacityHours - usedHours),
+        utilization_percent: utilizationPercent,
+        weeks: weekFigures,
+        skills: skills
+          .filter(skill => skill.user_id === consultant.id)
+          .map(skill => ({ skill_name: skill.skill_name, level: skill.level }))
+      });
+    }
+
+    rows.sort((a, b) => b.free_hours - a.free_hours || a.user_name.localeCompare(b.user_name));
+
+    return {
+      weeks,
+      threshold_percent: input.threshold_percent,
+      rows
+    };
+  } catch (error) {
+    console.error('Bench report generation failed:', error);
+    throw error;
+  }
+};
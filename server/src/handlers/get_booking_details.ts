@@ -1,7 +1,10 @@
 import { db } from '../db';
 import { timeEntriesTable, positionsTable, projectsTable, clientsTable } from '../db/schema';
 import { type BookingDetailsInput } from '../schema';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { isInApprovedWeek } from '../helpers/timesheet_status';
+import { createRateResolver } from '../helpers/rates';
+import { createCurrencyConverter, reportingCurrency } from '../helpers/currency';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
 import { z } from 'zod';
 
 // Booking details response type
@@ -15,7 +18,11 @@ export const bookingDetailsSchema = z.object({
         client_name: z.string(),
         description: z.string().nullable(),
         hours: z.number(),
-        billable: z.boolean()
+        billable: z.boolean(),
+        hourly_rate: z.number().nullable(), // Null when no rate applies on the entry's date
+        amount: z.number().nullable(),
+        currency: z.string(), // The client's; hourly_rate and amount are in it
+        amount_reporting: z.number().nullable() // At the rate of the entry's date; null without amount or exchange rate
     }))
 });
 
@@ -23,29 +30,41 @@ export type BookingDetails = z.infer<typeof bookingDetailsSchema>;
 
 export const getBookingDetails = async (input: BookingDetailsInput): Promise<BookingDetails[]> => {
     try {
+        const conditions: SQL<unknown>[] = [
+            eq(timeEntriesTable.user_id, input.user_id),
+            gte(timeEntriesTable.date, input.start_date.toISOString().split('T')[0]),
+            lte(timeEntriesTable.date, input.end_date.toISOString().split('T')[0])
+        ];
+
+        if (input.approved_only) {
+            conditions.push(isInApprovedWeek());
+        }
+
         // Query time entries with full hierarchy information
         const results = await db.select({
             id: timeEntriesTable.id,
+            user_id: timeEntriesTable.user_id,
+            position_id: timeEntriesTable.position_id,
             date: timeEntriesTable.date,
             hours: timeEntriesTable.hours,
             description: timeEntriesTable.description,
             billable: timeEntriesTable.billable,
             position_name: positionsTable.name,
             project_name: projectsTable.name,
-            client_name: clientsTable.name
+            client_name: clientsTable.name,
+            currency: clientsTable.currency
         })
         .from(timeEntriesTable)
         .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
         .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
         .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
-        .where(and(
-            eq(timeEntriesTable.user_id, input.user_id),
-            gte(timeEntriesTable.date, input.start_date.toISOString().split('T')[0]),
-            lte(timeEntriesTable.date, input.end_date.toISOString().split('T')[0])
-        ))
+        .where(and(...conditions))
         .orderBy(desc(timeEntriesTable.date))
         .execute();
 
+        const resolveRate = await createRateResolver(db, results);
+        const convert = await createCurrencyConverter(db);
+
         // Group entries by date
         const entriesByDate = new Map<string, typeof results>();
         
@@ -66,15 +85,25 @@ export const getBookingDetails = async (input: BookingDetailsInput): Promise<Boo
             bookingDetails.push({
                 date: new Date(dateString),
                 total_hours: totalHours,
-                entries: entries.map(entry => ({
-                    time_entry_id: entry.id,
-                    position_name: entry.position_name,
-                    project_name: entry.project_name,
-                    client_name: entry.client_name,
-                    description: entry.description,
-                    hours: parseFloat(entry.hours), // Convert numeric field to number
-                    billable: entry.billable
-                }))
+                entries: entries.map(entry => {
+                    const hours = parseFloat(entry.hours); // Convert numeric field to number
+                    const rate = resolveRate(entry);
+                    const amount = rate ? hours * rate.hourly_rate : null;
+                    const amountReporting = amount !== null ? convert(amount, entry.currency, reportingCurrency(), entry.date) : null;
+                    return {
+                        time_entry_id: entry.id,
+                        position_name: entry.position_name,
+                        project_name: entry.project_name,
+                        client_name: entry.client_name,
+                        description: entry.description,
+                        hours,
+                        billable: entry.billable,
+                        hourly_rate: rate ? rate.hourly_rate : null,
+                        amount,
+                        currency: entry.currency,
+                        amount_reporting: amountReporting !== null ? Math.round(amountReporting * 100) / 100 : null
+                    };
+                })
             });
         }
 
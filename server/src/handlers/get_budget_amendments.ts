@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { budgetAmendmentsTable, projectsTable } from '../db/schema';
+import { type GetBudgetAmendmentsInput, type BudgetAmendment } from '../schema';
+import { toBudgetAmendment } from '../helpers/budget_amendment_review';
+import { and, desc, eq, inArray, type SQL } from 'drizzle-orm';
+
+// Amendment history, newest first
+export const getBudgetAmendments = async (input: GetBudgetAmendmentsInput): Promise<BudgetAmendment[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.client_id !== undefined) {
+      const clientProjects = db.select({ id: projectsTable.id })
+        .from(projectsTable)
+        .where(eq(projectsTable.client_id, input.client_id));
+      conditions.push(inArray(budgetAmendmentsTable.project_id, clientProjects));
+    }
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(budgetAmendmentsTable.project_id, input.project_id));
+    }
+
+    if (input.position_id !== undefined) {
+      conditions.push(eq(budgetAmendmentsTable.position_id, input.position_id));
+    }
+
+    if (input.status !== undefined) {
+      conditions.push(eq(budgetAmendmentsTable.status, input.status));
+    }
+
+    const results = await db.select()
+      .from(budgetAmendmentsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(budgetAmendmentsTable.created_at), desc(budgetAmendmentsTable.id))
+      .execute();
+
+    return results.map(toBudgetAmendment);
+  } catch (error) {
+    console.error('Budget amendment retrieval failed:', error);
+    throw error;
+  }
+};
@@ -2,17 +2,18 @@ import { db } from '../db';
 import { 
   clientsTable, 
   projectsTable, 
-  positionsTable, 
-  timeEntriesTable, 
-  usersTable 
+  positionsTable
 } from '../db/schema';
-import { type BudgetConsumptionInput } from '../schema';
+import { budgetAmendmentSchema, type BudgetConsumptionInput, type GetBudgetAmendmentsInput } from '../schema';
+import { measureConsumption, measureProject, burnInReportingCurrency, type BurnAmount } from '../helpers/budget';
+import { createCurrencyConverter, reportingCurrency } from '../helpers/currency';
+import { getBudgetAmendments } from './get_budget_amendments';
 import { z } from 'zod';
-import { eq, and, isNotNull, sum, SQL } from 'drizzle-orm';
+import { eq, isNotNull } from 'drizzle-orm';
 
-// Budget consumption report response type
-export const budgetConsumptionReportSchema = z.object({
-    entity_type: z.enum(['client', 'project', 'position']),
+// One child of a reported client or project, in the parent's currency
+export const budgetBreakdownRowSchema = z.object({
+    entity_type: z.enum(['project', 'position']),
     entity_id: z.number(),
     entity_name: z.string(),
     total_budget: z.number().nullable(),
@@ -21,6 +22,30 @@ export const budgetConsumptionReportSchema = z.object({
     remaining_budget: z.number().nullable()
 });
 
+export type BudgetBreakdownRow = z.infer<typeof budgetBreakdownRowSchema>;
+
+// Budget consumption report response type
+export const budgetConsumptionReportSchema = z.object({
+    entity_type: z.enum(['client', 'project', 'position']),
+    entity_id: z.number(),
+    entity_name: z.string(),
+    total_budget: z.number().nullable(), // Effective budget, amendments included
+    original_budget: z.number().nullable(), // Before approved amendments
+    consumed_amount: z.number(), // Priced time plus billable expenses; effort cost on fixed-price projects
+    expense_amount: z.number(), // Billable expenses included in consumed_amount
+    unpriced_hours: z.number(), // Hours no rate applies to, left out of consumed_amount
+    unconverted_expenses: z.number(), // Billable expenses without an exchange rate, left out of consumed_amount
+    consumption_rate: z.number(), // Percentage
+    remaining_budget: z.number().nullable(),
+    earned_value: z.number().nullable(), // Completed milestones of fixed-price projects; null without any
+    amendments: z.array(budgetAmendmentSchema), // Requested, approved and rejected, newest first
+    breakdown: z.array(budgetBreakdownRowSchema), // The client's projects or the project's positions; empty for positions
+    currency: z.string(), // The client's; all amounts above are in it
+    reporting_currency: z.string(),
+    total_budget_reporting: z.number().nullable(), // At today's rate; null without budget or rate
+    consumed_amount_reporting: z.number().nullable() // Each booking at the rate of its date; null when a rate is missing
+});
+
 export type BudgetConsumptionReport = z.infer<typeof budgetConsumptionReportSchema>;
 
 export const getBudgetConsumption = async (input: BudgetConsumptionInput): Promise<BudgetConsumptionReport[]> => {
@@ -61,34 +86,72 @@ export const getBudgetConsumption = async (input: BudgetConsumptionInput): Promi
   }
 };
 
+// The effective budget minus its approved deltas is the budget the entity started with
+async function getAmendmentHistory(filter: GetBudgetAmendmentsInput, totalBudget: number | null) {
+  const amendments = await getBudgetAmendments(filter);
+  const approvedDelta = amendments
+    .filter(amendment => amendment.status === 'approved')
+    .reduce((total, amendment) => total + amendment.delta, 0);
+
+  return {
+    original_budget: totalBudget !== null ? Math.round((totalBudget - approvedDelta) * 100) / 100 : null,
+    amendments
+  };
+}
+
+function toBreakdownRow(
+  entityType: BudgetBreakdownRow['entity_type'],
+  entity: { id: number; name: string },
+  totalBudget: number | null,
+  consumedAmount: number
+): BudgetBreakdownRow {
+  return {
+    entity_type: entityType,
+    entity_id: entity.id,
+    entity_name: entity.name,
+    total_budget: totalBudget,
+    consumed_amount: consumedAmount,
+    consumption_rate: totalBudget && totalBudget > 0 ? (consumedAmount / totalBudget) * 100 : 0,
+    remaining_budget: totalBudget ? totalBudget - consumedAmount : null
+  };
+}
+
+async function getReportingAmounts(totalBudget: number | null, burn: BurnAmount[], currency: string) {
+  const convert = await createCurrencyConverter(db);
+  const today = new Date().toISOString().split('T')[0];
+  const budgetReporting = totalBudget !== null ? convert(totalBudget, currency, reportingCurrency(), today) : null;
+  const consumedReporting = await burnInReportingCurrency(burn, currency);
+
+  // Converted amounts are rounded to cents
+  return {
+    currency,
+    reporting_currency: reportingCurrency(),
+    total_budget_reporting: budgetReporting !== null ? Math.round(budgetReporting * 100) / 100 : null,
+    consumed_amount_reporting: consumedReporting !== null ? Math.round(consumedReporting * 100) / 100 : null
+  };
+}
+
 async function getPositionConsumption(positionId: number): Promise<BudgetConsumptionReport | null> {
-  // Get position details with consumed amount
+  // Get position details
   const result = await db
     .select({
       id: positionsTable.id,
       name: positionsTable.name,
       budget: positionsTable.budget,
-      hourly_rate: positionsTable.hourly_rate,
-      total_hours: sum(timeEntriesTable.hours),
+      currency: clientsTable.currency
     })
     .from(positionsTable)
-    .leftJoin(timeEntriesTable, eq(positionsTable.id, timeEntriesTable.position_id))
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
     .where(eq(positionsTable.id, positionId))
-    .groupBy(positionsTable.id, positionsTable.name, positionsTable.budget, positionsTable.hourly_rate)
     .execute();
 
   if (result.length === 0) return null;
 
   const position = result[0];
   const totalBudget = position.budget ? parseFloat(position.budget) : null;
-  const hourlyRate = position.hourly_rate ? parseFloat(position.hourly_rate) : null;
-  const totalHours = position.total_hours ? parseFloat(position.total_hours) : 0;
-  
-  // Calculate consumed amount based on hourly rate if available
-  let consumedAmount = 0;
-  if (hourlyRate && totalHours > 0) {
-    consumedAmount = hourlyRate * totalHours;
-  }
+
+  const { consumedAmount, expenseAmount, unpricedHours, unconvertedExpenses, burn } = await measureConsumption(eq(positionsTable.id, positionId), position.currency);
 
   const consumptionRate = totalBudget && totalBudget > 0 ? (consumedAmount / totalBudget) * 100 : 0;
   const remainingBudget = totalBudget ? totalBudget - consumedAmount : null;
@@ -99,8 +162,15 @@ async function getPositionConsumption(positionId: number): Promise<BudgetConsump
     entity_name: position.name,
     total_budget: totalBudget,
     consumed_amount: consumedAmount,
+    expense_amount: expenseAmount,
+    unpriced_hours: unpricedHours,
+    unconverted_expenses: unconvertedExpenses,
     consumption_rate: consumptionRate,
-    remaining_budget: remainingBudget
+    remaining_budget: remainingBudget,
+    earned_value: null,
+    breakdown: [],
+    ...await getAmendmentHistory({ position_id: position.id }, totalBudget),
+    ...await getReportingAmounts(totalBudget, burn, position.currency)
   };
 }
 
@@ -110,9 +180,12 @@ async function getProjectConsumption(projectId: number): Promise<BudgetConsumpti
     .select({
       id: projectsTable.id,
       name: projectsTable.name,
-      budget: projectsTable.budget
+      budget: projectsTable.budget,
+      billing_model: projectsTable.billing_model,
+      currency: clientsTable.currency
     })
     .from(projectsTable)
+    .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
     .where(eq(projectsTable.id, projectId))
     .execute();
 
@@ -122,35 +195,44 @@ async function getProjectConsumption(projectId: number): Promise<BudgetConsumpti
   const totalBudget = project.budget ? parseFloat(project.budget) : null;
 
   // Calculate consumed amount across all positions in this project
-  const consumptionResult = await db
+  const { consumedAmount, expenseAmount, unpricedHours, unconvertedExpenses, earnedValue, burn } = await measureProject(project, project.currency);
+
+  const consumptionRate = totalBudget && totalBudget > 0 ? (consumedAmount / totalBudget) * 100 : 0;
+  const remainingBudget = totalBudget ? totalBudget - consumedAmount : null;
+
+  // Positions are measured like their own reports
+  const positions = await db
     .select({
-      total_hours: sum(timeEntriesTable.hours),
-      position_hourly_rate: positionsTable.hourly_rate
+      id: positionsTable.id,
+      name: positionsTable.name,
+      budget: positionsTable.budget
     })
-    .from(timeEntriesTable)
-    .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
-    .where(eq(positionsTable.project_id, projectId))
-    .groupBy(positionsTable.id, positionsTable.hourly_rate)
+    .from(positionsTable)
+    .where(eq(positionsTable.project_id, project.id))
+    .orderBy(positionsTable.name)
     .execute();
 
-  let consumedAmount = 0;
-  for (const consumption of consumptionResult) {
-    const hours = consumption.total_hours ? parseFloat(consumption.total_hours) : 0;
-    const rate = consumption.position_hourly_rate ? parseFloat(consumption.position_hourly_rate) : 0;
-    consumedAmount += hours * rate;
+  const breakdown: BudgetBreakdownRow[] = [];
+  for (const position of positions) {
+    const measurement = await measureConsumption(eq(positionsTable.id, position.id), project.currency);
+    breakdown.push(toBreakdownRow('position', position, position.budget ? parseFloat(position.budget) : null, measurement.consumedAmount));
   }
 
-  const consumptionRate = totalBudget && totalBudget > 0 ? (consumedAmount / totalBudget) * 100 : 0;
-  const remainingBudget = totalBudget ? totalBudget - consumedAmount : null;
-
   return {
     entity_type: 'project',
     entity_id: project.id,
     entity_name: project.name,
     total_budget: totalBudget,
     consumed_amount: consumedAmount,
+    expense_amount: expenseAmount,
+    unpriced_hours: unpricedHours,
+    unconverted_expenses: unconvertedExpenses,
     consumption_rate: consumptionRate,
-    remaining_budget: remainingBudget
+    remaining_budget: remainingBudget,
+    earned_value: earnedValue,
+    breakdown,
+    ...await getAmendmentHistory({ project_id: project.id }, totalBudget),
+    ...await getReportingAmounts(totalBudget, burn, project.currency)
   };
 }
 
@@ -159,7 +241,8 @@ async function getClientConsumption(clientId: number): Promise<BudgetConsumption
   const clientResult = await db
     .select({
       id: clientsTable.id,
-      name: clientsTable.name
+      name: clientsTable.name,
+      currency: clientsTable.currency
     })
     .from(clientsTable)
     .where(eq(clientsTable.id, clientId))
@@ -169,35 +252,41 @@ async function getClientConsumption(clientId: number): Promise<BudgetConsumption
 
   const client = clientResult[0];
 
-  // Calculate total budget across all projects for this client
-  const budgetResult = await db
+  const projects = await db
     .select({
-      total_budget: sum(projectsTable.budget)
+      id: projectsTable.id,
+      name: projectsTable.name,
+      budget: projectsTable.budget,
+      billing_model: projectsTable.billing_model
     })
     .from(projectsTable)
     .where(eq(projectsTable.client_id, clientId))
+    .orderBy(projectsTable.name)
     .execute();
 
-  const totalBudget = budgetResult[0]?.total_budget ? parseFloat(budgetResult[0].total_budget) : null;
-
-  // Calculate consumed amount across all positions in all projects for this client
-  const consumptionResult = await db
-    .select({
-      total_hours: sum(timeEntriesTable.hours),
-      position_hourly_rate: positionsTable.hourly_rate
-    })
-    .from(timeEntriesTable)
-    .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
-    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
-    .where(eq(projectsTable.client_id, clientId))
-    .groupBy(positionsTable.id, positionsTable.hourly_rate)
-    .execute();
+  // Calculate total budget across all projects for this client
+  const budgets = projects.filter(project => project.budget !== null).map(project => parseFloat(project.budget!));
+  const totalBudget = budgets.length > 0 ? budgets.reduce((total, budget) => total + budget, 0) : null;
 
+  // Each project consumes the budget the way its billing model does, so the client total matches the project rows
   let consumedAmount = 0;
-  for (const consumption of consumptionResult) {
-    const hours = consumption.total_hours ? parseFloat(consumption.total_hours) : 0;
-    const rate = consumption.position_hourly_rate ? parseFloat(consumption.position_hourly_rate) : 0;
-    consumedAmount += hours * rate;
+  let expenseAmount = 0;
+  let unpricedHours = 0;
+  let unconvertedExpenses = 0;
+  let earnedValue: number | null = null;
+  const burn: BurnAmount[] = [];
+  const breakdown: BudgetBreakdownRow[] = [];
+  for (const project of projects) {
+    const measurement = await measureProject(project, client.currency);
+    breakdown.push(toBreakdownRow('project', project, project.budget ? parseFloat(project.budget) : null, measurement.consumedAmount));
+    consumedAmount += measurement.consumedAmount;
+    expenseAmount += measurement.expenseAmount;
+    unpricedHours += measurement.unpricedHours;
+    unconvertedExpenses += measurement.unconvertedExpenses;
+    if (measurement.earnedValue !== null) {
+      earnedValue = (earnedValue ?? 0) + measurement.earnedValue;
+    }
+    burn.push(...measurement.burn);
   }
 
   const consumptionRate = totalBudget && totalBudget > 0 ? (consumedAmount / totalBudget) * 100 : 0;
@@ -209,8 +298,15 @@ async function getClientConsumption(clientId: number): Promise<BudgetConsumption
     entity_name: client.name,
     total_budget: totalBudget,
     consumed_amount: consumedAmount,
+    expense_amount: expenseAmount,
+    unpriced_hours: unpricedHours,
+    unconverted_expenses: unconvertedExpenses,
     consumption_rate: consumptionRate,
-    remaining_budget: remainingBudget
+    remaining_budget: remainingBudget,
+    earned_value: earnedValue,
+    breakdown,
+    ...await getAmendmentHistory({ client_id: client.id }, totalBudget),
+    ...await getReportingAmounts(totalBudget, burn, client.currency)
   };
 }
 
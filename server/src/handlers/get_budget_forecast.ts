@@ -0,0 +1,151 @@
+import { db } from '../db';
+import { clientsTable, projectsTable, type Project } from '../db/schema';
+import { type BudgetForecastInput, type BudgetForecast, type BudgetForecastStatus } from '../schema';
+import { measureProject, type BurnAmount } from '../helpers/budget';
+import { toDateString } from '../helpers/week';
+import { and, asc, eq, isNotNull, type SQL } from 'drizzle-orm';
+
+// Trailing windows every forecast reports, next to the one it projects
+const BURN_WINDOWS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const addDays = (date: string, days: number): string =>
+  toDateString(new Date(Date.parse(date + 'T00:00:00.000Z') + days * DAY_MS));
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to + 'T00:00:00.000Z') - Date.parse(from + 'T00:00:00.000Z')) / DAY_MS);
+
+/**
+ * Projects each project's recent burn rate forward. The rate of the trailing forecast
+ * window, per calendar day, gives the date the remaining budget runs out and the estimate
+ * at completion on the project's end date. Bookings after as_of are ignored, so past
+ * forecasts can be reproduced.
+ */
+export const getBudgetForecast = async (input: BudgetForecastInput): Promise<BudgetForecast[]> => {
+  try {
+    const asOf = toDateString(input.as_of ?? new Date());
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(projectsTable.id, input.project_id));
+    } else {
+      conditions.push(isNotNull(projectsTable.budget));
+    }
+
+    if (input.client_id !== undefined) {
+      conditions.push(eq(projectsTable.client_id, input.client_id));
+    }
+
+    const projects = await db.select({ project: projectsTable, client_name: clientsTable.name, currency: clientsTable.currency })
+      .from(projectsTable)
+      .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+      .where(and(...conditions))
+      .orderBy(asc(clientsTable.name), asc(projectsTable.name))
+      .execute();
+
+    if (input.project_id !== undefined && projects.length === 0) {
+      throw new Error(`Project with ID ${input.project_id} does not exist`);
+    }
+
+    const forecasts: BudgetForecast[] = [];
+    for (const { project, client_name, currency } of projects) {
+      forecasts.push(await forecastProject(project, client_name, currency, asOf, input.forecast_window_days));
+    }
+
+    return forecasts;
+  } catch (error) {
+    console.error('Budget forecast failed:', error);
+    throw error;
+  }
+};
+
+async function forecastProject(
+  project: Project,
+  clientName: string,
+  currency: string,
+  asOf: string,
+  forecastWindowDays: number
+): Promise<BudgetForecast> {
+  const { burn, unpricedHours } = await measureProject(project, currency);
+  const past = burn.filter(item => item.date <= asOf).sort((a, b) => a.date.localeCompare(b.date));
+  const consumedUntil = (date: string) => past.filter(item => item.date <= date).reduce((total, item) => total + item.amount, 0);
+
+  const consumed = consumedUntil(asOf);
+  const totalBudget = project.budget !== null ? parseFloat(project.budget) : null; // Convert string back to number
+  const firstDate = project.start_date ?? past[0]?.date ?? asOf;
+  const runningDays = Math.max(1, daysBetween(firstDate, asOf) + 1);
+
+  // A project younger than the window burns over the days it has been running
+  const windows = Array.from(new Set([...BURN_WINDOWS, forecastWindowDays])).sort((a, b) => a - b);
+  const burnRates = windows.map(days => {
+    const windowConsumed = consumed - consumedUntil(addDays(asOf, -days));
+    return { window_days: days, consumed: windowConsumed, daily_rate: windowConsumed / Math.min(days, runningDays) };
+  });
+  const dailyRate = burnRates.find(rate => rate.window_days === forecastWindowDays)!.daily_rate;
+
+  const exhaustionDate = totalBudget === null ? null : projectExhaustion(past, totalBudget, consumed, dailyRate, asOf);
+
+  let estimateAtCompletion: number | null = null;
+  if (project.end_date !== null) {
+    estimateAtCompletion = consumed + dailyRate * Math.max(0, daysBetween(asOf, project.end_date));
+  }
+
+  const varianceAtCompletion = totalBudget !== null && estimateAtCompletion !== null ? totalBudget - estimateAtCompletion : null;
+
+  let status: BudgetForecastStatus = 'on_track';
+  if (totalBudget === null) {
+    status = 'no_budget';
+  } else if (round(consumed) > totalBudget) {
+    status = 'over_budget';
+  } else if ((varianceAtCompletion !== null && round(varianceAtCompletion) < 0) ||
+    (exhaustionDate !== null && project.end_date !== null && exhaustionDate < project.end_date)) {
+    status = 'at_risk';
+  }
+
+  // Weekly cumulative consumption from the start, always ending on as_of
+  const burnUp: Array<{ date: string; consumed: number }> = [];
+  for (let date = firstDate; date < asOf; date = addDays(date, 7)) {
+    burnUp.push({ date, consumed: round(consumedUntil(date)) });
+  }
+  burnUp.push({ date: asOf, consumed: round(consumed) });
+
+  return {
+    project_id: project.id,
+    project_name: project.name,
+    client_name: clientName,
+    billing_model: project.billing_model,
+    currency,
+    total_budget: totalBudget,
+    start_date: project.start_date,
+    end_date: project.end_date,
+    as_of: asOf,
+    consumed_amount: round(consumed),
+    remaining_budget: totalBudget !== null ? round(totalBudget - consumed) : null,
+    unpriced_hours: unpricedHours,
+    burn_rates: burnRates.map(rate => ({ ...rate, consumed: round(rate.consumed), daily_rate: round(rate.daily_rate) })),
+    forecast_daily_rate: round(dailyRate),
+    projected_exhaustion_date: exhaustionDate,
+    estimate_at_completion: estimateAtCompletion !== null ? round(estimateAtCompletion) : null,
+    variance_at_completion: varianceAtCompletion !== null ? round(varianceAtCompletion) : null,
+    forecast_variance_days: exhaustionDate !== null && project.end_date !== null ? daysBetween(project.end_date, exhaustionDate) : null,
+    status,
+    burn_up: burnUp
+  };
+}
+
+// The day consumption reached the budget, or will at the daily rate; null without burn
+function projectExhaustion(past: BurnAmount[], budget: number, consumed: number, dailyRate: number, asOf: string): string | null {
+  if (round(consumed) >= budget) {
+    let cumulative = 0;
+    for (const item of past) {
+      cumulative += item.amount;
+      if (round(cumulative) >= budget) return item.date;
+    }
+  }
+
+  if (dailyRate <= 0) return null;
+  return addDays(asOf, Math.ceil((budget - consumed) / dailyRate));
+}
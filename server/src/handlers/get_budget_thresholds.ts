@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { budgetThresholdsTable } from '../db/schema';
+import { type GetBudgetThresholdsInput, type BudgetThreshold } from '../schema';
+import { and, asc, eq, type SQL } from 'drizzle-orm';
+
+export const getBudgetThresholds = async (input: GetBudgetThresholdsInput): Promise<BudgetThreshold[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(budgetThresholdsTable.project_id, input.project_id));
+    }
+
+    if (input.position_id !== undefined) {
+      conditions.push(eq(budgetThresholdsTable.position_id, input.position_id));
+    }
+
+    return await db.select()
+      .from(budgetThresholdsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(
+        asc(budgetThresholdsTable.project_id),
+        asc(budgetThresholdsTable.position_id),
+        asc(budgetThresholdsTable.percent)
+      )
+      .execute();
+  } catch (error) {
+    console.error('Failed to get budget thresholds:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { costRatesTable } from '../db/schema';
+import { type GetCostRatesInput, type CostRate } from '../schema';
+import { asc, desc, eq } from 'drizzle-orm';
+
+export const getCostRates = async (input: GetCostRatesInput): Promise<CostRate[]> => {
+  try {
+    const results = await db.select()
+      .from(costRatesTable)
+      .where(input.user_id !== undefined ? eq(costRatesTable.user_id, input.user_id) : undefined)
+      .orderBy(asc(costRatesTable.user_id), desc(costRatesTable.valid_from))
+      .execute();
+
+    return results.map(costRate => ({
+      ...costRate,
+      hourly_cost: parseFloat(costRate.hourly_cost) // Convert string back to number
+    }));
+  } catch (error) {
+    console.error('Failed to get cost rates:', error);
+    throw error;
+  }
+};
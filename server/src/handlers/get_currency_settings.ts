@@ -0,0 +1,11 @@
+import { type CurrencySettings } from '../schema';
+import { reportingCurrency } from '../helpers/currency';
+
+export const getCurrencySettings = async (): Promise<CurrencySettings> => {
+  try {
+    return { reporting_currency: reportingCurrency() };
+  } catch (error) {
+    console.error('Currency settings retrieval failed:', error);
+    throw error;
+  }
+};
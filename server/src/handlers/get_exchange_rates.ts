@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { type GetExchangeRatesInput, type ExchangeRate } from '../schema';
+import { toExchangeRate } from '../helpers/currency';
+import { asc, desc, eq, or } from 'drizzle-orm';
+
+// Rates by pair, newest first within each pair
+export const getExchangeRates = async (input: GetExchangeRatesInput): Promise<ExchangeRate[]> => {
+  try {
+    const results = await db.select()
+      .from(exchangeRatesTable)
+      .where(input.currency !== undefined
+        ? or(eq(exchangeRatesTable.base_currency, input.currency), eq(exchangeRatesTable.quote_currency, input.currency))
+        : undefined)
+      .orderBy(asc(exchangeRatesTable.base_currency), asc(exchangeRatesTable.quote_currency), desc(exchangeRatesTable.valid_from))
+      .execute();
+
+    return results.map(toExchangeRate);
+  } catch (error) {
+    console.error('Exchange rate retrieval failed:', error);
+    throw error;
+  }
+};
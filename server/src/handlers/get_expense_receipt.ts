@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { expensesTable } from '../db/schema';
+import { type GetExpenseReceiptInput, type ExpenseReceipt } from '../schema';
+import { readReceipt } from '../helpers/receipts';
+import { eq } from 'drizzle-orm';
+
+export const getExpenseReceipt = async (input: GetExpenseReceiptInput): Promise<ExpenseReceipt> => {
+  try {
+    const expenses = await db.select()
+      .from(expensesTable)
+      .where(eq(expensesTable.id, input.expense_id))
+      .limit(1)
+      .execute();
+
+    if (expenses.length === 0) {
+      throw new Error(`Expense with ID ${input.expense_id} does not exist`);
+    }
+
+    const expense = expenses[0];
+    if (!expense.receipt_path || !expense.receipt_filename) {
+      throw new Error(`Expense with ID ${input.expense_id} has no receipt`);
+    }
+
+    const receipt = await readReceipt(expense.receipt_path);
+    return {
+      filename: expense.receipt_filename,
+      content_type: receipt.content_type,
+      content_base64: receipt.content.toString('base64')
+    };
+  } catch (error) {
+    console.error('Failed to get expense receipt:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { expensesTable, positionsTable } from '../db/schema';
+import { type GetExpensesInput, type Expense } from '../schema';
+import { toExpense } from '../helpers/expenses';
+import { and, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+export const getExpenses = async (input: GetExpensesInput): Promise<Expense[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(expensesTable.user_id, input.user_id));
+    }
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(positionsTable.project_id, input.project_id));
+    }
+
+    if (input.start_date) {
+      conditions.push(gte(expensesTable.date, input.start_date.toISOString().split('T')[0])); // Convert Date to YYYY-MM-DD string
+    }
+
+    if (input.end_date) {
+      conditions.push(lte(expensesTable.date, input.end_date.toISOString().split('T')[0]));
+    }
+
+    const results = await db.select({ expense: expensesTable })
+      .from(expensesTable)
+      .innerJoin(positionsTable, eq(expensesTable.position_id, positionsTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(expensesTable.date), desc(expensesTable.id))
+      .execute();
+
+    return results.map(result => toExpense(result.expense));
+  } catch (error) {
+    console.error('Failed to get expenses:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { holidayCalendarsTable } from '../db/schema';
+import { type HolidayCalendar } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getHolidayCalendars = async (): Promise<HolidayCalendar[]> => {
+  try {
+    const results = await db.select()
+      .from(holidayCalendarsTable)
+      .orderBy(asc(holidayCalendarsTable.name))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get holiday calendars:', error);
+    throw error;
+  }
+};
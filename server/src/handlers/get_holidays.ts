@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { holidaysTable } from '../db/schema';
+import { type GetHolidaysInput, type Holiday } from '../schema';
+import { eq, and, gte, lte, asc, type SQL } from 'drizzle-orm';
+
+export const getHolidays = async (input: GetHolidaysInput): Promise<Holiday[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [eq(holidaysTable.calendar_id, input.calendar_id)];
+
+    if (input.year !== undefined) {
+      conditions.push(gte(holidaysTable.date, `${input.year}-01-01`));
+      conditions.push(lte(holidaysTable.date, `${input.year}-12-31`));
+    }
+
+    const results = await db.select()
+      .from(holidaysTable)
+      .where(and(...conditions))
+      .orderBy(asc(holidaysTable.date))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get holidays:', error);
+    throw error;
+  }
+};
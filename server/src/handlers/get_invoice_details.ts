@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { type GetInvoiceDetailsInput, type InvoiceDetails } from '../schema';
+import { getInvoiceWithLines } from '../helpers/invoice';
+
+export const getInvoiceDetails = async (input: GetInvoiceDetailsInput): Promise<InvoiceDetails> => {
+  try {
+    return await getInvoiceWithLines(db, input.invoice_id);
+  } catch (error) {
+    console.error('Failed to get invoice details:', error);
+    throw error;
+  }
+};
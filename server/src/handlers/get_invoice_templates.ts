@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { invoiceTemplatesTable } from '../db/schema';
+import { type InvoiceTemplate } from '../schema';
+import { asc, desc } from 'drizzle-orm';
+
+export const getInvoiceTemplates = async (): Promise<InvoiceTemplate[]> => {
+  try {
+    return await db.select()
+      .from(invoiceTemplatesTable)
+      .orderBy(desc(invoiceTemplatesTable.is_default), asc(invoiceTemplatesTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get invoice templates:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { invoicesTable } from '../db/schema';
+import { type GetInvoicesInput, type Invoice } from '../schema';
+import { invoiceStatusCondition, toInvoice } from '../helpers/invoice';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+export const getInvoices = async (input: GetInvoicesInput): Promise<Invoice[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.client_id !== undefined) {
+      conditions.push(eq(invoicesTable.client_id, input.client_id));
+    }
+
+    if (input.status !== undefined) {
+      const statusCondition = invoiceStatusCondition(input.status);
+      if (statusCondition) {
+        conditions.push(statusCondition);
+      }
+    }
+
+    const results = await db.select()
+      .from(invoicesTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(invoicesTable.period_end), desc(invoicesTable.id))
+      .execute();
+
+    return results.map(toInvoice);
+  } catch (error) {
+    console.error('Failed to get invoices:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { milestonesTable } from '../db/schema';
+import { type GetMilestonesInput, type Milestone } from '../schema';
+import { toMilestone } from '../helpers/milestones';
+import { asc, eq } from 'drizzle-orm';
+
+export const getMilestones = async (input: GetMilestonesInput): Promise<Milestone[]> => {
+  try {
+    const results = await db.select()
+      .from(milestonesTable)
+      .where(eq(milestonesTable.project_id, input.project_id))
+      .orderBy(asc(milestonesTable.due_date), asc(milestonesTable.id))
+      .execute();
+
+    return results.map(toMilestone);
+  } catch (error) {
+    console.error('Failed to get milestones:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type GetNotificationsInput, type Notification } from '../schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+// Newest first
+export const getNotifications = async (input: GetNotificationsInput): Promise<Notification[]> => {
+  try {
+    return await db.select()
+      .from(notificationsTable)
+      .where(and(
+        eq(notificationsTable.user_id, input.user_id),
+        input.unread_only ? isNull(notificationsTable.read_at) : undefined
+      ))
+      .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get notifications:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { paymentsTable } from '../db/schema';
+import { type GetPaymentsInput, type Payment } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getPayments = async (input: GetPaymentsInput): Promise<Payment[]> => {
+  try {
+    const results = await db.select()
+      .from(paymentsTable)
+      .where(eq(paymentsTable.invoice_id, input.invoice_id))
+      .orderBy(asc(paymentsTable.paid_on), asc(paymentsTable.id))
+      .execute();
+
+    return results.map(payment => ({
+      ...payment,
+      amount: parseFloat(payment.amount) // Convert string back to number
+    }));
+  } catch (error) {
+    console.error('Failed to get payments:', error);
+    throw error;
+  }
+};
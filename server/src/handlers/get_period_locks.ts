@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { periodLocksTable } from '../db/schema';
+import { type GetPeriodLocksInput, type PeriodLock } from '../schema';
+import { desc, isNull } from 'drizzle-orm';
+
+export const getPeriodLocks = async (input: GetPeriodLocksInput): Promise<PeriodLock[]> => {
+  try {
+    const results = await db.select()
+      .from(periodLocksTable)
+      .where(input.include_unlocked ? undefined : isNull(periodLocksTable.unlocked_at))
+      .orderBy(desc(periodLocksTable.start_date))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get period locks:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,148 @@
+import { db } from '../db';
+import { allocationsTable, timeEntriesTable, usersTable, positionsTable, projectsTable, clientsTable } from '../db/schema';
+import { type PlannedVsActualReportInput, type PlannedVsActualReport, type PlannedVsActualFigures } from '../schema';
+import { loadAllocations } from '../helpers/allocations';
+import { getWeekEnd, getWeekStart } from '../helpers/week';
+import { and, eq, gte, lte, sum, type SQL } from 'drizzle-orm';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toFigures = (planned: number, actual: number): PlannedVsActualFigures => ({
+  planned_hours: round(planned),
+  actual_hours: round(actual),
+  variance_hours: round(actual - planned),
+  variance_percent: planned > 0 ? Math.round(((actual - planned) / planned) * 10000) / 100 : null
+});
+
+// Planned and booked hours of one person on one project
+interface Cell {
+  user_id: number;
+  user_name: string;
+  project_id: number;
+  project_name: string;
+  client_name: string;
+  planned: number;
+  actual: number;
+}
+
+/**
+ * Compares allocations to booked time per person and per project. The period is widened
+ * to whole weeks, so a week's allocation is compared to all hours booked in that week.
+ */
+export const getPlannedVsActualReport = async (input: PlannedVsActualReportInput): Promise<PlannedVsActualReport> => {
+  try {
+    const firstWeek = getWeekStart(input.start_date);
+    const lastWeek = getWeekStart(input.end_date);
+    const endDate = getWeekEnd(lastWeek);
+
+    if (lastWeek < firstWeek) {
+      throw new Error('End date must not be before start date');
+    }
+
+    const allocationConditions: SQL<unknown>[] = [
+      gte(allocationsTable.week_start, firstWeek),
+      lte(allocationsTable.week_start, lastWeek)
+    ];
+    const entryConditions: SQL<unknown>[] = [
+      gte(timeEntriesTable.date, firstWeek),
+      lte(timeEntriesTable.date, endDate)
+    ];
+
+    if (input.user_id !== undefined) {
+      allocationConditions.push(eq(allocationsTable.user_id, input.user_id));
+      entryConditions.push(eq(timeEntriesTable.user_id, input.user_id));
+    }
+
+    if (input.project_id !== undefined) {
+      allocationConditions.push(eq(positionsTable.project_id, input.project_id));
+      entryConditions.push(eq(positionsTable.project_id, input.project_id));
+    }
+
+    const allocations = await loadAllocations(db, and(...allocationConditions));
+
+    const actuals = await db.select({
+      user_id: usersTable.id,
+      user_name: usersTable.name,
+      project_id: projectsTable.id,
+      project_name: projectsTable.name,
+      client_name: clientsTable.name,
+      hours: sum(timeEntriesTable.hours)
+    })
+      .from(timeEntriesTable)
+      .innerJoin(usersTable, eq(timeEntriesTable.user_id, usersTable.id))
+      .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+      .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+      .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+      .where(and(...entryConditions))
+      .groupBy(usersTable.id, usersTable.name, projectsTable.id, projectsTable.name, clientsTable.name)
+      .execute();
+
+    const cells = new Map<string, Cell>();
+    const cellFor = (row: Omit<Cell, 'planned' | 'actual'>): Cell => {
+      const key = `${row.user_id}:${row.project_id}`;
+      let cell = cells.get(key);
+      if (!cell) {
+        cell = { ...row, planned: 0, actual: 0 };
+        cells.set(key, cell);
+      }
+      return cell;
+    };
+
+    for (const allocation of allocations) {
+      cellFor(allocation).planned += allocation.planned_hours;
+    }
+
+    for (const actual of actuals) {
+      cellFor(actual).actual += actual.hours ? parseFloat(actual.hours) : 0; // Convert string back to number
+    }
+
+    const allCells = Array.from(cells.values());
+    const total = (group: Cell[], field: 'planned' | 'actual') => group.reduce((sum, cell) => sum + cell[field], 0);
+    const figuresOf = (group: Cell[]) => toFigures(total(group, 'planned'), total(group, 'actual'));
+
+    const userIds = Array.from(new Set(allCells.map(cell => cell.user_id)));
+    const people = userIds.map(userId => {
+      const group = allCells.filter(cell => cell.user_id === userId)
+        .sort((a, b) => a.client_name.localeCompare(b.client_name) || a.project_name.localeCompare(b.project_name));
+      return {
+        user_id: userId,
+        user_name: group[0].user_name,
+        ...figuresOf(group),
+        projects: group.map(cell => ({
+          project_id: cell.project_id,
+          project_name: cell.project_name,
+          client_name: cell.client_name,
+          ...toFigures(cell.planned, cell.actual)
+        }))
+      };
+    }).sort((a, b) => a.user_name.localeCompare(b.user_name));
+
+    const projectIds = Array.from(new Set(allCells.map(cell => cell.project_id)));
+    const projects = projectIds.map(projectId => {
+      const group = allCells.filter(cell => cell.project_id === projectId)
+        .sort((a, b) => a.user_name.localeCompare(b.user_name));
+      return {
+        project_id: projectId,
+        project_name: group[0].project_name,
+        client_name: group[0].client_name,
+        ...figuresOf(group),
+        people: group.map(cell => ({
+          user_id: cell.user_id,
+          user_name: cell.user_name,
+          ...toFigures(cell.planned, cell.actual)
+        }))
+      };
+    }).sort((a, b) => a.client_name.localeCompare(b.client_name) || a.project_name.localeCompare(b.project_name));
+
+    return {
+      start_date: firstWeek,
+      end_date: endDate,
+      totals: figuresOf(allCells),
+      people,
+      projects
+    };
+  } catch (error) {
+    console.error('Planned vs actual report generation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { allocationsTable, usersTable } from '../db/schema';
+import { type PlanningBoardInput, type PlanningBoard } from '../schema';
+import { loadAllocations } from '../helpers/allocations';
+import { getWeeklyCapacity } from '../helpers/capacity';
+import { getWeekStarts } from '../helpers/week';
+import { and, asc, eq, gte, inArray, lte, or } from 'drizzle-orm';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Planned hours per consultant and week next to the week's capacity. Anyone else with
+ * allocations in the period gets a row too, so no planned hours go missing.
+ */
+export const getPlanningBoard = async (input: PlanningBoardInput): Promise<PlanningBoard> => {
+  try {
+    const weeks = getWeekStarts(input.start_date, input.weeks);
+
+    const allocations = await loadAllocations(db, and(
+      gte(allocationsTable.week_start, weeks[0]),
+      lte(allocationsTable.week_start, weeks[weeks.length - 1])
+    ));
+
+    const allocatedUserIds = Array.from(new Set(allocations.map(allocation => allocation.user_id)));
+    const users = await db.select({ id: usersTable.id, name: usersTable.name })
+      .from(usersTable)
+      .where(allocatedUserIds.length > 0
+        ? or(eq(usersTable.role, 'consultant'), inArray(usersTable.id, allocatedUserIds))
+        : eq(usersTable.role, 'consultant'))
+      .orderBy(asc(usersTable.name))
+      .execute();
+
+    const rows = await Promise.all(users.map(async (user) => {
+      const capacity = await getWeeklyCapacity(db, user.id, weeks);
+
+      const cells = weeks.map(weekStart => {
+        const weekAllocations = allocations.filter(allocation =>
+          allocation.user_id === user.id && allocation.week_start === weekStart
+        );
+        const plannedHours = round(weekAllocations.reduce((sum, allocation) => sum + allocation.planned_hours, 0));
+        const capacityHours = round(capacity.get(weekStart) ?? 0);
+
+        return {
+          week_start: weekStart,
+          capacity_hours: capacityHours,
+          planned_hours: plannedHours,
+          is_overbooked: plannedHours > capacityHours,
+          allocations: weekAllocations
+        };
+      });
+
+      return {
+        user_id: user.id,
+        user_name: user.name,
+        cells,
+        capacity_hours: round(cells.reduce((sum, cell) => sum + cell.capacity_hours, 0)),
+        planned_hours: round(cells.reduce((sum, cell) => sum + cell.planned_hours, 0))
+      };
+    }));
+
+    return { weeks, rows };
+  } catch (error) {
+    console.error('Planning board generation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { type GetPositionSkillsInput, type PositionSkill } from '../schema';
+import { loadPositionSkills } from '../helpers/skills';
+
+export const getPositionSkills = async (input: GetPositionSkillsInput): Promise<PositionSkill[]> => {
+  try {
+    return await loadPositionSkills(db, input.position_id);
+  } catch (error) {
+    console.error('Failed to get position skills:', error);
+    throw error;
+  }
+};
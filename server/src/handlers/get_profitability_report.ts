@@ -0,0 +1,217 @@
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, timeEntriesTable, usersTable } from '../db/schema';
+import {
+  type ProfitabilityReportInput,
+  type ProfitabilityReport,
+  type ProfitabilityFigures,
+  type ClientProfitability,
+  type ProjectProfitability
+} from '../schema';
+import { createRateResolver, createCostResolver } from '../helpers/rates';
+import { createCurrencyConverter, reportingCurrency } from '../helpers/currency';
+import { and, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+interface Tally {
+  hours: number;
+  billable_hours: number;
+  revenue: number;
+  original_revenue: number; // In the client's currency
+  cost: number;
+  unpriced_hours: number;
+  unconverted_hours: number;
+  uncosted_hours: number;
+}
+
+interface EntryMeasure {
+  hours: number;
+  billable: boolean;
+  original_revenue: number | null; // Null when billable and no bill rate applies
+  revenue: number | null; // In the reporting currency; also null when no exchange rate applies
+  cost: number | null; // Null when no cost rate applies
+}
+
+const emptyTally = (): Tally => ({
+  hours: 0, billable_hours: 0, revenue: 0, original_revenue: 0, cost: 0, unpriced_hours: 0, unconverted_hours: 0, uncosted_hours: 0
+});
+
+const addToTally = (tally: Tally, measure: EntryMeasure) => {
+  tally.hours += measure.hours;
+  if (measure.billable) {
+    tally.billable_hours += measure.hours;
+    if (measure.original_revenue === null) {
+      tally.unpriced_hours += measure.hours;
+    } else {
+      tally.original_revenue += measure.original_revenue;
+      if (measure.revenue === null) {
+        tally.unconverted_hours += measure.hours;
+      } else {
+        tally.revenue += measure.revenue;
+      }
+    }
+  }
+  if (measure.cost === null) {
+    tally.uncosted_hours += measure.hours;
+  } else {
+    tally.cost += measure.cost;
+  }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toFigures = (tally: Tally): ProfitabilityFigures => {
+  const grossMargin = tally.revenue - tally.cost;
+  return {
+    hours: round(tally.hours),
+    billable_hours: round(tally.billable_hours),
+    revenue: round(tally.revenue),
+    cost: round(tally.cost),
+    gross_margin: round(grossMargin),
+    margin_percent: tally.revenue > 0 ? round((grossMargin / tally.revenue) * 100) : null,
+    unpriced_hours: round(tally.unpriced_hours),
+    unconverted_hours: round(tally.unconverted_hours),
+    uncosted_hours: round(tally.uncosted_hours)
+  };
+};
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+/**
+ * Gross margin of the time booked in a period, per client and project, with each project
+ * drillable by position and by consultant. Revenue counts billable hours at the bill rate
+ * from createRateResolver; cost counts every hour at the consultant's cost rate. Figures
+ * are in the reporting currency, revenue converted with the rate of each entry's date;
+ * clients and projects also show their revenue in the client's currency. Hours a rate is
+ * missing for are reported separately rather than valued at zero.
+ */
+export const getProfitabilityReport = async (input: ProfitabilityReportInput): Promise<ProfitabilityReport> => {
+  try {
+    const startDate = input.start_date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const endDate = input.end_date.toISOString().split('T')[0];
+
+    if (endDate < startDate) {
+      throw new Error('End date must not be before start date');
+    }
+
+    const conditions: SQL<unknown>[] = [
+      gte(timeEntriesTable.date, startDate),
+      lte(timeEntriesTable.date, endDate)
+    ];
+
+    if (input.client_id !== undefined) {
+      conditions.push(eq(projectsTable.client_id, input.client_id));
+    }
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(positionsTable.project_id, input.project_id));
+    }
+
+    const entries = await db.select({
+      user_id: timeEntriesTable.user_id,
+      user_name: usersTable.name,
+      position_id: timeEntriesTable.position_id,
+      position_name: positionsTable.name,
+      project_id: projectsTable.id,
+      project_name: projectsTable.name,
+      client_id: clientsTable.id,
+      client_name: clientsTable.name,
+      currency: clientsTable.currency,
+      date: timeEntriesTable.date,
+      hours: timeEntriesTable.hours,
+      billable: timeEntriesTable.billable
+    })
+      .from(timeEntriesTable)
+      .innerJoin(usersTable, eq(timeEntriesTable.user_id, usersTable.id))
+      .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+      .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+      .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+      .where(and(...conditions))
+      .execute();
+
+    const resolveRate = await createRateResolver(db, entries);
+    const resolveCost = await createCostResolver(db, entries);
+    const convert = await createCurrencyConverter(db);
+
+    const totals = emptyTally();
+    const clients = new Map<number, {
+      name: string;
+      currency: string;
+      tally: Tally;
+      projects: Map<number, {
+        name: string;
+        tally: Tally;
+        positions: Map<number, { name: string; tally: Tally }>;
+        consultants: Map<number, { name: string; tally: Tally }>;
+      }>;
+    }>();
+
+    for (const entry of entries) {
+      const hours = parseFloat(entry.hours);
+      const rate = entry.billable ? resolveRate(entry) : null;
+      const costRate = resolveCost(entry);
+      const originalRevenue = rate ? hours * rate.hourly_rate : null;
+      const measure: EntryMeasure = {
+        hours,
+        billable: entry.billable,
+        original_revenue: originalRevenue,
+        revenue: originalRevenue !== null ? convert(originalRevenue, entry.currency, reportingCurrency(), entry.date) : null,
+        cost: costRate !== null ? hours * costRate : null
+      };
+
+      const client = clients.get(entry.client_id) ??
+        { name: entry.client_name, currency: entry.currency, tally: emptyTally(), projects: new Map() };
+      clients.set(entry.client_id, client);
+
+      const project = client.projects.get(entry.project_id) ?? {
+        name: entry.project_name, tally: emptyTally(), positions: new Map(), consultants: new Map()
+      };
+      client.projects.set(entry.project_id, project);
+
+      const position = project.positions.get(entry.position_id) ?? { name: entry.position_name, tally: emptyTally() };
+      project.positions.set(entry.position_id, position);
+
+      const consultant = project.consultants.get(entry.user_id) ?? { name: entry.user_name, tally: emptyTally() };
+      project.consultants.set(entry.user_id, consultant);
+
+      for (const tally of [totals, client.tally, project.tally, position.tally, consultant.tally]) {
+        addToTally(tally, measure);
+      }
+    }
+
+    const clientRows: ClientProfitability[] = Array.from(clients, ([clientId, client]) => ({ id: clientId, ...client }))
+      .sort(byName)
+      .map(client => ({
+        client_id: client.id,
+        client_name: client.name,
+        ...toFigures(client.tally),
+        currency: client.currency,
+        original_revenue: round(client.tally.original_revenue),
+        projects: Array.from(client.projects, ([projectId, project]) => ({ id: projectId, ...project }))
+          .sort(byName)
+          .map((project): ProjectProfitability => ({
+            project_id: project.id,
+            project_name: project.name,
+            client_id: client.id,
+            ...toFigures(project.tally),
+            currency: client.currency,
+            original_revenue: round(project.tally.original_revenue),
+            positions: Array.from(project.positions, ([positionId, position]) => ({ id: positionId, ...position }))
+              .sort(byName)
+              .map(position => ({ position_id: position.id, position_name: position.name, ...toFigures(position.tally) })),
+            consultants: Array.from(project.consultants, ([userId, consultant]) => ({ id: userId, ...consultant }))
+              .sort(byName)
+              .map(consultant => ({ user_id: consultant.id, user_name: consultant.name, ...toFigures(consultant.tally) }))
+          }))
+      }));
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      reporting_currency: reportingCurrency(),
+      totals: toFigures(totals),
+      clients: clientRows
+    };
+  } catch (error) {
+    console.error('Profitability report generation failed:', error);
+    throw error;
+  }
+};
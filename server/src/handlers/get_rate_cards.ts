@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { rateCardsTable } from '../db/schema';
+import { type GetRateCardsInput, type RateCard } from '../schema';
+import { eq, and, asc, desc, type SQL } from 'drizzle-orm';
+
+export const getRateCards = async (input: GetRateCardsInput): Promise<RateCard[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.client_id !== undefined) {
+      conditions.push(eq(rateCardsTable.client_id, input.client_id));
+    }
+
+    if (input.project_id !== undefined) {
+      conditions.push(eq(rateCardsTable.project_id, input.project_id));
+    }
+
+    if (input.position_id !== undefined) {
+      conditions.push(eq(rateCardsTable.position_id, input.position_id));
+    }
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(rateCardsTable.user_id, input.user_id));
+    }
+
+    const results = await db.select()
+      .from(rateCardsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(rateCardsTable.level), desc(rateCardsTable.valid_from))
+      .execute();
+
+    return results.map(rateCard => ({
+      ...rateCard,
+      hourly_rate: parseFloat(rateCard.hourly_rate) // Convert string back to number
+    }));
+  } catch (error) {
+    console.error('Failed to get rate cards:', error);
+    throw error;
+  }
+};
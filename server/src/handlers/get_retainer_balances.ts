@@ -0,0 +1,110 @@
+import { db } from '../db';
+import { clientsTable, positionsTable, retainersTable, retainerScopesTable } from '../db/schema';
+import { type RetainerBalancesInput, type RetainerBalance } from '../schema';
+import { getRetainerPurchase, measureRetainerUsage, toRetainer } from '../helpers/retainers';
+import { and, asc, desc, eq, inArray, or, type SQL } from 'drizzle-orm';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Balance of each retainer with its burn-down: the cumulative draw-down and what is left
+ * after every day with bookings. Amount bundles price time through createRateResolver;
+ * hours without a rate are reported separately instead of drawing down the amount.
+ */
+export const getRetainerBalances = async (input: RetainerBalancesInput): Promise<RetainerBalance[]> => {
+  try {
+    const asOf = (input.as_of ?? new Date()).toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.client_id !== undefined) {
+      conditions.push(eq(retainersTable.client_id, input.client_id));
+    }
+
+    if (input.position_id !== undefined) {
+      const position = await db.select()
+        .from(positionsTable)
+        .where(eq(positionsTable.id, input.position_id))
+        .limit(1)
+        .execute();
+
+      if (position.length === 0) {
+        return [];
+      }
+
+      // Retainers scoped to the position itself or to its whole project
+      const scoped = await db.select({ retainer_id: retainerScopesTable.retainer_id })
+        .from(retainerScopesTable)
+        .where(or(
+          eq(retainerScopesTable.position_id, position[0].id),
+          eq(retainerScopesTable.project_id, position[0].project_id)
+        ))
+        .execute();
+
+      if (scoped.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(retainersTable.id, scoped.map(scope => scope.retainer_id)));
+    }
+
+    const rows = await db.select({ retainer: retainersTable, client_name: clientsTable.name, currency: clientsTable.currency })
+      .from(retainersTable)
+      .innerJoin(clientsTable, eq(retainersTable.client_id, clientsTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(clientsTable.name), desc(retainersTable.valid_from), asc(retainersTable.id))
+      .execute();
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const scopes = await db.select()
+      .from(retainerScopesTable)
+      .where(inArray(retainerScopesTable.retainer_id, rows.map(row => row.retainer.id)))
+      .orderBy(asc(retainerScopesTable.id))
+      .execute();
+
+    const balances: RetainerBalance[] = [];
+    for (const { retainer, client_name, currency } of rows) {
+      const { unit, purchased } = getRetainerPurchase(retainer);
+      const usage = await measureRetainerUsage(db, retainer);
+
+      let used = 0;
+      let unpricedHours = 0;
+      const burnDown: RetainerBalance['burn_down'] = [];
+      for (const entry of usage) {
+        if (entry.value === null) {
+          unpricedHours += entry.hours;
+        } else {
+          used += entry.value;
+        }
+
+        const point = { date: entry.date, used: round(used), remaining: round(purchased - used) };
+        if (burnDown.length > 0 && burnDown[burnDown.length - 1].date === entry.date) {
+          burnDown[burnDown.length - 1] = point;
+        } else {
+          burnDown.push(point);
+        }
+      }
+
+      balances.push({
+        ...toRetainer(retainer, scopes.filter(scope => scope.retainer_id === retainer.id)),
+        client_name,
+        currency,
+        unit,
+        purchased,
+        used: round(used),
+        remaining: round(purchased - used),
+        used_percent: round((used / purchased) * 100),
+        unpriced_hours: round(unpricedHours),
+        is_active: retainer.valid_from <= asOf && retainer.valid_to >= asOf,
+        is_exhausted: round(used) >= purchased,
+        burn_down: burnDown
+      });
+    }
+
+    return balances;
+  } catch (error) {
+    console.error('Retainer balance report failed:', error);
+    throw error;
+  }
+};
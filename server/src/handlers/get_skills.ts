@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { skillsTable } from '../db/schema';
+import { type Skill } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getSkills = async (): Promise<Skill[]> => {
+  try {
+    const results = await db.select()
+      .from(skillsTable)
+      .orderBy(asc(skillsTable.category), asc(skillsTable.name))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get skills:', error);
+    throw error;
+  }
+};
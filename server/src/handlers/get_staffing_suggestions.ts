@@ -0,0 +1,126 @@
+import { db } from '../db';
+import { assignmentsTable, positionsTable, projectsTable, usersTable, userSkillsTable } from '../db/schema';
+import { type StaffingSuggestionsInput, type StaffingSuggestions, type SkillLevel } from '../schema';
+import { getPlannedHoursByWeek } from '../helpers/allocations';
+import { getWeeklyCapacity } from '../helpers/capacity';
+import { getSkillMatchPercent, loadPositionSkills } from '../helpers/skills';
+import { getWeekEnd, getWeekStart, getWeekStarts, toDateString } from '../helpers/week';
+import { and, asc, eq, gte, isNull, lte, or } from 'drizzle-orm';
+
+// Projects without an end date are staffed for this many weeks
+const OPEN_ENDED_STAFFING_WEEKS = 12;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Ranks users for a position by how well their skills cover the position's required
+ * skills, then by their free hours over the rest of the project: capacity after
+ * holidays and approved absences minus allocations, week by week.
+ */
+export const getStaffingSuggestions = async (input: StaffingSuggestionsInput): Promise<StaffingSuggestions> => {
+  try {
+    const position = await db.select({ position: positionsTable, project: projectsTable })
+      .from(positionsTable)
+      .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+      .where(eq(positionsTable.id, input.position_id))
+      .limit(1)
+      .execute();
+
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    const { project } = position[0];
+    const asOf = toDateString(input.as_of ?? new Date());
+
+    if (project.end_date !== null && project.end_date < asOf) {
+      throw new Error(`Project ${project.name} ended on ${project.end_date}`);
+    }
+
+    const startDate = project.start_date !== null && project.start_date > asOf ? project.start_date : asOf;
+    const firstWeek = getWeekStart(new Date(startDate));
+    const lastWeek = project.end_date !== null
+      ? getWeekStart(new Date(project.end_date))
+      : getWeekStarts(new Date(firstWeek), OPEN_ENDED_STAFFING_WEEKS)[OPEN_ENDED_STAFFING_WEEKS - 1];
+    const weekCount = Math.round((Date.parse(lastWeek) - Date.parse(firstWeek)) / (7 * 24 * 60 * 60 * 1000)) + 1;
+    const weeks = getWeekStarts(new Date(firstWeek), weekCount);
+    const periodEnd = getWeekEnd(lastWeek);
+
+    const required = await loadPositionSkills(db, input.position_id);
+
+    const users = await db.select({ id: usersTable.id, name: usersTable.name, role: usersTable.role })
+      .from(usersTable)
+      .orderBy(asc(usersTable.name))
+      .execute();
+
+    const userSkills = await db.select().from(userSkillsTable).execute();
+    const planned = await getPlannedHoursByWeek(db, firstWeek, lastWeek);
+
+    const assigned = await db.select({ user_id: assignmentsTable.user_id })
+      .from(assignmentsTable)
+      .where(and(
+        eq(assignmentsTable.position_id, input.position_id),
+        or(isNull(assignmentsTable.start_date), lte(assignmentsTable.start_date, periodEnd)),
+        or(isNull(assignmentsTable.end_date), gte(assignmentsTable.end_date, firstWeek))
+      ))
+      .execute();
+    const assignedUserIds = new Set(assigned.map(assignment => assignment.user_id));
+
+    const suggestions = await Promise.all(users.map(async (user) => {
+      const levels = new Map<number, SkillLevel>(
+        userSkills.filter(skill => skill.user_id === user.id).map(skill => [skill.skill_id, skill.level])
+      );
+      const capacity = await getWeeklyCapacity(db, user.id, weeks);
+      const plannedByWeek = planned.get(user.id) ?? new Map<string, number>();
+
+      // Overbooking one week does not use up free hours of another
+      let capacityHours = 0;
+      let plannedHours = 0;
+      let freeHours = 0;
+      for (const week of weeks) {
+        const weekCapacity = capacity.get(week) ?? 0;
+        const weekPlanned = plannedByWeek.get(week) ?? 0;
+        capacityHours += weekCapacity;
+        plannedHours += weekPlanned;
+        freeHours += Math.max(0, weekCapacity - weekPlanned);
+      }
+
+      const skills = required.map(skill => ({
+        skill_id: skill.skill_id,
+        skill_name: skill.skill_name,
+        min_level: skill.min_level,
+        level: levels.get(skill.skill_id) ?? null
+      }));
+      const skillMatchPercent = getSkillMatchPercent(required, levels);
+
+      return {
+        user_id: user.id,
+        user_name: user.name,
+        role: user.role,
+        skill_match_percent: skillMatchPercent,
+        is_qualified: skillMatchPercent === 100,
+        skills,
+        capacity_hours: round(capacityHours),
+        planned_hours: round(plannedHours),
+        free_hours: round(freeHours),
+        is_assigned: assignedUserIds.has(user.id)
+      };
+    }));
+
+    suggestions.sort((a, b) =>
+      b.skill_match_percent - a.skill_match_percent ||
+      b.free_hours - a.free_hours ||
+      a.user_name.localeCompare(b.user_name)
+    );
+
+    return {
+      position_id: input.position_id,
+      period_start: firstWeek,
+      period_end: periodEnd,
+      suggestions: suggestions.slice(0, input.limit)
+    };
+  } catch (error) {
+    console.error('Staffing suggestions failed:', error);
+    throw error;
+  }
+};
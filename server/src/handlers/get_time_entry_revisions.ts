@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { timeEntryRevisionsTable } from '../db/schema';
+import { type TimeEntryRevision, type TimeEntrySnapshot } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export const getTimeEntryRevisions = async (input: { time_entry_id: number }): Promise<TimeEntryRevision[]> => {
+  try {
+    // Oldest first so the history reads as a sequence of changes
+    const results = await db.select()
+      .from(timeEntryRevisionsTable)
+      .where(eq(timeEntryRevisionsTable.time_entry_id, input.time_entry_id))
+      .orderBy(asc(timeEntryRevisionsTable.created_at), asc(timeEntryRevisionsTable.id))
+      .execute();
+
+    // jsonb columns come back untyped
+    return results.map(revision => ({
+      ...revision,
+      before: revision.before as TimeEntrySnapshot,
+      after: revision.after as TimeEntrySnapshot | null
+    }));
+  } catch (error) {
+    console.error('Failed to get time entry revisions:', error);
+    throw error;
+  }
+};
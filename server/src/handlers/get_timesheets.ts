@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { timesheetsTable } from '../db/schema';
+import { type GetTimesheetsInput, type Timesheet } from '../schema';
+import { getWeekStart } from '../helpers/week';
+import { eq, and, desc, type SQL } from 'drizzle-orm';
+
+export const getTimesheets = async (input: GetTimesheetsInput): Promise<Timesheet[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(timesheetsTable.user_id, input.user_id));
+    }
+
+    if (input.week_start) {
+      conditions.push(eq(timesheetsTable.week_start, getWeekStart(input.week_start)));
+    }
+
+    if (input.status) {
+      conditions.push(eq(timesheetsTable.status, input.status));
+    }
+
+    const results = await db.select()
+      .from(timesheetsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(timesheetsTable.week_start), timesheetsTable.user_id)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get timesheets:', error);
+    throw error;
+  }
+};
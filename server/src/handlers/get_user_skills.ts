@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { userSkillsTable } from '../db/schema';
+import { type GetUserSkillsInput, type UserSkill } from '../schema';
+import { loadUserSkills } from '../helpers/skills';
+import { and, eq, type SQL } from 'drizzle-orm';
+
+export const getUserSkills = async (input: GetUserSkillsInput): Promise<UserSkill[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(userSkillsTable.user_id, input.user_id));
+    }
+
+    if (input.skill_id !== undefined) {
+      conditions.push(eq(userSkillsTable.skill_id, input.skill_id));
+    }
+
+    return await loadUserSkills(db, conditions.length > 0 ? and(...conditions) : undefined);
+  } catch (error) {
+    console.error('Failed to get user skills:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type User } from '../schema';
+import { toUser } from '../helpers/users';
 
 export const getUsers = async (): Promise<User[]> => {
   try {
@@ -8,11 +9,7 @@ export const getUsers = async (): Promise<User[]> => {
       .from(usersTable)
       .execute();
 
-    // Convert numeric fields back to numbers before returning
-    return results.map(user => ({
-      ...user,
-      hourly_rate: user.hourly_rate ? parseFloat(user.hourly_rate) : null
-    }));
+    return results.map(toUser);
   } catch (error) {
     console.error('Failed to fetch users:', error);
     throw error;
@@ -1,6 +1,8 @@
 import { db } from '../db';
 import { usersTable, timeEntriesTable } from '../db/schema';
 import { type UtilizationReportInput } from '../schema';
+import { isInApprovedWeek } from '../helpers/timesheet_status';
+import { getAvailableHours } from '../helpers/capacity';
 import { eq, and, gte, lte, sum, SQL } from 'drizzle-orm';
 import { z } from 'zod';
 
@@ -8,9 +10,13 @@ import { z } from 'zod';
 export const utilizationReportSchema = z.object({
     user_id: z.number(),
     user_name: z.string(),
-    total_hours: z.number(),
+    available_hours: z.number(), // Contracted hours in the period
+    total_hours: z.number(), // Booked hours
     billable_hours: z.number(),
-    utilization_rate: z.number(), // Percentage
+    unbooked_hours: z.number(), // Contracted hours not booked at all
+    utilization_rate: z.number(), // Percentage of available hours booked
+    billable_utilization_rate: z.number(), // Percentage of available hours booked as billable
+    billable_ratio: z.number(), // Percentage of booked hours that are billable
     period_start: z.coerce.date(),
     period_end: z.coerce.date()
 });
@@ -48,6 +54,10 @@ export const getUtilizationReport = async (input: UtilizationReportInput): Promi
                 lte(timeEntriesTable.date, endDateStr)
             ];
 
+            if (input.approved_only) {
+                conditions.push(isInApprovedWeek());
+            }
+
             // Query total hours
             const totalHoursQuery = db.select({
                 total: sum(timeEntriesTable.hours)
@@ -62,24 +72,30 @@ export const getUtilizationReport = async (input: UtilizationReportInput): Promi
             .from(timeEntriesTable)
             .where(and(...conditions, eq(timeEntriesTable.billable, true)));
 
-            const [totalResult, billableResult] = await Promise.all([
+            const [totalResult, billableResult, availableHours] = await Promise.all([
                 totalHoursQuery.execute(),
-                billableHoursQuery.execute()
+                billableHoursQuery.execute(),
+                getAvailableHours(db, user.user_id, startDateStr, endDateStr)
             ]);
 
             // Convert numeric values and handle nulls
             const totalHours = totalResult[0]?.total ? parseFloat(totalResult[0].total) : 0;
             const billableHours = billableResult[0]?.billable ? parseFloat(billableResult[0].billable) : 0;
 
-            // Calculate utilization rate as percentage
-            const utilizationRate = totalHours > 0 ? (billableHours / totalHours) * 100 : 0;
+            // Calculate rates as percentages, rounded to 2 decimal places
+            const toPercentage = (part: number, whole: number) =>
+                whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
 
             reports.push({
                 user_id: user.user_id,
                 user_name: user.user_name,
+                available_hours: Math.round(availableHours * 100) / 100,
                 total_hours: totalHours,
                 billable_hours: billableHours,
-                utilization_rate: Math.round(utilizationRate * 100) / 100, // Round to 2 decimal places
+                unbooked_hours: Math.round(Math.max(0, availableHours - totalHours) * 100) / 100,
+                utilization_rate: toPercentage(totalHours, availableHours),
+                billable_utilization_rate: toPercentage(billableHours, availableHours),
+                billable_ratio: toPercentage(billableHours, totalHours),
                 period_start: input.start_date,
                 period_end: input.end_date
             });
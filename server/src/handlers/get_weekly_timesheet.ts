@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { timeEntriesTable, positionsTable, projectsTable, clientsTable, absencesTable } from '../db/schema';
+import { type WeeklyTimesheetInput, type WeeklyTimesheet, type WeeklyTimesheetRow } from '../schema';
+import { getWeekDays } from '../helpers/week';
+import { getDailyCapacity } from '../helpers/capacity';
+import { getUserHolidays } from '../helpers/holiday';
+import { eq, and, gte, lte, asc } from 'drizzle-orm';
+
+export const getWeeklyTimesheet = async (input: WeeklyTimesheetInput): Promise<WeeklyTimesheet> => {
+  try {
+    const days = getWeekDays(input.week_start);
+
+    // Query the week's entries with their position hierarchy
+    const results = await db.select({
+      id: timeEntriesTable.id,
+      date: timeEntriesTable.date,
+      hours: timeEntriesTable.hours,
+      position_id: positionsTable.id,
+      position_name: positionsTable.name,
+      project_name: projectsTable.name,
+      client_name: clientsTable.name
+    })
+    .from(timeEntriesTable)
+    .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+    .where(and(
+      eq(timeEntriesTable.user_id, input.user_id),
+      gte(timeEntriesTable.date, days[0]),
+      lte(timeEntriesTable.date, days[6])
+    ))
+    .orderBy(asc(clientsTable.name), asc(projectsTable.name), asc(positionsTable.name), asc(timeEntriesTable.id))
+    .execute();
+
+    // Group entries into one row per position, one cell per day
+    const rowsByPosition = new Map<number, WeeklyTimesheetRow>();
+
+    for (const entry of results) {
+      if (!rowsByPosition.has(entry.position_id)) {
+        rowsByPosition.set(entry.position_id, {
+          position_id: entry.position_id,
+          position_name: entry.position_name,
+          project_name: entry.project_name,
+          client_name: entry.client_name,
+          cells: days.map(date => ({ date, hours: 0, time_entry_ids: [] })),
+          total_hours: 0
+        });
+      }
+
+      const row = rowsByPosition.get(entry.position_id)!;
+      const cell = row.cells[days.indexOf(entry.date)];
+      const hours = parseFloat(entry.hours); // Convert numeric field to number
+      cell.hours += hours;
+      cell.time_entry_ids.push(entry.id);
+      row.total_hours += hours;
+    }
+
+    // Approved absences are shown alongside the grid
+    const absences = await db.select()
+      .from(absencesTable)
+      .where(and(
+        eq(absencesTable.user_id, input.user_id),
+        eq(absencesTable.status, 'approved'),
+        lte(absencesTable.start_date, days[6]),
+        gte(absencesTable.end_date, days[0])
+      ))
+      .orderBy(asc(absencesTable.start_date))
+      .execute();
+
+    const holidays = await getUserHolidays(db, input.user_id, days[0], days[6]);
+    const capacity = await getDailyCapacity(db, input.user_id, days[0], days[6]);
+
+    const rows = Array.from(rowsByPosition.values());
+    const dailyTotals = days.map((_, index) => rows.reduce((sum, row) => sum + row.cells[index].hours, 0));
+    const expectedHours = days.map(date => Math.round((capacity.get(date) ?? 0) * 100) / 100);
+    const missingHours = expectedHours.reduce((sum, expected, index) => sum + Math.max(0, expected - dailyTotals[index]), 0);
+
+    return {
+      user_id: input.user_id,
+      week_start: days[0],
+      days,
+      rows,
+      daily_totals: dailyTotals,
+      total_hours: dailyTotals.reduce((sum, hours) => sum + hours, 0),
+      expected_hours: expectedHours,
+      missing_hours: Math.round(missingHours * 100) / 100,
+      absences,
+      holidays
+    };
+  } catch (error) {
+    console.error('Weekly timesheet retrieval failed:', error);
+    throw error;
+  }
+};
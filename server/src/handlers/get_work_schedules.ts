@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { workSchedulesTable } from '../db/schema';
+import { type GetWorkSchedulesInput, type WorkSchedule } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+
+export const getWorkSchedules = async (input: GetWorkSchedulesInput): Promise<WorkSchedule[]> => {
+  try {
+    const results = await db.select()
+      .from(workSchedulesTable)
+      .where(eq(workSchedulesTable.user_id, input.user_id))
+      .orderBy(desc(workSchedulesTable.effective_from))
+      .execute();
+
+    return results.map(schedule => ({
+      ...schedule,
+      weekly_hours: parseFloat(schedule.weekly_hours) // Convert string back to number
+    }));
+  } catch (error) {
+    console.error('Failed to get work schedules:', error);
+    throw error;
+  }
+};
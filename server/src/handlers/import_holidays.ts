@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { type ImportHolidaysInput, type ImportHolidaysResult } from '../schema';
+import { parseIcsHolidays } from '../helpers/ics';
+import { eq } from 'drizzle-orm';
+
+// Adds the holidays of an ICS file to a calendar; dates it already has are left untouched
+export const importHolidays = async (input: ImportHolidaysInput): Promise<ImportHolidaysResult> => {
+  try {
+    const calendar = await db.select()
+      .from(holidayCalendarsTable)
+      .where(eq(holidayCalendarsTable.id, input.calendar_id))
+      .limit(1)
+      .execute();
+
+    if (calendar.length === 0) {
+      throw new Error(`Holiday calendar with ID ${input.calendar_id} does not exist`);
+    }
+
+    const holidays = parseIcsHolidays(input.ics);
+    if (holidays.length === 0) {
+      throw new Error('ICS file contains no events');
+    }
+
+    const inserted = await db.insert(holidaysTable)
+      .values(holidays.map(holiday => ({
+        calendar_id: input.calendar_id,
+        date: holiday.date,
+        name: holiday.name
+      })))
+      .onConflictDoNothing({ target: [holidaysTable.calendar_id, holidaysTable.date] })
+      .returning()
+      .execute();
+
+    return {
+      imported: inserted.length,
+      skipped: holidays.length - inserted.length
+    };
+  } catch (error) {
+    console.error('Holiday import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { periodLocksTable, usersTable } from '../db/schema';
+import { type LockPeriodInput, type PeriodLock } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const lockPeriod = async (input: LockPeriodInput): Promise<PeriodLock> => {
+  try {
+    const startDate = input.start_date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const endDate = input.end_date.toISOString().split('T')[0];
+
+    if (startDate > endDate) {
+      throw new Error('Start date must not be after end date');
+    }
+
+    // Only administrators can close periods
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.locked_by))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.locked_by} does not exist`);
+    }
+
+    if (user[0].role !== 'administrator') {
+      throw new Error('Only administrators can lock periods');
+    }
+
+    const result = await db.insert(periodLocksTable)
+      .values({
+        start_date: startDate,
+        end_date: endDate,
+        reason: input.reason,
+        locked_by: input.locked_by
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Period lock failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type LoginInput, type Session } from '../schema';
+import { DUMMY_PASSWORD_HASH, createSession, verifyPassword } from '../helpers/auth';
+import { toUser } from '../helpers/users';
+import { and, eq, lte } from 'drizzle-orm';
+
+// The same error and the same work for unknown emails and wrong passwords, so logins do not reveal who has an account
+export const login = async (input: LoginInput): Promise<Session> => {
+  try {
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .limit(1)
+      .execute();
+
+    const passwordHash = user[0]?.password_hash ?? null;
+    const passwordMatches = await verifyPassword(input.password, passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (passwordHash === null || !passwordMatches) {
+      throw new Error('Invalid email or password');
+    }
+
+    // Expired sessions of the user are of no use anymore
+    await db.delete(sessionsTable)
+      .where(and(eq(sessionsTable.user_id, user[0].id), lte(sessionsTable.expires_at, new Date())))
+      .execute();
+
+    const session = await createSession(user[0].id);
+
+    return { ...session, user: toUser(user[0]) };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
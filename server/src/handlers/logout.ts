@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type LogoutInput } from '../schema';
+import { hashToken } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+// Ends the session of the token; unknown tokens are ignored, the session is gone either way
+export const logout = async (input: LogoutInput): Promise<void> => {
+  try {
+    await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(input.token)))
+      .execute();
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type MarkNotificationsReadInput, type Notification } from '../schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+// Returns the notifications that were unread; other users' notifications are left alone
+export const markNotificationsRead = async (input: MarkNotificationsReadInput): Promise<Notification[]> => {
+  try {
+    if (input.notification_ids?.length === 0) {
+      return [];
+    }
+
+    return await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(and(
+        eq(notificationsTable.user_id, input.user_id),
+        isNull(notificationsTable.read_at),
+        input.notification_ids ? inArray(notificationsTable.id, input.notification_ids) : undefined
+      ))
+      .returning()
+      .execute();
+  } catch (error) {
+    console.error('Marking notifications read failed:', error);
+    throw error;
+  }
+};
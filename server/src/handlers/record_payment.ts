@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { invoicesTable, paymentsTable } from '../db/schema';
+import { type RecordPaymentInput, type Payment } from '../schema';
+import { OPEN_INVOICE_STATUSES } from '../helpers/invoice';
+import { eq } from 'drizzle-orm';
+
+// Records a full or partial payment and moves the invoice to partially paid or paid
+export const recordPayment = async (input: RecordPaymentInput): Promise<Payment> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(invoicesTable)
+        .where(eq(invoicesTable.id, input.invoice_id))
+        .for('update')
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Invoice with ID ${input.invoice_id} does not exist`);
+      }
+
+      const invoice = existing[0];
+      if (!(OPEN_INVOICE_STATUSES as readonly string[]).includes(invoice.status)) {
+        throw new Error(`Invoice with ID ${invoice.id} is ${invoice.status}; payments can only be recorded for sent invoices`);
+      }
+
+      const paidOn = input.paid_on.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+      if (invoice.sent_on !== null && paidOn < invoice.sent_on) {
+        throw new Error(`Payment date ${paidOn} is before the invoice was sent on ${invoice.sent_on}`);
+      }
+
+      // Work in cents to avoid floating point drift
+      const balanceCents = Math.round(parseFloat(invoice.total) * 100) - Math.round(parseFloat(invoice.amount_paid) * 100);
+      const amountCents = Math.round(input.amount * 100);
+      if (amountCents > balanceCents) {
+        throw new Error(`Payment of ${input.amount.toFixed(2)} exceeds the balance due of ${(balanceCents / 100).toFixed(2)}`);
+      }
+
+      const payment = await tx.insert(paymentsTable)
+        .values({
+          invoice_id: invoice.id,
+          amount: (amountCents / 100).toString(), // Convert number to string for numeric column
+          paid_on: paidOn,
+          method: input.method,
+          reference: input.reference
+        })
+        .returning()
+        .execute();
+
+      const amountPaidCents = Math.round(parseFloat(invoice.amount_paid) * 100) + amountCents;
+      await tx.update(invoicesTable)
+        .set({
+          amount_paid: (amountPaidCents / 100).toString(),
+          status: amountCents === balanceCents ? 'paid' : 'partially_paid',
+          updated_at: new Date()
+        })
+        .where(eq(invoicesTable.id, invoice.id))
+        .execute();
+
+      return {
+        ...payment[0],
+        amount: parseFloat(payment[0].amount) // Convert string back to number
+      };
+    });
+  } catch (error) {
+    console.error('Payment recording failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { type RejectAbsenceInput, type Absence } from '../schema';
+import { reviewAbsence } from '../helpers/absence_review';
+
+// Rejection releases the days the request held against the allowance
+export const rejectAbsence = async (input: RejectAbsenceInput): Promise<Absence> => {
+  try {
+    return await reviewAbsence(input, 'rejected');
+  } catch (error) {
+    console.error('Absence rejection failed:', error);
+    throw error;
+  }
+};
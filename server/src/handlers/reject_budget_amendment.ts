@@ -0,0 +1,12 @@
+import { type RejectBudgetAmendmentInput, type BudgetAmendment } from '../schema';
+import { reviewBudgetAmendment } from '../helpers/budget_amendment_review';
+
+// Rejected requests stay in the amendment history without touching the budget
+export const rejectBudgetAmendment = async (input: RejectBudgetAmendmentInput): Promise<BudgetAmendment> => {
+  try {
+    return await reviewBudgetAmendment(input, 'rejected');
+  } catch (error) {
+    console.error('Budget amendment rejection failed:', error);
+    throw error;
+  }
+};
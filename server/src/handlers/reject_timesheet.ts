@@ -0,0 +1,12 @@
+import { type RejectTimesheetInput, type Timesheet } from '../schema';
+import { reviewTimesheet } from '../helpers/timesheet_review';
+
+// Rejection reopens the week: entries become editable again until resubmitted
+export const rejectTimesheet = async (input: RejectTimesheetInput): Promise<Timesheet> => {
+  try {
+    return await reviewTimesheet(input, 'rejected');
+  } catch (error) {
+    console.error('Timesheet rejection failed:', error);
+    throw error;
+  }
+};
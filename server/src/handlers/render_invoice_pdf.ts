@@ -0,0 +1,145 @@
+import { db } from '../db';
+import {
+  invoicesTable, invoiceLineItemsTable, invoiceTemplatesTable, clientsTable, positionsTable, projectsTable, timeEntriesTable, usersTable
+} from '../db/schema';
+import { type RenderInvoicePdfInput, type InvoicePdf } from '../schema';
+import { toInvoice } from '../helpers/invoice';
+import { DEFAULT_INVOICE_TEMPLATE, formatMoney, buildInvoicePdf, type InvoiceDocument } from '../helpers/invoice_pdf';
+import { asc, eq, or } from 'drizzle-orm';
+
+// Renders the invoice with the chosen, the default or the built-in template
+export const renderInvoicePdf = async (input: RenderInvoicePdfInput): Promise<InvoicePdf> => {
+  try {
+    const invoices = await db.select({ invoice: invoicesTable, client: clientsTable })
+      .from(invoicesTable)
+      .innerJoin(clientsTable, eq(invoicesTable.client_id, clientsTable.id))
+      .where(eq(invoicesTable.id, input.invoice_id))
+      .limit(1)
+      .execute();
+
+    if (invoices.length === 0) {
+      throw new Error(`Invoice with ID ${input.invoice_id} does not exist`);
+    }
+
+    const invoice = toInvoice(invoices[0].invoice);
+    const client = invoices[0].client;
+
+    let template = DEFAULT_INVOICE_TEMPLATE;
+    if (input.template_id !== undefined) {
+      const templates = await db.select()
+        .from(invoiceTemplatesTable)
+        .where(eq(invoiceTemplatesTable.id, input.template_id))
+        .limit(1)
+        .execute();
+
+      if (templates.length === 0) {
+        throw new Error(`Invoice template with ID ${input.template_id} does not exist`);
+      }
+      template = templates[0].body;
+    } else {
+      const defaults = await db.select()
+        .from(invoiceTemplatesTable)
+        .where(eq(invoiceTemplatesTable.is_default, true))
+        .limit(1)
+        .execute();
+
+      if (defaults.length > 0) {
+        template = defaults[0].body;
+      }
+    }
+
+    const lineItems = await db.select({
+      kind: invoiceLineItemsTable.kind,
+      description: invoiceLineItemsTable.description,
+      project_name: projectsTable.name,
+      position_name: positionsTable.name,
+      hours: invoiceLineItemsTable.hours,
+      hourly_rate: invoiceLineItemsTable.hourly_rate,
+      amount: invoiceLineItemsTable.amount
+    })
+      .from(invoiceLineItemsTable)
+      .leftJoin(positionsTable, eq(invoiceLineItemsTable.position_id, positionsTable.id))
+      // Milestone and cap adjustment lines name their project directly
+      .innerJoin(projectsTable, or(
+        eq(positionsTable.project_id, projectsTable.id),
+        eq(invoiceLineItemsTable.project_id, projectsTable.id)
+      ))
+      .where(eq(invoiceLineItemsTable.invoice_id, invoice.id))
+      .orderBy(asc(projectsTable.name), asc(invoiceLineItemsTable.kind), asc(positionsTable.name), asc(invoiceLineItemsTable.id))
+      .execute();
+
+    const groups: InvoiceDocument['groups'] = [];
+    for (const item of lineItems) {
+      if (groups.length === 0 || groups[groups.length - 1].project_name !== item.project_name) {
+        groups.push({ project_name: item.project_name, lines: [] });
+      }
+      // Lines other than time say what they are in the description, after the project
+      const projectPrefix = `${item.project_name} – `;
+      groups[groups.length - 1].lines.push({
+        position_name: (item.kind !== 'time' || item.position_name === null) && item.description.startsWith(projectPrefix)
+          ? item.description.slice(projectPrefix.length)
+          : item.position_name ?? item.description,
+        hours: item.hours === null ? null : parseFloat(item.hours), // Convert strings back to numbers
+        hourly_rate: item.hourly_rate === null ? null : parseFloat(item.hourly_rate),
+        amount: parseFloat(item.amount)
+      });
+    }
+
+    // A voided invoice has released its entries, so its appendix stays empty
+    let entries: InvoiceDocument['entries'] = null;
+    if (input.include_appendix) {
+      const rows = await db.select({
+        date: timeEntriesTable.date,
+        user_name: usersTable.name,
+        position_name: positionsTable.name,
+        hours: timeEntriesTable.hours,
+        description: timeEntriesTable.description
+      })
+        .from(timeEntriesTable)
+        .innerJoin(usersTable, eq(timeEntriesTable.user_id, usersTable.id))
+        .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+        .where(eq(timeEntriesTable.invoice_id, invoice.id))
+        .orderBy(asc(timeEntriesTable.date), asc(usersTable.name), asc(timeEntriesTable.id))
+        .execute();
+
+      entries = rows.map(row => ({ ...row, hours: parseFloat(row.hours) })); // Convert string back to number
+    }
+
+    const issuedOn = (invoice.finalized_at ?? new Date()).toISOString().split('T')[0];
+
+    const content = buildInvoicePdf(template, {
+      fields: {
+        invoice_number: invoice.number ?? 'DRAFT',
+        invoice_date: issuedOn,
+        due_date: invoice.due_date ?? '',
+        status: invoice.status,
+        period_start: invoice.period_start,
+        period_end: invoice.period_end,
+        client_name: client.name,
+        client_address: client.address ?? '',
+        subtotal: formatMoney(invoice.subtotal),
+        tax_rate: `${invoice.tax_rate}%`,
+        tax_amount: formatMoney(invoice.tax_amount),
+        total: formatMoney(invoice.total),
+        amount_paid: formatMoney(invoice.amount_paid),
+        balance_due: formatMoney(invoice.balance_due),
+        currency: invoice.currency
+      },
+      currency: invoice.currency,
+      tax_rate: invoice.tax_rate,
+      subtotal: invoice.subtotal,
+      tax_amount: invoice.tax_amount,
+      total: invoice.total,
+      groups,
+      entries
+    });
+
+    return {
+      filename: `${invoice.number ?? `draft-${invoice.id}`}.pdf`,
+      content_base64: content.toString('base64')
+    };
+  } catch (error) {
+    console.error('Invoice PDF rendering failed:', error);
+    throw error;
+  }
+};
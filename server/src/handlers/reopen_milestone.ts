@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { milestonesTable } from '../db/schema';
+import { type ReopenMilestoneInput, type Milestone } from '../schema';
+import { assertMilestoneNotInvoiced, toMilestone } from '../helpers/milestones';
+import { eq } from 'drizzle-orm';
+
+// Takes back a completion, e.g. when the client rejects the deliverable
+export const reopenMilestone = async (input: ReopenMilestoneInput): Promise<Milestone> => {
+  try {
+    const existing = await db.select()
+      .from(milestonesTable)
+      .where(eq(milestonesTable.id, input.milestone_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Milestone with ID ${input.milestone_id} does not exist`);
+    }
+
+    if (existing[0].completed_on === null) {
+      throw new Error(`Milestone with ID ${input.milestone_id} is not completed`);
+    }
+
+    assertMilestoneNotInvoiced(existing[0]);
+
+    const updated = await db.update(milestonesTable)
+      .set({ completed_on: null, updated_at: new Date() })
+      .where(eq(milestonesTable.id, input.milestone_id))
+      .returning()
+      .execute();
+
+    return toMilestone(updated[0]);
+  } catch (error) {
+    console.error('Milestone reopen failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,84 @@
+import { db } from '../db';
+import { absencesTable, absenceAllowancesTable, usersTable } from '../db/schema';
+import { type RequestAbsenceInput, type Absence } from '../schema';
+import { countAbsenceDays, getAbsenceDaysInYear, getOverlappingAbsences } from '../helpers/absence';
+import { and, eq } from 'drizzle-orm';
+
+export const requestAbsence = async (input: RequestAbsenceInput): Promise<Absence> => {
+  try {
+    const startDate = input.start_date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+    const endDate = input.end_date.toISOString().split('T')[0];
+
+    if (startDate > endDate) {
+      throw new Error('Start date must not be after end date');
+    }
+
+    if (input.half_day && startDate !== endDate) {
+      throw new Error('Half-day absences must start and end on the same day');
+    }
+
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const overlapping = await getOverlappingAbsences(db, input.user_id, startDate, endDate);
+    if (overlapping.length > 0) {
+      throw new Error(`Absence overlaps an existing absence from ${overlapping[0].start_date} to ${overlapping[0].end_date}`);
+    }
+
+    const requested = { user_id: input.user_id, start_date: startDate, end_date: endDate, half_day: input.half_day };
+    if (await countAbsenceDays(db, requested, startDate, endDate) === 0) {
+      throw new Error(`Absence from ${startDate} to ${endDate} contains no working days`);
+    }
+
+    // Check the allowance of every year the absence touches
+    const startYear = parseInt(startDate.slice(0, 4));
+    const endYear = parseInt(endDate.slice(0, 4));
+    for (let year = startYear; year <= endYear; year++) {
+      const allowance = await db.select()
+        .from(absenceAllowancesTable)
+        .where(and(
+          eq(absenceAllowancesTable.user_id, input.user_id),
+          eq(absenceAllowancesTable.year, year),
+          eq(absenceAllowancesTable.type, input.type)
+        ))
+        .limit(1)
+        .execute();
+
+      if (allowance.length === 0) {
+        continue; // No allowance means the type is not capped for that year
+      }
+
+      const requestedDays = await countAbsenceDays(db, requested, `${year}-01-01`, `${year}-12-31`);
+      const booked = await getAbsenceDaysInYear(db, input.user_id, input.type, year);
+      const remainingDays = parseFloat(allowance[0].days) - booked.used_days - booked.pending_days;
+
+      if (requestedDays > remainingDays) {
+        throw new Error(`Only ${remainingDays} ${input.type} days remain for ${year}; ${requestedDays} requested`);
+      }
+    }
+
+    const result = await db.insert(absencesTable)
+      .values({
+        user_id: input.user_id,
+        type: input.type,
+        start_date: startDate,
+        end_date: endDate,
+        half_day: input.half_day,
+        note: input.note
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Absence request failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { budgetAmendmentsTable, positionsTable, projectsTable, usersTable } from '../db/schema';
+import { type RequestBudgetAmendmentInput, type BudgetAmendment } from '../schema';
+import { toBudgetAmendment } from '../helpers/budget_amendment_review';
+import { eq } from 'drizzle-orm';
+
+// The budget stays as it is until an administrator approves the request
+export const requestBudgetAmendment = async (input: RequestBudgetAmendmentInput): Promise<BudgetAmendment> => {
+  try {
+    if ((input.project_id === null) === (input.position_id === null)) {
+      throw new Error('Budget amendments need either a project or a position');
+    }
+
+    if (input.delta === 0) {
+      throw new Error('Budget amendments must change the budget');
+    }
+
+    const requester = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.requested_by))
+      .limit(1)
+      .execute();
+
+    if (requester.length === 0) {
+      throw new Error(`User with ID ${input.requested_by} does not exist`);
+    }
+
+    if (input.project_id !== null) {
+      const project = await db.select().from(projectsTable).where(eq(projectsTable.id, input.project_id)).limit(1).execute();
+      if (project.length === 0) {
+        throw new Error(`Project with ID ${input.project_id} does not exist`);
+      }
+    } else {
+      const position = await db.select().from(positionsTable).where(eq(positionsTable.id, input.position_id!)).limit(1).execute();
+      if (position.length === 0) {
+        throw new Error(`Position with ID ${input.position_id} does not exist`);
+      }
+    }
+
+    const result = await db.insert(budgetAmendmentsTable)
+      .values({
+        project_id: input.project_id,
+        position_id: input.position_id,
+        delta: input.delta.toFixed(2), // Convert number to string for numeric column
+        reason: input.reason,
+        requested_by: input.requested_by
+      })
+      .returning()
+      .execute();
+
+    return toBudgetAmendment(result[0]);
+  } catch (error) {
+    console.error('Budget amendment request failed:', error);
+    throw error;
+  }
+};
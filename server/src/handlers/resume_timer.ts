@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { activeTimersTable } from '../db/schema';
+import { type TimerActionInput, type ActiveTimer } from '../schema';
+import { toActiveTimer } from '../helpers/active_timer';
+import { eq } from 'drizzle-orm';
+
+export const resumeTimer = async (input: TimerActionInput): Promise<ActiveTimer> => {
+  try {
+    const existing = await db.select()
+      .from(activeTimersTable)
+      .where(eq(activeTimersTable.user_id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`User with ID ${input.user_id} has no active timer`);
+    }
+
+    const timer = existing[0];
+    if (timer.status !== 'paused') {
+      throw new Error('Timer is not paused');
+    }
+
+    // Start a new running segment
+    const now = new Date();
+    const result = await db.update(activeTimersTable)
+      .set({
+        status: 'running',
+        segment_started_at: now,
+        updated_at: now
+      })
+      .where(eq(activeTimersTable.id, timer.id))
+      .returning()
+      .execute();
+
+    return toActiveTimer(result[0], now);
+  } catch (error) {
+    console.error('Timer resume failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,174 @@
+import { db } from '../db';
+import { timeEntriesTable, timeEntryRevisionsTable, usersTable, positionsTable } from '../db/schema';
+import { type SaveWeeklyTimesheetInput, type WeeklyTimesheet } from '../schema';
+import { toTimeEntrySnapshot } from '../helpers/time_entry_snapshot';
+import { getWeekDays } from '../helpers/week';
+import { assertTimeEntryEditable, assertTimeEntryNotInvoiced } from '../helpers/time_entry_guards';
+import { assertRetainerAllows } from '../helpers/retainers';
+import { assertAssigned } from '../helpers/assignments';
+import { getWeeklyTimesheet } from './get_weekly_timesheet';
+import { checkBudgetThresholds } from './check_budget_thresholds';
+import { eq, and, gte, lte, inArray, asc } from 'drizzle-orm';
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Diffs the submitted grid against the user's existing entries for the week.
+ * Positions missing from the grid are left untouched. For each cell:
+ * - no entries and hours > 0: a new entry is created
+ * - hours = 0: all entries of the cell are deleted
+ * - changed total: the latest entry absorbs the difference, or the cell is
+ *   collapsed into its first entry when the difference would not fit
+ * Every update and delete writes a revision, like the single-entry paths,
+ * and changed cells must pass the same lock and retainer checks. Positions with
+ * changed cells are checked against their budget thresholds once saved.
+ */
+export const saveWeeklyTimesheet = async (input: SaveWeeklyTimesheetInput): Promise<WeeklyTimesheet> => {
+  try {
+    const days = getWeekDays(input.week_start);
+    const positionIds = input.rows.map(row => row.position_id);
+
+    if (new Set(positionIds).size !== positionIds.length) {
+      throw new Error('Each position may only appear once in the timesheet');
+    }
+
+    const changedPositionIds = new Set<number>();
+
+    await db.transaction(async (tx) => {
+      // Verify that both users exist
+      for (const userId of new Set([input.user_id, input.changed_by])) {
+        const user = await tx.select()
+          .from(usersTable)
+          .where(eq(usersTable.id, userId))
+          .limit(1)
+          .execute();
+
+        if (user.length === 0) {
+          throw new Error(`User with ID ${userId} does not exist`);
+        }
+      }
+
+      if (positionIds.length === 0) return;
+
+      // Verify that every position exists
+      const positions = await tx.select({ id: positionsTable.id })
+        .from(positionsTable)
+        .where(inArray(positionsTable.id, positionIds))
+        .execute();
+
+      const knownPositionIds = new Set(positions.map(position => position.id));
+      const missingPositionId = positionIds.find(id => !knownPositionIds.has(id));
+      if (missingPositionId !== undefined) {
+        throw new Error(`Position with ID ${missingPositionId} does not exist`);
+      }
+
+      const existing = await tx.select()
+        .from(timeEntriesTable)
+        .where(and(
+          eq(timeEntriesTable.user_id, input.user_id),
+          inArray(timeEntriesTable.position_id, positionIds),
+          gte(timeEntriesTable.date, days[0]),
+          lte(timeEntriesTable.date, days[6])
+        ))
+        .orderBy(asc(timeEntriesTable.id))
+        .execute();
+
+      const recordRevision = async (entry: typeof existing[number], after: typeof existing[number] | null) => {
+        await tx.insert(timeEntryRevisionsTable)
+          .values({
+            time_entry_id: entry.id,
+            action: after ? 'update' : 'delete',
+            changed_by: input.changed_by,
+            before: toTimeEntrySnapshot(entry),
+            after: after ? toTimeEntrySnapshot(after) : null
+          })
+          .execute();
+      };
+
+      const deleteEntry = async (entry: typeof existing[number]) => {
+        await recordRevision(entry, null);
+        await tx.delete(timeEntriesTable)
+          .where(eq(timeEntriesTable.id, entry.id))
+          .execute();
+      };
+
+      const setEntryHours = async (entry: typeof existing[number], hours: number) => {
+        const updated = await tx.update(timeEntriesTable)
+          .set({ hours: hours.toString(), updated_at: new Date() }) // Convert number to string for numeric column
+          .where(eq(timeEntriesTable.id, entry.id))
+          .returning()
+          .execute();
+        await recordRevision(entry, updated[0]);
+      };
+
+      for (const row of input.rows) {
+        for (const [index, date] of days.entries()) {
+          const targetHours = roundHours(row.hours[index]);
+          const cellEntries = existing.filter(entry => entry.position_id === row.position_id && entry.date === date);
+          const currentHours = roundHours(cellEntries.reduce((sum, entry) => sum + parseFloat(entry.hours), 0));
+
+          if (targetHours === currentHours) continue;
+          changedPositionIds.add(row.position_id);
+
+          // Only changed cells need an open week and period
+          await assertTimeEntryEditable(tx, input.user_id, date);
+          cellEntries.forEach(assertTimeEntryNotInvoiced);
+
+          // Time can be taken off any position, but only added where the user is assigned
+          if (targetHours > currentHours) {
+            await assertAssigned(tx, input.user_id, row.position_id, date);
+          }
+
+          // The cell's new total replaces its entries; new entries take the sheet's billable flag
+          await assertRetainerAllows(tx, {
+            user_id: input.user_id,
+            position_id: row.position_id,
+            date,
+            hours: targetHours,
+            billable: cellEntries.length > 0 ? cellEntries[cellEntries.length - 1].billable : input.billable
+          }, cellEntries.map(entry => entry.id));
+
+          if (cellEntries.length === 0) {
+            await tx.insert(timeEntriesTable)
+              .values({
+                user_id: input.user_id,
+                position_id: row.position_id,
+                description: null,
+                hours: targetHours.toString(), // Convert number to string for numeric column
+                date,
+                billable: input.billable
+              })
+              .execute();
+          } else if (targetHours === 0) {
+            for (const entry of cellEntries) {
+              await deleteEntry(entry);
+            }
+          } else {
+            const latest = cellEntries[cellEntries.length - 1];
+            const adjustedHours = roundHours(parseFloat(latest.hours) + targetHours - currentHours);
+
+            if (adjustedHours > 0) {
+              await setEntryHours(latest, adjustedHours);
+            } else {
+              const [first, ...rest] = cellEntries;
+              for (const entry of rest) {
+                await deleteEntry(entry);
+              }
+              await setEntryHours(first, targetHours);
+            }
+          }
+        }
+      }
+    });
+
+    // Alerting never fails a saved sheet; the check logs its own errors
+    for (const positionId of changedPositionIds) {
+      await checkBudgetThresholds({ position_id: positionId, time_entry_id: null }).catch(() => undefined);
+    }
+
+    return await getWeeklyTimesheet({ user_id: input.user_id, week_start: input.week_start });
+  } catch (error) {
+    console.error('Weekly timesheet save failed:', error);
+    throw error;
+  }
+};
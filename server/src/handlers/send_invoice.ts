@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { invoicesTable } from '../db/schema';
+import { type SendInvoiceInput, type Invoice } from '../schema';
+import { toInvoice } from '../helpers/invoice';
+import { eq } from 'drizzle-orm';
+
+// Records that a finalized invoice went out and when payment is due
+export const sendInvoice = async (input: SendInvoiceInput): Promise<Invoice> => {
+  try {
+    const existing = await db.select()
+      .from(invoicesTable)
+      .where(eq(invoicesTable.id, input.invoice_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Invoice with ID ${input.invoice_id} does not exist`);
+    }
+
+    if (existing[0].status !== 'finalized') {
+      throw new Error(`Invoice with ID ${input.invoice_id} is ${existing[0].status}; only finalized invoices can be sent`);
+    }
+
+    const dueDate = new Date(input.sent_on);
+    dueDate.setUTCDate(dueDate.getUTCDate() + input.payment_terms_days);
+
+    const result = await db.update(invoicesTable)
+      .set({
+        status: 'sent',
+        sent_on: input.sent_on.toISOString().split('T')[0], // Convert Dates to YYYY-MM-DD strings
+        due_date: dueDate.toISOString().split('T')[0],
+        updated_at: new Date()
+      })
+      .where(eq(invoicesTable.id, input.invoice_id))
+      .returning()
+      .execute();
+
+    return toInvoice(result[0]);
+  } catch (error) {
+    console.error('Invoice send failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { absenceAllowancesTable, usersTable } from '../db/schema';
+import { type SetAbsenceAllowanceInput, type AbsenceAllowance } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Creates the allowance for the user, year and type, or replaces its days
+export const setAbsenceAllowance = async (input: SetAbsenceAllowanceInput): Promise<AbsenceAllowance> => {
+  try {
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const result = await db.insert(absenceAllowancesTable)
+      .values({
+        user_id: input.user_id,
+        year: input.year,
+        type: input.type,
+        days: input.days.toString() // Convert number to string for numeric column
+      })
+      .onConflictDoUpdate({
+        target: [absenceAllowancesTable.user_id, absenceAllowancesTable.year, absenceAllowancesTable.type],
+        set: { days: input.days.toString(), updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    const allowance = result[0];
+    return {
+      ...allowance,
+      days: parseFloat(allowance.days) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Absence allowance update failed:', error);
+    throw error;
+  }
+};
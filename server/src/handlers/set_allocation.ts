@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { allocationsTable, usersTable, positionsTable } from '../db/schema';
+import { type SetAllocationInput, type Allocation } from '../schema';
+import { loadAllocations } from '../helpers/allocations';
+import { getWeekStart } from '../helpers/week';
+import { and, eq } from 'drizzle-orm';
+
+// Sets the planned hours of a user on a position for one week; null once zero hours removed it
+export const setAllocation = async (input: SetAllocationInput): Promise<Allocation | null> => {
+  try {
+    const user = await db.select().from(usersTable).where(eq(usersTable.id, input.user_id)).limit(1).execute();
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const position = await db.select().from(positionsTable).where(eq(positionsTable.id, input.position_id)).limit(1).execute();
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    const weekStart = getWeekStart(input.week_start);
+
+    if (input.planned_hours === 0) {
+      await db.delete(allocationsTable)
+        .where(and(
+          eq(allocationsTable.user_id, input.user_id),
+          eq(allocationsTable.position_id, input.position_id),
+          eq(allocationsTable.week_start, weekStart)
+        ))
+        .execute();
+      return null;
+    }
+
+    const result = await db.insert(allocationsTable)
+      .values({
+        user_id: input.user_id,
+        position_id: input.position_id,
+        week_start: weekStart,
+        planned_hours: input.planned_hours.toString() // Convert number to string for numeric column
+      })
+      .onConflictDoUpdate({
+        target: [allocationsTable.user_id, allocationsTable.position_id, allocationsTable.week_start],
+        set: { planned_hours: input.planned_hours.toString(), updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    const allocations = await loadAllocations(db, eq(allocationsTable.id, result[0].id));
+    return allocations[0];
+  } catch (error) {
+    console.error('Allocation update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { budgetThresholdsTable, positionsTable, projectsTable, usersTable } from '../db/schema';
+import { type SetBudgetThresholdsInput, type BudgetThreshold } from '../schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+
+/**
+ * Replaces the thresholds of a project or position. Thresholds that stay keep their
+ * triggered state, so saving the same percentages again does not alert twice; the manager
+ * saving them receives the alerts of all of them from now on.
+ */
+export const setBudgetThresholds = async (input: SetBudgetThresholdsInput): Promise<BudgetThreshold[]> => {
+  try {
+    if ((input.project_id === null) === (input.position_id === null)) {
+      throw new Error('Budget thresholds need either a project or a position');
+    }
+
+    const manager = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.configured_by))
+      .limit(1)
+      .execute();
+
+    if (manager.length === 0) {
+      throw new Error(`User with ID ${input.configured_by} does not exist`);
+    }
+
+    if (manager[0].role === 'consultant') {
+      throw new Error('Only project managers and administrators can set budget thresholds');
+    }
+
+    if (input.project_id !== null) {
+      const project = await db.select().from(projectsTable).where(eq(projectsTable.id, input.project_id)).limit(1).execute();
+      if (project.length === 0) {
+        throw new Error(`Project with ID ${input.project_id} does not exist`);
+      }
+    } else {
+      const position = await db.select().from(positionsTable).where(eq(positionsTable.id, input.position_id!)).limit(1).execute();
+      if (position.length === 0) {
+        throw new Error(`Position with ID ${input.position_id} does not exist`);
+      }
+    }
+
+    const scope = input.project_id !== null
+      ? eq(budgetThresholdsTable.project_id, input.project_id)
+      : eq(budgetThresholdsTable.position_id, input.position_id!);
+    const percents = Array.from(new Set(input.percents));
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(budgetThresholdsTable)
+        .where(scope)
+        .execute();
+
+      const removedIds = existing.filter(threshold => !percents.includes(threshold.percent)).map(threshold => threshold.id);
+      if (removedIds.length > 0) {
+        await tx.delete(budgetThresholdsTable)
+          .where(inArray(budgetThresholdsTable.id, removedIds))
+          .execute();
+      }
+
+      await tx.update(budgetThresholdsTable)
+        .set({ notify_user_id: input.configured_by })
+        .where(scope)
+        .execute();
+
+      const added = percents.filter(percent => !existing.some(threshold => threshold.percent === percent));
+      if (added.length > 0) {
+        await tx.insert(budgetThresholdsTable)
+          .values(added.map(percent => ({
+            project_id: input.project_id,
+            position_id: input.position_id,
+            percent,
+            notify_user_id: input.configured_by
+          })))
+          .execute();
+      }
+
+      return await tx.select()
+        .from(budgetThresholdsTable)
+        .where(scope)
+        .orderBy(asc(budgetThresholdsTable.percent))
+        .execute();
+    });
+  } catch (error) {
+    console.error('Budget threshold update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { type SetExchangeRateInput, type ExchangeRate } from '../schema';
+import { toExchangeRate } from '../helpers/currency';
+import { and, eq } from 'drizzle-orm';
+
+// Creates the pair's rate from the given day, or replaces it
+export const setExchangeRate = async (input: SetExchangeRateInput): Promise<ExchangeRate> => {
+  try {
+    if (input.base_currency === input.quote_currency) {
+      throw new Error('An exchange rate needs two different currencies');
+    }
+
+    const validFrom = input.valid_from.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string
+
+    // A pair is quoted one way per day, otherwise the converter could pick either
+    const inverse = await db.select()
+      .from(exchangeRatesTable)
+      .where(and(
+        eq(exchangeRatesTable.base_currency, input.quote_currency),
+        eq(exchangeRatesTable.quote_currency, input.base_currency),
+        eq(exchangeRatesTable.valid_from, validFrom)
+      ))
+      .limit(1)
+      .execute();
+
+    if (inverse.length > 0) {
+      throw new Error(`A ${input.quote_currency}/${input.base_currency} rate from ${validFrom} exists already; change that one instead`);
+    }
+
+    const result = await db.insert(exchangeRatesTable)
+      .values({
+        base_currency: input.base_currency,
+        quote_currency: input.quote_currency,
+        rate: input.rate.toString(), // Convert number to string for numeric column
+        valid_from: validFrom
+      })
+      .onConflictDoUpdate({
+        target: [exchangeRatesTable.base_currency, exchangeRatesTable.quote_currency, exchangeRatesTable.valid_from],
+        set: { rate: input.rate.toString() }
+      })
+      .returning()
+      .execute();
+
+    return toExchangeRate(result[0]);
+  } catch (error) {
+    console.error('Exchange rate update failed:', error);
+    throw error;
+  }
+};
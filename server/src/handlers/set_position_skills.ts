@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { positionSkillsTable, positionsTable, skillsTable } from '../db/schema';
+import { type SetPositionSkillsInput, type PositionSkill } from '../schema';
+import { loadPositionSkills } from '../helpers/skills';
+import { eq, inArray } from 'drizzle-orm';
+
+// Replaces the skills a position requires
+export const setPositionSkills = async (input: SetPositionSkillsInput): Promise<PositionSkill[]> => {
+  try {
+    const position = await db.select().from(positionsTable).where(eq(positionsTable.id, input.position_id)).limit(1).execute();
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    const skillIds = input.skills.map(skill => skill.skill_id);
+    if (new Set(skillIds).size !== skillIds.length) {
+      throw new Error('Each skill can only be required once');
+    }
+
+    if (skillIds.length > 0) {
+      const skills = await db.select({ id: skillsTable.id })
+        .from(skillsTable)
+        .where(inArray(skillsTable.id, skillIds))
+        .execute();
+
+      const missing = skillIds.find(skillId => !skills.some(skill => skill.id === skillId));
+      if (missing !== undefined) {
+        throw new Error(`Skill with ID ${missing} does not exist`);
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(positionSkillsTable)
+        .where(eq(positionSkillsTable.position_id, input.position_id))
+        .execute();
+
+      if (input.skills.length > 0) {
+        await tx.insert(positionSkillsTable)
+          .values(input.skills.map(skill => ({
+            position_id: input.position_id,
+            skill_id: skill.skill_id,
+            min_level: skill.min_level
+          })))
+          .execute();
+      }
+
+      return await loadPositionSkills(tx, input.position_id);
+    });
+  } catch (error) {
+    console.error('Position skill update failed:', error);
+    throw error;
+  }
+};
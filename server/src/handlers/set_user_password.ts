@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type SetUserPasswordInput, type User } from '../schema';
+import { hashPassword } from '../helpers/auth';
+import { toUser } from '../helpers/users';
+import { eq } from 'drizzle-orm';
+
+// Administrators set first passwords and reset forgotten ones; a reset ends the user's sessions
+export const setUserPassword = async (input: SetUserPasswordInput): Promise<User> => {
+  try {
+    const changer = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.changed_by))
+      .limit(1)
+      .execute();
+
+    if (changer.length === 0) {
+      throw new Error(`User with ID ${input.changed_by} does not exist`);
+    }
+
+    if (changer[0].role !== 'administrator') {
+      throw new Error('Only administrators can set passwords of other users');
+    }
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password), updated_at: new Date() })
+        .where(eq(usersTable.id, input.user_id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`User with ID ${input.user_id} does not exist`);
+      }
+
+      await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.user_id, input.user_id))
+        .execute();
+
+      return toUser(result[0]);
+    });
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { skillsTable, userSkillsTable, usersTable } from '../db/schema';
+import { type SetUserSkillInput, type UserSkill } from '../schema';
+import { loadUserSkills } from '../helpers/skills';
+import { and, eq } from 'drizzle-orm';
+
+// Sets a user's proficiency in a skill, or removes it and returns null when the level is null
+export const setUserSkill = async (input: SetUserSkillInput): Promise<UserSkill | null> => {
+  try {
+    const user = await db.select().from(usersTable).where(eq(usersTable.id, input.user_id)).limit(1).execute();
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const skill = await db.select().from(skillsTable).where(eq(skillsTable.id, input.skill_id)).limit(1).execute();
+    if (skill.length === 0) {
+      throw new Error(`Skill with ID ${input.skill_id} does not exist`);
+    }
+
+    const scope = and(eq(userSkillsTable.user_id, input.user_id), eq(userSkillsTable.skill_id, input.skill_id));
+
+    if (input.level === null) {
+      await db.delete(userSkillsTable).where(scope).execute();
+      return null;
+    }
+
+    await db.insert(userSkillsTable)
+      .values({
+        user_id: input.user_id,
+        skill_id: input.skill_id,
+        level: input.level
+      })
+      .onConflictDoUpdate({
+        target: [userSkillsTable.user_id, userSkillsTable.skill_id],
+        set: { level: input.level, updated_at: new Date() }
+      })
+      .execute();
+
+    const skills = await loadUserSkills(db, scope);
+    return skills[0];
+  } catch (error) {
+    console.error('User skill update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { activeTimersTable, usersTable, positionsTable } from '../db/schema';
+import { type StartTimerInput, type ActiveTimer } from '../schema';
+import { toActiveTimer } from '../helpers/active_timer';
+import { assertAssigned } from '../helpers/assignments';
+import { toDateString } from '../helpers/week';
+import { eq } from 'drizzle-orm';
+
+export const startTimer = async (input: StartTimerInput): Promise<ActiveTimer> => {
+  try {
+    // Verify that the user exists
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    // Verify that the position exists
+    const position = await db.select()
+      .from(positionsTable)
+      .where(eq(positionsTable.id, input.position_id))
+      .limit(1)
+      .execute();
+
+    if (position.length === 0) {
+      throw new Error(`Position with ID ${input.position_id} does not exist`);
+    }
+
+    // Timers only run on positions the user could book today
+    await assertAssigned(db, input.user_id, input.position_id, toDateString(new Date()));
+
+    // Only one timer per user
+    const existing = await db.select()
+      .from(activeTimersTable)
+      .where(eq(activeTimersTable.user_id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`User with ID ${input.user_id} already has an active timer`);
+    }
+
+    const now = new Date();
+    const result = await db.insert(activeTimersTable)
+      .values({
+        user_id: input.user_id,
+        position_id: input.position_id,
+        description: input.description,
+        billable: input.billable,
+        status: 'running',
+        started_at: now,
+        segment_started_at: now,
+        accumulated_seconds: 0
+      })
+      .returning()
+      .execute();
+
+    return toActiveTimer(result[0], now);
+  } catch (error) {
+    console.error('Timer start failed:', error);
+    throw error;
+  }
+};
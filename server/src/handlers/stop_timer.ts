@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { activeTimersTable, timeEntriesTable } from '../db/schema';
+import { type StopTimerInput, type TimeEntry } from '../schema';
+import { getElapsedSeconds } from '../helpers/active_timer';
+import { assertTimeEntryEditable } from '../helpers/time_entry_guards';
+import { assertRetainerAllows } from '../helpers/retainers';
+import { assertAssigned } from '../helpers/assignments';
+import { checkBudgetThresholds } from './check_budget_thresholds';
+import { eq } from 'drizzle-orm';
+
+// Rounds up to the next increment, booking at least one increment
+const roundElapsedHours = (elapsedSeconds: number, roundingMinutes: number): number => {
+  const incrementSeconds = roundingMinutes * 60;
+  const increments = Math.max(1, Math.ceil(elapsedSeconds / incrementSeconds));
+  return (increments * roundingMinutes) / 60;
+};
+
+export const stopTimer = async (input: StopTimerInput): Promise<TimeEntry> => {
+  try {
+    const timeEntry = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(activeTimersTable)
+        .where(eq(activeTimersTable.user_id, input.user_id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`User with ID ${input.user_id} has no active timer`);
+      }
+
+      const timer = existing[0];
+      const hours = roundElapsedHours(getElapsedSeconds(timer), input.rounding_minutes);
+      const date = timer.started_at.toISOString().split('T')[0]; // Book on the day the timer was started
+
+      await assertTimeEntryEditable(tx, timer.user_id, date);
+      // The assignment may have ended while the timer ran
+      await assertAssigned(tx, timer.user_id, timer.position_id, date);
+      await assertRetainerAllows(tx, { user_id: timer.user_id, position_id: timer.position_id, date, hours, billable: timer.billable });
+
+      const result = await tx.insert(timeEntriesTable)
+        .values({
+          user_id: timer.user_id,
+          position_id: timer.position_id,
+          description: timer.description,
+          hours: hours.toFixed(2), // Convert number to string for numeric column
+          date,
+          billable: timer.billable
+        })
+        .returning()
+        .execute();
+
+      await tx.delete(activeTimersTable)
+        .where(eq(activeTimersTable.id, timer.id))
+        .execute();
+
+      const timeEntry = result[0];
+      return {
+        ...timeEntry,
+        hours: parseFloat(timeEntry.hours), // Convert string back to number
+        date: new Date(timeEntry.date) // Convert string back to Date
+      };
+    });
+
+    // Alerting never fails a booking that is already saved; the check logs its own errors
+    await checkBudgetThresholds({ position_id: timeEntry.position_id, time_entry_id: timeEntry.id }).catch(() => undefined);
+
+    return timeEntry;
+  } catch (error) {
+    console.error('Timer stop failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { timesheetsTable, usersTable } from '../db/schema';
+import { type SubmitTimesheetInput, type Timesheet } from '../schema';
+import { getWeekStart } from '../helpers/week';
+import { and, eq } from 'drizzle-orm';
+
+export const submitTimesheet = async (input: SubmitTimesheetInput): Promise<Timesheet> => {
+  try {
+    // Verify that the user exists
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.user_id} does not exist`);
+    }
+
+    const weekStart = getWeekStart(input.week_start);
+    const existing = await db.select()
+      .from(timesheetsTable)
+      .where(and(
+        eq(timesheetsTable.user_id, input.user_id),
+        eq(timesheetsTable.week_start, weekStart)
+      ))
+      .limit(1)
+      .execute();
+
+    const now = new Date();
+
+    // First submission of the week creates the row
+    if (existing.length === 0) {
+      const result = await db.insert(timesheetsTable)
+        .values({
+          user_id: input.user_id,
+          week_start: weekStart,
+          status: 'submitted',
+          submitted_at: now
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    }
+
+    const timesheet = existing[0];
+    if (timesheet.status !== 'draft' && timesheet.status !== 'rejected') {
+      throw new Error(`Timesheet for week of ${weekStart} is already ${timesheet.status}`);
+    }
+
+    // Resubmission clears the previous review
+    const result = await db.update(timesheetsTable)
+      .set({
+        status: 'submitted',
+        submitted_at: now,
+        reviewed_by: null,
+        reviewed_at: null,
+        review_comment: null,
+        updated_at: now
+      })
+      .where(eq(timesheetsTable.id, timesheet.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Timesheet submission failed:', error);
+    throw error;
+  }
+};
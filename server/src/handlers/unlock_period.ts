@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { periodLocksTable, usersTable } from '../db/schema';
+import { type UnlockPeriodInput, type PeriodLock } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Unlocking keeps the lock row and records who reopened the period and why
+export const unlockPeriod = async (input: UnlockPeriodInput): Promise<PeriodLock> => {
+  try {
+    const user = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.unlocked_by))
+      .limit(1)
+      .execute();
+
+    if (user.length === 0) {
+      throw new Error(`User with ID ${input.unlocked_by} does not exist`);
+    }
+
+    if (user[0].role !== 'administrator') {
+      throw new Error('Only administrators can unlock periods');
+    }
+
+    const existing = await db.select()
+      .from(periodLocksTable)
+      .where(eq(periodLocksTable.id, input.lock_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Period lock with ID ${input.lock_id} does not exist`);
+    }
+
+    if (existing[0].unlocked_at !== null) {
+      throw new Error(`Period lock with ID ${input.lock_id} is already unlocked`);
+    }
+
+    const result = await db.update(periodLocksTable)
+      .set({
+        unlocked_by: input.unlocked_by,
+        unlocked_at: new Date(),
+        unlock_reason: input.reason
+      })
+      .where(eq(periodLocksTable.id, input.lock_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Period unlock failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { assignmentsTable } from '../db/schema';
+import { type UpdateAssignmentInput, type Assignment } from '../schema';
+import { assertNoOverlappingAssignment, loadAssignments } from '../helpers/assignments';
+import { toDateString } from '../helpers/week';
+import { eq } from 'drizzle-orm';
+
+// Time already booked outside a shortened range stays; only new bookings are checked
+export const updateAssignment = async (input: UpdateAssignmentInput): Promise<Assignment> => {
+  try {
+    const existing = await db.select()
+      .from(assignmentsTable)
+      .where(eq(assignmentsTable.id, input.assignment_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Assignment with ID ${input.assignment_id} does not exist`);
+    }
+
+    const startDate = input.start_date === undefined ? existing[0].start_date : input.start_date && toDateString(input.start_date);
+    const endDate = input.end_date === undefined ? existing[0].end_date : input.end_date && toDateString(input.end_date);
+
+    await assertNoOverlappingAssignment(db, {
+      user_id: existing[0].user_id,
+      position_id: existing[0].position_id,
+      start_date: startDate,
+      end_date: endDate,
+      exclude_id: existing[0].id
+    });
+
+    const plannedHours = input.planned_hours === undefined
+      ? existing[0].planned_hours
+      : input.planned_hours !== null ? input.planned_hours.toString() : null; // Convert number to string for numeric column
+
+    await db.update(assignmentsTable)
+      .set({ start_date: startDate, end_date: endDate, planned_hours: plannedHours })
+      .where(eq(assignmentsTable.id, existing[0].id))
+      .execute();
+
+    const assignments = await loadAssignments(db, eq(assignmentsTable.id, existing[0].id));
+    return assignments[0];
+  } catch (error) {
+    console.error('Assignment update failed:', error);
+    throw error;
+  }
+};
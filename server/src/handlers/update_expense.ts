@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { expensesTable, positionsTable } from '../db/schema';
+import { type UpdateExpenseInput, type Expense } from '../schema';
+import { assertPeriodOpen } from '../helpers/period_lock';
+import { assertExpenseNotInvoiced, toExpense } from '../helpers/expenses';
+import { deleteReceipt, saveReceipt } from '../helpers/receipts';
+import { eq } from 'drizzle-orm';
+
+export const updateExpense = async (input: UpdateExpenseInput): Promise<Expense> => {
+  // Set once a new receipt is on disk, so a rolled back update can remove it again
+  let savedReceipt: string | null = null;
+
+  try {
+    const { expense, replacedReceipt } = await db.transaction(async (tx) => {
+      // Load the current state of the expense
+      const existing = await tx.select()
+        .from(expensesTable)
+        .where(eq(expensesTable.id, input.id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Expense with ID ${input.id} does not exist`);
+      }
+
+      assertExpenseNotInvoiced(existing[0]);
+
+      // Both the current and the target date must be open
+      await assertPeriodOpen(tx, existing[0].date);
+      if (input.date !== undefined) {
+        await assertPeriodOpen(tx, input.date.toISOString().split('T')[0]);
+      }
+
+      // Verify the new position when the expense is moved
+      if (input.position_id !== undefined) {
+        const position = await tx.select()
+          .from(positionsTable)
+          .where(eq(positionsTable.id, input.position_id))
+          .limit(1)
+          .execute();
+
+        if (position.length === 0) {
+          throw new Error(`Position with ID ${input.position_id} does not exist`);
+        }
+      }
+
+      if (input.receipt) {
+        savedReceipt = await saveReceipt(input.id, input.receipt);
+      }
+      const receipt = input.receipt === undefined
+        ? undefined
+        : { receipt_filename: input.receipt?.filename ?? null, receipt_path: savedReceipt };
+
+      // Only touch the fields that were provided
+      const updated = await tx.update(expensesTable)
+        .set({
+          ...(input.position_id !== undefined && { position_id: input.position_id }),
+          ...(input.date !== undefined && { date: input.date.toISOString().split('T')[0] }), // Convert Date to YYYY-MM-DD string
+          ...(input.amount !== undefined && { amount: input.amount.toString() }), // Convert number to string for numeric column
+          ...(input.currency !== undefined && { currency: input.currency }),
+          ...(input.category !== undefined && { category: input.category }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.billable !== undefined && { billable: input.billable }),
+          ...(input.reimbursable !== undefined && { reimbursable: input.reimbursable }),
+          ...receipt,
+          updated_at: new Date()
+        })
+        .where(eq(expensesTable.id, input.id))
+        .returning()
+        .execute();
+
+      return {
+        expense: updated[0],
+        replacedReceipt: receipt !== undefined ? existing[0].receipt_path : null
+      };
+    }).catch(async (error: unknown) => {
+      // Nothing refers to the new file after the rollback
+      if (savedReceipt) {
+        await deleteReceipt(savedReceipt);
+      }
+      throw error;
+    });
+
+    // Old files go only once the new state is committed
+    if (replacedReceipt) {
+      await deleteReceipt(replacedReceipt);
+    }
+
+    return toExpense(expense);
+  } catch (error) {
+    console.error('Expense update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { invoiceTemplatesTable } from '../db/schema';
+import { type UpdateInvoiceTemplateInput, type InvoiceTemplate } from '../schema';
+import { validateInvoiceTemplate } from '../helpers/invoice_pdf';
+import { and, eq, ne } from 'drizzle-orm';
+
+export const updateInvoiceTemplate = async (input: UpdateInvoiceTemplateInput): Promise<InvoiceTemplate> => {
+  try {
+    if (input.body !== undefined) {
+      validateInvoiceTemplate(input.body);
+    }
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(invoiceTemplatesTable)
+        .where(eq(invoiceTemplatesTable.id, input.id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Invoice template with ID ${input.id} does not exist`);
+      }
+
+      if (input.name !== undefined) {
+        const sameName = await tx.select()
+          .from(invoiceTemplatesTable)
+          .where(and(eq(invoiceTemplatesTable.name, input.name), ne(invoiceTemplatesTable.id, input.id)))
+          .limit(1)
+          .execute();
+
+        if (sameName.length > 0) {
+          throw new Error(`An invoice template named ${input.name} already exists`);
+        }
+      }
+
+      // Only one template can be the default
+      if (input.is_default) {
+        await tx.update(invoiceTemplatesTable)
+          .set({ is_default: false })
+          .where(and(eq(invoiceTemplatesTable.is_default, true), ne(invoiceTemplatesTable.id, input.id)))
+          .execute();
+      }
+
+      // Only touch the fields that were provided
+      const result = await tx.update(invoiceTemplatesTable)
+        .set({
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.body !== undefined && { body: input.body }),
+          ...(input.is_default !== undefined && { is_default: input.is_default }),
+          updated_at: new Date()
+        })
+        .where(eq(invoiceTemplatesTable.id, input.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Invoice template update failed:', error);
+    throw error;
+  }
+};
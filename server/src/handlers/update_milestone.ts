@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { milestonesTable } from '../db/schema';
+import { type UpdateMilestoneInput, type Milestone } from '../schema';
+import { assertMilestoneNotInvoiced, toMilestone } from '../helpers/milestones';
+import { eq } from 'drizzle-orm';
+
+export const updateMilestone = async (input: UpdateMilestoneInput): Promise<Milestone> => {
+  try {
+    const existing = await db.select()
+      .from(milestonesTable)
+      .where(eq(milestonesTable.id, input.id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Milestone with ID ${input.id} does not exist`);
+    }
+
+    assertMilestoneNotInvoiced(existing[0]);
+
+    // Only touch the fields that were provided
+    const updated = await db.update(milestonesTable)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.amount !== undefined && { amount: input.amount.toString() }), // Convert number to string for numeric column
+        ...(input.due_date !== undefined && { due_date: input.due_date.toISOString().split('T')[0] }), // Convert Date to YYYY-MM-DD string
+        updated_at: new Date()
+      })
+      .where(eq(milestonesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toMilestone(updated[0]);
+  } catch (error) {
+    console.error('Milestone update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { projectsTable, milestonesTable } from '../db/schema';
+import { type UpdateProjectBillingInput, type Project } from '../schema';
+import { BILLING_MODEL_NAMES } from '../helpers/milestones';
+import { eq } from 'drizzle-orm';
+
+// Switches a project's billing model and sets the budget that goes with it
+export const updateProjectBilling = async (input: UpdateProjectBillingInput): Promise<Project> => {
+  try {
+    if (input.billing_model !== 'time_and_materials' && input.budget === null) {
+      throw new Error(`${BILLING_MODEL_NAMES[input.billing_model]} projects need a budget`);
+    }
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(projectsTable)
+        .where(eq(projectsTable.id, input.project_id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Project with ID ${input.project_id} does not exist`);
+      }
+
+      // Milestones only bill fixed-price projects; keeping them would bill the work twice
+      if (input.billing_model !== 'fixed_price') {
+        const milestones = await tx.select({ id: milestonesTable.id })
+          .from(milestonesTable)
+          .where(eq(milestonesTable.project_id, input.project_id))
+          .limit(1)
+          .execute();
+
+        if (milestones.length > 0) {
+          throw new Error(`Project with ID ${input.project_id} has milestones and must stay fixed-price`);
+        }
+      }
+
+      const result = await tx.update(projectsTable)
+        .set({
+          billing_model: input.billing_model,
+          budget: input.budget !== null ? input.budget.toString() : null, // Convert number to string for numeric column
+          updated_at: new Date()
+        })
+        .where(eq(projectsTable.id, input.project_id))
+        .returning()
+        .execute();
+
+      const project = result[0];
+      return {
+        ...project,
+        budget: project.budget ? parseFloat(project.budget) : null, // Convert string back to number
+        start_date: project.start_date ? new Date(project.start_date) : null, // Convert string back to Date
+        end_date: project.end_date ? new Date(project.end_date) : null // Convert string back to Date
+      };
+    });
+  } catch (error) {
+    console.error('Project billing update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { retainersTable, retainerScopesTable } from '../db/schema';
+import { type UpdateRetainerInput, type Retainer } from '../schema';
+import { assertNoOverlappingRetainer, toRetainer } from '../helpers/retainers';
+import { eq } from 'drizzle-orm';
+
+// Renames a retainer, moves its end date or switches its overrun policy
+export const updateRetainer = async (input: UpdateRetainerInput): Promise<Retainer> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(retainersTable)
+        .where(eq(retainersTable.id, input.id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Retainer with ID ${input.id} does not exist`);
+      }
+
+      const scopes = await tx.select()
+        .from(retainerScopesTable)
+        .where(eq(retainerScopesTable.retainer_id, input.id))
+        .execute();
+
+      const validTo = input.valid_to !== undefined ? input.valid_to.toISOString().split('T')[0] : undefined; // Convert Date to YYYY-MM-DD string
+
+      if (validTo !== undefined) {
+        if (validTo < existing[0].valid_from) {
+          throw new Error('Valid-to date must not be before valid-from date');
+        }
+
+        await assertNoOverlappingRetainer(tx, {
+          id: input.id,
+          valid_from: existing[0].valid_from,
+          valid_to: validTo,
+          project_ids: scopes.flatMap(scope => (scope.project_id !== null ? [scope.project_id] : [])),
+          position_ids: scopes.flatMap(scope => (scope.position_id !== null ? [scope.position_id] : []))
+        });
+      }
+
+      // Only touch the fields that were provided
+      const updated = await tx.update(retainersTable)
+        .set({
+          ...(input.name !== undefined && { name: input.name }),
+          ...(validTo !== undefined && { valid_to: validTo }),
+          ...(input.overrun_policy !== undefined && { overrun_policy: input.overrun_policy }),
+          updated_at: new Date()
+        })
+        .where(eq(retainersTable.id, input.id))
+        .returning()
+        .execute();
+
+      return toRetainer(updated[0], scopes);
+    });
+  } catch (error) {
+    console.error('Retainer update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,114 @@
+import { db } from '../db';
+import { timeEntriesTable, timeEntryRevisionsTable, usersTable, positionsTable } from '../db/schema';
+import { type UpdateTimeEntryInput, type TimeEntry } from '../schema';
+import { toTimeEntrySnapshot } from '../helpers/time_entry_snapshot';
+import { assertTimeEntryEditable, assertTimeEntryNotInvoiced } from '../helpers/time_entry_guards';
+import { assertRetainerAllows } from '../helpers/retainers';
+import { assertAssigned } from '../helpers/assignments';
+import { eq } from 'drizzle-orm';
+
+export const updateTimeEntry = async (input: UpdateTimeEntryInput): Promise<TimeEntry> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Load the current state of the entry
+      const existing = await tx.select()
+        .from(timeEntriesTable)
+        .where(eq(timeEntriesTable.id, input.id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Time entry with ID ${input.id} does not exist`);
+      }
+
+      assertTimeEntryNotInvoiced(existing[0]);
+
+      // Both the current and the target date must be editable
+      await assertTimeEntryEditable(tx, existing[0].user_id, existing[0].date);
+      if (input.date !== undefined) {
+        await assertTimeEntryEditable(tx, existing[0].user_id, input.date.toISOString().split('T')[0]);
+      }
+
+      // Verify that the user making the change exists
+      const changer = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.changed_by))
+        .limit(1)
+        .execute();
+
+      if (changer.length === 0) {
+        throw new Error(`User with ID ${input.changed_by} does not exist`);
+      }
+
+      // Verify the new position when the entry is moved
+      if (input.position_id !== undefined) {
+        const position = await tx.select()
+          .from(positionsTable)
+          .where(eq(positionsTable.id, input.position_id))
+          .limit(1)
+          .execute();
+
+        if (position.length === 0) {
+          throw new Error(`Position with ID ${input.position_id} does not exist`);
+        }
+      }
+
+      // Moved or raised hours must land on a position the user is assigned to on its day;
+      // like the weekly timesheet, time can still be taken off after an assignment ended
+      const isRaised = input.hours !== undefined && input.hours > parseFloat(existing[0].hours);
+      if (input.position_id !== undefined || input.date !== undefined || isRaised) {
+        await assertAssigned(
+          tx,
+          existing[0].user_id,
+          input.position_id ?? existing[0].position_id,
+          input.date !== undefined ? input.date.toISOString().split('T')[0] : existing[0].date
+        );
+      }
+
+      // The entry as it will be, checked against a blocking retainer in place of its current state
+      await assertRetainerAllows(tx, {
+        user_id: existing[0].user_id,
+        position_id: input.position_id ?? existing[0].position_id,
+        date: input.date !== undefined ? input.date.toISOString().split('T')[0] : existing[0].date,
+        hours: input.hours ?? parseFloat(existing[0].hours),
+        billable: input.billable ?? existing[0].billable
+      }, [existing[0].id]);
+
+      // Only touch the fields that were provided
+      const updated = await tx.update(timeEntriesTable)
+        .set({
+          ...(input.position_id !== undefined && { position_id: input.position_id }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.hours !== undefined && { hours: input.hours.toString() }), // Convert number to string for numeric column
+          ...(input.date !== undefined && { date: input.date.toISOString().split('T')[0] }), // Convert Date to YYYY-MM-DD string
+          ...(input.billable !== undefined && { billable: input.billable }),
+          updated_at: new Date()
+        })
+        .where(eq(timeEntriesTable.id, input.id))
+        .returning()
+        .execute();
+
+      const timeEntry = updated[0];
+
+      // Record the before/after revision
+      await tx.insert(timeEntryRevisionsTable)
+        .values({
+          time_entry_id: timeEntry.id,
+          action: 'update',
+          changed_by: input.changed_by,
+          before: toTimeEntrySnapshot(existing[0]),
+          after: toTimeEntrySnapshot(timeEntry)
+        })
+        .execute();
+
+      return {
+        ...timeEntry,
+        hours: parseFloat(timeEntry.hours), // Convert string back to number
+        date: new Date(timeEntry.date) // Convert string back to Date
+      };
+    });
+  } catch (error) {
+    console.error('Time entry update failed:', error);
+    throw error;
+  }
+};
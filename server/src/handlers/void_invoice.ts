@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { expensesTable, invoicesTable, milestonesTable, timeEntriesTable } from '../db/schema';
+import { type VoidInvoiceInput, type Invoice } from '../schema';
+import { toInvoice } from '../helpers/invoice';
+import { eq } from 'drizzle-orm';
+
+// Voids a draft or finalized invoice and releases its time entries, expenses and milestones for invoicing again
+export const voidInvoice = async (input: VoidInvoiceInput): Promise<Invoice> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(invoicesTable)
+        .where(eq(invoicesTable.id, input.invoice_id))
+        .limit(1)
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Invoice with ID ${input.invoice_id} does not exist`);
+      }
+
+      if (existing[0].status === 'void') {
+        throw new Error(`Invoice with ID ${input.invoice_id} is already void`);
+      }
+
+      if (parseFloat(existing[0].amount_paid) > 0) {
+        throw new Error(`Invoice with ID ${input.invoice_id} has payments recorded and cannot be voided`);
+      }
+
+      const now = new Date();
+
+      // The line items stay as a record of what was invoiced
+      const updated = await tx.update(invoicesTable)
+        .set({ status: 'void', voided_at: now, void_reason: input.reason, updated_at: now })
+        .where(eq(invoicesTable.id, input.invoice_id))
+        .returning()
+        .execute();
+
+      await tx.update(timeEntriesTable)
+        .set({ invoice_id: null, billed_at: null })
+        .where(eq(timeEntriesTable.invoice_id, input.invoice_id))
+        .execute();
+
+      await tx.update(expensesTable)
+        .set({ invoice_id: null })
+        .where(eq(expensesTable.invoice_id, input.invoice_id))
+        .execute();
+
+      await tx.update(milestonesTable)
+        .set({ invoice_id: null })
+        .where(eq(milestonesTable.invoice_id, input.invoice_id))
+        .execute();
+
+      return toInvoice(updated[0]);
+    });
+  } catch (error) {
+    console.error('Invoice void failed:', error);
+    throw error;
+  }
+};
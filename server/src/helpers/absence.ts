@@ -0,0 +1,74 @@
+import { db, type QueryExecutor } from '../db';
+import { absencesTable, type Absence } from '../db/schema';
+import { getScheduledCapacity } from './capacity';
+import { and, eq, gte, lte, inArray } from 'drizzle-orm';
+
+/**
+ * Leave days an absence takes between startDate and endDate (YYYY-MM-DD). Only the
+ * user's scheduled working days count, so a week of vacation for someone working
+ * Monday to Wednesday costs three days; a half-day absence costs half a day.
+ */
+export const countAbsenceDays = async (
+  executor: QueryExecutor,
+  absence: Pick<Absence, 'user_id' | 'start_date' | 'end_date' | 'half_day'>,
+  startDate: string,
+  endDate: string
+): Promise<number> => {
+  const from = absence.start_date > startDate ? absence.start_date : startDate;
+  const to = absence.end_date < endDate ? absence.end_date : endDate;
+  if (from > to) {
+    return 0;
+  }
+
+  const capacity = await getScheduledCapacity(executor, absence.user_id, from, to);
+  const workingDays = Array.from(capacity.values()).filter(hours => hours > 0).length;
+
+  return absence.half_day ? workingDays / 2 : workingDays;
+};
+
+// Pending and approved absences of a user that overlap the date range
+export const getOverlappingAbsences = async (
+  executor: QueryExecutor,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<Absence[]> => {
+  return executor.select()
+    .from(absencesTable)
+    .where(and(
+      eq(absencesTable.user_id, userId),
+      inArray(absencesTable.status, ['pending', 'approved']),
+      lte(absencesTable.start_date, endDate),
+      gte(absencesTable.end_date, startDate)
+    ))
+    .execute();
+};
+
+/**
+ * Leave days of one type a user has taken (approved) and requested (pending) within a
+ * calendar year. Absences crossing the year boundary only count their days in that year.
+ */
+export const getAbsenceDaysInYear = async (
+  executor: QueryExecutor,
+  userId: number,
+  type: Absence['type'],
+  year: number
+): Promise<{ used_days: number; pending_days: number }> => {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+
+  const absences = await getOverlappingAbsences(executor, userId, yearStart, yearEnd);
+
+  let usedDays = 0;
+  let pendingDays = 0;
+  for (const absence of absences.filter(candidate => candidate.type === type)) {
+    const days = await countAbsenceDays(executor, absence, yearStart, yearEnd);
+    if (absence.status === 'approved') {
+      usedDays += days;
+    } else {
+      pendingDays += days;
+    }
+  }
+
+  return { used_days: usedDays, pending_days: pendingDays };
+};
@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { absencesTable, usersTable } from '../db/schema';
+import { type ReviewAbsenceInput, type Absence } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Shared by approve and reject: only project managers and administrators may
+// review, never their own absence, and only while the request is pending.
+export const reviewAbsence = async (
+  input: ReviewAbsenceInput,
+  status: 'approved' | 'rejected'
+): Promise<Absence> => {
+  const reviewer = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, input.reviewer_id))
+    .limit(1)
+    .execute();
+
+  if (reviewer.length === 0) {
+    throw new Error(`User with ID ${input.reviewer_id} does not exist`);
+  }
+
+  if (reviewer[0].role === 'consultant') {
+    throw new Error('Only project managers and administrators can review absences');
+  }
+
+  const existing = await db.select()
+    .from(absencesTable)
+    .where(eq(absencesTable.id, input.absence_id))
+    .limit(1)
+    .execute();
+
+  if (existing.length === 0) {
+    throw new Error(`Absence with ID ${input.absence_id} does not exist`);
+  }
+
+  const absence = existing[0];
+  if (absence.user_id === input.reviewer_id) {
+    throw new Error('Absences cannot be reviewed by the person taking them');
+  }
+
+  if (absence.status !== 'pending') {
+    throw new Error(`Absence with ID ${absence.id} is ${absence.status}, not pending`);
+  }
+
+  const result = await db.update(absencesTable)
+    .set({
+      status,
+      reviewed_by: input.reviewer_id,
+      reviewed_at: new Date(),
+      review_comment: input.comment
+    })
+    .where(eq(absencesTable.id, absence.id))
+    .returning()
+    .execute();
+
+  return result[0];
+};
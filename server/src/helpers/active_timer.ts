@@ -0,0 +1,15 @@
+import { type ActiveTimer as ActiveTimerRow } from '../db/schema';
+import { type ActiveTimer } from '../schema';
+
+// Seconds tracked so far: finished segments plus the running one, if any
+export const getElapsedSeconds = (timer: ActiveTimerRow, now: Date = new Date()): number => {
+  const runningSeconds = timer.status === 'running' && timer.segment_started_at
+    ? Math.max(0, Math.floor((now.getTime() - timer.segment_started_at.getTime()) / 1000))
+    : 0;
+  return timer.accumulated_seconds + runningSeconds;
+};
+
+export const toActiveTimer = (timer: ActiveTimerRow, now: Date = new Date()): ActiveTimer => ({
+  ...timer,
+  elapsed_seconds: getElapsedSeconds(timer, now)
+});
@@ -0,0 +1,60 @@
+import { db, type QueryExecutor } from '../db';
+import { allocationsTable, usersTable, positionsTable, projectsTable, clientsTable } from '../db/schema';
+import { type Allocation } from '../schema';
+import { and, asc, eq, gte, lte, sum, type SQL } from 'drizzle-orm';
+
+// Allocations with the names the planning board and reports show
+export const loadAllocations = async (executor: QueryExecutor, condition?: SQL<unknown>): Promise<Allocation[]> => {
+  const results = await executor.select({
+    allocation: allocationsTable,
+    user_name: usersTable.name,
+    position_name: positionsTable.name,
+    project_id: projectsTable.id,
+    project_name: projectsTable.name,
+    client_id: clientsTable.id,
+    client_name: clientsTable.name
+  })
+    .from(allocationsTable)
+    .innerJoin(usersTable, eq(allocationsTable.user_id, usersTable.id))
+    .innerJoin(positionsTable, eq(allocationsTable.position_id, positionsTable.id))
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+    .where(condition)
+    .orderBy(asc(allocationsTable.week_start), asc(usersTable.name), asc(clientsTable.name), asc(projectsTable.name), asc(positionsTable.name))
+    .execute();
+
+  return results.map(({ allocation, ...names }) => ({
+    ...allocation,
+    ...names,
+    planned_hours: parseFloat(allocation.planned_hours) // Convert string back to number
+  }));
+};
+
+// Planned hours per user and week, for the weeks from firstWeek to lastWeek (Mondays)
+export const getPlannedHoursByWeek = async (
+  executor: QueryExecutor,
+  firstWeek: string,
+  lastWeek: string
+): Promise<Map<number, Map<string, number>>> => {
+  const results = await executor.select({
+    user_id: allocationsTable.user_id,
+    week_start: allocationsTable.week_start,
+    planned_hours: sum(allocationsTable.planned_hours)
+  })
+    .from(allocationsTable)
+    .where(and(
+      gte(allocationsTable.week_start, firstWeek),
+      lte(allocationsTable.week_start, lastWeek)
+    ))
+    .groupBy(allocationsTable.user_id, allocationsTable.week_start)
+    .execute();
+
+  const planned = new Map<number, Map<string, number>>();
+  for (const row of results) {
+    const weeks = planned.get(row.user_id) ?? new Map<string, number>();
+    weeks.set(row.week_start, row.planned_hours ? parseFloat(row.planned_hours) : 0); // Convert string back to number
+    planned.set(row.user_id, weeks);
+  }
+
+  return planned;
+};
@@ -0,0 +1,91 @@
+import { db, type QueryExecutor } from '../db';
+import { assignmentsTable, usersTable, positionsTable, projectsTable, clientsTable } from '../db/schema';
+import { type Assignment } from '../schema';
+import { and, asc, eq, gte, isNull, lte, ne, or, type SQL } from 'drizzle-orm';
+
+// Assignments with the names the booking forms group them by
+export const loadAssignments = async (executor: QueryExecutor, condition?: SQL<unknown>): Promise<Assignment[]> => {
+  const results = await executor.select({
+    assignment: assignmentsTable,
+    user_name: usersTable.name,
+    position_name: positionsTable.name,
+    project_id: projectsTable.id,
+    project_name: projectsTable.name,
+    client_id: clientsTable.id,
+    client_name: clientsTable.name
+  })
+    .from(assignmentsTable)
+    .innerJoin(usersTable, eq(assignmentsTable.user_id, usersTable.id))
+    .innerJoin(positionsTable, eq(assignmentsTable.position_id, positionsTable.id))
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+    .where(condition)
+    .orderBy(asc(clientsTable.name), asc(projectsTable.name), asc(positionsTable.name), asc(usersTable.name), asc(assignmentsTable.start_date))
+    .execute();
+
+  return results.map(({ assignment, ...names }) => ({
+    ...assignment,
+    ...names,
+    planned_hours: assignment.planned_hours !== null ? parseFloat(assignment.planned_hours) : null // Convert string back to number
+  }));
+};
+
+// Assignments whose date range includes the day (YYYY-MM-DD)
+export const activeOn = (date: string): SQL<unknown> => and(
+  or(isNull(assignmentsTable.start_date), lte(assignmentsTable.start_date, date)),
+  or(isNull(assignmentsTable.end_date), gte(assignmentsTable.end_date, date))
+)!;
+
+// Every path that books time on a position must pass this check
+export const assertAssigned = async (executor: QueryExecutor, userId: number, positionId: number, date: string): Promise<void> => {
+  const assignment = await executor.select({ id: assignmentsTable.id })
+    .from(assignmentsTable)
+    .where(and(
+      eq(assignmentsTable.user_id, userId),
+      eq(assignmentsTable.position_id, positionId),
+      activeOn(date)
+    ))
+    .limit(1)
+    .execute();
+
+  if (assignment.length === 0) {
+    throw new Error(`User with ID ${userId} is not assigned to position with ID ${positionId} on ${date}`);
+  }
+};
+
+// A user's assignments to the same position must not overlap; null dates are open-ended
+export const assertNoOverlappingAssignment = async (
+  executor: QueryExecutor,
+  range: { user_id: number; position_id: number; start_date: string | null; end_date: string | null; exclude_id?: number }
+): Promise<void> => {
+  if (range.start_date !== null && range.end_date !== null && range.end_date < range.start_date) {
+    throw new Error('End date must not be before start date');
+  }
+
+  const conditions: SQL<unknown>[] = [
+    eq(assignmentsTable.user_id, range.user_id),
+    eq(assignmentsTable.position_id, range.position_id)
+  ];
+
+  if (range.end_date !== null) {
+    conditions.push(or(isNull(assignmentsTable.start_date), lte(assignmentsTable.start_date, range.end_date))!);
+  }
+
+  if (range.start_date !== null) {
+    conditions.push(or(isNull(assignmentsTable.end_date), gte(assignmentsTable.end_date, range.start_date))!);
+  }
+
+  if (range.exclude_id !== undefined) {
+    conditions.push(ne(assignmentsTable.id, range.exclude_id));
+  }
+
+  const overlapping = await executor.select()
+    .from(assignmentsTable)
+    .where(and(...conditions))
+    .limit(1)
+    .execute();
+
+  if (overlapping.length > 0) {
+    throw new Error(`User with ID ${range.user_id} is already assigned to position with ID ${range.position_id} in that period`);
+  }
+};
@@ -0,0 +1,93 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { toUser } from './users';
+import { and, eq, gt } from 'drizzle-orm';
+
+/**
+ * Passwords are stored as salted scrypt hashes ("scrypt:<salt>:<hash>", hex). Logging in
+ * creates a row in the sessions table; the client sends the token back as a bearer token
+ * and only its SHA-256 hash is stored, so a database dump cannot be used to log in.
+ * Sessions last SESSION_TTL_HOURS (default: 12) from login.
+ */
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Hash of a random, discarded password; logins without a stored hash are checked against it
+// so they cost the same scrypt run as a wrong password
+export const DUMMY_PASSWORD_HASH =
+  'scrypt:5dca4fb11d974ae5457891ed78c48742:' +
+  '77793ba17433f32bf11ddf19d9c897e2b43b107feddb6d88c5a2103a8dd0e1eb5bd919617127f42b9dd368d23ee2e5a223755c5ea6d7e63d414d3f246986d90c';
+
+const sessionTtlMs = (): number => parseFloat(process.env['SESSION_TTL_HOURS'] || '12') * 60 * 60 * 1000;
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const createSession = async (userId: number): Promise<{ token: string; expires_at: Date }> => {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + sessionTtlMs());
+
+  await db.insert(sessionsTable)
+    .values({ user_id: userId, token_hash: hashToken(token), expires_at: expiresAt })
+    .execute();
+
+  return { token, expires_at: expiresAt };
+};
+
+// The user a token belongs to, or null when it is unknown or expired
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const result = await db.select({ user: usersTable })
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(eq(sessionsTable.token_hash, hashToken(token)), gt(sessionsTable.expires_at, new Date())))
+    .limit(1)
+    .execute();
+
+  return result.length > 0 ? toUser(result[0].user) : null;
+};
+
+/**
+ * Only administrators create users, so a fresh database gets its first administrator from
+ * INITIAL_ADMIN_EMAIL and INITIAL_ADMIN_PASSWORD. Nothing happens once any user exists.
+ */
+export const ensureInitialAdmin = async (): Promise<void> => {
+  const email = process.env['INITIAL_ADMIN_EMAIL'];
+  const password = process.env['INITIAL_ADMIN_PASSWORD'];
+  if (!email || !password) return;
+
+  const existing = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .limit(1)
+    .execute();
+
+  if (existing.length > 0) return;
+
+  await db.insert(usersTable)
+    .values({
+      email,
+      name: 'Administrator',
+      role: 'administrator',
+      password_hash: await hashPassword(password)
+    })
+    .execute();
+  console.log(`Created the initial administrator ${email}`);
+};
@@ -0,0 +1,174 @@
+import { db } from '../db';
+import { projectsTable, positionsTable, timeEntriesTable, expensesTable, milestonesTable } from '../db/schema';
+import { createRateResolver, createCostResolver } from './rates';
+import { createCurrencyConverter, reportingCurrency } from './currency';
+import { and, eq, isNotNull, sum, type SQL } from 'drizzle-orm';
+
+/**
+ * What consumes a budget: time at bill rates plus billable expenses, or for fixed-price
+ * projects the effort cost. Amounts are in the budget's currency, the client's; expenses
+ * and cost rates are converted with the rate of their date. Besides the totals, each
+ * measurement returns the consumed amounts by date, which burn reporting accumulates over time.
+ */
+
+export interface BurnAmount {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface BudgetMeasurement {
+  consumedAmount: number;
+  expenseAmount: number;
+  unpricedHours: number;
+  unconvertedExpenses: number;
+  burn: BurnAmount[];
+}
+
+// Prices every time entry matching the condition with the shared rate resolver
+const priceTimeEntries = async (condition: SQL<unknown>): Promise<{ consumedAmount: number; unpricedHours: number; burn: BurnAmount[] }> => {
+  const entries = await db
+    .select({
+      user_id: timeEntriesTable.user_id,
+      position_id: timeEntriesTable.position_id,
+      date: timeEntriesTable.date,
+      hours: timeEntriesTable.hours
+    })
+    .from(timeEntriesTable)
+    .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .where(condition)
+    .execute();
+
+  const resolveRate = await createRateResolver(db, entries);
+
+  let consumedAmount = 0;
+  let unpricedHours = 0;
+  const burn: BurnAmount[] = [];
+  for (const entry of entries) {
+    const hours = parseFloat(entry.hours);
+    const rate = resolveRate(entry);
+    if (rate) {
+      consumedAmount += hours * rate.hourly_rate;
+      burn.push({ date: entry.date, amount: hours * rate.hourly_rate });
+    } else {
+      unpricedHours += hours;
+    }
+  }
+
+  return { consumedAmount, unpricedHours, burn };
+};
+
+// Sums the billable expenses matching the condition; those without an exchange rate are only counted
+const sumBillableExpenses = async (condition: SQL<unknown>, currency: string): Promise<{ expenseAmount: number; unconvertedExpenses: number; burn: BurnAmount[] }> => {
+  const expenses = await db
+    .select({
+      date: expensesTable.date,
+      amount: expensesTable.amount,
+      currency: expensesTable.currency
+    })
+    .from(expensesTable)
+    .innerJoin(positionsTable, eq(expensesTable.position_id, positionsTable.id))
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .where(and(condition, eq(expensesTable.billable, true)))
+    .execute();
+
+  const convert = await createCurrencyConverter(db);
+
+  let expenseAmount = 0;
+  let unconvertedExpenses = 0;
+  const burn: BurnAmount[] = [];
+  for (const expense of expenses) {
+    const amount = convert(parseFloat(expense.amount), expense.currency, currency, expense.date);
+    if (amount !== null) {
+      expenseAmount += amount;
+      burn.push({ date: expense.date, amount });
+    } else {
+      unconvertedExpenses++;
+    }
+  }
+
+  return { expenseAmount, unconvertedExpenses, burn };
+};
+
+// Time and billable expenses both consume the budget; bill rates are in the client's currency already
+export const measureConsumption = async (condition: SQL<unknown>, currency: string): Promise<BudgetMeasurement> => {
+  const { consumedAmount: timeAmount, unpricedHours, burn: timeBurn } = await priceTimeEntries(condition);
+  const { expenseAmount, unconvertedExpenses, burn: expenseBurn } = await sumBillableExpenses(condition, currency);
+  return {
+    consumedAmount: timeAmount + expenseAmount,
+    expenseAmount,
+    unpricedHours,
+    unconvertedExpenses,
+    burn: [...timeBurn, ...expenseBurn]
+  };
+};
+
+/**
+ * Fixed-price projects earn their price through milestones, so what they consume is the
+ * effort cost: all hours at cost rates. Hours without a cost rate, or without an exchange
+ * rate from the reporting currency, are reported as unpriced. Billable expenses are passed
+ * on to the client outside the price and are left out.
+ */
+export const measureEffortCost = async (projectId: number, currency: string): Promise<BudgetMeasurement & { earnedValue: number }> => {
+  const entries = await db
+    .select({
+      user_id: timeEntriesTable.user_id,
+      date: timeEntriesTable.date,
+      hours: timeEntriesTable.hours
+    })
+    .from(timeEntriesTable)
+    .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+    .where(eq(positionsTable.project_id, projectId))
+    .execute();
+
+  const resolveCost = await createCostResolver(db, entries);
+  const convert = await createCurrencyConverter(db);
+
+  let consumedAmount = 0;
+  let unpricedHours = 0;
+  const burn: BurnAmount[] = [];
+  for (const entry of entries) {
+    const hours = parseFloat(entry.hours);
+    const costRate = resolveCost(entry);
+    const cost = costRate !== null ? convert(hours * costRate, reportingCurrency(), currency, entry.date) : null;
+    if (cost !== null) {
+      consumedAmount += cost;
+      burn.push({ date: entry.date, amount: cost });
+    } else {
+      unpricedHours += hours;
+    }
+  }
+
+  const earned = await db
+    .select({ earned_value: sum(milestonesTable.amount) })
+    .from(milestonesTable)
+    .where(and(eq(milestonesTable.project_id, projectId), isNotNull(milestonesTable.completed_on)))
+    .execute();
+
+  const earnedValue = earned[0]?.earned_value ? parseFloat(earned[0].earned_value) : 0;
+
+  return { consumedAmount, expenseAmount: 0, unpricedHours, unconvertedExpenses: 0, earnedValue, burn };
+};
+
+// Measures a project the way its billing model consumes the budget, in the given client currency
+export const measureProject = async (
+  project: { id: number; billing_model: string },
+  currency: string
+): Promise<BudgetMeasurement & { earnedValue: number | null }> =>
+  project.billing_model === 'fixed_price'
+    ? await measureEffortCost(project.id, currency)
+    : { ...await measureConsumption(eq(positionsTable.project_id, project.id), currency), earnedValue: null };
+
+// Consumed amounts in the reporting currency, each at the rate of its date; null when a rate is missing
+export const burnInReportingCurrency = async (burn: BurnAmount[], currency: string): Promise<number | null> => {
+  const convert = await createCurrencyConverter(db);
+
+  let total = 0;
+  for (const item of burn) {
+    const amount = convert(item.amount, currency, reportingCurrency(), item.date);
+    if (amount === null) return null;
+    total += amount;
+  }
+
+  return total;
+};
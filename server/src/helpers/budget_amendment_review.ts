@@ -0,0 +1,93 @@
+import { db } from '../db';
+import { budgetAmendmentsTable, positionsTable, projectsTable, usersTable, type BudgetAmendment as BudgetAmendmentRow } from '../db/schema';
+import { type ReviewBudgetAmendmentInput, type BudgetAmendment } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Convert numeric columns back to numbers
+export const toBudgetAmendment = (amendment: BudgetAmendmentRow): BudgetAmendment => ({
+  ...amendment,
+  delta: parseFloat(amendment.delta),
+  budget_before: amendment.budget_before !== null ? parseFloat(amendment.budget_before) : null
+});
+
+// Shared by approve and reject: only administrators may review, never their own
+// request, and only while it is pending. Approval adds the delta to the budget.
+export const reviewBudgetAmendment = async (
+  input: ReviewBudgetAmendmentInput,
+  status: 'approved' | 'rejected'
+): Promise<BudgetAmendment> => {
+  const reviewer = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, input.reviewer_id))
+    .limit(1)
+    .execute();
+
+  if (reviewer.length === 0) {
+    throw new Error(`User with ID ${input.reviewer_id} does not exist`);
+  }
+
+  if (reviewer[0].role !== 'administrator') {
+    throw new Error('Only administrators can review budget amendments');
+  }
+
+  return await db.transaction(async (tx) => {
+    const existing = await tx.select()
+      .from(budgetAmendmentsTable)
+      .where(eq(budgetAmendmentsTable.id, input.amendment_id))
+      .for('update')
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Budget amendment with ID ${input.amendment_id} does not exist`);
+    }
+
+    const amendment = existing[0];
+    if (amendment.requested_by === input.reviewer_id) {
+      throw new Error('Budget amendments cannot be reviewed by the person requesting them');
+    }
+
+    if (amendment.status !== 'pending') {
+      throw new Error(`Budget amendment with ID ${amendment.id} is ${amendment.status}, not pending`);
+    }
+
+    let budgetBefore: string | null = null;
+    if (status === 'approved') {
+      // Locks the budget so concurrent approvals add up
+      const owner = amendment.project_id !== null
+        ? await tx.select({ budget: projectsTable.budget }).from(projectsTable).where(eq(projectsTable.id, amendment.project_id)).for('update').execute()
+        : await tx.select({ budget: positionsTable.budget }).from(positionsTable).where(eq(positionsTable.id, amendment.position_id!)).for('update').execute();
+
+      budgetBefore = owner[0].budget;
+      const budget = (budgetBefore !== null ? parseFloat(budgetBefore) : 0) + parseFloat(amendment.delta);
+      if (Math.round(budget * 100) <= 0) {
+        throw new Error(`Budget amendment with ID ${amendment.id} would leave a budget of ${budget.toFixed(2)}`);
+      }
+
+      if (amendment.project_id !== null) {
+        await tx.update(projectsTable)
+          .set({ budget: budget.toFixed(2), updated_at: new Date() }) // Convert number to string for numeric column
+          .where(eq(projectsTable.id, amendment.project_id))
+          .execute();
+      } else {
+        await tx.update(positionsTable)
+          .set({ budget: budget.toFixed(2), updated_at: new Date() })
+          .where(eq(positionsTable.id, amendment.position_id!))
+          .execute();
+      }
+    }
+
+    const result = await tx.update(budgetAmendmentsTable)
+      .set({
+        status,
+        reviewed_by: input.reviewer_id,
+        reviewed_at: new Date(),
+        review_comment: input.comment,
+        budget_before: budgetBefore
+      })
+      .where(eq(budgetAmendmentsTable.id, amendment.id))
+      .returning()
+      .execute();
+
+    return toBudgetAmendment(result[0]);
+  });
+};
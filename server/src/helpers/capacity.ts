@@ -0,0 +1,118 @@
+import { db, type QueryExecutor } from '../db';
+import { workSchedulesTable, absencesTable } from '../db/schema';
+import { getDaysInRange, getIsoWeekday, getWeekEnd, getWeekStart } from './week';
+import { getUserHolidays } from './holiday';
+import { and, eq, gte, lte, asc } from 'drizzle-orm';
+
+// Applies to users without a work schedule, and to days before their first one
+export const DEFAULT_WORK_SCHEDULE = {
+  weekly_hours: 40,
+  working_days: [1, 2, 3, 4, 5]
+};
+
+/**
+ * Contracted hours for every day from startDate to endDate (YYYY-MM-DD), keyed by date.
+ * Each day uses the latest schedule effective on that day; the weekly hours are spread
+ * evenly over the schedule's working days, and all other days have no capacity. Public
+ * holidays from the user's holiday calendar are not working days either.
+ */
+export const getScheduledCapacity = async (
+  executor: QueryExecutor,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, number>> => {
+  const schedules = await executor.select()
+    .from(workSchedulesTable)
+    .where(and(
+      eq(workSchedulesTable.user_id, userId),
+      lte(workSchedulesTable.effective_from, endDate)
+    ))
+    .orderBy(asc(workSchedulesTable.effective_from))
+    .execute();
+
+  const holidays = await getUserHolidays(executor, userId, startDate, endDate);
+  const holidayDates = new Set(holidays.map(holiday => holiday.date));
+
+  const capacity = new Map<string, number>();
+
+  for (const date of getDaysInRange(startDate, endDate)) {
+    const schedule = schedules.findLast(candidate => candidate.effective_from <= date);
+    const weeklyHours = schedule ? parseFloat(schedule.weekly_hours) : DEFAULT_WORK_SCHEDULE.weekly_hours;
+    const workingDays = schedule ? schedule.working_days : DEFAULT_WORK_SCHEDULE.working_days;
+
+    const isWorkingDay = workingDays.includes(getIsoWeekday(date)) && !holidayDates.has(date);
+    capacity.set(date, isWorkingDay ? weeklyHours / workingDays.length : 0);
+  }
+
+  return capacity;
+};
+
+/**
+ * Hours actually available for work: scheduled capacity with approved absences taken
+ * out. A half-day absence removes half of that day's scheduled hours.
+ */
+export const getDailyCapacity = async (
+  executor: QueryExecutor,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, number>> => {
+  const capacity = await getScheduledCapacity(executor, userId, startDate, endDate);
+
+  const absences = await executor.select()
+    .from(absencesTable)
+    .where(and(
+      eq(absencesTable.user_id, userId),
+      eq(absencesTable.status, 'approved'),
+      lte(absencesTable.start_date, endDate),
+      gte(absencesTable.end_date, startDate)
+    ))
+    .execute();
+
+  for (const absence of absences) {
+    for (const date of getDaysInRange(absence.start_date, absence.end_date)) {
+      const hours = capacity.get(date);
+      if (hours !== undefined) {
+        capacity.set(date, absence.half_day ? hours / 2 : 0);
+      }
+    }
+  }
+
+  return capacity;
+};
+
+export const getAvailableHours = async (
+  executor: QueryExecutor,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<number> => {
+  const capacity = await getDailyCapacity(executor, userId, startDate, endDate);
+  return Array.from(capacity.values()).reduce((sum, hours) => sum + hours, 0);
+};
+
+// Available hours per week, keyed by the Monday of each of the given weeks
+export const getWeeklyCapacity = async (
+  executor: QueryExecutor,
+  userId: number,
+  weekStarts: string[]
+): Promise<Map<string, number>> => {
+  const weekly = new Map<string, number>(weekStarts.map(weekStart => [weekStart, 0]));
+  if (weekStarts.length === 0) {
+    return weekly;
+  }
+
+  const sorted = [...weekStarts].sort();
+  const capacity = await getDailyCapacity(executor, userId, sorted[0], getWeekEnd(sorted[sorted.length - 1]));
+
+  for (const [date, hours] of capacity) {
+    const weekStart = getWeekStart(new Date(date));
+    const total = weekly.get(weekStart);
+    if (total !== undefined) {
+      weekly.set(weekStart, total + hours);
+    }
+  }
+
+  return weekly;
+};
@@ -0,0 +1,63 @@
+import { db, type QueryExecutor } from '../db';
+import { exchangeRatesTable, type ExchangeRate as ExchangeRateRow } from '../db/schema';
+import { type ExchangeRate } from '../schema';
+import { asc } from 'drizzle-orm';
+
+/**
+ * Money columns hold amounts in the currency of whatever they belong to: a client's
+ * currency for its budgets, rates, retainers, milestones and invoices, the expense's own
+ * currency for expenses, and the reporting currency for cost rates and the default bill
+ * rates of users and positions. REPORTING_CURRENCY (default: USD) is the company
+ * currency reports add everything up in.
+ */
+export const reportingCurrency = (): string => process.env['REPORTING_CURRENCY'] || 'USD';
+
+export const toExchangeRate = (rate: ExchangeRateRow): ExchangeRate => ({
+  ...rate,
+  rate: parseFloat(rate.rate) // Convert string back to number
+});
+
+export type CurrencyConverter = (amount: number, from: string, to: string, date: string) => number | null;
+
+/**
+ * Loads the exchange rates and returns the conversion function. An amount is converted
+ * with the pair's rate valid on the given date (YYYY-MM-DD) - the latest one from on or
+ * before it - in either direction; a pair without a rate goes through the reporting
+ * currency. The converter returns null when no rate applies - callers must report such
+ * amounts rather than count them at zero.
+ */
+export const createCurrencyConverter = async (executor: QueryExecutor): Promise<CurrencyConverter> => {
+  const rates = await executor.select()
+    .from(exchangeRatesTable)
+    .orderBy(asc(exchangeRatesTable.valid_from))
+    .execute();
+
+  const directRate = (from: string, to: string, date: string): number | null => {
+    if (from === to) return 1;
+
+    let found: { valid_from: string; rate: number } | null = null;
+    for (const rate of rates) {
+      if (rate.valid_from > date) break;
+
+      const value = parseFloat(rate.rate); // Convert string back to number
+      if (rate.base_currency === from && rate.quote_currency === to) {
+        found = { valid_from: rate.valid_from, rate: value };
+      } else if (rate.base_currency === to && rate.quote_currency === from) {
+        found = { valid_from: rate.valid_from, rate: 1 / value };
+      }
+    }
+
+    return found?.rate ?? null;
+  };
+
+  return (amount, from, to, date) => {
+    let rate = directRate(from, to, date);
+    if (rate === null) {
+      const toReporting = directRate(from, reportingCurrency(), date);
+      const fromReporting = directRate(reportingCurrency(), to, date);
+      rate = toReporting !== null && fromReporting !== null ? toReporting * fromReporting : null;
+    }
+
+    return rate !== null ? amount * rate : null;
+  };
+};
@@ -0,0 +1,108 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { connect } from 'node:net';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { db, type QueryExecutor } from '../db';
+import { emailOutboxTable, type OutboxEmail } from '../db/schema';
+
+/**
+ * Emails are queued in the email_outbox table inside the transaction of the change that
+ * caused them and delivered later by deliverEmails. EMAIL_TRANSPORT picks the delivery:
+ *   file (default)  one .eml file per email in EMAIL_OUTBOX_DIR (default: ./outbox)
+ *   smtp            plain SMTP without authentication to SMTP_HOST:SMTP_PORT
+ *                   (default: 127.0.0.1:1025), meant for a local sink like Mailpit
+ */
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+const sender = (): string => process.env['EMAIL_FROM'] || 'timetracking@localhost';
+
+export const enqueueEmail = async (
+  executor: QueryExecutor<'insert'>,
+  email: { to_address: string; subject: string; body: string }
+): Promise<void> => {
+  await executor.insert(emailOutboxTable)
+    .values(email)
+    .execute();
+};
+
+// RFC 5322 message with CRLF line endings
+const formatMessage = (email: OutboxEmail): string => [
+  `From: ${sender()}`,
+  `To: ${email.to_address}`,
+  `Subject: ${email.subject}`,
+  `Date: ${email.created_at.toUTCString()}`,
+  `Message-ID: <outbox-${email.id}@${hostname()}>`,
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: 8bit',
+  '',
+  email.body.replace(/\r?\n/g, '\r\n')
+].join('\r\n');
+
+const writeToFile = async (email: OutboxEmail, message: string): Promise<void> => {
+  const directory = process.env['EMAIL_OUTBOX_DIR'] || join(process.cwd(), 'outbox');
+  await mkdir(directory, { recursive: true });
+  await writeFile(join(directory, `${email.id}.eml`), message);
+};
+
+const sendOverSmtp = (email: OutboxEmail, message: string): Promise<void> => new Promise((resolve, reject) => {
+  const socket = connect({
+    host: process.env['SMTP_HOST'] || '127.0.0.1',
+    port: parseInt(process.env['SMTP_PORT'] || '1025')
+  });
+
+  // Each reply must carry the expected code before the next command is sent
+  const steps: Array<[number, string | null]> = [
+    [220, `EHLO ${hostname()}`],
+    [250, `MAIL FROM:<${sender()}>`],
+    [250, `RCPT TO:<${email.to_address}>`],
+    [250, 'DATA'],
+    [354, `${message.replace(/^\./gm, '..')}\r\n.`], // Dot-stuffing keeps body lines from ending the data
+    [250, 'QUIT'],
+    [221, null]
+  ];
+
+  let buffer = '';
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server did not answer in time')));
+  socket.on('error', reject);
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString();
+    const lines = buffer.split('\r\n');
+    buffer = lines.pop()!;
+
+    for (const line of lines) {
+      if (line[3] === '-') continue; // Multi-line reply goes on
+
+      const [expected, command] = steps.shift()!;
+      if (line[0] !== String(expected)[0]) {
+        socket.destroy();
+        reject(new Error(`SMTP server answered "${line}"`));
+        return;
+      }
+
+      if (command === null) {
+        socket.end();
+        resolve();
+        return;
+      }
+
+      socket.write(`${command}\r\n`);
+    }
+  });
+});
+
+export const deliverEmail = async (email: OutboxEmail): Promise<void> => {
+  const message = formatMessage(email);
+  const transport = process.env['EMAIL_TRANSPORT'] || 'file';
+
+  if (transport === 'file') {
+    await writeToFile(email, message);
+  } else if (transport === 'smtp') {
+    await sendOverSmtp(email, message);
+  } else {
+    throw new Error(`Unknown EMAIL_TRANSPORT ${transport}; use file or smtp`);
+  }
+};
@@ -0,0 +1,26 @@
+import { type Expense as ExpenseRow } from '../db/schema';
+import { type Expense } from '../schema';
+
+export const toExpense = (expense: ExpenseRow): Expense => ({
+  id: expense.id,
+  user_id: expense.user_id,
+  position_id: expense.position_id,
+  date: new Date(expense.date), // Convert string back to Date
+  amount: parseFloat(expense.amount), // Convert string back to number
+  currency: expense.currency,
+  category: expense.category,
+  description: expense.description,
+  billable: expense.billable,
+  reimbursable: expense.reimbursable,
+  receipt_filename: expense.receipt_filename,
+  invoice_id: expense.invoice_id,
+  created_at: expense.created_at,
+  updated_at: expense.updated_at
+});
+
+// Expenses on a draft or finalized invoice are frozen until that invoice is voided
+export const assertExpenseNotInvoiced = (expense: { id: number; invoice_id: number | null }): void => {
+  if (expense.invoice_id !== null) {
+    throw new Error(`Expense with ID ${expense.id} is on invoice ${expense.invoice_id} and cannot be changed`);
+  }
+};
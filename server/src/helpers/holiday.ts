@@ -0,0 +1,28 @@
+import { db, type QueryExecutor } from '../db';
+import { holidaysTable, usersTable, type Holiday } from '../db/schema';
+import { and, eq, gte, lte, asc } from 'drizzle-orm';
+
+// Public holidays between startDate and endDate from the user's holiday calendar, if any
+export const getUserHolidays = async (
+  executor: QueryExecutor,
+  userId: number,
+  startDate: string,
+  endDate: string
+): Promise<Holiday[]> => {
+  return executor.select({
+    id: holidaysTable.id,
+    calendar_id: holidaysTable.calendar_id,
+    date: holidaysTable.date,
+    name: holidaysTable.name,
+    created_at: holidaysTable.created_at
+  })
+    .from(holidaysTable)
+    .innerJoin(usersTable, eq(usersTable.holiday_calendar_id, holidaysTable.calendar_id))
+    .where(and(
+      eq(usersTable.id, userId),
+      gte(holidaysTable.date, startDate),
+      lte(holidaysTable.date, endDate)
+    ))
+    .orderBy(asc(holidaysTable.date))
+    .execute();
+};
@@ -0,0 +1,61 @@
+import { getDaysInRange, toDateString } from './week';
+
+export interface IcsHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// Reads "20240101" or "20240101T000000Z" into YYYY-MM-DD
+const parseIcsDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Extracts holidays from the VEVENTs of an iCalendar file. Multi-day events yield one
+ * holiday per day; DTEND is exclusive, as for all-day events in published holiday feeds.
+ */
+export const parseIcsHolidays = (ics: string): IcsHoliday[] => {
+  // Continuation lines start with a space or tab and belong to the previous line
+  const lines = ics.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const holidays: IcsHoliday[] = [];
+  let event: { start: string | null; end: string | null; name: string } | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VEVENT') {
+      event = { start: null, end: null, name: '' };
+    } else if (event && property === 'DTSTART') {
+      event.start = parseIcsDate(value);
+    } else if (event && property === 'DTEND') {
+      event.end = parseIcsDate(value);
+    } else if (event && property === 'SUMMARY') {
+      event.name = unescapeIcsText(value);
+    } else if (event && property === 'END' && value.trim().toUpperCase() === 'VEVENT') {
+      if (event.start) {
+        let lastDay = event.start;
+        if (event.end && event.end > event.start) {
+          const end = new Date(event.end + 'T00:00:00.000Z');
+          end.setUTCDate(end.getUTCDate() - 1);
+          lastDay = toDateString(end);
+        }
+
+        for (const date of getDaysInRange(event.start, lastDay)) {
+          holidays.push({ date, name: event.name || 'Holiday' });
+        }
+      }
+      event = null;
+    }
+  }
+
+  return holidays;
+};
@@ -0,0 +1,119 @@
+import { db, type QueryExecutor } from '../db';
+import { invoicesTable, invoiceLineItemsTable, clientsTable, expensesTable, milestonesTable, timeEntriesTable, type Invoice as InvoiceRow } from '../db/schema';
+import { type Invoice, type InvoiceDetails } from '../schema';
+import { createCurrencyConverter, reportingCurrency } from './currency';
+import { and, asc, eq, gte, inArray, isNull, lt, or, type SQL } from 'drizzle-orm';
+
+// Statuses that still expect money and turn overdue after the due date
+export const OPEN_INVOICE_STATUSES = ['sent', 'partially_paid'] as const;
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+// Overdue is not stored: an open invoice is overdue from the day after its due date
+export const getInvoiceStatus = (invoice: Pick<InvoiceRow, 'status' | 'due_date'>, asOf: string = today()): Invoice['status'] =>
+  (OPEN_INVOICE_STATUSES as readonly string[]).includes(invoice.status) && invoice.due_date !== null && invoice.due_date < asOf
+    ? 'overdue'
+    : invoice.status;
+
+// Filters invoices by their status as getInvoiceStatus reports it
+export const invoiceStatusCondition = (status: Invoice['status'], asOf: string = today()): SQL<unknown> | undefined => {
+  if (status === 'overdue') {
+    return and(inArray(invoicesTable.status, [...OPEN_INVOICE_STATUSES]), lt(invoicesTable.due_date, asOf));
+  }
+
+  if (status === 'sent' || status === 'partially_paid') {
+    return and(
+      eq(invoicesTable.status, status),
+      or(isNull(invoicesTable.due_date), gte(invoicesTable.due_date, asOf))
+    );
+  }
+
+  return eq(invoicesTable.status, status);
+};
+
+// New invoices are in the client's currency and keep the day's rate to the reporting currency
+export const getInvoiceCurrency = async (
+  executor: QueryExecutor,
+  currency: string
+): Promise<{ currency: string; exchange_rate: string | null }> => {
+  const convert = await createCurrencyConverter(executor);
+  const rate = convert(1, currency, reportingCurrency(), today());
+  return { currency, exchange_rate: rate !== null ? rate.toFixed(8) : null }; // Convert number to string for numeric column
+};
+
+// Invoices from before exchange rates were recorded have none; those in the reporting currency need none
+export const getReportingRate = (invoice: Pick<InvoiceRow, 'currency' | 'exchange_rate'>): number | null => {
+  if (invoice.exchange_rate !== null) return parseFloat(invoice.exchange_rate); // Convert string back to number
+  return invoice.currency === reportingCurrency() ? 1 : null;
+};
+
+export const toInvoice = (invoice: InvoiceRow): Invoice => {
+  const total = parseFloat(invoice.total); // Convert strings back to numbers
+  const amountPaid = parseFloat(invoice.amount_paid);
+  const reportingRate = getReportingRate(invoice);
+
+  return {
+    ...invoice,
+    status: getInvoiceStatus(invoice),
+    subtotal: parseFloat(invoice.subtotal),
+    tax_rate: parseFloat(invoice.tax_rate),
+    tax_amount: parseFloat(invoice.tax_amount),
+    total,
+    amount_paid: amountPaid,
+    balance_due: Math.round((total - amountPaid) * 100) / 100,
+    exchange_rate: invoice.exchange_rate !== null ? parseFloat(invoice.exchange_rate) : null,
+    total_reporting: reportingRate !== null ? Math.round(total * reportingRate * 100) / 100 : null
+  };
+};
+
+// Loads an invoice with its client name, line items, time entries, expenses and milestones; throws when it does not exist
+export const getInvoiceWithLines = async (executor: QueryExecutor, invoiceId: number): Promise<InvoiceDetails> => {
+  const invoices = await executor.select({ invoice: invoicesTable, client_name: clientsTable.name })
+    .from(invoicesTable)
+    .innerJoin(clientsTable, eq(invoicesTable.client_id, clientsTable.id))
+    .where(eq(invoicesTable.id, invoiceId))
+    .limit(1)
+    .execute();
+
+  if (invoices.length === 0) {
+    throw new Error(`Invoice with ID ${invoiceId} does not exist`);
+  }
+
+  const lineItems = await executor.select()
+    .from(invoiceLineItemsTable)
+    .where(eq(invoiceLineItemsTable.invoice_id, invoiceId))
+    .orderBy(asc(invoiceLineItemsTable.id))
+    .execute();
+
+  const timeEntries = await executor.select({ id: timeEntriesTable.id })
+    .from(timeEntriesTable)
+    .where(eq(timeEntriesTable.invoice_id, invoiceId))
+    .orderBy(asc(timeEntriesTable.id))
+    .execute();
+
+  const expenses = await executor.select({ id: expensesTable.id })
+    .from(expensesTable)
+    .where(eq(expensesTable.invoice_id, invoiceId))
+    .orderBy(asc(expensesTable.id))
+    .execute();
+
+  const milestones = await executor.select({ id: milestonesTable.id })
+    .from(milestonesTable)
+    .where(eq(milestonesTable.invoice_id, invoiceId))
+    .orderBy(asc(milestonesTable.id))
+    .execute();
+
+  return {
+    ...toInvoice(invoices[0].invoice),
+    client_name: invoices[0].client_name,
+    line_items: lineItems.map(item => ({
+      ...item,
+      hours: item.hours === null ? null : parseFloat(item.hours), // Convert strings back to numbers
+      hourly_rate: item.hourly_rate === null ? null : parseFloat(item.hourly_rate),
+      amount: parseFloat(item.amount)
+    })),
+    time_entry_ids: timeEntries.map(entry => entry.id),
+    expense_ids: expenses.map(expense => expense.id),
+    milestone_ids: milestones.map(milestone => milestone.id)
+  };
+};
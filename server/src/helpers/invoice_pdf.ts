@@ -0,0 +1,262 @@
+import { PAGE_HEIGHT, PAGE_WIDTH, measureText, renderPdf, wrapText, type PdfFont, type PdfOperation } from './pdf';
+
+/**
+ * Invoice templates are plain text, one layout instruction per line:
+ *   # text            heading
+ *   ## text           subheading
+ *   > text            right-aligned text
+ *   ---               horizontal rule
+ *   (empty line)      vertical space
+ *   {{line_items}}    line item table, grouped by project: time per position, retainer credit, cap adjustment, expenses, milestones
+ *   {{totals}}        subtotal, tax and total
+ *   {{appendix}}      per-entry appendix on a new page, when requested
+ *   {{page_break}}    starts a new page
+ *   anything else     regular text
+ * Text may use the placeholders in TEMPLATE_FIELDS. A placeholder holding several
+ * lines, like the client address, repeats the line's style for each of them.
+ */
+
+export const TEMPLATE_FIELDS = [
+  'invoice_number', 'invoice_date', 'due_date', 'status', 'period_start', 'period_end', 'client_name', 'client_address',
+  'subtotal', 'tax_rate', 'tax_amount', 'total', 'amount_paid', 'balance_due', 'currency'
+] as const;
+
+const TEMPLATE_BLOCKS = ['line_items', 'totals', 'appendix', 'page_break'] as const;
+
+type TemplateField = typeof TEMPLATE_FIELDS[number];
+
+export const DEFAULT_INVOICE_TEMPLATE = `# INVOICE
+## Your Company Name
+Street 1, 12345 City
+---
+
+## Bill to
+{{client_name}}
+{{client_address}}
+
+> Invoice number: {{invoice_number}}
+> Invoice date: {{invoice_date}}
+> Service period: {{period_start}} – {{period_end}}
+
+{{line_items}}
+{{totals}}
+
+Please transfer the total within 30 days, quoting the invoice number.
+---
+Your Company Name · IBAN DE00 0000 0000 0000 0000 00 · VAT ID DE000000000
+{{appendix}}`;
+
+export interface InvoiceDocument {
+  fields: Record<TemplateField, string>;
+  currency: string; // Of every amount on the invoice
+  tax_rate: number;
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  groups: Array<{
+    project_name: string;
+    lines: Array<{ position_name: string; hours: number | null; hourly_rate: number | null; amount: number }>; // Hours on time and retainer lines, rate on time lines only
+  }>;
+  entries: Array<{ date: string; user_name: string; position_name: string; hours: number; description: string | null }> | null; // Null leaves out the appendix
+}
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// Throws on placeholders the renderer does not know and on misplaced blocks
+export const validateInvoiceTemplate = (body: string): void => {
+  for (const line of body.split(/\r?\n/)) {
+    for (const match of line.matchAll(PLACEHOLDER)) {
+      const name = match[1];
+      if ((TEMPLATE_BLOCKS as readonly string[]).includes(name)) {
+        if (line.trim() !== match[0]) {
+          throw new Error(`{{${name}}} must be on a line of its own`);
+        }
+      } else if (!(TEMPLATE_FIELDS as readonly string[]).includes(name)) {
+        throw new Error(`Unknown template placeholder {{${name}}}`);
+      }
+    }
+  }
+};
+
+export const formatMoney = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const MARGIN = 50;
+const TOP = PAGE_HEIGHT - MARGIN;
+const BOTTOM = 60;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const ACCENT = '#1f3a8a';
+const MUTED = '#6b7280';
+
+// Lays out the template for the invoice and returns the PDF file
+export const buildInvoicePdf = (template: string, document: InvoiceDocument): Buffer => {
+  validateInvoiceTemplate(template);
+
+  const pages: PdfOperation[][] = [[]];
+  let y = TOP;
+
+  const newPage = () => {
+    pages.push([]);
+    y = TOP;
+  };
+
+  const ensureSpace = (height: number): boolean => {
+    if (y - height < BOTTOM) {
+      newPage();
+      return true;
+    }
+    return false;
+  };
+
+  const text = (value: string, x: number, font: PdfFont, size: number, color?: string) => {
+    pages[pages.length - 1].push({ kind: 'text', x, y, text: value, font, size, color });
+  };
+
+  const rightText = (value: string, right: number, font: PdfFont, size: number, color?: string) =>
+    text(value, right - measureText(value, font, size), font, size, color);
+
+  const rule = (width = 0.5, color = MUTED) => {
+    pages[pages.length - 1].push({ kind: 'line', x1: MARGIN, y1: y, x2: RIGHT, y2: y, width, color });
+  };
+
+  const writeLine = (value: string, font: PdfFont, size: number, align: 'left' | 'right', color?: string) => {
+    for (const wrapped of wrapText(value, font, size, RIGHT - MARGIN)) {
+      ensureSpace(size * 1.4);
+      y -= size * 1.4;
+      if (align === 'right') {
+        rightText(wrapped, RIGHT, font, size, color);
+      } else {
+        text(wrapped, MARGIN, font, size, color);
+      }
+    }
+  };
+
+  const COLUMN_HOURS = 370;
+  const COLUMN_RATE = 455;
+
+  const lineItemHeader = () => {
+    y -= 14;
+    text('Description', MARGIN, 'bold', 9, ACCENT);
+    rightText('Hours', COLUMN_HOURS, 'bold', 9, ACCENT);
+    rightText('Rate', COLUMN_RATE, 'bold', 9, ACCENT);
+    rightText('Amount', RIGHT, 'bold', 9, ACCENT);
+    y -= 5;
+    rule(0.75, ACCENT);
+  };
+
+  const lineItems = () => {
+    ensureSpace(40);
+    lineItemHeader();
+
+    for (const group of document.groups) {
+      if (ensureSpace(28)) lineItemHeader();
+      y -= 16;
+      text(group.project_name, MARGIN, 'bold', 10);
+
+      for (const line of group.lines) {
+        const description = wrapText(line.position_name, 'regular', 10, COLUMN_HOURS - MARGIN - 60);
+        if (ensureSpace(description.length * 14)) lineItemHeader();
+        y -= 14;
+        if (line.hours !== null) rightText(line.hours.toFixed(2), COLUMN_HOURS, 'regular', 10);
+        if (line.hourly_rate !== null) rightText(formatMoney(line.hourly_rate), COLUMN_RATE, 'regular', 10);
+        rightText(formatMoney(line.amount), RIGHT, 'regular', 10);
+        description.forEach((part, index) => {
+          if (index > 0) y -= 14;
+          text(part, MARGIN + 12, 'regular', 10);
+        });
+      }
+    }
+
+    y -= 8;
+    rule();
+  };
+
+  const totals = () => {
+    ensureSpace(60);
+    const rows: Array<[string, number, PdfFont]> = [
+      ['Subtotal', document.subtotal, 'regular'],
+      [`Tax (${document.tax_rate}%)`, document.tax_amount, 'regular'],
+      [`Total (${document.currency})`, document.total, 'bold']
+    ];
+
+    for (const [label, amount, font] of rows) {
+      y -= font === 'bold' ? 18 : 14;
+      rightText(label, COLUMN_RATE, font, font === 'bold' ? 12 : 10);
+      rightText(formatMoney(amount), RIGHT, font, font === 'bold' ? 12 : 10);
+    }
+  };
+
+  const appendix = () => {
+    if (!document.entries) return;
+    newPage();
+    writeLine('Appendix – time entries', 'bold', 14, 'left', ACCENT);
+    y -= 6;
+
+    for (const entry of document.entries) {
+      const description = entry.description ? wrapText(entry.description, 'regular', 8, RIGHT - MARGIN - 70) : [];
+      ensureSpace(14 + description.length * 11);
+      y -= 14;
+      text(entry.date, MARGIN, 'regular', 9);
+      text(entry.user_name, MARGIN + 70, 'regular', 9);
+      text(entry.position_name, MARGIN + 200, 'regular', 9);
+      rightText(entry.hours.toFixed(2), RIGHT, 'regular', 9);
+      for (const part of description) {
+        y -= 11;
+        text(part, MARGIN + 70, 'regular', 8, MUTED);
+      }
+    }
+  };
+
+  const substitute = (line: string): string[] => {
+    const multiLine = [...line.matchAll(PLACEHOLDER)]
+      .map(match => document.fields[match[1] as TemplateField])
+      .find(value => value.includes('\n'));
+
+    // Repeat the line once per value line of the first multi-line placeholder
+    const variants = multiLine ? multiLine.split('\n').map(part => ({ multiLine, part })) : [null];
+    const lines = variants.map(variant => line.replace(PLACEHOLDER, (_, name: TemplateField) =>
+      variant && document.fields[name] === variant.multiLine ? variant.part : document.fields[name]
+    ));
+
+    // Lines made only of empty placeholders, like a missing address, are left out
+    return lines.filter(value => value.trim() !== '');
+  };
+
+  for (const rawLine of template.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    const block = /^\{\{\s*([a-z_]+)\s*\}\}$/.exec(line.trim())?.[1];
+
+    if (block === 'line_items') {
+      lineItems();
+    } else if (block === 'totals') {
+      totals();
+    } else if (block === 'appendix') {
+      appendix();
+    } else if (block === 'page_break') {
+      newPage();
+    } else if (line.trim() === '---') {
+      y -= 6;
+      rule();
+    } else if (line.trim() === '') {
+      y -= 8;
+    } else if (line.startsWith('## ')) {
+      substitute(line.slice(3)).forEach(value => writeLine(value, 'bold', 12, 'left'));
+    } else if (line.startsWith('# ')) {
+      substitute(line.slice(2)).forEach(value => writeLine(value, 'bold', 20, 'left', ACCENT));
+    } else if (line.startsWith('> ')) {
+      substitute(line.slice(2)).forEach(value => writeLine(value, 'regular', 10, 'right'));
+    } else {
+      substitute(line).forEach(value => writeLine(value, 'regular', 10, 'left'));
+    }
+  }
+
+  // Page numbers once the page count is known
+  pages.forEach((page, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    page.push({
+      kind: 'text', x: RIGHT - measureText(label, 'regular', 8), y: 30, text: label, font: 'regular', size: 8, color: MUTED
+    });
+  });
+
+  return renderPdf(pages);
+};
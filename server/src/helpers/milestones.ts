@@ -0,0 +1,21 @@
+import { type Milestone as MilestoneRow } from '../db/schema';
+import { type BillingModel, type Milestone } from '../schema';
+
+// Used in error messages
+export const BILLING_MODEL_NAMES: Record<BillingModel, string> = {
+  time_and_materials: 'Time and materials',
+  fixed_price: 'Fixed-price',
+  capped_time_and_materials: 'Capped time and materials'
+};
+
+export const toMilestone = (milestone: MilestoneRow): Milestone => ({
+  ...milestone,
+  amount: parseFloat(milestone.amount) // Convert string back to number
+});
+
+// Milestones on a draft or finalized invoice are frozen until that invoice is voided
+export const assertMilestoneNotInvoiced = (milestone: { id: number; invoice_id: number | null }): void => {
+  if (milestone.invoice_id !== null) {
+    throw new Error(`Milestone with ID ${milestone.id} is on invoice ${milestone.invoice_id} and cannot be changed`);
+  }
+};
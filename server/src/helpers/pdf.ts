@@ -0,0 +1,186 @@
+/**
+ * Minimal PDF 1.4 writer for text documents. It only knows the two standard
+ * Helvetica fonts, which every PDF viewer ships, so no font files are embedded
+ * and no outside service is involved. Coordinates are in points from the
+ * bottom-left corner of an A4 page.
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfOperation =
+  | { kind: 'text'; x: number; y: number; text: string; font: PdfFont; size: number; color?: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width: number; color?: string };
+
+// Glyph widths (1/1000 em) of the printable ASCII range, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Glyph widths of WinAnsi codes 128-255, from the same metrics; codes the encoding leaves unused are 0
+const HELVETICA_WIN_ANSI_WIDTHS = [
+  556, 0, 222, 556, 333, 1000, 556, 556, 333, 1000, 667, 333, 1000, 0, 611, 0,
+  0, 222, 222, 333, 333, 350, 556, 1000, 333, 1000, 500, 333, 944, 0, 500, 667,
+  278, 333, 556, 556, 556, 556, 260, 556, 333, 737, 370, 556, 584, 333, 737, 333,
+  400, 584, 333, 333, 333, 556, 537, 278, 333, 333, 365, 556, 834, 834, 834, 611,
+  667, 667, 667, 667, 667, 667, 1000, 722, 667, 667, 667, 667, 278, 278, 278, 278,
+  722, 722, 778, 778, 778, 778, 778, 584, 778, 722, 722, 722, 722, 667, 667, 611,
+  556, 556, 556, 556, 556, 556, 889, 500, 556, 556, 556, 556, 278, 278, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 584, 611, 556, 556, 556, 556, 500, 556, 500
+];
+
+const HELVETICA_BOLD_WIN_ANSI_WIDTHS = [
+  556, 0, 278, 556, 500, 1000, 556, 556, 333, 1000, 667, 333, 1000, 0, 611, 0,
+  0, 278, 278, 500, 500, 350, 556, 1000, 333, 1000, 556, 333, 944, 0, 500, 667,
+  278, 333, 556, 556, 556, 556, 280, 556, 333, 737, 370, 556, 584, 333, 737, 333,
+  400, 584, 333, 333, 333, 611, 556, 278, 333, 333, 365, 556, 834, 834, 834, 611,
+  722, 722, 722, 722, 722, 722, 1000, 722, 667, 667, 667, 667, 278, 278, 278, 278,
+  722, 722, 778, 778, 778, 778, 778, 584, 778, 722, 722, 722, 722, 667, 667, 611,
+  556, 556, 556, 556, 556, 556, 889, 556, 556, 556, 556, 556, 278, 278, 278, 278,
+  611, 611, 611, 611, 611, 611, 611, 584, 611, 611, 611, 611, 611, 556, 611, 556
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 128, '‚': 130, 'ƒ': 131, '„': 132, '…': 133, '†': 134, '‡': 135, 'ˆ': 136, '‰': 137, 'Š': 138, '‹': 139,
+  'Œ': 140, 'Ž': 142, '‘': 145, '’': 146, '“': 147, '”': 148, '•': 149, '–': 150, '—': 151, '˜': 152, '™': 153,
+  'š': 154, '›': 155, 'œ': 156, 'ž': 158, 'Ÿ': 159
+};
+
+const toWinAnsiCode = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 63; // '?' for anything the standard fonts cannot show
+};
+
+// Width of the glyph the character is encoded as, so unsupported ones measure as the '?' drawn instead
+const charWidth = (char: string, font: PdfFont): number => {
+  const code = toWinAnsiCode(char);
+  if (code <= 126) {
+    return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  return (font === 'bold' ? HELVETICA_BOLD_WIN_ANSI_WIDTHS : HELVETICA_WIN_ANSI_WIDTHS)[code - 128];
+};
+
+// Width of `text` in points
+export const measureText = (text: string, font: PdfFont, size: number): number =>
+  Array.from(text).reduce((width, char) => width + charWidth(char, font), 0) * size / 1000;
+
+// Breaks `text` into lines no wider than `maxWidth`; words longer than a line are cut
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+
+    current = word;
+    while (measureText(current, font, size) > maxWidth && current.length > 1) {
+      let cut = current.length - 1;
+      while (cut > 1 && measureText(current.slice(0, cut), font, size) > maxWidth) {
+        cut--;
+      }
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines.length > 0 ? lines : [''];
+};
+
+// Converts '#rrggbb' into PDF RGB components
+const toRgb = (color: string | undefined): string => {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color ?? '');
+  if (!match) {
+    return '0 0 0';
+  }
+  return match.slice(1).map(hex => (parseInt(hex, 16) / 255).toFixed(3)).join(' ');
+};
+
+const encodeText = (text: string): string =>
+  Array.from(text)
+    .map(toWinAnsiCode)
+    .map(code => {
+      const char = String.fromCharCode(code);
+      return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+    })
+    .join('');
+
+const renderOperation = (operation: PdfOperation): string => {
+  if (operation.kind === 'line') {
+    return `${toRgb(operation.color)} RG ${operation.width} w ${operation.x1.toFixed(2)} ${operation.y1.toFixed(2)} m ` +
+      `${operation.x2.toFixed(2)} ${operation.y2.toFixed(2)} l S`;
+  }
+
+  const fontName = operation.font === 'bold' ? 'F2' : 'F1';
+  return `BT ${toRgb(operation.color)} rg /${fontName} ${operation.size} Tf ` +
+    `${operation.x.toFixed(2)} ${operation.y.toFixed(2)} Td (${encodeText(operation.text)}) Tj ET`;
+};
+
+// Serializes one operation list per page into a complete PDF file
+export const renderPdf = (pages: PdfOperation[][]): Buffer => {
+  const objects: string[] = [];
+  const pageCount = Math.max(pages.length, 1);
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page and a content stream per page
+  const pageObjectIds = Array.from({ length: pageCount }, (_, index) => 5 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  for (let index = 0; index < pageCount; index++) {
+    const content = (pages[index] ?? []).map(renderOperation).join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  }
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -0,0 +1,20 @@
+import { db, type QueryExecutor } from '../db';
+import { periodLocksTable } from '../db/schema';
+import { and, gte, lte, isNull } from 'drizzle-orm';
+
+// Throws when `date` (YYYY-MM-DD) falls inside an active period lock
+export const assertPeriodOpen = async (executor: QueryExecutor, date: string): Promise<void> => {
+  const locks = await executor.select()
+    .from(periodLocksTable)
+    .where(and(
+      lte(periodLocksTable.start_date, date),
+      gte(periodLocksTable.end_date, date),
+      isNull(periodLocksTable.unlocked_at)
+    ))
+    .limit(1)
+    .execute();
+
+  if (locks.length > 0) {
+    throw new Error(`Period ${locks[0].start_date} to ${locks[0].end_date} is locked; ${date} cannot be booked or changed`);
+  }
+};
@@ -0,0 +1,161 @@
+import { db, type QueryExecutor } from '../db';
+import { rateCardsTable, costRatesTable, positionsTable, projectsTable, clientsTable, usersTable, type RateCard } from '../db/schema';
+import { type RateCardLevel } from '../schema';
+import { createCurrencyConverter, reportingCurrency } from './currency';
+import { eq, inArray, or } from 'drizzle-orm';
+
+export type RateSource = RateCardLevel | 'position_default' | 'user_default';
+
+export interface ResolvedRate {
+  hourly_rate: number;
+  source: RateSource;
+  rate_card_id: number | null; // Null when a legacy default rate applied
+}
+
+export interface PricedEntry {
+  user_id: number;
+  position_id: number;
+  date: string; // YYYY-MM-DD
+}
+
+const isValidOn = (card: { valid_from: string; valid_to: string | null }, date: string): boolean =>
+  card.valid_from <= date && (card.valid_to === null || card.valid_to >= date);
+
+/**
+ * Loads everything needed to price the given time entries and returns the rate resolution
+ * function. This is the only place sale rates are decided; reports and invoices must
+ * price entries through it.
+ *
+ * An entry is priced with the first rate that applies on its date, most specific first:
+ *   1. user_position rate card - the entry's user on the entry's position
+ *   2. position rate card
+ *   3. project rate card - the position's project
+ *   4. client rate card - the project's client
+ *   5. positions.hourly_rate (legacy default)
+ *   6. users.hourly_rate (legacy default)
+ * A rate card applies from valid_from through valid_to (inclusive, open-ended when null).
+ * Rate cards are in the client's currency; the legacy defaults are in the reporting
+ * currency and are converted to the client's with the exchange rate of the entry's date,
+ * rounded to cents. When nothing applies, or a default has no exchange rate, the entry is
+ * unpriced and the resolver returns null - callers must report such hours rather than
+ * count them at zero.
+ */
+export const createRateResolver = async (
+  executor: QueryExecutor,
+  entries: PricedEntry[]
+): Promise<(entry: PricedEntry) => ResolvedRate | null> => {
+  const uniquePositionIds = Array.from(new Set(entries.map(entry => entry.position_id)));
+  const uniqueUserIds = Array.from(new Set(entries.map(entry => entry.user_id)));
+  if (uniquePositionIds.length === 0) {
+    return () => null;
+  }
+
+  const positions = await executor.select({
+    id: positionsTable.id,
+    hourly_rate: positionsTable.hourly_rate,
+    project_id: projectsTable.id,
+    client_id: projectsTable.client_id,
+    currency: clientsTable.currency
+  })
+    .from(positionsTable)
+    .innerJoin(projectsTable, eq(positionsTable.project_id, projectsTable.id))
+    .innerJoin(clientsTable, eq(projectsTable.client_id, clientsTable.id))
+    .where(inArray(positionsTable.id, uniquePositionIds))
+    .execute();
+
+  const projectIds = Array.from(new Set(positions.map(position => position.project_id)));
+  const clientIds = Array.from(new Set(positions.map(position => position.client_id)));
+
+  const cards = await executor.select()
+    .from(rateCardsTable)
+    .where(or(
+      inArray(rateCardsTable.position_id, uniquePositionIds),
+      inArray(rateCardsTable.project_id, projectIds),
+      inArray(rateCardsTable.client_id, clientIds)
+    ))
+    .execute();
+
+  const users = await executor.select({ id: usersTable.id, hourly_rate: usersTable.hourly_rate })
+    .from(usersTable)
+    .where(inArray(usersTable.id, uniqueUserIds))
+    .execute();
+
+  const convert = await createCurrencyConverter(executor);
+
+  const positionsById = new Map(positions.map(position => [position.id, position]));
+  const userRates = new Map(users.map(user => [user.id, user.hourly_rate]));
+
+  const fromDefault = (rate: string, source: RateSource, currency: string, date: string): ResolvedRate | null => {
+    const converted = convert(parseFloat(rate), reportingCurrency(), currency, date);
+    return converted !== null ? { hourly_rate: Math.round(converted * 100) / 100, source, rate_card_id: null } : null;
+  };
+
+  const fromCard = (card: RateCard | undefined): ResolvedRate | null =>
+    card ? { hourly_rate: parseFloat(card.hourly_rate), source: card.level, rate_card_id: card.id } : null;
+
+  return (entry: PricedEntry): ResolvedRate | null => {
+    const position = positionsById.get(entry.position_id);
+    if (!position) {
+      return null;
+    }
+
+    const validCards = cards.filter(card => isValidOn(card, entry.date));
+
+    const cardRate =
+      fromCard(validCards.find(card =>
+        card.level === 'user_position' && card.position_id === position.id && card.user_id === entry.user_id)) ??
+      fromCard(validCards.find(card => card.level === 'position' && card.position_id === position.id)) ??
+      fromCard(validCards.find(card => card.level === 'project' && card.project_id === position.project_id)) ??
+      fromCard(validCards.find(card => card.level === 'client' && card.client_id === position.client_id));
+
+    if (cardRate) {
+      return cardRate;
+    }
+
+    if (position.hourly_rate !== null) {
+      return fromDefault(position.hourly_rate, 'position_default', position.currency, entry.date);
+    }
+
+    const userRate = userRates.get(entry.user_id);
+    if (userRate) {
+      return fromDefault(userRate, 'user_default', position.currency, entry.date);
+    }
+
+    return null;
+  };
+};
+
+// Prices a single entry; use createRateResolver when pricing many
+export const resolveHourlyRate = async (
+  executor: QueryExecutor,
+  entry: PricedEntry
+): Promise<ResolvedRate | null> => {
+  const resolve = await createRateResolver(executor, [entry]);
+  return resolve(entry);
+};
+
+/**
+ * Loads the cost rates of the users behind the given time entries and returns the cost
+ * resolution function. Cost rates are internal: they price every hour, billable or not,
+ * and never fall back to users.hourly_rate, which is a bill rate. Entries without a cost
+ * rate on their date resolve to null and must be reported, not costed at zero.
+ */
+export const createCostResolver = async (
+  executor: QueryExecutor,
+  entries: Array<Pick<PricedEntry, 'user_id' | 'date'>>
+): Promise<(entry: Pick<PricedEntry, 'user_id' | 'date'>) => number | null> => {
+  const uniqueUserIds = Array.from(new Set(entries.map(entry => entry.user_id)));
+  if (uniqueUserIds.length === 0) {
+    return () => null;
+  }
+
+  const costRates = await executor.select()
+    .from(costRatesTable)
+    .where(inArray(costRatesTable.user_id, uniqueUserIds))
+    .execute();
+
+  return (entry) => {
+    const costRate = costRates.find(rate => rate.user_id === entry.user_id && isValidOn(rate, entry.date));
+    return costRate ? parseFloat(costRate.hourly_cost) : null;
+  };
+};
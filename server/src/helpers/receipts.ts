@@ -0,0 +1,56 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { type ReceiptUpload } from '../schema';
+
+/**
+ * Receipts are stored as plain files in RECEIPTS_DIR (default: ./uploads/receipts
+ * below the server's working directory). The database only keeps the generated
+ * file name, so the directory must be backed up together with the database.
+ */
+
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic'
+};
+
+const receiptsDir = (): string => process.env['RECEIPTS_DIR'] || join(process.cwd(), 'uploads', 'receipts');
+
+// Writes the upload to disk and returns the stored file name
+export const saveReceipt = async (expenseId: number, upload: ReceiptUpload): Promise<string> => {
+  const extension = extname(upload.filename).toLowerCase();
+  if (!CONTENT_TYPES[extension]) {
+    throw new Error(`Receipt ${upload.filename} must be one of ${Object.keys(CONTENT_TYPES).join(', ')}`);
+  }
+
+  const content = Buffer.from(upload.content_base64, 'base64');
+  if (content.length === 0) {
+    throw new Error(`Receipt ${upload.filename} is empty`);
+  }
+  if (content.length > MAX_RECEIPT_BYTES) {
+    throw new Error(`Receipt ${upload.filename} is larger than ${MAX_RECEIPT_BYTES / 1024 / 1024} MB`);
+  }
+
+  // Generated names keep uploads from overwriting each other or escaping the directory
+  const storedName = `${expenseId}-${randomUUID()}${extension}`;
+  await mkdir(receiptsDir(), { recursive: true });
+  await writeFile(join(receiptsDir(), storedName), content);
+  return storedName;
+};
+
+export const readReceipt = async (storedName: string): Promise<{ content: Buffer; content_type: string }> => ({
+  content: await readFile(join(receiptsDir(), storedName)),
+  content_type: CONTENT_TYPES[extname(storedName).toLowerCase()] ?? 'application/octet-stream'
+});
+
+// Missing files are ignored so a lost receipt never blocks deleting its expense
+export const deleteReceipt = async (storedName: string): Promise<void> => {
+  await rm(join(receiptsDir(), storedName), { force: true });
+};
@@ -0,0 +1,225 @@
+import { db, type QueryExecutor } from '../db';
+import { clientsTable, retainersTable, retainerScopesTable, positionsTable, timeEntriesTable, type Retainer as RetainerRow, type RetainerScope } from '../db/schema';
+import { type Retainer } from '../schema';
+import { createRateResolver, resolveHourlyRate, type PricedEntry } from './rates';
+import { and, asc, eq, gte, inArray, lte, ne, or, type SQL } from 'drizzle-orm';
+
+export interface RetainerUsageEntry {
+  id: number;
+  date: string; // YYYY-MM-DD
+  hours: number;
+  value: number | null; // In the retainer's unit; null when an amount bundle finds no rate
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const toRetainer = (retainer: RetainerRow, scopes: RetainerScope[]): Retainer => ({
+  ...retainer,
+  purchased_hours: retainer.purchased_hours !== null ? parseFloat(retainer.purchased_hours) : null, // Convert strings back to numbers
+  purchased_amount: retainer.purchased_amount !== null ? parseFloat(retainer.purchased_amount) : null,
+  scopes
+});
+
+// Hour bundles are measured in hours, amount bundles in the client's currency
+export const getRetainerPurchase = (retainer: Pick<RetainerRow, 'purchased_hours' | 'purchased_amount'>): { unit: 'hours' | 'amount'; purchased: number } =>
+  retainer.purchased_hours !== null
+    ? { unit: 'hours', purchased: parseFloat(retainer.purchased_hours) }
+    : { unit: 'amount', purchased: parseFloat(retainer.purchased_amount!) };
+
+export const formatRetainerQuantity = (unit: 'hours' | 'amount', value: number, currency: string): string =>
+  unit === 'hours' ? `${value.toFixed(2)}h` : `${currency} ${value.toFixed(2)}`;
+
+/**
+ * Loads the retainers the given entries' positions may draw from and returns a function
+ * telling which retainer, if any, an entry draws from. A position draws from a retainer
+ * scoped to it or to its project while the entry's date is inside the validity window;
+ * assertNoOverlappingRetainer keeps that to at most one retainer.
+ */
+export const createRetainerResolver = async (
+  executor: QueryExecutor,
+  entries: Array<Pick<PricedEntry, 'position_id' | 'date'>>
+): Promise<(entry: Pick<PricedEntry, 'position_id' | 'date'>) => RetainerRow | null> => {
+  const uniquePositionIds = Array.from(new Set(entries.map(entry => entry.position_id)));
+  if (uniquePositionIds.length === 0) {
+    return () => null;
+  }
+
+  const positions = await executor.select({ id: positionsTable.id, project_id: positionsTable.project_id })
+    .from(positionsTable)
+    .where(inArray(positionsTable.id, uniquePositionIds))
+    .execute();
+
+  const projectIds = Array.from(new Set(positions.map(position => position.project_id)));
+
+  const scopes = await executor.select({ scope: retainerScopesTable, retainer: retainersTable })
+    .from(retainerScopesTable)
+    .innerJoin(retainersTable, eq(retainerScopesTable.retainer_id, retainersTable.id))
+    .where(or(
+      inArray(retainerScopesTable.position_id, uniquePositionIds),
+      inArray(retainerScopesTable.project_id, projectIds)
+    ))
+    .execute();
+
+  const projectIdsByPosition = new Map(positions.map(position => [position.id, position.project_id]));
+
+  return (entry) => {
+    const projectId = projectIdsByPosition.get(entry.position_id);
+    const match = scopes.find(({ scope, retainer }) =>
+      (scope.position_id === entry.position_id || scope.project_id === projectId) &&
+      retainer.valid_from <= entry.date && retainer.valid_to >= entry.date);
+    return match?.retainer ?? null;
+  };
+};
+
+// Billable time drawing down the retainer, oldest first, valued in the retainer's unit
+export const measureRetainerUsage = async (executor: QueryExecutor, retainer: RetainerRow): Promise<RetainerUsageEntry[]> => {
+  const scopes = await executor.select()
+    .from(retainerScopesTable)
+    .where(eq(retainerScopesTable.retainer_id, retainer.id))
+    .execute();
+
+  const scopeConditions: SQL<unknown>[] = [];
+  const positionIds = scopes.flatMap(scope => (scope.position_id !== null ? [scope.position_id] : []));
+  const projectIds = scopes.flatMap(scope => (scope.project_id !== null ? [scope.project_id] : []));
+
+  if (positionIds.length > 0) {
+    scopeConditions.push(inArray(timeEntriesTable.position_id, positionIds));
+  }
+
+  if (projectIds.length > 0) {
+    scopeConditions.push(inArray(positionsTable.project_id, projectIds));
+  }
+
+  if (scopeConditions.length === 0) {
+    return [];
+  }
+
+  const entries = await executor.select({
+    id: timeEntriesTable.id,
+    user_id: timeEntriesTable.user_id,
+    position_id: timeEntriesTable.position_id,
+    date: timeEntriesTable.date,
+    hours: timeEntriesTable.hours
+  })
+    .from(timeEntriesTable)
+    .innerJoin(positionsTable, eq(timeEntriesTable.position_id, positionsTable.id))
+    .where(and(
+      eq(timeEntriesTable.billable, true),
+      gte(timeEntriesTable.date, retainer.valid_from),
+      lte(timeEntriesTable.date, retainer.valid_to),
+      or(...scopeConditions)
+    ))
+    .orderBy(asc(timeEntriesTable.date), asc(timeEntriesTable.id))
+    .execute();
+
+  const { unit } = getRetainerPurchase(retainer);
+  const resolveRate = unit === 'amount' ? await createRateResolver(executor, entries) : null;
+
+  return entries.map(entry => {
+    const hours = parseFloat(entry.hours); // Convert string back to number
+    const rate = resolveRate ? resolveRate(entry) : null;
+    return {
+      id: entry.id,
+      date: entry.date,
+      hours,
+      value: unit === 'hours' ? hours : rate ? hours * rate.hourly_rate : null
+    };
+  });
+};
+
+export interface RetainerBooking extends PricedEntry {
+  hours: number;
+  billable: boolean;
+}
+
+/**
+ * Rejects a booking that would overdraw a retainer with the block policy. The entries the
+ * booking replaces, like the entry being edited, are not counted. A booking that does not
+ * add to the draw-down always passes, so an overdrawn retainer can still be corrected.
+ */
+export const assertRetainerAllows = async (
+  executor: QueryExecutor,
+  booking: RetainerBooking,
+  replacedEntryIds: number[] = []
+): Promise<void> => {
+  if (!booking.billable || booking.hours <= 0) return;
+
+  const resolveRetainer = await createRetainerResolver(executor, [booking]);
+  const retainer = resolveRetainer(booking);
+  if (!retainer || retainer.overrun_policy !== 'block') return;
+
+  const { unit, purchased } = getRetainerPurchase(retainer);
+  let bookingValue = booking.hours;
+  if (unit === 'amount') {
+    const rate = await resolveHourlyRate(executor, booking);
+    if (!rate) return; // Unpriced time cannot draw down an amount
+    bookingValue = booking.hours * rate.hourly_rate;
+  }
+
+  const usage = await measureRetainerUsage(executor, retainer);
+  const replaced = usage
+    .filter(entry => replacedEntryIds.includes(entry.id))
+    .reduce((total, entry) => total + (entry.value ?? 0), 0);
+  const used = usage.reduce((total, entry) => total + (entry.value ?? 0), 0) - replaced;
+
+  if (bookingValue > replaced && round(used + bookingValue) > purchased) {
+    const client = await executor.select({ currency: clientsTable.currency })
+      .from(clientsTable)
+      .where(eq(clientsTable.id, retainer.client_id))
+      .execute();
+
+    const left = Math.max(0, round(purchased - used));
+    throw new Error(
+      `Retainer "${retainer.name}" has ${formatRetainerQuantity(unit, left, client[0].currency)} left and blocks further bookings; ` +
+      `this booking needs ${formatRetainerQuantity(unit, round(bookingValue), client[0].currency)}`
+    );
+  }
+};
+
+// A position may draw from only one retainer on any given day
+export const assertNoOverlappingRetainer = async (
+  executor: QueryExecutor,
+  retainer: { id: number | null; valid_from: string; valid_to: string; project_ids: number[]; position_ids: number[] }
+): Promise<void> => {
+  const positionProjects = retainer.position_ids.length === 0 ? [] : await executor.select({ project_id: positionsTable.project_id })
+    .from(positionsTable)
+    .where(inArray(positionsTable.id, retainer.position_ids))
+    .execute();
+
+  const projectIds = new Set(retainer.project_ids);
+  const positionIds = new Set(retainer.position_ids);
+  const coveredProjectIds = new Set([...retainer.project_ids, ...positionProjects.map(position => position.project_id)]);
+
+  const conditions: SQL<unknown>[] = [
+    lte(retainersTable.valid_from, retainer.valid_to),
+    gte(retainersTable.valid_to, retainer.valid_from)
+  ];
+
+  if (retainer.id !== null) {
+    conditions.push(ne(retainersTable.id, retainer.id));
+  }
+
+  const existing = await executor.select({
+    retainer: retainersTable,
+    project_id: retainerScopesTable.project_id,
+    position_id: retainerScopesTable.position_id,
+    position_project_id: positionsTable.project_id
+  })
+    .from(retainerScopesTable)
+    .innerJoin(retainersTable, eq(retainerScopesTable.retainer_id, retainersTable.id))
+    .leftJoin(positionsTable, eq(retainerScopesTable.position_id, positionsTable.id))
+    .where(and(...conditions))
+    .execute();
+
+  // Same project or position, or a position inside a project the other retainer covers
+  const conflict = existing.find(scope =>
+    (scope.project_id !== null && coveredProjectIds.has(scope.project_id)) ||
+    (scope.position_id !== null && (positionIds.has(scope.position_id) || projectIds.has(scope.position_project_id!))));
+
+  if (conflict) {
+    throw new Error(
+      `Retainer overlaps the existing retainer "${conflict.retainer.name}" valid from ${conflict.retainer.valid_from} ` +
+      `to ${conflict.retainer.valid_to} on the same projects or positions`
+    );
+  }
+};
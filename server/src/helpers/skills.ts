@@ -0,0 +1,65 @@
+import { db, type QueryExecutor } from '../db';
+import { skillsTable, userSkillsTable, positionSkillsTable, usersTable } from '../db/schema';
+import { type SkillLevel, type UserSkill, type PositionSkill } from '../schema';
+import { asc, eq, type SQL } from 'drizzle-orm';
+
+export const SKILL_LEVEL_RANK: Record<SkillLevel, number> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3,
+  expert: 4
+};
+
+export const loadUserSkills = async (executor: QueryExecutor, condition?: SQL<unknown>): Promise<UserSkill[]> => {
+  return await executor.select({
+    user_id: userSkillsTable.user_id,
+    user_name: usersTable.name,
+    skill_id: userSkillsTable.skill_id,
+    skill_name: skillsTable.name,
+    category: skillsTable.category,
+    level: userSkillsTable.level,
+    updated_at: userSkillsTable.updated_at
+  })
+    .from(userSkillsTable)
+    .innerJoin(usersTable, eq(userSkillsTable.user_id, usersTable.id))
+    .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
+    .where(condition)
+    .orderBy(asc(usersTable.name), asc(skillsTable.name))
+    .execute();
+};
+
+export const loadPositionSkills = async (executor: QueryExecutor, positionId: number): Promise<PositionSkill[]> => {
+  return await executor.select({
+    position_id: positionSkillsTable.position_id,
+    skill_id: positionSkillsTable.skill_id,
+    skill_name: skillsTable.name,
+    category: skillsTable.category,
+    min_level: positionSkillsTable.min_level
+  })
+    .from(positionSkillsTable)
+    .innerJoin(skillsTable, eq(positionSkillsTable.skill_id, skillsTable.id))
+    .where(eq(positionSkillsTable.position_id, positionId))
+    .orderBy(asc(skillsTable.name))
+    .execute();
+};
+
+/**
+ * How well a user's levels cover the required skills, in percent. Each skill counts
+ * equally: fully from its minimum level, in proportion below it and not at all when
+ * the user lacks it. Positions without required skills match everyone fully.
+ */
+export const getSkillMatchPercent = (
+  required: Pick<PositionSkill, 'skill_id' | 'min_level'>[],
+  levels: Map<number, SkillLevel>
+): number => {
+  if (required.length === 0) {
+    return 100;
+  }
+
+  const coverage = required.reduce((sum, skill) => {
+    const level = levels.get(skill.skill_id);
+    return sum + (level ? Math.min(SKILL_LEVEL_RANK[level] / SKILL_LEVEL_RANK[skill.min_level], 1) : 0);
+  }, 0);
+
+  return Math.round((coverage / required.length) * 10000) / 100;
+};
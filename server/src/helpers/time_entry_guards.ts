@@ -0,0 +1,16 @@
+import { type QueryExecutor } from '../db';
+import { assertWeekEditable } from './timesheet_status';
+import { assertPeriodOpen } from './period_lock';
+
+// Every path that writes a time entry for `date` must pass these checks
+export const assertTimeEntryEditable = async (executor: QueryExecutor, userId: number, date: string): Promise<void> => {
+  await assertPeriodOpen(executor, date);
+  await assertWeekEditable(executor, userId, date);
+};
+
+// Entries on a draft or finalized invoice are frozen until that invoice is voided
+export const assertTimeEntryNotInvoiced = (entry: { id: number; invoice_id: number | null }): void => {
+  if (entry.invoice_id !== null) {
+    throw new Error(`Time entry with ID ${entry.id} is on invoice ${entry.invoice_id} and cannot be changed`);
+  }
+};
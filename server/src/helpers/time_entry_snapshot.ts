@@ -0,0 +1,12 @@
+import { type TimeEntry as TimeEntryRow } from '../db/schema';
+import { type TimeEntrySnapshot } from '../schema';
+
+// Captures the user-editable fields of a time entry row for the revision history
+export const toTimeEntrySnapshot = (entry: TimeEntryRow): TimeEntrySnapshot => ({
+  user_id: entry.user_id,
+  position_id: entry.position_id,
+  description: entry.description,
+  hours: parseFloat(entry.hours), // Convert numeric string to number
+  date: entry.date,
+  billable: entry.billable
+});
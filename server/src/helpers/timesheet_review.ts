@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { timesheetsTable, usersTable } from '../db/schema';
+import { type ReviewTimesheetInput, type Timesheet } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Shared by approve and reject: only project managers and administrators may
+// review, never their own week, and only while the timesheet is submitted.
+export const reviewTimesheet = async (
+  input: ReviewTimesheetInput,
+  status: 'approved' | 'rejected'
+): Promise<Timesheet> => {
+  const reviewer = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, input.reviewer_id))
+    .limit(1)
+    .execute();
+
+  if (reviewer.length === 0) {
+    throw new Error(`User with ID ${input.reviewer_id} does not exist`);
+  }
+
+  if (reviewer[0].role === 'consultant') {
+    throw new Error('Only project managers and administrators can review timesheets');
+  }
+
+  const existing = await db.select()
+    .from(timesheetsTable)
+    .where(eq(timesheetsTable.id, input.timesheet_id))
+    .limit(1)
+    .execute();
+
+  if (existing.length === 0) {
+    throw new Error(`Timesheet with ID ${input.timesheet_id} does not exist`);
+  }
+
+  const timesheet = existing[0];
+  if (timesheet.user_id === input.reviewer_id) {
+    throw new Error('Timesheets cannot be reviewed by their owner');
+  }
+
+  if (timesheet.status !== 'submitted') {
+    throw new Error(`Timesheet with ID ${timesheet.id} is ${timesheet.status}, not submitted`);
+  }
+
+  const now = new Date();
+  const result = await db.update(timesheetsTable)
+    .set({
+      status,
+      reviewed_by: input.reviewer_id,
+      reviewed_at: now,
+      review_comment: input.comment,
+      updated_at: now
+    })
+    .where(eq(timesheetsTable.id, timesheet.id))
+    .returning()
+    .execute();
+
+  return result[0];
+};
@@ -0,0 +1,34 @@
+import { db, type QueryExecutor } from '../db';
+import { timesheetsTable, timeEntriesTable } from '../db/schema';
+import { getWeekStart } from './week';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+/**
+ * Throws when the user's week containing `date` is submitted or approved.
+ * Those weeks stay frozen until a reviewer rejects them.
+ */
+export const assertWeekEditable = async (executor: QueryExecutor, userId: number, date: string): Promise<void> => {
+  const weekStart = getWeekStart(new Date(date + 'T00:00:00.000Z'));
+
+  const locked = await executor.select({ status: timesheetsTable.status })
+    .from(timesheetsTable)
+    .where(and(
+      eq(timesheetsTable.user_id, userId),
+      eq(timesheetsTable.week_start, weekStart),
+      inArray(timesheetsTable.status, ['submitted', 'approved'])
+    ))
+    .limit(1)
+    .execute();
+
+  if (locked.length > 0) {
+    throw new Error(`Timesheet for week of ${weekStart} is ${locked[0].status} and cannot be edited`);
+  }
+};
+
+// Restricts a time entry query to weeks whose timesheet has been approved
+export const isInApprovedWeek = () => sql`exists (
+  select 1 from ${timesheetsTable}
+  where ${timesheetsTable.user_id} = ${timeEntriesTable.user_id}
+    and ${timesheetsTable.week_start} = date_trunc('week', ${timeEntriesTable.date})::date
+    and ${timesheetsTable.status} = 'approved'
+)`;
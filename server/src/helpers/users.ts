@@ -0,0 +1,8 @@
+import { type User as UserRow } from '../db/schema';
+import { type User } from '../schema';
+
+// The password hash never leaves the server
+export const toUser = ({ password_hash: _passwordHash, ...user }: UserRow): User => ({
+  ...user,
+  hourly_rate: user.hourly_rate ? parseFloat(user.hourly_rate) : null // Convert string back to number
+});
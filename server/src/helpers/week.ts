@@ -0,0 +1,55 @@
+// Date helpers for Monday-based weeks and day ranges. Dates are handled as UTC
+// YYYY-MM-DD strings, matching how date columns are written elsewhere.
+
+export const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+export const getWeekStart = (date: Date): string => {
+  const monday = new Date(toDateString(date) + 'T00:00:00.000Z');
+  const offset = (monday.getUTCDay() + 6) % 7; // Days since Monday
+  monday.setUTCDate(monday.getUTCDate() - offset);
+  return toDateString(monday);
+};
+
+export const getWeekDays = (date: Date): string[] => {
+  const monday = new Date(getWeekStart(date) + 'T00:00:00.000Z');
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(monday);
+    day.setUTCDate(monday.getUTCDate() + index);
+    return toDateString(day);
+  });
+};
+
+// ISO weekday of a YYYY-MM-DD string: 1 = Monday ... 7 = Sunday
+export const getIsoWeekday = (date: string): number => {
+  const day = new Date(date + 'T00:00:00.000Z').getUTCDay();
+  return day === 0 ? 7 : day;
+};
+
+// Every day from startDate to endDate, both inclusive
+export const getDaysInRange = (startDate: string, endDate: string): string[] => {
+  const days: string[] = [];
+  const current = new Date(startDate + 'T00:00:00.000Z');
+  const end = new Date(endDate + 'T00:00:00.000Z');
+  while (current <= end) {
+    days.push(toDateString(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return days;
+};
+
+// Mondays of `count` consecutive weeks, the first being the week of startDate
+export const getWeekStarts = (startDate: Date, count: number): string[] => {
+  const monday = new Date(getWeekStart(startDate) + 'T00:00:00.000Z');
+  return Array.from({ length: count }, (_, index) => {
+    const week = new Date(monday);
+    week.setUTCDate(monday.getUTCDate() + index * 7);
+    return toDateString(week);
+  });
+};
+
+// The Sunday of the week starting on a Monday (YYYY-MM-DD)
+export const getWeekEnd = (weekStart: string): string => {
+  const sunday = new Date(weekStart + 'T00:00:00.000Z');
+  sunday.setUTCDate(sunday.getUTCDate() + 6);
+  return toDateString(sunday);
+};
@@ -1,151 +1,743 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import {
+  createContext,
+  router,
+  publicProcedure,
+  authedProcedure,
+  managerProcedure,
+  adminProcedure,
+  assertCanActFor,
+  assertOwnsTimeEntry,
+  assertOwnsExpense
+} from './trpc';
 
 // Import schemas
 import {
   createUserInputSchema,
+  loginInputSchema,
+  changePasswordInputSchema,
+  setUserPasswordInputSchema,
+  assignHolidayCalendarInputSchema,
+  createRateCardInputSchema,
+  endRateCardInputSchema,
+  getRateCardsInputSchema,
+  setExchangeRateInputSchema,
+  getExchangeRatesInputSchema,
+  deleteExchangeRateInputSchema,
+  createCostRateInputSchema,
+  endCostRateInputSchema,
+  getCostRatesInputSchema,
+  createRetainerInputSchema,
+  updateRetainerInputSchema,
+  retainerBalancesInputSchema,
+  requestBudgetAmendmentInputSchema,
+  reviewBudgetAmendmentInputSchema,
+  rejectBudgetAmendmentInputSchema,
+  getBudgetAmendmentsInputSchema,
+  setBudgetThresholdsInputSchema,
+  getBudgetThresholdsInputSchema,
+  getNotificationsInputSchema,
+  markNotificationsReadInputSchema,
+  createInvoiceInputSchema,
+  createMilestoneInvoiceInputSchema,
+  finalizeInvoiceInputSchema,
+  voidInvoiceInputSchema,
+  getInvoicesInputSchema,
+  getInvoiceDetailsInputSchema,
+  createInvoiceTemplateInputSchema,
+  updateInvoiceTemplateInputSchema,
+  renderInvoicePdfInputSchema,
+  sendInvoiceInputSchema,
+  recordPaymentInputSchema,
+  getPaymentsInputSchema,
+  agingReportInputSchema,
+  createHolidayCalendarInputSchema,
+  addHolidayInputSchema,
+  deleteHolidayInputSchema,
+  getHolidaysInputSchema,
+  importHolidaysInputSchema,
+  createWorkScheduleInputSchema,
+  getWorkSchedulesInputSchema,
   createClientInputSchema,
   createContactInputSchema,
   createProjectInputSchema,
+  updateProjectBillingInputSchema,
+  createMilestoneInputSchema,
+  updateMilestoneInputSchema,
+  completeMilestoneInputSchema,
+  reopenMilestoneInputSchema,
+  getMilestonesInputSchema,
   createPositionInputSchema,
+  createAssignmentInputSchema,
+  updateAssignmentInputSchema,
+  deleteAssignmentInputSchema,
+  getAssignmentsInputSchema,
+  setAllocationInputSchema,
+  getAllocationsInputSchema,
+  planningBoardInputSchema,
+  createSkillInputSchema,
+  setUserSkillInputSchema,
+  getUserSkillsInputSchema,
+  setPositionSkillsInputSchema,
+  getPositionSkillsInputSchema,
+  staffingSuggestionsInputSchema,
   createTimeEntryInputSchema,
+  updateTimeEntryInputSchema,
+  deleteTimeEntryInputSchema,
+  createExpenseInputSchema,
+  updateExpenseInputSchema,
+  deleteExpenseInputSchema,
+  getExpensesInputSchema,
+  getExpenseReceiptInputSchema,
+  requestAbsenceInputSchema,
+  reviewAbsenceInputSchema,
+  rejectAbsenceInputSchema,
+  getAbsencesInputSchema,
+  setAbsenceAllowanceInputSchema,
+  getAbsenceBalancesInputSchema,
+  weeklyTimesheetInputSchema,
+  saveWeeklyTimesheetInputSchema,
+  submitTimesheetInputSchema,
+  reviewTimesheetInputSchema,
+  rejectTimesheetInputSchema,
+  getTimesheetsInputSchema,
+  lockPeriodInputSchema,
+  unlockPeriodInputSchema,
+  getPeriodLocksInputSchema,
+  startTimerInputSchema,
+  stopTimerInputSchema,
   createClientNoteInputSchema,
   createActivityLogInputSchema,
   utilizationReportInputSchema,
   budgetConsumptionInputSchema,
-  bookingDetailsInputSchema
+  budgetForecastInputSchema,
+  bookingDetailsInputSchema,
+  profitabilityReportInputSchema,
+  plannedVsActualReportInputSchema,
+  benchReportInputSchema
 } from './schema';
 
 // Import handlers
 import { createUser } from './handlers/create_user';
 import { getUsers } from './handlers/get_users';
+import { createRateCard } from './handlers/create_rate_card';
+import { endRateCard } from './handlers/end_rate_card';
+import { getRateCards } from './handlers/get_rate_cards';
+import { setExchangeRate } from './handlers/set_exchange_rate';
+import { getExchangeRates } from './handlers/get_exchange_rates';
+import { deleteExchangeRate } from './handlers/delete_exchange_rate';
+import { getCurrencySettings } from './handlers/get_currency_settings';
+import { createCostRate } from './handlers/create_cost_rate';
+import { endCostRate } from './handlers/end_cost_rate';
+import { getCostRates } from './handlers/get_cost_rates';
+import { createRetainer } from './handlers/create_retainer';
+import { updateRetainer } from './handlers/update_retainer';
+import { getRetainerBalances } from './handlers/get_retainer_balances';
+import { requestBudgetAmendment } from './handlers/request_budget_amendment';
+import { approveBudgetAmendment } from './handlers/approve_budget_amendment';
+import { rejectBudgetAmendment } from './handlers/reject_budget_amendment';
+import { getBudgetAmendments } from './handlers/get_budget_amendments';
+import { setBudgetThresholds } from './handlers/set_budget_thresholds';
+import { getBudgetThresholds } from './handlers/get_budget_thresholds';
+import { getNotifications } from './handlers/get_notifications';
+import { markNotificationsRead } from './handlers/mark_notifications_read';
+import { deliverEmails } from './handlers/deliver_emails';
+import { createInvoice } from './handlers/create_invoice';
+import { createMilestoneInvoice } from './handlers/create_milestone_invoice';
+import { finalizeInvoice } from './handlers/finalize_invoice';
+import { voidInvoice } from './handlers/void_invoice';
+import { getInvoices } from './handlers/get_invoices';
+import { getInvoiceDetails } from './handlers/get_invoice_details';
+import { createInvoiceTemplate } from './handlers/create_invoice_template';
+import { updateInvoiceTemplate } from './handlers/update_invoice_template';
+import { getInvoiceTemplates } from './handlers/get_invoice_templates';
+import { renderInvoicePdf } from './handlers/render_invoice_pdf';
+import { sendInvoice } from './handlers/send_invoice';
+import { recordPayment } from './handlers/record_payment';
+import { getPayments } from './handlers/get_payments';
+import { getAgingReport } from './handlers/get_aging_report';
+import { assignHolidayCalendar } from './handlers/assign_holiday_calendar';
+import { createHolidayCalendar } from './handlers/create_holiday_calendar';
+import { getHolidayCalendars } from './handlers/get_holiday_calendars';
+import { addHoliday } from './handlers/add_holiday';
+import { deleteHoliday } from './handlers/delete_holiday';
+import { getHolidays } from './handlers/get_holidays';
+import { importHolidays } from './handlers/import_holidays';
+import { createWorkSchedule } from './handlers/create_work_schedule';
+import { getWorkSchedules } from './handlers/get_work_schedules';
 import { createClient } from './handlers/create_client';
 import { getClients } from './handlers/get_clients';
 import { createContact } from './handlers/create_contact';
 import { getContactsByClient } from './handlers/get_contacts_by_client';
 import { createProject } from './handlers/create_project';
+import { updateProjectBilling } from './handlers/update_project_billing';
+import { createMilestone } from './handlers/create_milestone';
+import { updateMilestone } from './handlers/update_milestone';
+import { completeMilestone } from './handlers/complete_milestone';
+import { reopenMilestone } from './handlers/reopen_milestone';
+import { getMilestones } from './handlers/get_milestones';
 import { getProjectsByClient } from './handlers/get_projects_by_client';
 import { createPosition } from './handlers/create_position';
 import { getPositionsByProject } from './handlers/get_positions_by_project';
+import { createAssignment } from './handlers/create_assignment';
+import { updateAssignment } from './handlers/update_assignment';
+import { deleteAssignment } from './handlers/delete_assignment';
+import { getAssignments } from './handlers/get_assignments';
+import { setAllocation } from './handlers/set_allocation';
+import { getAllocations } from './handlers/get_allocations';
+import { getPlanningBoard } from './handlers/get_planning_board';
+import { createSkill } from './handlers/create_skill';
+import { getSkills } from './handlers/get_skills';
+import { setUserSkill } from './handlers/set_user_skill';
+import { getUserSkills } from './handlers/get_user_skills';
+import { setPositionSkills } from './handlers/set_position_skills';
+import { getPositionSkills } from './handlers/get_position_skills';
+import { getStaffingSuggestions } from './handlers/get_staffing_suggestions';
 import { createTimeEntry } from './handlers/create_time_entry';
 import { getTimeEntriesByUser } from './handlers/get_time_entries_by_user';
+import { updateTimeEntry } from './handlers/update_time_entry';
+import { deleteTimeEntry } from './handlers/delete_time_entry';
+import { getTimeEntryRevisions } from './handlers/get_time_entry_revisions';
+import { createExpense } from './handlers/create_expense';
+import { updateExpense } from './handlers/update_expense';
+import { deleteExpense } from './handlers/delete_expense';
+import { getExpenses } from './handlers/get_expenses';
+import { getExpenseReceipt } from './handlers/get_expense_receipt';
+import { requestAbsence } from './handlers/request_absence';
+import { approveAbsence } from './handlers/approve_absence';
+import { rejectAbsence } from './handlers/reject_absence';
+import { getAbsences } from './handlers/get_absences';
+import { setAbsenceAllowance } from './handlers/set_absence_allowance';
+import { getAbsenceBalances } from './handlers/get_absence_balances';
+import { getWeeklyTimesheet } from './handlers/get_weekly_timesheet';
+import { saveWeeklyTimesheet } from './handlers/save_weekly_timesheet';
+import { submitTimesheet } from './handlers/submit_timesheet';
+import { approveTimesheet } from './handlers/approve_timesheet';
+import { rejectTimesheet } from './handlers/reject_timesheet';
+import { getTimesheets } from './handlers/get_timesheets';
+import { lockPeriod } from './handlers/lock_period';
+import { unlockPeriod } from './handlers/unlock_period';
+import { getPeriodLocks } from './handlers/get_period_locks';
+import { startTimer } from './handlers/start_timer';
+import { pauseTimer } from './handlers/pause_timer';
+import { resumeTimer } from './handlers/resume_timer';
+import { stopTimer } from './handlers/stop_timer';
+import { getActiveTimer } from './handlers/get_active_timer';
 import { createClientNote } from './handlers/create_client_note';
 import { getClientNotes } from './handlers/get_client_notes';
 import { createActivityLog } from './handlers/create_activity_log';
 import { getActivityLogs } from './handlers/get_activity_logs';
 import { getUtilizationReport } from './handlers/get_utilization_report';
 import { getBudgetConsumption } from './handlers/get_budget_consumption';
+import { getBudgetForecast } from './handlers/get_budget_forecast';
 import { getBookingDetails } from './handlers/get_booking_details';
+import { getProfitabilityReport } from './handlers/get_profitability_report';
+import { getPlannedVsActualReport } from './handlers/get_planned_vs_actual_report';
+import { getBenchReport } from './handlers/get_bench_report';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+import { changePassword } from './handlers/change_password';
+import { setUserPassword } from './handlers/set_user_password';
+import { ensureInitialAdmin } from './helpers/auth';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => login(input)),
+  logout: authedProcedure
+    .mutation(({ ctx }) => logout({ token: ctx.token })),
+  getCurrentUser: publicProcedure
+    .query(({ ctx }) => ctx.user),
+  changePassword: authedProcedure
+    .input(changePasswordInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => changePassword({ ...input, user_id: ctx.user.id })),
+  setUserPassword: adminProcedure
+    .input(setUserPasswordInputSchema.omit({ changed_by: true }))
+    .mutation(({ input, ctx }) => setUserPassword({ ...input, changed_by: ctx.user.id })),
+
   // User management
-  createUser: publicProcedure
+  createUser: adminProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
-  getUsers: publicProcedure
+  getUsers: authedProcedure
     .query(() => getUsers()),
+  assignHolidayCalendar: adminProcedure
+    .input(assignHolidayCalendarInputSchema)
+    .mutation(({ input }) => assignHolidayCalendar(input)),
+  createWorkSchedule: adminProcedure
+    .input(createWorkScheduleInputSchema)
+    .mutation(({ input }) => createWorkSchedule(input)),
+  getWorkSchedules: authedProcedure
+    .input(getWorkSchedulesInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getWorkSchedules(input);
+    }),
 
   // Client management
-  createClient: publicProcedure
+  createClient: managerProcedure
     .input(createClientInputSchema)
     .mutation(({ input }) => createClient(input)),
-  getClients: publicProcedure
+  getClients: authedProcedure
     .query(() => getClients()),
 
   // Contact management
-  createContact: publicProcedure
+  createContact: managerProcedure
     .input(createContactInputSchema)
     .mutation(({ input }) => createContact(input)),
-  getContactsByClient: publicProcedure
+  getContactsByClient: authedProcedure
     .input(z.object({ client_id: z.number() }))
     .query(({ input }) => getContactsByClient(input)),
 
   // Project management
-  createProject: publicProcedure
+  createProject: managerProcedure
     .input(createProjectInputSchema)
     .mutation(({ input }) => createProject(input)),
-  getProjectsByClient: publicProcedure
+  getProjectsByClient: authedProcedure
     .input(z.object({ client_id: z.number() }))
     .query(({ input }) => getProjectsByClient(input)),
+  updateProjectBilling: managerProcedure
+    .input(updateProjectBillingInputSchema)
+    .mutation(({ input }) => updateProjectBilling(input)),
+
+  // Milestones
+  createMilestone: managerProcedure
+    .input(createMilestoneInputSchema)
+    .mutation(({ input }) => createMilestone(input)),
+  updateMilestone: managerProcedure
+    .input(updateMilestoneInputSchema)
+    .mutation(({ input }) => updateMilestone(input)),
+  completeMilestone: managerProcedure
+    .input(completeMilestoneInputSchema)
+    .mutation(({ input }) => completeMilestone(input)),
+  reopenMilestone: managerProcedure
+    .input(reopenMilestoneInputSchema)
+    .mutation(({ input }) => reopenMilestone(input)),
+  getMilestones: managerProcedure
+    .input(getMilestonesInputSchema)
+    .query(({ input }) => getMilestones(input)),
 
   // Position management
-  createPosition: publicProcedure
+  createPosition: managerProcedure
     .input(createPositionInputSchema)
     .mutation(({ input }) => createPosition(input)),
-  getPositionsByProject: publicProcedure
+  getPositionsByProject: authedProcedure
     .input(z.object({ project_id: z.number() }))
     .query(({ input }) => getPositionsByProject(input)),
 
+  // Assignments - who may book which position
+  createAssignment: managerProcedure
+    .input(createAssignmentInputSchema)
+    .mutation(({ input }) => createAssignment(input)),
+  updateAssignment: managerProcedure
+    .input(updateAssignmentInputSchema)
+    .mutation(({ input }) => updateAssignment(input)),
+  deleteAssignment: managerProcedure
+    .input(deleteAssignmentInputSchema)
+    .mutation(({ input }) => deleteAssignment(input)),
+  getAssignments: authedProcedure
+    .input(getAssignmentsInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getAssignments(input);
+    }),
+
+  // Resource planning - planned hours per user, position and week
+  setAllocation: managerProcedure
+    .input(setAllocationInputSchema)
+    .mutation(({ input }) => setAllocation(input)),
+  getAllocations: authedProcedure
+    .input(getAllocationsInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getAllocations(input);
+    }),
+  getPlanningBoard: managerProcedure
+    .input(planningBoardInputSchema)
+    .query(({ input }) => getPlanningBoard(input)),
+
+  // Skills and staffing
+  createSkill: managerProcedure
+    .input(createSkillInputSchema)
+    .mutation(({ input }) => createSkill(input)),
+  getSkills: authedProcedure
+    .query(() => getSkills()),
+  setUserSkill: authedProcedure
+    .input(setUserSkillInputSchema)
+    .mutation(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return setUserSkill(input);
+    }),
+  getUserSkills: authedProcedure
+    .input(getUserSkillsInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getUserSkills(input);
+    }),
+  setPositionSkills: managerProcedure
+    .input(setPositionSkillsInputSchema)
+    .mutation(({ input }) => setPositionSkills(input)),
+  getPositionSkills: authedProcedure
+    .input(getPositionSkillsInputSchema)
+    .query(({ input }) => getPositionSkills(input)),
+  getStaffingSuggestions: managerProcedure
+    .input(staffingSuggestionsInputSchema)
+    .query(({ input }) => getStaffingSuggestions(input)),
+
+  // Rate cards
+  createRateCard: adminProcedure
+    .input(createRateCardInputSchema)
+    .mutation(({ input }) => createRateCard(input)),
+  endRateCard: adminProcedure
+    .input(endRateCardInputSchema)
+    .mutation(({ input }) => endRateCard(input)),
+  getRateCards: managerProcedure
+    .input(getRateCardsInputSchema)
+    .query(({ input }) => getRateCards(input)),
+
+  // Cost rates
+  createCostRate: adminProcedure
+    .input(createCostRateInputSchema)
+    .mutation(({ input }) => createCostRate(input)),
+  endCostRate: adminProcedure
+    .input(endCostRateInputSchema)
+    .mutation(({ input }) => endCostRate(input)),
+  getCostRates: managerProcedure
+    .input(getCostRatesInputSchema)
+    .query(({ input }) => getCostRates(input)),
+
+  // Exchange rates
+  setExchangeRate: adminProcedure
+    .input(setExchangeRateInputSchema)
+    .mutation(({ input }) => setExchangeRate(input)),
+  getExchangeRates: managerProcedure
+    .input(getExchangeRatesInputSchema)
+    .query(({ input }) => getExchangeRates(input)),
+  deleteExchangeRate: adminProcedure
+    .input(deleteExchangeRateInputSchema)
+    .mutation(({ input }) => deleteExchangeRate(input)),
+  getCurrencySettings: authedProcedure
+    .query(() => getCurrencySettings()),
+
+  // Retainers
+  createRetainer: managerProcedure
+    .input(createRetainerInputSchema)
+    .mutation(({ input }) => createRetainer(input)),
+  updateRetainer: managerProcedure
+    .input(updateRetainerInputSchema)
+    .mutation(({ input }) => updateRetainer(input)),
+  getRetainerBalances: authedProcedure
+    .input(retainerBalancesInputSchema)
+    .query(({ input }) => getRetainerBalances(input)),
+
+  // Budget amendments
+  requestBudgetAmendment: managerProcedure
+    .input(requestBudgetAmendmentInputSchema.omit({ requested_by: true }))
+    .mutation(({ input, ctx }) => requestBudgetAmendment({ ...input, requested_by: ctx.user.id })),
+  approveBudgetAmendment: adminProcedure
+    .input(reviewBudgetAmendmentInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => approveBudgetAmendment({ ...input, reviewer_id: ctx.user.id })),
+  rejectBudgetAmendment: adminProcedure
+    .input(rejectBudgetAmendmentInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => rejectBudgetAmendment({ ...input, reviewer_id: ctx.user.id })),
+  getBudgetAmendments: managerProcedure
+    .input(getBudgetAmendmentsInputSchema)
+    .query(({ input }) => getBudgetAmendments(input)),
+
+  // Budget alerts
+  setBudgetThresholds: managerProcedure
+    .input(setBudgetThresholdsInputSchema.omit({ configured_by: true }))
+    .mutation(({ input, ctx }) => setBudgetThresholds({ ...input, configured_by: ctx.user.id })),
+  getBudgetThresholds: managerProcedure
+    .input(getBudgetThresholdsInputSchema)
+    .query(({ input }) => getBudgetThresholds(input)),
+
+  // Notifications
+  getNotifications: authedProcedure
+    .input(getNotificationsInputSchema.omit({ user_id: true }))
+    .query(({ input, ctx }) => getNotifications({ ...input, user_id: ctx.user.id })),
+  markNotificationsRead: authedProcedure
+    .input(markNotificationsReadInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => markNotificationsRead({ ...input, user_id: ctx.user.id })),
+  deliverEmails: adminProcedure
+    .mutation(() => deliverEmails()),
+
+  // Invoicing
+  createInvoice: managerProcedure
+    .input(createInvoiceInputSchema)
+    .mutation(({ input }) => createInvoice(input)),
+  createMilestoneInvoice: managerProcedure
+    .input(createMilestoneInvoiceInputSchema)
+    .mutation(({ input }) => createMilestoneInvoice(input)),
+  finalizeInvoice: managerProcedure
+    .input(finalizeInvoiceInputSchema)
+    .mutation(({ input }) => finalizeInvoice(input)),
+  sendInvoice: managerProcedure
+    .input(sendInvoiceInputSchema)
+    .mutation(({ input }) => sendInvoice(input)),
+  voidInvoice: managerProcedure
+    .input(voidInvoiceInputSchema)
+    .mutation(({ input }) => voidInvoice(input)),
+  recordPayment: managerProcedure
+    .input(recordPaymentInputSchema)
+    .mutation(({ input }) => recordPayment(input)),
+  getPayments: managerProcedure
+    .input(getPaymentsInputSchema)
+    .query(({ input }) => getPayments(input)),
+  getInvoices: managerProcedure
+    .input(getInvoicesInputSchema)
+    .query(({ input }) => getInvoices(input)),
+  getInvoiceDetails: managerProcedure
+    .input(getInvoiceDetailsInputSchema)
+    .query(({ input }) => getInvoiceDetails(input)),
+  renderInvoicePdf: managerProcedure
+    .input(renderInvoicePdfInputSchema)
+    .query(({ input }) => renderInvoicePdf(input)),
+  createInvoiceTemplate: managerProcedure
+    .input(createInvoiceTemplateInputSchema)
+    .mutation(({ input }) => createInvoiceTemplate(input)),
+  updateInvoiceTemplate: managerProcedure
+    .input(updateInvoiceTemplateInputSchema)
+    .mutation(({ input }) => updateInvoiceTemplate(input)),
+  getInvoiceTemplates: managerProcedure
+    .query(() => getInvoiceTemplates()),
+
   // Time tracking
-  createTimeEntry: publicProcedure
-    .input(createTimeEntryInputSchema)
-    .mutation(({ input }) => createTimeEntry(input)),
-  getTimeEntriesByUser: publicProcedure
+  createTimeEntry: authedProcedure
+    .input(createTimeEntryInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createTimeEntry({ ...input, user_id: ctx.user.id })),
+  getTimeEntriesByUser: authedProcedure
     .input(z.object({
       user_id: z.number(),
       start_date: z.coerce.date().optional(),
       end_date: z.coerce.date().optional()
     }))
-    .query(({ input }) => getTimeEntriesByUser(input)),
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getTimeEntriesByUser(input);
+    }),
+  updateTimeEntry: authedProcedure
+    .input(updateTimeEntryInputSchema.omit({ changed_by: true }))
+    .mutation(async ({ input, ctx }) => {
+      await assertOwnsTimeEntry(ctx.user, input.id);
+      return updateTimeEntry({ ...input, changed_by: ctx.user.id });
+    }),
+  deleteTimeEntry: authedProcedure
+    .input(deleteTimeEntryInputSchema.omit({ changed_by: true }))
+    .mutation(async ({ input, ctx }) => {
+      await assertOwnsTimeEntry(ctx.user, input.id);
+      return deleteTimeEntry({ ...input, changed_by: ctx.user.id });
+    }),
+  getTimeEntryRevisions: authedProcedure
+    .input(z.object({ time_entry_id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertOwnsTimeEntry(ctx.user, input.time_entry_id);
+      return getTimeEntryRevisions(input);
+    }),
+  getWeeklyTimesheet: authedProcedure
+    .input(weeklyTimesheetInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getWeeklyTimesheet(input);
+    }),
+  saveWeeklyTimesheet: authedProcedure
+    .input(saveWeeklyTimesheetInputSchema.omit({ user_id: true, changed_by: true }))
+    .mutation(({ input, ctx }) => saveWeeklyTimesheet({ ...input, user_id: ctx.user.id, changed_by: ctx.user.id })),
+
+  // Expenses
+  createExpense: authedProcedure
+    .input(createExpenseInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createExpense({ ...input, user_id: ctx.user.id })),
+  updateExpense: authedProcedure
+    .input(updateExpenseInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertOwnsExpense(ctx.user, input.id);
+      return updateExpense(input);
+    }),
+  deleteExpense: authedProcedure
+    .input(deleteExpenseInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertOwnsExpense(ctx.user, input.id);
+      return deleteExpense(input);
+    }),
+  getExpenses: authedProcedure
+    .input(getExpensesInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getExpenses(input);
+    }),
+  getExpenseReceipt: authedProcedure
+    .input(getExpenseReceiptInputSchema)
+    .query(async ({ input, ctx }) => {
+      await assertOwnsExpense(ctx.user, input.expense_id);
+      return getExpenseReceipt(input);
+    }),
+
+  // Timesheet approval
+  submitTimesheet: authedProcedure
+    .input(submitTimesheetInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => submitTimesheet({ ...input, user_id: ctx.user.id })),
+  approveTimesheet: managerProcedure
+    .input(reviewTimesheetInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => approveTimesheet({ ...input, reviewer_id: ctx.user.id })),
+  rejectTimesheet: managerProcedure
+    .input(rejectTimesheetInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => rejectTimesheet({ ...input, reviewer_id: ctx.user.id })),
+  getTimesheets: authedProcedure
+    .input(getTimesheetsInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getTimesheets(input);
+    }),
+
+  // Accounting period locks
+  lockPeriod: adminProcedure
+    .input(lockPeriodInputSchema.omit({ locked_by: true }))
+    .mutation(({ input, ctx }) => lockPeriod({ ...input, locked_by: ctx.user.id })),
+  unlockPeriod: adminProcedure
+    .input(unlockPeriodInputSchema.omit({ unlocked_by: true }))
+    .mutation(({ input, ctx }) => unlockPeriod({ ...input, unlocked_by: ctx.user.id })),
+  getPeriodLocks: managerProcedure
+    .input(getPeriodLocksInputSchema)
+    .query(({ input }) => getPeriodLocks(input)),
+
+  // Holiday calendars
+  createHolidayCalendar: adminProcedure
+    .input(createHolidayCalendarInputSchema)
+    .mutation(({ input }) => createHolidayCalendar(input)),
+  getHolidayCalendars: authedProcedure
+    .query(() => getHolidayCalendars()),
+  addHoliday: adminProcedure
+    .input(addHolidayInputSchema)
+    .mutation(({ input }) => addHoliday(input)),
+  deleteHoliday: adminProcedure
+    .input(deleteHolidayInputSchema)
+    .mutation(({ input }) => deleteHoliday(input)),
+  getHolidays: authedProcedure
+    .input(getHolidaysInputSchema)
+    .query(({ input }) => getHolidays(input)),
+  importHolidays: adminProcedure
+    .input(importHolidaysInputSchema)
+    .mutation(({ input }) => importHolidays(input)),
+
+  // Absences
+  requestAbsence: authedProcedure
+    .input(requestAbsenceInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => requestAbsence({ ...input, user_id: ctx.user.id })),
+  approveAbsence: managerProcedure
+    .input(reviewAbsenceInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => approveAbsence({ ...input, reviewer_id: ctx.user.id })),
+  rejectAbsence: managerProcedure
+    .input(rejectAbsenceInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => rejectAbsence({ ...input, reviewer_id: ctx.user.id })),
+  getAbsences: authedProcedure
+    .input(getAbsencesInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getAbsences(input);
+    }),
+  setAbsenceAllowance: managerProcedure
+    .input(setAbsenceAllowanceInputSchema)
+    .mutation(({ input }) => setAbsenceAllowance(input)),
+  getAbsenceBalances: authedProcedure
+    .input(getAbsenceBalancesInputSchema)
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getAbsenceBalances(input);
+    }),
+
+  // Timers
+  startTimer: authedProcedure
+    .input(startTimerInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => startTimer({ ...input, user_id: ctx.user.id })),
+  pauseTimer: authedProcedure
+    .mutation(({ ctx }) => pauseTimer({ user_id: ctx.user.id })),
+  resumeTimer: authedProcedure
+    .mutation(({ ctx }) => resumeTimer({ user_id: ctx.user.id })),
+  stopTimer: authedProcedure
+    .input(stopTimerInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => stopTimer({ ...input, user_id: ctx.user.id })),
+  getActiveTimer: authedProcedure
+    .query(({ ctx }) => getActiveTimer({ user_id: ctx.user.id })),
 
   // CRM - Client notes
-  createClientNote: publicProcedure
-    .input(createClientNoteInputSchema)
-    .mutation(({ input }) => createClientNote(input)),
-  getClientNotes: publicProcedure
+  createClientNote: authedProcedure
+    .input(createClientNoteInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createClientNote({ ...input, user_id: ctx.user.id })),
+  getClientNotes: authedProcedure
     .input(z.object({ client_id: z.number() }))
     .query(({ input }) => getClientNotes(input)),
 
   // CRM - Activity logs
-  createActivityLog: publicProcedure
-    .input(createActivityLogInputSchema)
-    .mutation(({ input }) => createActivityLog(input)),
-  getActivityLogs: publicProcedure
+  createActivityLog: authedProcedure
+    .input(createActivityLogInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createActivityLog({ ...input, user_id: ctx.user.id })),
+  getActivityLogs: authedProcedure
     .input(z.object({ client_id: z.number() }))
     .query(({ input }) => getActivityLogs(input)),
 
   // Reporting
-  getUtilizationReport: publicProcedure
+  getUtilizationReport: managerProcedure
     .input(utilizationReportInputSchema)
     .query(({ input }) => getUtilizationReport(input)),
-  getBudgetConsumption: publicProcedure
+  getAgingReport: managerProcedure
+    .input(agingReportInputSchema)
+    .query(({ input }) => getAgingReport(input)),
+  getBudgetConsumption: managerProcedure
     .input(budgetConsumptionInputSchema)
     .query(({ input }) => getBudgetConsumption(input)),
-  getBookingDetails: publicProcedure
+  getBudgetForecast: managerProcedure
+    .input(budgetForecastInputSchema)
+    .query(({ input }) => getBudgetForecast(input)),
+  getBookingDetails: authedProcedure
     .input(bookingDetailsInputSchema)
-    .query(({ input }) => getBookingDetails(input)),
+    .query(({ input, ctx }) => {
+      assertCanActFor(ctx.user, input.user_id);
+      return getBookingDetails(input);
+    }),
+  getProfitabilityReport: managerProcedure
+    .input(profitabilityReportInputSchema)
+    .query(({ input }) => getProfitabilityReport(input)),
+  getPlannedVsActualReport: managerProcedure
+    .input(plannedVsActualReportInputSchema)
+    .query(({ input }) => getPlannedVsActualReport(input)),
+  getBenchReport: managerProcedure
+    .input(benchReportInputSchema)
+    .query(({ input }) => getBenchReport(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  await ensureInitialAdmin();
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Queued emails go out in the background; deliverEmails logs its own failures
+  const emailInterval = parseInt(process.env['EMAIL_DELIVERY_INTERVAL_MS'] || '60000');
+  setInterval(() => {
+    deliverEmails().catch(() => undefined);
+  }, emailInterval);
 }
 
-start();
\ No newline at end of file
+// Tests import the router without starting the server
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
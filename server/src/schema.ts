@@ -6,28 +6,74 @@ export const userSchema = z.object({
   email: z.string().email(),
   name: z.string(),
   role: z.enum(['consultant', 'project_manager', 'administrator']),
-  hourly_rate: z.number().nullable(),
+  hourly_rate: z.number().nullable(), // Default bill rate; internal cost is in cost rates
+  holiday_calendar_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+const passwordSchema = z.string().min(8, 'Passwords need at least 8 characters');
+
 export const createUserInputSchema = z.object({
   email: z.string().email(),
   name: z.string(),
   role: z.enum(['consultant', 'project_manager', 'administrator']),
-  hourly_rate: z.number().positive().nullable()
+  hourly_rate: z.number().positive().nullable(),
+  password: passwordSchema.optional() // Without one the user cannot log in yet
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// Authentication schemas - passwords are only stored hashed; see helpers/auth.ts
+export const loginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string()
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const sessionSchema = z.object({
+  token: z.string(), // Sent back as "Authorization: Bearer <token>"
+  expires_at: z.coerce.date(),
+  user: userSchema
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+export const logoutInputSchema = z.object({
+  token: z.string()
+});
+
+export type LogoutInput = z.infer<typeof logoutInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  user_id: z.number(),
+  current_password: z.string(),
+  new_password: passwordSchema
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const setUserPasswordInputSchema = z.object({
+  user_id: z.number(),
+  password: passwordSchema,
+  changed_by: z.number() // Administrators set passwords for others
+});
+
+export type SetUserPasswordInput = z.infer<typeof setUserPasswordInputSchema>;
+
+// ISO 4217 code, e.g. 'EUR'
+const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Currency must be a three-letter ISO code');
+
 // Client schema
 export const clientSchema = z.object({
   id: z.number(),
   name: z.string(),
   address: z.string().nullable(),
   industry: z.string().nullable(),
+  currency: z.string(), // Billing currency of the client's budgets, rates and invoices
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -37,7 +83,8 @@ export type Client = z.infer<typeof clientSchema>;
 export const createClientInputSchema = z.object({
   name: z.string(),
   address: z.string().nullable(),
-  industry: z.string().nullable()
+  industry: z.string().nullable(),
+  currency: currencyCodeSchema.optional() // Defaults to the reporting currency
 });
 
 export type CreateClientInput = z.infer<typeof createClientInputSchema>;
@@ -65,12 +112,18 @@ export const createContactInputSchema = z.object({
 export type CreateContactInput = z.infer<typeof createContactInputSchema>;
 
 // Project schema
+// Fixed-price projects are billed through milestones; capped T&M is billed by the hour up to the budget
+export const billingModelSchema = z.enum(['time_and_materials', 'fixed_price', 'capped_time_and_materials']);
+
+export type BillingModel = z.infer<typeof billingModelSchema>;
+
 export const projectSchema = z.object({
   id: z.number(),
   client_id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
-  budget: z.number().nullable(),
+  budget: z.number().nullable(), // The price of fixed-price projects, the cap of capped T&M ones
+  billing_model: billingModelSchema,
   status: z.enum(['active', 'completed', 'on_hold', 'cancelled']),
   start_date: z.coerce.date().nullable(),
   end_date: z.coerce.date().nullable(),
@@ -84,7 +137,8 @@ export const createProjectInputSchema = z.object({
   client_id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
-  budget: z.number().positive().nullable(),
+  budget: z.number().positive().nullable(), // Required unless billed as time and materials
+  billing_model: billingModelSchema.default('time_and_materials'),
   status: z.enum(['active', 'completed', 'on_hold', 'cancelled']).default('active'),
   start_date: z.coerce.date().nullable(),
   end_date: z.coerce.date().nullable()
@@ -92,6 +146,66 @@ export const createProjectInputSchema = z.object({
 
 export type CreateProjectInput = z.infer<typeof createProjectInputSchema>;
 
+export const updateProjectBillingInputSchema = z.object({
+  project_id: z.number(),
+  billing_model: billingModelSchema,
+  budget: z.number().positive().nullable()
+});
+
+export type UpdateProjectBillingInput = z.infer<typeof updateProjectBillingInputSchema>;
+
+// Milestone schemas
+export const milestoneSchema = z.object({
+  id: z.number(),
+  project_id: z.number(),
+  name: z.string(),
+  amount: z.number(),
+  due_date: z.string(), // YYYY-MM-DD
+  completed_on: z.string().nullable(), // YYYY-MM-DD; null while open
+  invoice_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Milestone = z.infer<typeof milestoneSchema>;
+
+export const createMilestoneInputSchema = z.object({
+  project_id: z.number(),
+  name: z.string().min(1),
+  amount: z.number().positive(),
+  due_date: z.coerce.date()
+});
+
+export type CreateMilestoneInput = z.infer<typeof createMilestoneInputSchema>;
+
+export const updateMilestoneInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  amount: z.number().positive().optional(),
+  due_date: z.coerce.date().optional()
+});
+
+export type UpdateMilestoneInput = z.infer<typeof updateMilestoneInputSchema>;
+
+export const completeMilestoneInputSchema = z.object({
+  milestone_id: z.number(),
+  completed_on: z.coerce.date()
+});
+
+export type CompleteMilestoneInput = z.infer<typeof completeMilestoneInputSchema>;
+
+export const reopenMilestoneInputSchema = z.object({
+  milestone_id: z.number()
+});
+
+export type ReopenMilestoneInput = z.infer<typeof reopenMilestoneInputSchema>;
+
+export const getMilestonesInputSchema = z.object({
+  project_id: z.number()
+});
+
+export type GetMilestonesInput = z.infer<typeof getMilestonesInputSchema>;
+
 // Position schema
 export const positionSchema = z.object({
   id: z.number(),
@@ -116,6 +230,241 @@ export const createPositionInputSchema = z.object({
 
 export type CreatePositionInput = z.infer<typeof createPositionInputSchema>;
 
+// Assignment schemas - users may only book positions they are assigned to
+export const assignmentSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  user_name: z.string(),
+  position_id: z.number(),
+  position_name: z.string(),
+  project_id: z.number(),
+  project_name: z.string(),
+  client_id: z.number(),
+  client_name: z.string(),
+  start_date: z.string().nullable(), // YYYY-MM-DD; null from the start
+  end_date: z.string().nullable(), // YYYY-MM-DD, inclusive; null while open-ended
+  planned_hours: z.number().nullable(), // Total over the assignment
+  created_at: z.coerce.date()
+});
+
+export type Assignment = z.infer<typeof assignmentSchema>;
+
+export const createAssignmentInputSchema = z.object({
+  user_id: z.number(),
+  position_id: z.number(),
+  start_date: z.coerce.date().nullable(),
+  end_date: z.coerce.date().nullable(),
+  planned_hours: z.number().positive().nullable()
+});
+
+export type CreateAssignmentInput = z.infer<typeof createAssignmentInputSchema>;
+
+export const updateAssignmentInputSchema = z.object({
+  assignment_id: z.number(),
+  start_date: z.coerce.date().nullable().optional(),
+  end_date: z.coerce.date().nullable().optional(),
+  planned_hours: z.number().positive().nullable().optional()
+});
+
+export type UpdateAssignmentInput = z.infer<typeof updateAssignmentInputSchema>;
+
+export const deleteAssignmentInputSchema = z.object({
+  assignment_id: z.number()
+});
+
+export type DeleteAssignmentInput = z.infer<typeof deleteAssignmentInputSchema>;
+
+export const getAssignmentsInputSchema = z.object({
+  user_id: z.number().optional(),
+  position_id: z.number().optional(),
+  project_id: z.number().optional(),
+  active_on: z.coerce.date().optional() // Only assignments whose date range includes this day
+});
+
+export type GetAssignmentsInput = z.infer<typeof getAssignmentsInputSchema>;
+
+// Resource allocation schemas - planned hours per user, position and week
+export const allocationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  user_name: z.string(),
+  position_id: z.number(),
+  position_name: z.string(),
+  project_id: z.number(),
+  project_name: z.string(),
+  client_id: z.number(),
+  client_name: z.string(),
+  week_start: z.string(), // YYYY-MM-DD, always a Monday
+  planned_hours: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Allocation = z.infer<typeof allocationSchema>;
+
+// One cell of the planning board; zero hours removes the allocation
+export const setAllocationInputSchema = z.object({
+  user_id: z.number(),
+  position_id: z.number(),
+  week_start: z.coerce.date(), // Any day of the week; normalized to Monday
+  planned_hours: z.number().min(0).max(168)
+});
+
+export type SetAllocationInput = z.infer<typeof setAllocationInputSchema>;
+
+export const getAllocationsInputSchema = z.object({
+  user_id: z.number().optional(),
+  position_id: z.number().optional(),
+  project_id: z.number().optional(),
+  start_date: z.coerce.date(), // Weeks from the one containing this day
+  end_date: z.coerce.date() // to the one containing this day
+});
+
+export type GetAllocationsInput = z.infer<typeof getAllocationsInputSchema>;
+
+export const planningBoardInputSchema = z.object({
+  start_date: z.coerce.date(), // Any day of the first week; normalized to Monday
+  weeks: z.number().int().min(1).max(26).default(8)
+});
+
+export type PlanningBoardInput = z.infer<typeof planningBoardInputSchema>;
+
+export const planningBoardCellSchema = z.object({
+  week_start: z.string(), // YYYY-MM-DD
+  capacity_hours: z.number(), // After holidays and approved absences
+  planned_hours: z.number(),
+  is_overbooked: z.boolean(), // More hours planned than the week has capacity
+  allocations: z.array(allocationSchema)
+});
+
+export type PlanningBoardCell = z.infer<typeof planningBoardCellSchema>;
+
+// Consultants as rows, weeks as columns
+export const planningBoardSchema = z.object({
+  weeks: z.array(z.string()), // YYYY-MM-DD Mondays
+  rows: z.array(z.object({
+    user_id: z.number(),
+    user_name: z.string(),
+    cells: z.array(planningBoardCellSchema),
+    capacity_hours: z.number(),
+    planned_hours: z.number()
+  }))
+});
+
+export type PlanningBoard = z.infer<typeof planningBoardSchema>;
+
+// Skill schemas - a catalogue of skills, users' proficiency and what positions require
+export const skillLevelSchema = z.enum(['beginner', 'intermediate', 'advanced', 'expert']);
+
+export type SkillLevel = z.infer<typeof skillLevelSchema>;
+
+export const skillSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  category: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Skill = z.infer<typeof skillSchema>;
+
+export const createSkillInputSchema = z.object({
+  name: z.string().trim().min(1),
+  category: z.string().nullable()
+});
+
+export type CreateSkillInput = z.infer<typeof createSkillInputSchema>;
+
+export const userSkillSchema = z.object({
+  user_id: z.number(),
+  user_name: z.string(),
+  skill_id: z.number(),
+  skill_name: z.string(),
+  category: z.string().nullable(),
+  level: skillLevelSchema,
+  updated_at: z.coerce.date()
+});
+
+export type UserSkill = z.infer<typeof userSkillSchema>;
+
+export const setUserSkillInputSchema = z.object({
+  user_id: z.number(),
+  skill_id: z.number(),
+  level: skillLevelSchema.nullable() // Null removes the skill from the user
+});
+
+export type SetUserSkillInput = z.infer<typeof setUserSkillInputSchema>;
+
+export const getUserSkillsInputSchema = z.object({
+  user_id: z.number().optional(),
+  skill_id: z.number().optional()
+});
+
+export type GetUserSkillsInput = z.infer<typeof getUserSkillsInputSchema>;
+
+export const positionSkillSchema = z.object({
+  position_id: z.number(),
+  skill_id: z.number(),
+  skill_name: z.string(),
+  category: z.string().nullable(),
+  min_level: skillLevelSchema
+});
+
+export type PositionSkill = z.infer<typeof positionSkillSchema>;
+
+// Replaces all required skills of a position
+export const setPositionSkillsInputSchema = z.object({
+  position_id: z.number(),
+  skills: z.array(z.object({
+    skill_id: z.number(),
+    min_level: skillLevelSchema
+  }))
+});
+
+export type SetPositionSkillsInput = z.infer<typeof setPositionSkillsInputSchema>;
+
+export const getPositionSkillsInputSchema = z.object({
+  position_id: z.number()
+});
+
+export type GetPositionSkillsInput = z.infer<typeof getPositionSkillsInputSchema>;
+
+export const staffingSuggestionsInputSchema = z.object({
+  position_id: z.number(),
+  as_of: z.coerce.date().optional(), // Defaults to today; free capacity is counted from then on
+  limit: z.number().int().positive().default(10)
+});
+
+export type StaffingSuggestionsInput = z.infer<typeof staffingSuggestionsInputSchema>;
+
+export const staffingSuggestionSchema = z.object({
+  user_id: z.number(),
+  user_name: z.string(),
+  role: z.enum(['consultant', 'project_manager', 'administrator']),
+  skill_match_percent: z.number(), // Average over required skills; a level below the minimum counts partially
+  is_qualified: z.boolean(), // Every required skill at its minimum level
+  skills: z.array(z.object({
+    skill_id: z.number(),
+    skill_name: z.string(),
+    min_level: skillLevelSchema,
+    level: skillLevelSchema.nullable() // Null when the user does not have the skill
+  })),
+  capacity_hours: z.number(), // Over the staffing period, after holidays and approved absences
+  planned_hours: z.number(), // Allocations over the staffing period
+  free_hours: z.number(),
+  is_assigned: z.boolean() // Already assigned to the position at some point of the period
+});
+
+export type StaffingSuggestion = z.infer<typeof staffingSuggestionSchema>;
+
+export const staffingSuggestionsSchema = z.object({
+  position_id: z.number(),
+  period_start: z.string(), // YYYY-MM-DD, the Monday of the project start, or of as_of once started
+  period_end: z.string(), // YYYY-MM-DD, the Sunday of the project end, or 12 weeks on without one
+  suggestions: z.array(staffingSuggestionSchema) // Best skill match first, then most free hours
+});
+
+export type StaffingSuggestions = z.infer<typeof staffingSuggestionsSchema>;
+
 // Time entry schema
 export const timeEntrySchema = z.object({
   id: z.number(),
@@ -125,6 +474,8 @@ export const timeEntrySchema = z.object({
   hours: z.number(),
   date: z.coerce.date(),
   billable: z.boolean(),
+  invoice_id: z.number().nullable(), // Set while the entry is on a draft or finalized invoice
+  billed_at: z.coerce.date().nullable(), // Set once that invoice is finalized
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -142,69 +493,1307 @@ export const createTimeEntryInputSchema = z.object({
 
 export type CreateTimeEntryInput = z.infer<typeof createTimeEntryInputSchema>;
 
-// Client notes schema
-export const clientNoteSchema = z.object({
+export const updateTimeEntryInputSchema = z.object({
   id: z.number(),
-  client_id: z.number(),
-  user_id: z.number(),
-  note: z.string(),
-  created_at: z.coerce.date()
+  changed_by: z.number(),
+  position_id: z.number().optional(),
+  description: z.string().nullable().optional(),
+  hours: z.number().positive().optional(),
+  date: z.coerce.date().optional(),
+  billable: z.boolean().optional()
 });
 
-export type ClientNote = z.infer<typeof clientNoteSchema>;
+export type UpdateTimeEntryInput = z.infer<typeof updateTimeEntryInputSchema>;
 
-export const createClientNoteInputSchema = z.object({
-  client_id: z.number(),
+export const deleteTimeEntryInputSchema = z.object({
+  id: z.number(),
+  changed_by: z.number()
+});
+
+export type DeleteTimeEntryInput = z.infer<typeof deleteTimeEntryInputSchema>;
+
+// Time entry revision schema
+export const timeEntrySnapshotSchema = z.object({
   user_id: z.number(),
-  note: z.string()
+  position_id: z.number(),
+  description: z.string().nullable(),
+  hours: z.number(),
+  date: z.string(), // YYYY-MM-DD
+  billable: z.boolean()
 });
 
-export type CreateClientNoteInput = z.infer<typeof createClientNoteInputSchema>;
+export type TimeEntrySnapshot = z.infer<typeof timeEntrySnapshotSchema>;
 
-// Activity log schema
-export const activityLogSchema = z.object({
+export const timeEntryRevisionSchema = z.object({
   id: z.number(),
-  client_id: z.number(),
-  user_id: z.number(),
-  activity_type: z.enum(['call', 'meeting', 'email', 'other']),
-  description: z.string(),
-  activity_date: z.coerce.date(),
+  time_entry_id: z.number(),
+  action: z.enum(['update', 'delete']),
+  changed_by: z.number(),
+  before: timeEntrySnapshotSchema,
+  after: timeEntrySnapshotSchema.nullable(),
   created_at: z.coerce.date()
 });
 
-export type ActivityLog = z.infer<typeof activityLogSchema>;
+export type TimeEntryRevision = z.infer<typeof timeEntryRevisionSchema>;
 
-export const createActivityLogInputSchema = z.object({
-  client_id: z.number(),
+// Expense schemas
+export const expenseCategorySchema = z.enum(['travel', 'accommodation', 'meals', 'software', 'equipment', 'other']);
+
+export type ExpenseCategory = z.infer<typeof expenseCategorySchema>;
+
+export const expenseSchema = z.object({
+  id: z.number(),
   user_id: z.number(),
-  activity_type: z.enum(['call', 'meeting', 'email', 'other']),
-  description: z.string(),
-  activity_date: z.coerce.date()
+  position_id: z.number(),
+  date: z.coerce.date(),
+  amount: z.number(),
+  currency: z.string(),
+  category: expenseCategorySchema,
+  description: z.string().nullable(),
+  billable: z.boolean(),
+  reimbursable: z.boolean(),
+  receipt_filename: z.string().nullable(), // Null when no receipt was uploaded
+  invoice_id: z.number().nullable(), // Set while the expense is on a draft or finalized invoice
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
 });
 
-export type CreateActivityLogInput = z.infer<typeof createActivityLogInputSchema>;
+export type Expense = z.infer<typeof expenseSchema>;
 
-// Reporting schemas
-export const utilizationReportInputSchema = z.object({
+// Receipts travel base64 encoded, like rendered PDFs
+export const receiptUploadSchema = z.object({
+  filename: z.string().min(1),
+  content_base64: z.string().min(1)
+});
+
+export type ReceiptUpload = z.infer<typeof receiptUploadSchema>;
+
+export const createExpenseInputSchema = z.object({
+  user_id: z.number(),
+  position_id: z.number(),
+  date: z.coerce.date(),
+  amount: z.number().positive(),
+  currency: currencyCodeSchema.default('USD'),
+  category: expenseCategorySchema,
+  description: z.string().nullable(),
+  billable: z.boolean().default(true),
+  reimbursable: z.boolean().default(false),
+  receipt: receiptUploadSchema.nullable()
+});
+
+export type CreateExpenseInput = z.infer<typeof createExpenseInputSchema>;
+
+export const updateExpenseInputSchema = z.object({
+  id: z.number(),
+  position_id: z.number().optional(),
+  date: z.coerce.date().optional(),
+  amount: z.number().positive().optional(),
+  currency: currencyCodeSchema.optional(),
+  category: expenseCategorySchema.optional(),
+  description: z.string().nullable().optional(),
+  billable: z.boolean().optional(),
+  reimbursable: z.boolean().optional(),
+  receipt: receiptUploadSchema.nullable().optional() // Null removes the receipt, a new upload replaces it
+});
+
+export type UpdateExpenseInput = z.infer<typeof updateExpenseInputSchema>;
+
+export const deleteExpenseInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteExpenseInput = z.infer<typeof deleteExpenseInputSchema>;
+
+export const getExpensesInputSchema = z.object({
   user_id: z.number().optional(),
-  start_date: z.coerce.date(),
-  end_date: z.coerce.date()
+  project_id: z.number().optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional()
 });
 
-export type UtilizationReportInput = z.infer<typeof utilizationReportInputSchema>;
+export type GetExpensesInput = z.infer<typeof getExpensesInputSchema>;
 
-export const budgetConsumptionInputSchema = z.object({
+export const getExpenseReceiptInputSchema = z.object({
+  expense_id: z.number()
+});
+
+export type GetExpenseReceiptInput = z.infer<typeof getExpenseReceiptInputSchema>;
+
+export const expenseReceiptSchema = z.object({
+  filename: z.string(),
+  content_type: z.string(),
+  content_base64: z.string()
+});
+
+export type ExpenseReceipt = z.infer<typeof expenseReceiptSchema>;
+
+// Rate card schemas
+export const rateCardLevelSchema = z.enum(['client', 'project', 'position', 'user_position']);
+
+export type RateCardLevel = z.infer<typeof rateCardLevelSchema>;
+
+export const rateCardSchema = z.object({
+  id: z.number(),
+  level: rateCardLevelSchema,
+  client_id: z.number().nullable(),
+  project_id: z.number().nullable(),
+  position_id: z.number().nullable(),
+  user_id: z.number().nullable(),
+  hourly_rate: z.number(),
+  valid_from: z.string(), // YYYY-MM-DD
+  valid_to: z.string().nullable(), // YYYY-MM-DD, inclusive; null while open-ended
+  created_at: z.coerce.date()
+});
+
+export type RateCard = z.infer<typeof rateCardSchema>;
+
+export const createRateCardInputSchema = z.object({
+  level: rateCardLevelSchema,
+  client_id: z.number().nullable(),
+  project_id: z.number().nullable(),
+  position_id: z.number().nullable(),
+  user_id: z.number().nullable(),
+  hourly_rate: z.number().nonnegative(),
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date().nullable()
+});
+
+export type CreateRateCardInput = z.infer<typeof createRateCardInputSchema>;
+
+export const endRateCardInputSchema = z.object({
+  rate_card_id: z.number(),
+  valid_to: z.coerce.date() // Last day the rate applies
+});
+
+export type EndRateCardInput = z.infer<typeof endRateCardInputSchema>;
+
+export const getRateCardsInputSchema = z.object({
   client_id: z.number().optional(),
   project_id: z.number().optional(),
-  position_id: z.number().optional()
+  position_id: z.number().optional(),
+  user_id: z.number().optional()
 });
 
-export type BudgetConsumptionInput = z.infer<typeof budgetConsumptionInputSchema>;
+export type GetRateCardsInput = z.infer<typeof getRateCardsInputSchema>;
 
-export const bookingDetailsInputSchema = z.object({
-  user_id: z.number(),
-  start_date: z.coerce.date(),
-  end_date: z.coerce.date()
+// Exchange rate schemas - dated rates between currency pairs; see helpers/currency.ts
+export const exchangeRateSchema = z.object({
+  id: z.number(),
+  base_currency: z.string(),
+  quote_currency: z.string(),
+  rate: z.number(), // 1 base_currency = rate quote_currency
+  valid_from: z.string(), // YYYY-MM-DD
+  created_at: z.coerce.date()
+});
+
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>;
+
+export const setExchangeRateInputSchema = z.object({
+  base_currency: currencyCodeSchema,
+  quote_currency: currencyCodeSchema,
+  rate: z.number().positive(),
+  valid_from: z.coerce.date() // Replaces the pair's rate from the same day
+});
+
+export type SetExchangeRateInput = z.infer<typeof setExchangeRateInputSchema>;
+
+export const getExchangeRatesInputSchema = z.object({
+  currency: z.string().optional() // Rates with the currency on either side
+});
+
+export type GetExchangeRatesInput = z.infer<typeof getExchangeRatesInputSchema>;
+
+export const deleteExchangeRateInputSchema = z.object({
+  exchange_rate_id: z.number()
+});
+
+export type DeleteExchangeRateInput = z.infer<typeof deleteExchangeRateInputSchema>;
+
+export const currencySettingsSchema = z.object({
+  reporting_currency: z.string()
+});
+
+export type CurrencySettings = z.infer<typeof currencySettingsSchema>;
+
+// Cost rate schemas - internal cost of a user's hour, never shown to clients
+export const costRateSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  hourly_cost: z.number(),
+  valid_from: z.string(), // YYYY-MM-DD
+  valid_to: z.string().nullable(), // YYYY-MM-DD, inclusive; null while open-ended
+  created_at: z.coerce.date()
+});
+
+export type CostRate = z.infer<typeof costRateSchema>;
+
+export const createCostRateInputSchema = z.object({
+  user_id: z.number(),
+  hourly_cost: z.number().nonnegative(),
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date().nullable()
+});
+
+export type CreateCostRateInput = z.infer<typeof createCostRateInputSchema>;
+
+export const endCostRateInputSchema = z.object({
+  cost_rate_id: z.number(),
+  valid_to: z.coerce.date() // Last day the cost rate applies
+});
+
+export type EndCostRateInput = z.infer<typeof endCostRateInputSchema>;
+
+export const getCostRatesInputSchema = z.object({
+  user_id: z.number().optional()
+});
+
+export type GetCostRatesInput = z.infer<typeof getCostRatesInputSchema>;
+
+// Retainer schemas
+export const retainerOverrunPolicySchema = z.enum(['warn', 'block']);
+
+export type RetainerOverrunPolicy = z.infer<typeof retainerOverrunPolicySchema>;
+
+export const retainerScopeSchema = z.object({
+  id: z.number(),
+  retainer_id: z.number(),
+  project_id: z.number().nullable(), // Set for project scopes
+  position_id: z.number().nullable() // Set for position scopes
+});
+
+export type RetainerScope = z.infer<typeof retainerScopeSchema>;
+
+export const retainerSchema = z.object({
+  id: z.number(),
+  client_id: z.number(),
+  name: z.string(),
+  purchased_hours: z.number().nullable(), // Set for hour bundles
+  purchased_amount: z.number().nullable(), // Set for amount bundles
+  valid_from: z.string(), // YYYY-MM-DD
+  valid_to: z.string(), // YYYY-MM-DD, inclusive
+  overrun_policy: retainerOverrunPolicySchema,
+  scopes: z.array(retainerScopeSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Retainer = z.infer<typeof retainerSchema>;
+
+export const createRetainerInputSchema = z.object({
+  client_id: z.number(),
+  name: z.string().min(1),
+  purchased_hours: z.number().positive().nullable(), // Exactly one of hours and amount
+  purchased_amount: z.number().positive().nullable(),
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date(),
+  overrun_policy: retainerOverrunPolicySchema.default('warn'),
+  project_ids: z.array(z.number()).default([]), // Whole projects drawing from the retainer
+  position_ids: z.array(z.number()).default([]) // Single positions drawing from the retainer
+});
+
+export type CreateRetainerInput = z.infer<typeof createRetainerInputSchema>;
+
+export const updateRetainerInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  valid_to: z.coerce.date().optional(),
+  overrun_policy: retainerOverrunPolicySchema.optional()
+});
+
+export type UpdateRetainerInput = z.infer<typeof updateRetainerInputSchema>;
+
+export const retainerBalancesInputSchema = z.object({
+  client_id: z.number().optional(),
+  position_id: z.number().optional(), // Only retainers the position draws from
+  as_of: z.coerce.date().optional() // Defaults to today; decides which retainers are active
+});
+
+export type RetainerBalancesInput = z.infer<typeof retainerBalancesInputSchema>;
+
+export const retainerBalanceSchema = retainerSchema.extend({
+  client_name: z.string(),
+  currency: z.string(), // The client's, for amount bundles
+  unit: z.enum(['hours', 'amount']),
+  purchased: z.number(), // In the retainer's unit
+  used: z.number(),
+  remaining: z.number(), // Negative once overdrawn
+  used_percent: z.number(),
+  unpriced_hours: z.number(), // Amount bundles only: hours no rate applies to, left out of used
+  is_active: z.boolean(), // Valid on the as-of date
+  is_exhausted: z.boolean(),
+  burn_down: z.array(z.object({
+    date: z.string(), // YYYY-MM-DD, each day with bookings
+    used: z.number(), // Cumulative
+    remaining: z.number()
+  }))
+});
+
+export type RetainerBalance = z.infer<typeof retainerBalanceSchema>;
+
+// Budget amendment schemas - requested budget changes that take effect once an administrator approves them
+export const budgetAmendmentStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+export type BudgetAmendmentStatus = z.infer<typeof budgetAmendmentStatusSchema>;
+
+export const budgetAmendmentSchema = z.object({
+  id: z.number(),
+  project_id: z.number().nullable(), // Set for project budgets
+  position_id: z.number().nullable(), // Set for position budgets
+  delta: z.number(), // Negative to reduce the budget
+  reason: z.string(),
+  requested_by: z.number(),
+  status: budgetAmendmentStatusSchema,
+  reviewed_by: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  review_comment: z.string().nullable(),
+  budget_before: z.number().nullable(), // Effective budget the approval amended
+  created_at: z.coerce.date()
+});
+
+export type BudgetAmendment = z.infer<typeof budgetAmendmentSchema>;
+
+export const requestBudgetAmendmentInputSchema = z.object({
+  project_id: z.number().nullable(), // Exactly one of project and position
+  position_id: z.number().nullable(),
+  delta: z.number(), // Must not be zero
+  reason: z.string().min(1),
+  requested_by: z.number()
+});
+
+export type RequestBudgetAmendmentInput = z.infer<typeof requestBudgetAmendmentInputSchema>;
+
+export const reviewBudgetAmendmentInputSchema = z.object({
+  amendment_id: z.number(),
+  reviewer_id: z.number(),
+  comment: z.string().nullable()
+});
+
+export type ReviewBudgetAmendmentInput = z.infer<typeof reviewBudgetAmendmentInputSchema>;
+
+export const rejectBudgetAmendmentInputSchema = reviewBudgetAmendmentInputSchema.extend({
+  comment: z.string().min(1)
+});
+
+export type RejectBudgetAmendmentInput = z.infer<typeof rejectBudgetAmendmentInputSchema>;
+
+export const getBudgetAmendmentsInputSchema = z.object({
+  client_id: z.number().optional(), // Amendments on the client's projects
+  project_id: z.number().optional(),
+  position_id: z.number().optional(),
+  status: budgetAmendmentStatusSchema.optional()
+});
+
+export type GetBudgetAmendmentsInput = z.infer<typeof getBudgetAmendmentsInputSchema>;
+
+// Budget threshold schemas - consumption percentages that alert a manager once crossed
+export const budgetThresholdSchema = z.object({
+  id: z.number(),
+  project_id: z.number().nullable(), // Set for project thresholds
+  position_id: z.number().nullable(), // Set for position thresholds
+  percent: z.number().int(),
+  notify_user_id: z.number(),
+  triggered_at: z.coerce.date().nullable(), // Set while consumption is at or above the threshold
+  created_at: z.coerce.date()
+});
+
+export type BudgetThreshold = z.infer<typeof budgetThresholdSchema>;
+
+export const setBudgetThresholdsInputSchema = z.object({
+  project_id: z.number().nullable(), // Exactly one of project and position
+  position_id: z.number().nullable(),
+  percents: z.array(z.number().int().min(1).max(1000)), // Replaces the scope's thresholds; empty removes them
+  configured_by: z.number() // Project manager or administrator who receives the alerts
+});
+
+export type SetBudgetThresholdsInput = z.infer<typeof setBudgetThresholdsInputSchema>;
+
+export const getBudgetThresholdsInputSchema = z.object({
+  project_id: z.number().optional(),
+  position_id: z.number().optional()
+});
+
+export type GetBudgetThresholdsInput = z.infer<typeof getBudgetThresholdsInputSchema>;
+
+export const budgetAlertSchema = z.object({
+  id: z.number(),
+  threshold_id: z.number(),
+  time_entry_id: z.number().nullable(), // The booking that crossed the threshold
+  consumption_rate: z.number(), // Percentage at the crossing
+  consumed_amount: z.number(),
+  total_budget: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type BudgetAlert = z.infer<typeof budgetAlertSchema>;
+
+// Invoice schemas
+// Overdue applies to sent and partially paid invoices past their due date
+export const invoiceStatusSchema = z.enum(['draft', 'finalized', 'sent', 'partially_paid', 'paid', 'overdue', 'void']);
+
+export type InvoiceStatus = z.infer<typeof invoiceStatusSchema>;
+
+export const invoiceSchema = z.object({
+  id: z.number(),
+  client_id: z.number(),
+  number: z.string().nullable(), // Assigned on finalization
+  status: invoiceStatusSchema,
+  period_start: z.string(), // YYYY-MM-DD
+  period_end: z.string(), // YYYY-MM-DD
+  subtotal: z.number(),
+  tax_rate: z.number(), // Percent
+  tax_amount: z.number(),
+  total: z.number(),
+  amount_paid: z.number(),
+  balance_due: z.number(), // total - amount_paid
+  currency: z.string(), // All amounts are in it
+  exchange_rate: z.number().nullable(), // To the reporting currency on the creation date; null when no rate was known
+  total_reporting: z.number().nullable(), // total at exchange_rate; one to one in the reporting currency
+  finalized_at: z.coerce.date().nullable(),
+  sent_on: z.string().nullable(), // YYYY-MM-DD
+  due_date: z.string().nullable(), // YYYY-MM-DD
+  voided_at: z.coerce.date().nullable(),
+  void_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+
+export const invoiceLineKindSchema = z.enum(['time', 'retainer', 'cap_adjustment', 'expense', 'milestone']);
+
+export type InvoiceLineKind = z.infer<typeof invoiceLineKindSchema>;
+
+export const invoiceLineItemSchema = z.object({
+  id: z.number(),
+  invoice_id: z.number(),
+  kind: invoiceLineKindSchema,
+  position_id: z.number().nullable(), // Null on milestone, retainer and cap adjustment lines
+  project_id: z.number().nullable(), // Set on lines without a position
+  retainer_id: z.number().nullable(), // Set on retainer lines
+  description: z.string(),
+  hours: z.number().nullable(), // Set on time lines, and on retainer lines as the prepaid hours credited
+  hourly_rate: z.number().nullable(), // Set on time lines only
+  amount: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type InvoiceLineItem = z.infer<typeof invoiceLineItemSchema>;
+
+export const invoiceDetailsSchema = invoiceSchema.extend({
+  client_name: z.string(),
+  line_items: z.array(invoiceLineItemSchema),
+  time_entry_ids: z.array(z.number()),
+  expense_ids: z.array(z.number()),
+  milestone_ids: z.array(z.number())
+});
+
+export type InvoiceDetails = z.infer<typeof invoiceDetailsSchema>;
+
+export const createInvoiceInputSchema = z.object({
+  client_id: z.number(),
+  period_start: z.coerce.date(),
+  period_end: z.coerce.date(),
+  tax_rate: z.number().min(0).max(100).default(0), // Percent
+  include_expenses: z.boolean().default(true) // Adds the client's unbilled billable expenses in the period
+});
+
+export type CreateInvoiceInput = z.infer<typeof createInvoiceInputSchema>;
+
+export const createMilestoneInvoiceInputSchema = z.object({
+  milestone_id: z.number(),
+  tax_rate: z.number().min(0).max(100).default(0) // Percent
+});
+
+export type CreateMilestoneInvoiceInput = z.infer<typeof createMilestoneInvoiceInputSchema>;
+
+export const finalizeInvoiceInputSchema = z.object({
+  invoice_id: z.number()
+});
+
+export type FinalizeInvoiceInput = z.infer<typeof finalizeInvoiceInputSchema>;
+
+export const sendInvoiceInputSchema = z.object({
+  invoice_id: z.number(),
+  sent_on: z.coerce.date(),
+  payment_terms_days: z.number().int().nonnegative().default(30) // Days until the invoice is due
+});
+
+export type SendInvoiceInput = z.infer<typeof sendInvoiceInputSchema>;
+
+export const voidInvoiceInputSchema = z.object({
+  invoice_id: z.number(),
+  reason: z.string().nullable()
+});
+
+export type VoidInvoiceInput = z.infer<typeof voidInvoiceInputSchema>;
+
+export const getInvoicesInputSchema = z.object({
+  client_id: z.number().optional(),
+  status: invoiceStatusSchema.optional()
+});
+
+export type GetInvoicesInput = z.infer<typeof getInvoicesInputSchema>;
+
+export const getInvoiceDetailsInputSchema = z.object({
+  invoice_id: z.number()
+});
+
+export type GetInvoiceDetailsInput = z.infer<typeof getInvoiceDetailsInputSchema>;
+
+// Payment schemas
+export const paymentMethodSchema = z.enum(['bank_transfer', 'credit_card', 'cash', 'check', 'other']);
+
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+export const paymentSchema = z.object({
+  id: z.number(),
+  invoice_id: z.number(),
+  amount: z.number(),
+  paid_on: z.string(), // YYYY-MM-DD
+  method: paymentMethodSchema,
+  reference: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Payment = z.infer<typeof paymentSchema>;
+
+export const recordPaymentInputSchema = z.object({
+  invoice_id: z.number(),
+  amount: z.number().positive(),
+  paid_on: z.coerce.date(),
+  method: paymentMethodSchema,
+  reference: z.string().nullable()
+});
+
+export type RecordPaymentInput = z.infer<typeof recordPaymentInputSchema>;
+
+export const getPaymentsInputSchema = z.object({
+  invoice_id: z.number()
+});
+
+export type GetPaymentsInput = z.infer<typeof getPaymentsInputSchema>;
+
+export const agingReportInputSchema = z.object({
+  as_of: z.coerce.date().optional() // Defaults to today
+});
+
+export type AgingReportInput = z.infer<typeof agingReportInputSchema>;
+
+// Outstanding balances by days since the invoice was sent
+export const agingReportRowSchema = z.object({
+  client_id: z.number(),
+  client_name: z.string(),
+  days_0_30: z.number(),
+  days_31_60: z.number(),
+  days_61_90: z.number(),
+  days_over_90: z.number(),
+  total_outstanding: z.number(),
+  overdue_amount: z.number(), // Part of the total that is past its due date
+  currency: z.string(), // The client's; the amounts above are in it
+  total_outstanding_reporting: z.number().nullable(), // Each invoice at its exchange rate; null when one has none
+  overdue_amount_reporting: z.number().nullable()
+});
+
+export type AgingReportRow = z.infer<typeof agingReportRowSchema>;
+
+export const invoiceTemplateSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  body: z.string(),
+  is_default: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type InvoiceTemplate = z.infer<typeof invoiceTemplateSchema>;
+
+export const createInvoiceTemplateInputSchema = z.object({
+  name: z.string().min(1),
+  body: z.string().min(1),
+  is_default: z.boolean().default(false)
+});
+
+export type CreateInvoiceTemplateInput = z.infer<typeof createInvoiceTemplateInputSchema>;
+
+export const updateInvoiceTemplateInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  body: z.string().min(1).optional(),
+  is_default: z.boolean().optional()
+});
+
+export type UpdateInvoiceTemplateInput = z.infer<typeof updateInvoiceTemplateInputSchema>;
+
+export const renderInvoicePdfInputSchema = z.object({
+  invoice_id: z.number(),
+  template_id: z.number().optional(), // Falls back to the default template
+  include_appendix: z.boolean().default(false) // Lists every time entry with its description
+});
+
+export type RenderInvoicePdfInput = z.infer<typeof renderInvoicePdfInputSchema>;
+
+export const invoicePdfSchema = z.object({
+  filename: z.string(),
+  content_base64: z.string()
+});
+
+export type InvoicePdf = z.infer<typeof invoicePdfSchema>;
+
+// Holiday calendar schemas
+export const holidayCalendarSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  region: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type HolidayCalendar = z.infer<typeof holidayCalendarSchema>;
+
+export const createHolidayCalendarInputSchema = z.object({
+  name: z.string().min(1),
+  region: z.string().nullable()
+});
+
+export type CreateHolidayCalendarInput = z.infer<typeof createHolidayCalendarInputSchema>;
+
+export const holidaySchema = z.object({
+  id: z.number(),
+  calendar_id: z.number(),
+  date: z.string(), // YYYY-MM-DD
+  name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Holiday = z.infer<typeof holidaySchema>;
+
+export const addHolidayInputSchema = z.object({
+  calendar_id: z.number(),
+  date: z.coerce.date(),
+  name: z.string().min(1)
+});
+
+export type AddHolidayInput = z.infer<typeof addHolidayInputSchema>;
+
+export const deleteHolidayInputSchema = z.object({
+  holiday_id: z.number()
+});
+
+export type DeleteHolidayInput = z.infer<typeof deleteHolidayInputSchema>;
+
+export const getHolidaysInputSchema = z.object({
+  calendar_id: z.number(),
+  year: z.number().int().optional()
+});
+
+export type GetHolidaysInput = z.infer<typeof getHolidaysInputSchema>;
+
+export const importHolidaysInputSchema = z.object({
+  calendar_id: z.number(),
+  ics: z.string().min(1) // Contents of an iCalendar (.ics) file
+});
+
+export type ImportHolidaysInput = z.infer<typeof importHolidaysInputSchema>;
+
+export const importHolidaysResultSchema = z.object({
+  imported: z.number(),
+  skipped: z.number() // Dates the calendar already had
+});
+
+export type ImportHolidaysResult = z.infer<typeof importHolidaysResultSchema>;
+
+export const assignHolidayCalendarInputSchema = z.object({
+  user_id: z.number(),
+  holiday_calendar_id: z.number().nullable() // Null removes the assignment
+});
+
+export type AssignHolidayCalendarInput = z.infer<typeof assignHolidayCalendarInputSchema>;
+
+// Work schedule (contracted hours) schemas
+export const workScheduleSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  weekly_hours: z.number(),
+  working_days: z.array(z.number().int()), // ISO weekdays, 1 = Monday ... 7 = Sunday
+  effective_from: z.string(), // YYYY-MM-DD
+  created_at: z.coerce.date()
+});
+
+export type WorkSchedule = z.infer<typeof workScheduleSchema>;
+
+export const createWorkScheduleInputSchema = z.object({
+  user_id: z.number(),
+  weekly_hours: z.number().positive().max(168),
+  working_days: z.array(z.number().int().min(1).max(7)).min(1),
+  effective_from: z.coerce.date()
+});
+
+export type CreateWorkScheduleInput = z.infer<typeof createWorkScheduleInputSchema>;
+
+export const getWorkSchedulesInputSchema = z.object({
+  user_id: z.number()
+});
+
+export type GetWorkSchedulesInput = z.infer<typeof getWorkSchedulesInputSchema>;
+
+// Absence schemas
+export const absenceTypeSchema = z.enum(['vacation', 'sick', 'training', 'other']);
+
+export type AbsenceType = z.infer<typeof absenceTypeSchema>;
+
+export const absenceStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+export type AbsenceStatus = z.infer<typeof absenceStatusSchema>;
+
+export const absenceSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  type: absenceTypeSchema,
+  start_date: z.string(), // YYYY-MM-DD
+  end_date: z.string(), // YYYY-MM-DD
+  half_day: z.boolean(),
+  note: z.string().nullable(),
+  status: absenceStatusSchema,
+  reviewed_by: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  review_comment: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Absence = z.infer<typeof absenceSchema>;
+
+export const requestAbsenceInputSchema = z.object({
+  user_id: z.number(),
+  type: absenceTypeSchema,
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  half_day: z.boolean().default(false),
+  note: z.string().nullable()
+});
+
+export type RequestAbsenceInput = z.infer<typeof requestAbsenceInputSchema>;
+
+export const reviewAbsenceInputSchema = z.object({
+  absence_id: z.number(),
+  reviewer_id: z.number(),
+  comment: z.string().nullable()
+});
+
+export type ReviewAbsenceInput = z.infer<typeof reviewAbsenceInputSchema>;
+
+export const rejectAbsenceInputSchema = reviewAbsenceInputSchema.extend({
+  comment: z.string().min(1)
+});
+
+export type RejectAbsenceInput = z.infer<typeof rejectAbsenceInputSchema>;
+
+export const getAbsencesInputSchema = z.object({
+  user_id: z.number().optional(),
+  status: absenceStatusSchema.optional(),
+  start_date: z.coerce.date().optional(), // Absences overlapping this range
+  end_date: z.coerce.date().optional()
+});
+
+export type GetAbsencesInput = z.infer<typeof getAbsencesInputSchema>;
+
+export const absenceAllowanceSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  year: z.number().int(),
+  type: absenceTypeSchema,
+  days: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type AbsenceAllowance = z.infer<typeof absenceAllowanceSchema>;
+
+export const setAbsenceAllowanceInputSchema = z.object({
+  user_id: z.number(),
+  year: z.number().int().min(2000).max(2100),
+  type: absenceTypeSchema,
+  days: z.number().min(0).multipleOf(0.5)
+});
+
+export type SetAbsenceAllowanceInput = z.infer<typeof setAbsenceAllowanceInputSchema>;
+
+export const absenceBalanceSchema = z.object({
+  type: absenceTypeSchema,
+  allowance_days: z.number().nullable(), // Null when no allowance is set for the type
+  used_days: z.number(), // Approved
+  pending_days: z.number(),
+  remaining_days: z.number().nullable() // Allowance minus used and pending days
+});
+
+export type AbsenceBalance = z.infer<typeof absenceBalanceSchema>;
+
+export const getAbsenceBalancesInputSchema = z.object({
+  user_id: z.number(),
+  year: z.number().int()
+});
+
+export type GetAbsenceBalancesInput = z.infer<typeof getAbsenceBalancesInputSchema>;
+
+// Weekly timesheet schemas - positions as rows, Mon-Sun as columns
+export const weeklyTimesheetInputSchema = z.object({
+  user_id: z.number(),
+  week_start: z.coerce.date() // Any day of the week; normalized to Monday
+});
+
+export type WeeklyTimesheetInput = z.infer<typeof weeklyTimesheetInputSchema>;
+
+export const weeklyTimesheetCellSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  hours: z.number(),
+  time_entry_ids: z.array(z.number())
+});
+
+export type WeeklyTimesheetCell = z.infer<typeof weeklyTimesheetCellSchema>;
+
+export const weeklyTimesheetRowSchema = z.object({
+  position_id: z.number(),
+  position_name: z.string(),
+  project_name: z.string(),
+  client_name: z.string(),
+  cells: z.array(weeklyTimesheetCellSchema).length(7),
+  total_hours: z.number()
+});
+
+export type WeeklyTimesheetRow = z.infer<typeof weeklyTimesheetRowSchema>;
+
+export const weeklyTimesheetSchema = z.object({
+  user_id: z.number(),
+  week_start: z.string(), // YYYY-MM-DD, always a Monday
+  days: z.array(z.string()).length(7),
+  rows: z.array(weeklyTimesheetRowSchema),
+  daily_totals: z.array(z.number()).length(7),
+  total_hours: z.number(),
+  expected_hours: z.array(z.number()).length(7), // Capacity per day after holidays and absences
+  missing_hours: z.number(), // Expected hours not booked, summed over the days
+  absences: z.array(absenceSchema), // Approved absences overlapping the week
+  holidays: z.array(holidaySchema) // Public holidays from the user's calendar
+});
+
+export type WeeklyTimesheet = z.infer<typeof weeklyTimesheetSchema>;
+
+export const saveWeeklyTimesheetInputSchema = z.object({
+  user_id: z.number(),
+  changed_by: z.number(),
+  week_start: z.coerce.date(),
+  rows: z.array(z.object({
+    position_id: z.number(),
+    hours: z.array(z.number().min(0).max(24)).length(7) // Mon-Sun
+  })),
+  billable: z.boolean().default(true) // Used for newly created entries
+});
+
+export type SaveWeeklyTimesheetInput = z.infer<typeof saveWeeklyTimesheetInputSchema>;
+
+// Timesheet approval schemas
+export const timesheetStatusSchema = z.enum(['draft', 'submitted', 'approved', 'rejected']);
+
+export type TimesheetStatus = z.infer<typeof timesheetStatusSchema>;
+
+export const timesheetSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  week_start: z.string(), // YYYY-MM-DD, always a Monday
+  status: timesheetStatusSchema,
+  submitted_at: z.coerce.date().nullable(),
+  reviewed_by: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  review_comment: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Timesheet = z.infer<typeof timesheetSchema>;
+
+export const submitTimesheetInputSchema = z.object({
+  user_id: z.number(),
+  week_start: z.coerce.date() // Any day of the week; normalized to Monday
+});
+
+export type SubmitTimesheetInput = z.infer<typeof submitTimesheetInputSchema>;
+
+export const reviewTimesheetInputSchema = z.object({
+  timesheet_id: z.number(),
+  reviewer_id: z.number(),
+  comment: z.string().nullable()
+});
+
+export type ReviewTimesheetInput = z.infer<typeof reviewTimesheetInputSchema>;
+
+export const rejectTimesheetInputSchema = reviewTimesheetInputSchema.extend({
+  comment: z.string().min(1) // Consultants need to know what to fix
+});
+
+export type RejectTimesheetInput = z.infer<typeof rejectTimesheetInputSchema>;
+
+export const getTimesheetsInputSchema = z.object({
+  user_id: z.number().optional(),
+  week_start: z.coerce.date().optional(), // Any day of the week; normalized to Monday
+  status: timesheetStatusSchema.optional()
+});
+
+export type GetTimesheetsInput = z.infer<typeof getTimesheetsInputSchema>;
+
+// Period lock schemas
+export const periodLockSchema = z.object({
+  id: z.number(),
+  start_date: z.string(), // YYYY-MM-DD
+  end_date: z.string(), // YYYY-MM-DD
+  reason: z.string().nullable(),
+  locked_by: z.number(),
+  locked_at: z.coerce.date(),
+  unlocked_by: z.number().nullable(),
+  unlocked_at: z.coerce.date().nullable(),
+  unlock_reason: z.string().nullable()
+});
+
+export type PeriodLock = z.infer<typeof periodLockSchema>;
+
+export const lockPeriodInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  locked_by: z.number(),
+  reason: z.string().nullable()
+});
+
+export type LockPeriodInput = z.infer<typeof lockPeriodInputSchema>;
+
+export const unlockPeriodInputSchema = z.object({
+  lock_id: z.number(),
+  unlocked_by: z.number(),
+  reason: z.string().min(1) // Reopening an invoiced period must be explained
+});
+
+export type UnlockPeriodInput = z.infer<typeof unlockPeriodInputSchema>;
+
+export const getPeriodLocksInputSchema = z.object({
+  include_unlocked: z.boolean().default(false)
+});
+
+export type GetPeriodLocksInput = z.infer<typeof getPeriodLocksInputSchema>;
+
+// Active timer schema
+export const activeTimerSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  position_id: z.number(),
+  description: z.string().nullable(),
+  billable: z.boolean(),
+  status: z.enum(['running', 'paused']),
+  started_at: z.coerce.date(),
+  segment_started_at: z.coerce.date().nullable(),
+  accumulated_seconds: z.number().int(),
+  elapsed_seconds: z.number().int(), // Computed at read time
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ActiveTimer = z.infer<typeof activeTimerSchema>;
+
+export const startTimerInputSchema = z.object({
+  user_id: z.number(),
+  position_id: z.number(),
+  description: z.string().nullable(),
+  billable: z.boolean().default(true)
+});
+
+export type StartTimerInput = z.infer<typeof startTimerInputSchema>;
+
+export const timerActionInputSchema = z.object({
+  user_id: z.number()
+});
+
+export type TimerActionInput = z.infer<typeof timerActionInputSchema>;
+
+export const stopTimerInputSchema = z.object({
+  user_id: z.number(),
+  rounding_minutes: z.number().int().positive().max(60).default(15) // Elapsed time is rounded up to this increment
+});
+
+export type StopTimerInput = z.infer<typeof stopTimerInputSchema>;
+
+// Client notes schema
+export const clientNoteSchema = z.object({
+  id: z.number(),
+  client_id: z.number(),
+  user_id: z.number(),
+  note: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type ClientNote = z.infer<typeof clientNoteSchema>;
+
+export const createClientNoteInputSchema = z.object({
+  client_id: z.number(),
+  user_id: z.number(),
+  note: z.string()
+});
+
+export type CreateClientNoteInput = z.infer<typeof createClientNoteInputSchema>;
+
+// Activity log schema
+export const activityLogSchema = z.object({
+  id: z.number(),
+  client_id: z.number(),
+  user_id: z.number(),
+  activity_type: z.enum(['call', 'meeting', 'email', 'other']),
+  description: z.string(),
+  activity_date: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+
+export type ActivityLog = z.infer<typeof activityLogSchema>;
+
+export const createActivityLogInputSchema = z.object({
+  client_id: z.number(),
+  user_id: z.number(),
+  activity_type: z.enum(['call', 'meeting', 'email', 'other']),
+  description: z.string(),
+  activity_date: z.coerce.date()
+});
+
+export type CreateActivityLogInput = z.infer<typeof createActivityLogInputSchema>;
+
+// Notification schemas
+export const notificationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  title: z.string(),
+  body: z.string(),
+  budget_alert_id: z.number().nullable(),
+  read_at: z.coerce.date().nullable(), // Null while unread
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export const getNotificationsInputSchema = z.object({
+  user_id: z.number(),
+  unread_only: z.boolean().optional()
+});
+
+export type GetNotificationsInput = z.infer<typeof getNotificationsInputSchema>;
+
+export const markNotificationsReadInputSchema = z.object({
+  user_id: z.number(),
+  notification_ids: z.array(z.number()).optional() // All unread notifications of the user when omitted
+});
+
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadInputSchema>;
+
+export const emailDeliveryResultSchema = z.object({
+  sent: z.number(),
+  failed: z.number() // Retried on the next run until MAX_EMAIL_ATTEMPTS
+});
+
+export type EmailDeliveryResult = z.infer<typeof emailDeliveryResultSchema>;
+
+// Reporting schemas
+export const utilizationReportInputSchema = z.object({
+  user_id: z.number().optional(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  approved_only: z.boolean().optional() // Only count weeks whose timesheet is approved
+});
+
+export type UtilizationReportInput = z.infer<typeof utilizationReportInputSchema>;
+
+export const budgetConsumptionInputSchema = z.object({
+  client_id: z.number().optional(),
+  project_id: z.number().optional(),
+  position_id: z.number().optional()
+});
+
+export type BudgetConsumptionInput = z.infer<typeof budgetConsumptionInputSchema>;
+
+export const budgetForecastInputSchema = z.object({
+  client_id: z.number().optional(),
+  project_id: z.number().optional(), // All budgeted projects when neither is given
+  as_of: z.coerce.date().optional(), // Defaults to today; later bookings are ignored
+  forecast_window_days: z.number().int().positive().default(30) // Trailing window whose burn rate is projected
+});
+
+export type BudgetForecastInput = z.infer<typeof budgetForecastInputSchema>;
+
+export const budgetForecastStatusSchema = z.enum(['on_track', 'at_risk', 'over_budget', 'no_budget']);
+
+export type BudgetForecastStatus = z.infer<typeof budgetForecastStatusSchema>;
+
+export const budgetForecastSchema = z.object({
+  project_id: z.number(),
+  project_name: z.string(),
+  client_name: z.string(),
+  billing_model: billingModelSchema,
+  currency: z.string(), // The client's; all amounts are in it
+  total_budget: z.number().nullable(),
+  start_date: z.string().nullable(), // YYYY-MM-DD
+  end_date: z.string().nullable(), // YYYY-MM-DD
+  as_of: z.string(), // YYYY-MM-DD
+  consumed_amount: z.number(), // Up to as_of; effort cost on fixed-price projects
+  remaining_budget: z.number().nullable(),
+  unpriced_hours: z.number(),
+  burn_rates: z.array(z.object({
+    window_days: z.number(),
+    consumed: z.number(), // Within the trailing window
+    daily_rate: z.number() // Per calendar day of the window the project was running
+  })),
+  forecast_daily_rate: z.number(), // Burn rate of forecast_window_days
+  projected_exhaustion_date: z.string().nullable(), // YYYY-MM-DD; null without budget or burn
+  estimate_at_completion: z.number().nullable(), // Consumed plus the forecast burn until end_date; null without end date
+  variance_at_completion: z.number().nullable(), // Budget minus estimate at completion; negative is an overrun
+  forecast_variance_days: z.number().nullable(), // Projected exhaustion minus end_date; negative runs out early
+  status: budgetForecastStatusSchema,
+  burn_up: z.array(z.object({
+    date: z.string(), // YYYY-MM-DD, weekly up to as_of
+    consumed: z.number() // Cumulative
+  }))
+});
+
+export type BudgetForecast = z.infer<typeof budgetForecastSchema>;
+
+export const bookingDetailsInputSchema = z.object({
+  user_id: z.number(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  approved_only: z.boolean().optional() // Only count weeks whose timesheet is approved
+});
+
+export type BookingDetailsInput = z.infer<typeof bookingDetailsInputSchema>;
+
+export const profitabilityReportInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  client_id: z.number().optional(),
+  project_id: z.number().optional()
+});
+
+export type ProfitabilityReportInput = z.infer<typeof profitabilityReportInputSchema>;
+
+// Revenue is billable hours at bill rates, cost is all hours at cost rates
+export const profitabilityFiguresSchema = z.object({
+  hours: z.number(),
+  billable_hours: z.number(),
+  revenue: z.number(),
+  cost: z.number(),
+  gross_margin: z.number(), // revenue - cost
+  margin_percent: z.number().nullable(), // Null without revenue
+  unpriced_hours: z.number(), // Billable hours no bill rate applies to, left out of revenue
+  unconverted_hours: z.number(), // Priced billable hours without an exchange rate, left out of revenue
+  uncosted_hours: z.number() // Hours no cost rate applies to, left out of cost
+});
+
+export type ProfitabilityFigures = z.infer<typeof profitabilityFiguresSchema>;
+
+export const projectProfitabilitySchema = profitabilityFiguresSchema.extend({
+  project_id: z.number(),
+  project_name: z.string(),
+  client_id: z.number(),
+  currency: z.string(), // The client's
+  original_revenue: z.number(), // Revenue in the client's currency, unconverted hours included
+  positions: z.array(profitabilityFiguresSchema.extend({ position_id: z.number(), position_name: z.string() })),
+  consultants: z.array(profitabilityFiguresSchema.extend({ user_id: z.number(), user_name: z.string() }))
+});
+
+export type ProjectProfitability = z.infer<typeof projectProfitabilitySchema>;
+
+export const clientProfitabilitySchema = profitabilityFiguresSchema.extend({
+  client_id: z.number(),
+  client_name: z.string(),
+  currency: z.string(),
+  original_revenue: z.number(),
+  projects: z.array(projectProfitabilitySchema)
+});
+
+export type ClientProfitability = z.infer<typeof clientProfitabilitySchema>;
+
+export const profitabilityReportSchema = z.object({
+  start_date: z.string(), // YYYY-MM-DD
+  end_date: z.string(), // YYYY-MM-DD
+  reporting_currency: z.string(), // Revenue, cost and margin figures are in it
+  totals: profitabilityFiguresSchema,
+  clients: z.array(clientProfitabilitySchema)
+});
+
+export type ProfitabilityReport = z.infer<typeof profitabilityReportSchema>;
+
+export const plannedVsActualReportInputSchema = z.object({
+  start_date: z.coerce.date(), // Widened to whole weeks, since allocations are weekly
+  end_date: z.coerce.date(),
+  user_id: z.number().optional(),
+  project_id: z.number().optional()
+});
+
+export type PlannedVsActualReportInput = z.infer<typeof plannedVsActualReportInputSchema>;
+
+export const plannedVsActualFiguresSchema = z.object({
+  planned_hours: z.number(),
+  actual_hours: z.number(), // All booked hours, billable or not
+  variance_hours: z.number(), // actual - planned; negative is under plan
+  variance_percent: z.number().nullable() // Of planned hours; null without a plan
+});
+
+export type PlannedVsActualFigures = z.infer<typeof plannedVsActualFiguresSchema>;
+
+export const plannedVsActualPersonSchema = plannedVsActualFiguresSchema.extend({
+  user_id: z.number(),
+  user_name: z.string(),
+  projects: z.array(plannedVsActualFiguresSchema.extend({ project_id: z.number(), project_name: z.string(), client_name: z.string() }))
+});
+
+export type PlannedVsActualPerson = z.infer<typeof plannedVsActualPersonSchema>;
+
+export const plannedVsActualProjectSchema = plannedVsActualFiguresSchema.extend({
+  project_id: z.number(),
+  project_name: z.string(),
+  client_name: z.string(),
+  people: z.array(plannedVsActualFiguresSchema.extend({ user_id: z.number(), user_name: z.string() }))
+});
+
+export type PlannedVsActualProject = z.infer<typeof plannedVsActualProjectSchema>;
+
+export const plannedVsActualReportSchema = z.object({
+  start_date: z.string(), // YYYY-MM-DD, a Monday
+  end_date: z.string(), // YYYY-MM-DD, a Sunday
+  totals: plannedVsActualFiguresSchema,
+  people: z.array(plannedVsActualPersonSchema),
+  projects: z.array(plannedVsActualProjectSchema)
+});
+
+export type PlannedVsActualReport = z.infer<typeof plannedVsActualReportSchema>;
+
+export const benchReportInputSchema = z.object({
+  start_date: z.coerce.date().optional(), // Defaults to today; normalized to Monday
+  weeks: z.number().int().min(1).max(26).default(4),
+  threshold_percent: z.number().min(0).max(100).default(50) // Consultants planned or booked below this share of capacity
+});
+
+export type BenchReportInput = z.infer<typeof benchReportInputSchema>;
+
+export const benchReportRowSchema = z.object({
+  user_id: z.number(),
+  user_name: z.string(),
+  capacity_hours: z.number(),
+  planned_hours: z.number(),
+  booked_hours: z.number(),
+  free_hours: z.number(), // Capacity minus the larger of planned and booked hours, week by week
+  utilization_percent: z.number(), // Of capacity; the larger of planned and booked hours per week
+  weeks: z.array(z.object({
+    week_start: z.string(), // YYYY-MM-DD
+    capacity_hours: z.number(),
+    planned_hours: z.number(),
+    booked_hours: z.number()
+  })),
+  skills: z.array(z.object({ skill_name: z.string(), level: skillLevelSchema }))
+});
+
+export type BenchReportRow = z.infer<typeof benchReportRowSchema>;
+
+export const benchReportSchema = z.object({
+  weeks: z.array(z.string()), // YYYY-MM-DD Mondays
+  threshold_percent: z.number(),
+  rows: z.array(benchReportRowSchema) // Most free hours first
 });
 
-export type BookingDetailsInput = z.infer<typeof bookingDetailsInputSchema>;
\ No newline at end of file
+export type BenchReport = z.infer<typeof benchReportSchema>;
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { addHoliday } from '../handlers/add_holiday';
+
+describe('addHoliday', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add a holiday to a calendar', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria', region: 'DE-BY' })
+      .returning()
+      .execute();
+
+    const result = await addHoliday({ calendar_id: calendar[0].id, date: new Date('2024-10-03'), name: 'Tag der Deutschen Einheit' });
+
+    expect(result.id).toBeDefined();
+    expect(result.calendar_id).toEqual(calendar[0].id);
+    expect(result.date).toEqual('2024-10-03');
+    expect(result.name).toEqual('Tag der Deutschen Einheit');
+
+    const saved = await db.select().from(holidaysTable).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should reject a second holiday on the same date', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    await addHoliday({ calendar_id: calendar[0].id, date: new Date('2024-10-03'), name: 'Tag der Deutschen Einheit' });
+
+    await expect(addHoliday({ calendar_id: calendar[0].id, date: new Date('2024-10-03'), name: 'Duplicate' }))
+      .rejects.toThrow(/already has a holiday on 2024-10-03/i);
+  });
+
+  it('should throw error for non-existent calendar', async () => {
+    await expect(addHoliday({ calendar_id: 999, date: new Date('2024-10-03'), name: 'Holiday' }))
+      .rejects.toThrow(/Holiday calendar with ID 999 does not exist/i);
+  });
+});
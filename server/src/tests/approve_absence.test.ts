@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { absencesTable, usersTable } from '../db/schema';
+import { approveAbsence } from '../handlers/approve_absence';
+import { eq } from 'drizzle-orm';
+
+// Creates a consultant with a pending absence and a project manager to review it
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'consultant@example.com', name: 'Consultant', role: 'consultant' },
+      { email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' },
+      { email: 'other@example.com', name: 'Other Consultant', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const absenceResult = await db.insert(absencesTable)
+    .values({ user_id: userResult[0].id, type: 'vacation', start_date: '2024-07-01', end_date: '2024-07-05' })
+    .returning()
+    .execute();
+
+  return {
+    consultant: userResult[0],
+    manager: userResult[1],
+    otherConsultant: userResult[2],
+    absence: absenceResult[0]
+  };
+};
+
+describe('approveAbsence', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should approve a pending absence', async () => {
+    const { manager, absence } = await createTestData();
+
+    const result = await approveAbsence({ absence_id: absence.id, reviewer_id: manager.id, comment: 'Enjoy' });
+
+    expect(result.status).toEqual('approved');
+    expect(result.reviewed_by).toEqual(manager.id);
+    expect(result.reviewed_at).toBeInstanceOf(Date);
+    expect(result.review_comment).toEqual('Enjoy');
+
+    const saved = await db.select()
+      .from(absencesTable)
+      .where(eq(absencesTable.id, absence.id))
+      .execute();
+    expect(saved[0].status).toEqual('approved');
+  });
+
+  it('should not let consultants approve', async () => {
+    const { otherConsultant, absence } = await createTestData();
+
+    await expect(approveAbsence({ absence_id: absence.id, reviewer_id: otherConsultant.id, comment: null }))
+      .rejects.toThrow(/only project managers and administrators/i);
+  });
+
+  it('should not let managers approve their own absence', async () => {
+    const { manager } = await createTestData();
+
+    const ownResult = await db.insert(absencesTable)
+      .values({ user_id: manager.id, type: 'training', start_date: '2024-08-01', end_date: '2024-08-01' })
+      .returning()
+      .execute();
+
+    await expect(approveAbsence({ absence_id: ownResult[0].id, reviewer_id: manager.id, comment: null }))
+      .rejects.toThrow(/cannot be reviewed by the person taking them/i);
+  });
+
+  it('should only approve pending absences', async () => {
+    const { manager, absence } = await createTestData();
+
+    await approveAbsence({ absence_id: absence.id, reviewer_id: manager.id, comment: null });
+
+    await expect(approveAbsence({ absence_id: absence.id, reviewer_id: manager.id, comment: null }))
+      .rejects.toThrow(/is approved, not pending/i);
+  });
+
+  it('should throw error for non-existent absence', async () => {
+    const { manager } = await createTestData();
+
+    await expect(approveAbsence({ absence_id: 999, reviewer_id: manager.id, comment: null }))
+      .rejects.toThrow(/Absence with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetAmendmentsTable, clientsTable, positionsTable, projectsTable, usersTable } from '../db/schema';
+import { approveBudgetAmendment } from '../handlers/approve_budget_amendment';
+import { eq } from 'drizzle-orm';
+
+// Creates a budgeted project and position, a manager requesting changes and an administrator
+const createTestData = async () => {
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' },
+      { email: 'admin@example.com', name: 'Administrator', role: 'administrator' }
+    ])
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Portal', budget: '10000.00' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development', budget: '4000.00' })
+    .returning()
+    .execute();
+
+  const amendment = await db.insert(budgetAmendmentsTable)
+    .values({ project_id: project[0].id, delta: '2500.00', reason: 'Reporting module', requested_by: users[0].id })
+    .returning()
+    .execute();
+
+  return { manager: users[0], admin: users[1], project: project[0], position: position[0], amendment: amendment[0] };
+};
+
+describe('approveBudgetAmendment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add the delta to the project budget', async () => {
+    const { admin, project, amendment } = await createTestData();
+
+    const result = await approveBudgetAmendment({ amendment_id: amendment.id, reviewer_id: admin.id, comment: 'Agreed with the client' });
+
+    expect(result.status).toEqual('approved');
+    expect(result.reviewed_by).toEqual(admin.id);
+    expect(result.reviewed_at).toBeInstanceOf(Date);
+    expect(result.review_comment).toEqual('Agreed with the client');
+    expect(result.budget_before).toEqual(10000);
+
+    const updated = await db.select().from(projectsTable).where(eq(projectsTable.id, project.id)).execute();
+    expect(parseFloat(updated[0].budget!)).toEqual(12500);
+  });
+
+  it('should reduce position budgets and give budgets to positions without one', async () => {
+    const { manager, admin, project, position } = await createTestData();
+
+    const unbudgeted = await db.insert(positionsTable)
+      .values({ project_id: project.id, name: 'Design' })
+      .returning()
+      .execute();
+
+    const amendments = await db.insert(budgetAmendmentsTable)
+      .values([
+        { position_id: position.id, delta: '-1500.00', reason: 'Descoped import', requested_by: manager.id },
+        { position_id: unbudgeted[0].id, delta: '800.00', reason: 'Design review', requested_by: manager.id }
+      ])
+      .returning()
+      .execute();
+
+    await approveBudgetAmendment({ amendment_id: amendments[0].id, reviewer_id: admin.id, comment: null });
+    const second = await approveBudgetAmendment({ amendment_id: amendments[1].id, reviewer_id: admin.id, comment: null });
+
+    expect(second.budget_before).toBeNull();
+
+    const positions = await db.select().from(positionsTable).execute();
+    expect(parseFloat(positions.find(item => item.id === position.id)!.budget!)).toEqual(2500);
+    expect(parseFloat(positions.find(item => item.id === unbudgeted[0].id)!.budget!)).toEqual(800);
+  });
+
+  it('should not leave a budget at or below zero', async () => {
+    const { manager, admin, project } = await createTestData();
+
+    const amendment = await db.insert(budgetAmendmentsTable)
+      .values({ project_id: project.id, delta: '-10000.00', reason: 'Cancelled', requested_by: manager.id })
+      .returning()
+      .execute();
+
+    await expect(approveBudgetAmendment({ amendment_id: amendment[0].id, reviewer_id: admin.id, comment: null }))
+      .rejects.toThrow(/would leave a budget of 0.00/i);
+
+    // Neither the budget nor the request changed
+    const unchanged = await db.select().from(projectsTable).where(eq(projectsTable.id, project.id)).execute();
+    expect(unchanged[0].budget).toEqual('10000.00');
+    const pending = await db.select().from(budgetAmendmentsTable).where(eq(budgetAmendmentsTable.id, amendment[0].id)).execute();
+    expect(pending[0].status).toEqual('pending');
+  });
+
+  it('should only let administrators approve', async () => {
+    const { manager, amendment } = await createTestData();
+
+    await expect(approveBudgetAmendment({ amendment_id: amendment.id, reviewer_id: manager.id, comment: null }))
+      .rejects.toThrow(/only administrators can review budget amendments/i);
+  });
+
+  it('should not let administrators approve their own request', async () => {
+    const { admin, project } = await createTestData();
+
+    const own = await db.insert(budgetAmendmentsTable)
+      .values({ project_id: project.id, delta: '500.00', reason: 'Own request', requested_by: admin.id })
+      .returning()
+      .execute();
+
+    await expect(approveBudgetAmendment({ amendment_id: own[0].id, reviewer_id: admin.id, comment: null }))
+      .rejects.toThrow(/cannot be reviewed by the person requesting them/i);
+  });
+
+  it('should only approve pending amendments', async () => {
+    const { admin, project, amendment } = await createTestData();
+
+    await approveBudgetAmendment({ amendment_id: amendment.id, reviewer_id: admin.id, comment: null });
+
+    await expect(approveBudgetAmendment({ amendment_id: amendment.id, reviewer_id: admin.id, comment: null }))
+      .rejects.toThrow(/is approved, not pending/i);
+
+    // Applied once
+    const updated = await db.select().from(projectsTable).where(eq(projectsTable.id, project.id)).execute();
+    expect(parseFloat(updated[0].budget!)).toEqual(12500);
+  });
+
+  it('should reject unknown amendments and reviewers', async () => {
+    const { admin, amendment } = await createTestData();
+
+    await expect(approveBudgetAmendment({ amendment_id: 999, reviewer_id: admin.id, comment: null }))
+      .rejects.toThrow(/budget amendment with id 999 does not exist/i);
+    await expect(approveBudgetAmendment({ amendment_id: amendment.id, reviewer_id: 999, comment: null }))
+      .rejects.toThrow(/user with id 999 does not exist/i);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timesheetsTable, usersTable } from '../db/schema';
+import { approveTimesheet } from '../handlers/approve_timesheet';
+import { eq } from 'drizzle-orm';
+
+// Creates a consultant with a submitted week and a project manager to review it
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'consultant@example.com', name: 'Consultant', role: 'consultant' },
+      { email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' },
+      { email: 'other@example.com', name: 'Other Consultant', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const timesheetResult = await db.insert(timesheetsTable)
+    .values({
+      user_id: userResult[0].id,
+      week_start: '2024-01-15',
+      status: 'submitted',
+      submitted_at: new Date()
+    })
+    .returning()
+    .execute();
+
+  return {
+    consultant: userResult[0],
+    manager: userResult[1],
+    otherConsultant: userResult[2],
+    timesheet: timesheetResult[0]
+  };
+};
+
+describe('approveTimesheet', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should approve a submitted timesheet', async () => {
+    const { manager, timesheet } = await createTestData();
+
+    const result = await approveTimesheet({
+      timesheet_id: timesheet.id,
+      reviewer_id: manager.id,
+      comment: null
+    });
+
+    expect(result.status).toEqual('approved');
+    expect(result.reviewed_by).toEqual(manager.id);
+    expect(result.reviewed_at).toBeInstanceOf(Date);
+
+    const saved = await db.select()
+      .from(timesheetsTable)
+      .where(eq(timesheetsTable.id, timesheet.id))
+      .execute();
+    expect(saved[0].status).toEqual('approved');
+  });
+
+  it('should not let consultants approve', async () => {
+    const { otherConsultant, timesheet } = await createTestData();
+
+    await expect(approveTimesheet({
+      timesheet_id: timesheet.id,
+      reviewer_id: otherConsultant.id,
+      comment: null
+    })).rejects.toThrow(/only project managers and administrators/i);
+  });
+
+  it('should not let owners approve their own week', async () => {
+    const { manager } = await createTestData();
+
+    const ownResult = await db.insert(timesheetsTable)
+      .values({ user_id: manager.id, week_start: '2024-01-15', status: 'submitted' })
+      .returning()
+      .execute();
+
+    await expect(approveTimesheet({
+      timesheet_id: ownResult[0].id,
+      reviewer_id: manager.id,
+      comment: null
+    })).rejects.toThrow(/cannot be reviewed by their owner/i);
+  });
+
+  it('should only approve submitted timesheets', async () => {
+    const { manager, timesheet } = await createTestData();
+
+    await approveTimesheet({ timesheet_id: timesheet.id, reviewer_id: manager.id, comment: null });
+
+    await expect(approveTimesheet({
+      timesheet_id: timesheet.id,
+      reviewer_id: manager.id,
+      comment: null
+    })).rejects.toThrow(/is approved, not submitted/i);
+  });
+
+  it('should throw error when timesheet does not exist', async () => {
+    const { manager } = await createTestData();
+
+    await expect(approveTimesheet({
+      timesheet_id: 9999,
+      reviewer_id: manager.id,
+      comment: null
+    })).rejects.toThrow(/timesheet with id 9999 does not exist/i);
+  });
+});
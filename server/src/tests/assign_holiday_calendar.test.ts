@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable, usersTable } from '../db/schema';
+import { assignHolidayCalendar } from '../handlers/assign_holiday_calendar';
+import { eq } from 'drizzle-orm';
+
+describe('assignHolidayCalendar', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should assign and remove a user\'s holiday calendar', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant', hourly_rate: '90.00' })
+      .returning()
+      .execute();
+
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    const assigned = await assignHolidayCalendar({ user_id: user[0].id, holiday_calendar_id: calendar[0].id });
+    expect(assigned.holiday_calendar_id).toEqual(calendar[0].id);
+    expect(assigned.hourly_rate).toEqual(90);
+
+    const saved = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user[0].id))
+      .execute();
+    expect(saved[0].holiday_calendar_id).toEqual(calendar[0].id);
+
+    const removed = await assignHolidayCalendar({ user_id: user[0].id, holiday_calendar_id: null });
+    expect(removed.holiday_calendar_id).toBeNull();
+  });
+
+  it('should throw error for non-existent calendar or user', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+
+    await expect(assignHolidayCalendar({ user_id: user[0].id, holiday_calendar_id: 999 }))
+      .rejects.toThrow(/Holiday calendar with ID 999 does not exist/i);
+
+    await expect(assignHolidayCalendar({ user_id: 999, holiday_calendar_id: null }))
+      .rejects.toThrow(/User with ID 999 does not exist/i);
+  });
+});
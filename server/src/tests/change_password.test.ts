@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { changePassword } from '../handlers/change_password';
+import { login } from '../handlers/login';
+import { hashPassword } from '../helpers/auth';
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUser = async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'alice@example.com', name: 'Alice', role: 'consultant', password_hash: await hashPassword('correct horse') })
+      .returning()
+      .execute();
+    return user[0];
+  };
+
+  it('should replace the password', async () => {
+    const user = await createUser();
+
+    const result = await changePassword({ user_id: user.id, current_password: 'correct horse', new_password: 'battery staple' });
+
+    expect(result.id).toEqual(user.id);
+    expect(result).not.toHaveProperty('password_hash');
+    await expect(login({ email: 'alice@example.com', password: 'correct horse' })).rejects.toThrow(/invalid email or password/i);
+    expect((await login({ email: 'alice@example.com', password: 'battery staple' })).user.id).toEqual(user.id);
+  });
+
+  it('should require the current password', async () => {
+    const user = await createUser();
+
+    await expect(changePassword({ user_id: user.id, current_password: 'wrong horse', new_password: 'battery staple' }))
+      .rejects.toThrow(/current password is not correct/i);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(changePassword({ user_id: 999, current_password: 'correct horse', new_password: 'battery staple' }))
+      .rejects.toThrow(/User with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  budgetAlertsTable,
+  budgetThresholdsTable,
+  clientsTable,
+  emailOutboxTable,
+  notificationsTable,
+  projectsTable,
+  positionsTable,
+  timeEntriesTable,
+  usersTable
+} from '../db/schema';
+import { checkBudgetThresholds } from '../handlers/check_budget_thresholds';
+import { asc, eq } from 'drizzle-orm';
+
+const createTestData = async () => {
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'pm@example.com', name: 'Pat Manager', role: 'project_manager' },
+      { email: 'consultant@example.com', name: 'Carl Consultant', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Website', budget: '4000.00' })
+    .returning()
+    .execute();
+
+  // 100/h against a budget of 1,000
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development', budget: '1000.00', hourly_rate: '100.00' })
+    .returning()
+    .execute();
+
+  return { manager: users[0], consultant: users[1], project: project[0], position: position[0] };
+};
+
+const book = async (userId: number, positionId: number, hours: string) => {
+  const result = await db.insert(timeEntriesTable)
+    .values({ user_id: userId, position_id: positionId, hours, date: '2024-03-04', description: null })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('checkBudgetThresholds', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should alert once per threshold crossing', async () => {
+    const { manager, consultant, position } = await createTestData();
+    await db.insert(budgetThresholdsTable)
+      .values([50, 80, 100].map(percent => ({ position_id: position.id, percent, notify_user_id: manager.id })))
+      .execute();
+
+    const first = await book(consultant.id, position.id, '6.00');
+    const alerts = await checkBudgetThresholds({ position_id: position.id, time_entry_id: first.id });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].time_entry_id).toEqual(first.id);
+    expect(alerts[0].consumption_rate).toEqual(60);
+    expect(alerts[0].consumed_amount).toEqual(600);
+    expect(alerts[0].total_budget).toEqual(1000);
+
+    // Still above 50% and below 80%: nothing new
+    const again = await checkBudgetThresholds({ position_id: position.id, time_entry_id: null });
+    expect(again).toHaveLength(0);
+
+    // One booking can cross several thresholds at once
+    const second = await book(consultant.id, position.id, '5.00');
+    const crossed = await checkBudgetThresholds({ position_id: position.id, time_entry_id: second.id });
+    expect(crossed).toHaveLength(2);
+
+    const thresholds = await db.select().from(budgetThresholdsTable).orderBy(asc(budgetThresholdsTable.percent)).execute();
+    expect(thresholds.every(threshold => threshold.triggered_at !== null)).toBe(true);
+    expect(await db.select().from(budgetAlertsTable).execute()).toHaveLength(3);
+  });
+
+  it('should notify and email the manager who configured the threshold', async () => {
+    const { manager, consultant, position } = await createTestData();
+    await db.insert(budgetThresholdsTable)
+      .values({ position_id: position.id, percent: 80, notify_user_id: manager.id })
+      .execute();
+
+    const entry = await book(consultant.id, position.id, '8.00');
+    const [alert] = await checkBudgetThresholds({ position_id: position.id, time_entry_id: entry.id });
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].user_id).toEqual(manager.id);
+    expect(notifications[0].budget_alert_id).toEqual(alert.id);
+    expect(notifications[0].title).toEqual('Position "Development" on project "Website" reached 80% of its budget');
+    expect(notifications[0].body).toContain('USD 800.00 of its USD 1000.00 budget (80.0%)');
+    expect(notifications[0].read_at).toBeNull();
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to_address).toEqual('pm@example.com');
+    expect(emails[0].subject).toStartWith('Budget alert: ');
+    expect(emails[0].body).toContain('Hello Pat Manager');
+    expect(emails[0].status).toEqual('pending');
+  });
+
+  it('should re-arm a threshold once consumption drops below it', async () => {
+    const { manager, consultant, position } = await createTestData();
+    await db.insert(budgetThresholdsTable)
+      .values({ position_id: position.id, percent: 50, notify_user_id: manager.id })
+      .execute();
+
+    const entry = await book(consultant.id, position.id, '5.00');
+    expect(await checkBudgetThresholds({ position_id: position.id, time_entry_id: entry.id })).toHaveLength(1);
+
+    await db.update(timeEntriesTable)
+      .set({ hours: '2.00' })
+      .where(eq(timeEntriesTable.id, entry.id))
+      .execute();
+    expect(await checkBudgetThresholds({ position_id: position.id, time_entry_id: null })).toHaveLength(0);
+
+    const [threshold] = await db.select().from(budgetThresholdsTable).execute();
+    expect(threshold.triggered_at).toBeNull();
+
+    const next = await book(consultant.id, position.id, '4.00');
+    expect(await checkBudgetThresholds({ position_id: position.id, time_entry_id: next.id })).toHaveLength(1);
+    expect(await db.select().from(budgetAlertsTable).execute()).toHaveLength(2);
+  });
+
+  it('should check the thresholds of the position\'s project', async () => {
+    const { manager, consultant, project, position } = await createTestData();
+    await db.insert(budgetThresholdsTable)
+      .values({ project_id: project.id, percent: 25, notify_user_id: manager.id })
+      .execute();
+
+    const entry = await book(consultant.id, position.id, '10.00');
+    const alerts = await checkBudgetThresholds({ position_id: position.id, time_entry_id: entry.id });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].total_budget).toEqual(4000);
+
+    const [notification] = await db.select().from(notificationsTable).execute();
+    expect(notification.title).toEqual('Project "Website" reached 25% of its budget');
+  });
+
+  it('should reject a position that does not exist', async () => {
+    await expect(checkBudgetThresholds({ position_id: 999, time_entry_id: null }))
+      .rejects.toThrow(/position with id 999 does not exist/i);
+  });
+});
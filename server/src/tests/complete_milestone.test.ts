@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable } from '../db/schema';
+import { completeMilestone } from '../handlers/complete_milestone';
+
+const createMilestone = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' })
+    .returning()
+    .execute();
+
+  const milestone = await db.insert(milestonesTable)
+    .values({ project_id: project[0].id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31' })
+    .returning()
+    .execute();
+
+  return milestone[0];
+};
+
+describe('completeMilestone', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should set the completion date', async () => {
+    const milestone = await createMilestone();
+
+    const result = await completeMilestone({ milestone_id: milestone.id, completed_on: new Date('2024-02-03') });
+
+    expect(result.completed_on).toEqual('2024-02-03');
+    expect(result.amount).toEqual(2000);
+  });
+
+  it('should not complete a milestone twice', async () => {
+    const milestone = await createMilestone();
+
+    await completeMilestone({ milestone_id: milestone.id, completed_on: new Date('2024-02-03') });
+
+    await expect(completeMilestone({ milestone_id: milestone.id, completed_on: new Date('2024-02-10') }))
+      .rejects.toThrow(/already completed on 2024-02-03/i);
+  });
+
+  it('should throw error for non-existent milestone', async () => {
+    await expect(completeMilestone({ milestone_id: 999, completed_on: new Date('2024-02-03') }))
+      .rejects.toThrow(/Milestone with ID 999 does not exist/i);
+  });
+});
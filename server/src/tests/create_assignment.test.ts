@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assignmentsTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { type CreateAssignmentInput } from '../schema';
+import { createAssignment } from '../handlers/create_assignment';
+
+// Creates a user and a client/project/position chain to assign
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('createAssignment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an assignment with names', async () => {
+    const { user, position } = await createTestData();
+
+    const input: CreateAssignmentInput = {
+      user_id: user.id,
+      position_id: position.id,
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-03-31'),
+      planned_hours: 120.5
+    };
+
+    const result = await createAssignment(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.user_name).toEqual('Test Consultant');
+    expect(result.position_name).toEqual('Development');
+    expect(result.project_name).toEqual('Test Project');
+    expect(result.client_name).toEqual('Test Client');
+    expect(result.start_date).toEqual('2024-01-01');
+    expect(result.end_date).toEqual('2024-03-31');
+    expect(result.planned_hours).toEqual(120.5);
+    expect(typeof result.planned_hours).toBe('number');
+
+    const saved = await db.select().from(assignmentsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].planned_hours).toEqual('120.50');
+  });
+
+  it('should create an open-ended assignment', async () => {
+    const { user, position } = await createTestData();
+
+    const result = await createAssignment({
+      user_id: user.id,
+      position_id: position.id,
+      start_date: null,
+      end_date: null,
+      planned_hours: null
+    });
+
+    expect(result.start_date).toBeNull();
+    expect(result.end_date).toBeNull();
+    expect(result.planned_hours).toBeNull();
+  });
+
+  it('should reject overlapping assignments to the same position', async () => {
+    const { user, position } = await createTestData();
+
+    await createAssignment({
+      user_id: user.id,
+      position_id: position.id,
+      start_date: new Date('2024-01-01'),
+      end_date: null,
+      planned_hours: null
+    });
+
+    await expect(createAssignment({
+      user_id: user.id,
+      position_id: position.id,
+      start_date: new Date('2023-06-01'),
+      end_date: new Date('2024-01-01'),
+      planned_hours: null
+    })).rejects.toThrow(/already assigned to position/i);
+
+    // The day before the open-ended assignment starts is free
+    const earlier = await createAssignment({
+      user_id: user.id,
+      position_id: position.id,
+      start_date: new Date('2023-06-01'),
+      end_date: new Date('2023-12-31'),
+      planned_hours: null
+    });
+    expect(earlier.end_date).toEqual('2023-12-31');
+  });
+
+  it('should reject an end date before the start date', async () => {
+    const { user, position } = await createTestData();
+
+    await expect(createAssignment({
+      user_id: user.id,
+      position_id: position.id,
+      start_date: new Date('2024-02-01'),
+      end_date: new Date('2024-01-31'),
+      planned_hours: null
+    })).rejects.toThrow(/end date must not be before start date/i);
+  });
+
+  it('should throw error when user or position does not exist', async () => {
+    const { user, position } = await createTestData();
+
+    await expect(createAssignment({
+      user_id: 9999,
+      position_id: position.id,
+      start_date: null,
+      end_date: null,
+      planned_hours: null
+    })).rejects.toThrow(/user with id 9999 does not exist/i);
+
+    await expect(createAssignment({
+      user_id: user.id,
+      position_id: 9999,
+      start_date: null,
+      end_date: null,
+      planned_hours: null
+    })).rejects.toThrow(/position with id 9999 does not exist/i);
+  });
+});
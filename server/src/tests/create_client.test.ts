@@ -112,4 +112,12 @@ describe('createClient', () => {
     expect(clients[0].address).toEqual('');
     expect(clients[0].industry).toEqual('');
   });
+
+  it('should bill in the reporting currency unless told otherwise', async () => {
+    const defaulted = await createClient(testInputMinimal);
+    expect(defaulted.currency).toEqual('USD');
+
+    const euro = await createClient({ ...testInputComplete, currency: 'EUR' });
+    expect(euro.currency).toEqual('EUR');
+  });
 });
\ No newline at end of file
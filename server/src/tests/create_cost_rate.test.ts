@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, costRatesTable } from '../db/schema';
+import { createCostRate } from '../handlers/create_cost_rate';
+
+const createUser = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant', hourly_rate: '120.00' })
+    .returning()
+    .execute();
+
+  return user[0];
+};
+
+describe('createCostRate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a cost rate', async () => {
+    const user = await createUser();
+
+    const result = await createCostRate({
+      user_id: user.id,
+      hourly_cost: 62.5,
+      valid_from: new Date('2024-01-01'),
+      valid_to: null
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.user_id).toEqual(user.id);
+    expect(result.hourly_cost).toEqual(62.5);
+    expect(typeof result.hourly_cost).toBe('number');
+    expect(result.valid_from).toEqual('2024-01-01');
+    expect(result.valid_to).toBeNull();
+
+    const saved = await db.select().from(costRatesTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].hourly_cost).toEqual('62.50');
+
+    // The bill rate on the user is left alone
+    const users = await db.select().from(usersTable).execute();
+    expect(users[0].hourly_rate).toEqual('120.00');
+  });
+
+  it('should reject overlapping cost rates of the same user', async () => {
+    const user = await createUser();
+
+    await createCostRate({ user_id: user.id, hourly_cost: 60, valid_from: new Date('2024-01-01'), valid_to: new Date('2024-06-30') });
+
+    await expect(createCostRate({ user_id: user.id, hourly_cost: 65, valid_from: new Date('2024-06-01'), valid_to: null }))
+      .rejects.toThrow(/overlaps an existing cost rate valid from 2024-01-01 to 2024-06-30/i);
+
+    const next = await createCostRate({ user_id: user.id, hourly_cost: 65, valid_from: new Date('2024-07-01'), valid_to: null });
+    expect(next.hourly_cost).toEqual(65);
+  });
+
+  it('should reject an inverted validity period', async () => {
+    const user = await createUser();
+
+    await expect(createCostRate({ user_id: user.id, hourly_cost: 60, valid_from: new Date('2024-06-01'), valid_to: new Date('2024-05-31') }))
+      .rejects.toThrow(/must not be before valid-from/i);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(createCostRate({ user_id: 999, hourly_cost: 60, valid_from: new Date('2024-01-01'), valid_to: null }))
+      .rejects.toThrow(/User with ID 999 does not exist/i);
+  });
+});
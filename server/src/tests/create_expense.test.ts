@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, periodLocksTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { type CreateExpenseInput } from '../schema';
+import { createExpense } from '../handlers/create_expense';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Test Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return { user: user[0], position: position[0] };
+};
+
+const expenseInput = (userId: number, positionId: number): CreateExpenseInput => ({
+  user_id: userId,
+  position_id: positionId,
+  date: new Date('2024-01-15'),
+  amount: 189.9,
+  currency: 'USD',
+  category: 'accommodation',
+  description: 'Hotel near client office',
+  billable: true,
+  reimbursable: true,
+  receipt: null
+});
+
+describe('createExpense', () => {
+  let receiptsDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    receiptsDir = await mkdtemp(join(tmpdir(), 'receipts-'));
+    process.env['RECEIPTS_DIR'] = receiptsDir;
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(receiptsDir, { recursive: true, force: true });
+    delete process.env['RECEIPTS_DIR'];
+  });
+
+  it('should create an expense', async () => {
+    const { user, position } = await createTestData();
+
+    const result = await createExpense(expenseInput(user.id, position.id));
+
+    expect(result.id).toBeDefined();
+    expect(result.amount).toEqual(189.9);
+    expect(typeof result.amount).toBe('number');
+    expect(result.date).toEqual(new Date('2024-01-15'));
+    expect(result.category).toEqual('accommodation');
+    expect(result.billable).toBe(true);
+    expect(result.reimbursable).toBe(true);
+    expect(result.receipt_filename).toBeNull();
+    expect(result.invoice_id).toBeNull();
+
+    const saved = await db.select().from(expensesTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].amount).toEqual('189.90');
+    expect(saved[0].date).toEqual('2024-01-15');
+  });
+
+  it('should store the receipt on disk', async () => {
+    const { user, position } = await createTestData();
+
+    const result = await createExpense({
+      ...expenseInput(user.id, position.id),
+      receipt: { filename: 'hotel.pdf', content_base64: Buffer.from('%PDF-1.4 receipt').toString('base64') }
+    });
+
+    expect(result.receipt_filename).toEqual('hotel.pdf');
+
+    const saved = await db.select().from(expensesTable).execute();
+    expect(saved[0].receipt_path).toMatch(new RegExp(`^${result.id}-.+\\.pdf$`));
+
+    const files = await readdir(receiptsDir);
+    expect(files).toEqual([saved[0].receipt_path!]);
+    expect((await readFile(join(receiptsDir, files[0]))).toString()).toEqual('%PDF-1.4 receipt');
+  });
+
+  it('should reject unsupported receipt files without creating the expense', async () => {
+    const { user, position } = await createTestData();
+
+    await expect(createExpense({
+      ...expenseInput(user.id, position.id),
+      receipt: { filename: 'receipt.exe', content_base64: Buffer.from('MZ').toString('base64') }
+    })).rejects.toThrow(/must be one of/i);
+
+    const saved = await db.select().from(expensesTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should reject expenses in a locked period', async () => {
+    const { user, position } = await createTestData();
+
+    await db.insert(periodLocksTable)
+      .values({ start_date: '2024-01-01', end_date: '2024-01-31', locked_by: user.id })
+      .execute();
+
+    await expect(createExpense(expenseInput(user.id, position.id))).rejects.toThrow(/is locked/i);
+  });
+
+  it('should throw error for non-existent user or position', async () => {
+    const { user, position } = await createTestData();
+
+    await expect(createExpense(expenseInput(999, position.id))).rejects.toThrow(/User with ID 999 does not exist/i);
+    await expect(createExpense(expenseInput(user.id, 999))).rejects.toThrow(/Position with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable } from '../db/schema';
+import { createHolidayCalendar } from '../handlers/create_holiday_calendar';
+
+describe('createHolidayCalendar', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a holiday calendar', async () => {
+    const result = await createHolidayCalendar({ name: 'Germany - Bavaria', region: 'DE-BY' });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Germany - Bavaria');
+    expect(result.region).toEqual('DE-BY');
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const saved = await db.select().from(holidayCalendarsTable).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should reject duplicate names', async () => {
+    await createHolidayCalendar({ name: 'Germany - Bavaria', region: 'DE-BY' });
+
+    await expect(createHolidayCalendar({ name: 'Germany - Bavaria', region: null }))
+      .rejects.toThrow(/already exists/i);
+  });
+});
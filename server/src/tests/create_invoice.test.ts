@@ -0,0 +1,405 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, expensesTable, rateCardsTable, invoicesTable, invoiceLineItemsTable,
+  retainersTable, retainerScopesTable, exchangeRatesTable
+} from '../db/schema';
+import { type CreateInvoiceInput } from '../schema';
+import { createInvoice } from '../handlers/create_invoice';
+import { eq } from 'drizzle-orm';
+
+// Creates a client with two positions and a consultant without a default rate
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const clients = await db.insert(clientsTable)
+    .values([{ name: 'Acme Corp' }, { name: 'Other Client' }])
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: clients[0].id, name: 'Website', status: 'active' })
+    .returning()
+    .execute();
+
+  const positions = await db.insert(positionsTable)
+    .values([
+      { project_id: project[0].id, name: 'Backend', hourly_rate: '100.00' },
+      { project_id: project[0].id, name: 'Design', hourly_rate: '80.00' }
+    ])
+    .returning()
+    .execute();
+
+  return { user: user[0], client: clients[0], otherClient: clients[1], positions };
+};
+
+const januaryInput = (clientId: number): CreateInvoiceInput => ({
+  client_id: clientId,
+  period_start: new Date('2024-01-01'),
+  period_end: new Date('2024-01-31'),
+  tax_rate: 0,
+  include_expenses: true
+});
+
+describe('createInvoice', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should group unbilled billable time into line items by position', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true },
+        { user_id: user.id, position_id: positions[0].id, hours: '4.50', date: '2024-01-16', billable: true },
+        { user_id: user.id, position_id: positions[1].id, hours: '2.00', date: '2024-01-16', billable: true },
+        { user_id: user.id, position_id: positions[1].id, hours: '3.00', date: '2024-01-17', billable: false }, // Not billable
+        { user_id: user.id, position_id: positions[0].id, hours: '6.00', date: '2024-02-01', billable: true } // Outside the period
+      ])
+      .execute();
+
+    const result = await createInvoice(januaryInput(client.id));
+
+    expect(result.status).toEqual('draft');
+    expect(result.number).toBeNull();
+    expect(result.client_name).toEqual('Acme Corp');
+    expect(result.period_start).toEqual('2024-01-01');
+    expect(result.period_end).toEqual('2024-01-31');
+    expect(result.subtotal).toEqual(1410); // 12.5h * 100 + 2h * 80
+    expect(result.line_items).toHaveLength(2);
+    expect(result.line_items[0].description).toEqual('Website – Backend');
+    expect(result.line_items[0].hours).toEqual(12.5);
+    expect(result.line_items[0].hourly_rate).toEqual(100);
+    expect(result.line_items[0].amount).toEqual(1250);
+    expect(result.line_items[1].description).toEqual('Website – Design');
+    expect(result.line_items[1].amount).toEqual(160);
+    expect(result.time_entry_ids).toHaveLength(3);
+    expect(result.tax_amount).toEqual(0);
+    expect(result.total).toEqual(1410);
+
+    // The invoiced entries point at the draft but are not billed yet
+    const entries = await db.select().from(timeEntriesTable).where(eq(timeEntriesTable.invoice_id, result.id)).execute();
+    expect(entries).toHaveLength(3);
+    entries.forEach(entry => expect(entry.billed_at).toBeNull());
+  });
+
+  it('should add tax to the subtotal', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, hours: '7.25', date: '2024-01-15', billable: true })
+      .execute();
+
+    const result = await createInvoice({ ...januaryInput(client.id), tax_rate: 19 });
+
+    expect(result.subtotal).toEqual(725);
+    expect(result.tax_rate).toEqual(19);
+    expect(result.tax_amount).toEqual(137.75);
+    expect(result.total).toEqual(862.75);
+  });
+
+  it('should split a position into one line per rate', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(rateCardsTable)
+      .values({ level: 'client', client_id: client.id, hourly_rate: '120.00', valid_from: '2024-01-16' })
+      .execute();
+
+    // Client rate cards outrank the position default rate from their first day
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true },
+        { user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-16', billable: true }
+      ])
+      .execute();
+
+    const result = await createInvoice(januaryInput(client.id));
+
+    expect(result.line_items).toHaveLength(2);
+    expect(result.line_items.map(item => item.hourly_rate).sort()).toEqual([100, 120]);
+    expect(result.subtotal).toEqual(1760);
+  });
+
+  it('should not put entries on a second invoice', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    await createInvoice(januaryInput(client.id));
+
+    await expect(createInvoice(januaryInput(client.id)))
+      .rejects.toThrow(/has no unbilled billable time or expenses between 2024-01-01 and 2024-01-31/i);
+
+    const invoices = await db.select().from(invoicesTable).execute();
+    expect(invoices).toHaveLength(1);
+  });
+
+  it('should refuse to invoice unpriced time', async () => {
+    const { user, client } = await createTestData();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client.id, name: 'Audit', status: 'active' })
+      .returning()
+      .execute();
+
+    const position = await db.insert(positionsTable)
+      .values({ project_id: project[0].id, name: 'Review' })
+      .returning()
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: position[0].id, hours: '3.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    await expect(createInvoice(januaryInput(client.id)))
+      .rejects.toThrow(/No rate applies to billable time on Audit – Review \(3h\)/);
+
+    // Nothing is left behind by the failed attempt
+    const lineItems = await db.select().from(invoiceLineItemsTable).execute();
+    expect(lineItems).toHaveLength(0);
+    const entries = await db.select().from(timeEntriesTable).execute();
+    expect(entries[0].invoice_id).toBeNull();
+  });
+
+  it('should only collect time of the given client', async () => {
+    const { user, otherClient, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    await expect(createInvoice(januaryInput(otherClient.id))).rejects.toThrow(/no unbilled billable time/i);
+  });
+
+  it('should add billable expenses as lines per position and category', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-10', amount: '120.00', currency: 'USD', category: 'travel' },
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-12', amount: '30.50', currency: 'USD', category: 'travel' },
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-12', amount: '99.00', currency: 'USD', category: 'software' },
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-13', amount: '45.00', currency: 'USD', category: 'meals', billable: false }, // Not billable
+        { user_id: user.id, position_id: positions[0].id, date: '2024-02-02', amount: '60.00', currency: 'USD', category: 'travel' } // Outside the period
+      ])
+      .execute();
+
+    const result = await createInvoice(januaryInput(client.id));
+
+    expect(result.line_items).toHaveLength(3);
+    const expenseLines = result.line_items.filter(line => line.kind === 'expense');
+    expect(expenseLines).toHaveLength(2);
+
+    const travel = expenseLines.find(line => line.description === 'Website – Backend – Travel expenses')!;
+    expect(travel.amount).toEqual(150.5);
+    expect(travel.hours).toBeNull();
+    expect(travel.hourly_rate).toBeNull();
+
+    expect(result.subtotal).toEqual(1049.5); // 800 time + 249.50 expenses
+    expect(result.expense_ids).toHaveLength(3);
+
+    const expenses = await db.select().from(expensesTable).where(eq(expensesTable.invoice_id, result.id)).execute();
+    expect(expenses).toHaveLength(3);
+  });
+
+  it('should invoice expenses alone and leave them out on request', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(expensesTable)
+      .values({ user_id: user.id, position_id: positions[1].id, date: '2024-01-10', amount: '200.00', currency: 'USD', category: 'accommodation' })
+      .execute();
+
+    await expect(createInvoice({ ...januaryInput(client.id), include_expenses: false }))
+      .rejects.toThrow(/no unbilled billable time or expenses/i);
+
+    const result = await createInvoice(januaryInput(client.id));
+    expect(result.subtotal).toEqual(200);
+    expect(result.time_entry_ids).toHaveLength(0);
+  });
+
+  it('should refuse expenses without an exchange rate', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    await db.insert(expensesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, date: '2024-01-10', amount: '90.00', currency: 'EUR', category: 'travel' })
+      .execute();
+
+    await expect(createInvoice(januaryInput(client.id)))
+      .rejects.toThrow(/No exchange rate to USD applies to EUR 90.00 on 2024-01-10/i);
+
+    // The time can still be invoiced without the expenses
+    const result = await createInvoice({ ...januaryInput(client.id), include_expenses: false });
+    expect(result.expense_ids).toHaveLength(0);
+  });
+
+  it('should invoice in the client\'s currency and convert expenses at their date', async () => {
+    const { user, client, positions } = await createTestData();
+    await db.update(clientsTable).set({ currency: 'EUR' }).where(eq(clientsTable.id, client.id)).execute();
+    await db.insert(rateCardsTable)
+      .values({ level: 'client', client_id: client.id, hourly_rate: '100.00', valid_from: '2024-01-01' })
+      .execute();
+
+    await db.insert(exchangeRatesTable)
+      .values([
+        { base_currency: 'EUR', quote_currency: 'USD', rate: '1.10000000', valid_from: '2024-01-01' },
+        { base_currency: 'EUR', quote_currency: 'USD', rate: '1.25000000', valid_from: '2024-01-11' },
+        { base_currency: 'EUR', quote_currency: 'CHF', rate: '0.95000000', valid_from: '2024-01-01' }
+      ])
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-10', amount: '110.00', currency: 'USD', category: 'travel' }, // 100 EUR
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-12', amount: '50.00', currency: 'USD', category: 'travel' }, // 40 EUR
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-12', amount: '19.00', currency: 'CHF', category: 'meals' }, // 20 EUR
+        { user_id: user.id, position_id: positions[0].id, date: '2024-01-12', amount: '30.00', currency: 'EUR', category: 'software' }
+      ])
+      .execute();
+
+    const result = await createInvoice(januaryInput(client.id));
+
+    expect(result.currency).toEqual('EUR');
+    expect(result.line_items.find(line => line.description === 'Website – Backend – Travel expenses')!.amount).toEqual(140);
+    expect(result.line_items.find(line => line.description === 'Website – Backend – Meals expenses')!.amount).toEqual(20);
+    expect(result.subtotal).toEqual(990); // 800 time + 190 expenses
+
+    // Today's rate to the reporting currency
+    expect(result.exchange_rate).toEqual(1.25);
+    expect(result.total_reporting).toEqual(1237.5);
+  });
+
+  it('should leave out time on fixed-price projects', async () => {
+    const { user, client, positions } = await createTestData();
+
+    const fixed = await db.insert(projectsTable)
+      .values({ client_id: client.id, name: 'Audit', status: 'active', billing_model: 'fixed_price', budget: '5000.00' })
+      .returning()
+      .execute();
+
+    const fixedPosition = await db.insert(positionsTable)
+      .values({ project_id: fixed[0].id, name: 'Review', hourly_rate: '120.00' })
+      .returning()
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '2.00', date: '2024-01-15' },
+        { user_id: user.id, position_id: fixedPosition[0].id, hours: '10.00', date: '2024-01-15' }
+      ])
+      .execute();
+
+    const result = await createInvoice(januaryInput(client.id));
+
+    expect(result.line_items).toHaveLength(1);
+    expect(result.subtotal).toEqual(200);
+    expect(result.time_entry_ids).toHaveLength(1);
+  });
+
+  it('should cap time on capped projects across invoices', async () => {
+    const { user, client, positions } = await createTestData();
+
+    await db.update(projectsTable)
+      .set({ billing_model: 'capped_time_and_materials', budget: '1000.00' })
+      .where(eq(projectsTable.id, positions[0].project_id))
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '6.00', date: '2024-01-15' }, // 600
+        { user_id: user.id, position_id: positions[0].id, hours: '6.00', date: '2024-02-15' }, // 600
+        { user_id: user.id, position_id: positions[0].id, hours: '1.00', date: '2024-03-15' } // 100
+      ])
+      .execute();
+
+    const january = await createInvoice(januaryInput(client.id));
+    expect(january.subtotal).toEqual(600);
+    expect(january.line_items).toHaveLength(1);
+
+    const february = await createInvoice({ ...januaryInput(client.id), period_start: new Date('2024-02-01'), period_end: new Date('2024-02-29') });
+    expect(february.line_items).toHaveLength(2);
+    expect(february.line_items[1].kind).toEqual('cap_adjustment');
+    expect(february.line_items[1].description).toEqual('Website – Cap adjustment (budget 1000.00)');
+    expect(february.line_items[1].amount).toEqual(-200);
+    expect(february.line_items[1].position_id).toBeNull();
+    expect(february.line_items[1].project_id).toEqual(positions[0].project_id);
+    expect(february.subtotal).toEqual(400);
+
+    // Once the cap is reached, further time is invoiced at zero
+    const march = await createInvoice({ ...januaryInput(client.id), period_start: new Date('2024-03-01'), period_end: new Date('2024-03-31') });
+    expect(march.subtotal).toEqual(0);
+
+    // Voided invoices no longer count toward the cap
+    await db.update(invoicesTable).set({ status: 'void' }).where(eq(invoicesTable.id, january.id)).execute();
+    await db.update(timeEntriesTable).set({ invoice_id: null }).where(eq(timeEntriesTable.invoice_id, january.id)).execute();
+    const rebilled = await createInvoice(januaryInput(client.id));
+    expect(rebilled.subtotal).toEqual(600); // February and March count 400 after their adjustments
+  });
+
+  it('should credit time drawn from a retainer until it is used up', async () => {
+    const { user, client, positions } = await createTestData();
+
+    const retainer = await db.insert(retainersTable)
+      .values({ client_id: client.id, name: 'Q1 bundle', purchased_hours: '10.00', valid_from: '2024-01-01', valid_to: '2024-03-31' })
+      .returning()
+      .execute();
+
+    await db.insert(retainerScopesTable)
+      .values({ retainer_id: retainer[0].id, position_id: positions[0].id })
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '6.00', date: '2024-01-15' },
+        { user_id: user.id, position_id: positions[1].id, hours: '2.00', date: '2024-01-16' }, // Not covered
+        { user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-02-15' }
+      ])
+      .execute();
+
+    const january = await createInvoice(januaryInput(client.id));
+    expect(january.line_items.map(line => line.kind)).toEqual(['time', 'time', 'retainer']);
+    expect(january.line_items[2].description).toEqual('Website – Prepaid from retainer Q1 bundle');
+    expect(january.line_items[2].retainer_id).toEqual(retainer[0].id);
+    expect(january.line_items[2].project_id).toEqual(positions[0].project_id);
+    expect(january.line_items[2].hours).toEqual(6);
+    expect(january.line_items[2].amount).toEqual(-600);
+    expect(january.subtotal).toEqual(160); // Only the design time is billed
+
+    // Four prepaid hours are left; the other four are billed
+    const february = await createInvoice({ ...januaryInput(client.id), period_start: new Date('2024-02-01'), period_end: new Date('2024-02-29') });
+    expect(february.line_items[1].hours).toEqual(4);
+    expect(february.line_items[1].amount).toEqual(-400);
+    expect(february.subtotal).toEqual(400);
+  });
+
+  it('should validate the client and period', async () => {
+    const { client } = await createTestData();
+
+    await expect(createInvoice(januaryInput(999))).rejects.toThrow(/Client with ID 999 does not exist/i);
+
+    await expect(createInvoice({
+      client_id: client.id,
+      period_start: new Date('2024-02-01'),
+      period_end: new Date('2024-01-31'),
+      tax_rate: 0,
+      include_expenses: true
+    })).rejects.toThrow(/must not be before/i);
+  });
+});
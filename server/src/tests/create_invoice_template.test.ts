@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { invoiceTemplatesTable } from '../db/schema';
+import { createInvoiceTemplate } from '../handlers/create_invoice_template';
+import { eq } from 'drizzle-orm';
+
+describe('createInvoiceTemplate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a template and make it the only default', async () => {
+    const first = await createInvoiceTemplate({ name: 'Standard', body: '# Invoice {{invoice_number}}', is_default: true });
+    expect(first.id).toBeDefined();
+    expect(first.is_default).toBe(true);
+
+    const second = await createInvoiceTemplate({ name: 'German', body: '# Rechnung\n{{line_items}}\n{{totals}}', is_default: true });
+    expect(second.is_default).toBe(true);
+
+    const defaults = await db.select().from(invoiceTemplatesTable).where(eq(invoiceTemplatesTable.is_default, true)).execute();
+    expect(defaults).toHaveLength(1);
+    expect(defaults[0].name).toEqual('German');
+  });
+
+  it('should reject unknown placeholders and inline blocks', async () => {
+    await expect(createInvoiceTemplate({ name: 'Broken', body: 'Dear {{customer}}', is_default: false }))
+      .rejects.toThrow(/Unknown template placeholder \{\{customer\}\}/);
+
+    await expect(createInvoiceTemplate({ name: 'Broken', body: 'Items: {{line_items}}', is_default: false }))
+      .rejects.toThrow(/must be on a line of its own/i);
+  });
+
+  it('should reject duplicate names', async () => {
+    await createInvoiceTemplate({ name: 'Standard', body: '# Invoice', is_default: false });
+
+    await expect(createInvoiceTemplate({ name: 'Standard', body: '# Other', is_default: false }))
+      .rejects.toThrow(/named Standard already exists/i);
+  });
+});
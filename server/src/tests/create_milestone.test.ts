@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable } from '../db/schema';
+import { createMilestone } from '../handlers/create_milestone';
+
+const createProjects = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const projects = await db.insert(projectsTable)
+    .values([
+      { client_id: client[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' },
+      { client_id: client[0].id, name: 'Support' }
+    ])
+    .returning()
+    .execute();
+
+  return { fixed: projects[0], timeAndMaterials: projects[1] };
+};
+
+describe('createMilestone', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an open milestone', async () => {
+    const { fixed } = await createProjects();
+
+    const result = await createMilestone({
+      project_id: fixed.id,
+      name: 'Findings report',
+      amount: 4500,
+      due_date: new Date('2024-03-31')
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.project_id).toEqual(fixed.id);
+    expect(result.amount).toEqual(4500);
+    expect(typeof result.amount).toBe('number');
+    expect(result.due_date).toEqual('2024-03-31');
+    expect(result.completed_on).toBeNull();
+    expect(result.invoice_id).toBeNull();
+
+    const saved = await db.select().from(milestonesTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].amount).toEqual('4500.00');
+  });
+
+  it('should only add milestones to fixed-price projects', async () => {
+    const { timeAndMaterials } = await createProjects();
+
+    await expect(createMilestone({ project_id: timeAndMaterials.id, name: 'Go-live', amount: 1000, due_date: new Date('2024-03-31') }))
+      .rejects.toThrow(/only fixed-price projects have milestones/i);
+  });
+
+  it('should throw error for non-existent project', async () => {
+    await expect(createMilestone({ project_id: 999, name: 'Go-live', amount: 1000, due_date: new Date('2024-03-31') }))
+      .rejects.toThrow(/Project with ID 999 does not exist/i);
+  });
+});
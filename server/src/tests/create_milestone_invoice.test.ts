@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable } from '../db/schema';
+import { createMilestoneInvoice } from '../handlers/create_milestone_invoice';
+
+const createMilestone = async (completedOn: string | null) => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' })
+    .returning()
+    .execute();
+
+  const milestone = await db.insert(milestonesTable)
+    .values({ project_id: project[0].id, name: 'Findings report', amount: '4500.00', due_date: '2024-03-31', completed_on: completedOn })
+    .returning()
+    .execute();
+
+  return { client: client[0], project: project[0], milestone: milestone[0] };
+};
+
+describe('createMilestoneInvoice', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should invoice a completed milestone on its own', async () => {
+    const { client, project, milestone } = await createMilestone('2024-03-28');
+
+    const result = await createMilestoneInvoice({ milestone_id: milestone.id, tax_rate: 19 });
+
+    expect(result.client_id).toEqual(client.id);
+    expect(result.status).toEqual('draft');
+    expect(result.period_start).toEqual('2024-03-28');
+    expect(result.period_end).toEqual('2024-03-28');
+    expect(result.subtotal).toEqual(4500);
+    expect(result.tax_amount).toEqual(855);
+    expect(result.total).toEqual(5355);
+    expect(result.milestone_ids).toEqual([milestone.id]);
+    expect(result.line_items).toHaveLength(1);
+    expect(result.line_items[0].kind).toEqual('milestone');
+    expect(result.line_items[0].project_id).toEqual(project.id);
+    expect(result.line_items[0].position_id).toBeNull();
+    expect(result.line_items[0].hours).toBeNull();
+    expect(result.line_items[0].description).toEqual('Audit – Findings report');
+    expect(result.line_items[0].amount).toEqual(4500);
+
+    const saved = await db.select().from(milestonesTable).execute();
+    expect(saved[0].invoice_id).toEqual(result.id);
+  });
+
+  it('should not invoice an open milestone', async () => {
+    const { milestone } = await createMilestone(null);
+
+    await expect(createMilestoneInvoice({ milestone_id: milestone.id, tax_rate: 0 }))
+      .rejects.toThrow(/is not completed and cannot be invoiced yet/i);
+  });
+
+  it('should not invoice a milestone twice', async () => {
+    const { milestone } = await createMilestone('2024-03-28');
+
+    const first = await createMilestoneInvoice({ milestone_id: milestone.id, tax_rate: 0 });
+
+    await expect(createMilestoneInvoice({ milestone_id: milestone.id, tax_rate: 0 }))
+      .rejects.toThrow(new RegExp(`is already on invoice ${first.id}`, 'i'));
+  });
+
+  it('should throw error for non-existent milestone', async () => {
+    await expect(createMilestoneInvoice({ milestone_id: 999, tax_rate: 0 }))
+      .rejects.toThrow(/Milestone with ID 999 does not exist/i);
+  });
+});
@@ -33,6 +33,7 @@ describe('createProject', () => {
       name: 'Test Project',
       description: 'A comprehensive test project',
       budget: 50000.50,
+      billing_model: 'time_and_materials',
       status: 'active',
       start_date: new Date('2024-01-01'),
       end_date: new Date('2024-12-31')
@@ -60,6 +61,7 @@ describe('createProject', () => {
       name: 'Minimal Project',
       description: null,
       budget: null,
+      billing_model: 'time_and_materials',
       status: 'on_hold',
       start_date: null,
       end_date: null
@@ -86,6 +88,7 @@ describe('createProject', () => {
       name: 'Default Status Project',
       description: null,
       budget: null,
+      billing_model: 'time_and_materials',
       status: 'active', // Include required status field
       start_date: null,
       end_date: null
@@ -102,6 +105,7 @@ describe('createProject', () => {
       name: 'Database Test Project',
       description: 'Testing database persistence',
       budget: 25000.75,
+      billing_model: 'time_and_materials',
       status: 'completed',
       start_date: new Date('2024-02-01'),
       end_date: new Date('2024-06-30')
@@ -138,6 +142,7 @@ describe('createProject', () => {
         name: `${status} Project`,
         description: null,
         budget: null,
+        billing_model: 'time_and_materials',
         status: status,
         start_date: null,
         end_date: null
@@ -154,6 +159,7 @@ describe('createProject', () => {
       name: 'Decimal Budget Project',
       description: null,
       budget: 99999.99,
+      billing_model: 'time_and_materials',
       status: 'active',
       start_date: null,
       end_date: null
@@ -173,12 +179,32 @@ describe('createProject', () => {
     expect(parseFloat(projects[0].budget!)).toEqual(99999.99);
   });
 
+  it('should require a budget for fixed-price and capped projects', async () => {
+    const testInput: CreateProjectInput = {
+      client_id: testClientId,
+      name: 'Fixed Price Project',
+      description: null,
+      budget: null,
+      billing_model: 'fixed_price',
+      status: 'active',
+      start_date: null,
+      end_date: null
+    };
+
+    await expect(createProject(testInput)).rejects.toThrow(/Fixed-price projects need a budget/i);
+
+    const result = await createProject({ ...testInput, billing_model: 'capped_time_and_materials', budget: 15000 });
+    expect(result.billing_model).toEqual('capped_time_and_materials');
+    expect(result.budget).toEqual(15000);
+  });
+
   it('should fail when client_id does not exist', async () => {
     const testInput: CreateProjectInput = {
       client_id: 99999, // Non-existent client ID
       name: 'Invalid Client Project',
       description: null,
       budget: null,
+      billing_model: 'time_and_materials',
       status: 'active',
       start_date: null,
       end_date: null
@@ -196,6 +222,7 @@ describe('createProject', () => {
       name: 'Date Test Project',
       description: null,
       budget: null,
+      billing_model: 'time_and_materials',
       status: 'active',
       start_date: startDate,
       end_date: endDate
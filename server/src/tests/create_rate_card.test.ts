@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, usersTable, rateCardsTable } from '../db/schema';
+import { type CreateRateCardInput } from '../schema';
+import { createRateCard } from '../handlers/create_rate_card';
+
+// Creates a client with one project, one position and a consultant
+const createTestData = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Website Relaunch', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Backend' })
+    .returning()
+    .execute();
+
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  return { client: client[0], project: project[0], position: position[0], user: user[0] };
+};
+
+describe('createRateCard', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a user-on-position rate card', async () => {
+    const { position, user } = await createTestData();
+
+    const input: CreateRateCardInput = {
+      level: 'user_position',
+      client_id: null,
+      project_id: null,
+      position_id: position.id,
+      user_id: user.id,
+      hourly_rate: 135.5,
+      valid_from: new Date('2024-01-01'),
+      valid_to: new Date('2024-12-31')
+    };
+
+    const result = await createRateCard(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.level).toEqual('user_position');
+    expect(result.hourly_rate).toEqual(135.5);
+    expect(typeof result.hourly_rate).toBe('number');
+    expect(result.valid_from).toEqual('2024-01-01');
+    expect(result.valid_to).toEqual('2024-12-31');
+
+    const saved = await db.select().from(rateCardsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(parseFloat(saved[0].hourly_rate)).toEqual(135.5);
+  });
+
+  it('should require exactly the scope of the level', async () => {
+    const { client, project } = await createTestData();
+
+    await expect(createRateCard({
+      level: 'project',
+      client_id: client.id,
+      project_id: project.id,
+      position_id: null,
+      user_id: null,
+      hourly_rate: 100,
+      valid_from: new Date('2024-01-01'),
+      valid_to: null
+    })).rejects.toThrow(/project rate cards must set exactly project_id/i);
+
+    await expect(createRateCard({
+      level: 'user_position',
+      client_id: null,
+      project_id: null,
+      position_id: null,
+      user_id: null,
+      hourly_rate: 100,
+      valid_from: new Date('2024-01-01'),
+      valid_to: null
+    })).rejects.toThrow(/must set exactly position_id and user_id/i);
+  });
+
+  it('should reject cards overlapping another card of the same scope', async () => {
+    const { client } = await createTestData();
+
+    const base: CreateRateCardInput = {
+      level: 'client',
+      client_id: client.id,
+      project_id: null,
+      position_id: null,
+      user_id: null,
+      hourly_rate: 100,
+      valid_from: new Date('2024-01-01'),
+      valid_to: new Date('2024-06-30')
+    };
+
+    await createRateCard(base);
+
+    await expect(createRateCard({ ...base, valid_from: new Date('2024-06-30'), valid_to: null }))
+      .rejects.toThrow(/overlaps an existing client rate card valid from 2024-01-01 to 2024-06-30/i);
+
+    // The next day is free
+    const next = await createRateCard({ ...base, hourly_rate: 110, valid_from: new Date('2024-07-01'), valid_to: null });
+    expect(next.valid_to).toBeNull();
+  });
+
+  it('should reject valid-to dates before valid-from', async () => {
+    const { client } = await createTestData();
+
+    await expect(createRateCard({
+      level: 'client',
+      client_id: client.id,
+      project_id: null,
+      position_id: null,
+      user_id: null,
+      hourly_rate: 100,
+      valid_from: new Date('2024-02-01'),
+      valid_to: new Date('2024-01-31')
+    })).rejects.toThrow(/must not be before/i);
+  });
+
+  it('should throw error for non-existent scope records', async () => {
+    await expect(createRateCard({
+      level: 'position',
+      client_id: null,
+      project_id: null,
+      position_id: 999,
+      user_id: null,
+      hourly_rate: 100,
+      valid_from: new Date('2024-01-01'),
+      valid_to: null
+    })).rejects.toThrow(/Position with ID 999 does not exist/i);
+  });
+});
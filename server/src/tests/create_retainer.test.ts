@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, retainerScopesTable } from '../db/schema';
+import { type CreateRetainerInput } from '../schema';
+import { createRetainer } from '../handlers/create_retainer';
+
+const createTestData = async () => {
+  const clients = await db.insert(clientsTable)
+    .values([{ name: 'Acme Corp' }, { name: 'Other Client' }])
+    .returning()
+    .execute();
+
+  const projects = await db.insert(projectsTable)
+    .values([
+      { client_id: clients[0].id, name: 'Support' },
+      { client_id: clients[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' },
+      { client_id: clients[1].id, name: 'Elsewhere' }
+    ])
+    .returning()
+    .execute();
+
+  const positions = await db.insert(positionsTable)
+    .values([
+      { project_id: projects[0].id, name: 'First level' },
+      { project_id: projects[0].id, name: 'Second level' }
+    ])
+    .returning()
+    .execute();
+
+  return { client: clients[0], projects, positions };
+};
+
+const retainerInput = (clientId: number): CreateRetainerInput => ({
+  client_id: clientId,
+  name: '100 support hours',
+  purchased_hours: 100,
+  purchased_amount: null,
+  valid_from: new Date('2024-01-01'),
+  valid_to: new Date('2024-12-31'),
+  overrun_policy: 'warn',
+  project_ids: [],
+  position_ids: []
+});
+
+describe('createRetainer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a retainer with its scopes', async () => {
+    const { client, projects } = await createTestData();
+
+    const result = await createRetainer({ ...retainerInput(client.id), project_ids: [projects[0].id], overrun_policy: 'block' });
+
+    expect(result.id).toBeDefined();
+    expect(result.purchased_hours).toEqual(100);
+    expect(typeof result.purchased_hours).toBe('number');
+    expect(result.purchased_amount).toBeNull();
+    expect(result.valid_from).toEqual('2024-01-01');
+    expect(result.valid_to).toEqual('2024-12-31');
+    expect(result.overrun_policy).toEqual('block');
+    expect(result.scopes).toHaveLength(1);
+    expect(result.scopes[0].project_id).toEqual(projects[0].id);
+    expect(result.scopes[0].position_id).toBeNull();
+
+    const scopes = await db.select().from(retainerScopesTable).execute();
+    expect(scopes).toHaveLength(1);
+  });
+
+  it('should require exactly one purchased quantity and a scope', async () => {
+    const { client, positions } = await createTestData();
+
+    await expect(createRetainer({ ...retainerInput(client.id), purchased_amount: 5000, position_ids: [positions[0].id] }))
+      .rejects.toThrow(/either purchased hours or a purchased amount/i);
+
+    await expect(createRetainer(retainerInput(client.id)))
+      .rejects.toThrow(/at least one project or position/i);
+
+    await expect(createRetainer({ ...retainerInput(client.id), valid_to: new Date('2023-12-31'), position_ids: [positions[0].id] }))
+      .rejects.toThrow(/must not be before/i);
+  });
+
+  it('should only draw from projects of the client that are not fixed-price', async () => {
+    const { client, projects, positions } = await createTestData();
+
+    await expect(createRetainer({ ...retainerInput(client.id), project_ids: [projects[2].id] }))
+      .rejects.toThrow(/does not belong to client/i);
+
+    await expect(createRetainer({ ...retainerInput(client.id), project_ids: [projects[1].id] }))
+      .rejects.toThrow(/is fixed-price and cannot draw from a retainer/i);
+
+    await expect(createRetainer({ ...retainerInput(client.id), project_ids: [projects[0].id], position_ids: [positions[0].id] }))
+      .rejects.toThrow(/already covered by its project/i);
+
+    await expect(createRetainer({ ...retainerInput(client.id), position_ids: [999] }))
+      .rejects.toThrow(/Position with ID 999 does not exist/i);
+  });
+
+  it('should not let a position draw from two retainers at once', async () => {
+    const { client, projects, positions } = await createTestData();
+
+    await createRetainer({ ...retainerInput(client.id), position_ids: [positions[0].id] });
+
+    // The project covers the position that already draws from the first retainer
+    await expect(createRetainer({ ...retainerInput(client.id), name: 'Top-up', project_ids: [projects[0].id] }))
+      .rejects.toThrow(/overlaps the existing retainer "100 support hours"/i);
+
+    // Other positions and later windows are fine
+    const other = await createRetainer({ ...retainerInput(client.id), name: 'Second level', position_ids: [positions[1].id] });
+    expect(other.scopes[0].position_id).toEqual(positions[1].id);
+
+    const next = await createRetainer({
+      ...retainerInput(client.id),
+      name: 'Next year',
+      valid_from: new Date('2025-01-01'),
+      valid_to: new Date('2025-12-31'),
+      project_ids: [projects[0].id]
+    });
+    expect(next.valid_from).toEqual('2025-01-01');
+  });
+
+  it('should throw error for non-existent client', async () => {
+    await expect(createRetainer({ ...retainerInput(999), project_ids: [1] }))
+      .rejects.toThrow(/Client with ID 999 does not exist/i);
+  });
+});
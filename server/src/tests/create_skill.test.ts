@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { skillsTable } from '../db/schema';
+import { createSkillInputSchema } from '../schema';
+import { createSkill } from '../handlers/create_skill';
+
+describe('createSkill', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a skill', async () => {
+    const result = await createSkill({ name: 'TypeScript', category: 'Languages' });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('TypeScript');
+    expect(result.category).toEqual('Languages');
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const saved = await db.select().from(skillsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].name).toEqual('TypeScript');
+  });
+
+  it('should trim the name and allow skills without a category', async () => {
+    const input = createSkillInputSchema.parse({ name: '  Scrum  ', category: null });
+    const result = await createSkill(input);
+
+    expect(result.name).toEqual('Scrum');
+    expect(result.category).toBeNull();
+  });
+
+  it('should reject a name that only differs in case', async () => {
+    await createSkill({ name: 'React', category: null });
+
+    await expect(createSkill({ name: 'react', category: 'Frontend' })).rejects.toThrow(/skill named react already exists/i);
+
+    const saved = await db.select().from(skillsTable).execute();
+    expect(saved).toHaveLength(1);
+  });
+});
@@ -1,11 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { timeEntriesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import {
+  timeEntriesTable, timesheetsTable, periodLocksTable, usersTable, clientsTable, projectsTable, positionsTable, retainersTable, retainerScopesTable,
+  budgetThresholdsTable, budgetAlertsTable, notificationsTable, assignmentsTable
+} from '../db/schema';
 import { type CreateTimeEntryInput } from '../schema';
 import { createTimeEntry } from '../handlers/create_time_entry';
 import { eq } from 'drizzle-orm';
 
+// Users only book positions they are assigned to
+const assign = (userId: number, positionId: number) => db.insert(assignmentsTable)
+  .values({ user_id: userId, position_id: positionId })
+  .execute();
+
 describe('createTimeEntry', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -62,6 +70,8 @@ describe('createTimeEntry', () => {
       .execute();
     const position = positionResult[0];
 
+    await assign(user.id, position.id);
+
     const testInput: CreateTimeEntryInput = {
       user_id: user.id,
       position_id: position.id,
@@ -133,6 +143,8 @@ describe('createTimeEntry', () => {
       .execute();
     const position = positionResult[0];
 
+    await assign(user.id, position.id);
+
     const testInput: CreateTimeEntryInput = {
       user_id: user.id,
       position_id: position.id,
@@ -201,6 +213,8 @@ describe('createTimeEntry', () => {
     const position = positionResult[0];
 
     // Test input with billable defaulting to true via Zod
+    await assign(user.id, position.id);
+
     const testInput: CreateTimeEntryInput = {
       user_id: user.id,
       position_id: position.id,
@@ -320,6 +334,8 @@ describe('createTimeEntry', () => {
       .execute();
     const position = positionResult[0];
 
+    await assign(user.id, position.id);
+
     const testInput: CreateTimeEntryInput = {
       user_id: user.id,
       position_id: position.id,
@@ -342,4 +358,271 @@ describe('createTimeEntry', () => {
 
     expect(parseFloat(savedEntry[0].hours)).toEqual(0.75);
   });
-});
\ No newline at end of file
+
+  it('should reject entries in submitted or approved weeks', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        name: 'Test User',
+        role: 'consultant'
+      })
+      .returning()
+      .execute();
+    const user = userResult[0];
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projectResult = await db.insert(projectsTable)
+      .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const positionResult = await db.insert(positionsTable)
+      .values({ project_id: projectResult[0].id, name: 'Test Position' })
+      .returning()
+      .execute();
+
+    await db.insert(timesheetsTable)
+      .values([
+        { user_id: user.id, week_start: '2024-01-08', status: 'approved' },
+        { user_id: user.id, week_start: '2024-01-15', status: 'submitted' },
+        { user_id: user.id, week_start: '2024-01-22', status: 'rejected' }
+      ])
+      .execute();
+
+    await assign(user.id, positionResult[0].id);
+
+    const testInput: CreateTimeEntryInput = {
+      user_id: user.id,
+      position_id: positionResult[0].id,
+      description: 'Late booking',
+      hours: 2,
+      date: new Date('2024-01-10'),
+      billable: true
+    };
+
+    await expect(createTimeEntry(testInput)).rejects.toThrow(/week of 2024-01-08 is approved/i);
+    await expect(createTimeEntry({ ...testInput, date: new Date('2024-01-21') }))
+      .rejects.toThrow(/week of 2024-01-15 is submitted/i);
+
+    // Rejected weeks are open for editing again
+    const result = await createTimeEntry({ ...testInput, date: new Date('2024-01-24') });
+    expect(result.hours).toEqual(2);
+  });
+
+  it('should reject entries inside a locked period', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        name: 'Test User',
+        role: 'administrator'
+      })
+      .returning()
+      .execute();
+    const user = userResult[0];
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projectResult = await db.insert(projectsTable)
+      .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const positionResult = await db.insert(positionsTable)
+      .values({ project_id: projectResult[0].id, name: 'Test Position' })
+      .returning()
+      .execute();
+
+    await db.insert(periodLocksTable)
+      .values([
+        { start_date: '2024-01-01', end_date: '2024-01-31', locked_by: user.id },
+        { start_date: '2024-02-01', end_date: '2024-02-29', locked_by: user.id, unlocked_at: new Date(), unlocked_by: user.id }
+      ])
+      .execute();
+
+    await assign(user.id, positionResult[0].id);
+
+    const testInput: CreateTimeEntryInput = {
+      user_id: user.id,
+      position_id: positionResult[0].id,
+      description: 'Back-dated work',
+      hours: 3,
+      date: new Date('2024-01-31'),
+      billable: true
+    };
+
+    await expect(createTimeEntry(testInput)).rejects.toThrow(/period 2024-01-01 to 2024-01-31 is locked/i);
+
+    // Unlocked periods accept bookings again
+    const result = await createTimeEntry({ ...testInput, date: new Date('2024-02-01') });
+    expect(result.hours).toEqual(3);
+  });
+
+  it('should reject billable bookings beyond a blocking retainer', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'test@example.com', name: 'Test User', role: 'consultant' })
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projectResult = await db.insert(projectsTable)
+      .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const positionResult = await db.insert(positionsTable)
+      .values({ project_id: projectResult[0].id, name: 'Test Position', hourly_rate: '100.00' })
+      .returning()
+      .execute();
+
+    const retainer = await db.insert(retainersTable)
+      .values({
+        client_id: clientResult[0].id,
+        name: 'Support hours',
+        purchased_hours: '10.00',
+        valid_from: '2024-01-01',
+        valid_to: '2024-12-31',
+        overrun_policy: 'block'
+      })
+      .returning()
+      .execute();
+
+    await db.insert(retainerScopesTable)
+      .values({ retainer_id: retainer[0].id, project_id: projectResult[0].id })
+      .execute();
+
+    await assign(userResult[0].id, positionResult[0].id);
+
+    const testInput: CreateTimeEntryInput = {
+      user_id: userResult[0].id,
+      position_id: positionResult[0].id,
+      description: null,
+      hours: 8,
+      date: new Date('2024-03-04'),
+      billable: true
+    };
+
+    await createTimeEntry(testInput);
+
+    await expect(createTimeEntry({ ...testInput, hours: 3 }))
+      .rejects.toThrow(/Retainer "Support hours" has 2.00h left and blocks further bookings/i);
+
+    // What is left, non-billable time and time outside the validity window still book
+    await createTimeEntry({ ...testInput, hours: 2 });
+    await createTimeEntry({ ...testInput, billable: false });
+    await createTimeEntry({ ...testInput, date: new Date('2025-01-02') });
+
+    const entries = await db.select().from(timeEntriesTable).execute();
+    expect(entries).toHaveLength(4);
+  });
+
+  it('should alert the manager when a booking crosses a budget threshold', async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'test@example.com', name: 'Test User', role: 'consultant' },
+        { email: 'pm@example.com', name: 'Pat Manager', role: 'project_manager' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projectResult = await db.insert(projectsTable)
+      .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const positionResult = await db.insert(positionsTable)
+      .values({ project_id: projectResult[0].id, name: 'Test Position', budget: '1000.00', hourly_rate: '100.00' })
+      .returning()
+      .execute();
+
+    await db.insert(budgetThresholdsTable)
+      .values({ position_id: positionResult[0].id, percent: 80, notify_user_id: userResult[1].id })
+      .execute();
+
+    await assign(userResult[0].id, positionResult[0].id);
+
+    const testInput: CreateTimeEntryInput = {
+      user_id: userResult[0].id,
+      position_id: positionResult[0].id,
+      description: null,
+      hours: 5,
+      date: new Date('2024-03-04'),
+      billable: true
+    };
+
+    await createTimeEntry(testInput);
+    expect(await db.select().from(budgetAlertsTable).execute()).toHaveLength(0);
+
+    const crossing = await createTimeEntry(testInput);
+    const alerts = await db.select().from(budgetAlertsTable).execute();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].time_entry_id).toEqual(crossing.id);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].user_id).toEqual(userResult[1].id);
+  });
+
+  it('should reject bookings on positions the user is not assigned to', async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'assigned@example.com', name: 'Assigned Consultant', role: 'consultant' },
+        { email: 'other@example.com', name: 'Other Consultant', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projectResult = await db.insert(projectsTable)
+      .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const positionResult = await db.insert(positionsTable)
+      .values({ project_id: projectResult[0].id, name: 'Test Position' })
+      .returning()
+      .execute();
+
+    await db.insert(assignmentsTable)
+      .values({ user_id: userResult[0].id, position_id: positionResult[0].id, start_date: '2024-02-01', end_date: '2024-02-29' })
+      .execute();
+
+    const testInput: CreateTimeEntryInput = {
+      user_id: userResult[0].id,
+      position_id: positionResult[0].id,
+      description: null,
+      hours: 4,
+      date: new Date('2024-02-15'),
+      billable: true
+    };
+
+    const result = await createTimeEntry(testInput);
+    expect(result.hours).toEqual(4);
+
+    // Outside the assignment's dates, and for someone who is not assigned at all
+    await expect(createTimeEntry({ ...testInput, date: new Date('2024-03-01') }))
+      .rejects.toThrow(/is not assigned to position .* on 2024-03-01/i);
+    await expect(createTimeEntry({ ...testInput, user_id: userResult[1].id }))
+      .rejects.toThrow(/is not assigned to position/i);
+    expect(await db.select().from(timeEntriesTable).execute()).toHaveLength(1);
+  });
+});
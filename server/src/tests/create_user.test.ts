@@ -126,4 +126,18 @@ describe('createUser', () => {
     expect(result.hourly_rate).toEqual(123.46); // Rounded to 2 decimal places
     expect(typeof result.hourly_rate).toEqual('number');
   });
+
+  it('should store only a hash of the password and never return it', async () => {
+    const result = await createUser({ ...testInputWithRate, password: 'correct horse' });
+
+    expect(result).not.toHaveProperty('password_hash');
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, result.id)).execute();
+    expect(users[0].password_hash).toMatch(/^scrypt:[0-9a-f]+:[0-9a-f]+$/);
+    expect(users[0].password_hash).not.toContain('correct horse');
+
+    const withoutPassword = await createUser(testInputWithoutRate);
+    const stored = await db.select().from(usersTable).where(eq(usersTable.id, withoutPassword.id)).execute();
+    expect(stored[0].password_hash).toBeNull();
+  });
 });
\ No newline at end of file
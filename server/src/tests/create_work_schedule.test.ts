@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workSchedulesTable } from '../db/schema';
+import { type CreateWorkScheduleInput } from '../schema';
+import { createWorkSchedule } from '../handlers/create_work_schedule';
+import { eq } from 'drizzle-orm';
+
+describe('createWorkSchedule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUser = async () => {
+    const result = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should create a work schedule', async () => {
+    const user = await createUser();
+
+    const input: CreateWorkScheduleInput = {
+      user_id: user.id,
+      weekly_hours: 32.5,
+      working_days: [4, 1, 2, 3, 1],
+      effective_from: new Date('2024-03-01')
+    };
+
+    const result = await createWorkSchedule(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.user_id).toEqual(user.id);
+    expect(result.weekly_hours).toEqual(32.5);
+    expect(typeof result.weekly_hours).toBe('number');
+    expect(result.working_days).toEqual([1, 2, 3, 4]); // Deduplicated and sorted
+    expect(result.effective_from).toEqual('2024-03-01');
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const saved = await db.select()
+      .from(workSchedulesTable)
+      .where(eq(workSchedulesTable.id, result.id))
+      .execute();
+
+    expect(saved).toHaveLength(1);
+    expect(parseFloat(saved[0].weekly_hours)).toEqual(32.5);
+  });
+
+  it('should reject a second schedule with the same effective date', async () => {
+    const user = await createUser();
+
+    const input: CreateWorkScheduleInput = {
+      user_id: user.id,
+      weekly_hours: 40,
+      working_days: [1, 2, 3, 4, 5],
+      effective_from: new Date('2024-03-01')
+    };
+
+    await createWorkSchedule(input);
+
+    await expect(createWorkSchedule({ ...input, weekly_hours: 20 }))
+      .rejects.toThrow(/already has a work schedule effective from 2024-03-01/i);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(createWorkSchedule({
+      user_id: 999,
+      weekly_hours: 40,
+      working_days: [1, 2, 3, 4, 5],
+      effective_from: new Date('2024-03-01')
+    })).rejects.toThrow(/User with ID 999 does not exist/i);
+  });
+});
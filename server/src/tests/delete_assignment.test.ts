@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assignmentsTable, timeEntriesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { deleteAssignment } from '../handlers/delete_assignment';
+
+// Creates a user assigned to one position with one booking on it
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const assignmentResult = await db.insert(assignmentsTable)
+    .values({ user_id: userResult[0].id, position_id: positionResult[0].id })
+    .returning()
+    .execute();
+
+  await db.insert(timeEntriesTable)
+    .values({ user_id: userResult[0].id, position_id: positionResult[0].id, hours: '8', date: '2024-01-15' })
+    .execute();
+
+  return { assignment: assignmentResult[0] };
+};
+
+describe('deleteAssignment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the assignment and keep booked time', async () => {
+    const { assignment } = await createTestData();
+
+    const result = await deleteAssignment({ assignment_id: assignment.id });
+
+    expect(result.id).toEqual(assignment.id);
+    expect(result.user_name).toEqual('Test Consultant');
+
+    const assignments = await db.select().from(assignmentsTable).execute();
+    expect(assignments).toHaveLength(0);
+
+    const entries = await db.select().from(timeEntriesTable).execute();
+    expect(entries).toHaveLength(1);
+  });
+
+  it('should throw error when assignment does not exist', async () => {
+    await createTestData();
+
+    await expect(deleteAssignment({ assignment_id: 9999 }))
+      .rejects.toThrow(/assignment with id 9999 does not exist/i);
+  });
+});
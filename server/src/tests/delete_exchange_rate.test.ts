@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { deleteExchangeRate } from '../handlers/delete_exchange_rate';
+
+describe('deleteExchangeRate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete an exchange rate', async () => {
+    const rate = await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'EUR', quote_currency: 'USD', rate: '1.08', valid_from: '2024-01-01' })
+      .returning()
+      .execute();
+
+    const result = await deleteExchangeRate({ exchange_rate_id: rate[0].id });
+
+    expect(result.id).toEqual(rate[0].id);
+    expect(result.rate).toEqual(1.08);
+    expect(await db.select().from(exchangeRatesTable).execute()).toEqual([]);
+  });
+
+  it('should throw error for non-existent exchange rate', async () => {
+    await expect(deleteExchangeRate({ exchange_rate_id: 999 }))
+      .rejects.toThrow(/Exchange rate with ID 999 does not exist/i);
+  });
+});
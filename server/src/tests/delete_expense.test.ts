@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, periodLocksTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { deleteExpense } from '../handlers/delete_expense';
+import { createExpense } from '../handlers/create_expense';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Test Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const expense = await createExpense({
+    user_id: user[0].id,
+    position_id: position[0].id,
+    date: new Date('2024-01-15'),
+    amount: 25,
+    currency: 'USD',
+    category: 'meals',
+    description: null,
+    billable: false,
+    reimbursable: true,
+    receipt: { filename: 'lunch.jpg', content_base64: Buffer.from('jpg').toString('base64') }
+  });
+
+  return { user: user[0], expense };
+};
+
+describe('deleteExpense', () => {
+  let receiptsDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    receiptsDir = await mkdtemp(join(tmpdir(), 'receipts-'));
+    process.env['RECEIPTS_DIR'] = receiptsDir;
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(receiptsDir, { recursive: true, force: true });
+    delete process.env['RECEIPTS_DIR'];
+  });
+
+  it('should delete the expense and its receipt', async () => {
+    const { expense } = await createTestData();
+
+    const result = await deleteExpense({ id: expense.id });
+
+    expect(result.id).toEqual(expense.id);
+    expect(await db.select().from(expensesTable).execute()).toHaveLength(0);
+    expect(await readdir(receiptsDir)).toHaveLength(0);
+  });
+
+  it('should not delete an expense in a locked period', async () => {
+    const { user, expense } = await createTestData();
+
+    await db.insert(periodLocksTable)
+      .values({ start_date: '2024-01-01', end_date: '2024-01-31', locked_by: user.id })
+      .execute();
+
+    await expect(deleteExpense({ id: expense.id })).rejects.toThrow(/is locked/i);
+    expect(await readdir(receiptsDir)).toHaveLength(1);
+  });
+
+  it('should throw error for non-existent expense', async () => {
+    await expect(deleteExpense({ id: 999 })).rejects.toThrow(/Expense with ID 999 does not exist/i);
+  });
+});
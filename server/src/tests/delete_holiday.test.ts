@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { deleteHoliday } from '../handlers/delete_holiday';
+
+describe('deleteHoliday', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete a holiday', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    const holiday = await db.insert(holidaysTable)
+      .values({ calendar_id: calendar[0].id, date: '2024-10-03', name: 'Tag der Deutschen Einheit' })
+      .returning()
+      .execute();
+
+    const result = await deleteHoliday({ holiday_id: holiday[0].id });
+    expect(result.id).toEqual(holiday[0].id);
+
+    const remaining = await db.select().from(holidaysTable).execute();
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should throw error for non-existent holiday', async () => {
+    await expect(deleteHoliday({ holiday_id: 999 }))
+      .rejects.toThrow(/Holiday with ID 999 does not exist/i);
+  });
+});
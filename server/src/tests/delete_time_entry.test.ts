@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timeEntriesTable, timeEntryRevisionsTable, timesheetsTable, periodLocksTable, invoicesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { type DeleteTimeEntryInput } from '../schema';
+import { deleteTimeEntry } from '../handlers/delete_time_entry';
+import { eq } from 'drizzle-orm';
+
+// Creates a user, a client/project/position chain and one time entry
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const entryResult = await db.insert(timeEntriesTable)
+    .values({
+      user_id: userResult[0].id,
+      position_id: positionResult[0].id,
+      description: 'Mistyped entry',
+      hours: '80.00',
+      date: '2024-01-15',
+      billable: true
+    })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], entry: entryResult[0] };
+};
+
+describe('deleteTimeEntry', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the time entry and return it', async () => {
+    const { user, entry } = await createTestData();
+
+    const input: DeleteTimeEntryInput = {
+      id: entry.id,
+      changed_by: user.id
+    };
+
+    const result = await deleteTimeEntry(input);
+
+    expect(result.id).toEqual(entry.id);
+    expect(result.hours).toEqual(80);
+    expect(typeof result.hours).toBe('number');
+    expect(result.date).toEqual(new Date('2024-01-15'));
+
+    const remaining = await db.select()
+      .from(timeEntriesTable)
+      .where(eq(timeEntriesTable.id, entry.id))
+      .execute();
+
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should keep a delete revision with the removed values', async () => {
+    const { user, entry } = await createTestData();
+
+    await deleteTimeEntry({ id: entry.id, changed_by: user.id });
+
+    const revisions = await db.select()
+      .from(timeEntryRevisionsTable)
+      .where(eq(timeEntryRevisionsTable.time_entry_id, entry.id))
+      .execute();
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].action).toEqual('delete');
+    expect(revisions[0].changed_by).toEqual(user.id);
+    expect(revisions[0].before).toMatchObject({
+      user_id: user.id,
+      hours: 80,
+      date: '2024-01-15',
+      description: 'Mistyped entry',
+      billable: true
+    });
+    expect(revisions[0].after).toBeNull();
+  });
+
+  it('should throw error when time entry does not exist', async () => {
+    const { user } = await createTestData();
+
+    await expect(deleteTimeEntry({ id: 9999, changed_by: user.id }))
+      .rejects.toThrow(/time entry with id 9999 does not exist/i);
+  });
+
+  it('should not delete when changing user does not exist', async () => {
+    const { entry } = await createTestData();
+
+    await expect(deleteTimeEntry({ id: entry.id, changed_by: 9999 }))
+      .rejects.toThrow(/user with id 9999 does not exist/i);
+
+    const remaining = await db.select().from(timeEntriesTable).execute();
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('should not delete entries in an approved week', async () => {
+    const { user, entry } = await createTestData();
+
+    await db.insert(timesheetsTable)
+      .values({ user_id: user.id, week_start: '2024-01-15', status: 'approved' })
+      .execute();
+
+    await expect(deleteTimeEntry({ id: entry.id, changed_by: user.id }))
+      .rejects.toThrow(/week of 2024-01-15 is approved/i);
+  });
+
+  it('should not delete entries inside a locked period', async () => {
+    const { user, entry } = await createTestData();
+
+    await db.insert(periodLocksTable)
+      .values({ start_date: '2024-01-15', end_date: '2024-01-15', locked_by: user.id })
+      .execute();
+
+    await expect(deleteTimeEntry({ id: entry.id, changed_by: user.id }))
+      .rejects.toThrow(/is locked/i);
+
+    const remaining = await db.select().from(timeEntriesTable).execute();
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('should not delete entries that are on an invoice', async () => {
+    const { user, entry } = await createTestData();
+
+    const clients = await db.select().from(clientsTable).execute();
+    const invoice = await db.insert(invoicesTable)
+      .values({ client_id: clients[0].id, period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '800.00', total: '800.00' })
+      .returning()
+      .execute();
+
+    await db.update(timeEntriesTable)
+      .set({ invoice_id: invoice[0].id })
+      .where(eq(timeEntriesTable.id, entry.id))
+      .execute();
+
+    await expect(deleteTimeEntry({ id: entry.id, changed_by: user.id })).rejects.toThrow(/is on invoice/i);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { emailOutboxTable } from '../db/schema';
+import { deliverEmails } from '../handlers/deliver_emails';
+import { MAX_EMAIL_ATTEMPTS } from '../helpers/email';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { asc } from 'drizzle-orm';
+
+const queueEmails = async () => await db.insert(emailOutboxTable)
+  .values([
+    { to_address: 'pm@example.com', subject: 'Budget alert', body: 'Line one\n.hidden dot\nLine three' },
+    { to_address: 'admin@example.com', subject: 'Second', body: 'Hello' }
+  ])
+  .returning()
+  .execute();
+
+// Minimal SMTP sink that records each message it accepts
+const startSmtpSink = (messages: string[]): Promise<Server> => new Promise((resolve) => {
+  const server = createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 sink ready\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            messages[messages.length - 1] += `${line}\r\n`;
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-sink\r\n250 8BITMIME\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          messages.push('');
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+describe('deliverEmails', () => {
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    outboxDir = await mkdtemp(join(tmpdir(), 'outbox-'));
+    process.env['EMAIL_OUTBOX_DIR'] = outboxDir;
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(outboxDir, { recursive: true, force: true });
+    delete process.env['EMAIL_OUTBOX_DIR'];
+    delete process.env['EMAIL_TRANSPORT'];
+    delete process.env['SMTP_PORT'];
+  });
+
+  it('should write pending emails to the outbox directory', async () => {
+    const queued = await queueEmails();
+
+    const result = await deliverEmails();
+    expect(result).toEqual({ sent: 2, failed: 0 });
+
+    expect((await readdir(outboxDir)).sort()).toEqual([`${queued[0].id}.eml`, `${queued[1].id}.eml`].sort());
+    const message = await readFile(join(outboxDir, `${queued[0].id}.eml`), 'utf8');
+    expect(message).toContain('To: pm@example.com\r\n');
+    expect(message).toContain('Subject: Budget alert\r\n');
+    expect(message).toEndWith('\r\n\r\nLine one\r\n.hidden dot\r\nLine three');
+
+    const stored = await db.select().from(emailOutboxTable).execute();
+    expect(stored.every(email => email.status === 'sent' && email.sent_at !== null && email.attempts === 1)).toBe(true);
+
+    // Sent emails are not delivered twice
+    expect(await deliverEmails()).toEqual({ sent: 0, failed: 0 });
+  });
+
+  it('should send pending emails to an SMTP server', async () => {
+    await queueEmails();
+    const messages: string[] = [];
+    const sink = await startSmtpSink(messages);
+    process.env['EMAIL_TRANSPORT'] = 'smtp';
+    process.env['SMTP_PORT'] = String((sink.address() as AddressInfo).port);
+
+    try {
+      const result = await deliverEmails();
+      expect(result).toEqual({ sent: 2, failed: 0 });
+    } finally {
+      sink.close();
+    }
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toContain('To: pm@example.com\r\n');
+    expect(messages[0]).toContain('\r\n..hidden dot\r\n'); // Dot-stuffed on the wire
+  });
+
+  it('should record failures and retry them up to the attempt limit', async () => {
+    await queueEmails();
+    const sink = await startSmtpSink([]);
+    const port = (sink.address() as AddressInfo).port;
+    await new Promise(resolve => sink.close(resolve)); // Nothing listens on the port any more
+    process.env['EMAIL_TRANSPORT'] = 'smtp';
+    process.env['SMTP_PORT'] = String(port);
+
+    const result = await deliverEmails();
+    expect(result).toEqual({ sent: 0, failed: 2 });
+
+    const [failed] = await db.select().from(emailOutboxTable).orderBy(asc(emailOutboxTable.id)).execute();
+    expect(failed.status).toEqual('failed');
+    expect(failed.attempts).toEqual(1);
+    expect(failed.last_error).not.toBeNull();
+
+    for (let attempt = 2; attempt <= MAX_EMAIL_ATTEMPTS; attempt++) {
+      await deliverEmails();
+    }
+    expect(await deliverEmails()).toEqual({ sent: 0, failed: 0 });
+
+    // Once the transport works again, emails still below the limit go out
+    await db.insert(emailOutboxTable).values({ to_address: 'late@example.com', subject: 'Later', body: 'Hi' }).execute();
+    delete process.env['EMAIL_TRANSPORT'];
+    expect(await deliverEmails()).toEqual({ sent: 1, failed: 0 });
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, costRatesTable } from '../db/schema';
+import { endCostRate } from '../handlers/end_cost_rate';
+
+describe('endCostRate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCostRate = async (validTo: string | null = null) => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+      .returning()
+      .execute();
+
+    const costRate = await db.insert(costRatesTable)
+      .values({ user_id: user[0].id, hourly_cost: '60.00', valid_from: '2024-01-01', valid_to: validTo })
+      .returning()
+      .execute();
+
+    return costRate[0];
+  };
+
+  it('should set the last day of an open-ended cost rate', async () => {
+    const costRate = await createCostRate();
+
+    const result = await endCostRate({ cost_rate_id: costRate.id, valid_to: new Date('2024-06-30') });
+
+    expect(result.valid_to).toEqual('2024-06-30');
+    expect(result.hourly_cost).toEqual(60);
+  });
+
+  it('should not end a cost rate before it starts or extend it', async () => {
+    const costRate = await createCostRate('2024-06-30');
+
+    await expect(endCostRate({ cost_rate_id: costRate.id, valid_to: new Date('2023-12-31') }))
+      .rejects.toThrow(/cannot end before it/i);
+
+    await expect(endCostRate({ cost_rate_id: costRate.id, valid_to: new Date('2024-07-31') }))
+      .rejects.toThrow(/already ends on 2024-06-30/i);
+  });
+
+  it('should throw error for non-existent cost rate', async () => {
+    await expect(endCostRate({ cost_rate_id: 999, valid_to: new Date('2024-06-30') }))
+      .rejects.toThrow(/Cost rate with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, rateCardsTable } from '../db/schema';
+import { endRateCard } from '../handlers/end_rate_card';
+
+describe('endRateCard', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCard = async (validTo: string | null = null) => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const card = await db.insert(rateCardsTable)
+      .values({ level: 'client', client_id: client[0].id, hourly_rate: '100.00', valid_from: '2024-01-01', valid_to: validTo })
+      .returning()
+      .execute();
+
+    return card[0];
+  };
+
+  it('should set the last day of an open-ended card', async () => {
+    const card = await createCard();
+
+    const result = await endRateCard({ rate_card_id: card.id, valid_to: new Date('2024-06-30') });
+
+    expect(result.valid_to).toEqual('2024-06-30');
+    expect(result.hourly_rate).toEqual(100);
+  });
+
+  it('should not end a card before it starts or extend it', async () => {
+    const card = await createCard('2024-06-30');
+
+    await expect(endRateCard({ rate_card_id: card.id, valid_to: new Date('2023-12-31') }))
+      .rejects.toThrow(/cannot end before it/i);
+
+    await expect(endRateCard({ rate_card_id: card.id, valid_to: new Date('2024-07-31') }))
+      .rejects.toThrow(/already ends on 2024-06-30/i);
+  });
+
+  it('should throw error for non-existent card', async () => {
+    await expect(endRateCard({ rate_card_id: 999, valid_to: new Date('2024-06-30') }))
+      .rejects.toThrow(/Rate card with ID 999 does not exist/i);
+  });
+});
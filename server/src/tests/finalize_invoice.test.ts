@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, invoicesTable } from '../db/schema';
+import { finalizeInvoice } from '../handlers/finalize_invoice';
+import { eq } from 'drizzle-orm';
+
+// Creates a draft invoice holding one time entry
+const createDraft = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Website', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Backend', hourly_rate: '100.00' })
+    .returning()
+    .execute();
+
+  const invoice = await db.insert(invoicesTable)
+    .values({ client_id: client[0].id, period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '800.00', total: '800.00' })
+    .returning()
+    .execute();
+
+  const entry = await db.insert(timeEntriesTable)
+    .values({
+      user_id: user[0].id,
+      position_id: position[0].id,
+      hours: '8.00',
+      date: '2024-01-15',
+      billable: true,
+      invoice_id: invoice[0].id
+    })
+    .returning()
+    .execute();
+
+  return { client: client[0], invoice: invoice[0], entry: entry[0] };
+};
+
+describe('finalizeInvoice', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should number the invoice and mark its entries as billed', async () => {
+    const { invoice, entry } = await createDraft();
+
+    const result = await finalizeInvoice({ invoice_id: invoice.id });
+
+    const year = new Date().getUTCFullYear();
+    expect(result.status).toEqual('finalized');
+    expect(result.number).toEqual(`INV-${year}-0001`);
+    expect(result.finalized_at).toBeInstanceOf(Date);
+    expect(result.subtotal).toEqual(800);
+
+    const entries = await db.select().from(timeEntriesTable).where(eq(timeEntriesTable.id, entry.id)).execute();
+    expect(entries[0].invoice_id).toEqual(invoice.id);
+    expect(entries[0].billed_at).toBeInstanceOf(Date);
+  });
+
+  it('should continue the numbering of the year', async () => {
+    const { client, invoice } = await createDraft();
+    const year = new Date().getUTCFullYear();
+
+    await db.insert(invoicesTable)
+      .values({
+        client_id: client.id,
+        number: `INV-${year}-0041`,
+        status: 'finalized',
+        period_start: '2023-12-01',
+        period_end: '2023-12-31',
+        subtotal: '100.00',
+        total: '100.00'
+      })
+      .execute();
+
+    const result = await finalizeInvoice({ invoice_id: invoice.id });
+    expect(result.number).toEqual(`INV-${year}-0042`);
+  });
+
+  it('should only finalize drafts', async () => {
+    const { invoice } = await createDraft();
+
+    await finalizeInvoice({ invoice_id: invoice.id });
+
+    await expect(finalizeInvoice({ invoice_id: invoice.id }))
+      .rejects.toThrow(/is finalized; only drafts can be finalized/i);
+  });
+
+  it('should throw error for non-existent invoice', async () => {
+    await expect(finalizeInvoice({ invoice_id: 999 }))
+      .rejects.toThrow(/Invoice with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { absencesTable, absenceAllowancesTable, usersTable } from '../db/schema';
+import { getAbsenceBalances } from '../handlers/get_absence_balances';
+
+describe('getAbsenceBalances', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report used, pending and remaining days per type', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+    const userId = user[0].id;
+
+    await db.insert(absenceAllowancesTable)
+      .values({ user_id: userId, year: 2024, type: 'vacation', days: '25.0' })
+      .execute();
+
+    await db.insert(absencesTable)
+      .values([
+        // Crosses into 2024: only Jan 1-3 count
+        { user_id: userId, type: 'vacation', start_date: '2023-12-27', end_date: '2024-01-03', status: 'approved' },
+        { user_id: userId, type: 'vacation', start_date: '2024-03-04', end_date: '2024-03-08', status: 'pending' },
+        { user_id: userId, type: 'vacation', start_date: '2024-04-02', end_date: '2024-04-02', status: 'rejected' },
+        { user_id: userId, type: 'sick', start_date: '2024-05-06', end_date: '2024-05-06', half_day: true, status: 'approved' }
+      ])
+      .execute();
+
+    const balances = await getAbsenceBalances({ user_id: userId, year: 2024 });
+
+    expect(balances).toHaveLength(4);
+
+    const vacation = balances.find(balance => balance.type === 'vacation')!;
+    expect(vacation.allowance_days).toEqual(25);
+    expect(vacation.used_days).toEqual(3);
+    expect(vacation.pending_days).toEqual(5);
+    expect(vacation.remaining_days).toEqual(17);
+
+    const sick = balances.find(balance => balance.type === 'sick')!;
+    expect(sick.allowance_days).toBeNull();
+    expect(sick.used_days).toEqual(0.5);
+    expect(sick.remaining_days).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { absencesTable, usersTable } from '../db/schema';
+import { getAbsences } from '../handlers/get_absences';
+
+describe('getAbsences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter by user, status and overlapping date range', async () => {
+    const [user, otherUser] = await db.insert(usersTable)
+      .values([
+        { email: 'user@example.com', name: 'John Doe', role: 'consultant' },
+        { email: 'other@example.com', name: 'Jane Smith', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(absencesTable)
+      .values([
+        { user_id: user.id, type: 'vacation', start_date: '2024-06-28', end_date: '2024-07-03', status: 'approved' },
+        { user_id: user.id, type: 'sick', start_date: '2024-08-01', end_date: '2024-08-01', status: 'pending' },
+        { user_id: otherUser.id, type: 'training', start_date: '2024-07-02', end_date: '2024-07-02', status: 'pending' }
+      ])
+      .execute();
+
+    const all = await getAbsences({});
+    expect(all).toHaveLength(3);
+    expect(all[0].start_date).toEqual('2024-08-01'); // Most recent first
+
+    const forUser = await getAbsences({ user_id: user.id });
+    expect(forUser).toHaveLength(2);
+
+    const pending = await getAbsences({ status: 'pending' });
+    expect(pending).toHaveLength(2);
+
+    const july = await getAbsences({ start_date: new Date('2024-07-01'), end_date: new Date('2024-07-31') });
+    expect(july).toHaveLength(2);
+    expect(july.map(absence => absence.type).sort()).toEqual(['training', 'vacation']);
+  });
+});
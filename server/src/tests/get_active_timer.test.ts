@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activeTimersTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { getActiveTimer } from '../handlers/get_active_timer';
+
+// Creates a user and a client/project/position chain to book against
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('getActiveTimer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the timer with computed elapsed time', async () => {
+    const { user, position } = await createTestData();
+    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        description: 'Code review',
+        status: 'running',
+        started_at: new Date(Date.now() - 60 * 60 * 1000),
+        segment_started_at: fiveMinutesAgo,
+        accumulated_seconds: 600
+      })
+      .execute();
+
+    const result = await getActiveTimer({ user_id: user.id });
+
+    expect(result).not.toBeNull();
+    expect(result!.description).toEqual('Code review');
+    expect(result!.elapsed_seconds).toBeGreaterThanOrEqual(900);
+    expect(result!.elapsed_seconds).toBeLessThan(910);
+  });
+
+  it('should return null when user has no timer', async () => {
+    const { user } = await createTestData();
+
+    const result = await getActiveTimer({ user_id: user.id });
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, invoicesTable, paymentsTable } from '../db/schema';
+import { getAgingReport } from '../handlers/get_aging_report';
+
+describe('getAgingReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should bucket outstanding balances per client by days since sending', async () => {
+    const clients = await db.insert(clientsTable)
+      .values([{ name: 'Acme Corp' }, { name: 'Beta Ltd' }])
+      .returning()
+      .execute();
+
+    const base = { period_start: '2024-01-01', period_end: '2024-01-31' };
+    const invoices = await db.insert(invoicesTable)
+      .values([
+        // 10 days old, not yet due
+        { ...base, client_id: clients[0].id, status: 'sent', number: 'INV-2024-0001', subtotal: '100.00', total: '100.00', sent_on: '2024-06-20', due_date: '2024-07-20' },
+        // 45 days old, 300 of 500 paid
+        { ...base, client_id: clients[0].id, status: 'partially_paid', number: 'INV-2024-0002', subtotal: '500.00', total: '500.00', amount_paid: '300.00', sent_on: '2024-05-16', due_date: '2024-06-15' },
+        // 120 days old
+        { ...base, client_id: clients[1].id, status: 'sent', number: 'INV-2024-0003', subtotal: '250.00', total: '250.00', sent_on: '2024-03-02', due_date: '2024-04-01' },
+        // Paid after the report date, so still open on it
+        { ...base, client_id: clients[1].id, status: 'paid', number: 'INV-2024-0004', subtotal: '80.00', total: '80.00', amount_paid: '80.00', sent_on: '2024-04-16', due_date: '2024-05-16' },
+        // Sent after the report date
+        { ...base, client_id: clients[1].id, status: 'sent', number: 'INV-2024-0005', subtotal: '999.00', total: '999.00', sent_on: '2024-07-15', due_date: '2024-08-14' },
+        // Never sent
+        { ...base, client_id: clients[1].id, status: 'finalized', number: 'INV-2024-0006', subtotal: '50.00', total: '50.00' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(paymentsTable)
+      .values([
+        { invoice_id: invoices[1].id, amount: '300.00', paid_on: '2024-06-01', method: 'bank_transfer' },
+        { invoice_id: invoices[3].id, amount: '80.00', paid_on: '2024-07-10', method: 'bank_transfer' }
+      ])
+      .execute();
+
+    const result = await getAgingReport({ as_of: new Date('2024-06-30') });
+
+    expect(result).toHaveLength(2);
+
+    const acme = result.find(row => row.client_name === 'Acme Corp')!;
+    expect(acme.days_0_30).toEqual(100);
+    expect(acme.days_31_60).toEqual(200);
+    expect(acme.days_61_90).toEqual(0);
+    expect(acme.days_over_90).toEqual(0);
+    expect(acme.total_outstanding).toEqual(300);
+    expect(acme.overdue_amount).toEqual(200);
+    expect(acme.currency).toEqual('USD');
+    expect(acme.total_outstanding_reporting).toEqual(300); // In the reporting currency already
+
+    const beta = result.find(row => row.client_name === 'Beta Ltd')!;
+    expect(beta.days_61_90).toEqual(80); // 75 days old
+    expect(beta.days_over_90).toEqual(250);
+    expect(beta.total_outstanding).toEqual(330);
+    expect(beta.overdue_amount).toEqual(330);
+  });
+
+  it('should total balances in the reporting currency at the rate of each invoice', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme GmbH', currency: 'EUR' })
+      .returning()
+      .execute();
+
+    const base = { client_id: client[0].id, status: 'sent' as const, currency: 'EUR', period_start: '2024-01-01', period_end: '2024-01-31' };
+    await db.insert(invoicesTable)
+      .values([
+        { ...base, number: 'INV-2024-0001', subtotal: '100.00', total: '100.00', exchange_rate: '1.10', sent_on: '2024-06-20', due_date: '2024-07-20' },
+        { ...base, number: 'INV-2024-0002', subtotal: '200.00', total: '200.00', exchange_rate: '1.20', sent_on: '2024-04-01', due_date: '2024-05-01' }
+      ])
+      .execute();
+
+    const result = await getAgingReport({ as_of: new Date('2024-06-30') });
+
+    expect(result[0].currency).toEqual('EUR');
+    expect(result[0].total_outstanding).toEqual(300);
+    expect(result[0].total_outstanding_reporting).toEqual(350);
+    expect(result[0].overdue_amount_reporting).toEqual(240);
+
+    // An invoice from before exchange rates were recorded leaves the totals unknown
+    await db.insert(invoicesTable)
+      .values({ ...base, number: 'INV-2024-0003', subtotal: '50.00', total: '50.00', sent_on: '2024-06-25', due_date: '2024-07-25' })
+      .execute();
+
+    const unknown = await getAgingReport({ as_of: new Date('2024-06-30') });
+    expect(unknown[0].total_outstanding_reporting).toBeNull();
+    expect(unknown[0].overdue_amount_reporting).toEqual(240);
+  });
+
+  it('should leave out clients without outstanding balances', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const invoice = await db.insert(invoicesTable)
+      .values({
+        client_id: client[0].id, status: 'paid', number: 'INV-2024-0001', period_start: '2024-01-01', period_end: '2024-01-31',
+        subtotal: '100.00', total: '100.00', amount_paid: '100.00', sent_on: '2024-02-01', due_date: '2024-03-02'
+      })
+      .returning()
+      .execute();
+
+    await db.insert(paymentsTable)
+      .values({ invoice_id: invoice[0].id, amount: '100.00', paid_on: '2024-02-20', method: 'bank_transfer' })
+      .execute();
+
+    expect(await getAgingReport({})).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { allocationsTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { getAllocations } from '../handlers/get_allocations';
+
+// Creates two users planned on two projects over three weeks
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values([
+      { client_id: clientResult[0].id, name: 'Platform', status: 'active' },
+      { client_id: clientResult[0].id, name: 'Website', status: 'active' }
+    ])
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Development' },
+      { project_id: projectResult[1].id, name: 'Design' }
+    ])
+    .returning()
+    .execute();
+
+  const [alice, bob] = userResult;
+  const [platform, website] = positionResult;
+
+  await db.insert(allocationsTable)
+    .values([
+      { user_id: alice.id, position_id: platform.id, week_start: '2024-01-08', planned_hours: '40' },
+      { user_id: alice.id, position_id: platform.id, week_start: '2024-01-15', planned_hours: '24' },
+      { user_id: alice.id, position_id: website.id, week_start: '2024-01-15', planned_hours: '16' },
+      { user_id: bob.id, position_id: website.id, week_start: '2024-01-22', planned_hours: '40' }
+    ])
+    .execute();
+
+  return { alice, bob, projects: projectResult, positions: positionResult };
+};
+
+describe('getAllocations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return allocations of the weeks in the period', async () => {
+    await createTestData();
+
+    // From a Wednesday: that week counts; to a Sunday: the next week does not
+    const result = await getAllocations({ start_date: new Date('2024-01-10'), end_date: new Date('2024-01-21') });
+
+    expect(result.map(allocation => [allocation.week_start, allocation.user_name, allocation.project_name])).toEqual([
+      ['2024-01-08', 'Alice', 'Platform'],
+      ['2024-01-15', 'Alice', 'Platform'],
+      ['2024-01-15', 'Alice', 'Website']
+    ]);
+    expect(result[0].planned_hours).toEqual(40);
+  });
+
+  it('should filter by user, position and project', async () => {
+    const { bob, projects, positions } = await createTestData();
+    const period = { start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') };
+
+    const byUser = await getAllocations({ ...period, user_id: bob.id });
+    expect(byUser).toHaveLength(1);
+    expect(byUser[0].week_start).toEqual('2024-01-22');
+
+    const byPosition = await getAllocations({ ...period, position_id: positions[0].id });
+    expect(byPosition).toHaveLength(2);
+
+    const byProject = await getAllocations({ ...period, project_id: projects[1].id });
+    expect(byProject.map(allocation => allocation.user_name)).toEqual(['Alice', 'Bob']);
+  });
+});
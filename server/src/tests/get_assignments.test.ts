@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assignmentsTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { getAssignments } from '../handlers/get_assignments';
+
+// Creates two users with assignments across two clients
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values([{ name: 'Zeta Corp' }, { name: 'Acme Inc' }])
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values([
+      { client_id: clientResult[0].id, name: 'Platform', status: 'active' },
+      { client_id: clientResult[1].id, name: 'Website', status: 'active' }
+    ])
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Development' },
+      { project_id: projectResult[1].id, name: 'Design' }
+    ])
+    .returning()
+    .execute();
+
+  const [alice, bob] = userResult;
+  const [platform, website] = positionResult;
+
+  await db.insert(assignmentsTable)
+    .values([
+      { user_id: alice.id, position_id: platform.id, start_date: '2024-01-01', end_date: '2024-01-31' },
+      { user_id: alice.id, position_id: website.id },
+      { user_id: bob.id, position_id: platform.id, start_date: '2024-02-01', planned_hours: '40' }
+    ])
+    .execute();
+
+  return { alice, bob, projects: projectResult, positions: positionResult };
+};
+
+describe('getAssignments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return all assignments ordered by client, project and position', async () => {
+    await createTestData();
+
+    const result = await getAssignments({});
+
+    expect(result.map(assignment => [assignment.client_name, assignment.user_name])).toEqual([
+      ['Acme Inc', 'Alice'],
+      ['Zeta Corp', 'Alice'],
+      ['Zeta Corp', 'Bob']
+    ]);
+    expect(result[2].planned_hours).toEqual(40);
+    expect(typeof result[2].planned_hours).toBe('number');
+  });
+
+  it('should filter by user, position and project', async () => {
+    const { alice, projects, positions } = await createTestData();
+
+    const byUser = await getAssignments({ user_id: alice.id });
+    expect(byUser).toHaveLength(2);
+
+    const byPosition = await getAssignments({ position_id: positions[0].id });
+    expect(byPosition.map(assignment => assignment.user_name)).toEqual(['Alice', 'Bob']);
+
+    const byProject = await getAssignments({ project_id: projects[1].id });
+    expect(byProject).toHaveLength(1);
+    expect(byProject[0].position_name).toEqual('Design');
+  });
+
+  it('should only return assignments active on a day', async () => {
+    const { alice, bob } = await createTestData();
+
+    const january = await getAssignments({ user_id: alice.id, active_on: new Date('2024-01-31') });
+    expect(january.map(assignment => assignment.position_name)).toEqual(['Design', 'Development']);
+
+    const february = await getAssignments({ user_id: alice.id, active_on: new Date('2024-02-01') });
+    expect(february.map(assignment => assignment.position_name)).toEqual(['Design']);
+
+    const beforeStart = await getAssignments({ user_id: bob.id, active_on: new Date('2024-01-31') });
+    expect(beforeStart).toHaveLength(0);
+  });
+
+  it('should return an empty list when nothing matches', async () => {
+    await createTestData();
+
+    const result = await getAssignments({ user_id: 9999 });
+    expect(result).toEqual([]);
+  });
+});
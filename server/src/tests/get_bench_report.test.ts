@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  allocationsTable, absencesTable, timeEntriesTable, usersTable, clientsTable, projectsTable, positionsTable,
+  skillsTable, userSkillsTable
+} from '../db/schema';
+import { getBenchReport } from '../handlers/get_bench_report';
+
+// Creates four consultants, a manager and a position to plan and book on
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' },
+      { email: 'carol@example.com', name: 'Carol', role: 'consultant' },
+      { email: 'dave@example.com', name: 'Dave', role: 'consultant' },
+      { email: 'manager@example.com', name: 'Mia Manager', role: 'project_manager' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const [alice, bob, carol, dave, manager] = userResult;
+  return { alice, bob, carol, dave, manager, position: positionResult[0] };
+};
+
+describe('getBenchReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list consultants below the threshold with the most free hours first', async () => {
+    const { alice, bob, position } = await createTestData();
+
+    await db.insert(allocationsTable)
+      .values([
+        { user_id: alice.id, position_id: position.id, week_start: '2024-01-15', planned_hours: '40' },
+        { user_id: bob.id, position_id: position.id, week_start: '2024-01-15', planned_hours: '4' }
+      ])
+      .execute();
+
+    // Bob booked more than planned; the booked hours count
+    await db.insert(timeEntriesTable)
+      .values({ user_id: bob.id, position_id: position.id, hours: '8', date: '2024-01-16' })
+      .execute();
+
+    const result = await getBenchReport({ start_date: new Date('2024-01-17'), weeks: 2, threshold_percent: 50 });
+
+    expect(result.weeks).toEqual(['2024-01-15', '2024-01-22']);
+    expect(result.threshold_percent).toEqual(50);
+    // Alice is at 50%, Mia is no consultant
+    expect(result.rows.map(row => row.user_name)).toEqual(['Carol', 'Dave', 'Bob']);
+
+    const bobRow = result.rows[2];
+    expect(bobRow).toMatchObject({
+      capacity_hours: 80,
+      planned_hours: 4,
+      booked_hours: 8,
+      free_hours: 72,
+      utilization_percent: 10
+    });
+    expect(bobRow.weeks[0]).toEqual({ week_start: '2024-01-15', capacity_hours: 40, planned_hours: 4, booked_hours: 8 });
+    expect(result.rows[0].utilization_percent).toEqual(0);
+  });
+
+  it('should leave out consultants without capacity and list skills', async () => {
+    const { carol, dave } = await createTestData();
+
+    await db.insert(absencesTable)
+      .values({ user_id: dave.id, type: 'vacation', start_date: '2024-01-15', end_date: '2024-01-28', status: 'approved' })
+      .execute();
+
+    const [typescript] = await db.insert(skillsTable)
+      .values({ name: 'TypeScript', category: 'Languages' })
+      .returning()
+      .execute();
+
+    await db.insert(userSkillsTable)
+      .values({ user_id: carol.id, skill_id: typescript.id, level: 'advanced' })
+      .execute();
+
+    const result = await getBenchReport({ start_date: new Date('2024-01-15'), weeks: 2, threshold_percent: 50 });
+
+    expect(result.rows.map(row => row.user_name)).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(result.rows[2].skills).toEqual([{ skill_name: 'TypeScript', level: 'advanced' }]);
+    expect(result.rows[0].skills).toEqual([]);
+  });
+
+  it('should use the threshold to decide who is on the bench', async () => {
+    const { alice, position } = await createTestData();
+
+    await db.insert(allocationsTable)
+      .values({ user_id: alice.id, position_id: position.id, week_start: '2024-01-15', planned_hours: '30' })
+      .execute();
+
+    const strict = await getBenchReport({ start_date: new Date('2024-01-15'), weeks: 1, threshold_percent: 50 });
+    const loose = await getBenchReport({ start_date: new Date('2024-01-15'), weeks: 1, threshold_percent: 100 });
+
+    expect(strict.rows.map(row => row.user_name)).not.toContain('Alice');
+    expect(loose.rows.find(row => row.user_name === 'Alice')).toMatchObject({ utilization_percent: 75, free_hours: 10 });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable } from '../db/schema';
+import { usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, rateCardsTable, exchangeRatesTable } from '../db/schema';
 import { type BookingDetailsInput } from '../schema';
 import { getBookingDetails } from '../handlers/get_booking_details';
 
@@ -324,5 +324,107 @@ describe('getBookingDetails', () => {
         expect(result[0].total_hours).toEqual(7.25);
         expect(typeof result[0].entries[0].hours).toBe('number');
         expect(result[0].entries[0].hours).toEqual(7.25);
+        expect(result[0].entries[0].hourly_rate).toEqual(50); // Consultant rate, no position rate or card
+        expect(result[0].entries[0].amount).toEqual(362.5);
+    });
+
+    it('should price entries with rate cards', async () => {
+        const [user] = await db.insert(usersTable).values({
+            email: 'test@example.com',
+            name: 'Test User',
+            role: 'consultant'
+        }).returning().execute();
+
+        const [client] = await db.insert(clientsTable).values({
+            name: 'Test Client'
+        }).returning().execute();
+
+        const [project] = await db.insert(projectsTable).values({
+            client_id: client.id,
+            name: 'Test Project',
+            status: 'active'
+        }).returning().execute();
+
+        const [position] = await db.insert(positionsTable).values({
+            project_id: project.id,
+            name: 'Developer'
+        }).returning().execute();
+
+        await db.insert(rateCardsTable).values({
+            level: 'position',
+            position_id: position.id,
+            hourly_rate: '120.00',
+            valid_from: '2024-01-10'
+        }).execute();
+
+        await db.insert(timeEntriesTable).values([
+            { user_id: user.id, position_id: position.id, hours: '2.00', date: '2024-01-05', billable: true },
+            { user_id: user.id, position_id: position.id, hours: '3.00', date: '2024-01-15', billable: true }
+        ]).execute();
+
+        const result = await getBookingDetails({
+            user_id: user.id,
+            start_date: new Date('2024-01-01'),
+            end_date: new Date('2024-01-31')
+        });
+
+        expect(result).toHaveLength(2);
+        expect(result[0].entries[0].hourly_rate).toEqual(120);
+        expect(result[0].entries[0].amount).toEqual(360);
+        expect(result[1].entries[0].hourly_rate).toBeNull(); // Before the card, nothing applies
+        expect(result[1].entries[0].amount).toBeNull();
+    });
+
+    it('should give amounts in the client currency and convert them to the reporting currency', async () => {
+        const [user] = await db.insert(usersTable).values({
+            email: 'test@example.com',
+            name: 'Test User',
+            role: 'consultant',
+            hourly_rate: '100.00'
+        }).returning().execute();
+
+        const [client] = await db.insert(clientsTable).values({
+            name: 'Euro Client',
+            currency: 'EUR'
+        }).returning().execute();
+
+        const [project] = await db.insert(projectsTable).values({
+            client_id: client.id,
+            name: 'Test Project',
+            status: 'active'
+        }).returning().execute();
+
+        const [position] = await db.insert(positionsTable).values({
+            project_id: project.id,
+            name: 'Developer'
+        }).returning().execute();
+
+        await db.insert(rateCardsTable).values({
+            level: 'client',
+            client_id: client.id,
+            hourly_rate: '100.00',
+            valid_from: '2024-01-01'
+        }).execute();
+
+        await db.insert(exchangeRatesTable).values({
+            base_currency: 'EUR',
+            quote_currency: 'USD',
+            rate: '1.1',
+            valid_from: '2024-01-10'
+        }).execute();
+
+        await db.insert(timeEntriesTable).values([
+            { user_id: user.id, position_id: position.id, hours: '2.00', date: '2024-01-05', billable: true },
+            { user_id: user.id, position_id: position.id, hours: '3.00', date: '2024-01-15', billable: true }
+        ]).execute();
+
+        const result = await getBookingDetails({
+            user_id: user.id,
+            start_date: new Date('2024-01-01'),
+            end_date: new Date('2024-01-31')
+        });
+
+        expect(result[0].entries[0]).toMatchObject({ amount: 300, currency: 'EUR', amount_reporting: 330 });
+        expect(result[1].entries[0]).toMatchObject({ amount: 200, currency: 'EUR', amount_reporting: null }); // Before the first rate
     });
 });
\ No newline at end of file
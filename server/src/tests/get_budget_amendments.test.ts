@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetAmendmentsTable, clientsTable, positionsTable, projectsTable, usersTable } from '../db/schema';
+import { getBudgetAmendments } from '../handlers/get_budget_amendments';
+
+// Two clients with one project each; the first project also has a position amendment
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' })
+    .returning()
+    .execute();
+
+  const clients = await db.insert(clientsTable)
+    .values([{ name: 'Acme' }, { name: 'Globex' }])
+    .returning()
+    .execute();
+
+  const projects = await db.insert(projectsTable)
+    .values([
+      { client_id: clients[0].id, name: 'Portal', budget: '10000.00' },
+      { client_id: clients[1].id, name: 'Shop', budget: '5000.00' }
+    ])
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: projects[0].id, name: 'Development', budget: '4000.00' })
+    .returning()
+    .execute();
+
+  await db.insert(budgetAmendmentsTable)
+    .values([
+      { project_id: projects[0].id, delta: '2500.00', reason: 'Reporting module', requested_by: user[0].id, status: 'approved' },
+      { position_id: position[0].id, delta: '-500.00', reason: 'Descoped import', requested_by: user[0].id },
+      { project_id: projects[1].id, delta: '1000.00', reason: 'Checkout redesign', requested_by: user[0].id }
+    ])
+    .execute();
+
+  return { clients, projects, position: position[0] };
+};
+
+describe('getBudgetAmendments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return all amendments newest first', async () => {
+    await createTestData();
+
+    const result = await getBudgetAmendments({});
+
+    expect(result).toHaveLength(3);
+    expect(result.map(amendment => amendment.reason)).toEqual(['Checkout redesign', 'Descoped import', 'Reporting module']);
+    expect(typeof result[0].delta).toBe('number');
+  });
+
+  it('should filter by project, position and status', async () => {
+    const { projects, position } = await createTestData();
+
+    const byProject = await getBudgetAmendments({ project_id: projects[0].id });
+    expect(byProject.map(amendment => amendment.reason)).toEqual(['Reporting module']);
+
+    const byPosition = await getBudgetAmendments({ position_id: position.id });
+    expect(byPosition).toHaveLength(1);
+    expect(byPosition[0].delta).toEqual(-500);
+
+    const pending = await getBudgetAmendments({ status: 'pending' });
+    expect(pending).toHaveLength(2);
+  });
+
+  it('should list the amendments on a client\'s projects', async () => {
+    const { clients } = await createTestData();
+
+    const result = await getBudgetAmendments({ client_id: clients[1].id });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].reason).toEqual('Checkout redesign');
+  });
+});
@@ -6,10 +6,17 @@ import {
   projectsTable, 
   positionsTable, 
   usersTable, 
-  timeEntriesTable 
+  timeEntriesTable,
+  expensesTable,
+  rateCardsTable,
+  costRatesTable,
+  milestonesTable,
+  budgetAmendmentsTable,
+  exchangeRatesTable
 } from '../db/schema';
 import { type BudgetConsumptionInput } from '../schema';
 import { getBudgetConsumption } from '../handlers/get_budget_consumption';
+import { eq } from 'drizzle-orm';
 
 // Test data setup
 const createTestUser = async () => {
@@ -131,7 +138,7 @@ describe('getBudgetConsumption', () => {
       expect(result[0].remaining_budget).toBeNull();
     });
 
-    it('should handle position without hourly rate', async () => {
+    it('should fall back to the consultant rate for position without hourly rate', async () => {
       const user = await createTestUser();
       const client = await createTestClient();
       const project = await createTestProject(client.id);
@@ -144,11 +151,136 @@ describe('getBudgetConsumption', () => {
 
       expect(result).toHaveLength(1);
       expect(result[0].total_budget).toBe(5000);
-      expect(result[0].consumed_amount).toBe(0); // No hourly rate
-      expect(result[0].consumption_rate).toBe(0);
+      expect(result[0].consumed_amount).toBe(1000); // 10 hours * $100 user rate
+      expect(result[0].unpriced_hours).toBe(0);
+      expect(result[0].consumption_rate).toBe(20);
+      expect(result[0].remaining_budget).toBe(4000);
+    });
+
+    it('should report hours no rate applies to as unpriced', async () => {
+      const userResult = await db.insert(usersTable)
+        .values({ name: 'No Rate', email: 'norate@test.com', role: 'consultant' })
+        .returning()
+        .execute();
+      const client = await createTestClient();
+      const project = await createTestProject(client.id);
+      const position = await createTestPosition(project.id, '5000.00', null);
+
+      await createTestTimeEntry(userResult[0].id, position.id, '10.00');
+
+      const result = await getBudgetConsumption({ position_id: position.id });
+
+      expect(result[0].consumed_amount).toBe(0);
+      expect(result[0].unpriced_hours).toBe(10);
       expect(result[0].remaining_budget).toBe(5000);
     });
 
+    it('should price entries with the most specific rate card valid on their date', async () => {
+      const user = await createTestUser();
+      const otherUser = (await db.insert(usersTable)
+        .values({ name: 'Other Consultant', email: 'other@test.com', role: 'consultant', hourly_rate: '100.00' })
+        .returning()
+        .execute())[0];
+      const client = await createTestClient();
+      const project = await createTestProject(client.id);
+      const position = await createTestPosition(project.id, '10000.00', '100.00');
+
+      await db.insert(rateCardsTable)
+        .values([
+          { level: 'client', client_id: client.id, hourly_rate: '110.00', valid_from: '2024-01-01' },
+          { level: 'project', project_id: project.id, hourly_rate: '120.00', valid_from: '2024-02-01', valid_to: '2024-02-29' },
+          { level: 'user_position', position_id: position.id, user_id: user.id, hourly_rate: '150.00', valid_from: '2024-03-01' }
+        ])
+        .execute();
+
+      await createTestTimeEntry(user.id, position.id, '1.00', '2023-12-15'); // Legacy position rate: 100
+      await createTestTimeEntry(user.id, position.id, '1.00', '2024-01-15'); // Client card: 110
+      await createTestTimeEntry(user.id, position.id, '1.00', '2024-02-15'); // Project card: 120
+      await createTestTimeEntry(user.id, position.id, '1.00', '2024-03-15'); // User on position: 150
+      await createTestTimeEntry(otherUser.id, position.id, '1.00', '2024-03-15'); // Client card: 110
+
+      const result = await getBudgetConsumption({ position_id: position.id });
+
+      expect(result[0].consumed_amount).toBe(590);
+      expect(result[0].unpriced_hours).toBe(0);
+    });
+
+    it('should add billable expenses to the consumed amount', async () => {
+      const user = await createTestUser();
+      const client = await createTestClient();
+      const project = await createTestProject(client.id);
+      const position = await createTestPosition(project.id, '5000.00', '100.00');
+
+      await createTestTimeEntry(user.id, position.id, '10.00');
+      await db.insert(expensesTable)
+        .values([
+          { user_id: user.id, position_id: position.id, date: '2024-01-10', amount: '250.00', currency: 'USD', category: 'travel' },
+          { user_id: user.id, position_id: position.id, date: '2024-01-11', amount: '40.00', currency: 'USD', category: 'meals', billable: false },
+          { user_id: user.id, position_id: position.id, date: '2024-01-12', amount: '80.00', currency: 'EUR', category: 'software' }
+        ])
+        .execute();
+
+      const result = await getBudgetConsumption({ position_id: position.id });
+
+      expect(result[0].consumed_amount).toBe(1250); // 10 hours * $100 + $250 travel
+      expect(result[0].expense_amount).toBe(250);
+      expect(result[0].unconverted_expenses).toBe(1); // The EUR expense is not summed
+      expect(result[0].remaining_budget).toBe(3750);
+    });
+
+    it('should measure in the client currency and convert to the reporting currency', async () => {
+      const user = await createTestUser();
+      const client = await createTestClient();
+      await db.update(clientsTable).set({ currency: 'EUR' }).execute();
+      const project = await createTestProject(client.id);
+      const position = await createTestPosition(project.id, '5000.00', null);
+      await db.insert(rateCardsTable)
+        .values({ level: 'client', client_id: client.id, hourly_rate: '100.00', valid_from: '2024-01-01' }) // EUR
+        .execute();
+
+      await db.insert(exchangeRatesTable)
+        .values([
+          { base_currency: 'EUR', quote_currency: 'USD', rate: '1.10', valid_from: '2024-01-01' },
+          { base_currency: 'EUR', quote_currency: 'USD', rate: '1.20', valid_from: '2024-01-12' }
+        ])
+        .execute();
+
+      await createTestTimeEntry(user.id, position.id, '10.00', '2024-01-10');
+      await db.insert(expensesTable)
+        .values({ user_id: user.id, position_id: position.id, date: '2024-01-10', amount: '110.00', currency: 'USD', category: 'travel' })
+        .execute();
+
+      const result = await getBudgetConsumption({ position_id: position.id });
+
+      expect(result[0].currency).toBe('EUR');
+      expect(result[0].reporting_currency).toBe('USD');
+      expect(result[0].expense_amount).toBe(100); // 110 USD at 1.10
+      expect(result[0].consumed_amount).toBe(1100);
+      expect(result[0].unconverted_expenses).toBe(0);
+      expect(result[0].consumed_amount_reporting).toBe(1210); // At the rate of 2024-01-10
+      expect(result[0].total_budget_reporting).toBe(6000); // At today's rate
+    });
+
+    it('should convert default rates from the reporting currency to the client currency', async () => {
+      const user = await createTestUser();
+      const client = await createTestClient();
+      await db.update(clientsTable).set({ currency: 'EUR' }).execute();
+      const project = await createTestProject(client.id);
+      const position = await createTestPosition(project.id, '5000.00', '110.00'); // USD
+
+      await db.insert(exchangeRatesTable)
+        .values({ base_currency: 'EUR', quote_currency: 'USD', rate: '1.10', valid_from: '2024-01-01' })
+        .execute();
+
+      await createTestTimeEntry(user.id, position.id, '10.00', '2024-01-10'); // At 100 EUR
+      await createTestTimeEntry(user.id, position.id, '5.00', '2023-12-20'); // Before the first rate
+
+      const result = await getBudgetConsumption({ position_id: position.id });
+
+      expect(result[0].consumed_amount).toBe(1000);
+      expect(result[0].unpriced_hours).toBe(5);
+    });
+
     it('should return empty array for non-existent position', async () => {
       const input: BudgetConsumptionInput = { position_id: 999 };
       const result = await getBudgetConsumption(input);
@@ -182,6 +314,72 @@ describe('getBudgetConsumption', () => {
       expect(result[0].consumed_amount).toBe(2200); // $1000 + $1200
       expect(result[0].consumption_rate).toBe(22); // 2200/10000 * 100
       expect(result[0].remaining_budget).toBe(7800); // 10000 - 2200
+      expect(result[0].original_budget).toBe(10000); // Never amended
+      expect(result[0].amendments).toEqual([]);
+
+      // Each position is a breakdown row
+      expect(result[0].breakdown).toHaveLength(2);
+      const row1 = result[0].breakdown.find(row => row.entity_id === position1.id);
+      const row2 = result[0].breakdown.find(row => row.entity_id === position2.id);
+      expect(row1).toMatchObject({ entity_type: 'position', total_budget: 3000, consumed_amount: 1000, remaining_budget: 2000 });
+      expect(row2).toMatchObject({ entity_type: 'position', total_budget: 2000, consumed_amount: 1200, consumption_rate: 60 });
+    });
+
+    it('should compare effort cost to earned value on fixed-price projects', async () => {
+      const user = await createTestUser();
+      const client = await createTestClient();
+      const project = await createTestProject(client.id, '10000.00');
+      await db.update(projectsTable).set({ billing_model: 'fixed_price' }).execute();
+      const position = await createTestPosition(project.id, undefined, '150.00');
+
+      await db.insert(costRatesTable)
+        .values({ user_id: user.id, hourly_cost: '60.00', valid_from: '2024-01-01' })
+        .execute();
+
+      await db.insert(milestonesTable)
+        .values([
+          { project_id: project.id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31', completed_on: '2024-01-31' },
+          { project_id: project.id, name: 'Delivery', amount: '8000.00', due_date: '2024-03-31' }
+        ])
+        .execute();
+
+      await createTestTimeEntry(user.id, position.id, '20.00', '2024-01-15'); // $1200 at cost
+      await createTestTimeEntry(user.id, position.id, '5.00', '2023-12-20'); // No cost rate yet
+
+      const result = await getBudgetConsumption({ project_id: project.id });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].consumed_amount).toBe(1200); // Bill rates do not matter
+      expect(result[0].unpriced_hours).toBe(5);
+      expect(result[0].earned_value).toBe(2000); // Open milestones are not earned yet
+      expect(result[0].remaining_budget).toBe(8800);
+    });
+
+    it('should report the original budget and the amendment history', async () => {
+      const user = await createTestUser();
+      const client = await createTestClient();
+      const project = await createTestProject(client.id, '12500.00'); // Effective budget after approvals
+
+      await db.insert(budgetAmendmentsTable)
+        .values([
+          { project_id: project.id, delta: '5000.00', reason: 'Extra module', requested_by: user.id, status: 'approved' },
+          { project_id: project.id, delta: '-2500.00', reason: 'Descoped import', requested_by: user.id, status: 'approved' },
+          { project_id: project.id, delta: '1000.00', reason: 'Load testing', requested_by: user.id, status: 'rejected' },
+          { project_id: project.id, delta: '3000.00', reason: 'Training', requested_by: user.id }
+        ])
+        .execute();
+
+      const result = await getBudgetConsumption({ project_id: project.id });
+
+      expect(result[0].total_budget).toBe(12500);
+      expect(result[0].original_budget).toBe(10000); // Pending and rejected amendments do not count
+      expect(result[0].amendments).toHaveLength(4);
+      expect(result[0].amendments.map(amendment => amendment.status).sort()).toEqual(['approved', 'approved', 'pending', 'rejected']);
+      expect(result[0].amendments.find(amendment => amendment.reason === 'Descoped import')?.delta).toBe(-2500);
+
+      const clientResult = await getBudgetConsumption({ client_id: client.id });
+      expect(clientResult[0].original_budget).toBe(10000);
+      expect(clientResult[0].amendments).toHaveLength(4);
     });
 
     it('should return empty array for non-existent project', async () => {
@@ -220,6 +418,43 @@ describe('getBudgetConsumption', () => {
       expect(result[0].consumed_amount).toBe(2700); // $1500 + $1200
       expect(result[0].consumption_rate).toBe(22.5); // 2700/12000 * 100
       expect(result[0].remaining_budget).toBe(9300); // 12000 - 2700
+
+      // Each project is a breakdown row
+      expect(result[0].breakdown).toHaveLength(2);
+      expect(result[0].breakdown.find(row => row.entity_id === project1.id)).toMatchObject({ entity_type: 'project', total_budget: 5000, consumed_amount: 1500 });
+      expect(result[0].breakdown.find(row => row.entity_id === project2.id)).toMatchObject({ entity_type: 'project', total_budget: 7000, consumed_amount: 1200 });
+    });
+
+    it('should measure each project of the client by its billing model', async () => {
+      const user = await createTestUser();
+      const client = await createTestClient();
+      const timeAndMaterials = await createTestProject(client.id, '5000.00');
+      const fixedPrice = await createTestProject(client.id, '10000.00');
+      await db.update(projectsTable).set({ billing_model: 'fixed_price' }).where(eq(projectsTable.id, fixedPrice.id)).execute();
+
+      const billedPosition = await createTestPosition(timeAndMaterials.id, undefined, '100.00');
+      const fixedPosition = await createTestPosition(fixedPrice.id, undefined, '150.00');
+
+      await db.insert(costRatesTable)
+        .values({ user_id: user.id, hourly_cost: '60.00', valid_from: '2024-01-01' })
+        .execute();
+      await db.insert(milestonesTable)
+        .values({ project_id: fixedPrice.id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31', completed_on: '2024-01-31' })
+        .execute();
+
+      await createTestTimeEntry(user.id, billedPosition.id, '10.00'); // $1000 at the bill rate
+      await createTestTimeEntry(user.id, fixedPosition.id, '20.00'); // $1200 at cost
+
+      const [clientReport] = await getBudgetConsumption({ client_id: client.id });
+      const projectReports = [
+        ...await getBudgetConsumption({ project_id: timeAndMaterials.id }),
+        ...await getBudgetConsumption({ project_id: fixedPrice.id })
+      ];
+
+      expect(clientReport.consumed_amount).toBe(2200);
+      expect(clientReport.consumed_amount).toBe(projectReports.reduce((total, report) => total + report.consumed_amount, 0));
+      expect(clientReport.earned_value).toBe(2000);
+      expect(clientReport.remaining_budget).toBe(12800);
     });
 
     it('should return empty array for non-existent client', async () => {
@@ -293,6 +528,7 @@ describe('getBudgetConsumption', () => {
       expect(result[0].consumed_amount).toBe(2000);
       expect(result[0].consumption_rate).toBe(200); // 200% over budget
       expect(result[0].remaining_budget).toBe(-1000); // Negative remaining budget
+      expect(result[0].breakdown).toEqual([]); // Positions have no children
     });
   });
 });
\ No newline at end of file
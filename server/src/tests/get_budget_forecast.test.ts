@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, costRatesTable, projectsTable, positionsTable, timeEntriesTable, usersTable } from '../db/schema';
+import { getBudgetForecast } from '../handlers/get_budget_forecast';
+
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Carl Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({
+      client_id: client[0].id,
+      name: 'Website',
+      budget: '10000.00',
+      start_date: '2024-01-01',
+      end_date: '2024-06-30'
+    })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development', hourly_rate: '100.00' })
+    .returning()
+    .execute();
+
+  return { user: user[0], client: client[0], project: project[0], position: position[0] };
+};
+
+const book = async (userId: number, positionId: number, entries: Array<[string, string]>) => {
+  await db.insert(timeEntriesTable)
+    .values(entries.map(([date, hours]) => ({ user_id: userId, position_id: positionId, date, hours, description: null })))
+    .execute();
+};
+
+describe('getBudgetForecast', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should project the trailing burn rate to exhaustion and completion', async () => {
+    const { user, project, position } = await createTestData();
+    await book(user.id, position.id, [
+      ['2024-01-15', '10.00'],
+      ['2024-02-15', '10.00'],
+      ['2024-03-10', '15.00'],
+      ['2024-03-25', '15.00'],
+      ['2024-04-10', '40.00'] // After as_of
+    ]);
+
+    const [forecast] = await getBudgetForecast({ project_id: project.id, as_of: new Date('2024-03-31'), forecast_window_days: 30 });
+
+    expect(forecast.project_name).toEqual('Website');
+    expect(forecast.client_name).toEqual('Acme Corp');
+    expect(forecast.consumed_amount).toEqual(5000);
+    expect(forecast.remaining_budget).toEqual(5000);
+    expect(forecast.burn_rates).toEqual([
+      { window_days: 7, consumed: 1500, daily_rate: 214.29 },
+      { window_days: 30, consumed: 3000, daily_rate: 100 },
+      { window_days: 90, consumed: 5000, daily_rate: 55.56 }
+    ]);
+    expect(forecast.forecast_daily_rate).toEqual(100);
+
+    // 5,000 left at 100 a day lasts 50 days, 41 days short of the end date
+    expect(forecast.projected_exhaustion_date).toEqual('2024-05-20');
+    expect(forecast.forecast_variance_days).toEqual(-41);
+    expect(forecast.estimate_at_completion).toEqual(14100);
+    expect(forecast.variance_at_completion).toEqual(-4100);
+    expect(forecast.status).toEqual('at_risk');
+
+    expect(forecast.burn_up[0]).toEqual({ date: '2024-01-01', consumed: 0 });
+    expect(forecast.burn_up.at(-2)).toEqual({ date: '2024-03-25', consumed: 5000 });
+    expect(forecast.burn_up.at(-1)).toEqual({ date: '2024-03-31', consumed: 5000 });
+    expect(forecast.burn_up).toHaveLength(14);
+  });
+
+  it('should use the requested forecast window', async () => {
+    const { user, project, position } = await createTestData();
+    await book(user.id, position.id, [['2024-01-15', '10.00'], ['2024-03-25', '5.00']]);
+
+    const [forecast] = await getBudgetForecast({ project_id: project.id, as_of: new Date('2024-03-31'), forecast_window_days: 60 });
+
+    expect(forecast.burn_rates.map(rate => rate.window_days)).toEqual([7, 30, 60, 90]);
+    expect(forecast.forecast_daily_rate).toEqual(8.33); // 500 over 60 days
+    expect(forecast.estimate_at_completion).toEqual(2258.33);
+    expect(forecast.variance_at_completion).toEqual(7741.67);
+    expect(forecast.status).toEqual('on_track');
+  });
+
+  it('should report the day an overrun budget was exhausted', async () => {
+    const { user, project, position } = await createTestData();
+    await book(user.id, position.id, [['2024-02-01', '60.00'], ['2024-02-20', '50.00']]);
+
+    const [forecast] = await getBudgetForecast({ project_id: project.id, as_of: new Date('2024-03-31'), forecast_window_days: 30 });
+
+    expect(forecast.consumed_amount).toEqual(11000);
+    expect(forecast.remaining_budget).toEqual(-1000);
+    expect(forecast.projected_exhaustion_date).toEqual('2024-02-20');
+    expect(forecast.status).toEqual('over_budget');
+  });
+
+  it('should measure fixed-price projects by effort cost', async () => {
+    const { user, client } = await createTestData();
+    const fixed = await db.insert(projectsTable)
+      .values({ client_id: client.id, name: 'Migration', budget: '2000.00', billing_model: 'fixed_price', start_date: '2024-03-01' })
+      .returning()
+      .execute();
+    const position = await db.insert(positionsTable)
+      .values({ project_id: fixed[0].id, name: 'Delivery', hourly_rate: '150.00' })
+      .returning()
+      .execute();
+    await db.insert(costRatesTable)
+      .values({ user_id: user.id, hourly_cost: '60.00', valid_from: '2024-01-01' })
+      .execute();
+    await book(user.id, position[0].id, [['2024-03-11', '10.00']]);
+
+    const [forecast] = await getBudgetForecast({ project_id: fixed[0].id, as_of: new Date('2024-03-20'), forecast_window_days: 30 });
+
+    expect(forecast.consumed_amount).toEqual(600);
+    // Running for 20 days: 30 a day, 1,400 left lasts 47 more days
+    expect(forecast.forecast_daily_rate).toEqual(30);
+    expect(forecast.projected_exhaustion_date).toEqual('2024-05-06');
+    expect(forecast.estimate_at_completion).toBeNull(); // No end date
+    expect(forecast.forecast_variance_days).toBeNull();
+  });
+
+  it('should list budgeted projects of a client and reject unknown projects', async () => {
+    const { client } = await createTestData();
+    await db.insert(projectsTable)
+      .values([
+        { client_id: client.id, name: 'Analytics', budget: '5000.00' },
+        { client_id: client.id, name: 'Open-ended support' }
+      ])
+      .execute();
+
+    const forecasts = await getBudgetForecast({ client_id: client.id, as_of: new Date('2024-03-31'), forecast_window_days: 30 });
+    expect(forecasts.map(forecast => forecast.project_name)).toEqual(['Analytics', 'Website']);
+    expect(forecasts[0].projected_exhaustion_date).toBeNull(); // Nothing burned yet
+
+    await expect(getBudgetForecast({ project_id: 999, forecast_window_days: 30 }))
+      .rejects.toThrow(/project with id 999 does not exist/i);
+  });
+});
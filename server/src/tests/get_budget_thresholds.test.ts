@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetThresholdsTable, clientsTable, projectsTable, positionsTable, usersTable } from '../db/schema';
+import { getBudgetThresholds } from '../handlers/get_budget_thresholds';
+
+describe('getBudgetThresholds', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter thresholds by project or position', async () => {
+    const manager = await db.insert(usersTable)
+      .values({ email: 'pm@example.com', name: 'Pat Manager', role: 'project_manager' })
+      .returning()
+      .execute();
+
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Website', budget: '10000.00' })
+      .returning()
+      .execute();
+
+    const position = await db.insert(positionsTable)
+      .values({ project_id: project[0].id, name: 'Development', budget: '5000.00' })
+      .returning()
+      .execute();
+
+    await db.insert(budgetThresholdsTable)
+      .values([
+        { project_id: project[0].id, percent: 100, notify_user_id: manager[0].id },
+        { project_id: project[0].id, percent: 80, notify_user_id: manager[0].id },
+        { position_id: position[0].id, percent: 90, notify_user_id: manager[0].id }
+      ])
+      .execute();
+
+    const projectThresholds = await getBudgetThresholds({ project_id: project[0].id });
+    expect(projectThresholds.map(threshold => threshold.percent)).toEqual([80, 100]);
+
+    const positionThresholds = await getBudgetThresholds({ position_id: position[0].id });
+    expect(positionThresholds).toHaveLength(1);
+    expect(positionThresholds[0].percent).toEqual(90);
+
+    const all = await getBudgetThresholds({});
+    expect(all).toHaveLength(3);
+  });
+});
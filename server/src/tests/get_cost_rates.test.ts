@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, costRatesTable } from '../db/schema';
+import { getCostRates } from '../handlers/get_cost_rates';
+
+describe('getCostRates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter cost rates by user, most recent first', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+        { email: 'bob@example.com', name: 'Bob', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(costRatesTable)
+      .values([
+        { user_id: users[0].id, hourly_cost: '55.00', valid_from: '2023-01-01', valid_to: '2023-12-31' },
+        { user_id: users[0].id, hourly_cost: '60.00', valid_from: '2024-01-01' },
+        { user_id: users[1].id, hourly_cost: '70.00', valid_from: '2024-01-01' }
+      ])
+      .execute();
+
+    const all = await getCostRates({});
+    expect(all).toHaveLength(3);
+
+    const alice = await getCostRates({ user_id: users[0].id });
+    expect(alice).toHaveLength(2);
+    expect(alice[0].hourly_cost).toEqual(60);
+    expect(alice[1].valid_to).toEqual('2023-12-31');
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { getExchangeRates } from '../handlers/get_exchange_rates';
+
+describe('getExchangeRates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createRates = async () => {
+    await db.insert(exchangeRatesTable)
+      .values([
+        { base_currency: 'GBP', quote_currency: 'USD', rate: '1.27', valid_from: '2024-01-01' },
+        { base_currency: 'EUR', quote_currency: 'USD', rate: '1.08', valid_from: '2024-01-01' },
+        { base_currency: 'EUR', quote_currency: 'USD', rate: '1.10', valid_from: '2024-02-01' },
+        { base_currency: 'EUR', quote_currency: 'CHF', rate: '0.94', valid_from: '2024-01-01' }
+      ])
+      .execute();
+  };
+
+  it('should list rates by pair, newest first', async () => {
+    await createRates();
+
+    const result = await getExchangeRates({});
+
+    expect(result.map(rate => `${rate.base_currency}/${rate.quote_currency} ${rate.valid_from}`)).toEqual([
+      'EUR/CHF 2024-01-01',
+      'EUR/USD 2024-02-01',
+      'EUR/USD 2024-01-01',
+      'GBP/USD 2024-01-01'
+    ]);
+    expect(result[1].rate).toEqual(1.1);
+  });
+
+  it('should filter by a currency on either side', async () => {
+    await createRates();
+
+    const result = await getExchangeRates({ currency: 'CHF' });
+    expect(result).toHaveLength(1);
+    expect(result[0].base_currency).toEqual('EUR');
+
+    expect(await getExchangeRates({ currency: 'GBP' })).toHaveLength(1);
+    expect(await getExchangeRates({ currency: 'JPY' })).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { type CreateExpenseInput } from '../schema';
+import { getExpenseReceipt } from '../handlers/get_expense_receipt';
+import { createExpense } from '../handlers/create_expense';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const createExpenseInput = async (): Promise<CreateExpenseInput> => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Test Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return {
+    user_id: user[0].id,
+    position_id: position[0].id,
+    date: new Date('2024-01-15'),
+    amount: 12,
+    currency: 'USD',
+    category: 'software',
+    description: 'License',
+    billable: true,
+    reimbursable: false,
+    receipt: null
+  };
+};
+
+describe('getExpenseReceipt', () => {
+  let receiptsDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    receiptsDir = await mkdtemp(join(tmpdir(), 'receipts-'));
+    process.env['RECEIPTS_DIR'] = receiptsDir;
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(receiptsDir, { recursive: true, force: true });
+    delete process.env['RECEIPTS_DIR'];
+  });
+
+  it('should return the stored receipt base64 encoded', async () => {
+    const expense = await createExpense({
+      ...await createExpenseInput(),
+      receipt: { filename: 'License.JPG', content_base64: Buffer.from('jpeg bytes').toString('base64') }
+    });
+
+    const result = await getExpenseReceipt({ expense_id: expense.id });
+
+    expect(result.filename).toEqual('License.JPG');
+    expect(result.content_type).toEqual('image/jpeg');
+    expect(Buffer.from(result.content_base64, 'base64').toString()).toEqual('jpeg bytes');
+  });
+
+  it('should throw error when the expense has no receipt', async () => {
+    const expense = await createExpense(await createExpenseInput());
+
+    await expect(getExpenseReceipt({ expense_id: expense.id })).rejects.toThrow(/has no receipt/i);
+    await expect(getExpenseReceipt({ expense_id: 999 })).rejects.toThrow(/Expense with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { getExpenses } from '../handlers/get_expenses';
+
+describe('getExpenses', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter expenses by user, project and date range', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'one@example.com', name: 'One', role: 'consultant' },
+        { email: 'two@example.com', name: 'Two', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projects = await db.insert(projectsTable)
+      .values([
+        { client_id: client[0].id, name: 'Website', status: 'active' },
+        { client_id: client[0].id, name: 'App', status: 'active' }
+      ])
+      .returning()
+      .execute();
+
+    const positions = await db.insert(positionsTable)
+      .values([
+        { project_id: projects[0].id, name: 'Development' },
+        { project_id: projects[1].id, name: 'Development' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(expensesTable)
+      .values([
+        { user_id: users[0].id, position_id: positions[0].id, date: '2024-01-10', amount: '10.00', currency: 'USD', category: 'meals' },
+        { user_id: users[0].id, position_id: positions[1].id, date: '2024-01-20', amount: '20.00', currency: 'USD', category: 'travel' },
+        { user_id: users[1].id, position_id: positions[0].id, date: '2024-02-05', amount: '30.00', currency: 'EUR', category: 'software' }
+      ])
+      .execute();
+
+    const all = await getExpenses({});
+    expect(all).toHaveLength(3);
+    expect(all[0].amount).toEqual(30); // Latest first
+    expect(typeof all[0].amount).toBe('number');
+
+    const mine = await getExpenses({ user_id: users[0].id });
+    expect(mine).toHaveLength(2);
+
+    const website = await getExpenses({ project_id: projects[0].id });
+    expect(website.map(expense => expense.amount)).toEqual([30, 10]);
+
+    const january = await getExpenses({ start_date: new Date('2024-01-15'), end_date: new Date('2024-01-31') });
+    expect(january).toHaveLength(1);
+    expect(january[0].category).toEqual('travel');
+  });
+});
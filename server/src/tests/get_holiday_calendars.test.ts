@@ -0,0 +1,25 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable } from '../db/schema';
+import { getHolidayCalendars } from '../handlers/get_holiday_calendars';
+
+describe('getHolidayCalendars', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return calendars ordered by name', async () => {
+    await db.insert(holidayCalendarsTable)
+      .values([
+        { name: 'United Kingdom', region: 'GB' },
+        { name: 'Germany - Bavaria', region: 'DE-BY' }
+      ])
+      .execute();
+
+    const result = await getHolidayCalendars();
+
+    expect(result).toHaveLength(2);
+    expect(result[0].name).toEqual('Germany - Bavaria');
+    expect(result[1].name).toEqual('United Kingdom');
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { getHolidays } from '../handlers/get_holidays';
+
+describe('getHolidays', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a calendar\'s holidays in date order, optionally for one year', async () => {
+    const [bavaria, uk] = await db.insert(holidayCalendarsTable)
+      .values([{ name: 'Germany - Bavaria' }, { name: 'United Kingdom' }])
+      .returning()
+      .execute();
+
+    await db.insert(holidaysTable)
+      .values([
+        { calendar_id: bavaria.id, date: '2025-01-06', name: 'Heilige Drei Könige' },
+        { calendar_id: bavaria.id, date: '2024-12-25', name: 'Weihnachten' },
+        { calendar_id: bavaria.id, date: '2024-01-06', name: 'Heilige Drei Könige' },
+        { calendar_id: uk.id, date: '2024-12-26', name: 'Boxing Day' }
+      ])
+      .execute();
+
+    const all = await getHolidays({ calendar_id: bavaria.id });
+    expect(all.map(holiday => holiday.date)).toEqual(['2024-01-06', '2024-12-25', '2025-01-06']);
+
+    const in2024 = await getHolidays({ calendar_id: bavaria.id, year: 2024 });
+    expect(in2024).toHaveLength(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, invoicesTable, invoiceLineItemsTable } from '../db/schema';
+import { getInvoiceDetails } from '../handlers/get_invoice_details';
+
+describe('getInvoiceDetails', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the invoice with its line items', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Website', status: 'active' })
+      .returning()
+      .execute();
+
+    const position = await db.insert(positionsTable)
+      .values({ project_id: project[0].id, name: 'Backend' })
+      .returning()
+      .execute();
+
+    const invoice = await db.insert(invoicesTable)
+      .values({ client_id: client[0].id, period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '1250.00', total: '1250.00' })
+      .returning()
+      .execute();
+
+    await db.insert(invoiceLineItemsTable)
+      .values({
+        invoice_id: invoice[0].id,
+        position_id: position[0].id,
+        description: 'Website – Backend',
+        hours: '12.50',
+        hourly_rate: '100.00',
+        amount: '1250.00'
+      })
+      .execute();
+
+    const result = await getInvoiceDetails({ invoice_id: invoice[0].id });
+
+    expect(result.client_name).toEqual('Acme Corp');
+    expect(result.subtotal).toEqual(1250);
+    expect(result.line_items).toHaveLength(1);
+    expect(result.line_items[0].hours).toEqual(12.5);
+    expect(result.line_items[0].hourly_rate).toEqual(100);
+    expect(result.line_items[0].amount).toEqual(1250);
+    expect(result.time_entry_ids).toEqual([]);
+  });
+
+  it('should throw error for non-existent invoice', async () => {
+    await expect(getInvoiceDetails({ invoice_id: 999 }))
+      .rejects.toThrow(/Invoice with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,25 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { invoiceTemplatesTable } from '../db/schema';
+import { getInvoiceTemplates } from '../handlers/get_invoice_templates';
+
+describe('getInvoiceTemplates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the default template first', async () => {
+    await db.insert(invoiceTemplatesTable)
+      .values([
+        { name: 'Alpha', body: '# Invoice' },
+        { name: 'Zulu', body: '# Invoice', is_default: true }
+      ])
+      .execute();
+
+    const result = await getInvoiceTemplates();
+
+    expect(result).toHaveLength(2);
+    expect(result[0].name).toEqual('Zulu');
+    expect(result[1].name).toEqual('Alpha');
+  });
+});
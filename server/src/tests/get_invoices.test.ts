@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, invoicesTable } from '../db/schema';
+import { getInvoices } from '../handlers/get_invoices';
+
+describe('getInvoices', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter invoices by client and status', async () => {
+    const clients = await db.insert(clientsTable)
+      .values([{ name: 'Acme Corp' }, { name: 'Other Client' }])
+      .returning()
+      .execute();
+
+    await db.insert(invoicesTable)
+      .values([
+        { client_id: clients[0].id, status: 'finalized', number: 'INV-2024-0001', period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '800.00', total: '800.00' },
+        { client_id: clients[0].id, period_start: '2024-02-01', period_end: '2024-02-29', subtotal: '1200.50', total: '1200.50' },
+        { client_id: clients[1].id, period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '300.00', total: '300.00' }
+      ])
+      .execute();
+
+    const all = await getInvoices({});
+    expect(all).toHaveLength(3);
+
+    const acme = await getInvoices({ client_id: clients[0].id });
+    expect(acme).toHaveLength(2);
+    expect(acme[0].period_start).toEqual('2024-02-01'); // Latest period first
+    expect(acme[0].subtotal).toEqual(1200.5);
+    expect(typeof acme[0].subtotal).toBe('number');
+
+    const drafts = await getInvoices({ status: 'draft' });
+    expect(drafts).toHaveLength(2);
+  });
+
+  it('should derive overdue from the due date of open invoices', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    await db.insert(invoicesTable)
+      .values([
+        { client_id: client[0].id, status: 'sent', number: 'INV-2024-0001', period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '800.00', total: '800.00', sent_on: '2024-02-01', due_date: '2024-03-02' },
+        { client_id: client[0].id, status: 'partially_paid', number: 'INV-2024-0002', period_start: '2024-02-01', period_end: '2024-02-29', subtotal: '500.00', total: '500.00', amount_paid: '200.00', sent_on: '2099-01-01', due_date: '2099-01-31' },
+        { client_id: client[0].id, status: 'paid', number: 'INV-2024-0003', period_start: '2023-12-01', period_end: '2023-12-31', subtotal: '100.00', total: '100.00', amount_paid: '100.00', sent_on: '2024-01-05', due_date: '2024-02-04' }
+      ])
+      .execute();
+
+    const overdue = await getInvoices({ status: 'overdue' });
+    expect(overdue).toHaveLength(1);
+    expect(overdue[0].number).toEqual('INV-2024-0001');
+    expect(overdue[0].status).toEqual('overdue');
+    expect(overdue[0].balance_due).toEqual(800);
+
+    const partiallyPaid = await getInvoices({ status: 'partially_paid' });
+    expect(partiallyPaid).toHaveLength(1);
+    expect(partiallyPaid[0].amount_paid).toEqual(200);
+    expect(partiallyPaid[0].balance_due).toEqual(300);
+
+    // Stored as sent, but reported as overdue only
+    expect(await getInvoices({ status: 'sent' })).toHaveLength(0);
+
+    const paid = await getInvoices({ status: 'paid' });
+    expect(paid[0].status).toEqual('paid'); // Paid invoices never turn overdue
+  });
+});
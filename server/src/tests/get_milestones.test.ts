@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable } from '../db/schema';
+import { getMilestones } from '../handlers/get_milestones';
+
+describe('getMilestones', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the project milestones by due date', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const projects = await db.insert(projectsTable)
+      .values([
+        { client_id: client[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' },
+        { client_id: client[0].id, name: 'Redesign', billing_model: 'fixed_price', budget: '8000.00' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(milestonesTable)
+      .values([
+        { project_id: projects[0].id, name: 'Report', amount: '6000.00', due_date: '2024-03-31' },
+        { project_id: projects[0].id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31', completed_on: '2024-02-01' },
+        { project_id: projects[1].id, name: 'Mockups', amount: '3000.00', due_date: '2024-02-15' }
+      ])
+      .execute();
+
+    const result = await getMilestones({ project_id: projects[0].id });
+
+    expect(result.map(milestone => milestone.name)).toEqual(['Kick-off', 'Report']);
+    expect(result[0].amount).toEqual(2000);
+    expect(result[0].completed_on).toEqual('2024-02-01');
+    expect(result[1].completed_on).toBeNull();
+  });
+});
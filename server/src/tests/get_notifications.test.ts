@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, usersTable } from '../db/schema';
+import { getNotifications } from '../handlers/get_notifications';
+
+describe('getNotifications', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a user\'s notifications newest first', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'pm@example.com', name: 'Pat Manager', role: 'project_manager' },
+        { email: 'other@example.com', name: 'Olga Other', role: 'project_manager' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(notificationsTable)
+      .values([
+        { user_id: users[0].id, title: 'Older', body: 'First', created_at: new Date('2024-03-01T09:00:00Z'), read_at: new Date('2024-03-01T10:00:00Z') },
+        { user_id: users[0].id, title: 'Newer', body: 'Second', created_at: new Date('2024-03-02T09:00:00Z') },
+        { user_id: users[1].id, title: 'Someone else', body: 'Third' }
+      ])
+      .execute();
+
+    const all = await getNotifications({ user_id: users[0].id });
+    expect(all.map(notification => notification.title)).toEqual(['Newer', 'Older']);
+
+    const unread = await getNotifications({ user_id: users[0].id, unread_only: true });
+    expect(unread.map(notification => notification.title)).toEqual(['Newer']);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, invoicesTable, paymentsTable } from '../db/schema';
+import { getPayments } from '../handlers/get_payments';
+
+describe('getPayments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the payments of an invoice in date order', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const invoices = await db.insert(invoicesTable)
+      .values([
+        { client_id: client[0].id, status: 'partially_paid', number: 'INV-2024-0001', period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '800.00', total: '800.00', amount_paid: '500.00' },
+        { client_id: client[0].id, status: 'paid', number: 'INV-2024-0002', period_start: '2024-02-01', period_end: '2024-02-29', subtotal: '100.00', total: '100.00', amount_paid: '100.00' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(paymentsTable)
+      .values([
+        { invoice_id: invoices[0].id, amount: '300.00', paid_on: '2024-03-01', method: 'bank_transfer', reference: 'TRX-2' },
+        { invoice_id: invoices[0].id, amount: '200.00', paid_on: '2024-02-15', method: 'credit_card' },
+        { invoice_id: invoices[1].id, amount: '100.00', paid_on: '2024-03-05', method: 'cash' }
+      ])
+      .execute();
+
+    const result = await getPayments({ invoice_id: invoices[0].id });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].paid_on).toEqual('2024-02-15');
+    expect(result[0].amount).toEqual(200);
+    expect(typeof result[0].amount).toBe('number');
+    expect(result[0].reference).toBeNull();
+    expect(result[1].reference).toEqual('TRX-2');
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { periodLocksTable, usersTable } from '../db/schema';
+import { getPeriodLocks } from '../handlers/get_period_locks';
+
+describe('getPeriodLocks', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return active locks unless unlocked ones are requested', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({ email: 'admin@example.com', name: 'Admin', role: 'administrator' })
+      .returning()
+      .execute();
+    const admin = userResult[0];
+
+    await db.insert(periodLocksTable)
+      .values([
+        { start_date: '2024-01-01', end_date: '2024-01-31', locked_by: admin.id },
+        {
+          start_date: '2024-02-01',
+          end_date: '2024-02-29',
+          locked_by: admin.id,
+          unlocked_by: admin.id,
+          unlocked_at: new Date(),
+          unlock_reason: 'Correction'
+        }
+      ])
+      .execute();
+
+    const active = await getPeriodLocks({ include_unlocked: false });
+    expect(active).toHaveLength(1);
+    expect(active[0].start_date).toEqual('2024-01-01');
+
+    const all = await getPeriodLocks({ include_unlocked: true });
+    expect(all).toHaveLength(2);
+    expect(all[0].start_date).toEqual('2024-02-01'); // Most recent period first
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { allocationsTable, timeEntriesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { getPlannedVsActualReport } from '../handlers/get_planned_vs_actual_report';
+
+// Creates two consultants planned and booked on two projects in January 2024
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values([
+      { client_id: clientResult[0].id, name: 'Platform', status: 'active' },
+      { client_id: clientResult[0].id, name: 'Website', status: 'active' }
+    ])
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Development' },
+      { project_id: projectResult[1].id, name: 'Design' }
+    ])
+    .returning()
+    .execute();
+
+  const [alice, bob] = userResult;
+  const [platform, website] = positionResult;
+
+  await db.insert(allocationsTable)
+    .values([
+      { user_id: alice.id, position_id: platform.id, week_start: '2024-01-15', planned_hours: '20' },
+      { user_id: alice.id, position_id: website.id, week_start: '2024-01-15', planned_hours: '10' },
+      { user_id: bob.id, position_id: platform.id, week_start: '2024-01-15', planned_hours: '40' },
+      { user_id: bob.id, position_id: platform.id, week_start: '2024-01-22', planned_hours: '40' }
+    ])
+    .execute();
+
+  await db.insert(timeEntriesTable)
+    .values([
+      { user_id: alice.id, position_id: platform.id, hours: '8', date: '2024-01-15' },
+      { user_id: alice.id, position_id: platform.id, hours: '17', date: '2024-01-21' },
+      { user_id: bob.id, position_id: platform.id, hours: '30', date: '2024-01-16', billable: false },
+      // Unplanned work
+      { user_id: bob.id, position_id: website.id, hours: '6', date: '2024-01-17' },
+      { user_id: bob.id, position_id: platform.id, hours: '8', date: '2024-01-22' }
+    ])
+    .execute();
+
+  return { alice, bob, projects: projectResult };
+};
+
+describe('getPlannedVsActualReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should compare planned and booked hours per person and project', async () => {
+    await createTestData();
+
+    // Widened to the week from Monday 15 to Sunday 21
+    const result = await getPlannedVsActualReport({ start_date: new Date('2024-01-17'), end_date: new Date('2024-01-18') });
+
+    expect(result.start_date).toEqual('2024-01-15');
+    expect(result.end_date).toEqual('2024-01-21');
+    expect(result.totals).toEqual({ planned_hours: 70, actual_hours: 61, variance_hours: -9, variance_percent: -12.86 });
+
+    const [alice, bob] = result.people;
+    expect(alice.user_name).toEqual('Alice');
+    expect(alice).toMatchObject({ planned_hours: 30, actual_hours: 25, variance_hours: -5 });
+    expect(alice.projects.map(project => [project.project_name, project.planned_hours, project.actual_hours])).toEqual([
+      ['Platform', 20, 25],
+      ['Website', 10, 0]
+    ]);
+    expect(bob.projects.find(project => project.project_name === 'Website')).toMatchObject({
+      planned_hours: 0,
+      actual_hours: 6,
+      variance_percent: null
+    });
+
+    const [platform, website] = result.projects;
+    expect(platform).toMatchObject({ project_name: 'Platform', planned_hours: 60, actual_hours: 55 });
+    expect(platform.people.map(person => person.user_name)).toEqual(['Alice', 'Bob']);
+    expect(website).toMatchObject({ project_name: 'Website', planned_hours: 10, actual_hours: 6 });
+  });
+
+  it('should filter by user and project', async () => {
+    const { bob, projects } = await createTestData();
+
+    const byUser = await getPlannedVsActualReport({ start_date: new Date('2024-01-15'), end_date: new Date('2024-01-28'), user_id: bob.id });
+    expect(byUser.people).toHaveLength(1);
+    expect(byUser.totals).toMatchObject({ planned_hours: 80, actual_hours: 44 });
+
+    const byProject = await getPlannedVsActualReport({ start_date: new Date('2024-01-15'), end_date: new Date('2024-01-28'), project_id: projects[1].id });
+    expect(byProject.projects).toHaveLength(1);
+    expect(byProject.people.map(person => person.user_name)).toEqual(['Alice', 'Bob']);
+    expect(byProject.totals).toMatchObject({ planned_hours: 10, actual_hours: 6 });
+  });
+
+  it('should return empty figures without plans or bookings', async () => {
+    await createTestData();
+
+    const result = await getPlannedVsActualReport({ start_date: new Date('2024-03-01'), end_date: new Date('2024-03-31') });
+
+    expect(result.totals).toEqual({ planned_hours: 0, actual_hours: 0, variance_hours: 0, variance_percent: null });
+    expect(result.people).toEqual([]);
+    expect(result.projects).toEqual([]);
+  });
+
+  it('should reject an end date before the start date', async () => {
+    await expect(getPlannedVsActualReport({ start_date: new Date('2024-02-01'), end_date: new Date('2024-01-01') }))
+      .rejects.toThrow(/end date must not be before start date/i);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { allocationsTable, absencesTable, workSchedulesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { getPlanningBoard } from '../handlers/get_planning_board';
+
+// Creates two consultants, a manager and two positions to plan
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' },
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'manager@example.com', name: 'Mia Manager', role: 'project_manager' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Development' },
+      { project_id: projectResult[0].id, name: 'Testing' }
+    ])
+    .returning()
+    .execute();
+
+  const [bob, alice, manager] = userResult;
+  return { bob, alice, manager, positions: positionResult };
+};
+
+describe('getPlanningBoard', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list consultants by name with a cell per week', async () => {
+    await createTestData();
+
+    const result = await getPlanningBoard({ start_date: new Date('2024-01-17'), weeks: 3 });
+
+    expect(result.weeks).toEqual(['2024-01-15', '2024-01-22', '2024-01-29']);
+    expect(result.rows.map(row => row.user_name)).toEqual(['Alice', 'Bob']);
+    expect(result.rows[0].cells).toHaveLength(3);
+    expect(result.rows[0].cells[0]).toMatchObject({ week_start: '2024-01-15', capacity_hours: 40, planned_hours: 0, is_overbooked: false });
+    expect(result.rows[0].capacity_hours).toEqual(120);
+  });
+
+  it('should sum allocations and flag weeks planned beyond capacity', async () => {
+    const { alice, positions } = await createTestData();
+
+    await db.insert(allocationsTable)
+      .values([
+        { user_id: alice.id, position_id: positions[0].id, week_start: '2024-01-15', planned_hours: '24' },
+        { user_id: alice.id, position_id: positions[1].id, week_start: '2024-01-15', planned_hours: '16' },
+        { user_id: alice.id, position_id: positions[0].id, week_start: '2024-01-22', planned_hours: '30' },
+        { user_id: alice.id, position_id: positions[1].id, week_start: '2024-01-22', planned_hours: '12.5' }
+      ])
+      .execute();
+
+    const result = await getPlanningBoard({ start_date: new Date('2024-01-15'), weeks: 2 });
+    const [first, second] = result.rows[0].cells;
+
+    expect(first.planned_hours).toEqual(40);
+    expect(first.is_overbooked).toBe(false);
+    expect(first.allocations.map(allocation => allocation.position_name)).toEqual(['Development', 'Testing']);
+    expect(second.planned_hours).toEqual(42.5);
+    expect(second.is_overbooked).toBe(true);
+    expect(result.rows[0].planned_hours).toEqual(82.5);
+  });
+
+  it('should take work schedules and approved absences out of capacity', async () => {
+    const { alice, bob, positions } = await createTestData();
+
+    await db.insert(workSchedulesTable)
+      .values({ user_id: bob.id, weekly_hours: '20', working_days: [1, 2, 3, 4, 5], effective_from: '2024-01-01' })
+      .execute();
+
+    await db.insert(absencesTable)
+      .values({ user_id: alice.id, type: 'vacation', start_date: '2024-01-15', end_date: '2024-01-17', status: 'approved' })
+      .execute();
+
+    await db.insert(allocationsTable)
+      .values({ user_id: alice.id, position_id: positions[0].id, week_start: '2024-01-15', planned_hours: '32' })
+      .execute();
+
+    const result = await getPlanningBoard({ start_date: new Date('2024-01-15'), weeks: 1 });
+    const [aliceRow, bobRow] = result.rows;
+
+    expect(aliceRow.cells[0].capacity_hours).toEqual(16);
+    expect(aliceRow.cells[0].is_overbooked).toBe(true);
+    expect(bobRow.cells[0].capacity_hours).toEqual(20);
+  });
+
+  it('should include other users who have allocations', async () => {
+    const { manager, positions } = await createTestData();
+
+    await db.insert(allocationsTable)
+      .values({ user_id: manager.id, position_id: positions[0].id, week_start: '2024-01-15', planned_hours: '8' })
+      .execute();
+
+    const result = await getPlanningBoard({ start_date: new Date('2024-01-15'), weeks: 1 });
+
+    expect(result.rows.map(row => row.user_name)).toEqual(['Alice', 'Bob', 'Mia Manager']);
+    expect(result.rows[2].planned_hours).toEqual(8);
+  });
+});
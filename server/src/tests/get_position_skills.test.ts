@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, positionSkillsTable, skillsTable } from '../db/schema';
+import { getPositionSkills } from '../handlers/get_position_skills';
+
+describe('getPositionSkills', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return only the skills of the given position', async () => {
+    const clientResult = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const projectResult = await db.insert(projectsTable)
+      .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const [development, testing] = await db.insert(positionsTable)
+      .values([
+        { project_id: projectResult[0].id, name: 'Development' },
+        { project_id: projectResult[0].id, name: 'Testing' }
+      ])
+      .returning()
+      .execute();
+
+    const [typescript, playwright] = await db.insert(skillsTable)
+      .values([
+        { name: 'TypeScript', category: 'Languages' },
+        { name: 'Playwright', category: 'Testing' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(positionSkillsTable)
+      .values([
+        { position_id: development.id, skill_id: typescript.id, min_level: 'advanced' },
+        { position_id: testing.id, skill_id: playwright.id, min_level: 'intermediate' },
+        { position_id: testing.id, skill_id: typescript.id, min_level: 'beginner' }
+      ])
+      .execute();
+
+    const result = await getPositionSkills({ position_id: testing.id });
+
+    expect(result.map(skill => [skill.skill_name, skill.min_level])).toEqual([
+      ['Playwright', 'intermediate'],
+      ['TypeScript', 'beginner']
+    ]);
+    expect(result[0].category).toEqual('Testing');
+  });
+});
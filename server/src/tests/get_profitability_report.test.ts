@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, usersTable, timeEntriesTable, costRatesTable, exchangeRatesTable, rateCardsTable } from '../db/schema';
+import { getProfitabilityReport } from '../handlers/get_profitability_report';
+import { eq } from 'drizzle-orm';
+
+// Acme has one project with a priced and an unpriced position; Globex has a single entry
+const createTestData = async () => {
+  const clients = await db.insert(clientsTable)
+    .values([{ name: 'Acme Corp' }, { name: 'Globex' }])
+    .returning()
+    .execute();
+
+  const projects = await db.insert(projectsTable)
+    .values([
+      { client_id: clients[0].id, name: 'Website Relaunch', status: 'active' },
+      { client_id: clients[1].id, name: 'Data Migration', status: 'active' }
+    ])
+    .returning()
+    .execute();
+
+  const positions = await db.insert(positionsTable)
+    .values([
+      { project_id: projects[0].id, name: 'Backend', hourly_rate: '100.00' },
+      { project_id: projects[0].id, name: 'Design' }, // No bill rate anywhere
+      { project_id: projects[1].id, name: 'Migration', hourly_rate: '90.00' }
+    ])
+    .returning()
+    .execute();
+
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' },
+      { email: 'carol@example.com', name: 'Carol', role: 'consultant', hourly_rate: '150.00' } // Bill rate only, no cost rate
+    ])
+    .returning()
+    .execute();
+
+  const [alice, bob, carol] = users;
+  const [backend, design, migration] = positions;
+
+  await db.insert(costRatesTable)
+    .values([
+      { user_id: alice.id, hourly_cost: '60.00', valid_from: '2024-01-01' },
+      { user_id: bob.id, hourly_cost: '50.00', valid_from: '2023-01-01', valid_to: '2024-01-31' },
+      { user_id: bob.id, hourly_cost: '70.00', valid_from: '2024-02-01' }
+    ])
+    .execute();
+
+  await db.insert(timeEntriesTable)
+    .values([
+      { user_id: alice.id, position_id: backend.id, hours: '8.00', date: '2024-01-10' },
+      { user_id: bob.id, position_id: backend.id, hours: '4.00', date: '2024-02-05' },
+      { user_id: bob.id, position_id: backend.id, hours: '2.00', date: '2024-01-15', billable: false },
+      { user_id: alice.id, position_id: design.id, hours: '3.00', date: '2024-01-20' },
+      { user_id: carol.id, position_id: backend.id, hours: '1.00', date: '2024-01-22' },
+      { user_id: alice.id, position_id: migration.id, hours: '5.00', date: '2024-02-10' },
+      { user_id: alice.id, position_id: backend.id, hours: '6.00', date: '2024-03-01' } // Outside the period
+    ])
+    .execute();
+
+  return { clients, projects, positions, users };
+};
+
+describe('getProfitabilityReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should compute revenue, cost and margin per client and project', async () => {
+    await createTestData();
+
+    const report = await getProfitabilityReport({ start_date: new Date('2024-01-01'), end_date: new Date('2024-02-29') });
+
+    expect(report.start_date).toEqual('2024-01-01');
+    expect(report.end_date).toEqual('2024-02-29');
+    expect(report.clients.map(client => client.client_name)).toEqual(['Acme Corp', 'Globex']);
+
+    const acme = report.clients[0];
+    expect(acme.hours).toEqual(18);
+    expect(acme.billable_hours).toEqual(16);
+    expect(acme.revenue).toEqual(1300); // 8h + 4h at 100, Carol's 1h at the position's 100
+    expect(acme.cost).toEqual(1040); // Alice 11h at 60, Bob 2h at 50 and 4h at 70
+    expect(acme.gross_margin).toEqual(260);
+    expect(acme.margin_percent).toEqual(20);
+    expect(acme.unpriced_hours).toEqual(3);
+    expect(acme.uncosted_hours).toEqual(1);
+
+    const globex = report.clients[1];
+    expect(globex.revenue).toEqual(450);
+    expect(globex.cost).toEqual(300);
+    expect(globex.projects[0].project_name).toEqual('Data Migration');
+
+    expect(report.totals.revenue).toEqual(1750);
+    expect(report.totals.cost).toEqual(1340);
+    expect(report.totals.gross_margin).toEqual(410);
+    expect(report.totals.margin_percent).toEqual(23.43);
+  });
+
+  it('should drill into positions and consultants', async () => {
+    const { clients } = await createTestData();
+
+    const report = await getProfitabilityReport({
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-02-29'),
+      client_id: clients[0].id
+    });
+
+    expect(report.clients).toHaveLength(1);
+    const project = report.clients[0].projects[0];
+    expect(project.project_name).toEqual('Website Relaunch');
+
+    expect(project.positions.map(position => position.position_name)).toEqual(['Backend', 'Design']);
+    const [backend, design] = project.positions;
+    expect(backend.revenue).toEqual(1300);
+    expect(backend.cost).toEqual(860);
+    expect(backend.margin_percent).toEqual(33.85);
+    expect(design.revenue).toEqual(0);
+    expect(design.cost).toEqual(180);
+    expect(design.gross_margin).toEqual(-180);
+    expect(design.margin_percent).toBeNull();
+
+    expect(project.consultants.map(consultant => consultant.user_name)).toEqual(['Alice', 'Bob', 'Carol']);
+    const [alice, bob, carol] = project.consultants;
+    expect(alice.hours).toEqual(11);
+    expect(alice.revenue).toEqual(800);
+    expect(alice.cost).toEqual(660);
+    expect(bob.billable_hours).toEqual(4);
+    expect(bob.cost).toEqual(380);
+    expect(carol.revenue).toEqual(100);
+    expect(carol.uncosted_hours).toEqual(1);
+  });
+
+  it('should convert revenue into the reporting currency at the rate of each entry', async () => {
+    const { clients, positions, users } = await createTestData();
+    await db.update(clientsTable).set({ currency: 'EUR' }).where(eq(clientsTable.id, clients[1].id)).execute();
+    await db.insert(rateCardsTable)
+      .values({ level: 'client', client_id: clients[1].id, hourly_rate: '90.00', valid_from: '2024-01-01' })
+      .execute();
+
+    await db.insert(exchangeRatesTable)
+      .values({ base_currency: 'EUR', quote_currency: 'USD', rate: '1.20', valid_from: '2024-02-01' })
+      .execute();
+
+    // Booked before the first EUR rate
+    await db.insert(timeEntriesTable)
+      .values({ user_id: users[0].id, position_id: positions[2].id, hours: '2.00', date: '2024-01-25' })
+      .execute();
+
+    const report = await getProfitabilityReport({
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-02-29'),
+      client_id: clients[1].id
+    });
+
+    expect(report.reporting_currency).toEqual('USD');
+    const globex = report.clients[0];
+    expect(globex.currency).toEqual('EUR');
+    expect(globex.original_revenue).toEqual(630); // 7h at 90 EUR
+    expect(globex.revenue).toEqual(540); // Only the converted 5h
+    expect(globex.unconverted_hours).toEqual(2);
+    expect(globex.cost).toEqual(420); // Cost rates are in the reporting currency already
+    expect(globex.projects[0].original_revenue).toEqual(630);
+  });
+
+  it('should filter by project', async () => {
+    const { projects } = await createTestData();
+
+    const report = await getProfitabilityReport({
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-12-31'),
+      project_id: projects[0].id
+    });
+
+    expect(report.clients).toHaveLength(1);
+    expect(report.clients[0].projects).toHaveLength(1);
+    expect(report.totals.hours).toEqual(24); // Includes the March entry
+  });
+
+  it('should return empty totals without time entries', async () => {
+    const report = await getProfitabilityReport({ start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') });
+
+    expect(report.clients).toEqual([]);
+    expect(report.totals.revenue).toEqual(0);
+    expect(report.totals.margin_percent).toBeNull();
+  });
+
+  it('should reject an inverted period', async () => {
+    await expect(getProfitabilityReport({ start_date: new Date('2024-02-01'), end_date: new Date('2024-01-31') }))
+      .rejects.toThrow(/must not be before start date/i);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, rateCardsTable } from '../db/schema';
+import { getRateCards } from '../handlers/get_rate_cards';
+
+describe('getRateCards', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter rate cards by scope', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Acme Corp' })
+      .returning()
+      .execute();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Website Relaunch', status: 'active' })
+      .returning()
+      .execute();
+
+    await db.insert(rateCardsTable)
+      .values([
+        { level: 'client', client_id: client[0].id, hourly_rate: '100.00', valid_from: '2023-01-01', valid_to: '2023-12-31' },
+        { level: 'client', client_id: client[0].id, hourly_rate: '110.00', valid_from: '2024-01-01' },
+        { level: 'project', project_id: project[0].id, hourly_rate: '120.00', valid_from: '2024-01-01' }
+      ])
+      .execute();
+
+    const all = await getRateCards({});
+    expect(all).toHaveLength(3);
+
+    const clientCards = await getRateCards({ client_id: client[0].id });
+    expect(clientCards).toHaveLength(2);
+    expect(clientCards[0].hourly_rate).toEqual(110); // Most recent first
+    expect(clientCards[1].valid_to).toEqual('2023-12-31');
+
+    const projectCards = await getRateCards({ project_id: project[0].id });
+    expect(projectCards).toHaveLength(1);
+    expect(projectCards[0].level).toEqual('project');
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, retainersTable, retainerScopesTable } from '../db/schema';
+import { getRetainerBalances } from '../handlers/get_retainer_balances';
+
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const clients = await db.insert(clientsTable)
+    .values([{ name: 'Acme Corp' }, { name: 'Beta Inc' }])
+    .returning()
+    .execute();
+
+  const projects = await db.insert(projectsTable)
+    .values([
+      { client_id: clients[0].id, name: 'Support' },
+      { client_id: clients[1].id, name: 'Hosting' }
+    ])
+    .returning()
+    .execute();
+
+  const positions = await db.insert(positionsTable)
+    .values([
+      { project_id: projects[0].id, name: 'First level', hourly_rate: '100.00' },
+      { project_id: projects[0].id, name: 'Second level' }, // No rate
+      { project_id: projects[1].id, name: 'Operations', hourly_rate: '90.00' }
+    ])
+    .returning()
+    .execute();
+
+  return { user: user[0], clients, projects, positions };
+};
+
+describe('getRetainerBalances', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should burn down an hour bundle by day', async () => {
+    const { user, clients, projects, positions } = await createTestData();
+
+    const retainer = await db.insert(retainersTable)
+      .values({ client_id: clients[0].id, name: 'Support hours', purchased_hours: '10.00', valid_from: '2024-01-01', valid_to: '2024-03-31' })
+      .returning()
+      .execute();
+
+    await db.insert(retainerScopesTable)
+      .values({ retainer_id: retainer[0].id, project_id: projects[0].id })
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '3.00', date: '2024-01-10', billable: true },
+        { user_id: user.id, position_id: positions[1].id, hours: '2.00', date: '2024-01-10', billable: true },
+        { user_id: user.id, position_id: positions[0].id, hours: '7.00', date: '2024-02-05', billable: true },
+        { user_id: user.id, position_id: positions[0].id, hours: '4.00', date: '2024-02-06', billable: false }, // Not billable
+        { user_id: user.id, position_id: positions[0].id, hours: '5.00', date: '2024-04-02', billable: true } // After the window
+      ])
+      .execute();
+
+    const result = await getRetainerBalances({ client_id: clients[0].id, as_of: new Date('2024-02-10') });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].client_name).toEqual('Acme Corp');
+    expect(result[0].currency).toEqual('USD');
+    expect(result[0].unit).toEqual('hours');
+    expect(result[0].purchased).toEqual(10);
+    expect(result[0].used).toEqual(12);
+    expect(result[0].remaining).toEqual(-2);
+    expect(result[0].used_percent).toEqual(120);
+    expect(result[0].is_active).toBe(true);
+    expect(result[0].is_exhausted).toBe(true);
+    expect(result[0].scopes).toHaveLength(1);
+    expect(result[0].burn_down).toEqual([
+      { date: '2024-01-10', used: 5, remaining: 5 },
+      { date: '2024-02-05', used: 12, remaining: -2 }
+    ]);
+  });
+
+  it('should price time for amount bundles and report unpriced hours', async () => {
+    const { user, clients, positions } = await createTestData();
+
+    const retainer = await db.insert(retainersTable)
+      .values({ client_id: clients[0].id, name: 'Prepaid budget', purchased_amount: '5000.00', valid_from: '2024-01-01', valid_to: '2024-12-31' })
+      .returning()
+      .execute();
+
+    await db.insert(retainerScopesTable)
+      .values([
+        { retainer_id: retainer[0].id, position_id: positions[0].id },
+        { retainer_id: retainer[0].id, position_id: positions[1].id }
+      ])
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '8.00', date: '2024-01-10', billable: true },
+        { user_id: user.id, position_id: positions[1].id, hours: '3.00', date: '2024-01-11', billable: true }
+      ])
+      .execute();
+
+    const result = await getRetainerBalances({ position_id: positions[0].id, as_of: new Date('2025-01-15') });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].unit).toEqual('amount');
+    expect(result[0].used).toEqual(800);
+    expect(result[0].remaining).toEqual(4200);
+    expect(result[0].unpriced_hours).toEqual(3);
+    expect(result[0].is_active).toBe(false);
+    expect(result[0].is_exhausted).toBe(false);
+  });
+
+  it('should filter by client and position', async () => {
+    const { clients, projects, positions } = await createTestData();
+
+    const retainers = await db.insert(retainersTable)
+      .values([
+        { client_id: clients[1].id, name: 'Hosting hours', purchased_hours: '20.00', valid_from: '2024-01-01', valid_to: '2024-12-31' },
+        { client_id: clients[0].id, name: 'Support hours', purchased_hours: '10.00', valid_from: '2024-01-01', valid_to: '2024-12-31' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(retainerScopesTable)
+      .values([
+        { retainer_id: retainers[0].id, project_id: projects[1].id },
+        { retainer_id: retainers[1].id, position_id: positions[0].id }
+      ])
+      .execute();
+
+    const all = await getRetainerBalances({});
+    expect(all.map(balance => balance.name)).toEqual(['Support hours', 'Hosting hours']); // By client name
+
+    const beta = await getRetainerBalances({ client_id: clients[1].id });
+    expect(beta.map(balance => balance.name)).toEqual(['Hosting hours']);
+
+    expect(await getRetainerBalances({ position_id: positions[1].id })).toHaveLength(0);
+    expect(await getRetainerBalances({ position_id: 999 })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { skillsTable } from '../db/schema';
+import { getSkills } from '../handlers/get_skills';
+
+describe('getSkills', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return no skills when the catalogue is empty', async () => {
+    const result = await getSkills();
+
+    expect(result).toEqual([]);
+  });
+
+  it('should order skills by category and name', async () => {
+    await db.insert(skillsTable)
+      .values([
+        { name: 'TypeScript', category: 'Languages' },
+        { name: 'Kubernetes', category: 'Cloud' },
+        { name: 'Go', category: 'Languages' },
+        { name: 'AWS', category: 'Cloud' }
+      ])
+      .execute();
+
+    const result = await getSkills();
+
+    expect(result.map(skill => skill.name)).toEqual(['AWS', 'Kubernetes', 'Go', 'TypeScript']);
+  });
+});
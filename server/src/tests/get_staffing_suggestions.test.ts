@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  allocationsTable, assignmentsTable, usersTable, clientsTable, projectsTable, positionsTable,
+  skillsTable, userSkillsTable, positionSkillsTable
+} from '../db/schema';
+import { getStaffingSuggestions } from '../handlers/get_staffing_suggestions';
+
+// Creates a two-week project whose position requires TypeScript and Go, and three consultants
+const createTestData = async (projectDates: { start_date: string | null; end_date: string | null } = { start_date: '2024-01-15', end_date: '2024-01-28' }) => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' },
+      { email: 'carol@example.com', name: 'Carol', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active', ...projectDates })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const [typescript, go] = await db.insert(skillsTable)
+    .values([
+      { name: 'TypeScript', category: 'Languages' },
+      { name: 'Go', category: 'Languages' }
+    ])
+    .returning()
+    .execute();
+
+  const [alice, bob, carol] = userResult;
+  const position = positionResult[0];
+
+  await db.insert(positionSkillsTable)
+    .values([
+      { position_id: position.id, skill_id: typescript.id, min_level: 'advanced' },
+      { position_id: position.id, skill_id: go.id, min_level: 'intermediate' }
+    ])
+    .execute();
+
+  await db.insert(userSkillsTable)
+    .values([
+      { user_id: alice.id, skill_id: typescript.id, level: 'expert' },
+      { user_id: alice.id, skill_id: go.id, level: 'beginner' },
+      { user_id: bob.id, skill_id: typescript.id, level: 'advanced' }
+    ])
+    .execute();
+
+  return { alice, bob, carol, position };
+};
+
+describe('getStaffingSuggestions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should rank users by how well they cover the required skills', async () => {
+    const { position } = await createTestData();
+
+    const result = await getStaffingSuggestions({ position_id: position.id, as_of: new Date('2024-01-10'), limit: 10 });
+
+    expect(result.period_start).toEqual('2024-01-15');
+    expect(result.period_end).toEqual('2024-01-28');
+    expect(result.suggestions.map(suggestion => [suggestion.user_name, suggestion.skill_match_percent])).toEqual([
+      ['Alice', 75],
+      ['Bob', 50],
+      ['Carol', 0]
+    ]);
+    expect(result.suggestions[0].is_qualified).toBe(false);
+    expect(result.suggestions[0].skills).toEqual([
+      expect.objectContaining({ skill_name: 'Go', min_level: 'intermediate', level: 'beginner' }),
+      expect.objectContaining({ skill_name: 'TypeScript', min_level: 'advanced', level: 'expert' })
+    ]);
+    expect(result.suggestions[2].skills.every(skill => skill.level === null)).toBe(true);
+  });
+
+  it('should prefer free hours among equal matches and mark assigned users', async () => {
+    const { alice, bob, carol, position } = await createTestData();
+
+    // Without requirements everyone matches fully
+    await db.delete(positionSkillsTable).execute();
+
+    await db.insert(allocationsTable)
+      .values([
+        { user_id: alice.id, position_id: position.id, week_start: '2024-01-15', planned_hours: '30' },
+        // Overbooking one week leaves the other week's hours free
+        { user_id: bob.id, position_id: position.id, week_start: '2024-01-22', planned_hours: '50' }
+      ])
+      .execute();
+
+    await db.insert(assignmentsTable)
+      .values({ user_id: alice.id, position_id: position.id, start_date: '2024-01-15', end_date: null })
+      .execute();
+
+    const result = await getStaffingSuggestions({ position_id: position.id, as_of: new Date('2024-01-10'), limit: 10 });
+    const [first, second, third] = result.suggestions;
+
+    expect(first).toMatchObject({ user_id: carol.id, skill_match_percent: 100, is_qualified: true, free_hours: 80, is_assigned: false });
+    expect(second).toMatchObject({ user_id: alice.id, capacity_hours: 80, planned_hours: 30, free_hours: 50, is_assigned: true });
+    expect(third).toMatchObject({ user_id: bob.id, planned_hours: 50, free_hours: 40 });
+  });
+
+  it('should staff open-ended projects for twelve weeks from the Monday of the reference date', async () => {
+    const { position } = await createTestData({ start_date: null, end_date: null });
+
+    const result = await getStaffingSuggestions({ position_id: position.id, as_of: new Date('2024-01-17'), limit: 2 });
+
+    expect(result.period_start).toEqual('2024-01-15');
+    expect(result.period_end).toEqual('2024-04-07');
+    expect(result.suggestions).toHaveLength(2);
+    expect(result.suggestions[0].capacity_hours).toEqual(480);
+  });
+
+  it('should reject unknown positions and projects that have ended', async () => {
+    const { position } = await createTestData();
+
+    await expect(getStaffingSuggestions({ position_id: 9999, limit: 10 })).rejects.toThrow(/position with id 9999 does not exist/i);
+    await expect(getStaffingSuggestions({ position_id: position.id, as_of: new Date('2024-02-01'), limit: 10 })).rejects.toThrow(/ended on 2024-01-28/i);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timeEntryRevisionsTable, usersTable } from '../db/schema';
+import { getTimeEntryRevisions } from '../handlers/get_time_entry_revisions';
+
+const snapshot = (hours: number) => ({
+  user_id: 1,
+  position_id: 1,
+  description: 'Work',
+  hours,
+  date: '2024-01-15',
+  billable: true
+});
+
+describe('getTimeEntryRevisions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return revisions for an entry in chronological order', async () => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'consultant@example.com',
+        name: 'Test Consultant',
+        role: 'consultant'
+      })
+      .returning()
+      .execute();
+    const user = userResult[0];
+
+    await db.insert(timeEntryRevisionsTable)
+      .values([
+        { time_entry_id: 1, action: 'update', changed_by: user.id, before: snapshot(8), after: snapshot(6) },
+        { time_entry_id: 1, action: 'delete', changed_by: user.id, before: snapshot(6), after: null },
+        { time_entry_id: 2, action: 'update', changed_by: user.id, before: snapshot(1), after: snapshot(2) }
+      ])
+      .execute();
+
+    const result = await getTimeEntryRevisions({ time_entry_id: 1 });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].action).toEqual('update');
+    expect(result[0].before.hours).toEqual(8);
+    expect(result[0].after?.hours).toEqual(6);
+    expect(result[1].action).toEqual('delete');
+    expect(result[1].after).toBeNull();
+    expect(result[1].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should return empty array for an entry without revisions', async () => {
+    const result = await getTimeEntryRevisions({ time_entry_id: 42 });
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timesheetsTable, usersTable } from '../db/schema';
+import { getTimesheets } from '../handlers/get_timesheets';
+
+describe('getTimesheets', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should filter by user, week and status', async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'a@example.com', name: 'A', role: 'consultant' },
+        { email: 'b@example.com', name: 'B', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+    const [userA, userB] = userResult;
+
+    await db.insert(timesheetsTable)
+      .values([
+        { user_id: userA.id, week_start: '2024-01-08', status: 'approved' },
+        { user_id: userA.id, week_start: '2024-01-15', status: 'submitted' },
+        { user_id: userB.id, week_start: '2024-01-15', status: 'submitted' }
+      ])
+      .execute();
+
+    const all = await getTimesheets({});
+    expect(all).toHaveLength(3);
+    expect(all[0].week_start).toEqual('2024-01-15'); // Most recent week first
+
+    const submitted = await getTimesheets({ status: 'submitted' });
+    expect(submitted).toHaveLength(2);
+
+    const userAWeeks = await getTimesheets({ user_id: userA.id });
+    expect(userAWeeks).toHaveLength(2);
+
+    const oneWeek = await getTimesheets({ user_id: userA.id, week_start: new Date('2024-01-10') });
+    expect(oneWeek).toHaveLength(1);
+    expect(oneWeek[0].status).toEqual('approved');
+  });
+});
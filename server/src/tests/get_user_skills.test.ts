@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { skillsTable, userSkillsTable, usersTable } from '../db/schema';
+import { getUserSkills } from '../handlers/get_user_skills';
+
+// Creates two consultants with overlapping skills
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'bob@example.com', name: 'Bob', role: 'consultant' },
+      { email: 'alice@example.com', name: 'Alice', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const skillResult = await db.insert(skillsTable)
+    .values([
+      { name: 'TypeScript', category: 'Languages' },
+      { name: 'Go', category: 'Languages' }
+    ])
+    .returning()
+    .execute();
+
+  const [bob, alice] = userResult;
+  const [typescript, go] = skillResult;
+
+  await db.insert(userSkillsTable)
+    .values([
+      { user_id: bob.id, skill_id: typescript.id, level: 'expert' },
+      { user_id: alice.id, skill_id: typescript.id, level: 'beginner' },
+      { user_id: alice.id, skill_id: go.id, level: 'advanced' }
+    ])
+    .execute();
+
+  return { bob, alice, typescript, go };
+};
+
+describe('getUserSkills', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list everyone\'s skills by user and skill name', async () => {
+    await createTestData();
+
+    const result = await getUserSkills({});
+
+    expect(result.map(skill => `${skill.user_name}: ${skill.skill_name}`)).toEqual([
+      'Alice: Go',
+      'Alice: TypeScript',
+      'Bob: TypeScript'
+    ]);
+  });
+
+  it('should filter by user', async () => {
+    const { bob } = await createTestData();
+
+    const result = await getUserSkills({ user_id: bob.id });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].level).toEqual('expert');
+  });
+
+  it('should filter by skill', async () => {
+    const { typescript } = await createTestData();
+
+    const result = await getUserSkills({ skill_id: typescript.id });
+
+    expect(result.map(skill => [skill.user_name, skill.level])).toEqual([['Alice', 'beginner'], ['Bob', 'expert']]);
+  });
+});
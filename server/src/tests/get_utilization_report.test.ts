@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, positionsTable, projectsTable, clientsTable, timeEntriesTable } from '../db/schema';
+import { usersTable, positionsTable, projectsTable, clientsTable, timeEntriesTable, timesheetsTable, workSchedulesTable, absencesTable, holidayCalendarsTable, holidaysTable } from '../db/schema';
 import { type UtilizationReportInput } from '../schema';
 import { getUtilizationReport } from '../handlers/get_utilization_report';
 
@@ -118,7 +118,11 @@ describe('getUtilizationReport', () => {
     expect(user1Report!.user_name).toEqual('John Doe');
     expect(user1Report!.total_hours).toEqual(10);
     expect(user1Report!.billable_hours).toEqual(8);
-    expect(user1Report!.utilization_rate).toEqual(80); // 8/10 * 100
+    expect(user1Report!.billable_ratio).toEqual(80); // 8/10 * 100
+    expect(user1Report!.available_hours).toEqual(184); // 23 weekdays at the default 8 hours
+    expect(user1Report!.utilization_rate).toEqual(5.43); // 10/184 * 100
+    expect(user1Report!.billable_utilization_rate).toEqual(4.35); // 8/184 * 100
+    expect(user1Report!.unbooked_hours).toEqual(174);
     expect(user1Report!.period_start).toEqual(input.start_date);
     expect(user1Report!.period_end).toEqual(input.end_date);
 
@@ -126,7 +130,7 @@ describe('getUtilizationReport', () => {
     expect(user2Report!.user_name).toEqual('Jane Smith');
     expect(user2Report!.total_hours).toEqual(4);
     expect(user2Report!.billable_hours).toEqual(4);
-    expect(user2Report!.utilization_rate).toEqual(100); // 4/4 * 100
+    expect(user2Report!.billable_ratio).toEqual(100); // 4/4 * 100
   });
 
   it('should return utilization report for specific user when user_id provided', async () => {
@@ -209,7 +213,7 @@ describe('getUtilizationReport', () => {
     expect(result[0].user_name).toEqual('John Doe');
     expect(result[0].total_hours).toEqual(6);
     expect(result[0].billable_hours).toEqual(6);
-    expect(result[0].utilization_rate).toEqual(100);
+    expect(result[0].billable_ratio).toEqual(100);
   });
 
   it('should filter time entries by date range correctly', async () => {
@@ -299,7 +303,7 @@ describe('getUtilizationReport', () => {
     expect(result).toHaveLength(1);
     expect(result[0].total_hours).toEqual(8); // Only entries from Jan 15 and 20
     expect(result[0].billable_hours).toEqual(6); // Only billable entry from Jan 15
-    expect(result[0].utilization_rate).toEqual(75); // 6/8 * 100
+    expect(result[0].billable_ratio).toEqual(75); // 6/8 * 100
   });
 
   it('should handle users with no time entries', async () => {
@@ -324,7 +328,9 @@ describe('getUtilizationReport', () => {
     expect(result[0].user_name).toEqual('John Doe');
     expect(result[0].total_hours).toEqual(0);
     expect(result[0].billable_hours).toEqual(0);
+    expect(result[0].billable_ratio).toEqual(0);
     expect(result[0].utilization_rate).toEqual(0);
+    expect(result[0].unbooked_hours).toEqual(184);
   });
 
   it('should handle decimal hours correctly', async () => {
@@ -394,7 +400,7 @@ describe('getUtilizationReport', () => {
     expect(result).toHaveLength(1);
     expect(result[0].total_hours).toEqual(7.75);
     expect(result[0].billable_hours).toEqual(7.5);
-    expect(result[0].utilization_rate).toEqual(96.77); // 7.5/7.75 * 100, rounded to 2 decimals
+    expect(result[0].billable_ratio).toEqual(96.77); // 7.5/7.75 * 100, rounded to 2 decimals
   });
 
   it('should handle non-existent user_id gracefully', async () => {
@@ -407,4 +413,192 @@ describe('getUtilizationReport', () => {
     const result = await getUtilizationReport(input);
     expect(result).toEqual([]);
   });
-});
\ No newline at end of file
+
+  it('should only count approved weeks when approved_only is set', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const position = await db.insert(positionsTable)
+      .values({ project_id: project[0].id, name: 'Developer' })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user[0].id, position_id: position[0].id, hours: '8.00', date: '2024-01-09', billable: true }, // Approved week
+        { user_id: user[0].id, position_id: position[0].id, hours: '6.00', date: '2024-01-16', billable: true }, // Submitted week
+        { user_id: user[0].id, position_id: position[0].id, hours: '4.00', date: '2024-01-23', billable: false } // Draft week
+      ])
+      .execute();
+
+    await db.insert(timesheetsTable)
+      .values([
+        { user_id: user[0].id, week_start: '2024-01-08', status: 'approved' },
+        { user_id: user[0].id, week_start: '2024-01-15', status: 'submitted' }
+      ])
+      .execute();
+
+    const input: UtilizationReportInput = {
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-01-31')
+    };
+
+    const allTime = await getUtilizationReport(input);
+    expect(allTime[0].total_hours).toEqual(18);
+
+    const approvedTime = await getUtilizationReport({ ...input, approved_only: true });
+    expect(approvedTime[0].total_hours).toEqual(8);
+    expect(approvedTime[0].billable_hours).toEqual(8);
+  });
+
+  it('should measure utilization against contracted hours from work schedules', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const position = await db.insert(positionsTable)
+      .values({ project_id: project[0].id, name: 'Developer' })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+
+    // Full time in the first week, then 24 hours over Monday to Wednesday
+    await db.insert(workSchedulesTable)
+      .values([
+        { user_id: user[0].id, weekly_hours: '40.00', working_days: [1, 2, 3, 4, 5], effective_from: '2024-01-01' },
+        { user_id: user[0].id, weekly_hours: '24.00', working_days: [1, 2, 3], effective_from: '2024-01-08' }
+      ])
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user[0].id, position_id: position[0].id, hours: '30.00', date: '2024-01-03', billable: true },
+        { user_id: user[0].id, position_id: position[0].id, hours: '10.00', date: '2024-01-09', billable: false }
+      ])
+      .execute();
+
+    const result = await getUtilizationReport({
+      user_id: user[0].id,
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-01-14')
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].available_hours).toEqual(64); // 40 + 24
+    expect(result[0].total_hours).toEqual(40);
+    expect(result[0].utilization_rate).toEqual(62.5); // 40/64 * 100
+    expect(result[0].billable_utilization_rate).toEqual(46.88); // 30/64 * 100
+    expect(result[0].billable_ratio).toEqual(75); // 30/40 * 100
+    expect(result[0].unbooked_hours).toEqual(24);
+  });
+
+  it('should not report negative unbooked hours for overtime', async () => {
+    const client = await db.insert(clientsTable)
+      .values({ name: 'Test Client' })
+      .returning()
+      .execute();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+      .returning()
+      .execute();
+
+    const position = await db.insert(positionsTable)
+      .values({ project_id: project[0].id, name: 'Developer' })
+      .returning()
+      .execute();
+
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: user[0].id, position_id: position[0].id, hours: '12.00', date: '2024-01-15', billable: true })
+      .execute();
+
+    const result = await getUtilizationReport({
+      start_date: new Date('2024-01-15'),
+      end_date: new Date('2024-01-15')
+    });
+
+    expect(result[0].available_hours).toEqual(8);
+    expect(result[0].utilization_rate).toEqual(150);
+    expect(result[0].unbooked_hours).toEqual(0);
+  });
+
+  it('should take approved absences out of available hours', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+
+    await db.insert(absencesTable)
+      .values([
+        { user_id: user[0].id, type: 'vacation', start_date: '2024-01-15', end_date: '2024-01-16', status: 'approved' },
+        { user_id: user[0].id, type: 'training', start_date: '2024-01-17', end_date: '2024-01-17', half_day: true, status: 'approved' },
+        { user_id: user[0].id, type: 'vacation', start_date: '2024-01-18', end_date: '2024-01-19', status: 'pending' }
+      ])
+      .execute();
+
+    const result = await getUtilizationReport({
+      start_date: new Date('2024-01-15'),
+      end_date: new Date('2024-01-21')
+    });
+
+    expect(result[0].available_hours).toEqual(20); // 40 - 16 vacation - 4 training; pending leave still counts
+    expect(result[0].unbooked_hours).toEqual(20);
+  });
+
+  it('should not count public holidays from the user\'s calendar as available', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'United Kingdom' })
+      .returning()
+      .execute();
+
+    await db.insert(holidaysTable)
+      .values([
+        { calendar_id: calendar[0].id, date: '2024-12-25', name: 'Christmas Day' },
+        { calendar_id: calendar[0].id, date: '2024-12-26', name: 'Boxing Day' }
+      ])
+      .execute();
+
+    const [withCalendar, withoutCalendar] = await db.insert(usersTable)
+      .values([
+        { email: 'uk@example.com', name: 'UK Consultant', role: 'consultant', holiday_calendar_id: calendar[0].id },
+        { email: 'other@example.com', name: 'Other Consultant', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+
+    const result = await getUtilizationReport({
+      start_date: new Date('2024-12-23'),
+      end_date: new Date('2024-12-29')
+    });
+
+    expect(result.find(r => r.user_id === withCalendar.id)!.available_hours).toEqual(24);
+    expect(result.find(r => r.user_id === withoutCalendar.id)!.available_hours).toEqual(40);
+  });
+});
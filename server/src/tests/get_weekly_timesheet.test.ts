@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timeEntriesTable, usersTable, clientsTable, projectsTable, positionsTable, absencesTable, holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { getWeeklyTimesheet } from '../handlers/get_weekly_timesheet';
+import { eq } from 'drizzle-orm';
+
+// Creates a user and two positions on one project
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Website Relaunch',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Backend' },
+      { project_id: projectResult[0].id, name: 'Frontend' }
+    ])
+    .returning()
+    .execute();
+
+  return { user: userResult[0], positions: positionResult };
+};
+
+describe('getWeeklyTimesheet', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should build a Monday-Sunday grid per position', async () => {
+    const { user, positions } = await createTestData();
+
+    // Week of Monday 2024-01-15
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '4.00', date: '2024-01-15' },
+        { user_id: user.id, position_id: positions[0].id, hours: '2.50', date: '2024-01-15' },
+        { user_id: user.id, position_id: positions[1].id, hours: '8.00', date: '2024-01-21' },
+        { user_id: user.id, position_id: positions[1].id, hours: '5.00', date: '2024-01-22' } // Next week
+      ])
+      .execute();
+
+    // Wednesday normalizes to the Monday of the same week
+    const result = await getWeeklyTimesheet({ user_id: user.id, week_start: new Date('2024-01-17') });
+
+    expect(result.week_start).toEqual('2024-01-15');
+    expect(result.days).toEqual([
+      '2024-01-15', '2024-01-16', '2024-01-17', '2024-01-18', '2024-01-19', '2024-01-20', '2024-01-21'
+    ]);
+    expect(result.rows).toHaveLength(2);
+
+    const backend = result.rows.find(row => row.position_id === positions[0].id)!;
+    expect(backend.position_name).toEqual('Backend');
+    expect(backend.project_name).toEqual('Website Relaunch');
+    expect(backend.client_name).toEqual('Acme Corp');
+    expect(backend.cells[0].hours).toEqual(6.5);
+    expect(backend.cells[0].time_entry_ids).toHaveLength(2);
+    expect(backend.cells[1].hours).toEqual(0);
+    expect(backend.total_hours).toEqual(6.5);
+
+    const frontend = result.rows.find(row => row.position_id === positions[1].id)!;
+    expect(frontend.cells[6].hours).toEqual(8);
+
+    expect(result.daily_totals).toEqual([6.5, 0, 0, 0, 0, 0, 8]);
+    expect(result.total_hours).toEqual(14.5);
+  });
+
+  it('should only include the requested user', async () => {
+    const { user, positions } = await createTestData();
+
+    const otherResult = await db.insert(usersTable)
+      .values({ email: 'other@example.com', name: 'Other', role: 'consultant' })
+      .returning()
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values({ user_id: otherResult[0].id, position_id: positions[0].id, hours: '3.00', date: '2024-01-16' })
+      .execute();
+
+    const result = await getWeeklyTimesheet({ user_id: user.id, week_start: new Date('2024-01-15') });
+
+    expect(result.rows).toHaveLength(0);
+    expect(result.total_hours).toEqual(0);
+  });
+
+  it('should include approved absences overlapping the week', async () => {
+    const { user } = await createTestData();
+
+    await db.insert(absencesTable)
+      .values([
+        { user_id: user.id, type: 'vacation', start_date: '2024-01-11', end_date: '2024-01-16', status: 'approved' },
+        { user_id: user.id, type: 'sick', start_date: '2024-01-18', end_date: '2024-01-18', status: 'pending' },
+        { user_id: user.id, type: 'training', start_date: '2024-01-22', end_date: '2024-01-22', status: 'approved' } // Next week
+      ])
+      .execute();
+
+    const result = await getWeeklyTimesheet({ user_id: user.id, week_start: new Date('2024-01-15') });
+
+    expect(result.absences).toHaveLength(1);
+    expect(result.absences[0].type).toEqual('vacation');
+    expect(result.absences[0].end_date).toEqual('2024-01-16');
+  });
+
+  it('should report expected and missing hours net of holidays and absences', async () => {
+    const { user, positions } = await createTestData();
+
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    await db.insert(holidaysTable)
+      .values({ calendar_id: calendar[0].id, date: '2024-01-15', name: 'Company Holiday' })
+      .execute();
+
+    await db.update(usersTable)
+      .set({ holiday_calendar_id: calendar[0].id })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    await db.insert(absencesTable)
+      .values({ user_id: user.id, type: 'training', start_date: '2024-01-16', end_date: '2024-01-16', half_day: true, status: 'approved' })
+      .execute();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, hours: '4.00', date: '2024-01-16' },
+        { user_id: user.id, position_id: positions[0].id, hours: '10.00', date: '2024-01-17' } // Overtime does not offset other days
+      ])
+      .execute();
+
+    const result = await getWeeklyTimesheet({ user_id: user.id, week_start: new Date('2024-01-15') });
+
+    expect(result.holidays).toHaveLength(1);
+    expect(result.holidays[0].name).toEqual('Company Holiday');
+    expect(result.expected_hours).toEqual([0, 4, 8, 8, 8, 0, 0]);
+    expect(result.missing_hours).toEqual(16); // Thursday and Friday
+  });
+});
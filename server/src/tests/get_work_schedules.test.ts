@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, workSchedulesTable } from '../db/schema';
+import { getWorkSchedules } from '../handlers/get_work_schedules';
+
+describe('getWorkSchedules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a user\'s schedules, most recent first', async () => {
+    const [user, otherUser] = await db.insert(usersTable)
+      .values([
+        { email: 'user@example.com', name: 'John Doe', role: 'consultant' },
+        { email: 'other@example.com', name: 'Jane Smith', role: 'consultant' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(workSchedulesTable)
+      .values([
+        { user_id: user.id, weekly_hours: '40.00', working_days: [1, 2, 3, 4, 5], effective_from: '2024-01-01' },
+        { user_id: user.id, weekly_hours: '24.00', working_days: [1, 2, 3], effective_from: '2024-06-01' },
+        { user_id: otherUser.id, weekly_hours: '20.00', working_days: [1, 2], effective_from: '2024-01-01' }
+      ])
+      .execute();
+
+    const result = await getWorkSchedules({ user_id: user.id });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].effective_from).toEqual('2024-06-01');
+    expect(result[0].weekly_hours).toEqual(24);
+    expect(result[0].working_days).toEqual([1, 2, 3]);
+    expect(result[1].effective_from).toEqual('2024-01-01');
+  });
+
+  it('should return empty array for a user without schedules', async () => {
+    const result = await getWorkSchedules({ user_id: 999 });
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { holidayCalendarsTable, holidaysTable } from '../db/schema';
+import { importHolidays } from '../handlers/import_holidays';
+import { eq, asc } from 'drizzle-orm';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example//Holidays//EN',
+  'BEGIN:VEVENT',
+  'UID:1@example.com',
+  'DTSTART;VALUE=DATE:20241225',
+  'DTEND;VALUE=DATE:20241227',
+  'SUMMARY:Christmas\\, Boxing Day',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:2@example.com',
+  'DTSTART;VALUE=DATE:20241003',
+  'SUMMARY:Tag der Deutschen',
+  '  Einheit',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n');
+
+describe('importHolidays', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should import every day of every event', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    const result = await importHolidays({ calendar_id: calendar[0].id, ics: ICS });
+
+    expect(result.imported).toEqual(3);
+    expect(result.skipped).toEqual(0);
+
+    const saved = await db.select()
+      .from(holidaysTable)
+      .where(eq(holidaysTable.calendar_id, calendar[0].id))
+      .orderBy(asc(holidaysTable.date))
+      .execute();
+
+    expect(saved.map(holiday => holiday.date)).toEqual(['2024-10-03', '2024-12-25', '2024-12-26']);
+    expect(saved[0].name).toEqual('Tag der Deutschen Einheit'); // Folded line
+    expect(saved[1].name).toEqual('Christmas, Boxing Day'); // Escaped comma
+  });
+
+  it('should skip dates the calendar already has', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    await db.insert(holidaysTable)
+      .values({ calendar_id: calendar[0].id, date: '2024-12-25', name: 'Weihnachten' })
+      .execute();
+
+    const result = await importHolidays({ calendar_id: calendar[0].id, ics: ICS });
+
+    expect(result.imported).toEqual(2);
+    expect(result.skipped).toEqual(1);
+
+    const christmas = await db.select()
+      .from(holidaysTable)
+      .where(eq(holidaysTable.date, '2024-12-25'))
+      .execute();
+    expect(christmas[0].name).toEqual('Weihnachten'); // Hand-maintained entry kept
+  });
+
+  it('should reject files without events', async () => {
+    const calendar = await db.insert(holidayCalendarsTable)
+      .values({ name: 'Germany - Bavaria' })
+      .returning()
+      .execute();
+
+    await expect(importHolidays({ calendar_id: calendar[0].id, ics: 'BEGIN:VCALENDAR\nEND:VCALENDAR' }))
+      .rejects.toThrow(/contains no events/i);
+  });
+
+  it('should throw error for non-existent calendar', async () => {
+    await expect(importHolidays({ calendar_id: 999, ics: ICS }))
+      .rejects.toThrow(/Holiday calendar with ID 999 does not exist/i);
+  });
+});
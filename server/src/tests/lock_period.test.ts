@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { periodLocksTable, usersTable } from '../db/schema';
+import { type LockPeriodInput } from '../schema';
+import { lockPeriod } from '../handlers/lock_period';
+import { eq } from 'drizzle-orm';
+
+const createTestUsers = async () => {
+  const result = await db.insert(usersTable)
+    .values([
+      { email: 'admin@example.com', name: 'Admin', role: 'administrator' },
+      { email: 'pm@example.com', name: 'PM', role: 'project_manager' }
+    ])
+    .returning()
+    .execute();
+  return { admin: result[0], manager: result[1] };
+};
+
+describe('lockPeriod', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should lock a date range', async () => {
+    const { admin } = await createTestUsers();
+
+    const input: LockPeriodInput = {
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-01-31'),
+      locked_by: admin.id,
+      reason: 'January invoiced'
+    };
+
+    const result = await lockPeriod(input);
+
+    expect(result.start_date).toEqual('2024-01-01');
+    expect(result.end_date).toEqual('2024-01-31');
+    expect(result.reason).toEqual('January invoiced');
+    expect(result.locked_by).toEqual(admin.id);
+    expect(result.locked_at).toBeInstanceOf(Date);
+    expect(result.unlocked_at).toBeNull();
+
+    const saved = await db.select()
+      .from(periodLocksTable)
+      .where(eq(periodLocksTable.id, result.id))
+      .execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should only allow administrators', async () => {
+    const { manager } = await createTestUsers();
+
+    await expect(lockPeriod({
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-01-31'),
+      locked_by: manager.id,
+      reason: null
+    })).rejects.toThrow(/only administrators can lock/i);
+  });
+
+  it('should reject an inverted range', async () => {
+    const { admin } = await createTestUsers();
+
+    await expect(lockPeriod({
+      start_date: new Date('2024-02-01'),
+      end_date: new Date('2024-01-31'),
+      locked_by: admin.id,
+      reason: null
+    })).rejects.toThrow(/start date must not be after end date/i);
+  });
+});
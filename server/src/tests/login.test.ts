@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { login } from '../handlers/login';
+import { DUMMY_PASSWORD_HASH, hashPassword, getSessionUser, hashToken, verifyPassword } from '../helpers/auth';
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUserWithPassword = async (password: string | null) => {
+    const user = await db.insert(usersTable)
+      .values({
+        email: 'alice@example.com',
+        name: 'Alice',
+        role: 'consultant',
+        password_hash: password !== null ? await hashPassword(password) : null
+      })
+      .returning()
+      .execute();
+    return user[0];
+  };
+
+  it('should start a session the token resolves to', async () => {
+    const user = await createUserWithPassword('correct horse');
+
+    const result = await login({ email: 'alice@example.com', password: 'correct horse' });
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(result.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashToken(result.token)); // The token itself is not stored
+
+    expect((await getSessionUser(result.token))?.email).toEqual('alice@example.com');
+    expect(await getSessionUser('not-a-token')).toBeNull();
+  });
+
+  it('should not resolve expired sessions', async () => {
+    const user = await createUserWithPassword('correct horse');
+    await db.insert(sessionsTable)
+      .values({ user_id: user.id, token_hash: hashToken('old-token'), expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    expect(await getSessionUser('old-token')).toBeNull();
+
+    // Logging in again cleans the expired session up
+    await login({ email: 'alice@example.com', password: 'correct horse' });
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).not.toEqual(hashToken('old-token'));
+  });
+
+  it('should reject wrong passwords, unknown emails and users without a password alike', async () => {
+    await createUserWithPassword('correct horse');
+
+    await expect(login({ email: 'alice@example.com', password: 'wrong horse' }))
+      .rejects.toThrow(/invalid email or password/i);
+    await expect(login({ email: 'bob@example.com', password: 'correct horse' }))
+      .rejects.toThrow(/invalid email or password/i);
+
+    await db.update(usersTable).set({ password_hash: null }).execute();
+    await expect(login({ email: 'alice@example.com', password: 'correct horse' }))
+      .rejects.toThrow(/invalid email or password/i);
+
+    expect(await db.select().from(sessionsTable).execute()).toEqual([]);
+  });
+
+  it('should check logins without a stored hash against a full-length dummy hash', async () => {
+    // Shaped like a real hash, so verifyPassword runs scrypt instead of returning early
+    expect(DUMMY_PASSWORD_HASH).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(await verifyPassword('', DUMMY_PASSWORD_HASH)).toBe(false);
+  });
+});
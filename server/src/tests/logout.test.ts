@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { logout } from '../handlers/logout';
+import { createSession, getSessionUser } from '../helpers/auth';
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should end only the given session', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'alice@example.com', name: 'Alice', role: 'consultant' })
+      .returning()
+      .execute();
+
+    const laptop = await createSession(user[0].id);
+    const phone = await createSession(user[0].id);
+
+    await logout({ token: laptop.token });
+
+    expect(await getSessionUser(laptop.token)).toBeNull();
+    expect((await getSessionUser(phone.token))?.id).toEqual(user[0].id);
+  });
+
+  it('should ignore unknown tokens', async () => {
+    await logout({ token: 'not-a-token' });
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, usersTable } from '../db/schema';
+import { markNotificationsRead } from '../handlers/mark_notifications_read';
+import { asc } from 'drizzle-orm';
+
+const createNotifications = async () => {
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'pm@example.com', name: 'Pat Manager', role: 'project_manager' },
+      { email: 'other@example.com', name: 'Olga Other', role: 'project_manager' }
+    ])
+    .returning()
+    .execute();
+
+  const notifications = await db.insert(notificationsTable)
+    .values([
+      { user_id: users[0].id, title: 'One', body: 'First' },
+      { user_id: users[0].id, title: 'Two', body: 'Second' },
+      { user_id: users[1].id, title: 'Three', body: 'Third' }
+    ])
+    .returning()
+    .execute();
+
+  return { users, notifications };
+};
+
+describe('markNotificationsRead', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should mark the given notifications of the user read', async () => {
+    const { users, notifications } = await createNotifications();
+
+    const result = await markNotificationsRead({
+      user_id: users[0].id,
+      notification_ids: [notifications[0].id, notifications[2].id] // The second one belongs to someone else
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toEqual(notifications[0].id);
+    expect(result[0].read_at).toBeInstanceOf(Date);
+
+    const stored = await db.select().from(notificationsTable).orderBy(asc(notificationsTable.id)).execute();
+    expect(stored.map(notification => notification.read_at !== null)).toEqual([true, false, false]);
+  });
+
+  it('should mark all unread notifications of the user read when no IDs are given', async () => {
+    const { users } = await createNotifications();
+
+    const result = await markNotificationsRead({ user_id: users[0].id });
+    expect(result).toHaveLength(2);
+
+    const again = await markNotificationsRead({ user_id: users[0].id });
+    expect(again).toHaveLength(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activeTimersTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { pauseTimer } from '../handlers/pause_timer';
+
+// Creates a user and a client/project/position chain to book against
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('pauseTimer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should fold the running segment into accumulated time', async () => {
+    const { user, position } = await createTestData();
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'running',
+        started_at: tenMinutesAgo,
+        segment_started_at: tenMinutesAgo,
+        accumulated_seconds: 120
+      })
+      .execute();
+
+    const result = await pauseTimer({ user_id: user.id });
+
+    expect(result.status).toEqual('paused');
+    expect(result.segment_started_at).toBeNull();
+    expect(result.accumulated_seconds).toBeGreaterThanOrEqual(720);
+    expect(result.accumulated_seconds).toBeLessThan(730);
+    expect(result.elapsed_seconds).toEqual(result.accumulated_seconds);
+  });
+
+  it('should reject pausing a paused timer', async () => {
+    const { user, position } = await createTestData();
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'paused',
+        started_at: new Date(),
+        segment_started_at: null,
+        accumulated_seconds: 60
+      })
+      .execute();
+
+    await expect(pauseTimer({ user_id: user.id })).rejects.toThrow(/not running/i);
+  });
+
+  it('should throw error when user has no timer', async () => {
+    const { user } = await createTestData();
+
+    await expect(pauseTimer({ user_id: user.id })).rejects.toThrow(/no active timer/i);
+  });
+});
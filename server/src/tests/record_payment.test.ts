@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, invoicesTable, paymentsTable } from '../db/schema';
+import { recordPayment } from '../handlers/record_payment';
+import { getInvoiceWithLines } from '../helpers/invoice';
+
+// Creates an invoice over 1,000.00 that was sent on 2024-02-01
+const createSentInvoice = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const invoice = await db.insert(invoicesTable)
+    .values({
+      client_id: client[0].id,
+      number: 'INV-2024-0001',
+      status: 'sent',
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+      subtotal: '1000.00',
+      total: '1000.00',
+      sent_on: '2024-02-01',
+      due_date: '2024-03-02'
+    })
+    .returning()
+    .execute();
+
+  return invoice[0];
+};
+
+describe('recordPayment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should move the invoice through partially paid to paid', async () => {
+    const invoice = await createSentInvoice();
+
+    const payment = await recordPayment({
+      invoice_id: invoice.id,
+      amount: 400.1,
+      paid_on: new Date('2024-02-15'),
+      method: 'bank_transfer',
+      reference: 'TRX-1'
+    });
+
+    expect(payment.amount).toEqual(400.1);
+    expect(typeof payment.amount).toBe('number');
+    expect(payment.paid_on).toEqual('2024-02-15');
+    expect(payment.method).toEqual('bank_transfer');
+
+    let saved = await getInvoiceWithLines(db, invoice.id);
+    expect(saved.status).toEqual('overdue'); // Still open and past its due date
+    expect(saved.amount_paid).toEqual(400.1);
+    expect(saved.balance_due).toEqual(599.9);
+
+    const stored = await db.select().from(invoicesTable).execute();
+    expect(stored[0].status).toEqual('partially_paid');
+
+    await recordPayment({ invoice_id: invoice.id, amount: 599.9, paid_on: new Date('2024-03-10'), method: 'check', reference: null });
+
+    saved = await getInvoiceWithLines(db, invoice.id);
+    expect(saved.status).toEqual('paid');
+    expect(saved.balance_due).toEqual(0);
+
+    const payments = await db.select().from(paymentsTable).execute();
+    expect(payments).toHaveLength(2);
+  });
+
+  it('should reject payments above the balance due', async () => {
+    const invoice = await createSentInvoice();
+    await recordPayment({ invoice_id: invoice.id, amount: 900, paid_on: new Date('2024-02-15'), method: 'cash', reference: null });
+
+    await expect(recordPayment({ invoice_id: invoice.id, amount: 100.01, paid_on: new Date('2024-02-16'), method: 'cash', reference: null }))
+      .rejects.toThrow(/exceeds the balance due of 100.00/i);
+  });
+
+  it('should reject payments dated before the invoice was sent', async () => {
+    const invoice = await createSentInvoice();
+
+    await expect(recordPayment({ invoice_id: invoice.id, amount: 100, paid_on: new Date('2024-01-31'), method: 'cash', reference: null }))
+      .rejects.toThrow(/before the invoice was sent/i);
+  });
+
+  it('should reject payments for invoices that were not sent', async () => {
+    const invoice = await createSentInvoice();
+    await db.update(invoicesTable).set({ status: 'finalized' }).execute();
+
+    await expect(recordPayment({ invoice_id: invoice.id, amount: 100, paid_on: new Date('2024-02-15'), method: 'cash', reference: null }))
+      .rejects.toThrow(/only be recorded for sent invoices/i);
+  });
+
+  it('should throw error for non-existent invoice', async () => {
+    await expect(recordPayment({ invoice_id: 999, amount: 100, paid_on: new Date('2024-02-15'), method: 'cash', reference: null }))
+      .rejects.toThrow(/Invoice with ID 999 does not exist/i);
+  });
+});
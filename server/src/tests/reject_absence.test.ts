@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { absencesTable, usersTable } from '../db/schema';
+import { rejectAbsence } from '../handlers/reject_absence';
+
+describe('rejectAbsence', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reject a pending absence with a comment', async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'consultant@example.com', name: 'Consultant', role: 'consultant' },
+        { email: 'admin@example.com', name: 'Admin', role: 'administrator' }
+      ])
+      .returning()
+      .execute();
+
+    const absenceResult = await db.insert(absencesTable)
+      .values({ user_id: userResult[0].id, type: 'vacation', start_date: '2024-07-01', end_date: '2024-07-05' })
+      .returning()
+      .execute();
+
+    const result = await rejectAbsence({
+      absence_id: absenceResult[0].id,
+      reviewer_id: userResult[1].id,
+      comment: 'Go-live that week'
+    });
+
+    expect(result.status).toEqual('rejected');
+    expect(result.reviewed_by).toEqual(userResult[1].id);
+    expect(result.review_comment).toEqual('Go-live that week');
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetAmendmentsTable, clientsTable, projectsTable, usersTable } from '../db/schema';
+import { rejectBudgetAmendment } from '../handlers/reject_budget_amendment';
+import { eq } from 'drizzle-orm';
+
+describe('rejectBudgetAmendment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reject a pending amendment and keep the budget', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' },
+        { email: 'admin@example.com', name: 'Administrator', role: 'administrator' }
+      ])
+      .returning()
+      .execute();
+
+    const client = await db.insert(clientsTable).values({ name: 'Acme' }).returning().execute();
+    const project = await db.insert(projectsTable)
+      .values({ client_id: client[0].id, name: 'Portal', budget: '10000.00' })
+      .returning()
+      .execute();
+
+    const amendment = await db.insert(budgetAmendmentsTable)
+      .values({ project_id: project[0].id, delta: '2500.00', reason: 'Reporting module', requested_by: users[0].id })
+      .returning()
+      .execute();
+
+    const result = await rejectBudgetAmendment({
+      amendment_id: amendment[0].id,
+      reviewer_id: users[1].id,
+      comment: 'Not covered by the contract'
+    });
+
+    expect(result.status).toEqual('rejected');
+    expect(result.reviewed_by).toEqual(users[1].id);
+    expect(result.review_comment).toEqual('Not covered by the contract');
+    expect(result.budget_before).toBeNull();
+
+    const unchanged = await db.select().from(projectsTable).where(eq(projectsTable.id, project[0].id)).execute();
+    expect(unchanged[0].budget).toEqual('10000.00');
+  });
+});
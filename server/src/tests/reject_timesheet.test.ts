@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timesheetsTable, usersTable } from '../db/schema';
+import { rejectTimesheet } from '../handlers/reject_timesheet';
+import { eq } from 'drizzle-orm';
+
+// Creates a consultant with a submitted week and a project manager to review it
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'consultant@example.com', name: 'Consultant', role: 'consultant' },
+      { email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' },
+      { email: 'other@example.com', name: 'Other Consultant', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const timesheetResult = await db.insert(timesheetsTable)
+    .values({
+      user_id: userResult[0].id,
+      week_start: '2024-01-15',
+      status: 'submitted',
+      submitted_at: new Date()
+    })
+    .returning()
+    .execute();
+
+  return {
+    consultant: userResult[0],
+    manager: userResult[1],
+    otherConsultant: userResult[2],
+    timesheet: timesheetResult[0]
+  };
+};
+
+describe('rejectTimesheet', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reject a submitted timesheet with a comment', async () => {
+    const { manager, timesheet } = await createTestData();
+
+    const result = await rejectTimesheet({
+      timesheet_id: timesheet.id,
+      reviewer_id: manager.id,
+      comment: 'Friday is missing'
+    });
+
+    expect(result.status).toEqual('rejected');
+    expect(result.reviewed_by).toEqual(manager.id);
+    expect(result.review_comment).toEqual('Friday is missing');
+
+    const saved = await db.select()
+      .from(timesheetsTable)
+      .where(eq(timesheetsTable.id, timesheet.id))
+      .execute();
+    expect(saved[0].status).toEqual('rejected');
+  });
+
+  it('should not let consultants reject', async () => {
+    const { otherConsultant, timesheet } = await createTestData();
+
+    await expect(rejectTimesheet({
+      timesheet_id: timesheet.id,
+      reviewer_id: otherConsultant.id,
+      comment: 'Nope'
+    })).rejects.toThrow(/only project managers and administrators/i);
+  });
+});
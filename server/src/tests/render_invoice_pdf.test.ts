@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, invoicesTable, invoiceLineItemsTable, invoiceTemplatesTable
+} from '../db/schema';
+import { renderInvoicePdf } from '../handlers/render_invoice_pdf';
+
+// Creates a finalized invoice over two projects with one described time entry
+const createInvoice = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Jane Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp', address: 'Main Street 1\n10115 Berlin' })
+    .returning()
+    .execute();
+
+  const projects = await db.insert(projectsTable)
+    .values([
+      { client_id: client[0].id, name: 'Website', status: 'active' },
+      { client_id: client[0].id, name: 'Audit', status: 'active' }
+    ])
+    .returning()
+    .execute();
+
+  const positions = await db.insert(positionsTable)
+    .values([
+      { project_id: projects[0].id, name: 'Backend' },
+      { project_id: projects[1].id, name: 'Review' }
+    ])
+    .returning()
+    .execute();
+
+  const invoice = await db.insert(invoicesTable)
+    .values({
+      client_id: client[0].id,
+      number: 'INV-2024-0007',
+      status: 'finalized',
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+      subtotal: '1250.00',
+      tax_rate: '19.00',
+      tax_amount: '237.50',
+      total: '1487.50',
+      finalized_at: new Date('2024-02-01T10:00:00Z')
+    })
+    .returning()
+    .execute();
+
+  await db.insert(invoiceLineItemsTable)
+    .values([
+      { invoice_id: invoice[0].id, position_id: positions[0].id, description: 'Website – Backend', hours: '10.00', hourly_rate: '100.00', amount: '1000.00' },
+      { invoice_id: invoice[0].id, position_id: positions[1].id, description: 'Audit – Review', hours: '2.50', hourly_rate: '100.00', amount: '250.00' }
+    ])
+    .execute();
+
+  await db.insert(timeEntriesTable)
+    .values({
+      user_id: user[0].id,
+      position_id: positions[0].id,
+      description: 'Implemented (paged) search API',
+      hours: '10.00',
+      date: '2024-01-15',
+      billable: true,
+      invoice_id: invoice[0].id,
+      billed_at: new Date()
+    })
+    .execute();
+
+  return { invoice: invoice[0] };
+};
+
+const decode = (contentBase64: string) => Buffer.from(contentBase64, 'base64').toString('latin1');
+
+describe('renderInvoicePdf', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should render a valid PDF with the built-in template', async () => {
+    const { invoice } = await createInvoice();
+
+    const result = await renderInvoicePdf({ invoice_id: invoice.id, include_appendix: false });
+    const pdf = decode(result.content_base64);
+
+    expect(result.filename).toEqual('INV-2024-0007.pdf');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    // The cross-reference table must sit where startxref points
+    const xrefOffset = parseInt(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toEqual('xref');
+
+    expect(pdf).toContain('(Acme Corp) Tj');
+    expect(pdf).toContain('(Main Street 1) Tj');
+    expect(pdf).toContain('(10115 Berlin) Tj');
+    expect(pdf).toContain('(Invoice number: INV-2024-0007) Tj');
+    expect(pdf).toContain('(Invoice date: 2024-02-01) Tj');
+    expect(pdf).toContain('(Website) Tj');
+    expect(pdf).toContain('(Audit) Tj');
+    expect(pdf).toContain('(Backend) Tj');
+    expect(pdf).toContain('(Tax \\(19%\\)) Tj');
+    expect(pdf).toContain('(1,487.50) Tj');
+    expect(pdf).not.toContain('Appendix');
+  });
+
+  it('should add the time entry appendix on request', async () => {
+    const { invoice } = await createInvoice();
+
+    const result = await renderInvoicePdf({ invoice_id: invoice.id, include_appendix: true });
+    const pdf = decode(result.content_base64);
+
+    expect(pdf).toContain('/Count 2'); // The appendix starts a new page
+    expect(pdf).toContain('(Jane Consultant) Tj');
+    expect(pdf).toContain('(Implemented \\(paged\\) search API) Tj');
+  });
+
+  it('should use the default or the requested template', async () => {
+    const { invoice } = await createInvoice();
+
+    const templates = await db.insert(invoiceTemplatesTable)
+      .values([
+        { name: 'Standard', body: '# Rechnung {{invoice_number}}\n{{client_name}}\n{{totals}}', is_default: true },
+        { name: 'Short', body: '## Amount due: {{total}}' }
+      ])
+      .returning()
+      .execute();
+
+    const byDefault = decode((await renderInvoicePdf({ invoice_id: invoice.id, include_appendix: false })).content_base64);
+    expect(byDefault).toContain('(Rechnung INV-2024-0007) Tj');
+    expect(byDefault).not.toContain('(Backend) Tj');
+
+    const chosen = decode((await renderInvoicePdf({
+      invoice_id: invoice.id,
+      template_id: templates[1].id,
+      include_appendix: false
+    })).content_base64);
+    expect(chosen).toContain('(Amount due: 1,487.50) Tj');
+  });
+
+  it('should throw error for non-existent invoice or template', async () => {
+    const { invoice } = await createInvoice();
+
+    await expect(renderInvoicePdf({ invoice_id: 999, include_appendix: false }))
+      .rejects.toThrow(/Invoice with ID 999 does not exist/i);
+
+    await expect(renderInvoicePdf({ invoice_id: invoice.id, template_id: 999, include_appendix: false }))
+      .rejects.toThrow(/Invoice template with ID 999 does not exist/i);
+  });
+});
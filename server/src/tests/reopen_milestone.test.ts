@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable, invoicesTable } from '../db/schema';
+import { reopenMilestone } from '../handlers/reopen_milestone';
+
+const createMilestone = async (completedOn: string | null) => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' })
+    .returning()
+    .execute();
+
+  const milestone = await db.insert(milestonesTable)
+    .values({ project_id: project[0].id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31', completed_on: completedOn })
+    .returning()
+    .execute();
+
+  return { client: client[0], milestone: milestone[0] };
+};
+
+describe('reopenMilestone', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should clear the completion date', async () => {
+    const { milestone } = await createMilestone('2024-02-03');
+
+    const result = await reopenMilestone({ milestone_id: milestone.id });
+
+    expect(result.completed_on).toBeNull();
+  });
+
+  it('should only reopen completed, uninvoiced milestones', async () => {
+    const open = await createMilestone(null);
+    await expect(reopenMilestone({ milestone_id: open.milestone.id }))
+      .rejects.toThrow(/is not completed/i);
+
+    await resetDB();
+    await createDB();
+
+    const { client, milestone } = await createMilestone('2024-02-03');
+    const invoice = await db.insert(invoicesTable)
+      .values({ client_id: client.id, period_start: '2024-02-03', period_end: '2024-02-03', subtotal: '2000.00', total: '2000.00' })
+      .returning()
+      .execute();
+    await db.update(milestonesTable).set({ invoice_id: invoice[0].id }).execute();
+
+    await expect(reopenMilestone({ milestone_id: milestone.id }))
+      .rejects.toThrow(/cannot be changed/i);
+  });
+
+  it('should throw error for non-existent milestone', async () => {
+    await expect(reopenMilestone({ milestone_id: 999 }))
+      .rejects.toThrow(/Milestone with ID 999 does not exist/i);
+  });
+});
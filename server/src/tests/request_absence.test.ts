@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { absencesTable, absenceAllowancesTable, usersTable, workSchedulesTable } from '../db/schema';
+import { type RequestAbsenceInput } from '../schema';
+import { requestAbsence } from '../handlers/request_absence';
+import { eq } from 'drizzle-orm';
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('requestAbsence', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a pending absence', async () => {
+    const user = await createUser();
+
+    const input: RequestAbsenceInput = {
+      user_id: user.id,
+      type: 'vacation',
+      start_date: new Date('2024-07-01'),
+      end_date: new Date('2024-07-12'),
+      half_day: false,
+      note: 'Summer holiday'
+    };
+
+    const result = await requestAbsence(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.status).toEqual('pending');
+    expect(result.start_date).toEqual('2024-07-01');
+    expect(result.end_date).toEqual('2024-07-12');
+    expect(result.note).toEqual('Summer holiday');
+    expect(result.reviewed_by).toBeNull();
+
+    const saved = await db.select()
+      .from(absencesTable)
+      .where(eq(absencesTable.id, result.id))
+      .execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should only allow half days on single-day absences', async () => {
+    const user = await createUser();
+
+    await expect(requestAbsence({
+      user_id: user.id,
+      type: 'training',
+      start_date: new Date('2024-07-01'),
+      end_date: new Date('2024-07-02'),
+      half_day: true,
+      note: null
+    })).rejects.toThrow(/half-day absences must start and end on the same day/i);
+  });
+
+  it('should reject absences overlapping pending or approved ones', async () => {
+    const user = await createUser();
+
+    await db.insert(absencesTable)
+      .values({ user_id: user.id, type: 'vacation', start_date: '2024-07-01', end_date: '2024-07-05', status: 'pending' })
+      .execute();
+
+    await expect(requestAbsence({
+      user_id: user.id,
+      type: 'sick',
+      start_date: new Date('2024-07-05'),
+      end_date: new Date('2024-07-08'),
+      half_day: false,
+      note: null
+    })).rejects.toThrow(/overlaps an existing absence/i);
+  });
+
+  it('should reject absences without working days', async () => {
+    const user = await createUser();
+
+    await expect(requestAbsence({
+      user_id: user.id,
+      type: 'vacation',
+      start_date: new Date('2024-07-06'), // Saturday
+      end_date: new Date('2024-07-07'),
+      half_day: false,
+      note: null
+    })).rejects.toThrow(/contains no working days/i);
+  });
+
+  it('should enforce the yearly allowance counting only scheduled working days', async () => {
+    const user = await createUser();
+
+    // Works Monday to Wednesday, so a full week of vacation costs three days
+    await db.insert(workSchedulesTable)
+      .values({ user_id: user.id, weekly_hours: '24.00', working_days: [1, 2, 3], effective_from: '2024-01-01' })
+      .execute();
+
+    await db.insert(absenceAllowancesTable)
+      .values({ user_id: user.id, year: 2024, type: 'vacation', days: '5.0' })
+      .execute();
+
+    await requestAbsence({
+      user_id: user.id,
+      type: 'vacation',
+      start_date: new Date('2024-07-01'),
+      end_date: new Date('2024-07-07'),
+      half_day: false,
+      note: null
+    });
+
+    await expect(requestAbsence({
+      user_id: user.id,
+      type: 'vacation',
+      start_date: new Date('2024-07-08'),
+      end_date: new Date('2024-07-14'),
+      half_day: false,
+      note: null
+    })).rejects.toThrow(/only 2 vacation days remain for 2024; 3 requested/i);
+
+    // Types without an allowance are not capped
+    const sick = await requestAbsence({
+      user_id: user.id,
+      type: 'sick',
+      start_date: new Date('2024-07-08'),
+      end_date: new Date('2024-07-14'),
+      half_day: false,
+      note: null
+    });
+    expect(sick.status).toEqual('pending');
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(requestAbsence({
+      user_id: 999,
+      type: 'vacation',
+      start_date: new Date('2024-07-01'),
+      end_date: new Date('2024-07-01'),
+      half_day: false,
+      note: null
+    })).rejects.toThrow(/User with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetAmendmentsTable, clientsTable, positionsTable, projectsTable, usersTable } from '../db/schema';
+import { requestBudgetAmendment } from '../handlers/request_budget_amendment';
+import { eq } from 'drizzle-orm';
+
+// Creates a project with one position, both budgeted, and a project manager
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'pm@example.com', name: 'Project Manager', role: 'project_manager' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Portal', budget: '10000.00' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development', budget: '4000.00' })
+    .returning()
+    .execute();
+
+  return { manager: user[0], project: project[0], position: position[0] };
+};
+
+describe('requestBudgetAmendment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record a pending amendment without changing the budget', async () => {
+    const { manager, project } = await createTestData();
+
+    const result = await requestBudgetAmendment({
+      project_id: project.id,
+      position_id: null,
+      delta: 2500,
+      reason: 'Change request for the reporting module',
+      requested_by: manager.id
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.status).toEqual('pending');
+    expect(result.delta).toEqual(2500);
+    expect(typeof result.delta).toBe('number');
+    expect(result.reviewed_by).toBeNull();
+    expect(result.budget_before).toBeNull();
+
+    const saved = await db.select().from(budgetAmendmentsTable).where(eq(budgetAmendmentsTable.id, result.id)).execute();
+    expect(saved[0].reason).toEqual('Change request for the reporting module');
+
+    const unchanged = await db.select().from(projectsTable).where(eq(projectsTable.id, project.id)).execute();
+    expect(unchanged[0].budget).toEqual('10000.00');
+  });
+
+  it('should accept reductions of position budgets', async () => {
+    const { manager, position } = await createTestData();
+
+    const result = await requestBudgetAmendment({
+      project_id: null,
+      position_id: position.id,
+      delta: -1500.5,
+      reason: 'Descoped data import',
+      requested_by: manager.id
+    });
+
+    expect(result.position_id).toEqual(position.id);
+    expect(result.project_id).toBeNull();
+    expect(result.delta).toEqual(-1500.5);
+  });
+
+  it('should need exactly one of project and position', async () => {
+    const { manager, project, position } = await createTestData();
+
+    await expect(requestBudgetAmendment({ project_id: project.id, position_id: position.id, delta: 100, reason: 'Both', requested_by: manager.id }))
+      .rejects.toThrow(/either a project or a position/i);
+    await expect(requestBudgetAmendment({ project_id: null, position_id: null, delta: 100, reason: 'Neither', requested_by: manager.id }))
+      .rejects.toThrow(/either a project or a position/i);
+  });
+
+  it('should reject amendments that do not change the budget', async () => {
+    const { manager, project } = await createTestData();
+
+    await expect(requestBudgetAmendment({ project_id: project.id, position_id: null, delta: 0, reason: 'Nothing', requested_by: manager.id }))
+      .rejects.toThrow(/must change the budget/i);
+  });
+
+  it('should reject unknown requesters, projects and positions', async () => {
+    const { manager, project } = await createTestData();
+
+    await expect(requestBudgetAmendment({ project_id: project.id, position_id: null, delta: 100, reason: 'More', requested_by: 999 }))
+      .rejects.toThrow(/user with id 999 does not exist/i);
+    await expect(requestBudgetAmendment({ project_id: 999, position_id: null, delta: 100, reason: 'More', requested_by: manager.id }))
+      .rejects.toThrow(/project with id 999 does not exist/i);
+    await expect(requestBudgetAmendment({ project_id: null, position_id: 999, delta: 100, reason: 'More', requested_by: manager.id }))
+      .rejects.toThrow(/position with id 999 does not exist/i);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activeTimersTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { resumeTimer } from '../handlers/resume_timer';
+
+// Creates a user and a client/project/position chain to book against
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('resumeTimer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should start a new segment and keep accumulated time', async () => {
+    const { user, position } = await createTestData();
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'paused',
+        started_at: new Date(Date.now() - 60 * 60 * 1000),
+        segment_started_at: null,
+        accumulated_seconds: 900
+      })
+      .execute();
+
+    const result = await resumeTimer({ user_id: user.id });
+
+    expect(result.status).toEqual('running');
+    expect(result.segment_started_at).toBeInstanceOf(Date);
+    expect(result.accumulated_seconds).toEqual(900);
+    expect(result.elapsed_seconds).toEqual(900);
+  });
+
+  it('should reject resuming a running timer', async () => {
+    const { user, position } = await createTestData();
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'running',
+        started_at: new Date(),
+        segment_started_at: new Date()
+      })
+      .execute();
+
+    await expect(resumeTimer({ user_id: user.id })).rejects.toThrow(/not paused/i);
+  });
+
+  it('should throw error when user has no timer', async () => {
+    const { user } = await createTestData();
+
+    await expect(resumeTimer({ user_id: user.id })).rejects.toThrow(/no active timer/i);
+  });
+});
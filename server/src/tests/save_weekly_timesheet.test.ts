@@ -0,0 +1,260 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timeEntriesTable, timeEntryRevisionsTable, periodLocksTable, usersTable, clientsTable, projectsTable, positionsTable, assignmentsTable } from '../db/schema';
+import { type SaveWeeklyTimesheetInput } from '../schema';
+import { saveWeeklyTimesheet } from '../handlers/save_weekly_timesheet';
+import { asc, eq } from 'drizzle-orm';
+
+// Creates a user assigned to two positions on one project
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Website Relaunch',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Backend' },
+      { project_id: projectResult[0].id, name: 'Frontend' }
+    ])
+    .returning()
+    .execute();
+
+  await db.insert(assignmentsTable)
+    .values(positionResult.map(position => ({ user_id: userResult[0].id, position_id: position.id })))
+    .execute();
+
+  return { user: userResult[0], positions: positionResult };
+};
+
+const getEntries = () => db.select()
+  .from(timeEntriesTable)
+  .orderBy(asc(timeEntriesTable.date), asc(timeEntriesTable.id))
+  .execute();
+
+describe('saveWeeklyTimesheet', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create entries for filled cells', async () => {
+    const { user, positions } = await createTestData();
+
+    const input: SaveWeeklyTimesheetInput = {
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[0].id, hours: [8, 0, 4.5, 0, 0, 0, 0] }],
+      billable: false
+    };
+
+    const result = await saveWeeklyTimesheet(input);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].cells.map(cell => cell.hours)).toEqual([8, 0, 4.5, 0, 0, 0, 0]);
+    expect(result.total_hours).toEqual(12.5);
+
+    const entries = await getEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0].date).toEqual('2024-01-15');
+    expect(parseFloat(entries[0].hours)).toEqual(8);
+    expect(entries[0].billable).toEqual(false);
+    expect(entries[1].date).toEqual('2024-01-17');
+  });
+
+  it('should update, delete and leave unchanged cells in one save', async () => {
+    const { user, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, description: 'Keep', hours: '8.00', date: '2024-01-15' },
+        { user_id: user.id, position_id: positions[0].id, description: 'Change', hours: '6.00', date: '2024-01-16' },
+        { user_id: user.id, position_id: positions[0].id, description: 'Remove', hours: '2.00', date: '2024-01-17' },
+        { user_id: user.id, position_id: positions[1].id, description: 'Not in grid', hours: '1.00', date: '2024-01-17' }
+      ])
+      .execute();
+
+    await saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[0].id, hours: [8, 7, 0, 0, 0, 0, 0] }],
+      billable: true
+    });
+
+    const entries = await getEntries();
+    expect(entries.map(entry => [entry.description, entry.date, parseFloat(entry.hours)])).toEqual([
+      ['Keep', '2024-01-15', 8],
+      ['Change', '2024-01-16', 7],
+      ['Not in grid', '2024-01-17', 1]
+    ]);
+
+    const revisions = await db.select().from(timeEntryRevisionsTable).execute();
+    expect(revisions.map(revision => revision.action).sort()).toEqual(['delete', 'update']);
+  });
+
+  it('should adjust the latest entry of a cell with several entries', async () => {
+    const { user, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, description: 'Morning', hours: '3.00', date: '2024-01-15' },
+        { user_id: user.id, position_id: positions[0].id, description: 'Afternoon', hours: '4.00', date: '2024-01-15' }
+      ])
+      .execute();
+
+    await saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[0].id, hours: [5, 0, 0, 0, 0, 0, 0] }],
+      billable: true
+    });
+
+    const entries = await getEntries();
+    expect(entries.map(entry => [entry.description, parseFloat(entry.hours)])).toEqual([
+      ['Morning', 3],
+      ['Afternoon', 2]
+    ]);
+  });
+
+  it('should collapse a cell when the latest entry cannot absorb the change', async () => {
+    const { user, positions } = await createTestData();
+
+    await db.insert(timeEntriesTable)
+      .values([
+        { user_id: user.id, position_id: positions[0].id, description: 'Morning', hours: '3.00', date: '2024-01-15' },
+        { user_id: user.id, position_id: positions[0].id, description: 'Afternoon', hours: '1.00', date: '2024-01-15' }
+      ])
+      .execute();
+
+    await saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[0].id, hours: [2, 0, 0, 0, 0, 0, 0] }],
+      billable: true
+    });
+
+    const entries = await getEntries();
+    expect(entries.map(entry => [entry.description, parseFloat(entry.hours)])).toEqual([
+      ['Morning', 2]
+    ]);
+  });
+
+  it('should roll back everything when a position does not exist', async () => {
+    const { user, positions } = await createTestData();
+
+    await expect(saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [
+        { position_id: positions[0].id, hours: [8, 8, 8, 8, 8, 0, 0] },
+        { position_id: 9999, hours: [1, 0, 0, 0, 0, 0, 0] }
+      ],
+      billable: true
+    })).rejects.toThrow(/position with id 9999 does not exist/i);
+
+    const entries = await getEntries();
+    expect(entries).toHaveLength(0);
+  });
+
+  it('should reject added hours on positions the user is no longer assigned to', async () => {
+    const { user, positions } = await createTestData();
+
+    await saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[1].id, hours: [4, 4, 0, 0, 0, 0, 0] }],
+      billable: true
+    });
+
+    await db.update(assignmentsTable)
+      .set({ end_date: '2024-01-15' })
+      .where(eq(assignmentsTable.position_id, positions[1].id))
+      .execute();
+
+    await expect(saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[1].id, hours: [4, 6, 0, 0, 0, 0, 0] }],
+      billable: true
+    })).rejects.toThrow(/is not assigned to position .* on 2024-01-16/i);
+
+    // Removing hours after the assignment ended is still allowed
+    await saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[1].id, hours: [4, 0, 0, 0, 0, 0, 0] }],
+      billable: true
+    });
+
+    const entries = await getEntries();
+    expect(entries.map(entry => entry.date)).toEqual(['2024-01-15']);
+  });
+
+  it('should reject duplicate position rows', async () => {
+    const { user, positions } = await createTestData();
+
+    await expect(saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [
+        { position_id: positions[0].id, hours: [1, 0, 0, 0, 0, 0, 0] },
+        { position_id: positions[0].id, hours: [2, 0, 0, 0, 0, 0, 0] }
+      ],
+      billable: true
+    })).rejects.toThrow(/only appear once/i);
+  });
+
+  it('should reject changes to days inside a locked period', async () => {
+    const { user, positions } = await createTestData();
+
+    await db.insert(periodLocksTable)
+      .values({ start_date: '2024-01-01', end_date: '2024-01-16', locked_by: user.id })
+      .execute();
+
+    // Only Wednesday changes, which is outside the lock
+    await saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[0].id, hours: [0, 0, 4, 0, 0, 0, 0] }],
+      billable: true
+    });
+
+    await expect(saveWeeklyTimesheet({
+      user_id: user.id,
+      changed_by: user.id,
+      week_start: new Date('2024-01-15'),
+      rows: [{ position_id: positions[0].id, hours: [8, 0, 4, 0, 0, 0, 0] }],
+      billable: true
+    })).rejects.toThrow(/is locked/i);
+
+    const entries = await getEntries();
+    expect(entries).toHaveLength(1);
+  });
+});
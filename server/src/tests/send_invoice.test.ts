@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, invoicesTable } from '../db/schema';
+import { sendInvoice } from '../handlers/send_invoice';
+
+const createInvoice = async (status: 'draft' | 'finalized') => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const invoice = await db.insert(invoicesTable)
+    .values({
+      client_id: client[0].id,
+      number: status === 'finalized' ? 'INV-2024-0001' : null,
+      status,
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+      subtotal: '800.00',
+      total: '800.00'
+    })
+    .returning()
+    .execute();
+
+  return invoice[0];
+};
+
+describe('sendInvoice', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should mark a finalized invoice as sent with a due date', async () => {
+    const invoice = await createInvoice('finalized');
+
+    const result = await sendInvoice({ invoice_id: invoice.id, sent_on: new Date('2024-02-01'), payment_terms_days: 30 });
+
+    expect(result.status).toEqual('overdue'); // Long past its due date
+    expect(result.sent_on).toEqual('2024-02-01');
+    expect(result.due_date).toEqual('2024-03-02');
+    expect(result.balance_due).toEqual(800);
+
+    const saved = await db.select().from(invoicesTable).execute();
+    expect(saved[0].status).toEqual('sent');
+  });
+
+  it('should not send a draft invoice', async () => {
+    const invoice = await createInvoice('draft');
+
+    await expect(sendInvoice({ invoice_id: invoice.id, sent_on: new Date('2024-02-01'), payment_terms_days: 30 }))
+      .rejects.toThrow(/only finalized invoices can be sent/i);
+  });
+
+  it('should throw error for non-existent invoice', async () => {
+    await expect(sendInvoice({ invoice_id: 999, sent_on: new Date('2024-02-01'), payment_terms_days: 30 }))
+      .rejects.toThrow(/Invoice with ID 999 does not exist/i);
+  });
+});
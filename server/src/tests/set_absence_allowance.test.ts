@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { absenceAllowancesTable, usersTable } from '../db/schema';
+import { setAbsenceAllowance } from '../handlers/set_absence_allowance';
+
+describe('setAbsenceAllowance', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an allowance and replace it when set again', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'user@example.com', name: 'John Doe', role: 'consultant' })
+      .returning()
+      .execute();
+
+    const created = await setAbsenceAllowance({ user_id: user[0].id, year: 2024, type: 'vacation', days: 25 });
+    expect(created.days).toEqual(25);
+    expect(typeof created.days).toBe('number');
+
+    const updated = await setAbsenceAllowance({ user_id: user[0].id, year: 2024, type: 'vacation', days: 27.5 });
+    expect(updated.id).toEqual(created.id);
+    expect(updated.days).toEqual(27.5);
+
+    const saved = await db.select().from(absenceAllowancesTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(parseFloat(saved[0].days)).toEqual(27.5);
+  });
+
+  it('should throw error for non-existent user', async () => {
+    await expect(setAbsenceAllowance({ user_id: 999, year: 2024, type: 'vacation', days: 25 }))
+      .rejects.toThrow(/User with ID 999 does not exist/i);
+  });
+});
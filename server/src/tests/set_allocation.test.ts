@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { allocationsTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { setAllocation } from '../handlers/set_allocation';
+
+// Creates a user and a client/project/position chain to plan
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('setAllocation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an allocation for the Monday of the week', async () => {
+    const { user, position } = await createTestData();
+
+    // A Wednesday
+    const result = await setAllocation({
+      user_id: user.id,
+      position_id: position.id,
+      week_start: new Date('2024-01-17'),
+      planned_hours: 24.5
+    });
+
+    expect(result).not.toBeNull();
+    expect(result!.week_start).toEqual('2024-01-15');
+    expect(result!.planned_hours).toEqual(24.5);
+    expect(typeof result!.planned_hours).toBe('number');
+    expect(result!.user_name).toEqual('Test Consultant');
+    expect(result!.project_name).toEqual('Test Project');
+    expect(result!.client_name).toEqual('Test Client');
+
+    const saved = await db.select().from(allocationsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].planned_hours).toEqual('24.50');
+  });
+
+  it('should replace the planned hours of an existing week', async () => {
+    const { user, position } = await createTestData();
+
+    const first = await setAllocation({ user_id: user.id, position_id: position.id, week_start: new Date('2024-01-15'), planned_hours: 16 });
+    const second = await setAllocation({ user_id: user.id, position_id: position.id, week_start: new Date('2024-01-19'), planned_hours: 32 });
+
+    expect(second!.id).toEqual(first!.id);
+    expect(second!.planned_hours).toEqual(32);
+
+    const saved = await db.select().from(allocationsTable).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should remove the allocation when set to zero hours', async () => {
+    const { user, position } = await createTestData();
+
+    await setAllocation({ user_id: user.id, position_id: position.id, week_start: new Date('2024-01-15'), planned_hours: 16 });
+    const result = await setAllocation({ user_id: user.id, position_id: position.id, week_start: new Date('2024-01-15'), planned_hours: 0 });
+
+    expect(result).toBeNull();
+    const saved = await db.select().from(allocationsTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should throw error when user or position does not exist', async () => {
+    const { user, position } = await createTestData();
+
+    await expect(setAllocation({ user_id: 9999, position_id: position.id, week_start: new Date('2024-01-15'), planned_hours: 8 }))
+      .rejects.toThrow(/user with id 9999 does not exist/i);
+    await expect(setAllocation({ user_id: user.id, position_id: 9999, week_start: new Date('2024-01-15'), planned_hours: 8 }))
+      .rejects.toThrow(/position with id 9999 does not exist/i);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { budgetThresholdsTable, clientsTable, projectsTable, positionsTable, usersTable } from '../db/schema';
+import { setBudgetThresholds } from '../handlers/set_budget_thresholds';
+import { eq } from 'drizzle-orm';
+
+const createTestData = async () => {
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'pm@example.com', name: 'Pat Manager', role: 'project_manager' },
+      { email: 'admin@example.com', name: 'Ada Admin', role: 'administrator' },
+      { email: 'consultant@example.com', name: 'Carl Consultant', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Website', budget: '10000.00' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development', budget: '5000.00' })
+    .returning()
+    .execute();
+
+  return { manager: users[0], admin: users[1], consultant: users[2], project: project[0], position: position[0] };
+};
+
+describe('setBudgetThresholds', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create the thresholds of a project in ascending order', async () => {
+    const { manager, project } = await createTestData();
+
+    const result = await setBudgetThresholds({
+      project_id: project.id,
+      position_id: null,
+      percents: [100, 50, 80, 80],
+      configured_by: manager.id
+    });
+
+    expect(result.map(threshold => threshold.percent)).toEqual([50, 80, 100]);
+    result.forEach(threshold => {
+      expect(threshold.project_id).toEqual(project.id);
+      expect(threshold.position_id).toBeNull();
+      expect(threshold.notify_user_id).toEqual(manager.id);
+      expect(threshold.triggered_at).toBeNull();
+    });
+  });
+
+  it('should keep the triggered state of thresholds that stay', async () => {
+    const { manager, admin, position } = await createTestData();
+
+    const first = await setBudgetThresholds({ project_id: null, position_id: position.id, percents: [50, 80], configured_by: manager.id });
+    const triggeredAt = new Date('2024-03-01T10:00:00Z');
+    await db.update(budgetThresholdsTable)
+      .set({ triggered_at: triggeredAt })
+      .where(eq(budgetThresholdsTable.id, first[0].id))
+      .execute();
+
+    const result = await setBudgetThresholds({ project_id: null, position_id: position.id, percents: [50, 100], configured_by: admin.id });
+
+    expect(result.map(threshold => threshold.percent)).toEqual([50, 100]);
+    expect(result[0].id).toEqual(first[0].id);
+    expect(result[0].triggered_at).toEqual(triggeredAt);
+    expect(result.every(threshold => threshold.notify_user_id === admin.id)).toBe(true);
+
+    const cleared = await setBudgetThresholds({ project_id: null, position_id: position.id, percents: [], configured_by: admin.id });
+    expect(cleared).toHaveLength(0);
+  });
+
+  it('should reject consultants, missing scopes and unknown entities', async () => {
+    const { manager, consultant, project, position } = await createTestData();
+
+    await expect(setBudgetThresholds({ project_id: project.id, position_id: null, percents: [80], configured_by: consultant.id }))
+      .rejects.toThrow(/only project managers and administrators/i);
+
+    await expect(setBudgetThresholds({ project_id: project.id, position_id: position.id, percents: [80], configured_by: manager.id }))
+      .rejects.toThrow(/either a project or a position/i);
+
+    await expect(setBudgetThresholds({ project_id: 999, position_id: null, percents: [80], configured_by: manager.id }))
+      .rejects.toThrow(/project with id 999 does not exist/i);
+
+    await expect(setBudgetThresholds({ project_id: null, position_id: 999, percents: [80], configured_by: manager.id }))
+      .rejects.toThrow(/position with id 999 does not exist/i);
+  });
+});
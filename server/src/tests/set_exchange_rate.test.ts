@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { exchangeRatesTable } from '../db/schema';
+import { setExchangeRate } from '../handlers/set_exchange_rate';
+
+describe('setExchangeRate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a dated rate for a currency pair', async () => {
+    const result = await setExchangeRate({ base_currency: 'EUR', quote_currency: 'USD', rate: 1.0875, valid_from: new Date('2024-01-01') });
+
+    expect(result.id).toBeDefined();
+    expect(result.base_currency).toEqual('EUR');
+    expect(result.quote_currency).toEqual('USD');
+    expect(result.rate).toEqual(1.0875);
+    expect(typeof result.rate).toBe('number');
+    expect(result.valid_from).toEqual('2024-01-01');
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should replace the rate of the same day', async () => {
+    await setExchangeRate({ base_currency: 'EUR', quote_currency: 'USD', rate: 1.08, valid_from: new Date('2024-01-01') });
+    await setExchangeRate({ base_currency: 'EUR', quote_currency: 'USD', rate: 1.10, valid_from: new Date('2024-02-01') });
+    await setExchangeRate({ base_currency: 'EUR', quote_currency: 'USD', rate: 1.09, valid_from: new Date('2024-01-01') });
+
+    const rates = await db.select().from(exchangeRatesTable).execute();
+    expect(rates).toHaveLength(2);
+    expect(rates.find(rate => rate.valid_from === '2024-01-01')?.rate).toEqual('1.09000000');
+  });
+
+  it('should reject a pair of one currency', async () => {
+    await expect(setExchangeRate({ base_currency: 'EUR', quote_currency: 'EUR', rate: 1, valid_from: new Date('2024-01-01') }))
+      .rejects.toThrow(/two different currencies/i);
+  });
+
+  it('should reject the inverse quote of an existing rate', async () => {
+    await setExchangeRate({ base_currency: 'EUR', quote_currency: 'USD', rate: 1.08, valid_from: new Date('2024-01-01') });
+
+    await expect(setExchangeRate({ base_currency: 'USD', quote_currency: 'EUR', rate: 0.92, valid_from: new Date('2024-01-01') }))
+      .rejects.toThrow(/EUR\/USD rate from 2024-01-01 exists already/i);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, positionsTable, positionSkillsTable, skillsTable } from '../db/schema';
+import { setPositionSkills } from '../handlers/set_position_skills';
+
+// Creates a position and two skills it can require
+const createTestData = async () => {
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({ client_id: clientResult[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const skillResult = await db.insert(skillsTable)
+    .values([
+      { name: 'TypeScript', category: 'Languages' },
+      { name: 'PostgreSQL', category: 'Databases' }
+    ])
+    .returning()
+    .execute();
+
+  const [typescript, postgres] = skillResult;
+  return { position: positionResult[0], typescript, postgres };
+};
+
+describe('setPositionSkills', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should save the required skills ordered by name', async () => {
+    const { position, typescript, postgres } = await createTestData();
+
+    const result = await setPositionSkills({
+      position_id: position.id,
+      skills: [
+        { skill_id: typescript.id, min_level: 'advanced' },
+        { skill_id: postgres.id, min_level: 'intermediate' }
+      ]
+    });
+
+    expect(result.map(skill => [skill.skill_name, skill.min_level])).toEqual([
+      ['PostgreSQL', 'intermediate'],
+      ['TypeScript', 'advanced']
+    ]);
+
+    const saved = await db.select().from(positionSkillsTable).execute();
+    expect(saved).toHaveLength(2);
+  });
+
+  it('should replace the previous requirements', async () => {
+    const { position, typescript, postgres } = await createTestData();
+
+    await setPositionSkills({
+      position_id: position.id,
+      skills: [
+        { skill_id: typescript.id, min_level: 'advanced' },
+        { skill_id: postgres.id, min_level: 'intermediate' }
+      ]
+    });
+    const result = await setPositionSkills({ position_id: position.id, skills: [{ skill_id: typescript.id, min_level: 'expert' }] });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].min_level).toEqual('expert');
+
+    const cleared = await setPositionSkills({ position_id: position.id, skills: [] });
+    expect(cleared).toEqual([]);
+  });
+
+  it('should reject unknown positions, unknown skills and duplicates', async () => {
+    const { position, typescript } = await createTestData();
+
+    await expect(setPositionSkills({ position_id: 9999, skills: [] })).rejects.toThrow(/position with id 9999 does not exist/i);
+    await expect(setPositionSkills({
+      position_id: position.id,
+      skills: [{ skill_id: 9999, min_level: 'beginner' }]
+    })).rejects.toThrow(/skill with id 9999 does not exist/i);
+    await expect(setPositionSkills({
+      position_id: position.id,
+      skills: [
+        { skill_id: typescript.id, min_level: 'beginner' },
+        { skill_id: typescript.id, min_level: 'expert' }
+      ]
+    })).rejects.toThrow(/only be required once/i);
+
+    const saved = await db.select().from(positionSkillsTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { setUserPassword } from '../handlers/set_user_password';
+import { login } from '../handlers/login';
+import { createSession, getSessionUser } from '../helpers/auth';
+
+describe('setUserPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUsers = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'admin@example.com', name: 'Admin', role: 'administrator' },
+        { email: 'alice@example.com', name: 'Alice', role: 'consultant' },
+        { email: 'pm@example.com', name: 'Manager', role: 'project_manager' }
+      ])
+      .returning()
+      .execute();
+    return { admin: users[0], alice: users[1], manager: users[2] };
+  };
+
+  it('should let administrators set a password and end the user\'s sessions', async () => {
+    const { admin, alice } = await createUsers();
+    const session = await createSession(alice.id);
+
+    const result = await setUserPassword({ user_id: alice.id, password: 'correct horse', changed_by: admin.id });
+
+    expect(result.id).toEqual(alice.id);
+    expect(result).not.toHaveProperty('password_hash');
+    expect(await getSessionUser(session.token)).toBeNull();
+    expect((await login({ email: 'alice@example.com', password: 'correct horse' })).user.id).toEqual(alice.id);
+  });
+
+  it('should reject anyone but administrators', async () => {
+    const { alice, manager } = await createUsers();
+
+    await expect(setUserPassword({ user_id: alice.id, password: 'correct horse', changed_by: manager.id }))
+      .rejects.toThrow(/only administrators/i);
+  });
+
+  it('should throw error for non-existent users', async () => {
+    const { admin } = await createUsers();
+
+    await expect(setUserPassword({ user_id: 999, password: 'correct horse', changed_by: admin.id }))
+      .rejects.toThrow(/User with ID 999 does not exist/i);
+    await expect(setUserPassword({ user_id: admin.id, password: 'correct horse', changed_by: 998 }))
+      .rejects.toThrow(/User with ID 998 does not exist/i);
+  });
+});
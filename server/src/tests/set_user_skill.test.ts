@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { skillsTable, userSkillsTable, usersTable } from '../db/schema';
+import { setUserSkill } from '../handlers/set_user_skill';
+
+// Creates a consultant and a skill to rate
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Test Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const skillResult = await db.insert(skillsTable)
+    .values({ name: 'TypeScript', category: 'Languages' })
+    .returning()
+    .execute();
+
+  return { user: userResult[0], skill: skillResult[0] };
+};
+
+describe('setUserSkill', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record a proficiency with the user and skill names', async () => {
+    const { user, skill } = await createTestData();
+
+    const result = await setUserSkill({ user_id: user.id, skill_id: skill.id, level: 'advanced' });
+
+    expect(result).not.toBeNull();
+    expect(result!.level).toEqual('advanced');
+    expect(result!.user_name).toEqual('Test Consultant');
+    expect(result!.skill_name).toEqual('TypeScript');
+    expect(result!.category).toEqual('Languages');
+
+    const saved = await db.select().from(userSkillsTable).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should replace the level of a skill the user already has', async () => {
+    const { user, skill } = await createTestData();
+
+    await setUserSkill({ user_id: user.id, skill_id: skill.id, level: 'beginner' });
+    const result = await setUserSkill({ user_id: user.id, skill_id: skill.id, level: 'expert' });
+
+    expect(result!.level).toEqual('expert');
+
+    const saved = await db.select().from(userSkillsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].level).toEqual('expert');
+  });
+
+  it('should remove the skill when the level is null', async () => {
+    const { user, skill } = await createTestData();
+
+    await setUserSkill({ user_id: user.id, skill_id: skill.id, level: 'intermediate' });
+    const result = await setUserSkill({ user_id: user.id, skill_id: skill.id, level: null });
+
+    expect(result).toBeNull();
+
+    const saved = await db.select().from(userSkillsTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should reject unknown users and skills', async () => {
+    const { user, skill } = await createTestData();
+
+    await expect(setUserSkill({ user_id: 9999, skill_id: skill.id, level: 'expert' })).rejects.toThrow(/user with id 9999 does not exist/i);
+    await expect(setUserSkill({ user_id: user.id, skill_id: 9999, level: 'expert' })).rejects.toThrow(/skill with id 9999 does not exist/i);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activeTimersTable, usersTable, clientsTable, projectsTable, positionsTable, assignmentsTable } from '../db/schema';
+import { type StartTimerInput } from '../schema';
+import { startTimer } from '../handlers/start_timer';
+import { eq } from 'drizzle-orm';
+
+// Creates a user assigned to a client/project/position chain to book against
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  await db.insert(assignmentsTable)
+    .values({ user_id: userResult[0].id, position_id: positionResult[0].id })
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('startTimer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should start a running timer', async () => {
+    const { user, position } = await createTestData();
+
+    const input: StartTimerInput = {
+      user_id: user.id,
+      position_id: position.id,
+      description: 'Pairing session',
+      billable: true
+    };
+
+    const result = await startTimer(input);
+
+    expect(result.user_id).toEqual(user.id);
+    expect(result.position_id).toEqual(position.id);
+    expect(result.description).toEqual('Pairing session');
+    expect(result.status).toEqual('running');
+    expect(result.started_at).toBeInstanceOf(Date);
+    expect(result.segment_started_at).toEqual(result.started_at);
+    expect(result.accumulated_seconds).toEqual(0);
+    expect(result.elapsed_seconds).toEqual(0);
+  });
+
+  it('should persist the timer', async () => {
+    const { user, position } = await createTestData();
+
+    await startTimer({
+      user_id: user.id,
+      position_id: position.id,
+      description: null,
+      billable: false
+    });
+
+    const timers = await db.select()
+      .from(activeTimersTable)
+      .where(eq(activeTimersTable.user_id, user.id))
+      .execute();
+
+    expect(timers).toHaveLength(1);
+    expect(timers[0].billable).toEqual(false);
+    expect(timers[0].status).toEqual('running');
+  });
+
+  it('should reject a second timer for the same user', async () => {
+    const { user, position } = await createTestData();
+
+    const input: StartTimerInput = {
+      user_id: user.id,
+      position_id: position.id,
+      description: null,
+      billable: true
+    };
+
+    await startTimer(input);
+
+    await expect(startTimer(input)).rejects.toThrow(/already has an active timer/i);
+  });
+
+  it('should reject positions the user is not assigned to', async () => {
+    const { user, position } = await createTestData();
+
+    await db.delete(assignmentsTable).execute();
+
+    await expect(startTimer({
+      user_id: user.id,
+      position_id: position.id,
+      description: null,
+      billable: true
+    })).rejects.toThrow(/is not assigned to position/i);
+
+    const timers = await db.select().from(activeTimersTable).execute();
+    expect(timers).toHaveLength(0);
+  });
+
+  it('should throw error when position does not exist', async () => {
+    const { user } = await createTestData();
+
+    await expect(startTimer({
+      user_id: user.id,
+      position_id: 9999,
+      description: null,
+      billable: true
+    })).rejects.toThrow(/position with id 9999 does not exist/i);
+  });
+
+  it('should throw error when user does not exist', async () => {
+    const { position } = await createTestData();
+
+    await expect(startTimer({
+      user_id: 9999,
+      position_id: position.id,
+      description: null,
+      billable: true
+    })).rejects.toThrow(/user with id 9999 does not exist/i);
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { activeTimersTable, timeEntriesTable, usersTable, clientsTable, projectsTable, positionsTable, assignmentsTable } from '../db/schema';
+import { stopTimer } from '../handlers/stop_timer';
+import { eq } from 'drizzle-orm';
+
+// Creates a user assigned to a client/project/position chain to book against
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  await db.insert(assignmentsTable)
+    .values({ user_id: userResult[0].id, position_id: positionResult[0].id })
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0] };
+};
+
+describe('stopTimer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should turn elapsed time into a rounded time entry', async () => {
+    const { user, position } = await createTestData();
+    const startedAt = new Date('2024-03-05T09:00:00Z');
+
+    // 1h 20m of paused time rounds up to 1.5h with 15 minute increments
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        description: 'Workshop',
+        billable: false,
+        status: 'paused',
+        started_at: startedAt,
+        segment_started_at: null,
+        accumulated_seconds: 80 * 60
+      })
+      .execute();
+
+    const result = await stopTimer({ user_id: user.id, rounding_minutes: 15 });
+
+    expect(result.user_id).toEqual(user.id);
+    expect(result.position_id).toEqual(position.id);
+    expect(result.description).toEqual('Workshop');
+    expect(result.billable).toEqual(false);
+    expect(result.hours).toEqual(1.5);
+    expect(typeof result.hours).toBe('number');
+    expect(result.date).toEqual(new Date('2024-03-05'));
+  });
+
+  it('should include the running segment and remove the timer', async () => {
+    const { user, position } = await createTestData();
+    const fiftyMinutesAgo = new Date(Date.now() - 50 * 60 * 1000);
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'running',
+        started_at: fiftyMinutesAgo,
+        segment_started_at: fiftyMinutesAgo,
+        accumulated_seconds: 0
+      })
+      .execute();
+
+    const result = await stopTimer({ user_id: user.id, rounding_minutes: 6 });
+
+    expect(result.hours).toEqual(0.9); // 50 minutes rounds up to 54
+
+    const timers = await db.select().from(activeTimersTable).execute();
+    expect(timers).toHaveLength(0);
+
+    const entries = await db.select()
+      .from(timeEntriesTable)
+      .where(eq(timeEntriesTable.id, result.id))
+      .execute();
+    expect(entries).toHaveLength(1);
+    expect(parseFloat(entries[0].hours)).toEqual(0.9);
+  });
+
+  it('should book at least one increment', async () => {
+    const { user, position } = await createTestData();
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'paused',
+        started_at: new Date(),
+        segment_started_at: null,
+        accumulated_seconds: 0
+      })
+      .execute();
+
+    const result = await stopTimer({ user_id: user.id, rounding_minutes: 15 });
+
+    expect(result.hours).toEqual(0.25);
+  });
+
+  it('should not book on a position whose assignment has ended', async () => {
+    const { user, position } = await createTestData();
+
+    await db.update(assignmentsTable)
+      .set({ end_date: '2024-03-01' })
+      .where(eq(assignmentsTable.user_id, user.id))
+      .execute();
+
+    await db.insert(activeTimersTable)
+      .values({
+        user_id: user.id,
+        position_id: position.id,
+        status: 'paused',
+        started_at: new Date('2024-03-05T09:00:00Z'),
+        segment_started_at: null,
+        accumulated_seconds: 3600
+      })
+      .execute();
+
+    await expect(stopTimer({ user_id: user.id, rounding_minutes: 15 })).rejects.toThrow(/is not assigned to position/i);
+
+    // The timer is kept so the time is not lost
+    const timers = await db.select().from(activeTimersTable).execute();
+    expect(timers).toHaveLength(1);
+  });
+
+  it('should throw error when user has no timer', async () => {
+    const { user } = await createTestData();
+
+    await expect(stopTimer({ user_id: user.id, rounding_minutes: 15 })).rejects.toThrow(/no active timer/i);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timesheetsTable, usersTable } from '../db/schema';
+import { type SubmitTimesheetInput } from '../schema';
+import { submitTimesheet } from '../handlers/submit_timesheet';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('submitTimesheet', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should submit a draft week', async () => {
+    const user = await createTestUser();
+
+    const input: SubmitTimesheetInput = {
+      user_id: user.id,
+      week_start: new Date('2024-01-18') // Thursday
+    };
+
+    const result = await submitTimesheet(input);
+
+    expect(result.user_id).toEqual(user.id);
+    expect(result.week_start).toEqual('2024-01-15');
+    expect(result.status).toEqual('submitted');
+    expect(result.submitted_at).toBeInstanceOf(Date);
+    expect(result.reviewed_by).toBeNull();
+
+    const saved = await db.select()
+      .from(timesheetsTable)
+      .where(eq(timesheetsTable.id, result.id))
+      .execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].status).toEqual('submitted');
+  });
+
+  it('should resubmit a rejected week and clear the review', async () => {
+    const user = await createTestUser();
+    const reviewerResult = await db.insert(usersTable)
+      .values({ email: 'pm@example.com', name: 'PM', role: 'project_manager' })
+      .returning()
+      .execute();
+
+    await db.insert(timesheetsTable)
+      .values({
+        user_id: user.id,
+        week_start: '2024-01-15',
+        status: 'rejected',
+        reviewed_by: reviewerResult[0].id,
+        reviewed_at: new Date(),
+        review_comment: 'Missing Friday'
+      })
+      .execute();
+
+    const result = await submitTimesheet({ user_id: user.id, week_start: new Date('2024-01-15') });
+
+    expect(result.status).toEqual('submitted');
+    expect(result.reviewed_by).toBeNull();
+    expect(result.review_comment).toBeNull();
+
+    const all = await db.select().from(timesheetsTable).execute();
+    expect(all).toHaveLength(1);
+  });
+
+  it('should reject submitting an already submitted week', async () => {
+    const user = await createTestUser();
+
+    await submitTimesheet({ user_id: user.id, week_start: new Date('2024-01-15') });
+
+    await expect(submitTimesheet({ user_id: user.id, week_start: new Date('2024-01-16') }))
+      .rejects.toThrow(/already submitted/i);
+  });
+
+  it('should throw error when user does not exist', async () => {
+    await expect(submitTimesheet({ user_id: 9999, week_start: new Date('2024-01-15') }))
+      .rejects.toThrow(/user with id 9999 does not exist/i);
+  });
+});
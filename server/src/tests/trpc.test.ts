@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, expensesTable } from '../db/schema';
+import { type User } from '../schema';
+import { toUser } from '../helpers/users';
+import { appRouter } from '../index';
+import {
+  router,
+  authedProcedure,
+  managerProcedure,
+  adminProcedure,
+  assertCanActFor,
+  assertOwnsTimeEntry,
+  assertOwnsExpense
+} from '../trpc';
+
+const testRouter = router({
+  ownTime: authedProcedure.query(({ ctx }) => ctx.user.id),
+  manageProjects: managerProcedure.query(() => 'projects'),
+  manageUsers: adminProcedure.query(() => 'users')
+});
+
+const callerFor = (user: User | null) => testRouter.createCaller({ token: user ? 'token' : null, user });
+const appCallerFor = (user: User | null) => appRouter.createCaller({ token: user ? 'token' : null, user });
+
+const createUsers = async () => {
+  const users = await db.insert(usersTable)
+    .values([
+      { email: 'consultant@example.com', name: 'Test Consultant', role: 'consultant' },
+      { email: 'colleague@example.com', name: 'Other Consultant', role: 'consultant' },
+      { email: 'manager@example.com', name: 'Test Manager', role: 'project_manager' },
+      { email: 'admin@example.com', name: 'Test Admin', role: 'administrator' }
+    ])
+    .returning()
+    .execute();
+
+  const [consultant, colleague, manager, admin] = users.map(toUser);
+  return { consultant, colleague, manager, admin };
+};
+
+const createBookings = async (userId: number) => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const entry = await db.insert(timeEntriesTable)
+    .values({ user_id: userId, position_id: position[0].id, hours: '8', date: '2024-01-15' })
+    .returning()
+    .execute();
+
+  const expense = await db.insert(expensesTable)
+    .values({ user_id: userId, position_id: position[0].id, date: '2024-01-15', amount: '25', currency: 'USD', category: 'meals' })
+    .returning()
+    .execute();
+
+  return { entry: entry[0], expense: expense[0] };
+};
+
+describe('procedure builders', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reject calls without a session', async () => {
+    await expect(callerFor(null).ownTime()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(callerFor(null).manageProjects()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(callerFor(null).manageUsers()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should let consultants manage only their own time', async () => {
+    const { consultant } = await createUsers();
+    const caller = callerFor(consultant);
+
+    expect(await caller.ownTime()).toEqual(consultant.id);
+    await expect(caller.manageProjects()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.manageUsers()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should let project managers manage projects but not users', async () => {
+    const { manager } = await createUsers();
+    const caller = callerFor(manager);
+
+    expect(await caller.ownTime()).toEqual(manager.id);
+    expect(await caller.manageProjects()).toEqual('projects');
+    await expect(caller.manageUsers()).rejects.toThrow(/only administrators/i);
+  });
+
+  it('should let administrators do everything', async () => {
+    const { admin } = await createUsers();
+    const caller = callerFor(admin);
+
+    expect(await caller.ownTime()).toEqual(admin.id);
+    expect(await caller.manageProjects()).toEqual('projects');
+    expect(await caller.manageUsers()).toEqual('users');
+  });
+});
+
+describe('ownership checks', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should keep consultants to their own user ID', async () => {
+    const { consultant, colleague } = await createUsers();
+
+    expect(() => assertCanActFor(consultant, consultant.id)).not.toThrow();
+    expect(() => assertCanActFor(consultant, colleague.id)).toThrow(/only manage their own time/i);
+    expect(() => assertCanActFor(consultant, undefined)).toThrow(/only manage their own time/i);
+  });
+
+  it('should let project managers and administrators act for everyone', async () => {
+    const { consultant, manager, admin } = await createUsers();
+
+    expect(() => assertCanActFor(manager, consultant.id)).not.toThrow();
+    expect(() => assertCanActFor(manager, undefined)).not.toThrow();
+    expect(() => assertCanActFor(admin, consultant.id)).not.toThrow();
+  });
+
+  it('should only let consultants change their own time entries and expenses', async () => {
+    const { consultant, colleague, manager } = await createUsers();
+    const { entry, expense } = await createBookings(consultant.id);
+
+    await assertOwnsTimeEntry(consultant, entry.id);
+    await assertOwnsExpense(consultant, expense.id);
+    await assertOwnsTimeEntry(manager, entry.id);
+    await assertOwnsExpense(manager, expense.id);
+
+    await expect(assertOwnsTimeEntry(colleague, entry.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(assertOwnsExpense(colleague, expense.id)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should leave unknown IDs to the handlers', async () => {
+    const { consultant } = await createUsers();
+
+    await assertOwnsTimeEntry(consultant, 9999);
+    await assertOwnsExpense(consultant, 9999);
+  });
+});
+
+describe('appRouter procedures', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should require a session outside of login', async () => {
+    await expect(appCallerFor(null).getUsers()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    await expect(appCallerFor(null).getTimeEntriesByUser({ user_id: 1 })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should keep consultants out of management procedures', async () => {
+    const { consultant } = await createUsers();
+    const caller = appCallerFor(consultant);
+
+    await expect(caller.createUser({ email: 'new@example.com', name: 'New User', role: 'consultant', hourly_rate: null }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.createClient({ name: 'New Client', address: null, industry: null }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getPlanningBoard({ start_date: new Date('2024-01-15'), weeks: 1 }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.getProfitabilityReport({ start_date: new Date('2024-01-01'), end_date: new Date('2024-01-31') }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should only let consultants read and change their own time', async () => {
+    const { consultant, colleague } = await createUsers();
+    const { entry } = await createBookings(colleague.id);
+    const own = await createBookings(consultant.id);
+    const caller = appCallerFor(consultant);
+
+    await expect(caller.getTimeEntriesByUser({ user_id: colleague.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.updateTimeEntry({ id: entry.id, description: 'Not mine' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.deleteTimeEntry({ id: entry.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.setUserSkill({ user_id: colleague.id, skill_id: 1, level: 'expert' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const updated = await caller.updateTimeEntry({ id: own.entry.id, description: 'Mine' });
+    expect(updated.description).toEqual('Mine');
+    expect(await caller.getTimeEntriesByUser({ user_id: consultant.id })).toHaveLength(1);
+  });
+
+  it('should let project managers manage projects and everyone\'s time but not users', async () => {
+    const { consultant, manager } = await createUsers();
+    const { entry } = await createBookings(consultant.id);
+    const caller = appCallerFor(manager);
+
+    const client = await caller.createClient({ name: 'New Client', address: null, industry: null });
+    expect(client.name).toEqual('New Client');
+
+    const updated = await caller.updateTimeEntry({ id: entry.id, description: 'Reviewed' });
+    expect(updated.description).toEqual('Reviewed');
+
+    await expect(caller.createUser({ email: 'new@example.com', name: 'New User', role: 'consultant', hourly_rate: null }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should let administrators create users', async () => {
+    const { admin } = await createUsers();
+
+    const user = await appCallerFor(admin).createUser({ email: 'new@example.com', name: 'New User', role: 'consultant', hourly_rate: null });
+
+    expect(user.email).toEqual('new@example.com');
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { periodLocksTable, usersTable } from '../db/schema';
+import { unlockPeriod } from '../handlers/unlock_period';
+import { eq } from 'drizzle-orm';
+
+// Creates an administrator, a consultant and an active January lock
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'admin@example.com', name: 'Admin', role: 'administrator' },
+      { email: 'consultant@example.com', name: 'Consultant', role: 'consultant' }
+    ])
+    .returning()
+    .execute();
+
+  const lockResult = await db.insert(periodLocksTable)
+    .values({
+      start_date: '2024-01-01',
+      end_date: '2024-01-31',
+      reason: 'January invoiced',
+      locked_by: userResult[0].id
+    })
+    .returning()
+    .execute();
+
+  return { admin: userResult[0], consultant: userResult[1], lock: lockResult[0] };
+};
+
+describe('unlockPeriod', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record who reopened the period and why', async () => {
+    const { admin, lock } = await createTestData();
+
+    const result = await unlockPeriod({
+      lock_id: lock.id,
+      unlocked_by: admin.id,
+      reason: 'Credit note for missing hours'
+    });
+
+    expect(result.unlocked_by).toEqual(admin.id);
+    expect(result.unlocked_at).toBeInstanceOf(Date);
+    expect(result.unlock_reason).toEqual('Credit note for missing hours');
+
+    // The lock row is kept for the audit trail
+    const saved = await db.select()
+      .from(periodLocksTable)
+      .where(eq(periodLocksTable.id, lock.id))
+      .execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].reason).toEqual('January invoiced');
+  });
+
+  it('should only allow administrators', async () => {
+    const { consultant, lock } = await createTestData();
+
+    await expect(unlockPeriod({
+      lock_id: lock.id,
+      unlocked_by: consultant.id,
+      reason: 'Forgot hours'
+    })).rejects.toThrow(/only administrators can unlock/i);
+  });
+
+  it('should reject unlocking twice', async () => {
+    const { admin, lock } = await createTestData();
+
+    await unlockPeriod({ lock_id: lock.id, unlocked_by: admin.id, reason: 'Correction' });
+
+    await expect(unlockPeriod({ lock_id: lock.id, unlocked_by: admin.id, reason: 'Again' }))
+      .rejects.toThrow(/already unlocked/i);
+  });
+
+  it('should throw error when lock does not exist', async () => {
+    const { admin } = await createTestData();
+
+    await expect(unlockPeriod({ lock_id: 9999, unlocked_by: admin.id, reason: 'Correction' }))
+      .rejects.toThrow(/period lock with id 9999 does not exist/i);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assignmentsTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { updateAssignment } from '../handlers/update_assignment';
+import { eq } from 'drizzle-orm';
+
+// Creates a user with two consecutive assignments to one position
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values({ project_id: projectResult[0].id, name: 'Development' })
+    .returning()
+    .execute();
+
+  const assignmentResult = await db.insert(assignmentsTable)
+    .values([
+      { user_id: userResult[0].id, position_id: positionResult[0].id, start_date: '2024-01-01', end_date: '2024-01-31', planned_hours: '80' },
+      { user_id: userResult[0].id, position_id: positionResult[0].id, start_date: '2024-03-01', end_date: null }
+    ])
+    .returning()
+    .execute();
+
+  return { user: userResult[0], position: positionResult[0], assignments: assignmentResult };
+};
+
+describe('updateAssignment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const { assignments } = await createTestData();
+
+    const result = await updateAssignment({
+      assignment_id: assignments[0].id,
+      end_date: new Date('2024-02-15')
+    });
+
+    expect(result.start_date).toEqual('2024-01-01');
+    expect(result.end_date).toEqual('2024-02-15');
+    expect(result.planned_hours).toEqual(80);
+    expect(result.position_name).toEqual('Development');
+  });
+
+  it('should clear dates and planned hours with null', async () => {
+    const { assignments } = await createTestData();
+
+    const result = await updateAssignment({
+      assignment_id: assignments[0].id,
+      start_date: null,
+      planned_hours: null
+    });
+
+    expect(result.start_date).toBeNull();
+    expect(result.end_date).toEqual('2024-01-31');
+    expect(result.planned_hours).toBeNull();
+
+    const saved = await db.select()
+      .from(assignmentsTable)
+      .where(eq(assignmentsTable.id, assignments[0].id))
+      .execute();
+    expect(saved[0].planned_hours).toBeNull();
+  });
+
+  it('should reject extending into another assignment of the same position', async () => {
+    const { assignments } = await createTestData();
+
+    await expect(updateAssignment({
+      assignment_id: assignments[0].id,
+      end_date: null
+    })).rejects.toThrow(/already assigned to position/i);
+
+    await expect(updateAssignment({
+      assignment_id: assignments[1].id,
+      start_date: new Date('2024-02-20'),
+      end_date: new Date('2024-02-19')
+    })).rejects.toThrow(/end date must not be before start date/i);
+  });
+
+  it('should throw error when assignment does not exist', async () => {
+    await expect(updateAssignment({
+      assignment_id: 9999,
+      planned_hours: 10
+    })).rejects.toThrow(/assignment with id 9999 does not exist/i);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { expensesTable, invoicesTable, usersTable, clientsTable, projectsTable, positionsTable } from '../db/schema';
+import { updateExpense } from '../handlers/update_expense';
+import { createExpense } from '../handlers/create_expense';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Creates a client/project with two positions and one expense with a receipt
+const createTestData = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Test Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Test Project', status: 'active' })
+    .returning()
+    .execute();
+
+  const positions = await db.insert(positionsTable)
+    .values([
+      { project_id: project[0].id, name: 'Development' },
+      { project_id: project[0].id, name: 'Testing' }
+    ])
+    .returning()
+    .execute();
+
+  const expense = await createExpense({
+    user_id: user[0].id,
+    position_id: positions[0].id,
+    date: new Date('2024-01-15'),
+    amount: 50,
+    currency: 'USD',
+    category: 'travel',
+    description: 'Train ticket',
+    billable: true,
+    reimbursable: false,
+    receipt: { filename: 'ticket.png', content_base64: Buffer.from('png').toString('base64') }
+  });
+
+  return { client: client[0], positions, expense };
+};
+
+describe('updateExpense', () => {
+  let receiptsDir: string;
+
+  beforeEach(async () => {
+    await createDB();
+    receiptsDir = await mkdtemp(join(tmpdir(), 'receipts-'));
+    process.env['RECEIPTS_DIR'] = receiptsDir;
+  });
+
+  afterEach(async () => {
+    await resetDB();
+    await rm(receiptsDir, { recursive: true, force: true });
+    delete process.env['RECEIPTS_DIR'];
+  });
+
+  it('should update only the provided fields', async () => {
+    const { positions, expense } = await createTestData();
+
+    const result = await updateExpense({ id: expense.id, position_id: positions[1].id, amount: 62.4, billable: false });
+
+    expect(result.position_id).toEqual(positions[1].id);
+    expect(result.amount).toEqual(62.4);
+    expect(result.billable).toBe(false);
+    expect(result.description).toEqual('Train ticket');
+    expect(result.receipt_filename).toEqual('ticket.png');
+    expect(await readdir(receiptsDir)).toHaveLength(1);
+  });
+
+  it('should replace and remove the receipt', async () => {
+    const { expense } = await createTestData();
+    const [original] = await readdir(receiptsDir);
+
+    const replaced = await updateExpense({
+      id: expense.id,
+      receipt: { filename: 'invoice.pdf', content_base64: Buffer.from('%PDF').toString('base64') }
+    });
+
+    expect(replaced.receipt_filename).toEqual('invoice.pdf');
+    const files = await readdir(receiptsDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).not.toEqual(original);
+
+    const removed = await updateExpense({ id: expense.id, receipt: null });
+
+    expect(removed.receipt_filename).toBeNull();
+    expect(await readdir(receiptsDir)).toHaveLength(0);
+  });
+
+  it('should remove the new receipt when the update fails', async () => {
+    const { expense } = await createTestData();
+    const original = await readdir(receiptsDir);
+
+    // The amount overflows its numeric column after the receipt was written
+    await expect(updateExpense({
+      id: expense.id,
+      amount: 1e11,
+      receipt: { filename: 'invoice.pdf', content_base64: Buffer.from('%PDF').toString('base64') }
+    })).rejects.toThrow(/overflow/i);
+
+    expect(await readdir(receiptsDir)).toEqual(original);
+  });
+
+  it('should not change an invoiced expense', async () => {
+    const { client, expense } = await createTestData();
+
+    const invoice = await db.insert(invoicesTable)
+      .values({ client_id: client.id, period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '50.00', total: '50.00' })
+      .returning()
+      .execute();
+
+    await db.update(expensesTable)
+      .set({ invoice_id: invoice[0].id })
+      .where(eq(expensesTable.id, expense.id))
+      .execute();
+
+    await expect(updateExpense({ id: expense.id, amount: 10 })).rejects.toThrow(/is on invoice/i);
+  });
+
+  it('should throw error for non-existent expense or position', async () => {
+    const { expense } = await createTestData();
+
+    await expect(updateExpense({ id: 999, amount: 10 })).rejects.toThrow(/Expense with ID 999 does not exist/i);
+    await expect(updateExpense({ id: expense.id, position_id: 999 })).rejects.toThrow(/Position with ID 999 does not exist/i);
+  });
+});
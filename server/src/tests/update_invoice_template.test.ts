@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { invoiceTemplatesTable } from '../db/schema';
+import { updateInvoiceTemplate } from '../handlers/update_invoice_template';
+import { asc } from 'drizzle-orm';
+
+describe('updateInvoiceTemplate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTemplates = async () =>
+    await db.insert(invoiceTemplatesTable)
+      .values([
+        { name: 'Standard', body: '# Invoice', is_default: true },
+        { name: 'German', body: '# Rechnung' }
+      ])
+      .returning()
+      .execute();
+
+  it('should update the provided fields only', async () => {
+    const templates = await createTemplates();
+
+    const result = await updateInvoiceTemplate({ id: templates[1].id, body: '# Rechnung {{invoice_number}}' });
+
+    expect(result.name).toEqual('German');
+    expect(result.body).toEqual('# Rechnung {{invoice_number}}');
+    expect(result.is_default).toBe(false);
+  });
+
+  it('should move the default flag', async () => {
+    const templates = await createTemplates();
+
+    await updateInvoiceTemplate({ id: templates[1].id, is_default: true });
+
+    const saved = await db.select().from(invoiceTemplatesTable).orderBy(asc(invoiceTemplatesTable.id)).execute();
+    expect(saved[0].is_default).toBe(false);
+    expect(saved[1].is_default).toBe(true);
+  });
+
+  it('should validate the body and name', async () => {
+    const templates = await createTemplates();
+
+    await expect(updateInvoiceTemplate({ id: templates[1].id, body: '{{unknown}}' }))
+      .rejects.toThrow(/Unknown template placeholder/i);
+
+    await expect(updateInvoiceTemplate({ id: templates[1].id, name: 'Standard' }))
+      .rejects.toThrow(/named Standard already exists/i);
+
+    await expect(updateInvoiceTemplate({ id: 999, name: 'Other' }))
+      .rejects.toThrow(/Invoice template with ID 999 does not exist/i);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable, invoicesTable } from '../db/schema';
+import { updateMilestone } from '../handlers/update_milestone';
+
+const createMilestone = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' })
+    .returning()
+    .execute();
+
+  const milestone = await db.insert(milestonesTable)
+    .values({ project_id: project[0].id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31' })
+    .returning()
+    .execute();
+
+  return { client: client[0], milestone: milestone[0] };
+};
+
+describe('updateMilestone', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const { milestone } = await createMilestone();
+
+    const result = await updateMilestone({ id: milestone.id, amount: 2500, due_date: new Date('2024-02-15') });
+
+    expect(result.name).toEqual('Kick-off');
+    expect(result.amount).toEqual(2500);
+    expect(result.due_date).toEqual('2024-02-15');
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(milestone.updated_at.getTime());
+  });
+
+  it('should not change an invoiced milestone', async () => {
+    const { client, milestone } = await createMilestone();
+
+    const invoice = await db.insert(invoicesTable)
+      .values({ client_id: client.id, period_start: '2024-01-31', period_end: '2024-01-31', subtotal: '2000.00', total: '2000.00' })
+      .returning()
+      .execute();
+
+    await db.update(milestonesTable).set({ completed_on: '2024-01-31', invoice_id: invoice[0].id }).execute();
+
+    await expect(updateMilestone({ id: milestone.id, amount: 2500 }))
+      .rejects.toThrow(new RegExp(`is on invoice ${invoice[0].id} and cannot be changed`, 'i'));
+  });
+
+  it('should throw error for non-existent milestone', async () => {
+    await expect(updateMilestone({ id: 999, name: 'Renamed' }))
+      .rejects.toThrow(/Milestone with ID 999 does not exist/i);
+  });
+});
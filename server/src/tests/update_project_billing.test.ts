@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, milestonesTable } from '../db/schema';
+import { updateProjectBilling } from '../handlers/update_project_billing';
+
+const createProject = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Audit' })
+    .returning()
+    .execute();
+
+  return project[0];
+};
+
+describe('updateProjectBilling', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should switch the billing model and budget', async () => {
+    const project = await createProject();
+
+    const result = await updateProjectBilling({ project_id: project.id, billing_model: 'fixed_price', budget: 12000 });
+
+    expect(result.billing_model).toEqual('fixed_price');
+    expect(result.budget).toEqual(12000);
+    expect(typeof result.budget).toBe('number');
+  });
+
+  it('should require a budget unless billed by time and materials', async () => {
+    const project = await createProject();
+
+    await expect(updateProjectBilling({ project_id: project.id, billing_model: 'capped_time_and_materials', budget: null }))
+      .rejects.toThrow(/Capped time and materials projects need a budget/i);
+
+    const result = await updateProjectBilling({ project_id: project.id, billing_model: 'time_and_materials', budget: null });
+    expect(result.budget).toBeNull();
+  });
+
+  it('should keep projects with milestones fixed-price', async () => {
+    const project = await createProject();
+    await updateProjectBilling({ project_id: project.id, billing_model: 'fixed_price', budget: 12000 });
+
+    await db.insert(milestonesTable)
+      .values({ project_id: project.id, name: 'Kick-off', amount: '2000.00', due_date: '2024-01-31' })
+      .execute();
+
+    await expect(updateProjectBilling({ project_id: project.id, billing_model: 'time_and_materials', budget: null }))
+      .rejects.toThrow(/has milestones and must stay fixed-price/i);
+  });
+
+  it('should throw error for non-existent project', async () => {
+    await expect(updateProjectBilling({ project_id: 999, billing_model: 'time_and_materials', budget: null }))
+      .rejects.toThrow(/Project with ID 999 does not exist/i);
+  });
+});
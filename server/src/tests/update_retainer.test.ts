@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { clientsTable, projectsTable, retainersTable, retainerScopesTable } from '../db/schema';
+import { updateRetainer } from '../handlers/update_retainer';
+
+const createRetainers = async () => {
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Support' })
+    .returning()
+    .execute();
+
+  const retainers = await db.insert(retainersTable)
+    .values([
+      { client_id: client[0].id, name: 'H1', purchased_hours: '50.00', valid_from: '2024-01-01', valid_to: '2024-06-30' },
+      { client_id: client[0].id, name: 'H2', purchased_hours: '50.00', valid_from: '2024-07-01', valid_to: '2024-12-31' }
+    ])
+    .returning()
+    .execute();
+
+  await db.insert(retainerScopesTable)
+    .values(retainers.map(retainer => ({ retainer_id: retainer.id, project_id: project[0].id })))
+    .execute();
+
+  return retainers;
+};
+
+describe('updateRetainer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const [first] = await createRetainers();
+
+    const result = await updateRetainer({ id: first.id, name: 'First half', overrun_policy: 'block' });
+
+    expect(result.name).toEqual('First half');
+    expect(result.overrun_policy).toEqual('block');
+    expect(result.valid_to).toEqual('2024-06-30');
+    expect(result.purchased_hours).toEqual(50);
+    expect(result.scopes).toHaveLength(1);
+  });
+
+  it('should not extend a retainer into another one on the same scope', async () => {
+    const [first] = await createRetainers();
+
+    await expect(updateRetainer({ id: first.id, valid_to: new Date('2024-07-15') }))
+      .rejects.toThrow(/overlaps the existing retainer "H2"/i);
+
+    await expect(updateRetainer({ id: first.id, valid_to: new Date('2023-12-31') }))
+      .rejects.toThrow(/must not be before/i);
+
+    const result = await updateRetainer({ id: first.id, valid_to: new Date('2024-05-31') });
+    expect(result.valid_to).toEqual('2024-05-31');
+  });
+
+  it('should throw error for non-existent retainer', async () => {
+    await expect(updateRetainer({ id: 999, name: 'Renamed' }))
+      .rejects.toThrow(/Retainer with ID 999 does not exist/i);
+  });
+});
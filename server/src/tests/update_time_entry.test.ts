@@ -0,0 +1,255 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { timeEntriesTable, timeEntryRevisionsTable, timesheetsTable, periodLocksTable, invoicesTable, usersTable, clientsTable, projectsTable, positionsTable, assignmentsTable } from '../db/schema';
+import { type UpdateTimeEntryInput } from '../schema';
+import { updateTimeEntry } from '../handlers/update_time_entry';
+import { eq } from 'drizzle-orm';
+
+// Creates a user assigned to two positions of one project and one time entry
+const createTestData = async () => {
+  const userResult = await db.insert(usersTable)
+    .values({
+      email: 'consultant@example.com',
+      name: 'Test Consultant',
+      role: 'consultant'
+    })
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ name: 'Test Client' })
+    .returning()
+    .execute();
+
+  const projectResult = await db.insert(projectsTable)
+    .values({
+      client_id: clientResult[0].id,
+      name: 'Test Project',
+      status: 'active'
+    })
+    .returning()
+    .execute();
+
+  const positionResult = await db.insert(positionsTable)
+    .values([
+      { project_id: projectResult[0].id, name: 'Development' },
+      { project_id: projectResult[0].id, name: 'Testing' }
+    ])
+    .returning()
+    .execute();
+
+  await db.insert(assignmentsTable)
+    .values(positionResult.map(position => ({ user_id: userResult[0].id, position_id: position.id })))
+    .execute();
+
+  const entryResult = await db.insert(timeEntriesTable)
+    .values({
+      user_id: userResult[0].id,
+      position_id: positionResult[0].id,
+      description: 'Initial work',
+      hours: '8.00',
+      date: '2024-01-15',
+      billable: true
+    })
+    .returning()
+    .execute();
+
+  return {
+    user: userResult[0],
+    positions: positionResult,
+    entry: entryResult[0]
+  };
+};
+
+describe('updateTimeEntry', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update the provided fields', async () => {
+    const { user, positions, entry } = await createTestData();
+
+    const input: UpdateTimeEntryInput = {
+      id: entry.id,
+      changed_by: user.id,
+      position_id: positions[1].id,
+      hours: 6.5,
+      date: new Date('2024-01-16'),
+      billable: false
+    };
+
+    const result = await updateTimeEntry(input);
+
+    expect(result.id).toEqual(entry.id);
+    expect(result.position_id).toEqual(positions[1].id);
+    expect(result.hours).toEqual(6.5);
+    expect(typeof result.hours).toBe('number');
+    expect(result.date).toEqual(new Date('2024-01-16'));
+    expect(result.billable).toEqual(false);
+    expect(result.description).toEqual('Initial work'); // Untouched
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(entry.updated_at.getTime());
+  });
+
+  it('should save the changes to the database', async () => {
+    const { user, entry } = await createTestData();
+
+    await updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      description: null,
+      hours: 7.25
+    });
+
+    const saved = await db.select()
+      .from(timeEntriesTable)
+      .where(eq(timeEntriesTable.id, entry.id))
+      .execute();
+
+    expect(saved).toHaveLength(1);
+    expect(parseFloat(saved[0].hours)).toEqual(7.25);
+    expect(saved[0].description).toBeNull();
+    expect(saved[0].date).toEqual('2024-01-15');
+  });
+
+  it('should record a before/after revision', async () => {
+    const { user, entry } = await createTestData();
+
+    await updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      hours: 4
+    });
+
+    const revisions = await db.select()
+      .from(timeEntryRevisionsTable)
+      .where(eq(timeEntryRevisionsTable.time_entry_id, entry.id))
+      .execute();
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].action).toEqual('update');
+    expect(revisions[0].changed_by).toEqual(user.id);
+    expect(revisions[0].before).toMatchObject({ hours: 8, date: '2024-01-15', description: 'Initial work' });
+    expect(revisions[0].after).toMatchObject({ hours: 4, date: '2024-01-15', description: 'Initial work' });
+    expect(revisions[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw error when time entry does not exist', async () => {
+    const { user } = await createTestData();
+
+    await expect(updateTimeEntry({
+      id: 9999,
+      changed_by: user.id,
+      hours: 1
+    })).rejects.toThrow(/time entry with id 9999 does not exist/i);
+  });
+
+  it('should reject moving an entry to a position the user is not assigned to', async () => {
+    const { user, positions, entry } = await createTestData();
+
+    await db.delete(assignmentsTable)
+      .where(eq(assignmentsTable.position_id, positions[1].id))
+      .execute();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      position_id: positions[1].id
+    })).rejects.toThrow(/is not assigned to position/i);
+
+    // Hours can still be corrected on the original position
+    const result = await updateTimeEntry({ id: entry.id, changed_by: user.id, hours: 6 });
+    expect(result.hours).toEqual(6);
+  });
+
+  it('should only let hours be lowered once the assignment has ended', async () => {
+    const { user, positions, entry } = await createTestData();
+
+    await db.update(assignmentsTable)
+      .set({ end_date: '2024-01-10' })
+      .where(eq(assignmentsTable.position_id, positions[0].id))
+      .execute();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      hours: 10
+    })).rejects.toThrow(/is not assigned to position/i);
+
+    const result = await updateTimeEntry({ id: entry.id, changed_by: user.id, hours: 4, description: 'Corrected' });
+    expect(result.hours).toEqual(4);
+    expect(result.description).toEqual('Corrected');
+  });
+
+  it('should throw error when new position does not exist', async () => {
+    const { user, entry } = await createTestData();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      position_id: 9999
+    })).rejects.toThrow(/position with id 9999 does not exist/i);
+
+    // Nothing should have been written
+    const revisions = await db.select().from(timeEntryRevisionsTable).execute();
+    expect(revisions).toHaveLength(0);
+  });
+
+  it('should throw error when changing user does not exist', async () => {
+    const { entry } = await createTestData();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: 9999,
+      hours: 1
+    })).rejects.toThrow(/user with id 9999 does not exist/i);
+  });
+
+  it('should not move an entry into a submitted week', async () => {
+    const { user, entry } = await createTestData();
+
+    await db.insert(timesheetsTable)
+      .values({ user_id: user.id, week_start: '2024-01-22', status: 'submitted' })
+      .execute();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      date: new Date('2024-01-23')
+    })).rejects.toThrow(/week of 2024-01-22 is submitted/i);
+  });
+
+  it('should not edit entries inside a locked period', async () => {
+    const { user, entry } = await createTestData();
+
+    await db.insert(periodLocksTable)
+      .values({ start_date: '2024-01-01', end_date: '2024-01-31', locked_by: user.id })
+      .execute();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      hours: 2
+    })).rejects.toThrow(/is locked/i);
+  });
+
+  it('should not edit entries that are on an invoice', async () => {
+    const { user, entry } = await createTestData();
+
+    const clients = await db.select().from(clientsTable).execute();
+    const invoice = await db.insert(invoicesTable)
+      .values({ client_id: clients[0].id, period_start: '2024-01-01', period_end: '2024-01-31', subtotal: '800.00', total: '800.00' })
+      .returning()
+      .execute();
+
+    await db.update(timeEntriesTable)
+      .set({ invoice_id: invoice[0].id })
+      .where(eq(timeEntriesTable.id, entry.id))
+      .execute();
+
+    await expect(updateTimeEntry({
+      id: entry.id,
+      changed_by: user.id,
+      hours: 2
+    })).rejects.toThrow(/is on invoice/i);
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, projectsTable, positionsTable, timeEntriesTable, expensesTable, invoicesTable, milestonesTable } from '../db/schema';
+import { voidInvoice } from '../handlers/void_invoice';
+import { eq } from 'drizzle-orm';
+
+// Creates a finalized invoice holding one billed time entry
+const createFinalizedInvoice = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'consultant@example.com', name: 'Consultant', role: 'consultant' })
+    .returning()
+    .execute();
+
+  const client = await db.insert(clientsTable)
+    .values({ name: 'Acme Corp' })
+    .returning()
+    .execute();
+
+  const project = await db.insert(projectsTable)
+    .values({ client_id: client[0].id, name: 'Website', status: 'active' })
+    .returning()
+    .execute();
+
+  const position = await db.insert(positionsTable)
+    .values({ project_id: project[0].id, name: 'Backend', hourly_rate: '100.00' })
+    .returning()
+    .execute();
+
+  const invoice = await db.insert(invoicesTable)
+    .values({
+      client_id: client[0].id,
+      number: 'INV-2024-0001',
+      status: 'finalized',
+      period_start: '2024-01-01',
+      period_end: '2024-01-31',
+      subtotal: '800.00',
+      total: '800.00',
+      finalized_at: new Date()
+    })
+    .returning()
+    .execute();
+
+  await db.insert(timeEntriesTable)
+    .values({
+      user_id: user[0].id,
+      position_id: position[0].id,
+      hours: '8.00',
+      date: '2024-01-15',
+      billable: true,
+      invoice_id: invoice[0].id,
+      billed_at: new Date()
+    })
+    .execute();
+
+  await db.insert(expensesTable)
+    .values({
+      user_id: user[0].id,
+      position_id: position[0].id,
+      date: '2024-01-15',
+      amount: '40.00',
+      currency: 'USD',
+      category: 'travel',
+      invoice_id: invoice[0].id
+    })
+    .execute();
+
+  return { invoice: invoice[0] };
+};
+
+describe('voidInvoice', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should void the invoice and release its time entries', async () => {
+    const { invoice } = await createFinalizedInvoice();
+
+    const result = await voidInvoice({ invoice_id: invoice.id, reason: 'Wrong period' });
+
+    expect(result.status).toEqual('void');
+    expect(result.number).toEqual('INV-2024-0001'); // The number stays taken
+    expect(result.voided_at).toBeInstanceOf(Date);
+    expect(result.void_reason).toEqual('Wrong period');
+
+    const entries = await db.select().from(timeEntriesTable).execute();
+    expect(entries[0].invoice_id).toBeNull();
+    expect(entries[0].billed_at).toBeNull();
+
+    const expenses = await db.select().from(expensesTable).execute();
+    expect(expenses[0].invoice_id).toBeNull();
+  });
+
+  it('should release milestones so they can be invoiced again', async () => {
+    const { invoice } = await createFinalizedInvoice();
+
+    const project = await db.insert(projectsTable)
+      .values({ client_id: invoice.client_id, name: 'Audit', billing_model: 'fixed_price', budget: '12000.00' })
+      .returning()
+      .execute();
+
+    await db.insert(milestonesTable)
+      .values({
+        project_id: project[0].id,
+        name: 'Kick-off',
+        amount: '2000.00',
+        due_date: '2024-01-31',
+        completed_on: '2024-01-31',
+        invoice_id: invoice.id
+      })
+      .execute();
+
+    await voidInvoice({ invoice_id: invoice.id, reason: null });
+
+    const milestones = await db.select().from(milestonesTable).execute();
+    expect(milestones[0].invoice_id).toBeNull();
+    expect(milestones[0].completed_on).toEqual('2024-01-31'); // Still completed
+  });
+
+  it('should not void an invoice twice', async () => {
+    const { invoice } = await createFinalizedInvoice();
+
+    await voidInvoice({ invoice_id: invoice.id, reason: null });
+
+    await expect(voidInvoice({ invoice_id: invoice.id, reason: null }))
+      .rejects.toThrow(/is already void/i);
+  });
+
+  it('should not void an invoice with payments recorded', async () => {
+    const { invoice } = await createFinalizedInvoice();
+    await db.update(invoicesTable)
+      .set({ status: 'partially_paid', amount_paid: '300.00', sent_on: '2024-02-01', due_date: '2024-03-02' })
+      .where(eq(invoicesTable.id, invoice.id))
+      .execute();
+
+    await expect(voidInvoice({ invoice_id: invoice.id, reason: null }))
+      .rejects.toThrow(/has payments recorded/i);
+  });
+
+  it('should throw error for non-existent invoice', async () => {
+    await expect(voidInvoice({ invoice_id: 999, reason: null }))
+      .rejects.toThrow(/Invoice with ID 999 does not exist/i);
+  });
+});
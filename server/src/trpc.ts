@@ -0,0 +1,84 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { db } from './db';
+import { expensesTable, timeEntriesTable } from './db/schema';
+import { type User } from './schema';
+import { getSessionUser } from './helpers/auth';
+import { eq } from 'drizzle-orm';
+
+// Resolves the logged-in user from the "Authorization: Bearer <token>" header
+export async function createContext({ req }: CreateHTTPContextOptions) {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? null;
+  return { token, user: token !== null ? await getSessionUser(token) : null };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+
+export const publicProcedure = t.procedure;
+
+// Procedures that act as someone take them from the session, never from the input
+export const authedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (ctx.user === null || ctx.token === null) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Log in first' });
+  }
+  return next({ ctx: { token: ctx.token, user: ctx.user } });
+});
+
+/**
+ * Procedures limited to some roles of the user_role enum. Consultants manage their own
+ * time; project managers also manage clients, projects, positions, invoicing and
+ * approvals; administrators also manage users and rates.
+ */
+const roleProcedure = (roles: User['role'][], message: string) =>
+  authedProcedure.use(({ ctx, next }) => {
+    if (!roles.includes(ctx.user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message });
+    }
+    return next();
+  });
+
+export const managerProcedure = roleProcedure(
+  ['project_manager', 'administrator'],
+  'Only project managers and administrators can do this'
+);
+
+export const adminProcedure = roleProcedure(['administrator'], 'Only administrators can do this');
+
+// Consultants only see and change their own time; undefined means everyone's
+export const assertCanActFor = (user: User, userId: number | undefined) => {
+  if (user.role === 'consultant' && userId !== user.id) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Consultants can only manage their own time' });
+  }
+};
+
+// Unknown IDs pass, so the handler reports them as it always does
+export const assertOwnsTimeEntry = async (user: User, timeEntryId: number) => {
+  const entry = await db.select({ user_id: timeEntriesTable.user_id })
+    .from(timeEntriesTable)
+    .where(eq(timeEntriesTable.id, timeEntryId))
+    .limit(1)
+    .execute();
+
+  if (entry.length > 0) {
+    assertCanActFor(user, entry[0].user_id);
+  }
+};
+
+export const assertOwnsExpense = async (user: User, expenseId: number) => {
+  const expense = await db.select({ user_id: expensesTable.user_id })
+    .from(expensesTable)
+    .where(eq(expensesTable.id, expenseId))
+    .limit(1)
+    .execute();
+
+  if (expense.length > 0) {
+    assertCanActFor(user, expense[0].user_id);
+  }
+};